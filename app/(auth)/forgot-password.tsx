@@ -0,0 +1,25 @@
+import { View, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ForgotPasswordForm } from '../../components/auth/ForgotPasswordForm';
+
+export default function ForgotPasswordScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <ForgotPasswordForm
+        onNavigateToReset={() => router.push('/(auth)/reset-password')}
+        onNavigateToLogin={() => router.replace('/(auth)/login')}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+});
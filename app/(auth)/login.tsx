@@ -42,13 +42,19 @@ export default function LoginScreen() {
       {useVideo ? (
         <VideoBackground source={videoSource} overlayOpacity={0.5}>
           <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
-            <LoginForm onNavigateToSignUp={() => router.push('/(auth)/signup')} />
+            <LoginForm
+              onNavigateToSignUp={() => router.push('/(auth)/signup')}
+              onNavigateToForgotPassword={() => router.push('/(auth)/forgot-password')}
+            />
           </View>
         </VideoBackground>
       ) : (
         <AnimatedGradientBackground>
           <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
-            <LoginForm onNavigateToSignUp={() => router.push('/(auth)/signup')} />
+            <LoginForm
+              onNavigateToSignUp={() => router.push('/(auth)/signup')}
+              onNavigateToForgotPassword={() => router.push('/(auth)/forgot-password')}
+            />
           </View>
         </AnimatedGradientBackground>
       )}
@@ -0,0 +1,38 @@
+import { View, StyleSheet } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ResetPasswordForm } from '../../components/auth/ResetPasswordForm';
+import { useAuth } from '../../context/AuthContext';
+
+export default function ResetPasswordScreen() {
+  // Opened from the reset email as healthfitness://reset-password?token=...
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const { user, signOut } = useAuth();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+
+  const handleResetComplete = async () => {
+    // Every session was revoked by the reset, including this one
+    if (user) {
+      await signOut();
+    }
+    router.replace('/(auth)/login');
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <ResetPasswordForm
+        initialToken={token}
+        onResetComplete={handleResetComplete}
+        onNavigateToForgotPassword={() => router.replace('/(auth)/forgot-password')}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+});
@@ -0,0 +1,29 @@
+import { View, StyleSheet } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { VerifyEmailForm } from '../../components/auth/VerifyEmailForm';
+import { useAuth } from '../../context/AuthContext';
+
+export default function VerifyEmailScreen() {
+  // Opened from the verification email as healthfitness://verify-email?token=...
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const { user } = useAuth();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <VerifyEmailForm
+        initialToken={token}
+        onDone={() => router.replace(user ? '/(tabs)' : '/(auth)/login')}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+});
@@ -13,14 +13,15 @@ import { graphColors, graphGradients, getChartKitConfig, formatValue as formatGr
 import { prepareGraphPoints, prepareLastNDaysPoints, calculateTrend, getTrendIndicator } from '../../utils/graphHelpers';
 import { LinearGradient } from 'expo-linear-gradient';
 import { CircularProgress } from '../../components/common/CircularProgress';
+import { PendingSyncBadge } from '../../components/common/PendingSyncBadge';
 import { DailyHealthData } from '../../types';
-import { getDailyHealthData } from '../../services/api/health';
+import { healthRepository } from '../../services/repositories';
 import Constants from 'expo-constants';
 
 const screenWidth = Dimensions.get('window').width;
 
 export default function DashboardScreen() {
-  const { todayData, healthMetrics, refreshHealthData } = useHealth();
+  const { todayData, healthMetrics, refreshHealthData, getGoalsOn } = useHealth();
   const { user } = useAuth();
   const router = useRouter();
   const insets = useSafeAreaInsets();
@@ -109,7 +110,7 @@ export default function DashboardScreen() {
     if (!user) return;
     try {
       const dates = datePickerDates.map(d => format(d, 'yyyy-MM-dd'));
-      const dataPromises = dates.map(date => getDailyHealthData(date));
+      const dataPromises = dates.map(date => healthRepository.getDailyHealthData(date));
       const results = await Promise.all(dataPromises);
       
       const map = new Map<string, DailyHealthData>();
@@ -154,7 +155,7 @@ export default function DashboardScreen() {
       
       // Always fetch from Firebase when date changes
       console.log(`[Dashboard] Loading data from Firebase for date: ${dateStr}`);
-      const data = await getDailyHealthData(dateStr);
+      const data = await healthRepository.getDailyHealthData(dateStr);
       
       if (data) {
         console.log(`[Dashboard] Data loaded for ${dateStr}:`, {
@@ -187,7 +188,7 @@ export default function DashboardScreen() {
   const fetchDateDataInBackground = async (dateStr: string) => {
     if (!user) return;
     try {
-      const data = await getDailyHealthData(dateStr);
+      const data = await healthRepository.getDailyHealthData(dateStr);
       if (data) {
         setDateDataMap(prev => new Map(prev).set(dateStr, data));
       }
@@ -199,27 +200,18 @@ export default function DashboardScreen() {
   const loadWeeklyData = async () => {
     if (!user) return;
     try {
-      // TODO: Implement weekly health data query in GraphQL
-      // For now, load last 7 days individually
-      const dates = Array.from({ length: 7 }, (_, i) => {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        return format(date, 'yyyy-MM-dd');
-      });
-      
-      const dataPromises = dates.map(date => getDailyHealthData(date));
-      const results = await Promise.all(dataPromises);
-      
-      const weeklyData = results
-        .filter(data => data !== null)
-        .map(data => ({
-          date: data!.date,
-          steps: data!.steps,
-          caloriesConsumed: data!.caloriesConsumed,
-          caloriesBurned: data!.caloriesBurned,
-          waterIntake: data!.waterIntake,
-        }));
-      
+      const to = format(new Date(), 'yyyy-MM-dd');
+      const from = format(subDays(new Date(), 6), 'yyyy-MM-dd');
+      const buckets = await healthRepository.getHealthRange(from, to, 'day');
+
+      const weeklyData = buckets.map(bucket => ({
+        date: bucket.start,
+        steps: bucket.totalSteps,
+        caloriesConsumed: bucket.totalCaloriesConsumed,
+        caloriesBurned: bucket.totalCaloriesBurned,
+        waterIntake: bucket.totalWaterIntake,
+      }));
+
       setWeeklyData(weeklyData);
     } catch (error) {
       console.error('Error loading weekly data:', error);
@@ -229,32 +221,36 @@ export default function DashboardScreen() {
   // Use selected date data or today's data
   const displayData = isToday(selectedDate) ? todayData : selectedDateData;
   
-  // Calculate fasting/sleep progress
-  const activeFasting = displayData?.fastingSession && !displayData.fastingSession.endTime;
-  const completedFasting = displayData?.fastingSession?.endTime;
+  // Calculate fasting/sleep progress from the sessions overlapping this day
+  const daySessions = displayData?.fastingSessions || [];
+  const activeFasting = daySessions.find(session => !session.endTime);
+  const completedFasting = [...daySessions].reverse().find(session => session.endTime);
   let fastingProgress = 0;
   let fastingDuration = '0h 0m';
   let recoveryDuration = '0h 0m';
   
-  if (activeFasting && displayData.fastingSession) {
+  if (activeFasting) {
     const now = new Date();
-    const elapsedHours = differenceInHours(now, displayData.fastingSession.startTime);
-    const elapsedMinutes = differenceInMinutes(now, displayData.fastingSession.startTime) % 60;
+    const elapsedHours = differenceInHours(now, activeFasting.startTime);
+    const elapsedMinutes = differenceInMinutes(now, activeFasting.startTime) % 60;
     fastingDuration = `${elapsedHours}h ${elapsedMinutes}m`;
     recoveryDuration = fastingDuration;
     
-    if (displayData.fastingSession.targetDuration) {
+    if (activeFasting.targetDuration) {
       fastingProgress = Math.min(
-        (elapsedHours / displayData.fastingSession.targetDuration) * 100,
+        (elapsedHours / activeFasting.targetDuration) * 100,
         100
       );
     }
-  } else if (completedFasting && displayData.fastingSession) {
-    const hours = Math.floor(displayData.fastingSession.duration);
-    const minutes = Math.floor((displayData.fastingSession.duration - hours) * 60);
+  } else if (completedFasting) {
+    const hours = Math.floor(completedFasting.duration);
+    const minutes = Math.floor((completedFasting.duration - hours) * 60);
     recoveryDuration = `${hours}h ${minutes}m`;
   }
 
+  // A past day is judged against the goals that applied then
+  const dayGoals = getGoalsOn(format(selectedDate, 'yyyy-MM-dd'));
+
   // Format steps - use healthMetrics for today, displayData for past dates
   const steps = isToday(selectedDate) ? (healthMetrics.steps || 0) : (displayData?.steps || 0);
   
@@ -262,18 +258,18 @@ export default function DashboardScreen() {
   const zoneMinutes = Math.floor((displayData?.caloriesBurned || 0) / 10);
   
   // Mindful days (placeholder - could be based on meditation/fasting completion)
-  const mindfulDays = displayData?.fastingSession?.endTime ? 1 : 0;
+  const mindfulDays = completedFasting ? 1 : 0;
   
   // Water intake
   const waterIntake = displayData?.waterIntake || 0;
-  const waterGoal = 8; // 8 glasses per day
+  const waterGoal = dayGoals.waterGlasses;
   const waterProgress = Math.min((waterIntake / waterGoal) * 100, 100);
 
   // Calculate additional metrics
   const caloriesConsumed = displayData?.caloriesConsumed || 0;
   const caloriesBurned = displayData?.caloriesBurned || (isToday(selectedDate) ? healthMetrics.caloriesBurned : 0) || 0;
   const netCalories = caloriesConsumed - caloriesBurned;
-  const calorieGoal = 2000; // Default goal
+  const calorieGoal = dayGoals.caloriesIn;
   const calorieProgress = Math.min((caloriesConsumed / calorieGoal) * 100, 100);
   
   const meals = displayData?.meals || [];
@@ -433,6 +429,7 @@ export default function DashboardScreen() {
               {getGreeting()},
             </Text>
             <Text style={styles.userNameText}>{getUserDisplayName()}</Text>
+            <PendingSyncBadge />
           </View>
           <View style={styles.profileContainer}>
             <View style={styles.profilePicture}>
@@ -545,7 +542,7 @@ export default function DashboardScreen() {
                 <Ionicons name="footsteps" size={28} color="#4CAF50" />
               </View>
               <Text style={styles.activityValue}>{steps.toLocaleString()}</Text>
-              <Text style={styles.activityLabel}>Steps</Text>
+              <Text style={styles.activityLabel}>of {dayGoals.steps.toLocaleString()} steps</Text>
             </LinearGradient>
           </View>
           
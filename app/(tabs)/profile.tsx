@@ -1,29 +1,175 @@
-import React, { useEffect } from 'react';
-import { View, StyleSheet, Text, ScrollView, TouchableOpacity, Alert, Platform } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, Text, ScrollView, TouchableOpacity, Alert, Platform, Modal, Share } from 'react-native';
+import { File, Paths } from 'expo-file-system';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useAuth } from '../../context/AuthContext';
 import { useHealth } from '../../context/HealthContext';
 import { useRouter } from 'expo-router';
 import { Button } from '../../components/common/Button';
+import { Input } from '../../components/common/Input';
+import { BodyMeasurements } from '../../components/health/BodyMeasurements';
 import { Ionicons } from '@expo/vector-icons';
-import { getUserProfile } from '../../services/api/auth';
+import { getUserProfile, getSessions, revokeSession, exportMyData } from '../../services/api/auth';
 import { useWatchConnection } from '../../context/WatchConnectionContext';
 import { format } from 'date-fns';
+import { DeviceSession, GoalKey } from '../../types';
+import { GOAL_KEYS, GOAL_LIMITS } from '../../backend/src/shared/domain';
+
+const GOAL_FIELDS: Record<GoalKey, { label: string; unit: string }> = {
+  caloriesIn: { label: 'Calories Eaten', unit: 'kcal' },
+  caloriesOut: { label: 'Active Calories', unit: 'kcal' },
+  steps: { label: 'Steps', unit: 'steps' },
+  activeMinutes: { label: 'Active Minutes', unit: 'min' },
+  waterGlasses: { label: 'Water', unit: 'glasses' },
+  proteinGrams: { label: 'Protein', unit: 'g' },
+  carbsGrams: { label: 'Carbs', unit: 'g' },
+  fatGrams: { label: 'Fat', unit: 'g' },
+  fastingHours: { label: 'Fasting', unit: 'h' },
+  weeklyWorkouts: { label: 'Workouts per Week', unit: 'workouts' },
+};
 
 export default function ProfileScreen() {
-  const { user, userProfile, signOut } = useAuth();
-  const { flushTodayData } = useHealth();
+  const { user, userProfile, signOut, signOutEverywhere, deleteAccount } = useAuth();
+  const { flushTodayData, goals, updateGoals, getWeightOn } = useHealth();
   const { isConnected, disconnectWatch, lastConnectedAt } = useWatchConnection();
   const router = useRouter();
   const insets = useSafeAreaInsets();
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [showDeleteAccount, setShowDeleteAccount] = useState(false);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [showGoals, setShowGoals] = useState(false);
+  const [goalInputs, setGoalInputs] = useState<Record<string, string>>({});
+  const [savingGoals, setSavingGoals] = useState(false);
 
   // Refresh profile data from Firebase when screen mounts
   useEffect(() => {
     if (user) {
       getUserProfile().catch(console.error);
+      loadSessions();
     }
   }, [user]);
 
+  const loadSessions = async () => {
+    try {
+      setSessions(await getSessions());
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
+  };
+
+  const handleRevokeSession = (session: DeviceSession) => {
+    Alert.alert(
+      'Sign Out Device',
+      'This device will need to sign in again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeSession(session.id);
+              setSessions(prev => prev.filter(s => s.id !== session.id));
+            } catch (error: any) {
+              Alert.alert('Error', error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSignOutEverywhere = () => {
+    Alert.alert(
+      'Sign Out Everywhere',
+      'You will be signed out on all devices, including this one.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out Everywhere',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await flushTodayData();
+              await signOutEverywhere();
+              router.replace('/(auth)/login');
+            } catch (error: any) {
+              Alert.alert('Error', error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleExportData = async () => {
+    setExporting(true);
+    try {
+      const data = await exportMyData();
+      const file = new File(Paths.document, `healthfitness-export-${format(new Date(), 'yyyy-MM-dd')}.json`);
+      file.create({ overwrite: true });
+      file.write(JSON.stringify(data, null, 2));
+      await Share.share({ url: file.uri, title: 'Health Fitness data export' });
+    } catch (error: any) {
+      Alert.alert('Export Failed', error.message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDeleteAccount = async () => {
+    if (!deletePassword) {
+      Alert.alert('Password Required', 'Enter your password to delete your account.');
+      return;
+    }
+
+    setDeleting(true);
+    try {
+      await deleteAccount(deletePassword);
+      setShowDeleteAccount(false);
+      router.replace('/(auth)/login');
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setDeleting(false);
+      setDeletePassword('');
+    }
+  };
+
+  const handleEditGoals = () => {
+    setGoalInputs(Object.fromEntries(GOAL_KEYS.map(key => [key, String(goals[key])])));
+    setShowGoals(true);
+  };
+
+  const handleSaveGoals = async () => {
+    const changes: Partial<Record<GoalKey, number>> = {};
+    for (const key of GOAL_KEYS) {
+      const value = parseFloat(goalInputs[key]);
+      if (isNaN(value) || value <= 0 || value > GOAL_LIMITS[key]) {
+        Alert.alert('Invalid Goal', `${GOAL_FIELDS[key].label} must be between 0 and ${GOAL_LIMITS[key]}.`);
+        return;
+      }
+      if (value !== goals[key]) {
+        changes[key] = value;
+      }
+    }
+
+    setSavingGoals(true);
+    try {
+      // Past days keep the goals they had; these apply from today on
+      if (Object.keys(changes).length > 0) {
+        await updateGoals(changes);
+      }
+      setShowGoals(false);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setSavingGoals(false);
+    }
+  };
+
   const handleSignOut = async () => {
     Alert.alert(
       'Sign Out',
@@ -80,7 +226,7 @@ export default function ProfileScreen() {
           </View>
           <View style={styles.infoRow}>
             <Text style={styles.infoLabel}>Weight</Text>
-            <Text style={styles.infoValue}>{userProfile.weight} kg</Text>
+            <Text style={styles.infoValue}>{getWeightOn(format(new Date(), 'yyyy-MM-dd')) ?? userProfile.weight} kg</Text>
           </View>
           <View style={styles.infoRow}>
             <Text style={styles.infoLabel}>Height</Text>
@@ -101,6 +247,24 @@ export default function ProfileScreen() {
         </View>
       )}
 
+      <View style={styles.profileSection}>
+        <Text style={styles.sectionTitle}>Daily Goals</Text>
+        {GOAL_KEYS.map(key => (
+          <View key={key} style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{GOAL_FIELDS[key].label}</Text>
+            <Text style={styles.infoValue}>
+              {goals[key].toLocaleString()} {GOAL_FIELDS[key].unit}
+            </Text>
+          </View>
+        ))}
+        <TouchableOpacity style={styles.watchAction} onPress={handleEditGoals}>
+          <Ionicons name="create-outline" size={20} color="#4CAF50" />
+          <Text style={[styles.watchActionText, { color: '#4CAF50' }]}>Edit Goals</Text>
+        </TouchableOpacity>
+      </View>
+
+      <BodyMeasurements />
+
       {Platform.OS === 'ios' && (
         <View style={styles.watchSection}>
           <Text style={styles.sectionTitle}>Apple Watch</Text>
@@ -164,6 +328,64 @@ export default function ProfileScreen() {
           <Text style={styles.actionText}>Update Profile</Text>
           <Ionicons name="chevron-forward" size={24} color="#999" />
         </TouchableOpacity>
+        {user?.emailVerified === false && (
+          <TouchableOpacity
+            style={styles.actionItem}
+            onPress={() => router.push('/(auth)/verify-email')}
+          >
+            <Ionicons name="mail-unread" size={24} color="#FF6B35" />
+            <Text style={styles.actionText}>Verify Email</Text>
+            <Ionicons name="chevron-forward" size={24} color="#999" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.sessionsSection}>
+        <Text style={styles.sectionTitle}>Signed-in Devices</Text>
+        {sessions.map(session => (
+          <View key={session.id} style={styles.sessionRow}>
+            <Ionicons name="phone-portrait-outline" size={24} color="#666" />
+            <View style={styles.sessionInfo}>
+              <Text style={styles.sessionDevice} numberOfLines={1}>
+                {session.userAgent || 'Unknown device'}
+                {session.current ? ' (this device)' : ''}
+              </Text>
+              <Text style={styles.sessionDate}>
+                Last active {format(session.lastUsedAt, 'MMM d, yyyy HH:mm')}
+              </Text>
+            </View>
+            {!session.current && (
+              <TouchableOpacity onPress={() => handleRevokeSession(session)}>
+                <Ionicons name="close-circle" size={24} color="#FF6B35" />
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+        <TouchableOpacity style={styles.signOutEverywhere} onPress={handleSignOutEverywhere}>
+          <Ionicons name="log-out-outline" size={20} color="#FF6B35" />
+          <Text style={styles.signOutEverywhereText}>Sign Out Everywhere</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.actionsSection}>
+        <Text style={[styles.sectionTitle, styles.dataSectionTitle]}>Your Data</Text>
+        <TouchableOpacity
+          style={styles.actionItem}
+          onPress={handleExportData}
+          disabled={exporting}
+        >
+          <Ionicons name="download-outline" size={24} color="#4CAF50" />
+          <Text style={styles.actionText}>{exporting ? 'Preparing Export...' : 'Export My Data'}</Text>
+          <Ionicons name="chevron-forward" size={24} color="#999" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionItem}
+          onPress={() => setShowDeleteAccount(true)}
+        >
+          <Ionicons name="trash-outline" size={24} color="#FF6B35" />
+          <Text style={[styles.actionText, { color: '#FF6B35' }]}>Delete Account</Text>
+          <Ionicons name="chevron-forward" size={24} color="#999" />
+        </TouchableOpacity>
       </View>
 
       <Button
@@ -172,6 +394,84 @@ export default function ProfileScreen() {
         variant="outline"
         style={styles.signOutButton}
       />
+
+      <Modal
+        visible={showGoals}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowGoals(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, styles.goalsModalContent]}>
+            <Text style={styles.modalTitle}>Edit Goals</Text>
+            <Text style={styles.modalText}>
+              New goals apply from today. Earlier days keep the goals you had then.
+            </Text>
+            <ScrollView>
+              {GOAL_KEYS.map(key => (
+                <Input
+                  key={key}
+                  label={`${GOAL_FIELDS[key].label} (${GOAL_FIELDS[key].unit})`}
+                  value={goalInputs[key] ?? ''}
+                  onChangeText={text => setGoalInputs(prev => ({ ...prev, [key]: text }))}
+                  keyboardType="numeric"
+                />
+              ))}
+            </ScrollView>
+            <Button
+              title="Save Goals"
+              onPress={handleSaveGoals}
+              loading={savingGoals}
+              style={styles.saveGoalsButton}
+            />
+            <Button
+              title="Cancel"
+              variant="outline"
+              onPress={() => setShowGoals(false)}
+              disabled={savingGoals}
+            />
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={showDeleteAccount}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowDeleteAccount(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Delete Account</Text>
+            <Text style={styles.modalText}>
+              This permanently deletes your health history, friends and notifications. Clans you
+              own are handed to an admin or member, or dissolved if nobody is left. This cannot be undone.
+            </Text>
+            <Input
+              label="Password"
+              value={deletePassword}
+              onChangeText={setDeletePassword}
+              placeholder="Enter your password to confirm"
+              secureTextEntry
+            />
+            <Button
+              title="Delete My Account"
+              onPress={handleDeleteAccount}
+              loading={deleting}
+              style={styles.deleteButton}
+            />
+            <Button
+              title="Cancel"
+              variant="outline"
+              onPress={() => {
+                setShowDeleteAccount(false);
+                setDeletePassword('');
+              }}
+              disabled={deleting}
+            />
+          </View>
+        </View>
+      </Modal>
     </ScrollView>
   );
 }
@@ -252,6 +552,46 @@ const styles = StyleSheet.create({
     color: '#333',
     marginLeft: 12,
   },
+  sessionsSection: {
+    backgroundColor: '#fff',
+    marginTop: 20,
+    padding: 20,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  sessionInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  sessionDevice: {
+    fontSize: 16,
+    color: '#333',
+  },
+  sessionDate: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  signOutEverywhere: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#F5F5F5',
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  signOutEverywhereText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF6B35',
+    marginLeft: 8,
+  },
   signOutButton: {
     margin: 20,
     marginTop: 40,
@@ -313,4 +653,44 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 8,
   },
+  dataSectionTitle: {
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    marginBottom: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    width: '90%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  modalText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  deleteButton: {
+    backgroundColor: '#FF6B35',
+    marginBottom: 12,
+  },
+  goalsModalContent: {
+    maxHeight: '85%',
+  },
+  saveGoalsButton: {
+    marginTop: 8,
+    marginBottom: 12,
+  },
 });
@@ -14,95 +14,41 @@ import { useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../context/AuthContext';
+import { useCommunity } from '../../context/CommunityContext';
 import { UserCard } from '../../components/community/UserCard';
-import {
-  getAllUsers,
-  sendFriendRequest,
-  acceptFriendRequest,
-  rejectFriendRequest,
-  cancelFriendRequest,
-  UserWithStatus,
-} from '../../services/community/friends';
-import { searchAllUsers } from '../../services/community/userSearch';
+import { communityRepository } from '../../services/repositories';
+import { SearchableUser } from '../../types';
+
+const PAGE_SIZE = 50;
 
 export default function AllUsersScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
-  const [users, setUsers] = useState<UserWithStatus[]>([]);
+  const { friends, sentRequests, receivedRequests, refreshFriends } = useCommunity();
+  const [users, setUsers] = useState<SearchableUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [lastDoc, setLastDoc] = useState<any>(null);
   const [hasMore, setHasMore] = useState(true);
 
+  // Loading more asks for a longer list, so results stay in one consistent order
   const loadUsers = useCallback(async (refresh = false, searchTerm?: string) => {
     if (!user) return;
 
     try {
       if (refresh) {
         setRefreshing(true);
-        setLastDoc(null);
         setUsers([]);
       } else {
         setLoading(true);
       }
 
-      // If searching, use cloud function; otherwise use getAllUsers (has friend status)
-      if (searchTerm || searchQuery) {
-        try {
-          const cloudResult = await searchAllUsers(
-            searchTerm || searchQuery,
-            50,
-            refresh ? undefined : lastDoc?.id
-          );
-
-          // Convert to UserWithStatus format (friend status will be checked separately)
-          const usersWithStatus: UserWithStatus[] = cloudResult.users.map(u => ({
-            uid: u.uid,
-            displayName: u.displayName,
-            email: u.email,
-            photoURL: u.photoURL,
-            usernameLower: u.usernameLower,
-            isFriend: false,
-            friendRequestStatus: 'none' as const,
-          }));
-
-          if (refresh) {
-            setUsers(usersWithStatus);
-          } else {
-            setUsers(prev => [...prev, ...usersWithStatus]);
-          }
-
-          setLastDoc(cloudResult.lastDocId ? { id: cloudResult.lastDocId } : null);
-          setHasMore(cloudResult.hasMore);
-        } catch (cloudError) {
-          console.warn('[AllUsers] Cloud function failed:', cloudError);
-          // Fallback to getAllUsers
-          const result = await getAllUsers(user.uid, 50, refresh ? null : lastDoc);
-          
-          if (refresh) {
-            setUsers(result.users);
-          } else {
-            setUsers(prev => [...prev, ...result.users]);
-          }
+      const limit = refresh ? PAGE_SIZE : users.length + PAGE_SIZE;
+      const found = await communityRepository.searchUsers(searchTerm ?? searchQuery, limit);
 
-          setLastDoc(result.lastDoc);
-          setHasMore(result.users.length === 50);
-        }
-      } else {
-        // Use getAllUsers for full list with friend status
-        const result = await getAllUsers(user.uid, 50, refresh ? null : lastDoc);
-        
-        if (refresh) {
-          setUsers(result.users);
-        } else {
-          setUsers(prev => [...prev, ...result.users]);
-        }
-
-        setLastDoc(result.lastDoc);
-        setHasMore(result.users.length === 50);
-      }
+      setUsers(found.filter(u => u.uid !== user.uid));
+      setHasMore(found.length === limit);
     } catch (error) {
       console.error('[AllUsers] Error loading users:', error);
       Alert.alert('Error', 'Failed to load users. Please try again.');
@@ -110,7 +56,7 @@ export default function AllUsersScreen() {
       setLoading(false);
       setRefreshing(false);
     }
-  }, [user, lastDoc, searchQuery]);
+  }, [user, users.length, searchQuery]);
 
   useEffect(() => {
     loadUsers(true);
@@ -131,19 +77,8 @@ export default function AllUsersScreen() {
     if (!user) return;
 
     try {
-      await sendFriendRequest(user.uid, targetUid);
-      // Update local state
-      setUsers(prev =>
-        prev.map(u =>
-          u.uid === targetUid
-            ? {
-                ...u,
-                friendRequestStatus: 'pending',
-                friendRequestId: `${user.uid}_${targetUid}`,
-              }
-            : u
-        )
-      );
+      await communityRepository.sendFriendRequest(targetUid);
+      await refreshFriends();
       Alert.alert('Success', 'Friend request sent!');
     } catch (error: any) {
       console.error('[AllUsers] Error sending friend request:', error);
@@ -151,23 +86,12 @@ export default function AllUsersScreen() {
     }
   };
 
-  const handleAcceptRequest = async (fromUid: string, toUid: string) => {
+  const handleAcceptRequest = async (fromUid: string) => {
     if (!user) return;
 
     try {
-      await acceptFriendRequest(fromUid, toUid);
-      // Update local state
-      setUsers(prev =>
-        prev.map(u =>
-          u.uid === fromUid
-            ? {
-                ...u,
-                isFriend: true,
-                friendRequestStatus: 'accepted',
-              }
-            : u
-        )
-      );
+      await communityRepository.acceptFriendRequest(fromUid);
+      await refreshFriends();
       Alert.alert('Success', 'Friend request accepted!');
     } catch (error: any) {
       console.error('[AllUsers] Error accepting friend request:', error);
@@ -175,62 +99,23 @@ export default function AllUsersScreen() {
     }
   };
 
-  const handleRejectRequest = async (fromUid: string, toUid: string) => {
+  const handleRejectRequest = async (fromUid: string) => {
     if (!user) return;
 
     try {
-      await rejectFriendRequest(fromUid, toUid);
-      // Update local state
-      setUsers(prev =>
-        prev.map(u =>
-          u.uid === fromUid
-            ? {
-                ...u,
-                friendRequestStatus: 'none',
-                friendRequestId: undefined,
-              }
-            : u
-        )
-      );
+      await communityRepository.rejectFriendRequest(fromUid);
+      await refreshFriends();
     } catch (error: any) {
       console.error('[AllUsers] Error rejecting friend request:', error);
       Alert.alert('Error', error.message || 'Failed to reject friend request');
     }
   };
 
-  const handleCancelRequest = async (fromUid: string, toUid: string) => {
-    if (!user) return;
-
-    try {
-      await cancelFriendRequest(fromUid, toUid);
-      // Update local state
-      setUsers(prev =>
-        prev.map(u =>
-          u.uid === toUid
-            ? {
-                ...u,
-                friendRequestStatus: 'none',
-                friendRequestId: undefined,
-              }
-            : u
-        )
-      );
-    } catch (error: any) {
-      console.error('[AllUsers] Error canceling friend request:', error);
-      Alert.alert('Error', error.message || 'Failed to cancel friend request');
-    }
-  };
-
-  const getFriendStatus = (userWithStatus: UserWithStatus): 'none' | 'friend' | 'sent' | 'received' | 'self' => {
-    if (!user || userWithStatus.uid === user.uid) return 'self';
-    if (userWithStatus.isFriend) return 'friend';
-    if (userWithStatus.friendRequestStatus === 'pending') {
-      // Check if we sent it or received it
-      if (userWithStatus.friendRequestId?.startsWith(user.uid)) {
-        return 'sent';
-      }
-      return 'received';
-    }
+  const getFriendStatus = (uid: string): 'none' | 'friend' | 'sent' | 'received' | 'self' => {
+    if (!user || uid === user.uid) return 'self';
+    if (friends.some(f => f.friendUid === uid)) return 'friend';
+    if (sentRequests.some(r => r.toUid === uid)) return 'sent';
+    if (receivedRequests.some(r => r.fromUid === uid)) return 'received';
     return 'none';
   };
 
@@ -310,7 +195,7 @@ export default function AllUsersScreen() {
           ) : (
             <>
               {filteredUsers.map((userItem) => {
-                const status = getFriendStatus(userItem);
+                const status = getFriendStatus(userItem.uid);
                 return (
                   <UserCard
                     key={userItem.uid}
@@ -321,12 +206,8 @@ export default function AllUsersScreen() {
                     friendStatus={status}
                     onPress={() => router.push(`/community/user-profile/${userItem.uid}`)}
                     onAddFriend={() => handleAddFriend(userItem.uid)}
-                    onAcceptRequest={() =>
-                      handleAcceptRequest(userItem.uid, user?.uid || '')
-                    }
-                    onRejectRequest={() =>
-                      handleRejectRequest(userItem.uid, user?.uid || '')
-                    }
+                    onAcceptRequest={() => handleAcceptRequest(userItem.uid)}
+                    onRejectRequest={() => handleRejectRequest(userItem.uid)}
                   />
                 );
               })}
@@ -3,9 +3,7 @@ import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, ActivityIn
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../../context/AuthContext';
-import * as clansService from '../../../services/community/clans';
-import * as ringStatsService from '../../../services/community/ringStats';
-import * as userSearchService from '../../../services/community/userSearch';
+import { communityRepository } from '../../../services/repositories';
 import { ClanMember } from '../../../types';
 import { format } from 'date-fns';
 import { FitnessRings } from '../../../components/community/FitnessRings';
@@ -27,8 +25,8 @@ export default function ClanDetailScreen() {
 
       try {
         const [clanData, membersData] = await Promise.all([
-          clansService.getClan(clanId),
-          clansService.getClanMembers(clanId),
+          communityRepository.getClan(clanId),
+          communityRepository.getClanMembers(clanId),
         ]);
 
         setClan(clanData);
@@ -40,7 +38,7 @@ export default function ClanDetailScreen() {
         // Load member info
         const info = await Promise.all(
           membersData.map(async (member) => {
-            const userInfo = await userSearchService.getUserById(member.uid);
+            const userInfo = await communityRepository.getUser(member.uid);
             return userInfo ? { ...member, ...userInfo } : null;
           })
         );
@@ -48,7 +46,7 @@ export default function ClanDetailScreen() {
 
         // Load leaderboard (today's ring stats)
         const today = format(new Date(), 'yyyyMMdd');
-        const stats = await ringStatsService.getClanRingStats(clanId, today);
+        const stats = await communityRepository.getClanRingStats(clanId, today);
         setLeaderboard(stats.sort((a, b) => b.stats.caloriesBurned - a.stats.caloriesBurned));
       } catch (error) {
         console.error('Error loading clan data:', error);
@@ -63,7 +61,7 @@ export default function ClanDetailScreen() {
   const handleLeaveClan = async () => {
     if (!clanId) return;
     try {
-      await clansService.leaveClan(clanId);
+      await communityRepository.leaveClan(clanId);
       router.back();
     } catch (error) {
       console.error('Error leaving clan:', error);
@@ -73,9 +71,9 @@ export default function ClanDetailScreen() {
   const handleRemoveMember = async (memberUid: string) => {
     if (!clanId) return;
     try {
-      await clansService.removeClanMember(clanId, memberUid);
+      await communityRepository.removeClanMember(clanId, memberUid);
       // Reload data
-      const membersData = await clansService.getClanMembers(clanId);
+      const membersData = await communityRepository.getClanMembers(clanId);
       setMembers(membersData);
     } catch (error) {
       console.error('Error removing member:', error);
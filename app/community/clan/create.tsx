@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, TextInput, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Button } from '../../../components/common/Button';
-import * as clansService from '../../../services/community/clans';
+import { communityRepository } from '../../../services/repositories';
 
 export default function CreateClanScreen() {
   const router = useRouter();
@@ -19,8 +19,8 @@ export default function CreateClanScreen() {
 
     setLoading(true);
     try {
-      const result = await clansService.createClan(name.trim(), description.trim(), privacy);
-      router.replace(`/community/clan/${result.clanId}`);
+      const result = await communityRepository.createClan(name.trim(), description.trim(), privacy);
+      router.replace(`/community/clan/${result.id}`);
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to create clan');
     } finally {
@@ -5,7 +5,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useCommunity } from '../../context/CommunityContext';
 import { ClanCard } from '../../components/community/ClanCard';
 import { useState, useEffect } from 'react';
-import * as clansService from '../../services/community/clans';
+import { communityRepository } from '../../services/repositories';
 
 export default function ClansScreen() {
   const router = useRouter();
@@ -16,7 +16,7 @@ export default function ClansScreen() {
     const loadClanMembers = async () => {
       const clansData = await Promise.all(
         clans.map(async (clan) => {
-          const members = await clansService.getClanMembers(clan.id);
+          const members = await communityRepository.getClanMembers(clan.id);
           const userMember = members.find(m => m.uid === clan.ownerUid);
           return {
             ...clan,
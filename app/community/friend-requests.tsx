@@ -2,8 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet, ScrollView } from 'react-native';
 import { useCommunity } from '../../context/CommunityContext';
 import { FriendRequestCard } from '../../components/community/FriendRequestCard';
-import * as friendsService from '../../services/community/friends';
-import * as userSearchService from '../../services/community/userSearch';
+import { communityRepository } from '../../services/repositories';
 import { useState, useEffect } from 'react';
 
 export default function FriendRequestsScreen() {
@@ -15,7 +14,7 @@ export default function FriendRequestsScreen() {
     const loadReceivedInfo = async () => {
       const info = await Promise.all(
         receivedRequests.map(async (request) => {
-          const userInfo = await userSearchService.getUserById(request.fromUid);
+          const userInfo = await communityRepository.getUser(request.fromUid);
           return userInfo ? { request, userInfo } : null;
         })
       );
@@ -25,7 +24,7 @@ export default function FriendRequestsScreen() {
     const loadSentInfo = async () => {
       const info = await Promise.all(
         sentRequests.map(async (request) => {
-          const userInfo = await userSearchService.getUserById(request.toUid);
+          const userInfo = await communityRepository.getUser(request.toUid);
           return userInfo ? { request, userInfo } : null;
         })
       );
@@ -41,7 +40,7 @@ export default function FriendRequestsScreen() {
 
   const handleAccept = async (fromUid: string) => {
     try {
-      await friendsService.respondFriendRequest(fromUid, 'accept');
+      await communityRepository.acceptFriendRequest(fromUid);
       await refreshFriends();
     } catch (error) {
       console.error('Error accepting request:', error);
@@ -50,7 +49,7 @@ export default function FriendRequestsScreen() {
 
   const handleReject = async (fromUid: string) => {
     try {
-      await friendsService.respondFriendRequest(fromUid, 'reject');
+      await communityRepository.rejectFriendRequest(fromUid);
       await refreshFriends();
     } catch (error) {
       console.error('Error rejecting request:', error);
@@ -59,7 +58,7 @@ export default function FriendRequestsScreen() {
 
   const handleCancel = async (toUid: string) => {
     try {
-      await friendsService.cancelFriendRequest(toUid);
+      await communityRepository.cancelFriendRequest(toUid);
       await refreshFriends();
     } catch (error) {
       console.error('Error canceling request:', error);
@@ -3,7 +3,7 @@ import { View, Text, StyleSheet, ScrollView } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useCommunity } from '../../context/CommunityContext';
 import { UserCard } from '../../components/community/UserCard';
-import * as userSearchService from '../../services/community/userSearch';
+import { communityRepository } from '../../services/repositories';
 import { useState, useEffect } from 'react';
 
 export default function FriendsScreen() {
@@ -15,7 +15,7 @@ export default function FriendsScreen() {
     const loadFriendsInfo = async () => {
       const info = await Promise.all(
         friends.map(async (friend) => {
-          const userInfo = await userSearchService.getUserById(friend.friendUid);
+          const userInfo = await communityRepository.getUser(friend.friendUid);
           return userInfo ? { ...friend, ...userInfo } : null;
         })
       );
@@ -12,7 +12,9 @@ export default function NotificationsScreen() {
     await markNotificationRead(notification.id);
     
     // Navigate based on notification type
-    if (notification.data.fromUid) {
+    if (notification.data.recipeId) {
+      router.push('/recipes');
+    } else if (notification.data.fromUid) {
       router.push(`/community/user-profile/${notification.data.fromUid}`);
     } else if (notification.data.clanId) {
       router.push(`/community/clan/${notification.data.clanId}`);
@@ -2,18 +2,16 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, TextInput, ScrollView, ActivityIndicator, TouchableOpacity } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import * as userSearchService from '../../services/community/userSearch';
+import { communityRepository } from '../../services/repositories';
 import { UserCard } from '../../components/community/UserCard';
 import { useCommunity } from '../../context/CommunityContext';
 import { useAuth } from '../../context/AuthContext';
-import * as friendsService from '../../services/community/friends';
 
 export default function SearchScreen() {
   const router = useRouter();
   const { user } = useAuth();
   const { friends, sentRequests, receivedRequests, refreshFriends } = useCommunity();
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchType, setSearchType] = useState<'username' | 'email'>('username');
   const [results, setResults] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
 
@@ -25,10 +23,7 @@ export default function SearchScreen() {
 
     setLoading(true);
     try {
-      const searchResults =
-        searchType === 'username'
-          ? await userSearchService.searchUsersByUsername(searchQuery)
-          : await userSearchService.searchUsersByEmail(searchQuery);
+      const searchResults = await communityRepository.searchUsers(searchQuery);
       setResults(searchResults.filter(u => u.uid !== user?.uid));
     } catch (error) {
       console.error('Search error:', error);
@@ -47,7 +42,7 @@ export default function SearchScreen() {
 
   const handleAddFriend = async (toUid: string) => {
     try {
-      await friendsService.sendFriendRequest(toUid);
+      await communityRepository.sendFriendRequest(toUid);
       await refreshFriends();
     } catch (error) {
       console.error('Error sending friend request:', error);
@@ -56,7 +51,7 @@ export default function SearchScreen() {
 
   const handleAcceptRequest = async (fromUid: string) => {
     try {
-      await friendsService.respondFriendRequest(fromUid, 'accept');
+      await communityRepository.acceptFriendRequest(fromUid);
       await refreshFriends();
     } catch (error) {
       console.error('Error accepting request:', error);
@@ -65,7 +60,7 @@ export default function SearchScreen() {
 
   const handleRejectRequest = async (fromUid: string) => {
     try {
-      await friendsService.respondFriendRequest(fromUid, 'reject');
+      await communityRepository.rejectFriendRequest(fromUid);
       await refreshFriends();
     } catch (error) {
       console.error('Error rejecting request:', error);
@@ -83,7 +78,7 @@ export default function SearchScreen() {
           <Ionicons name="search" size={20} color="#999" style={styles.searchIcon} />
           <TextInput
             style={styles.input}
-            placeholder={`Search by ${searchType}...`}
+            placeholder="Search by name, username or email..."
             value={searchQuery}
             onChangeText={setSearchQuery}
             onSubmitEditing={handleSearch}
@@ -95,25 +90,6 @@ export default function SearchScreen() {
             </TouchableOpacity>
           )}
         </View>
-
-        <View style={styles.toggleContainer}>
-          <TouchableOpacity
-            style={[styles.toggle, searchType === 'username' && styles.toggleActive]}
-            onPress={() => setSearchType('username')}
-          >
-            <Text style={[styles.toggleText, searchType === 'username' && styles.toggleTextActive]}>
-              Username
-            </Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.toggle, searchType === 'email' && styles.toggleActive]}
-            onPress={() => setSearchType('email')}
-          >
-            <Text style={[styles.toggleText, searchType === 'email' && styles.toggleTextActive]}>
-              Email
-            </Text>
-          </TouchableOpacity>
-        </View>
       </View>
 
       {loading ? (
@@ -183,29 +159,6 @@ const styles = StyleSheet.create({
     height: 44,
     fontSize: 16,
   },
-  toggleContainer: {
-    flexDirection: 'row',
-    gap: 8,
-  },
-  toggle: {
-    flex: 1,
-    paddingVertical: 8,
-    paddingHorizontal: 16,
-    borderRadius: 8,
-    backgroundColor: '#f5f5f5',
-    alignItems: 'center',
-  },
-  toggleActive: {
-    backgroundColor: '#4CAF50',
-  },
-  toggleText: {
-    fontSize: 14,
-    color: '#666',
-    fontWeight: '500',
-  },
-  toggleTextActive: {
-    color: '#fff',
-  },
   results: {
     flex: 1,
     padding: 16,
@@ -5,9 +5,7 @@ import { useAuth } from '../../../context/AuthContext';
 import { useCommunity } from '../../../context/CommunityContext';
 import { UserCard } from '../../../components/community/UserCard';
 import { FitnessRings } from '../../../components/community/FitnessRings';
-import * as userSearchService from '../../../services/community/userSearch';
-import * as friendsService from '../../../services/community/friends';
-import * as ringStatsService from '../../../services/community/ringStats';
+import { communityRepository } from '../../../services/repositories';
 import { format } from 'date-fns';
 
 export default function UserProfileScreen() {
@@ -24,13 +22,13 @@ export default function UserProfileScreen() {
       if (!uid) return;
 
       try {
-        const info = await userSearchService.getUserById(uid);
+        const info = await communityRepository.getUser(uid);
         setUserInfo(info);
 
         if (info) {
           // Load ring stats for today
           const today = format(new Date(), 'yyyyMMdd');
-          const stats = await ringStatsService.getRingStats(user?.uid || '', uid, today);
+          const stats = await communityRepository.getRingStats(uid, today);
           setRingStats(stats);
         }
       } catch (error) {
@@ -54,7 +52,7 @@ export default function UserProfileScreen() {
   const handleAddFriend = async () => {
     if (!uid) return;
     try {
-      await friendsService.sendFriendRequest(uid);
+      await communityRepository.sendFriendRequest(uid);
       await refreshFriends();
     } catch (error) {
       console.error('Error sending friend request:', error);
@@ -64,7 +62,7 @@ export default function UserProfileScreen() {
   const handleAcceptRequest = async () => {
     if (!uid) return;
     try {
-      await friendsService.respondFriendRequest(uid, 'accept');
+      await communityRepository.acceptFriendRequest(uid);
       await refreshFriends();
     } catch (error) {
       console.error('Error accepting request:', error);
@@ -74,7 +72,7 @@ export default function UserProfileScreen() {
   const handleRejectRequest = async () => {
     if (!uid) return;
     try {
-      await friendsService.respondFriendRequest(uid, 'reject');
+      await communityRepository.rejectFriendRequest(uid);
       await refreshFriends();
     } catch (error) {
       console.error('Error rejecting request:', error);
@@ -0,0 +1,703 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TextInput, TouchableOpacity, Alert } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { addDays, format, parseISO } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { useHealth } from '../context/HealthContext';
+import { healthRepository, mealPlanRepository } from '../services/repositories';
+import { VersionConflictError } from '../services/api/health';
+import { outboxService } from '../services/sync/outbox';
+import { FoodSearch } from '../components/health/FoodSearch';
+import { MealTextEntry } from '../components/health/MealTextEntry';
+import { Button } from '../components/common/Button';
+import { MealItem, MealSuggestion, MealType, PlannedMeal, PlannedMealInput } from '../types';
+import { FoodPortion, describeItemAmount, mealTotals, portionToItem } from '../utils/foods';
+import { plannedMealToMeal, plannedTotals, shoppingList, suggestionToPlannedMeal } from '../utils/mealPlan';
+
+const MEAL_TYPES: Array<{ label: string; value: MealType }> = [
+  { label: 'Breakfast', value: 'breakfast' },
+  { label: 'Lunch', value: 'lunch' },
+  { label: 'Dinner', value: 'dinner' },
+  { label: 'Snack', value: 'snack' },
+];
+
+// How many days the planner shows, and the shopping list covers, at once
+const RANGE_OPTIONS = [3, 7, 14];
+
+const dateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// The planned meal open in the editor; without one, a new meal for the day
+interface Editing {
+  plannedMeal?: PlannedMeal;
+  date: string;
+}
+
+export default function MealPlanScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { addMeal, getGoalsOn } = useHealth();
+  const [start, setStart] = useState(() => dateKey(new Date()));
+  const [rangeDays, setRangeDays] = useState(7);
+  const [plannedMeals, setPlannedMeals] = useState<PlannedMeal[]>([]);
+  const [suggestions, setSuggestions] = useState<MealSuggestion[]>([]);
+  const [showShoppingList, setShowShoppingList] = useState(false);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [date, setDate] = useState('');
+  const [mealType, setMealType] = useState<MealType>('breakfast');
+  const [name, setName] = useState('');
+  const [items, setItems] = useState<MealItem[]>([]);
+  const [calories, setCalories] = useState('');
+  const [carbs, setCarbs] = useState('');
+  const [protein, setProtein] = useState('');
+  const [fat, setFat] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [logging, setLogging] = useState<string | null>(null);
+
+  const today = dateKey(new Date());
+  const end = dateKey(addDays(parseISO(start), rangeDays - 1));
+  const days = useMemo(
+    () => Array.from({ length: rangeDays }, (_, index) => dateKey(addDays(parseISO(start), index))),
+    [start, rangeDays]
+  );
+
+  const loadPlannedMeals = async () => {
+    try {
+      setPlannedMeals(outboxService.applyPendingPlans(await mealPlanRepository.getPlannedMeals(start, end)));
+    } catch (error) {
+      console.error('Error loading planned meals:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (user) loadPlannedMeals();
+  }, [user, start, end]);
+
+  useEffect(() => {
+    if (!user) return;
+    healthRepository
+      .getMealSuggestions()
+      .then(setSuggestions)
+      .catch(error => console.error('Error loading meal suggestions:', error));
+  }, [user]);
+
+  const openEditor = (target: Editing) => {
+    const plannedMeal = target.plannedMeal;
+    setEditing(target);
+    setDate(target.date);
+    setMealType(plannedMeal?.type ?? 'breakfast');
+    setName(plannedMeal?.name ?? '');
+    setItems(plannedMeal?.items ?? []);
+    setCalories(plannedMeal && !plannedMeal.items ? String(plannedMeal.calories) : '');
+    setCarbs(plannedMeal && !plannedMeal.items ? String(plannedMeal.macros.carbs) : '');
+    setProtein(plannedMeal && !plannedMeal.items ? String(plannedMeal.macros.protein) : '');
+    setFat(plannedMeal && !plannedMeal.items ? String(plannedMeal.macros.fat) : '');
+  };
+
+  // A meal eaten before fills in the form; its nutrition is the meal's own
+  const handleSelectSuggestion = (suggestion: MealSuggestion) => {
+    const planned = suggestionToPlannedMeal(suggestion, date);
+    setMealType(planned.type);
+    setName(planned.name);
+    setItems([]);
+    setCalories(String(planned.calories));
+    setCarbs(String(planned.macros.carbs));
+    setProtein(String(planned.macros.protein));
+    setFat(String(planned.macros.fat));
+  };
+
+  const handleAddItems = (added: MealItem[]) => {
+    setItems(prev => [...prev, ...added]);
+    if (!name) setName(added.map(item => item.name).join(', '));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (!name.trim() || (items.length === 0 && !calories)) {
+      Alert.alert('Error', 'Please fill in a name and the calories or some foods');
+      return;
+    }
+
+    const input: PlannedMealInput = {
+      date,
+      type: mealType,
+      name: name.trim(),
+      ...(items.length > 0
+        ? { ...mealTotals(items), items }
+        : {
+            calories: parseInt(calories) || 0,
+            macros: {
+              carbs: parseInt(carbs) || 0,
+              protein: parseInt(protein) || 0,
+              fat: parseInt(fat) || 0,
+            },
+          }),
+    };
+
+    setSaving(true);
+    try {
+      if (editing.plannedMeal) {
+        await mealPlanRepository.updatePlannedMeal(editing.plannedMeal.id, input, editing.plannedMeal.version);
+      } else {
+        await mealPlanRepository.createPlannedMeal(input);
+      }
+      setEditing(null);
+      await loadPlannedMeals();
+    } catch (error: any) {
+      if (error instanceof VersionConflictError) {
+        Alert.alert('Meal Changed', 'This planned meal was changed on another device. Your edit was not saved.');
+        setEditing(null);
+        await loadPlannedMeals();
+      } else {
+        Alert.alert('Error', error.message || 'Failed to save planned meal');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (plannedMeal: PlannedMeal) => {
+    Alert.alert('Remove Planned Meal', `Remove ${plannedMeal.name} from the plan?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await mealPlanRepository.deletePlannedMeal(plannedMeal.id);
+            setEditing(null);
+            await loadPlannedMeals();
+          } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to remove planned meal');
+          }
+        },
+      },
+    ]);
+  };
+
+  // Today's planned meals become meals of the day, as if added in the diet
+  // tracker. The plan is marked logged through the outbox right after the
+  // meal, so it shows as logged offline too and cannot be logged twice.
+  const handleLog = async (plannedMeal: PlannedMeal) => {
+    if (logging) return;
+    setLogging(plannedMeal.id);
+    try {
+      const meal = await addMeal(plannedMealToMeal(plannedMeal, new Date()));
+      if (!meal) return;
+      await outboxService.enqueue(
+        { type: 'markPlannedMealLogged', body: { date: plannedMeal.date, mealId: meal.id } },
+        plannedMeal.id
+      );
+      setPlannedMeals(current =>
+        current.map(planned => (planned.id === plannedMeal.id ? { ...planned, loggedMealId: meal.id } : planned))
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to log meal');
+      return;
+    } finally {
+      setLogging(null);
+    }
+
+    try {
+      await healthRepository.saveMealSuggestion({
+        type: plannedMeal.type,
+        name: plannedMeal.name,
+        calories: plannedMeal.calories,
+        macros: plannedMeal.macros,
+      });
+    } catch (error) {
+      console.error('Error saving meal suggestion:', error);
+    }
+  };
+
+  if (editing) {
+    const totals = mealTotals(items);
+    const typeSuggestions = suggestions.filter(suggestion => suggestion.type === mealType).slice(0, 8);
+
+    return (
+      <ScrollView style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.form}>
+          <Text style={styles.formTitle}>{editing.plannedMeal ? 'Edit Planned Meal' : 'Plan a Meal'}</Text>
+
+          <View style={styles.dateRow}>
+            <TouchableOpacity onPress={() => setDate(dateKey(addDays(parseISO(date), -1)))}>
+              <Ionicons name="chevron-back" size={24} color="#4CAF50" />
+            </TouchableOpacity>
+            <Text style={styles.dateText}>{format(parseISO(date), 'EEEE, MMM d')}</Text>
+            <TouchableOpacity onPress={() => setDate(dateKey(addDays(parseISO(date), 1)))}>
+              <Ionicons name="chevron-forward" size={24} color="#4CAF50" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.chipList}>
+            {MEAL_TYPES.map(({ label, value }) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, mealType === value && styles.chipActive]}
+                onPress={() => setMealType(value)}
+              >
+                <Text style={[styles.chipText, mealType === value && styles.chipTextActive]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput style={styles.input} placeholder="Meal name" value={name} onChangeText={setName} />
+
+          {typeSuggestions.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>From Your Meals</Text>
+              <View style={styles.chipList}>
+                {typeSuggestions.map(suggestion => (
+                  <TouchableOpacity
+                    key={suggestion.id}
+                    style={styles.chip}
+                    onPress={() => handleSelectSuggestion(suggestion)}
+                  >
+                    <Text style={styles.chipText}>
+                      {suggestion.name} · {suggestion.calories} kcal
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          {items.length > 0 ? (
+            <View style={styles.itemList}>
+              <Text style={styles.sectionTitle}>Foods</Text>
+              {items.map((item, index) => (
+                <View key={`${index}-${item.name}`} style={styles.itemRow}>
+                  <Text style={styles.itemText}>
+                    {describeItemAmount(item)} {item.name} · {item.calories} kcal
+                  </Text>
+                  <TouchableOpacity onPress={() => setItems(prev => prev.filter((_, i) => i !== index))}>
+                    <Ionicons name="close-circle" size={22} color="#999" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <Text style={styles.totals}>
+                {totals.calories} kcal · C: {totals.macros.carbs}g P: {totals.macros.protein}g F: {totals.macros.fat}g
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.nutritionRow}>
+              <TextInput
+                style={[styles.input, styles.nutritionInput]}
+                placeholder="kcal"
+                value={calories}
+                onChangeText={setCalories}
+                keyboardType="numeric"
+              />
+              <TextInput
+                style={[styles.input, styles.nutritionInput]}
+                placeholder="Carbs"
+                value={carbs}
+                onChangeText={setCarbs}
+                keyboardType="numeric"
+              />
+              <TextInput
+                style={[styles.input, styles.nutritionInput]}
+                placeholder="Protein"
+                value={protein}
+                onChangeText={setProtein}
+                keyboardType="numeric"
+              />
+              <TextInput
+                style={[styles.input, styles.nutritionInput]}
+                placeholder="Fat"
+                value={fat}
+                onChangeText={setFat}
+                keyboardType="numeric"
+              />
+            </View>
+          )}
+
+          <Text style={styles.sectionTitle}>Add Foods</Text>
+          <MealTextEntry suggestions={suggestions} onAdd={handleAddItems} />
+          <FoodSearch onSelect={(portion: FoodPortion) => handleAddItems([portionToItem(portion)])} />
+
+          {editing.plannedMeal && (
+            <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(editing.plannedMeal!)}>
+              <Text style={styles.deleteText}>Remove from Plan</Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.formButtons}>
+            <Button title="Cancel" onPress={() => setEditing(null)} variant="outline" style={styles.formButton} />
+            <Button title="Save" onPress={handleSave} loading={saving} style={styles.formButton} />
+          </View>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  const list = showShoppingList ? shoppingList(plannedMeals) : [];
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={28} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Meal Plan</Text>
+        <TouchableOpacity onPress={() => setShowShoppingList(prev => !prev)}>
+          <Ionicons name={showShoppingList ? 'calendar' : 'cart'} size={28} color="#4CAF50" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.rangeBar}>
+        <TouchableOpacity onPress={() => setStart(dateKey(addDays(parseISO(start), -rangeDays)))}>
+          <Ionicons name="chevron-back" size={24} color="#4CAF50" />
+        </TouchableOpacity>
+        <Text style={styles.rangeText}>
+          {format(parseISO(start), 'MMM d')} – {format(parseISO(end), 'MMM d')}
+        </Text>
+        <TouchableOpacity onPress={() => setStart(dateKey(addDays(parseISO(start), rangeDays)))}>
+          <Ionicons name="chevron-forward" size={24} color="#4CAF50" />
+        </TouchableOpacity>
+        <View style={styles.rangeOptions}>
+          {RANGE_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.rangeChip, rangeDays === option && styles.chipActive]}
+              onPress={() => setRangeDays(option)}
+            >
+              <Text style={[styles.chipText, rangeDays === option && styles.chipTextActive]}>{option}d</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {showShoppingList ? (
+        <ScrollView style={styles.list}>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Shopping List</Text>
+            <Text style={styles.cardMeta}>For the planned meals not logged yet</Text>
+            {list.map(line => (
+              <View key={`${line.name}|${line.unit}`} style={styles.itemRow}>
+                <Text style={styles.itemText}>
+                  {describeItemAmount(line)} {line.name}
+                </Text>
+                {line.meals > 1 && <Text style={styles.cardMeta}>{line.meals} meals</Text>}
+              </View>
+            ))}
+            {list.length === 0 && <Text style={styles.emptyText}>Nothing planned for these days</Text>}
+          </View>
+        </ScrollView>
+      ) : (
+        <ScrollView style={styles.list}>
+          {days.map(day => {
+            const dayMeals = plannedMeals.filter(plannedMeal => plannedMeal.date === day);
+            const totals = plannedTotals(dayMeals);
+            const goals = getGoalsOn(day);
+            const over = totals.calories > goals.caloriesIn;
+
+            return (
+              <View key={day} style={styles.card}>
+                <View style={styles.cardHeader}>
+                  <Text style={styles.cardTitle}>
+                    {day === today ? 'Today' : format(parseISO(day), 'EEEE, MMM d')}
+                  </Text>
+                  <Text style={[styles.cardCalories, over && styles.over]}>
+                    {totals.calories} / {goals.caloriesIn} kcal
+                  </Text>
+                </View>
+                <Text style={styles.cardMeta}>
+                  C: {totals.macros.carbs} / {goals.carbsGrams}g · P: {totals.macros.protein} /{' '}
+                  {goals.proteinGrams}g · F: {totals.macros.fat} / {goals.fatGrams}g
+                </Text>
+
+                {dayMeals.map(plannedMeal => (
+                  <TouchableOpacity
+                    key={plannedMeal.id}
+                    style={styles.plannedRow}
+                    onPress={() => openEditor({ plannedMeal, date: plannedMeal.date })}
+                  >
+                    <View style={styles.plannedInfo}>
+                      <Text style={styles.plannedType}>{plannedMeal.type}</Text>
+                      <Text style={styles.plannedName}>{plannedMeal.name}</Text>
+                      <Text style={styles.cardMeta}>{plannedMeal.calories} kcal</Text>
+                    </View>
+                    {plannedMeal.loggedMealId ? (
+                      <View style={styles.logged}>
+                        <Ionicons name="checkmark-circle" size={20} color="#4CAF50" />
+                        <Text style={styles.loggedText}>Logged</Text>
+                      </View>
+                    ) : (
+                      day === today && (
+                        <TouchableOpacity
+                          style={styles.logButton}
+                          disabled={logging === plannedMeal.id}
+                          onPress={() => handleLog(plannedMeal)}
+                        >
+                          <Text style={styles.logButtonText}>Log</Text>
+                        </TouchableOpacity>
+                      )
+                    )}
+                  </TouchableOpacity>
+                ))}
+
+                {day >= today && (
+                  <TouchableOpacity style={styles.planButton} onPress={() => openEditor({ date: day })}>
+                    <Ionicons name="add-circle-outline" size={20} color="#4CAF50" />
+                    <Text style={styles.planButtonText}>Plan a meal</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#333',
+    marginLeft: 8,
+  },
+  rangeBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#fff',
+  },
+  rangeText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rangeOptions: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 6,
+  },
+  rangeChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: '#f3f7f6',
+    borderWidth: 1,
+    borderColor: '#e0e7e5',
+  },
+  list: {
+    flex: 1,
+  },
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 16,
+    borderRadius: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cardCalories: {
+    fontSize: 14,
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  over: {
+    color: '#E74C3C',
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  plannedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  plannedInfo: {
+    flex: 1,
+  },
+  plannedType: {
+    fontSize: 11,
+    color: '#999',
+    textTransform: 'uppercase',
+  },
+  plannedName: {
+    fontSize: 15,
+    color: '#333',
+  },
+  logged: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  loggedText: {
+    fontSize: 13,
+    color: '#4CAF50',
+  },
+  logButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+    backgroundColor: '#4CAF50',
+  },
+  logButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  planButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingTop: 8,
+  },
+  planButtonText: {
+    fontSize: 14,
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  form: {
+    padding: 20,
+    backgroundColor: '#fff',
+    margin: 16,
+    borderRadius: 12,
+  },
+  formTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 16,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  dateText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    fontSize: 16,
+  },
+  nutritionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  nutritionInput: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#14332b',
+    marginBottom: 8,
+  },
+  itemList: {
+    marginBottom: 12,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  totals: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 8,
+  },
+  chipList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#f3f7f6',
+    borderWidth: 1,
+    borderColor: '#e0e7e5',
+  },
+  chipActive: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#14332b',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  deleteButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  deleteText: {
+    color: '#E74C3C',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  formButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  formButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,491 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TextInput, TouchableOpacity, Alert } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../context/AuthContext';
+import { useCommunity } from '../context/CommunityContext';
+import { communityRepository, recipeRepository } from '../services/repositories';
+import { VersionConflictError } from '../services/api/health';
+import { FoodSearch } from '../components/health/FoodSearch';
+import { Button } from '../components/common/Button';
+import { MealItem, Recipe, RecipeShareTarget } from '../types';
+import { FoodPortion, describeItemAmount, mealTotals, portionToItem } from '../utils/foods';
+import { perServing } from '../utils/recipes';
+
+export default function RecipesScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { friends, clans } = useCommunity();
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [friendNames, setFriendNames] = useState<Record<string, string>>({});
+  // The recipe open in the editor; 'new' before it is first saved
+  const [editing, setEditing] = useState<Recipe | 'new' | null>(null);
+  const [name, setName] = useState('');
+  const [servings, setServings] = useState('');
+  const [ingredients, setIngredients] = useState<MealItem[]>([]);
+  const [ingredientName, setIngredientName] = useState('');
+  const [ingredientCalories, setIngredientCalories] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadRecipes = async () => {
+    try {
+      setRecipes(await recipeRepository.getRecipes());
+    } catch (error) {
+      console.error('Error loading recipes:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (user) loadRecipes();
+  }, [user]);
+
+  useEffect(() => {
+    const loadFriendNames = async () => {
+      const entries = await Promise.all(
+        friends.map(async friend => {
+          const info = await communityRepository.getUser(friend.friendUid);
+          return [friend.friendUid, info?.displayName || 'Friend'] as const;
+        })
+      );
+      setFriendNames(Object.fromEntries(entries));
+    };
+
+    loadFriendNames();
+  }, [friends]);
+
+  const openEditor = (recipe: Recipe | 'new') => {
+    setEditing(recipe);
+    setName(recipe === 'new' ? '' : recipe.name);
+    setServings(recipe === 'new' ? '' : String(recipe.servings));
+    setIngredients(recipe === 'new' ? [] : recipe.ingredients);
+    setIngredientName('');
+    setIngredientCalories('');
+  };
+
+  const handleSelectFood = (portion: FoodPortion) => {
+    setIngredients(prev => [...prev, portionToItem(portion)]);
+  };
+
+  // An ingredient that is not in the food database, e.g. a homemade stock
+  const handleAddManualIngredient = () => {
+    const ingredientKcal = parseFloat(ingredientCalories);
+    if (!ingredientName.trim() || !(ingredientKcal >= 0)) {
+      Alert.alert('Error', 'Please fill in ingredient name and calories');
+      return;
+    }
+
+    setIngredients(prev => [
+      ...prev,
+      {
+        name: ingredientName.trim(),
+        quantity: 1,
+        unit: 'serving',
+        calories: Math.round(ingredientKcal),
+        macros: { carbs: 0, protein: 0, fat: 0 },
+      },
+    ]);
+    setIngredientName('');
+    setIngredientCalories('');
+  };
+
+  const handleSave = async () => {
+    const servingCount = parseFloat(servings);
+    if (!name.trim() || !(servingCount > 0) || ingredients.length === 0) {
+      Alert.alert('Error', 'Please fill in a name, the number of servings and at least one ingredient');
+      return;
+    }
+
+    const input = { name: name.trim(), servings: servingCount, ingredients };
+    setSaving(true);
+    try {
+      if (editing === 'new') {
+        await recipeRepository.createRecipe(input);
+      } else if (editing) {
+        await recipeRepository.updateRecipe(editing.id, input, editing.version);
+      }
+      setEditing(null);
+      await loadRecipes();
+    } catch (error: any) {
+      if (error instanceof VersionConflictError) {
+        Alert.alert('Recipe Changed', 'This recipe was changed on another device. Your edit was not saved.');
+        setEditing(null);
+        await loadRecipes();
+      } else {
+        Alert.alert('Error', error.message || 'Failed to save recipe');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (recipe: Recipe) => {
+    Alert.alert('Delete Recipe', `Delete ${recipe.name}? Friends it was shared with lose it too.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await recipeRepository.deleteRecipe(recipe.id);
+            setEditing(null);
+            await loadRecipes();
+          } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to delete recipe');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleShare = async (recipe: Recipe, target: RecipeShareTarget, label: string) => {
+    try {
+      await recipeRepository.shareRecipe(recipe.id, target);
+      Alert.alert('Recipe Shared', `${recipe.name} was shared with ${label}`);
+      await loadRecipes();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to share recipe');
+    }
+  };
+
+  if (editing) {
+    const totals = mealTotals(ingredients);
+    const servingCount = parseFloat(servings);
+    const saved = editing === 'new' ? null : recipes.find(recipe => recipe.id === editing.id) ?? editing;
+
+    return (
+      <ScrollView style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.form}>
+          <Text style={styles.formTitle}>{editing === 'new' ? 'New Recipe' : 'Edit Recipe'}</Text>
+
+          <TextInput style={styles.input} placeholder="Recipe name" value={name} onChangeText={setName} />
+          <TextInput
+            style={styles.input}
+            placeholder="Number of servings"
+            value={servings}
+            onChangeText={setServings}
+            keyboardType="numeric"
+          />
+
+          {ingredients.length > 0 && (
+            <View style={styles.ingredientList}>
+              <Text style={styles.sectionTitle}>Ingredients</Text>
+              {ingredients.map((ingredient, index) => (
+                <View key={`${index}-${ingredient.name}`} style={styles.ingredientRow}>
+                  <Text style={styles.ingredientText}>
+                    {describeItemAmount(ingredient)} {ingredient.name} · {ingredient.calories} kcal
+                  </Text>
+                  <TouchableOpacity onPress={() => setIngredients(prev => prev.filter((_, i) => i !== index))}>
+                    <Ionicons name="close-circle" size={22} color="#999" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <Text style={styles.totals}>
+                Whole recipe: {totals.calories} kcal
+                {servingCount > 0 && ` · per serving: ${Math.round(totals.calories / servingCount)} kcal`}
+              </Text>
+            </View>
+          )}
+
+          <Text style={styles.sectionTitle}>Add from Food Database</Text>
+          <FoodSearch onSelect={handleSelectFood} />
+
+          <Text style={styles.sectionTitle}>Add Manually</Text>
+          <View style={styles.manualRow}>
+            <TextInput
+              style={[styles.input, styles.manualName]}
+              placeholder="Ingredient"
+              value={ingredientName}
+              onChangeText={setIngredientName}
+            />
+            <TextInput
+              style={[styles.input, styles.manualCalories]}
+              placeholder="kcal"
+              value={ingredientCalories}
+              onChangeText={setIngredientCalories}
+              keyboardType="numeric"
+            />
+            <TouchableOpacity style={styles.manualAdd} onPress={handleAddManualIngredient}>
+              <Ionicons name="add-circle-outline" size={28} color="#4CAF50" />
+            </TouchableOpacity>
+          </View>
+
+          {saved && (
+            <View style={styles.shareSection}>
+              <Text style={styles.sectionTitle}>Share</Text>
+              <View style={styles.chipList}>
+                {friends.map(friend => {
+                  const shared = saved.sharedWith.friendUids.includes(friend.friendUid);
+                  const label = friendNames[friend.friendUid] || 'Friend';
+                  return (
+                    <TouchableOpacity
+                      key={friend.friendUid}
+                      style={[styles.chip, shared && styles.chipActive]}
+                      onPress={() => handleShare(saved, { friendUid: friend.friendUid }, label)}
+                      disabled={shared}
+                    >
+                      <Text style={[styles.chipText, shared && styles.chipTextActive]}>{label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+                {clans.map(clan => {
+                  const shared = saved.sharedWith.clanIds.includes(clan.id);
+                  return (
+                    <TouchableOpacity
+                      key={clan.id}
+                      style={[styles.chip, shared && styles.chipActive]}
+                      onPress={() => handleShare(saved, { clanId: clan.id }, clan.name)}
+                      disabled={shared}
+                    >
+                      <Ionicons name="people" size={14} color={shared ? '#fff' : '#14332b'} />
+                      <Text style={[styles.chipText, shared && styles.chipTextActive]}> {clan.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {friends.length === 0 && clans.length === 0 && (
+                <Text style={styles.emptyText}>Add friends or join a clan to share recipes</Text>
+              )}
+              <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(saved)}>
+                <Text style={styles.deleteText}>Delete Recipe</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <View style={styles.formButtons}>
+            <Button title="Cancel" onPress={() => setEditing(null)} variant="outline" style={styles.formButton} />
+            <Button title="Save" onPress={handleSave} loading={saving} style={styles.formButton} />
+          </View>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={28} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Recipes</Text>
+        <TouchableOpacity onPress={() => openEditor('new')}>
+          <Ionicons name="add-circle" size={32} color="#4CAF50" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.list}>
+        {recipes.map(recipe => {
+          const own = recipe.ownerUid === user?.uid;
+          const serving = perServing(recipe);
+          return (
+            <TouchableOpacity
+              key={recipe.id}
+              style={styles.card}
+              onPress={() => own && openEditor(recipe)}
+              activeOpacity={own ? 0.7 : 1}
+            >
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle}>{recipe.name}</Text>
+                <Text style={styles.cardCalories}>{serving.calories} kcal / serving</Text>
+              </View>
+              <Text style={styles.cardMeta}>
+                {recipe.servings} servings · C: {serving.macros.carbs}g P: {serving.macros.protein}g F:{' '}
+                {serving.macros.fat}g per serving
+              </Text>
+              {!own && <Text style={styles.cardMeta}>Shared by {recipe.ownerName || 'a friend'}</Text>}
+              {recipe.ingredients.map((ingredient, index) => (
+                <Text key={index} style={styles.ingredientText}>
+                  {describeItemAmount(ingredient)} {ingredient.name}
+                </Text>
+              ))}
+            </TouchableOpacity>
+          );
+        })}
+
+        {recipes.length === 0 && (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No recipes yet</Text>
+            <Text style={styles.emptyText}>Save a dish you cook often and log servings of it as meals</Text>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#333',
+    marginLeft: 8,
+  },
+  list: {
+    flex: 1,
+  },
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 16,
+    borderRadius: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cardCalories: {
+    fontSize: 14,
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  form: {
+    padding: 20,
+    backgroundColor: '#fff',
+    margin: 16,
+    borderRadius: 12,
+  },
+  formTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    fontSize: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#14332b',
+    marginBottom: 8,
+  },
+  ingredientList: {
+    marginBottom: 12,
+  },
+  ingredientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  ingredientText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  totals: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 8,
+  },
+  manualRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  manualName: {
+    flex: 2,
+  },
+  manualCalories: {
+    flex: 1,
+  },
+  manualAdd: {
+    paddingTop: 10,
+  },
+  shareSection: {
+    marginTop: 8,
+  },
+  chipList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#f3f7f6',
+    borderWidth: 1,
+    borderColor: '#e0e7e5',
+  },
+  chipActive: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#14332b',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  deleteButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  deleteText: {
+    color: '#E74C3C',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  formButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  formButton: {
+    flex: 1,
+  },
+});
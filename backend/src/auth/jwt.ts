@@ -1,13 +1,12 @@
 import jwt from 'jsonwebtoken';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key';
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
-const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
 
 export interface TokenPayload {
   userId: string;
   email: string;
+  sessionId?: string; // refresh token family the access token was issued for
 }
 
 /**
@@ -19,15 +18,6 @@ export function generateAccessToken(payload: TokenPayload): string {
   });
 }
 
-/**
- * Generate refresh token
- */
-export function generateRefreshToken(payload: TokenPayload): string {
-  return jwt.sign(payload, JWT_REFRESH_SECRET, {
-    expiresIn: JWT_REFRESH_EXPIRES_IN,
-  });
-}
-
 /**
  * Verify access token
  */
@@ -38,15 +28,3 @@ export function verifyAccessToken(token: string): TokenPayload {
     throw new Error('Invalid or expired token');
   }
 }
-
-/**
- * Verify refresh token
- */
-export function verifyRefreshToken(token: string): TokenPayload {
-  try {
-    return jwt.verify(token, JWT_REFRESH_SECRET) as TokenPayload;
-  } catch (error) {
-    throw new Error('Invalid or expired refresh token');
-  }
-}
-
@@ -0,0 +1,72 @@
+import { rateLimit } from '../middleware/rateLimit.middleware';
+
+const MINUTE = 60 * 1000;
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '');
+  return Number.isNaN(value) ? fallback : value;
+}
+
+// Failed passwords before an account is locked, and for how long
+export const LOGIN_MAX_FAILED_ATTEMPTS = envInt('LOGIN_MAX_FAILED_ATTEMPTS', 5);
+export const LOGIN_LOCKOUT_MINUTES = envInt('LOGIN_LOCKOUT_MINUTES', 15);
+
+export const loginLimiter = rateLimit({
+  name: 'login',
+  windowMs: 15 * MINUTE,
+  max: envInt('RATE_LIMIT_LOGIN_MAX', 20),
+  message: 'Too many sign-in attempts, please try again later',
+});
+
+export const registerLimiter = rateLimit({
+  name: 'register',
+  windowMs: 60 * MINUTE,
+  max: envInt('RATE_LIMIT_REGISTER_MAX', 5),
+  message: 'Too many accounts created from this network, please try again later',
+});
+
+// Routes that send password reset or verification mail
+export const accountEmailLimiter = rateLimit({
+  name: 'account-email',
+  windowMs: 15 * MINUTE,
+  max: envInt('RATE_LIMIT_ACCOUNT_EMAIL_MAX', 5),
+  message: 'Too many emails requested, please try again later',
+});
+
+// Routes that redeem a mailed token
+export const accountTokenLimiter = rateLimit({
+  name: 'account-token',
+  windowMs: 15 * MINUTE,
+  max: envInt('RATE_LIMIT_ACCOUNT_TOKEN_MAX', 10),
+});
+
+export const friendRequestLimiter = rateLimit({
+  name: 'friend-request',
+  windowMs: 60 * MINUTE,
+  max: envInt('RATE_LIMIT_FRIEND_REQUEST_MAX', 30),
+  by: 'user',
+  message: 'Too many friend requests, please try again later',
+});
+
+export const clanInviteLimiter = rateLimit({
+  name: 'clan-invite',
+  windowMs: 60 * MINUTE,
+  max: envInt('RATE_LIMIT_CLAN_INVITE_MAX', 30),
+  by: 'user',
+  message: 'Too many clan invites, please try again later',
+});
+
+// Food search and barcode lookups, open without signing in
+export const foodLookupLimiter = rateLimit({
+  name: 'food-lookup',
+  windowMs: MINUTE,
+  max: envInt('RATE_LIMIT_FOOD_LOOKUP_MAX', 120),
+});
+
+// Photos sent to the food recognition provider, which is billed per request
+export const foodRecognitionLimiter = rateLimit({
+  name: 'food-recognition',
+  windowMs: 60 * MINUTE,
+  max: envInt('RATE_LIMIT_FOOD_RECOGNITION_MAX', 30),
+  message: 'Too many photos analyzed, please try again later',
+});
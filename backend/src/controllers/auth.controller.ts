@@ -1,13 +1,54 @@
 import { Request, Response } from 'express';
 import { hashPassword, verifyPassword } from '../auth/password';
-import { generateAccessToken, generateRefreshToken, verifyRefreshToken, TokenPayload } from '../auth/jwt';
+import { generateAccessToken, TokenPayload } from '../auth/jwt';
 import { UserService } from '../services/user.service';
+import { SessionService, SessionMeta } from '../services/session.service';
+import { AccountService } from '../services/account.service';
 import { prisma } from '../config/database';
 import { sendSuccess, sendError, sendCreated } from '../utils/response.helper';
 import { AuthRequest } from '../auth/middleware';
 import { AppError } from '../middleware/error.middleware';
+import { LOGIN_MAX_FAILED_ATTEMPTS, LOGIN_LOCKOUT_MINUTES } from '../config/rateLimit';
 
 const userService = new UserService(prisma);
+const sessionService = new SessionService(prisma);
+const accountService = new AccountService(prisma);
+
+/** Device details recorded on a session */
+function getSessionMeta(req: Request): SessionMeta {
+  return {
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip,
+  };
+}
+
+/** Reject a sign-in while the account is locked after failed attempts */
+function sendAccountLocked(res: Response, lockedUntil: Date): Response {
+  const retryAfter = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+  res.setHeader('Retry-After', retryAfter);
+  return sendError(
+    res,
+    `Too many failed sign-in attempts. Try again in ${Math.ceil(retryAfter / 60)} minutes or reset your password.`,
+    429,
+    'ACCOUNT_LOCKED'
+  );
+}
+
+/** Start a device session and issue its token pair */
+async function issueTokens(user: { id: string; email: string }, req: Request) {
+  const session = await sessionService.createSession(user.id, getSessionMeta(req));
+
+  const tokenPayload: TokenPayload = {
+    userId: user.id,
+    email: user.email,
+    sessionId: session.sessionId,
+  };
+
+  return {
+    token: generateAccessToken(tokenPayload),
+    refreshToken: session.refreshToken,
+  };
+}
 
 export async function register(req: Request, res: Response): Promise<Response> {
   try {
@@ -41,14 +82,13 @@ export async function register(req: Request, res: Response): Promise<Response> {
       usernameLower,
     });
 
-    // Generate tokens
-    const tokenPayload: TokenPayload = {
-      userId: user.id,
-      email: user.email,
-    };
+    // Mailing is best-effort; the user can ask for another verification email later
+    accountService.sendEmailVerification(user.id).catch((error) => {
+      console.error('Send verification email error:', error);
+    });
 
-    const token = generateAccessToken(tokenPayload);
-    const refreshToken = generateRefreshToken(tokenPayload);
+    // Generate tokens
+    const { token, refreshToken } = await issueTokens(user, req);
 
     return sendCreated(res, {
       token,
@@ -75,26 +115,32 @@ export async function login(req: Request, res: Response): Promise<Response> {
       return sendError(res, 'Invalid email or password', 401, 'INVALID_CREDENTIALS');
     }
 
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      return sendAccountLocked(res, user.lockedUntil);
+    }
+
     // Verify password
     const isValid = await verifyPassword(password, user.passwordHash);
     if (!isValid) {
+      const lockedUntil = await userService.recordFailedLogin(
+        user.id,
+        LOGIN_MAX_FAILED_ATTEMPTS,
+        LOGIN_LOCKOUT_MINUTES * 60 * 1000
+      );
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil);
+      }
       return sendError(res, 'Invalid email or password', 401, 'INVALID_CREDENTIALS');
     }
 
-    // Update last active
+    // Update last active and clear any failed attempts
     await prisma.user.update({
       where: { id: user.id },
-      data: { lastActiveAt: new Date() },
+      data: { lastActiveAt: new Date(), failedLoginAttempts: 0, lockedUntil: null },
     });
 
     // Generate tokens
-    const tokenPayload: TokenPayload = {
-      userId: user.id,
-      email: user.email,
-    };
-
-    const token = generateAccessToken(tokenPayload);
-    const refreshToken = generateRefreshToken(tokenPayload);
+    const { token, refreshToken } = await issueTokens(user, req);
 
     return sendSuccess(res, {
       token,
@@ -115,37 +161,147 @@ export async function refreshToken(req: Request, res: Response): Promise<Respons
       return sendError(res, 'Refresh token is required', 400, 'VALIDATION_ERROR');
     }
 
-    try {
-      const payload = verifyRefreshToken(refreshTokenValue);
-      const user = await userService.findById(payload.userId);
-
-      if (!user) {
-        return sendError(res, 'User not found', 404, 'USER_NOT_FOUND');
-      }
+    const session = await sessionService.rotate(refreshTokenValue, getSessionMeta(req));
+    const user = await userService.findById(session.userId);
 
-      // Generate new tokens
-      const tokenPayload: TokenPayload = {
-        userId: user.id,
-        email: user.email,
-      };
+    if (!user) {
+      return sendError(res, 'User not found', 404, 'USER_NOT_FOUND');
+    }
 
-      const newToken = generateAccessToken(tokenPayload);
-      const newRefreshToken = generateRefreshToken(tokenPayload);
+    // Generate new tokens
+    const tokenPayload: TokenPayload = {
+      userId: user.id,
+      email: user.email,
+      sessionId: session.sessionId,
+    };
 
-      return sendSuccess(res, {
-        token: newToken,
-        refreshToken: newRefreshToken,
-        user,
-      });
-    } catch (error) {
-      return sendError(res, 'Invalid refresh token', 401, 'INVALID_TOKEN');
-    }
+    return sendSuccess(res, {
+      token: generateAccessToken(tokenPayload),
+      refreshToken: session.refreshToken,
+      user,
+    });
   } catch (error: any) {
     console.error('Refresh token error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
     return sendError(res, error.message || 'Token refresh failed', 500);
   }
 }
 
+export async function logout(req: Request, res: Response): Promise<Response> {
+  try {
+    await sessionService.revokeByToken(req.body.refreshToken);
+    return sendSuccess(res, { success: true }, 'Signed out successfully');
+  } catch (error: any) {
+    console.error('Logout error:', error);
+    return sendError(res, error.message || 'Failed to sign out', 500);
+  }
+}
+
+export async function logoutAll(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const revoked = await sessionService.revokeAll(req.user.userId);
+    return sendSuccess(res, { revoked }, 'Signed out of all devices');
+  } catch (error: any) {
+    console.error('Logout all error:', error);
+    return sendError(res, error.message || 'Failed to sign out everywhere', 500);
+  }
+}
+
+export async function getSessions(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const sessions = await sessionService.listSessions(req.user.userId);
+    return sendSuccess(res, sessions.map((session) => ({
+      ...session,
+      current: session.id === req.user?.sessionId,
+    })));
+  } catch (error: any) {
+    console.error('Get sessions error:', error);
+    return sendError(res, error.message || 'Failed to get sessions', 500);
+  }
+}
+
+export async function revokeSession(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    await sessionService.revokeSession(req.user.userId, req.params.id);
+    return sendSuccess(res, { success: true }, 'Session revoked successfully');
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to revoke session', 500);
+  }
+}
+
+export async function forgotPassword(req: Request, res: Response): Promise<Response> {
+  try {
+    await accountService.requestPasswordReset(req.body.email);
+    // Same response whether or not the account exists
+    return sendSuccess(res, { success: true }, 'If an account exists for that email, a reset link has been sent');
+  } catch (error: any) {
+    console.error('Forgot password error:', error);
+    return sendError(res, error.message || 'Failed to request password reset', 500);
+  }
+}
+
+export async function resetPassword(req: Request, res: Response): Promise<Response> {
+  try {
+    const { token, password } = req.body;
+    await accountService.resetPassword(token, password);
+    return sendSuccess(res, { success: true }, 'Password reset successfully');
+  } catch (error: any) {
+    console.error('Reset password error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to reset password', 500);
+  }
+}
+
+export async function sendVerificationEmail(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    await accountService.sendEmailVerification(req.user.userId);
+    return sendSuccess(res, { success: true }, 'Verification email sent');
+  } catch (error: any) {
+    console.error('Send verification email error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to send verification email', 500);
+  }
+}
+
+export async function verifyEmail(req: Request, res: Response): Promise<Response> {
+  try {
+    const user = await accountService.verifyEmail(req.body.token);
+    return sendSuccess(res, user, 'Email verified successfully');
+  } catch (error: any) {
+    console.error('Verify email error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to verify email', 500);
+  }
+}
+
 export async function getMe(req: AuthRequest, res: Response): Promise<Response> {
   try {
     if (!req.user) {
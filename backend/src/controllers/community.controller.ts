@@ -41,10 +41,6 @@ export async function sendFriendRequest(req: AuthRequest, res: Response): Promis
     }
 
     const { toUid } = req.body;
-    if (!toUid) {
-      return sendError(res, 'toUid is required', 400, 'VALIDATION_ERROR');
-    }
-
     const request = await communityService.sendFriendRequest(req.user.userId, toUid);
     return sendCreated(res, request, 'Friend request sent successfully');
   } catch (error: any) {
@@ -196,9 +192,6 @@ export async function createClan(req: AuthRequest, res: Response): Promise<Respo
     }
 
     const { name, description, privacy } = req.body;
-    if (!name) {
-      return sendError(res, 'Name is required', 400, 'VALIDATION_ERROR');
-    }
 
     const clan = await communityService.createClan(
       req.user.userId,
@@ -246,9 +239,6 @@ export async function inviteToClan(req: AuthRequest, res: Response): Promise<Res
 
     const { id } = req.params;
     const { toUid } = req.body;
-    if (!toUid) {
-      return sendError(res, 'toUid is required', 400, 'VALIDATION_ERROR');
-    }
 
     const invite = await communityService.inviteToClan(id, req.user.userId, toUid);
     return sendCreated(res, invite, 'Clan invitation sent successfully');
@@ -269,9 +259,6 @@ export async function respondClanInvite(req: AuthRequest, res: Response): Promis
 
     const { id, inviteId } = req.params;
     const { action } = req.body;
-    if (!action || (action !== 'accept' && action !== 'reject')) {
-      return sendError(res, 'Action must be "accept" or "reject"', 400, 'VALIDATION_ERROR');
-    }
 
     await communityService.respondClanInvite(id, req.user.userId, action);
     return sendSuccess(res, { success: true }, `Clan invitation ${action}ed successfully`);
@@ -345,9 +332,6 @@ export async function updateClanRole(req: AuthRequest, res: Response): Promise<R
 
     const { id, memberUid } = req.params;
     const { newRole } = req.body;
-    if (!newRole) {
-      return sendError(res, 'newRole is required', 400, 'VALIDATION_ERROR');
-    }
 
     const member = await communityService.updateClanRole(id, req.user.userId, memberUid, newRole);
     return sendSuccess(res, member, 'Clan member role updated successfully');
@@ -0,0 +1,110 @@
+import { Response } from 'express';
+import { FastingService } from '../services/fasting.service';
+import { prisma } from '../config/database';
+import { sendSuccess, sendError, sendCreated } from '../utils/response.helper';
+import { AuthRequest } from '../auth/middleware';
+import { AppError } from '../middleware/error.middleware';
+
+const fastingService = new FastingService(prisma);
+
+export async function listFastingSessions(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+    const sessions = await fastingService.listSessions(req.user.userId, from, to);
+    return sendSuccess(res, sessions);
+  } catch (error: any) {
+    console.error('List fasting sessions error:', error);
+    return sendError(res, error.message || 'Failed to list fasting sessions', 500);
+  }
+}
+
+export async function getActiveFastingSession(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const session = await fastingService.getActiveSession(req.user.userId);
+    return sendSuccess(res, session);
+  } catch (error: any) {
+    console.error('Get active fasting session error:', error);
+    return sendError(res, error.message || 'Failed to get active fasting session', 500);
+  }
+}
+
+export async function startFastingSession(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const session = await fastingService.startSession(req.user.userId, req.body);
+    return sendCreated(res, session, 'Fasting session started');
+  } catch (error: any) {
+    console.error('Start fasting session error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to start fasting session', 500);
+  }
+}
+
+export async function stopFastingSession(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const { id } = req.params;
+    const session = await fastingService.stopSession(req.user.userId, id, req.body?.endTime, req.body?.version);
+    return sendSuccess(res, session, 'Fasting session stopped');
+  } catch (error: any) {
+    console.error('Stop fasting session error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code, error.data);
+    }
+    return sendError(res, error.message || 'Failed to stop fasting session', 500);
+  }
+}
+
+export async function updateFastingSession(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const { id } = req.params;
+    const session = await fastingService.updateSession(req.user.userId, id, req.body);
+    return sendSuccess(res, session, 'Fasting session updated successfully');
+  } catch (error: any) {
+    console.error('Update fasting session error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code, error.data);
+    }
+    return sendError(res, error.message || 'Failed to update fasting session', 500);
+  }
+}
+
+export async function deleteFastingSession(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const { id } = req.params;
+    await fastingService.deleteSession(req.user.userId, id);
+    return sendSuccess(res, { success: true }, 'Fasting session deleted successfully');
+  } catch (error: any) {
+    console.error('Delete fasting session error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to delete fasting session', 500);
+  }
+}
@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { FoodRecognitionService } from '../services/food-recognition.service';
+import { prisma } from '../config/database';
+import { sendSuccess, sendError } from '../utils/response.helper';
+import { AuthRequest } from '../auth/middleware';
+import { AppError } from '../middleware/error.middleware';
+
+const foodRecognitionService = new FoodRecognitionService(prisma);
+
+export async function recognizeFood(req: Request, res: Response): Promise<Response> {
+  try {
+    const { image, mimeType, hints } = req.body;
+    const result = await foodRecognitionService.recognize({ data: image, mimeType }, hints);
+    return sendSuccess(res, result);
+  } catch (error: any) {
+    console.error('Recognize food error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to recognize food', 500);
+  }
+}
+
+export async function getFoodCorrections(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const corrections = await foodRecognitionService.getCorrections(req.user.userId);
+    return sendSuccess(res, corrections);
+  } catch (error: any) {
+    console.error('Get food corrections error:', error);
+    return sendError(res, error.message || 'Failed to get food corrections', 500);
+  }
+}
+
+export async function saveFoodCorrections(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const corrections = await foodRecognitionService.saveCorrections(req.user.userId, req.body.corrections);
+    return sendSuccess(res, corrections, 'Food corrections saved successfully');
+  } catch (error: any) {
+    console.error('Save food corrections error:', error);
+    return sendError(res, error.message || 'Failed to save food corrections', 500);
+  }
+}
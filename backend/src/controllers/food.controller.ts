@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import { FoodService } from '../services/food.service';
+import { prisma } from '../config/database';
+import { sendSuccess, sendError } from '../utils/response.helper';
+import { AppError } from '../middleware/error.middleware';
+
+const foodService = new FoodService(prisma);
+
+export async function searchFoods(req: Request, res: Response): Promise<Response> {
+  try {
+    const query = req.query.q as string;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const foods = await foodService.searchFoods(query, limit);
+    return sendSuccess(res, foods);
+  } catch (error: any) {
+    console.error('Search foods error:', error);
+    return sendError(res, error.message || 'Failed to search foods', 500);
+  }
+}
+
+export async function getFoodByBarcode(req: Request, res: Response): Promise<Response> {
+  try {
+    const food = await foodService.getFoodByBarcode(req.params.barcode);
+    return sendSuccess(res, food);
+  } catch (error: any) {
+    console.error('Get food by barcode error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to look up barcode', 500);
+  }
+}
+
+export async function getFood(req: Request, res: Response): Promise<Response> {
+  try {
+    const food = await foodService.getFood(req.params.id);
+    return sendSuccess(res, food);
+  } catch (error: any) {
+    console.error('Get food error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to get food', 500);
+  }
+}
@@ -0,0 +1,49 @@
+import { Response } from 'express';
+import { GoalService } from '../services/goal.service';
+import { prisma } from '../config/database';
+import { sendSuccess, sendError } from '../utils/response.helper';
+import { AuthRequest } from '../auth/middleware';
+
+const goalService = new GoalService(prisma);
+
+export async function getGoals(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const goals = await goalService.getGoals(req.user.userId, req.query.date as string);
+    return sendSuccess(res, goals);
+  } catch (error: any) {
+    console.error('Get goals error:', error);
+    return sendError(res, error.message || 'Failed to get goals', 500);
+  }
+}
+
+export async function getGoalHistory(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const history = await goalService.getGoalHistory(req.user.userId);
+    return sendSuccess(res, history);
+  } catch (error: any) {
+    console.error('Get goal history error:', error);
+    return sendError(res, error.message || 'Failed to get goal history', 500);
+  }
+}
+
+export async function setGoals(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const goals = await goalService.setGoals(req.user.userId, req.body);
+    return sendSuccess(res, goals, 'Goals updated successfully');
+  } catch (error: any) {
+    console.error('Set goals error:', error);
+    return sendError(res, error.message || 'Failed to update goals', 500);
+  }
+}
@@ -3,6 +3,8 @@ import { HealthService } from '../services/health.service';
 import { prisma } from '../config/database';
 import { sendSuccess, sendError, sendCreated } from '../utils/response.helper';
 import { AuthRequest } from '../auth/middleware';
+import { AppError } from '../middleware/error.middleware';
+import { HealthRangeBucket } from '../shared/domain';
 
 const healthService = new HealthService(prisma);
 
@@ -13,7 +15,8 @@ export async function getDailyHealthData(req: AuthRequest, res: Response): Promi
     }
 
     const { date } = req.params;
-    const data = await healthService.getDailyHealthData(req.user.userId, date);
+    const tzOffset = parseInt(req.query.tzOffset as string) || 0;
+    const data = await healthService.getDailyHealthData(req.user.userId, date, tzOffset);
 
     if (!data) {
       return sendError(res, 'Daily health data not found', 404, 'NOT_FOUND');
@@ -33,9 +36,6 @@ export async function getWeeklyHealthData(req: AuthRequest, res: Response): Prom
     }
 
     const startDate = req.query.startDate as string;
-    if (!startDate) {
-      return sendError(res, 'startDate query parameter is required', 400, 'VALIDATION_ERROR');
-    }
 
     const data = await healthService.getWeeklyHealthData(req.user.userId, startDate);
     return sendSuccess(res, data);
@@ -45,6 +45,25 @@ export async function getWeeklyHealthData(req: AuthRequest, res: Response): Prom
   }
 }
 
+export async function getHealthRange(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const from = req.query.from as string;
+    const to = req.query.to as string;
+    const bucket = (req.query.bucket as HealthRangeBucket) || 'day';
+    const tzOffset = parseInt(req.query.tzOffset as string) || 0;
+
+    const buckets = await healthService.getHealthRange(req.user.userId, from, to, bucket, tzOffset);
+    return sendSuccess(res, { from, to, bucket, buckets });
+  } catch (error: any) {
+    console.error('Get health range error:', error);
+    return sendError(res, error.message || 'Failed to get health range', 500);
+  }
+}
+
 export async function saveDailyHealthData(req: AuthRequest, res: Response): Promise<Response> {
   try {
     if (!req.user) {
@@ -66,14 +85,14 @@ export async function addMeal(req: AuthRequest, res: Response): Promise<Response
     }
 
     const { date, meal } = req.body;
-    if (!date) {
-      return sendError(res, 'Date is required', 400, 'VALIDATION_ERROR');
-    }
 
     const mealData = await healthService.addMeal(req.user.userId, date, meal);
     return sendCreated(res, mealData, 'Meal added successfully');
   } catch (error: any) {
     console.error('Add meal error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
     return sendError(res, error.message || 'Failed to add meal', 500);
   }
 }
@@ -85,12 +104,12 @@ export async function updateMeal(req: AuthRequest, res: Response): Promise<Respo
     }
 
     const { id } = req.params;
-    const mealData = await healthService.updateMeal(id, req.body);
+    const mealData = await healthService.updateMeal(req.user.userId, id, req.body);
     return sendSuccess(res, mealData, 'Meal updated successfully');
   } catch (error: any) {
     console.error('Update meal error:', error);
-    if (error.message === 'Meal not found') {
-      return sendError(res, error.message, 404, 'NOT_FOUND');
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code, error.data);
     }
     return sendError(res, error.message || 'Failed to update meal', 500);
   }
@@ -103,17 +122,45 @@ export async function deleteMeal(req: AuthRequest, res: Response): Promise<Respo
     }
 
     const { id } = req.params;
-    await healthService.deleteMeal(id);
+    await healthService.deleteMeal(req.user.userId, id);
     return sendSuccess(res, { success: true }, 'Meal deleted successfully');
   } catch (error: any) {
     console.error('Delete meal error:', error);
-    if (error.message === 'Meal not found') {
-      return sendError(res, error.message, 404, 'NOT_FOUND');
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
     }
     return sendError(res, error.message || 'Failed to delete meal', 500);
   }
 }
 
+export async function getMealSuggestions(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const suggestions = await healthService.getMealSuggestions(req.user.userId);
+    return sendSuccess(res, suggestions);
+  } catch (error: any) {
+    console.error('Get meal suggestions error:', error);
+    return sendError(res, error.message || 'Failed to get meal suggestions', 500);
+  }
+}
+
+export async function saveMealSuggestion(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const suggestion = await healthService.saveMealSuggestion(req.user.userId, req.body);
+    return sendSuccess(res, suggestion, 'Meal suggestion saved successfully');
+  } catch (error: any) {
+    console.error('Save meal suggestion error:', error);
+    return sendError(res, error.message || 'Failed to save meal suggestion', 500);
+  }
+}
+
 export async function addWaterEntry(req: AuthRequest, res: Response): Promise<Response> {
   try {
     if (!req.user) {
@@ -121,14 +168,14 @@ export async function addWaterEntry(req: AuthRequest, res: Response): Promise<Re
     }
 
     const { date, entry } = req.body;
-    if (!date) {
-      return sendError(res, 'Date is required', 400, 'VALIDATION_ERROR');
-    }
 
     const waterEntry = await healthService.addWaterEntry(req.user.userId, date, entry);
     return sendCreated(res, waterEntry, 'Water entry added successfully');
   } catch (error: any) {
     console.error('Add water entry error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
     return sendError(res, error.message || 'Failed to add water entry', 500);
   }
 }
@@ -140,14 +187,14 @@ export async function addWorkout(req: AuthRequest, res: Response): Promise<Respo
     }
 
     const { date, workout } = req.body;
-    if (!date) {
-      return sendError(res, 'Date is required', 400, 'VALIDATION_ERROR');
-    }
 
     const workoutData = await healthService.addWorkout(req.user.userId, date, workout);
     return sendCreated(res, workoutData, 'Workout added successfully');
   } catch (error: any) {
     console.error('Add workout error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
     return sendError(res, error.message || 'Failed to add workout', 500);
   }
 }
@@ -159,12 +206,12 @@ export async function updateWorkout(req: AuthRequest, res: Response): Promise<Re
     }
 
     const { id } = req.params;
-    const workoutData = await healthService.updateWorkout(id, req.body);
+    const workoutData = await healthService.updateWorkout(req.user.userId, id, req.body);
     return sendSuccess(res, workoutData, 'Workout updated successfully');
   } catch (error: any) {
     console.error('Update workout error:', error);
-    if (error.message === 'Workout not found') {
-      return sendError(res, error.message, 404, 'NOT_FOUND');
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code, error.data);
     }
     return sendError(res, error.message || 'Failed to update workout', 500);
   }
@@ -177,32 +224,13 @@ export async function deleteWorkout(req: AuthRequest, res: Response): Promise<Re
     }
 
     const { id } = req.params;
-    await healthService.deleteWorkout(id);
+    await healthService.deleteWorkout(req.user.userId, id);
     return sendSuccess(res, { success: true }, 'Workout deleted successfully');
   } catch (error: any) {
     console.error('Delete workout error:', error);
-    if (error.message === 'Workout not found') {
-      return sendError(res, error.message, 404, 'NOT_FOUND');
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
     }
     return sendError(res, error.message || 'Failed to delete workout', 500);
   }
 }
-
-export async function saveFastingSession(req: AuthRequest, res: Response): Promise<Response> {
-  try {
-    if (!req.user) {
-      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
-    }
-
-    const { date, session } = req.body;
-    if (!date) {
-      return sendError(res, 'Date is required', 400, 'VALIDATION_ERROR');
-    }
-
-    const fastingSession = await healthService.saveFastingSession(req.user.userId, date, session);
-    return sendSuccess(res, fastingSession, 'Fasting session saved successfully');
-  } catch (error: any) {
-    console.error('Save fasting session error:', error);
-    return sendError(res, error.message || 'Failed to save fasting session', 500);
-  }
-}
@@ -0,0 +1,77 @@
+import { Response } from 'express';
+import { MealPlanService } from '../services/meal-plan.service';
+import { prisma } from '../config/database';
+import { sendSuccess, sendError, sendCreated } from '../utils/response.helper';
+import { AuthRequest } from '../auth/middleware';
+import { AppError } from '../middleware/error.middleware';
+
+const mealPlanService = new MealPlanService(prisma);
+
+export async function getPlannedMeals(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const plannedMeals = await mealPlanService.getPlannedMeals(
+      req.user.userId,
+      req.query.from as string,
+      req.query.to as string
+    );
+    return sendSuccess(res, plannedMeals);
+  } catch (error: any) {
+    console.error('Get planned meals error:', error);
+    return sendError(res, error.message || 'Failed to get planned meals', 500);
+  }
+}
+
+export async function createPlannedMeal(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const plannedMeal = await mealPlanService.createPlannedMeal(req.user.userId, req.body);
+    return sendCreated(res, plannedMeal, 'Meal planned successfully');
+  } catch (error: any) {
+    console.error('Create planned meal error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to plan meal', 500);
+  }
+}
+
+export async function updatePlannedMeal(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const plannedMeal = await mealPlanService.updatePlannedMeal(req.user.userId, req.params.id, req.body);
+    return sendSuccess(res, plannedMeal, 'Planned meal updated successfully');
+  } catch (error: any) {
+    console.error('Update planned meal error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code, error.data);
+    }
+    return sendError(res, error.message || 'Failed to update planned meal', 500);
+  }
+}
+
+export async function deletePlannedMeal(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    await mealPlanService.deletePlannedMeal(req.user.userId, req.params.id);
+    return sendSuccess(res, { success: true }, 'Planned meal deleted successfully');
+  } catch (error: any) {
+    console.error('Delete planned meal error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to delete planned meal', 500);
+  }
+}
@@ -0,0 +1,57 @@
+import { Response } from 'express';
+import { MeasurementService } from '../services/measurement.service';
+import { prisma } from '../config/database';
+import { sendSuccess, sendError } from '../utils/response.helper';
+import { AuthRequest } from '../auth/middleware';
+import { AppError } from '../middleware/error.middleware';
+
+const measurementService = new MeasurementService(prisma);
+
+export async function getMeasurements(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const { from, to } = req.query as { from?: string; to?: string };
+    const measurements = await measurementService.getMeasurements(req.user.userId, from, to);
+    return sendSuccess(res, measurements);
+  } catch (error: any) {
+    console.error('Get measurements error:', error);
+    return sendError(res, error.message || 'Failed to get measurements', 500);
+  }
+}
+
+export async function saveMeasurement(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const measurement = await measurementService.saveMeasurement(req.user.userId, req.body);
+    return sendSuccess(res, measurement, 'Measurements saved successfully');
+  } catch (error: any) {
+    console.error('Save measurement error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to save measurements', 500);
+  }
+}
+
+export async function deleteMeasurement(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    await measurementService.deleteMeasurement(req.user.userId, req.params.date);
+    return sendSuccess(res, { success: true }, 'Measurements deleted successfully');
+  } catch (error: any) {
+    console.error('Delete measurement error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to delete measurements', 500);
+  }
+}
@@ -0,0 +1,121 @@
+import { Response } from 'express';
+import { Server as SocketIOServer } from 'socket.io';
+import { RecipeService } from '../services/recipe.service';
+import { prisma } from '../config/database';
+import { sendSuccess, sendError, sendCreated } from '../utils/response.helper';
+import { AuthRequest } from '../auth/middleware';
+import { AppError } from '../middleware/error.middleware';
+import { emitNotification } from '../sockets/community.socket';
+
+const recipeService = new RecipeService(prisma);
+
+export async function getRecipes(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const recipes = await recipeService.getRecipes(req.user.userId);
+    return sendSuccess(res, recipes);
+  } catch (error: any) {
+    console.error('Get recipes error:', error);
+    return sendError(res, error.message || 'Failed to get recipes', 500);
+  }
+}
+
+export async function getRecipe(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const recipe = await recipeService.getRecipe(req.user.userId, req.params.id);
+    return sendSuccess(res, recipe);
+  } catch (error: any) {
+    console.error('Get recipe error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to get recipe', 500);
+  }
+}
+
+export async function createRecipe(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const recipe = await recipeService.createRecipe(req.user.userId, req.body);
+    return sendCreated(res, recipe, 'Recipe created successfully');
+  } catch (error: any) {
+    console.error('Create recipe error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to create recipe', 500);
+  }
+}
+
+export async function updateRecipe(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const recipe = await recipeService.updateRecipe(req.user.userId, req.params.id, req.body);
+    return sendSuccess(res, recipe, 'Recipe updated successfully');
+  } catch (error: any) {
+    console.error('Update recipe error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code, error.data);
+    }
+    return sendError(res, error.message || 'Failed to update recipe', 500);
+  }
+}
+
+export async function deleteRecipe(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    await recipeService.deleteRecipe(req.user.userId, req.params.id);
+    return sendSuccess(res, { success: true }, 'Recipe deleted successfully');
+  } catch (error: any) {
+    console.error('Delete recipe error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to delete recipe', 500);
+  }
+}
+
+export async function shareRecipe(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const { recipe, notification, recipientUids } = await recipeService.shareRecipe(
+      req.user.userId,
+      req.params.id,
+      req.body
+    );
+
+    const io = (req.app as any).io as SocketIOServer | undefined;
+    if (io && notification) {
+      for (const uid of recipientUids) {
+        emitNotification(io, uid, notification);
+      }
+    }
+
+    return sendSuccess(res, recipe, 'Recipe shared successfully');
+  } catch (error: any) {
+    console.error('Share recipe error:', error);
+    if (error instanceof AppError) {
+      return sendError(res, error.message, error.statusCode, error.code);
+    }
+    return sendError(res, error.message || 'Failed to share recipe', 500);
+  }
+}
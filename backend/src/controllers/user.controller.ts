@@ -1,8 +1,11 @@
 import { Response } from 'express';
-import { UserService } from '../services/user.service';
+import { Server as SocketIOServer } from 'socket.io';
+import { UserService, DeletedAccount } from '../services/user.service';
 import { prisma } from '../config/database';
+import { verifyPassword } from '../auth/password';
 import { sendSuccess, sendError } from '../utils/response.helper';
 import { AuthRequest } from '../auth/middleware';
+import { emitClanUpdated, emitFriendRemoved, emitNotification } from '../sockets/community.socket';
 
 const userService = new UserService(prisma);
 
@@ -43,3 +46,78 @@ export async function searchUsers(req: AuthRequest, res: Response): Promise<Resp
     return sendError(res, error.message || 'Failed to search users', 500);
   }
 }
+
+export async function exportMyData(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const data = await userService.exportUserData(req.user.userId);
+    if (!data) {
+      return sendError(res, 'User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const fileName = `healthfitness-export-${new Date().toISOString().slice(0, 10)}.json`;
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    return res.type('application/json').send(JSON.stringify(data, null, 2));
+  } catch (error: any) {
+    console.error('Export user data error:', error);
+    return sendError(res, error.message || 'Failed to export user data', 500);
+  }
+}
+
+export async function deleteMe(req: AuthRequest, res: Response): Promise<Response> {
+  try {
+    if (!req.user) {
+      return sendError(res, 'Not authenticated', 401, 'AUTH_REQUIRED');
+    }
+
+    const user = await userService.findById(req.user.userId);
+    if (!user) {
+      return sendError(res, 'User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    // Deleting is irreversible, so ask for the password again
+    const isValid = await verifyPassword(req.body.password, user.passwordHash);
+    if (!isValid) {
+      return sendError(res, 'Password is incorrect', 401, 'INVALID_CREDENTIALS');
+    }
+
+    const deleted = await userService.deleteAccount(user.id);
+
+    const io = (req.app as any).io as SocketIOServer | undefined;
+    if (io) {
+      notifyAccountDeleted(io, deleted);
+    }
+
+    return sendSuccess(res, { success: true }, 'Account deleted successfully');
+  } catch (error: any) {
+    console.error('Delete account error:', error);
+    return sendError(res, error.message || 'Failed to delete account', 500);
+  }
+}
+
+/** Tell connected friends and clan members to drop the deleted user from their caches */
+function notifyAccountDeleted(io: SocketIOServer, deleted: DeletedAccount) {
+  for (const friendUid of deleted.friendUids) {
+    emitFriendRemoved(io, friendUid, deleted.userId);
+  }
+
+  for (const clan of deleted.clans) {
+    for (const memberUid of clan.memberUids) {
+      emitClanUpdated(io, memberUid, {
+        clanId: clan.clanId,
+        ownerUid: clan.newOwnerUid,
+      });
+    }
+    if (clan.newOwnerUid) {
+      emitNotification(io, clan.newOwnerUid, {
+        type: 'CLAN_OWNERSHIP_TRANSFERRED',
+        title: 'You are now clan owner',
+        body: `You are now the owner of ${clan.name}`,
+        data: { clanId: clan.clanId },
+      });
+    }
+  }
+}
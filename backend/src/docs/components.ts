@@ -0,0 +1,635 @@
+import {
+  MEAL_TYPES,
+  WORKOUT_TYPES,
+  EXERCISE_CATEGORIES,
+  ACTIVITY_LEVELS,
+  GENDERS,
+  HEALTH_RANGE_BUCKETS,
+  RINGS_VISIBILITY,
+  CLAN_PRIVACY,
+  CLAN_ROLES,
+  GOAL_KEYS,
+  MEASUREMENT_KEYS,
+  FOOD_SOURCES,
+  NUTRIENT_KEYS,
+} from '../shared/domain';
+
+// Response shapes for the OpenAPI document. Request shapes come from the
+// validation schemas; these mirror what the services return (Prisma rows
+// serialized to JSON, so dates are ISO strings).
+
+export type JsonSchema = Record<string, any>;
+
+const string: JsonSchema = { type: 'string' };
+const integer: JsonSchema = { type: 'integer' };
+const number: JsonSchema = { type: 'number' };
+const boolean: JsonSchema = { type: 'boolean' };
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+const dateKey: JsonSchema = { type: 'string', format: 'date' };
+
+// OpenAPI 3.0 ignores siblings of $ref, so nullable references go through allOf
+const nullable = (schema: JsonSchema): JsonSchema =>
+  schema.$ref ? { allOf: [schema], nullable: true } : { ...schema, nullable: true };
+const oneOf = (values: readonly string[]): JsonSchema => ({ type: 'string', enum: [...values] });
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+
+export const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+/** Object schema; every property is required unless listed in optional */
+function object(properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema {
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties).filter((key) => !optional.includes(key)),
+  };
+}
+
+export const componentSchemas: Record<string, JsonSchema> = {
+  Success: object({ success: boolean }),
+  ErrorResponse: object(
+    {
+      success: { type: 'boolean', enum: [false] },
+      error: string,
+      code: string,
+      details: arrayOf(object({ type: string, msg: string, path: string, location: string }, ['type'])),
+      // The current record when code is VERSION_CONFLICT
+      data: { type: 'object', additionalProperties: true },
+    },
+    ['code', 'details', 'data']
+  ),
+
+  // Users
+  UserProfile: object({
+    id: string,
+    userId: string,
+    age: nullable(integer),
+    weight: nullable(number),
+    height: nullable(number),
+    activityLevel: nullable(oneOf(ACTIVITY_LEVELS)),
+    gender: nullable(oneOf(GENDERS)),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  }),
+  UserPrivacy: object({
+    id: string,
+    userId: string,
+    ringsVisibility: oneOf(RINGS_VISIBILITY),
+    allowFriendRequests: boolean,
+    allowClanInvites: boolean,
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  }),
+  User: object(
+    {
+      id: string,
+      email: string,
+      displayName: string,
+      photoURL: string,
+      usernameLower: nullable(string),
+      emailVerifiedAt: nullable(dateTime),
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      lastActiveAt: dateTime,
+      profile: nullable(ref('UserProfile')),
+      privacy: nullable(ref('UserPrivacy')),
+    },
+    ['profile', 'privacy']
+  ),
+  AuthPayload: object({ token: string, refreshToken: string, user: ref('User') }),
+  DeviceSession: object({
+    id: string,
+    userAgent: nullable(string),
+    ipAddress: nullable(string),
+    createdAt: dateTime,
+    lastUsedAt: dateTime,
+    expiresAt: dateTime,
+    current: boolean,
+  }),
+  RevokedSessions: object({ revoked: integer }),
+  VerifiedEmail: object({ id: string, email: string, emailVerifiedAt: nullable(dateTime) }),
+  AccountExport: { type: 'object', additionalProperties: true },
+
+  // Goals
+  Goals: object({
+    effectiveFrom: nullable(dateKey),
+    ...Object.fromEntries(GOAL_KEYS.map((key) => [key, number])),
+  }),
+  GoalChange: object({
+    id: string,
+    userId: string,
+    effectiveFrom: dateKey,
+    ...Object.fromEntries(GOAL_KEYS.map((key) => [key, number])),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  }),
+
+  // Measurements
+  BodyMeasurement: object({
+    id: string,
+    userId: string,
+    date: dateKey,
+    ...Object.fromEntries(MEASUREMENT_KEYS.map((key) => [key, nullable(number)])),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  }),
+
+  // Amounts in NUTRIENT_UNITS; nutrients that were not measured are left out
+  Nutrients: object(
+    Object.fromEntries(NUTRIENT_KEYS.map((key) => [key, number])),
+    [...NUTRIENT_KEYS]
+  ),
+
+  // Foods, nutrition per 100 g
+  Food: object({
+    id: string,
+    source: oneOf(FOOD_SOURCES),
+    sourceId: string,
+    name: string,
+    brand: nullable(string),
+    barcode: nullable(string),
+    calories: number,
+    carbs: number,
+    protein: number,
+    fat: number,
+    nutrients: nullable(ref('Nutrients')),
+    servings: arrayOf(object({ name: string, grams: number })),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  }),
+
+  // Recipes, nutrition for the whole recipe
+  Recipe: object({
+    id: string,
+    userId: string,
+    name: string,
+    servings: number,
+    calories: number,
+    carbs: number,
+    protein: number,
+    fat: number,
+    nutrients: nullable(ref('Nutrients')),
+    version: integer,
+    createdAt: dateTime,
+    updatedAt: dateTime,
+    ingredients: arrayOf(ref('RecipeIngredient')),
+    shares: arrayOf(object({ userId: nullable(string), clanId: nullable(string) })),
+    user: object({ id: string, displayName: string }),
+  }),
+  RecipeIngredient: object({
+    id: string,
+    recipeId: string,
+    position: integer,
+    name: string,
+    quantity: number,
+    unit: string,
+    calories: number,
+    carbs: number,
+    protein: number,
+    fat: number,
+    nutrients: nullable(ref('Nutrients')),
+    foodId: nullable(string),
+  }),
+
+  // Meal plans: meals scheduled for a day, not yet counted in its totals
+  PlannedMeal: object({
+    id: string,
+    userId: string,
+    date: dateKey,
+    type: oneOf(MEAL_TYPES),
+    name: string,
+    calories: number,
+    carbs: number,
+    protein: number,
+    fat: number,
+    nutrients: nullable(ref('Nutrients')),
+    loggedMealId: nullable(string),
+    version: integer,
+    createdAt: dateTime,
+    updatedAt: dateTime,
+    items: arrayOf(ref('PlannedMealItem')),
+  }),
+  PlannedMealItem: object({
+    id: string,
+    plannedMealId: string,
+    position: integer,
+    name: string,
+    quantity: number,
+    unit: string,
+    calories: number,
+    carbs: number,
+    protein: number,
+    fat: number,
+    nutrients: nullable(ref('Nutrients')),
+    foodId: nullable(string),
+  }),
+
+  // Food recognition. Nutrition is for the portion on the photo; corrected
+  // items were renamed and scaled by one of the user's corrections.
+  FoodRecognition: object({
+    provider: string,
+    items: arrayOf(
+      object({
+        detectedName: string,
+        name: string,
+        quantity: number,
+        unit: string,
+        grams: nullable(number),
+        calories: number,
+        detectedCalories: number,
+        carbs: number,
+        protein: number,
+        fat: number,
+        nutrients: nullable(ref('Nutrients')),
+        confidence: number,
+        foodId: nullable(string),
+        corrected: boolean,
+      })
+    ),
+  }),
+  FoodCorrection: object({
+    id: string,
+    userId: string,
+    detectedName: string,
+    name: string,
+    foodId: nullable(string),
+    portionFactor: number,
+    count: integer,
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  }),
+
+  // Health
+  Meal: object({
+    id: string,
+    dailyHealthDataId: string,
+    type: oneOf(MEAL_TYPES),
+    name: string,
+    calories: number,
+    carbs: number,
+    protein: number,
+    fat: number,
+    nutrients: nullable(ref('Nutrients')),
+    timestamp: dateTime,
+    version: integer,
+    createdAt: dateTime,
+    updatedAt: dateTime,
+    items: arrayOf(ref('MealItem')),
+  }),
+  MealItem: object({
+    id: string,
+    mealId: string,
+    position: integer,
+    name: string,
+    quantity: number,
+    unit: string,
+    calories: number,
+    carbs: number,
+    protein: number,
+    fat: number,
+    nutrients: nullable(ref('Nutrients')),
+    foodId: nullable(string),
+  }),
+  MealSuggestion: object({
+    id: string,
+    userId: string,
+    type: oneOf(MEAL_TYPES),
+    name: string,
+    calories: number,
+    carbs: number,
+    protein: number,
+    fat: number,
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  }),
+  WaterEntry: object({
+    id: string,
+    dailyHealthDataId: string,
+    glasses: number,
+    timestamp: dateTime,
+    version: integer,
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  }),
+  Exercise: object({
+    id: string,
+    workoutId: string,
+    name: string,
+    category: oneOf(EXERCISE_CATEGORIES),
+    duration: nullable(integer),
+    sets: nullable(integer),
+    reps: nullable(integer),
+    weight: nullable(number),
+    caloriesBurned: nullable(number),
+    notes: nullable(string),
+    createdAt: dateTime,
+  }),
+  LocationPoint: object({
+    id: string,
+    workoutId: string,
+    latitude: number,
+    longitude: number,
+    timestamp: dateTime,
+    altitude: nullable(number),
+    speed: nullable(number),
+    accuracy: nullable(number),
+    createdAt: dateTime,
+  }),
+  Workout: object(
+    {
+      id: string,
+      dailyHealthDataId: string,
+      name: string,
+      type: oneOf(WORKOUT_TYPES),
+      startTime: dateTime,
+      endTime: nullable(dateTime),
+      duration: integer,
+      totalCaloriesBurned: number,
+      distance: nullable(number),
+      averageSpeed: nullable(number),
+      maxSpeed: nullable(number),
+      version: integer,
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      exercises: arrayOf(ref('Exercise')),
+      locationPoints: arrayOf(ref('LocationPoint')),
+    },
+    ['exercises', 'locationPoints']
+  ),
+  FastingSession: object({
+    id: string,
+    userId: string,
+    type: string,
+    startTime: dateTime,
+    endTime: nullable(dateTime),
+    targetDuration: nullable(number),
+    eatingWindowStart: nullable(integer),
+    eatingWindowEnd: nullable(integer),
+    version: integer,
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  }),
+  DailyHealthData: object(
+    {
+      id: string,
+      userId: string,
+      date: dateKey,
+      caloriesConsumed: number,
+      caloriesBurned: number,
+      activeEnergyBurned: nullable(number),
+      dietaryEnergyConsumed: nullable(number),
+      heartRate: nullable(integer),
+      restingHeartRate: nullable(integer),
+      steps: integer,
+      waterIntake: number,
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      meals: arrayOf(ref('Meal')),
+      waterEntries: arrayOf(ref('WaterEntry')),
+      workouts: arrayOf(ref('Workout')),
+      fastingSessions: arrayOf(ref('FastingSession')),
+    },
+    ['fastingSessions']
+  ),
+  HealthRangeRow: object({
+    start: dateKey,
+    days: integer,
+    totalSteps: number,
+    avgSteps: number,
+    totalCaloriesConsumed: number,
+    avgCaloriesConsumed: number,
+    totalCaloriesBurned: number,
+    avgCaloriesBurned: number,
+    totalWaterIntake: number,
+    avgWaterIntake: number,
+    totalWorkoutMinutes: number,
+    avgWorkoutMinutes: number,
+    totalFastingHours: number,
+    avgFastingHours: number,
+  }),
+  HealthRange: object({
+    from: dateKey,
+    to: dateKey,
+    bucket: oneOf(HEALTH_RANGE_BUCKETS),
+    buckets: arrayOf(ref('HealthRangeRow')),
+  }),
+
+  // Community
+  Friend: object(
+    {
+      id: string,
+      userId: string,
+      friendUid: string,
+      ringsShare: boolean,
+      createdAt: dateTime,
+      friend: ref('User'),
+    },
+    ['friend']
+  ),
+  FriendRequest: object(
+    {
+      id: string,
+      fromUid: string,
+      toUid: string,
+      status: oneOf(['pending', 'accepted', 'rejected', 'canceled']),
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      fromUser: ref('User'),
+      toUser: ref('User'),
+    },
+    ['fromUser', 'toUser']
+  ),
+  FriendRequests: object({
+    sent: arrayOf(ref('FriendRequest')),
+    received: arrayOf(ref('FriendRequest')),
+  }),
+  ClanMember: object(
+    {
+      id: string,
+      clanId: string,
+      uid: string,
+      role: oneOf(CLAN_ROLES),
+      status: oneOf(['active', 'invited']),
+      joinedAt: dateTime,
+      user: ref('User'),
+      clan: ref('Clan'),
+    },
+    ['user', 'clan']
+  ),
+  Clan: object(
+    {
+      id: string,
+      name: string,
+      description: string,
+      photoURL: string,
+      ownerUid: string,
+      privacy: oneOf(CLAN_PRIVACY),
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      owner: ref('User'),
+      members: arrayOf(ref('ClanMember')),
+    },
+    ['owner', 'members']
+  ),
+  ClanInvite: object(
+    {
+      id: string,
+      clanId: string,
+      fromUid: string,
+      toUid: string,
+      status: oneOf(['pending', 'accepted', 'rejected']),
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      clan: ref('Clan'),
+      fromUser: ref('User'),
+      toUser: ref('User'),
+    },
+    ['clan', 'fromUser', 'toUser']
+  ),
+  Notification: object({
+    id: string,
+    userId: string,
+    type: string,
+    title: string,
+    body: string,
+    data: { type: 'string', description: 'JSON-encoded payload' },
+    read: boolean,
+    createdAt: dateTime,
+  }),
+  UnreadCount: object({ count: integer }),
+  RingStats: object({
+    id: string,
+    userId: string,
+    date: { type: 'string', pattern: '^\\d{8}$' },
+    caloriesBurned: number,
+    steps: integer,
+    workoutMinutes: integer,
+    goalCalories: number,
+    goalSteps: integer,
+    goalMinutes: integer,
+    updatedAt: dateTime,
+  }),
+};
+
+/**
+ * The `data` returned by each operation, keyed by controller function name.
+ * Operations missing here are documented without a response body.
+ */
+export const operationResponses: Record<string, JsonSchema> = {
+  // Auth
+  register: ref('AuthPayload'),
+  login: ref('AuthPayload'),
+  refreshToken: ref('AuthPayload'),
+  logout: ref('Success'),
+  logoutAll: ref('RevokedSessions'),
+  getSessions: arrayOf(ref('DeviceSession')),
+  revokeSession: ref('Success'),
+  forgotPassword: ref('Success'),
+  resetPassword: ref('Success'),
+  sendVerificationEmail: ref('Success'),
+  verifyEmail: ref('VerifiedEmail'),
+  getMe: ref('User'),
+  updateProfile: ref('UserProfile'),
+  updatePrivacy: ref('UserPrivacy'),
+
+  // Users
+  exportMyData: ref('AccountExport'),
+  deleteMe: ref('Success'),
+  getUserById: ref('User'),
+  searchUsers: arrayOf(ref('User')),
+
+  // Health
+  getDailyHealthData: ref('DailyHealthData'),
+  saveDailyHealthData: ref('DailyHealthData'),
+  getWeeklyHealthData: arrayOf(ref('DailyHealthData')),
+  getHealthRange: ref('HealthRange'),
+  addMeal: ref('Meal'),
+  updateMeal: ref('Meal'),
+  deleteMeal: ref('Success'),
+  getMealSuggestions: arrayOf(ref('MealSuggestion')),
+  saveMealSuggestion: ref('MealSuggestion'),
+  addWaterEntry: ref('WaterEntry'),
+  addWorkout: ref('Workout'),
+  updateWorkout: ref('Workout'),
+  deleteWorkout: ref('Success'),
+  listFastingSessions: arrayOf(ref('FastingSession')),
+  getActiveFastingSession: nullable(ref('FastingSession')),
+  startFastingSession: ref('FastingSession'),
+  stopFastingSession: ref('FastingSession'),
+  updateFastingSession: ref('FastingSession'),
+  deleteFastingSession: ref('Success'),
+
+  // Goals
+  getGoals: ref('Goals'),
+  getGoalHistory: arrayOf(ref('GoalChange')),
+  setGoals: ref('GoalChange'),
+
+  // Measurements
+  getMeasurements: arrayOf(ref('BodyMeasurement')),
+  saveMeasurement: ref('BodyMeasurement'),
+  deleteMeasurement: ref('Success'),
+
+  // Foods
+  searchFoods: arrayOf(ref('Food')),
+  getFoodByBarcode: ref('Food'),
+  getFood: ref('Food'),
+
+  // Recipes
+  getRecipes: arrayOf(ref('Recipe')),
+  getRecipe: ref('Recipe'),
+  createRecipe: ref('Recipe'),
+  updateRecipe: ref('Recipe'),
+  deleteRecipe: ref('Success'),
+  shareRecipe: ref('Recipe'),
+
+  // Meal plans
+  getPlannedMeals: arrayOf(ref('PlannedMeal')),
+  createPlannedMeal: ref('PlannedMeal'),
+  updatePlannedMeal: ref('PlannedMeal'),
+  deletePlannedMeal: ref('Success'),
+
+  // Food recognition
+  recognizeFood: ref('FoodRecognition'),
+  getFoodCorrections: arrayOf(ref('FoodCorrection')),
+  saveFoodCorrections: arrayOf(ref('FoodCorrection')),
+
+  // Community
+  getFriends: arrayOf(ref('Friend')),
+  getFriendRequests: ref('FriendRequests'),
+  sendFriendRequest: ref('FriendRequest'),
+  acceptFriendRequest: ref('Friend'),
+  rejectFriendRequest: ref('Success'),
+  cancelFriendRequest: ref('Success'),
+  removeFriend: ref('Success'),
+  blockUser: ref('Success'),
+  unblockUser: ref('Success'),
+  getUserClans: arrayOf(ref('Clan')),
+  getClan: ref('Clan'),
+  createClan: ref('Clan'),
+  updateClanDetails: ref('Clan'),
+  inviteToClan: ref('ClanInvite'),
+  respondClanInvite: ref('Success'),
+  getClanInvites: arrayOf(ref('ClanInvite')),
+  leaveClan: ref('Success'),
+  removeClanMember: ref('Success'),
+  updateClanRole: ref('ClanMember'),
+  getNotifications: arrayOf(ref('Notification')),
+  getUnreadNotificationCount: ref('UnreadCount'),
+  markNotificationRead: ref('Notification'),
+  markAllNotificationsRead: ref('Success'),
+  getRingStats: ref('RingStats'),
+  updateRingStats: ref('RingStats'),
+};
+
+/** Operations that answer 201 Created instead of 200 */
+export const createdOperations = new Set([
+  'register',
+  'addMeal',
+  'addWaterEntry',
+  'addWorkout',
+  'startFastingSession',
+  'createRecipe',
+  'createPlannedMeal',
+  'sendFriendRequest',
+  'createClan',
+  'inviteToClan',
+]);
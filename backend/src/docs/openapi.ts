@@ -0,0 +1,262 @@
+import { Router } from 'express';
+import { ParamSchema } from 'express-validator';
+import { requireAuth } from '../auth/middleware';
+import { DocumentedField, getDocumentedField } from '../schemas/registry';
+import { componentSchemas, createdOperations, operationResponses, JsonSchema, ref } from './components';
+
+export interface ApiMount {
+  path: string; // relative to /api
+  tag: string;
+  router: Router;
+}
+
+// The parts of Express' router internals the generator reads
+interface RouteLayer {
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: { handle: unknown }[];
+  };
+  handle: unknown;
+}
+
+const API_VERSION = '1.0.0';
+
+/** Options passed to a validator in a ParamSchema, e.g. { min, max } for isInt */
+function validatorOptions(schema: ParamSchema, name: keyof ParamSchema): any {
+  const entry = schema[name] as any;
+  if (!entry || entry === true) {
+    return undefined;
+  }
+  return Array.isArray(entry.options) ? entry.options[0] : entry.options;
+}
+
+function isNullable(schema: ParamSchema): boolean {
+  return typeof schema.optional === 'object' && schema.optional.options?.values === 'null';
+}
+
+function isRequired(schema: ParamSchema): boolean {
+  return !schema.optional;
+}
+
+/** Translate the validators of one field into a JSON schema */
+function fieldToJsonSchema(schema: ParamSchema): JsonSchema {
+  const json: JsonSchema = {};
+  const range = validatorOptions(schema, 'isInt') || validatorOptions(schema, 'isFloat') || {};
+
+  if (schema.isInt) {
+    json.type = 'integer';
+  } else if (schema.isFloat) {
+    json.type = 'number';
+  } else if (schema.isBoolean) {
+    json.type = 'boolean';
+  } else if (schema.isArray) {
+    json.type = 'array';
+    const maxItems = validatorOptions(schema, 'isArray')?.max;
+    if (maxItems !== undefined) {
+      json.maxItems = maxItems;
+    }
+  } else if (schema.isObject) {
+    json.type = 'object';
+  } else {
+    json.type = 'string';
+  }
+
+  if (range.min !== undefined) json.minimum = range.min;
+  if (range.max !== undefined) json.maximum = range.max;
+  if (range.gt !== undefined) {
+    json.minimum = range.gt;
+    json.exclusiveMinimum = true;
+  }
+
+  if (schema.isIn) json.enum = [...validatorOptions(schema, 'isIn')];
+  if (schema.matches) json.pattern = (validatorOptions(schema, 'matches') as RegExp).source;
+  if (schema.isISO8601) json.format = schema.matches ? 'date' : 'date-time';
+  if (schema.isEmail) json.format = 'email';
+  if (schema.isUUID) json.format = 'uuid';
+
+  const length = validatorOptions(schema, 'isLength');
+  if (length?.min) json.minLength = length.min;
+  if (length?.max) json.maxLength = length.max;
+  if (schema.notEmpty) json.minLength = Math.max(json.minLength || 0, 1);
+
+  if (isNullable(schema)) json.nullable = true;
+  return json;
+}
+
+function emptyObject(): JsonSchema {
+  return { type: 'object', properties: {}, required: [] };
+}
+
+/**
+ * Place a body field into the request body schema. Dotted paths nest
+ * objects and `*` segments become array items, e.g. workout.exercises.*.name.
+ */
+function addBodyField(root: JsonSchema, field: DocumentedField) {
+  const segments = field.path.split('.');
+  let node = root;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+
+    if (i === segments.length - 1) {
+      node.properties[segment] = Object.assign(node.properties[segment] || {}, fieldToJsonSchema(field.schema));
+      if (isRequired(field.schema)) {
+        node.required.push(segment);
+      }
+      return;
+    }
+
+    const child = (node.properties[segment] ||= emptyObject());
+    if (segments[i + 1] === '*') {
+      child.type = 'array';
+      delete child.properties;
+      delete child.required;
+      child.items ||= emptyObject();
+      node = child.items;
+      i++;
+    } else {
+      child.properties ||= {};
+      child.required ||= [];
+      node = child;
+    }
+  }
+}
+
+/** OpenAPI 3.0 rejects empty `required` lists */
+function pruneRequired(schema: JsonSchema): JsonSchema {
+  if (Array.isArray(schema.required) && schema.required.length === 0) {
+    delete schema.required;
+  }
+  Object.values(schema.properties || {}).forEach((child) => pruneRequired(child as JsonSchema));
+  if (schema.items) {
+    pruneRequired(schema.items);
+  }
+  return schema;
+}
+
+function envelope(data: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean', enum: [true] },
+      data,
+      message: { type: 'string' },
+    },
+    required: ['success', 'data'],
+  };
+}
+
+function errorResponse(description: string) {
+  return { description, content: { 'application/json': { schema: ref('ErrorResponse') } } };
+}
+
+function buildOperation(
+  operationId: string,
+  tag: string,
+  path: string,
+  fields: DocumentedField[],
+  secured: boolean
+) {
+  const parameters: JsonSchema[] = fields
+    .filter((field) => field.location === 'params' || field.location === 'query')
+    .map((field) => ({
+      name: field.path,
+      in: field.location === 'params' ? 'path' : 'query',
+      required: field.location === 'params' || isRequired(field.schema),
+      schema: fieldToJsonSchema(field.schema),
+    }));
+
+  // Path parameters without a validator are still part of the URL
+  for (const [, name] of path.matchAll(/\{(\w+)\}/g)) {
+    if (!parameters.some((parameter) => parameter.in === 'path' && parameter.name === name)) {
+      parameters.push({ name, in: 'path', required: true, schema: { type: 'string' } });
+    }
+  }
+
+  const bodyFields = fields.filter((field) => field.location === 'body');
+  const body = emptyObject();
+  bodyFields.forEach((field) => addBodyField(body, field));
+
+  const data = operationResponses[operationId];
+  const status = createdOperations.has(operationId) ? '201' : '200';
+  const responses: Record<string, unknown> = {
+    [status]: data
+      ? { description: 'Success', content: { 'application/json': { schema: envelope(data) } } }
+      : { description: 'Success' },
+  };
+  if (fields.length > 0) {
+    responses['400'] = errorResponse('Validation failed');
+  }
+  if (secured) {
+    responses['401'] = errorResponse('Not authenticated');
+  }
+  if (bodyFields.some((field) => field.path === 'version')) {
+    responses['409'] = errorResponse('Changed on another device; data holds the current record');
+  }
+
+  return {
+    operationId,
+    tags: [tag],
+    ...(secured ? { security: [{ bearerAuth: [] }] } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(bodyFields.length > 0
+      ? { requestBody: { required: true, content: { 'application/json': { schema: pruneRequired(body) } } } }
+      : {}),
+    responses,
+  };
+}
+
+/**
+ * Build the OpenAPI 3 document by walking the mounted routers: each route's
+ * validation chains describe its parameters and body, requireAuth marks it
+ * as secured, and the controller's function name is the operationId.
+ */
+export function buildOpenApiDocument(mounts: ApiMount[]) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const mount of mounts) {
+    // router.use(requireAuth) secures every route registered after it
+    let authenticated = false;
+
+    for (const layer of mount.router.stack as unknown as RouteLayer[]) {
+      if (!layer.route) {
+        authenticated ||= layer.handle === requireAuth;
+        continue;
+      }
+
+      const handlers = layer.route.stack.map((routeLayer) => routeLayer.handle);
+      const controller = handlers[handlers.length - 1] as { name: string };
+      const fields = handlers
+        .map(getDocumentedField)
+        .filter((field): field is DocumentedField => field !== undefined);
+      const secured = authenticated || handlers.includes(requireAuth);
+      // A router's own root ('/') is documented as the mount path itself
+      const route = layer.route.path === '/' ? '' : layer.route.path;
+      const path = `${mount.path}${route}`.replace(/:(\w+)/g, '{$1}');
+
+      for (const method of Object.keys(layer.route.methods)) {
+        paths[path] ||= {};
+        paths[path][method] = buildOperation(controller.name, mount.tag, path, fields, secured);
+      }
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Health & Fitness API',
+      version: API_VERSION,
+      description: 'Generated from the Express routes and their validation schemas.',
+    },
+    servers: [{ url: '/api' }],
+    tags: mounts.map((mount) => ({ name: mount.tag })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+      schemas: componentSchemas,
+    },
+  };
+}
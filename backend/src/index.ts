@@ -8,21 +8,29 @@ import { errorHandler, notFoundHandler } from './middleware/error.middleware';
 import { initializeSocket } from './config/socket';
 import { setupSocketHandlers } from './sockets/socket.handlers';
 import { prisma } from './config/database';
+import { RECOGNITION_LIMITS } from './shared/domain';
 
 // Routes
-import authRoutes from './routes/auth.routes';
-import userRoutes from './routes/user.routes';
-import healthRoutes from './routes/health.routes';
-import communityRoutes from './routes/community.routes';
+import { apiRoutes } from './routes';
+import { buildOpenApiDocument } from './docs/openapi';
 
 // Load environment variables
 dotenv.config();
 
 const PORT = process.env.PORT || 4000;
 
+// Room for the base64 photo, a third larger than the file, and its hints
+const RECOGNITION_BODY_LIMIT = Math.ceil((RECOGNITION_LIMITS.imageBytes * 4) / 3) + 64 * 1024;
+
 async function startServer() {
   const app = express();
 
+  // Behind a load balancer, trust X-Forwarded-For so rate limits see client IPs
+  // (a hop count such as 1, or a subnet list such as "loopback, 10.0.0.0/8")
+  if (process.env.TRUST_PROXY) {
+    app.set('trust proxy', Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+  }
+
   // Security middleware
   app.use(helmet());
   
@@ -34,7 +42,8 @@ async function startServer() {
     })
   );
 
-  // Body parsing middleware
+  // Body parsing middleware; food photos arrive base64 encoded in the body
+  app.use('/api/food-recognition', express.json({ limit: RECOGNITION_BODY_LIMIT }));
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
@@ -47,10 +56,15 @@ async function startServer() {
   });
 
   // API Routes
-  app.use('/api/auth', authRoutes);
-  app.use('/api/users', userRoutes);
-  app.use('/api/health', healthRoutes);
-  app.use('/api/community', communityRoutes);
+  for (const { path, router } of apiRoutes) {
+    app.use(`/api${path}`, router);
+  }
+
+  // OpenAPI document generated from the routes above
+  const openApiDocument = buildOpenApiDocument(apiRoutes);
+  app.get('/api/docs', (req, res) => {
+    res.json(openApiDocument);
+  });
 
   // 404 handler
   app.use(notFoundHandler);
@@ -93,6 +107,7 @@ async function startServer() {
     console.log(`👤 User endpoints: http://localhost:${PORT}/api/users`);
     console.log(`🏥 Health endpoints: http://localhost:${PORT}/api/health`);
     console.log(`👥 Community endpoints: http://localhost:${PORT}/api/community`);
+    console.log(`📖 OpenAPI document: http://localhost:${PORT}/api/docs`);
     console.log(`⚡ Socket.io ready at http://localhost:${PORT}`);
   });
 }
@@ -1,11 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { sendError } from '../utils/response.helper';
 
-export interface AppError extends Error {
-  statusCode?: number;
-  code?: string;
-}
-
 export function errorHandler(
   err: AppError,
   req: Request,
@@ -19,7 +14,7 @@ export function errorHandler(
   const message = err.message || 'Internal server error';
   const code = err.code;
 
-  sendError(res, message, statusCode, code);
+  sendError(res, message, statusCode, code, err.data);
 }
 
 export function notFoundHandler(req: Request, res: Response, next: NextFunction): void {
@@ -29,11 +24,13 @@ export function notFoundHandler(req: Request, res: Response, next: NextFunction)
 export class AppError extends Error {
   statusCode: number;
   code?: string;
+  data?: unknown; // extra detail for the client, e.g. the current record on a version conflict
 
-  constructor(message: string, statusCode: number = 500, code?: string) {
+  constructor(message: string, statusCode: number = 500, code?: string, data?: unknown) {
     super(message);
     this.statusCode = statusCode;
     this.code = code;
+    this.data = data;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -0,0 +1,40 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../auth/middleware';
+import { AppError } from './error.middleware';
+
+export type OwnerResolver = (resourceId: string) => Promise<string | null>;
+
+/**
+ * Middleware to require that the authenticated user owns the resource
+ * identified by a route param. Responds 404 when the resource does not
+ * exist and 403 when it belongs to someone else.
+ */
+export function requireOwnership(
+  resourceName: string,
+  resolveOwner: OwnerResolver,
+  param: string = 'id'
+) {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        return next(new AppError('Authentication required', 401, 'AUTH_REQUIRED'));
+      }
+
+      const ownerId = await resolveOwner(req.params[param]);
+
+      if (!ownerId) {
+        return next(new AppError(`${resourceName} not found`, 404, 'NOT_FOUND'));
+      }
+
+      if (ownerId !== req.user.userId) {
+        return next(
+          new AppError(`You do not have access to this ${resourceName.toLowerCase()}`, 403, 'FORBIDDEN')
+        );
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,109 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../auth/middleware';
+import { sendError } from '../utils/response.helper';
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: number; // epoch ms when the current window ends
+}
+
+/**
+ * Counter storage for rate limits. The in-memory store only covers a single
+ * process; run several instances behind a shared store (e.g. Redis) instead.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+/** Fixed-window counters kept in process memory */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, RateLimitHit>();
+
+  constructor(sweepIntervalMs: number = 60 * 1000) {
+    // Drop expired windows so idle keys don't accumulate
+    const sweep = setInterval(() => {
+      const now = Date.now();
+      for (const [key, hit] of this.hits) {
+        if (hit.resetAt <= now) {
+          this.hits.delete(key);
+        }
+      }
+    }, sweepIntervalMs);
+    sweep.unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.hits.get(key);
+
+    if (!current || current.resetAt <= now) {
+      const hit = { count: 1, resetAt: now + windowMs };
+      this.hits.set(key, hit);
+      return hit;
+    }
+
+    current.count += 1;
+    return current;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+}
+
+let defaultStore: RateLimitStore = new MemoryRateLimitStore();
+
+/** Replace the store used by limiters created without an explicit one */
+export function setRateLimitStore(store: RateLimitStore): void {
+  defaultStore = store;
+}
+
+export interface RateLimitOptions {
+  /** Bucket name, keeps counters of different limiters apart */
+  name: string;
+  windowMs: number;
+  max: number;
+  /** Count per client IP, or per signed-in user (falls back to IP) */
+  by?: 'ip' | 'user';
+  message?: string;
+  store?: RateLimitStore;
+}
+
+/**
+ * Limit how often a client may hit a route. Over the limit the request is
+ * rejected with 429 and a Retry-After header.
+ */
+export function rateLimit(options: RateLimitOptions) {
+  const { name, windowMs, max, by = 'ip', message = 'Too many requests, please try again later' } = options;
+
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (process.env.RATE_LIMIT_DISABLED === 'true') {
+      return next();
+    }
+
+    const client = by === 'user' && req.user ? `user:${req.user.userId}` : `ip:${req.ip}`;
+    const store = options.store || defaultStore;
+
+    try {
+      const hit = await store.increment(`${name}:${client}`, windowMs);
+      const resetSeconds = Math.max(1, Math.ceil((hit.resetAt - Date.now()) / 1000));
+
+      res.setHeader('RateLimit-Limit', max);
+      res.setHeader('RateLimit-Remaining', Math.max(0, max - hit.count));
+      res.setHeader('RateLimit-Reset', resetSeconds);
+
+      if (hit.count > max) {
+        res.setHeader('Retry-After', resetSeconds);
+        sendError(res, message, 429, 'RATE_LIMITED');
+        return;
+      }
+
+      next();
+    } catch (error) {
+      // A broken store should not take the API down with it
+      console.error('Rate limit store error:', error);
+      next();
+    }
+  };
+}
@@ -1,60 +1,80 @@
 import { Router } from 'express';
-import { body } from 'express-validator';
-import { register, login, refreshToken, getMe, updateProfile, updatePrivacy } from '../controllers/auth.controller';
+import {
+  register,
+  login,
+  refreshToken,
+  logout,
+  logoutAll,
+  getSessions,
+  revokeSession,
+  forgotPassword,
+  resetPassword,
+  sendVerificationEmail,
+  verifyEmail,
+  getMe,
+  updateProfile,
+  updatePrivacy,
+} from '../controllers/auth.controller';
 import { requireAuth } from '../auth/middleware';
 import { checkValidationErrors } from '../middleware/validation.middleware';
+import {
+  loginLimiter,
+  registerLimiter,
+  accountEmailLimiter,
+  accountTokenLimiter,
+} from '../config/rateLimit';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  sessionIdSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  updateProfileSchema,
+  updatePrivacySchema,
+} from '../schemas/auth.schema';
 
 const router = Router();
 
 // Register
-router.post(
-  '/register',
-  [
-    body('email').isEmail().withMessage('Valid email is required'),
-    body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
-    body('displayName').optional().isString(),
-    body('username').optional().isString(),
-    checkValidationErrors,
-  ],
-  register
-);
+router.post('/register', registerLimiter, [...registerSchema, checkValidationErrors], register);
 
 // Login
-router.post(
-  '/login',
-  [
-    body('email').isEmail().withMessage('Valid email is required'),
-    body('password').notEmpty().withMessage('Password is required'),
-    checkValidationErrors,
-  ],
-  login
-);
+router.post('/login', loginLimiter, [...loginSchema, checkValidationErrors], login);
 
 // Refresh token
-router.post(
-  '/refresh',
-  [
-    body('refreshToken').notEmpty().withMessage('Refresh token is required'),
-    checkValidationErrors,
-  ],
-  refreshToken
-);
+router.post('/refresh', [...refreshTokenSchema, checkValidationErrors], refreshToken);
+
+// Sign out this device
+router.post('/logout', [...refreshTokenSchema, checkValidationErrors], logout);
+
+// Sign out everywhere (requires auth)
+router.post('/logout-all', requireAuth, logoutAll);
+
+// Signed-in devices (requires auth)
+router.get('/sessions', requireAuth, getSessions);
+router.delete('/sessions/:id', requireAuth, [...sessionIdSchema, checkValidationErrors], revokeSession);
+
+// Request a password reset email
+router.post('/forgot-password', accountEmailLimiter, [...forgotPasswordSchema, checkValidationErrors], forgotPassword);
+
+// Set a new password with a reset token
+router.post('/reset-password', accountTokenLimiter, [...resetPasswordSchema, checkValidationErrors], resetPassword);
+
+// Resend the verification email (requires auth)
+router.post('/verify-email/send', requireAuth, accountEmailLimiter, sendVerificationEmail);
+
+// Confirm an email address with a verification token
+router.post('/verify-email', accountTokenLimiter, [...verifyEmailSchema, checkValidationErrors], verifyEmail);
 
 // Get current user (requires auth)
 router.get('/me', requireAuth, getMe);
 
 // Update profile (requires auth)
-router.put(
-  '/profile',
-  requireAuth,
-  updateProfile
-);
+router.put('/profile', requireAuth, [...updateProfileSchema, checkValidationErrors], updateProfile);
 
 // Update privacy (requires auth)
-router.put(
-  '/privacy',
-  requireAuth,
-  updatePrivacy
-);
+router.put('/privacy', requireAuth, [...updatePrivacySchema, checkValidationErrors], updatePrivacy);
 
 export default router;
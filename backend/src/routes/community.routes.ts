@@ -27,6 +27,26 @@ import {
   updateRingStats,
 } from '../controllers/community.controller';
 import { requireAuth } from '../auth/middleware';
+import { checkValidationErrors } from '../middleware/validation.middleware';
+import { friendRequestLimiter, clanInviteLimiter } from '../config/rateLimit';
+import {
+  sendFriendRequestSchema,
+  fromUidSchema,
+  toUidSchema,
+  friendUidSchema,
+  blockedUidSchema,
+  clanIdSchema,
+  createClanSchema,
+  updateClanSchema,
+  inviteToClanSchema,
+  respondClanInviteSchema,
+  clanMemberSchema,
+  updateClanRoleSchema,
+  listNotificationsSchema,
+  notificationIdSchema,
+  ringStatsDateSchema,
+  updateRingStatsSchema,
+} from '../schemas/community.schema';
 
 const router = Router();
 
@@ -36,36 +56,45 @@ router.use(requireAuth);
 // Friends
 router.get('/friends', getFriends);
 router.get('/friend-requests', getFriendRequests);
-router.post('/friend-requests', sendFriendRequest);
-router.post('/friend-requests/:fromUid/accept', acceptFriendRequest);
-router.post('/friend-requests/:fromUid/reject', rejectFriendRequest);
-router.delete('/friend-requests/:toUid', cancelFriendRequest);
-router.delete('/friends/:friendUid', removeFriend);
+router.post(
+  '/friend-requests',
+  friendRequestLimiter,
+  [...sendFriendRequestSchema, checkValidationErrors],
+  sendFriendRequest
+);
+router.post('/friend-requests/:fromUid/accept', [...fromUidSchema, checkValidationErrors], acceptFriendRequest);
+router.post('/friend-requests/:fromUid/reject', [...fromUidSchema, checkValidationErrors], rejectFriendRequest);
+router.delete('/friend-requests/:toUid', [...toUidSchema, checkValidationErrors], cancelFriendRequest);
+router.delete('/friends/:friendUid', [...friendUidSchema, checkValidationErrors], removeFriend);
 
 // Block/Unblock
-router.post('/block/:blockedUid', blockUser);
-router.delete('/block/:blockedUid', unblockUser);
+router.post('/block/:blockedUid', [...blockedUidSchema, checkValidationErrors], blockUser);
+router.delete('/block/:blockedUid', [...blockedUidSchema, checkValidationErrors], unblockUser);
 
 // Clans
 router.get('/clans', getUserClans);
-router.get('/clans/:id', getClan);
-router.post('/clans', createClan);
-router.put('/clans/:id', updateClanDetails);
-router.post('/clans/:id/invite', inviteToClan);
-router.post('/clans/:id/invites/:inviteId/respond', respondClanInvite);
+router.get('/clans/:id', [...clanIdSchema, checkValidationErrors], getClan);
+router.post('/clans', [...createClanSchema, checkValidationErrors], createClan);
+router.put('/clans/:id', [...updateClanSchema, checkValidationErrors], updateClanDetails);
+router.post('/clans/:id/invite', clanInviteLimiter, [...inviteToClanSchema, checkValidationErrors], inviteToClan);
+router.post(
+  '/clans/:id/invites/:inviteId/respond',
+  [...respondClanInviteSchema, checkValidationErrors],
+  respondClanInvite
+);
 router.get('/clans/invites', getClanInvites);
-router.delete('/clans/:id/leave', leaveClan);
-router.delete('/clans/:id/members/:memberUid', removeClanMember);
-router.put('/clans/:id/members/:memberUid/role', updateClanRole);
+router.delete('/clans/:id/leave', [...clanIdSchema, checkValidationErrors], leaveClan);
+router.delete('/clans/:id/members/:memberUid', [...clanMemberSchema, checkValidationErrors], removeClanMember);
+router.put('/clans/:id/members/:memberUid/role', [...updateClanRoleSchema, checkValidationErrors], updateClanRole);
 
 // Notifications
-router.get('/notifications', getNotifications);
+router.get('/notifications', [...listNotificationsSchema, checkValidationErrors], getNotifications);
 router.get('/notifications/unread-count', getUnreadNotificationCount);
-router.put('/notifications/:id/read', markNotificationRead);
+router.put('/notifications/:id/read', [...notificationIdSchema, checkValidationErrors], markNotificationRead);
 router.put('/notifications/read-all', markAllNotificationsRead);
 
 // Ring Stats
-router.get('/ring-stats/:date', getRingStats);
-router.put('/ring-stats', updateRingStats);
+router.get('/ring-stats/:date', [...ringStatsDateSchema, checkValidationErrors], getRingStats);
+router.put('/ring-stats', [...updateRingStatsSchema, checkValidationErrors], updateRingStats);
 
 export default router;
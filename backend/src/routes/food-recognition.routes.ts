@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { recognizeFood, getFoodCorrections, saveFoodCorrections } from '../controllers/food-recognition.controller';
+import { requireAuth } from '../auth/middleware';
+import { checkValidationErrors } from '../middleware/validation.middleware';
+import { foodRecognitionLimiter } from '../config/rateLimit';
+import { recognizeFoodSchema, saveFoodCorrectionsSchema } from '../schemas/food-recognition.schema';
+
+const router = Router();
+
+// Open to every storage backend of the app, including Firestore sign-ins
+// without an API session; the app sends the user's corrections as hints
+router.post('/', foodRecognitionLimiter, [...recognizeFoodSchema, checkValidationErrors], recognizeFood);
+
+// What the user changed recognized foods into
+router.get('/corrections', requireAuth, getFoodCorrections);
+router.post('/corrections', requireAuth, [...saveFoodCorrectionsSchema, checkValidationErrors], saveFoodCorrections);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { searchFoods, getFoodByBarcode, getFood } from '../controllers/food.controller';
+import { checkValidationErrors } from '../middleware/validation.middleware';
+import { foodLookupLimiter } from '../config/rateLimit';
+import { searchFoodsSchema, barcodeSchema, foodIdSchema } from '../schemas/food.schema';
+
+const router = Router();
+
+// The food database holds no user data, so it is open to every storage
+// backend of the app, including Firestore sign-ins without an API session
+router.use(foodLookupLimiter);
+
+router.get('/search', [...searchFoodsSchema, checkValidationErrors], searchFoods);
+router.get('/barcode/:barcode', [...barcodeSchema, checkValidationErrors], getFoodByBarcode);
+router.get('/:id', [...foodIdSchema, checkValidationErrors], getFood);
+
+export default router;
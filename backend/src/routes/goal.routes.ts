@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { getGoals, getGoalHistory, setGoals } from '../controllers/goal.controller';
+import { requireAuth } from '../auth/middleware';
+import { checkValidationErrors } from '../middleware/validation.middleware';
+import { getGoalsSchema, setGoalsSchema } from '../schemas/goal.schema';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+// Goals that applied on a day, and every change made to them
+router.get('/', [...getGoalsSchema, checkValidationErrors], getGoals);
+router.get('/history', getGoalHistory);
+
+// Change goals from a day on
+router.put('/', [...setGoalsSchema, checkValidationErrors], setGoals);
+
+export default router;
@@ -2,44 +2,102 @@ import { Router } from 'express';
 import {
   getDailyHealthData,
   getWeeklyHealthData,
+  getHealthRange,
   saveDailyHealthData,
   addMeal,
   updateMeal,
   deleteMeal,
+  getMealSuggestions,
+  saveMealSuggestion,
   addWaterEntry,
   addWorkout,
   updateWorkout,
   deleteWorkout,
-  saveFastingSession,
 } from '../controllers/health.controller';
+import {
+  listFastingSessions,
+  getActiveFastingSession,
+  startFastingSession,
+  stopFastingSession,
+  updateFastingSession,
+  deleteFastingSession,
+} from '../controllers/fasting.controller';
 import { requireAuth } from '../auth/middleware';
+import { checkValidationErrors } from '../middleware/validation.middleware';
+import { requireOwnership } from '../middleware/ownership.middleware';
+import { OwnershipService } from '../services/ownership.service';
+import { prisma } from '../config/database';
+import {
+  dailyHealthDataParamsSchema,
+  saveDailyHealthDataSchema,
+  weeklyHealthDataSchema,
+  healthRangeSchema,
+  addMealSchema,
+  updateMealSchema,
+  addWaterEntrySchema,
+  addWorkoutSchema,
+  updateWorkoutSchema,
+  recordIdSchema,
+  saveMealSuggestionSchema,
+  listFastingSessionsSchema,
+  startFastingSessionSchema,
+  stopFastingSessionSchema,
+  updateFastingSessionSchema,
+} from '../schemas/health.schema';
 
 const router = Router();
+const ownershipService = new OwnershipService(prisma);
+
+const requireMealOwner = requireOwnership('Meal', (id) => ownershipService.getMealOwnerId(id));
+const requireWorkoutOwner = requireOwnership('Workout', (id) => ownershipService.getWorkoutOwnerId(id));
+const requireFastingOwner = requireOwnership('Fasting session', (id) => ownershipService.getFastingSessionOwnerId(id));
 
 // All routes require authentication
 router.use(requireAuth);
 
 // Daily health data
-router.get('/daily/:date', getDailyHealthData);
-router.post('/daily', saveDailyHealthData);
+router.get('/daily/:date', [...dailyHealthDataParamsSchema, checkValidationErrors], getDailyHealthData);
+router.post('/daily', [...saveDailyHealthDataSchema, checkValidationErrors], saveDailyHealthData);
 
 // Weekly health data
-router.get('/weekly', getWeeklyHealthData);
+router.get('/weekly', [...weeklyHealthDataSchema, checkValidationErrors], getWeeklyHealthData);
+
+// Aggregated history for an arbitrary date range
+router.get('/range', [...healthRangeSchema, checkValidationErrors], getHealthRange);
 
 // Meals
-router.post('/meals', addMeal);
-router.put('/meals/:id', updateMeal);
-router.delete('/meals/:id', deleteMeal);
+router.post('/meals', [...addMealSchema, checkValidationErrors], addMeal);
+router.put('/meals/:id', [...updateMealSchema, checkValidationErrors], requireMealOwner, updateMeal);
+router.delete('/meals/:id', [...recordIdSchema, checkValidationErrors], requireMealOwner, deleteMeal);
+
+// Meals logged before, offered again when adding a meal
+router.get('/meal-suggestions', getMealSuggestions);
+router.put('/meal-suggestions', [...saveMealSuggestionSchema, checkValidationErrors], saveMealSuggestion);
 
 // Water entries
-router.post('/water', addWaterEntry);
+router.post('/water', [...addWaterEntrySchema, checkValidationErrors], addWaterEntry);
 
 // Workouts
-router.post('/workouts', addWorkout);
-router.put('/workouts/:id', updateWorkout);
-router.delete('/workouts/:id', deleteWorkout);
+router.post('/workouts', [...addWorkoutSchema, checkValidationErrors], addWorkout);
+router.put('/workouts/:id', [...updateWorkoutSchema, checkValidationErrors], requireWorkoutOwner, updateWorkout);
+router.delete('/workouts/:id', [...recordIdSchema, checkValidationErrors], requireWorkoutOwner, deleteWorkout);
 
-// Fasting sessions
-router.post('/fasting', saveFastingSession);
+// Fasting sessions (user-level timeline, may span several days)
+router.get('/fasting', [...listFastingSessionsSchema, checkValidationErrors], listFastingSessions);
+router.get('/fasting/active', getActiveFastingSession);
+router.post('/fasting', [...startFastingSessionSchema, checkValidationErrors], startFastingSession);
+router.post(
+  '/fasting/:id/stop',
+  [...stopFastingSessionSchema, checkValidationErrors],
+  requireFastingOwner,
+  stopFastingSession
+);
+router.put(
+  '/fasting/:id',
+  [...updateFastingSessionSchema, checkValidationErrors],
+  requireFastingOwner,
+  updateFastingSession
+);
+router.delete('/fasting/:id', [...recordIdSchema, checkValidationErrors], requireFastingOwner, deleteFastingSession);
 
 export default router;
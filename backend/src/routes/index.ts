@@ -0,0 +1,25 @@
+import { ApiMount } from '../docs/openapi';
+import authRoutes from './auth.routes';
+import userRoutes from './user.routes';
+import healthRoutes from './health.routes';
+import goalRoutes from './goal.routes';
+import measurementRoutes from './measurement.routes';
+import foodRoutes from './food.routes';
+import recipeRoutes from './recipe.routes';
+import mealPlanRoutes from './meal-plan.routes';
+import foodRecognitionRoutes from './food-recognition.routes';
+import communityRoutes from './community.routes';
+
+// Routers mounted under /api; also the source of the OpenAPI document
+export const apiRoutes: ApiMount[] = [
+  { path: '/auth', tag: 'Auth', router: authRoutes },
+  { path: '/users', tag: 'Users', router: userRoutes },
+  { path: '/health', tag: 'Health', router: healthRoutes },
+  { path: '/goals', tag: 'Goals', router: goalRoutes },
+  { path: '/measurements', tag: 'Measurements', router: measurementRoutes },
+  { path: '/foods', tag: 'Foods', router: foodRoutes },
+  { path: '/recipes', tag: 'Recipes', router: recipeRoutes },
+  { path: '/meal-plans', tag: 'Meal Plans', router: mealPlanRoutes },
+  { path: '/food-recognition', tag: 'Food Recognition', router: foodRecognitionRoutes },
+  { path: '/community', tag: 'Community', router: communityRoutes },
+];
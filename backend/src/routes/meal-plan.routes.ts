@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import {
+  getPlannedMeals,
+  createPlannedMeal,
+  updatePlannedMeal,
+  deletePlannedMeal,
+} from '../controllers/meal-plan.controller';
+import { requireAuth } from '../auth/middleware';
+import { checkValidationErrors } from '../middleware/validation.middleware';
+import {
+  plannedMealsSchema,
+  plannedMealIdSchema,
+  createPlannedMealSchema,
+  updatePlannedMealSchema,
+} from '../schemas/meal-plan.schema';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+// Planned meals between two days, inclusive
+router.get('/', [...plannedMealsSchema, checkValidationErrors], getPlannedMeals);
+
+router.post('/', [...createPlannedMealSchema, checkValidationErrors], createPlannedMeal);
+router.put('/:id', [...updatePlannedMealSchema, checkValidationErrors], updatePlannedMeal);
+router.delete('/:id', [...plannedMealIdSchema, checkValidationErrors], deletePlannedMeal);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { getMeasurements, saveMeasurement, deleteMeasurement } from '../controllers/measurement.controller';
+import { requireAuth } from '../auth/middleware';
+import { checkValidationErrors } from '../middleware/validation.middleware';
+import { listMeasurementsSchema, saveMeasurementSchema, measurementDateSchema } from '../schemas/measurement.schema';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+// Body measurements, oldest first
+router.get('/', [...listMeasurementsSchema, checkValidationErrors], getMeasurements);
+
+// Log or correct the measurements of a day
+router.put('/', [...saveMeasurementSchema, checkValidationErrors], saveMeasurement);
+router.delete('/:date', [...measurementDateSchema, checkValidationErrors], deleteMeasurement);
+
+export default router;
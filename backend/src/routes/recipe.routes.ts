@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import {
+  getRecipes,
+  getRecipe,
+  createRecipe,
+  updateRecipe,
+  deleteRecipe,
+  shareRecipe,
+} from '../controllers/recipe.controller';
+import { requireAuth } from '../auth/middleware';
+import { checkValidationErrors } from '../middleware/validation.middleware';
+import {
+  recipeIdSchema,
+  createRecipeSchema,
+  updateRecipeSchema,
+  shareRecipeSchema,
+} from '../schemas/recipe.schema';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+// The user's own recipes and those shared with them, by name
+router.get('/', getRecipes);
+router.get('/:id', [...recipeIdSchema, checkValidationErrors], getRecipe);
+
+// Only the author changes a recipe
+router.post('/', [...createRecipeSchema, checkValidationErrors], createRecipe);
+router.put('/:id', [...updateRecipeSchema, checkValidationErrors], updateRecipe);
+router.delete('/:id', [...recipeIdSchema, checkValidationErrors], deleteRecipe);
+
+// Share with a friend or a clan
+router.post('/:id/share', [...shareRecipeSchema, checkValidationErrors], shareRecipe);
+
+export default router;
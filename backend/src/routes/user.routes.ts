@@ -1,16 +1,24 @@
 import { Router } from 'express';
-import { getUserById, searchUsers } from '../controllers/user.controller';
+import { getUserById, searchUsers, exportMyData, deleteMe } from '../controllers/user.controller';
 import { requireAuth } from '../auth/middleware';
+import { checkValidationErrors } from '../middleware/validation.middleware';
+import { userIdSchema, searchUsersSchema, deleteAccountSchema } from '../schemas/auth.schema';
 
 const router = Router();
 
 // All routes require authentication
 router.use(requireAuth);
 
+// Download all of the current user's data
+router.get('/me/export', exportMyData);
+
+// Delete the current user's account
+router.delete('/me', [...deleteAccountSchema, checkValidationErrors], deleteMe);
+
 // Get user by ID
-router.get('/:id', getUserById);
+router.get('/:id', [...userIdSchema, checkValidationErrors], getUserById);
 
 // Search users
-router.get('/search', searchUsers);
+router.get('/search', [...searchUsersSchema, checkValidationErrors], searchUsers);
 
 export default router;
@@ -0,0 +1,84 @@
+import { validateSchema } from './registry';
+import { ACTIVITY_LEVELS, GENDERS, RINGS_VISIBILITY } from '../shared/domain';
+import { numberField, stringField, enumField, idParam } from './fields';
+
+// Request schemas for /api/auth and /api/users
+
+const PASSWORD_MIN = 6;
+
+const emailField = {
+  isEmail: { errorMessage: 'Valid email is required' },
+};
+
+const newPasswordField = {
+  isLength: { options: { min: PASSWORD_MIN }, errorMessage: `Password must be at least ${PASSWORD_MIN} characters` },
+};
+
+const requiredString = (message: string) => ({
+  isString: { errorMessage: message, bail: true },
+  notEmpty: { errorMessage: message },
+});
+
+export const registerSchema = validateSchema({
+  email: emailField,
+  password: newPasswordField,
+  displayName: stringField('displayName', { max: 100, optional: true }),
+  username: stringField('username', { max: 50, optional: true }),
+});
+
+export const loginSchema = validateSchema({
+  email: emailField,
+  password: requiredString('Password is required'),
+});
+
+export const refreshTokenSchema = validateSchema({
+  refreshToken: requiredString('Refresh token is required'),
+});
+
+export const sessionIdSchema = validateSchema({ id: idParam('id') });
+
+export const forgotPasswordSchema = validateSchema({ email: emailField });
+
+export const resetPasswordSchema = validateSchema({
+  token: requiredString('Reset token is required'),
+  password: newPasswordField,
+});
+
+export const verifyEmailSchema = validateSchema({
+  token: requiredString('Verification token is required'),
+});
+
+export const updateProfileSchema = validateSchema({
+  age: numberField('age', { min: 1, max: 120, int: true, optional: true }),
+  weight: numberField('weight', { min: 1, max: 500, optional: true }),
+  height: numberField('height', { min: 30, max: 300, optional: true }),
+  activityLevel: enumField('activityLevel', ACTIVITY_LEVELS, true),
+  gender: enumField('gender', GENDERS, true),
+});
+
+export const updatePrivacySchema = validateSchema({
+  ringsVisibility: enumField('ringsVisibility', RINGS_VISIBILITY, true),
+  allowFriendRequests: { optional: true, isBoolean: { options: { strict: true } } },
+  allowClanInvites: { optional: true, isBoolean: { options: { strict: true } } },
+});
+
+export const userIdSchema = validateSchema({ id: idParam('id') });
+
+export const searchUsersSchema = validateSchema(
+  {
+    search: stringField('search', { max: 100, optional: true, allowEmpty: true }),
+    limit: {
+      optional: true,
+      isInt: { options: { min: 1, max: 100 }, errorMessage: 'limit must be between 1 and 100' },
+    },
+    offset: {
+      optional: true,
+      isInt: { options: { min: 0 }, errorMessage: 'offset must be a non-negative integer' },
+    },
+  },
+  ['query']
+);
+
+export const deleteAccountSchema = validateSchema({
+  password: requiredString('Password is required to delete your account'),
+});
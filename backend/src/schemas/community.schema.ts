@@ -0,0 +1,101 @@
+import { validateSchema } from './registry';
+import { CLAN_PRIVACY, CLAN_ROLES, CLAN_INVITE_ACTIONS, HEALTH_LIMITS } from '../shared/domain';
+import { numberField, stringField, enumField, ringDateKeyField, idParam } from './fields';
+
+// Request schemas for /api/community
+
+const CLAN_NAME_MAX = 50;
+const CLAN_DESCRIPTION_MAX = 500;
+
+const toUidField = stringField('toUid', { max: 128 });
+
+export const sendFriendRequestSchema = validateSchema({ toUid: toUidField }, ['body']);
+
+export const fromUidSchema = validateSchema({ fromUid: idParam('fromUid') });
+export const toUidSchema = validateSchema({ toUid: idParam('toUid') });
+export const friendUidSchema = validateSchema({ friendUid: idParam('friendUid') });
+export const blockedUidSchema = validateSchema({ blockedUid: idParam('blockedUid') });
+export const clanIdSchema = validateSchema({ id: idParam('id') });
+export const notificationIdSchema = validateSchema({ id: idParam('id') });
+
+export const createClanSchema = validateSchema(
+  {
+    name: stringField('name', { max: CLAN_NAME_MAX }),
+    description: stringField('description', { max: CLAN_DESCRIPTION_MAX, optional: true, allowEmpty: true }),
+    privacy: enumField('privacy', CLAN_PRIVACY, true),
+  },
+  ['body']
+);
+
+export const updateClanSchema = validateSchema(
+  {
+    id: idParam('id'),
+    name: stringField('name', { max: CLAN_NAME_MAX, optional: true }),
+    description: stringField('description', { max: CLAN_DESCRIPTION_MAX, optional: true, allowEmpty: true }),
+    photoURL: stringField('photoURL', { max: 2048, optional: true, allowEmpty: true }),
+    privacy: enumField('privacy', CLAN_PRIVACY, true),
+  },
+  ['body']
+);
+
+export const inviteToClanSchema = validateSchema(
+  {
+    id: idParam('id'),
+    toUid: toUidField,
+  },
+  ['body']
+);
+
+export const respondClanInviteSchema = validateSchema(
+  {
+    id: idParam('id'),
+    inviteId: idParam('inviteId'),
+    action: enumField('action', CLAN_INVITE_ACTIONS),
+  },
+  ['body']
+);
+
+export const clanMemberSchema = validateSchema({
+  id: idParam('id'),
+  memberUid: idParam('memberUid'),
+});
+
+export const updateClanRoleSchema = validateSchema(
+  {
+    id: idParam('id'),
+    memberUid: idParam('memberUid'),
+    newRole: enumField('newRole', CLAN_ROLES),
+  },
+  ['body']
+);
+
+export const listNotificationsSchema = validateSchema(
+  {
+    limit: {
+      optional: true,
+      isInt: { options: { min: 1, max: 100 }, errorMessage: 'limit must be between 1 and 100' },
+    },
+    offset: {
+      optional: true,
+      isInt: { options: { min: 0 }, errorMessage: 'offset must be a non-negative integer' },
+    },
+  },
+  ['query']
+);
+
+export const ringStatsDateSchema = validateSchema({
+  date: { in: ['params'], ...ringDateKeyField('date') },
+});
+
+export const updateRingStatsSchema = validateSchema(
+  {
+    date: ringDateKeyField('date'),
+    caloriesBurned: numberField('caloriesBurned', { max: HEALTH_LIMITS.dailyCalories }),
+    steps: numberField('steps', { max: HEALTH_LIMITS.dailySteps, int: true }),
+    workoutMinutes: numberField('workoutMinutes', { max: HEALTH_LIMITS.workoutMinutes, int: true }),
+    goalCalories: numberField('goalCalories', { max: HEALTH_LIMITS.dailyCalories }),
+    goalSteps: numberField('goalSteps', { max: HEALTH_LIMITS.dailySteps, int: true }),
+    goalMinutes: numberField('goalMinutes', { max: HEALTH_LIMITS.workoutMinutes, int: true }),
+  },
+  ['body']
+);
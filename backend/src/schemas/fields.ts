@@ -0,0 +1,161 @@
+import { ParamSchema, Schema } from 'express-validator';
+import { DATE_KEY_PATTERN, HEALTH_LIMITS, NUTRIENT_KEYS, NUTRIENT_LIMITS, RING_DATE_KEY_PATTERN } from '../shared/domain';
+
+// Reusable field definitions for the checkSchema() request schemas.
+
+interface NumberFieldOptions {
+  min?: number;
+  max?: number;
+  int?: boolean;
+  optional?: boolean;
+  nullable?: boolean;
+}
+
+function optionalFlag(optional?: boolean, nullable?: boolean): ParamSchema['optional'] {
+  if (nullable) {
+    return { options: { values: 'null' } };
+  }
+  return optional ? true : undefined;
+}
+
+/**
+ * Number within [min, max]. Numeric strings are rejected so Prisma only ever
+ * sees real numbers.
+ */
+export function numberField(label: string, options: NumberFieldOptions = {}): ParamSchema {
+  const { min = 0, max, int = false, optional, nullable } = options;
+  const range = max === undefined ? `>= ${min}` : `between ${min} and ${max}`;
+
+  return {
+    optional: optionalFlag(optional, nullable),
+    custom: {
+      options: (value) => typeof value === 'number',
+      errorMessage: `${label} must be a number`,
+      bail: true,
+    },
+    ...(int
+      ? { isInt: { options: { min, max }, errorMessage: `${label} must be an integer ${range}` } }
+      : { isFloat: { options: { min, max }, errorMessage: `${label} must be a number ${range}` } }),
+  };
+}
+
+export function stringField(
+  label: string,
+  options: { max: number; optional?: boolean; nullable?: boolean; allowEmpty?: boolean }
+): ParamSchema {
+  return {
+    optional: optionalFlag(options.optional, options.nullable),
+    isString: { errorMessage: `${label} must be a string`, bail: true },
+    trim: true,
+    isLength: {
+      options: { min: options.allowEmpty ? 0 : 1, max: options.max },
+      errorMessage: options.allowEmpty
+        ? `${label} must be at most ${options.max} characters`
+        : `${label} must be 1-${options.max} characters`,
+    },
+  };
+}
+
+export function enumField(label: string, values: readonly string[], optional = false): ParamSchema {
+  return {
+    optional: optional || undefined,
+    isIn: {
+      options: [values],
+      errorMessage: `${label} must be one of: ${values.join(', ')}`,
+    },
+  };
+}
+
+/** Calendar day key, yyyy-MM-dd */
+export function dateKeyField(label: string, optional = false): ParamSchema {
+  return {
+    optional: optional || undefined,
+    matches: { options: DATE_KEY_PATTERN, errorMessage: `${label} must be a yyyy-MM-dd date`, bail: true },
+    isISO8601: { options: { strict: true }, errorMessage: `${label} is not a valid date` },
+  };
+}
+
+/** Ring stats day key, yyyyMMdd */
+export function ringDateKeyField(label: string): ParamSchema {
+  return {
+    matches: { options: RING_DATE_KEY_PATTERN, errorMessage: `${label} must be a yyyyMMdd date` },
+  };
+}
+
+export function timestampField(label: string, options: { optional?: boolean; nullable?: boolean } = {}): ParamSchema {
+  return {
+    optional: optionalFlag(options.optional, options.nullable),
+    isISO8601: { errorMessage: `${label} must be an ISO 8601 timestamp` },
+  };
+}
+
+export function arrayField(label: string, max: number): ParamSchema {
+  return {
+    optional: true,
+    isArray: { options: { max }, errorMessage: `${label} must be an array of at most ${max} items` },
+  };
+}
+
+/**
+ * `nutrients` under the path, e.g. `meal.`: an optional map of NUTRIENT_KEYS
+ * to amounts in their units. Unknown keys are dropped by the services.
+ */
+export function nutrientFields(path: string): Schema {
+  return {
+    [`${path}nutrients`]: {
+      optional: true,
+      isObject: { errorMessage: 'nutrients must be an object' },
+    },
+    ...Object.fromEntries(
+      NUTRIENT_KEYS.map((key) => [
+        `${path}nutrients.${key}`,
+        numberField(key, { max: NUTRIENT_LIMITS[key], optional: true }),
+      ])
+    ),
+  };
+}
+
+/**
+ * Fields of each entry of a food list, e.g. `meal.items.*.`: a food with its
+ * amount and nutrition, optionally picked from the food database
+ */
+export function foodItemFields(path: string, noun: string): Schema {
+  return {
+    [`${path}name`]: stringField(`${noun} name`, { max: 200 }),
+    [`${path}quantity`]: numberField('quantity', { max: HEALTH_LIMITS.itemQuantity }),
+    [`${path}unit`]: stringField('unit', { max: 100 }),
+    [`${path}calories`]: numberField(`${noun} calories`, { max: HEALTH_LIMITS.mealCalories }),
+    [`${path}carbs`]: numberField(`${noun} carbs`, { max: HEALTH_LIMITS.macroGrams, optional: true }),
+    [`${path}protein`]: numberField(`${noun} protein`, { max: HEALTH_LIMITS.macroGrams, optional: true }),
+    [`${path}fat`]: numberField(`${noun} fat`, { max: HEALTH_LIMITS.macroGrams, optional: true }),
+    ...nutrientFields(path),
+    [`${path}foodId`]: stringField('foodId', { max: 128, nullable: true }),
+  };
+}
+
+/** Id generated by the app for a new record, so replaying the same add is a no-op */
+export const clientIdField: ParamSchema = {
+  optional: true,
+  isUUID: { errorMessage: 'id must be a UUID' },
+};
+
+/** Version of the record the client last saw; a stale one is rejected with a 409 */
+export const versionField: ParamSchema = numberField('version', { min: 1, int: true, optional: true });
+
+/** Record id or user id taken from the URL */
+export function idParam(label: string): ParamSchema {
+  return {
+    in: ['params'],
+    isString: true,
+    isLength: { options: { min: 1, max: 128 }, errorMessage: `${label} is invalid` },
+  };
+}
+
+export const tzOffsetField: ParamSchema = {
+  in: ['query'],
+  optional: true,
+  isInt: {
+    options: { min: -840, max: 840 },
+    errorMessage: 'tzOffset must be a timezone offset in minutes',
+  },
+};
@@ -0,0 +1,50 @@
+import { validateSchema } from './registry';
+import { HEALTH_LIMITS, RECOGNITION_IMAGE_TYPES, RECOGNITION_LIMITS } from '../shared/domain';
+import { arrayField, enumField, numberField, stringField } from './fields';
+
+// Request schemas for /api/food-recognition. A base64 image is a third
+// larger than the file.
+
+const IMAGE_BASE64_MAX = Math.ceil(RECOGNITION_LIMITS.imageBytes / 3) * 4;
+
+export const recognizeFoodSchema = validateSchema(
+  {
+    image: {
+      isString: { errorMessage: 'image must be a base64 string', bail: true },
+      isLength: {
+        options: { min: 1, max: IMAGE_BASE64_MAX },
+        errorMessage: `image must be at most ${RECOGNITION_LIMITS.imageBytes / (1024 * 1024)} MB`,
+        bail: true,
+      },
+      isBase64: { errorMessage: 'image must be a base64 string' },
+    },
+    mimeType: enumField('mimeType', RECOGNITION_IMAGE_TYPES),
+    hints: arrayField('hints', RECOGNITION_LIMITS.corrections),
+    'hints.*.detectedName': stringField('detectedName', { max: 200 }),
+    'hints.*.name': stringField('name', { max: 200 }),
+    'hints.*.foodId': stringField('foodId', { max: 128, nullable: true }),
+    'hints.*.portionFactor': numberField('portionFactor', {
+      min: 1 / RECOGNITION_LIMITS.portionFactor,
+      max: RECOGNITION_LIMITS.portionFactor,
+      optional: true,
+    }),
+  },
+  ['body']
+);
+
+export const saveFoodCorrectionsSchema = validateSchema(
+  {
+    corrections: {
+      isArray: {
+        options: { min: 1, max: RECOGNITION_LIMITS.corrections },
+        errorMessage: `corrections must be an array of 1-${RECOGNITION_LIMITS.corrections} items`,
+      },
+    },
+    'corrections.*.detectedName': stringField('detectedName', { max: 200 }),
+    'corrections.*.name': stringField('name', { max: 200 }),
+    'corrections.*.detectedCalories': numberField('detectedCalories', { max: HEALTH_LIMITS.mealCalories }),
+    'corrections.*.calories': numberField('calories', { max: HEALTH_LIMITS.mealCalories }),
+    'corrections.*.foodId': stringField('foodId', { max: 128, nullable: true }),
+  },
+  ['body']
+);
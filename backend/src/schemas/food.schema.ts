@@ -0,0 +1,24 @@
+import { validateSchema } from './registry';
+import { idParam, stringField } from './fields';
+
+// Request schemas for /api/foods
+
+export const searchFoodsSchema = validateSchema(
+  {
+    q: stringField('q', { max: 100 }),
+    limit: {
+      optional: true,
+      isInt: { options: { min: 1, max: 50 }, errorMessage: 'limit must be between 1 and 50' },
+    },
+  },
+  ['query']
+);
+
+export const barcodeSchema = validateSchema({
+  barcode: {
+    in: ['params'],
+    matches: { options: /^\d{6,14}$/, errorMessage: 'barcode must be 6-14 digits' },
+  },
+});
+
+export const foodIdSchema = validateSchema({ id: idParam('id') });
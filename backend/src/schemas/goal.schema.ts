@@ -0,0 +1,30 @@
+import { Schema } from 'express-validator';
+import { validateSchema } from './registry';
+import { GOAL_KEYS, GOAL_LIMITS } from '../shared/domain';
+import { numberField, dateKeyField } from './fields';
+
+// Request schemas for /api/goals. Days are the user's local yyyy-MM-dd.
+
+const INTEGER_GOALS = ['steps', 'activeMinutes', 'weeklyWorkouts'];
+
+const goalFields: Schema = Object.fromEntries(
+  GOAL_KEYS.map((key) => [
+    key,
+    numberField(key, { max: GOAL_LIMITS[key], int: INTEGER_GOALS.includes(key), optional: true }),
+  ])
+);
+
+export const getGoalsSchema = validateSchema(
+  {
+    date: dateKeyField('date'),
+  },
+  ['query']
+);
+
+export const setGoalsSchema = validateSchema(
+  {
+    effectiveFrom: dateKeyField('effectiveFrom'),
+    ...goalFields,
+  },
+  ['body']
+);
@@ -0,0 +1,249 @@
+import { Schema } from 'express-validator';
+import { validateSchema } from './registry';
+import {
+  MEAL_TYPES,
+  WORKOUT_TYPES,
+  EXERCISE_CATEGORIES,
+  HEALTH_RANGE_BUCKETS,
+  HEALTH_LIMITS,
+} from '../shared/domain';
+import {
+  numberField,
+  stringField,
+  enumField,
+  dateKeyField,
+  timestampField,
+  arrayField,
+  foodItemFields,
+  nutrientFields,
+  clientIdField,
+  versionField,
+  idParam,
+  tzOffsetField,
+} from './fields';
+
+// Request schemas for /api/health. Field names mirror the app's types/index.ts.
+
+function mealFields(prefix: string, optional: boolean): Schema {
+  return {
+    [`${prefix}type`]: enumField('type', MEAL_TYPES, optional),
+    [`${prefix}name`]: stringField('name', { max: 200, optional }),
+    [`${prefix}calories`]: numberField('calories', { max: HEALTH_LIMITS.mealCalories, optional }),
+    [`${prefix}carbs`]: numberField('carbs', { max: HEALTH_LIMITS.macroGrams, optional: true }),
+    [`${prefix}protein`]: numberField('protein', { max: HEALTH_LIMITS.macroGrams, optional: true }),
+    [`${prefix}fat`]: numberField('fat', { max: HEALTH_LIMITS.macroGrams, optional: true }),
+    ...nutrientFields(prefix),
+    [`${prefix}timestamp`]: timestampField('timestamp', { optional }),
+
+    [`${prefix}items`]: arrayField('items', HEALTH_LIMITS.itemsPerMeal),
+    ...foodItemFields(`${prefix}items.*.`, 'item'),
+  };
+}
+
+function workoutFields(prefix: string, optional: boolean): Schema {
+  const exercise = `${prefix}exercises.*.`;
+  const point = `${prefix}locationPoints.*.`;
+
+  return {
+    [`${prefix}name`]: stringField('name', { max: 200, optional }),
+    [`${prefix}type`]: enumField('type', WORKOUT_TYPES, optional),
+    [`${prefix}startTime`]: timestampField('startTime', { optional }),
+    [`${prefix}endTime`]: timestampField('endTime', { nullable: true }),
+    [`${prefix}duration`]: numberField('duration', { max: HEALTH_LIMITS.workoutMinutes, int: true, optional }),
+    [`${prefix}totalCaloriesBurned`]: numberField('totalCaloriesBurned', {
+      max: HEALTH_LIMITS.workoutCalories,
+      optional: true,
+    }),
+    [`${prefix}distance`]: numberField('distance', {
+      max: HEALTH_LIMITS.workoutDistanceMeters,
+      nullable: true,
+    }),
+    [`${prefix}averageSpeed`]: numberField('averageSpeed', {
+      max: HEALTH_LIMITS.speedMetersPerSecond,
+      nullable: true,
+    }),
+    [`${prefix}maxSpeed`]: numberField('maxSpeed', { max: HEALTH_LIMITS.speedMetersPerSecond, nullable: true }),
+
+    [`${prefix}exercises`]: arrayField('exercises', HEALTH_LIMITS.exercisesPerWorkout),
+    [`${exercise}name`]: stringField('exercise name', { max: 200 }),
+    [`${exercise}category`]: enumField('exercise category', EXERCISE_CATEGORIES),
+    [`${exercise}duration`]: numberField('exercise duration', {
+      max: HEALTH_LIMITS.workoutMinutes,
+      int: true,
+      nullable: true,
+    }),
+    [`${exercise}sets`]: numberField('sets', { max: HEALTH_LIMITS.exerciseSets, int: true, nullable: true }),
+    [`${exercise}reps`]: numberField('reps', { max: HEALTH_LIMITS.exerciseReps, int: true, nullable: true }),
+    [`${exercise}weight`]: numberField('weight', { max: HEALTH_LIMITS.exerciseWeightKg, nullable: true }),
+    [`${exercise}caloriesBurned`]: numberField('exercise caloriesBurned', {
+      max: HEALTH_LIMITS.workoutCalories,
+      nullable: true,
+    }),
+    [`${exercise}notes`]: stringField('notes', { max: 2000, nullable: true, allowEmpty: true }),
+
+    [`${prefix}locationPoints`]: arrayField('locationPoints', HEALTH_LIMITS.locationPointsPerWorkout),
+    [`${point}latitude`]: numberField('latitude', { min: -90, max: 90 }),
+    [`${point}longitude`]: numberField('longitude', { min: -180, max: 180 }),
+    [`${point}timestamp`]: timestampField('location timestamp'),
+    [`${point}altitude`]: numberField('altitude', { min: -1000, max: 10000, nullable: true }),
+    [`${point}speed`]: numberField('speed', { max: HEALTH_LIMITS.speedMetersPerSecond, nullable: true }),
+    [`${point}accuracy`]: numberField('accuracy', { nullable: true }),
+  };
+}
+
+export const dailyHealthDataParamsSchema = validateSchema({
+  date: { in: ['params'], ...dateKeyField('date') },
+  tzOffset: tzOffsetField,
+});
+
+export const saveDailyHealthDataSchema = validateSchema(
+  {
+    date: dateKeyField('date'),
+    steps: numberField('steps', { max: HEALTH_LIMITS.dailySteps, int: true, optional: true }),
+    activeEnergyBurned: numberField('activeEnergyBurned', { max: HEALTH_LIMITS.dailyCalories, nullable: true }),
+    dietaryEnergyConsumed: numberField('dietaryEnergyConsumed', {
+      max: HEALTH_LIMITS.dailyCalories,
+      nullable: true,
+    }),
+    heartRate: numberField('heartRate', { max: HEALTH_LIMITS.heartRate, int: true, nullable: true }),
+    restingHeartRate: numberField('restingHeartRate', { max: HEALTH_LIMITS.heartRate, int: true, nullable: true }),
+  },
+  ['body']
+);
+
+export const weeklyHealthDataSchema = validateSchema({
+  startDate: { in: ['query'], ...dateKeyField('startDate') },
+});
+
+export const healthRangeSchema = validateSchema(
+  {
+    from: dateKeyField('from'),
+    to: {
+      ...dateKeyField('to'),
+      custom: {
+        options: (to, { req }) => to >= req.query?.from,
+        errorMessage: 'to must not be before from',
+      },
+    },
+    bucket: enumField('bucket', HEALTH_RANGE_BUCKETS, true),
+    tzOffset: tzOffsetField,
+  },
+  ['query']
+);
+
+export const addMealSchema = validateSchema(
+  {
+    date: dateKeyField('date'),
+    meal: { isObject: { errorMessage: 'meal is required' } },
+    'meal.id': clientIdField,
+    ...mealFields('meal.', false),
+  },
+  ['body']
+);
+
+export const updateMealSchema = validateSchema(
+  {
+    id: idParam('id'),
+    version: versionField,
+    ...mealFields('', true),
+  },
+  ['body']
+);
+
+export const saveMealSuggestionSchema = validateSchema(
+  {
+    type: enumField('type', MEAL_TYPES),
+    name: stringField('name', { max: 200 }),
+    calories: numberField('calories', { max: HEALTH_LIMITS.mealCalories }),
+    carbs: numberField('carbs', { max: HEALTH_LIMITS.macroGrams, optional: true }),
+    protein: numberField('protein', { max: HEALTH_LIMITS.macroGrams, optional: true }),
+    fat: numberField('fat', { max: HEALTH_LIMITS.macroGrams, optional: true }),
+  },
+  ['body']
+);
+
+export const addWaterEntrySchema = validateSchema(
+  {
+    date: dateKeyField('date'),
+    entry: { isObject: { errorMessage: 'entry is required' } },
+    'entry.id': clientIdField,
+    // The app tops up to the daily goal, so fractional glasses are expected
+    'entry.glasses': {
+      ...numberField('glasses', { max: HEALTH_LIMITS.waterGlasses }),
+      isFloat: {
+        options: { gt: 0, max: HEALTH_LIMITS.waterGlasses },
+        errorMessage: `glasses must be greater than 0 and at most ${HEALTH_LIMITS.waterGlasses}`,
+      },
+    },
+    'entry.timestamp': timestampField('timestamp'),
+  },
+  ['body']
+);
+
+export const addWorkoutSchema = validateSchema(
+  {
+    date: dateKeyField('date'),
+    workout: { isObject: { errorMessage: 'workout is required' } },
+    'workout.id': clientIdField,
+    ...workoutFields('workout.', false),
+  },
+  ['body']
+);
+
+export const updateWorkoutSchema = validateSchema(
+  {
+    id: idParam('id'),
+    version: versionField,
+    ...workoutFields('', true),
+  },
+  ['body']
+);
+
+export const recordIdSchema = validateSchema({ id: idParam('id') });
+
+export const listFastingSessionsSchema = validateSchema(
+  {
+    from: timestampField('from', { optional: true }),
+    to: timestampField('to', { optional: true }),
+  },
+  ['query']
+);
+
+const fastingFields: Schema = {
+  targetDuration: {
+    optional: { options: { values: 'null' } },
+    isFloat: { options: { gt: 0 }, errorMessage: 'targetDuration must be a positive number of hours' },
+  },
+  eatingWindowStart: numberField('eatingWindowStart', { max: 23, int: true, nullable: true }),
+  eatingWindowEnd: numberField('eatingWindowEnd', { max: 23, int: true, nullable: true }),
+};
+
+export const startFastingSessionSchema = validateSchema(
+  {
+    type: stringField('type', { max: 50 }),
+    startTime: timestampField('startTime', { optional: true }),
+    ...fastingFields,
+  },
+  ['body']
+);
+
+export const stopFastingSessionSchema = validateSchema(
+  {
+    id: idParam('id'),
+    version: versionField,
+    endTime: timestampField('endTime', { optional: true }),
+  },
+  ['body']
+);
+
+export const updateFastingSessionSchema = validateSchema(
+  {
+    id: idParam('id'),
+    version: versionField,
+    type: stringField('type', { max: 50, optional: true }),
+    startTime: timestampField('startTime', { optional: true }),
+    endTime: timestampField('endTime', { nullable: true }),
+    ...fastingFields,
+  },
+  ['body']
+);
@@ -0,0 +1,60 @@
+import { Schema } from 'express-validator';
+import { validateSchema } from './registry';
+import { MEAL_TYPES, HEALTH_LIMITS } from '../shared/domain';
+import {
+  numberField,
+  stringField,
+  enumField,
+  dateKeyField,
+  arrayField,
+  foodItemFields,
+  nutrientFields,
+  versionField,
+  idParam,
+} from './fields';
+
+// Request schemas for /api/meal-plans. A planned meal is a meal with a day
+// instead of a timestamp.
+
+function plannedMealFields(optional: boolean): Schema {
+  return {
+    date: dateKeyField('date', optional),
+    type: enumField('type', MEAL_TYPES, optional),
+    name: stringField('name', { max: 200, optional }),
+    calories: numberField('calories', { max: HEALTH_LIMITS.mealCalories, optional }),
+    carbs: numberField('carbs', { max: HEALTH_LIMITS.macroGrams, optional: true }),
+    protein: numberField('protein', { max: HEALTH_LIMITS.macroGrams, optional: true }),
+    fat: numberField('fat', { max: HEALTH_LIMITS.macroGrams, optional: true }),
+    ...nutrientFields(''),
+    items: arrayField('items', HEALTH_LIMITS.itemsPerMeal),
+    ...foodItemFields('items.*.', 'item'),
+    loggedMealId: stringField('loggedMealId', { max: 128, nullable: true }),
+  };
+}
+
+export const plannedMealsSchema = validateSchema(
+  {
+    from: dateKeyField('from'),
+    to: {
+      ...dateKeyField('to'),
+      custom: {
+        options: (to, { req }) => to >= req.query?.from,
+        errorMessage: 'to must not be before from',
+      },
+    },
+  },
+  ['query']
+);
+
+export const plannedMealIdSchema = validateSchema({ id: idParam('id') });
+
+export const createPlannedMealSchema = validateSchema(plannedMealFields(false), ['body']);
+
+export const updatePlannedMealSchema = validateSchema(
+  {
+    id: idParam('id'),
+    ...plannedMealFields(true),
+    version: versionField,
+  },
+  ['body']
+);
@@ -0,0 +1,30 @@
+import { Schema } from 'express-validator';
+import { validateSchema } from './registry';
+import { MEASUREMENT_KEYS, MEASUREMENT_LIMITS } from '../shared/domain';
+import { numberField, dateKeyField } from './fields';
+
+// Request schemas for /api/measurements. Days are the user's local yyyy-MM-dd.
+
+const measurementFields: Schema = Object.fromEntries(
+  MEASUREMENT_KEYS.map((key) => [key, numberField(key, { max: MEASUREMENT_LIMITS[key], nullable: true })])
+);
+
+export const listMeasurementsSchema = validateSchema(
+  {
+    from: dateKeyField('from', true),
+    to: dateKeyField('to', true),
+  },
+  ['query']
+);
+
+export const saveMeasurementSchema = validateSchema(
+  {
+    date: dateKeyField('date'),
+    ...measurementFields,
+  },
+  ['body']
+);
+
+export const measurementDateSchema = validateSchema({
+  date: { in: ['params'], ...dateKeyField('date') },
+});
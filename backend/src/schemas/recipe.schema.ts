@@ -0,0 +1,41 @@
+import { Schema } from 'express-validator';
+import { validateSchema } from './registry';
+import { HEALTH_LIMITS } from '../shared/domain';
+import { numberField, stringField, arrayField, foodItemFields, versionField, idParam } from './fields';
+
+// Request schemas for /api/recipes. Nutrition is for the amount of each
+// ingredient that goes into the whole recipe.
+
+function recipeFields(optional: boolean): Schema {
+  return {
+    name: stringField('name', { max: 200, optional }),
+    servings: numberField('servings', { min: 0.1, max: HEALTH_LIMITS.recipeServings, optional }),
+    ingredients: {
+      ...arrayField('ingredients', HEALTH_LIMITS.ingredientsPerRecipe),
+      optional: optional || undefined,
+    },
+    ...foodItemFields('ingredients.*.', 'ingredient'),
+  };
+}
+
+export const recipeIdSchema = validateSchema({ id: idParam('id') });
+
+export const createRecipeSchema = validateSchema(recipeFields(false), ['body']);
+
+export const updateRecipeSchema = validateSchema(
+  {
+    id: idParam('id'),
+    ...recipeFields(true),
+    version: versionField,
+  },
+  ['body']
+);
+
+export const shareRecipeSchema = validateSchema(
+  {
+    id: idParam('id'),
+    friendUid: stringField('friendUid', { max: 128, optional: true }),
+    clanId: stringField('clanId', { max: 128, optional: true }),
+  },
+  ['body']
+);
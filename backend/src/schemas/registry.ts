@@ -0,0 +1,34 @@
+import { checkSchema, Location, ParamSchema, Schema } from 'express-validator';
+
+// Field definitions behind every validation chain, so the OpenAPI document
+// can be generated from the same schemas that validate requests.
+
+export interface DocumentedField {
+  path: string;
+  location: Location;
+  schema: ParamSchema;
+}
+
+const documentedFields = new WeakMap<object, DocumentedField>();
+
+/**
+ * checkSchema() that remembers which field each chain validates.
+ * Fields without an `in` are read from the first default location.
+ */
+export function validateSchema(schema: Schema, defaultLocations: Location[] = ['body']) {
+  const chains = checkSchema(schema, defaultLocations);
+
+  // checkSchema builds one chain per key, in key order
+  Object.keys(schema).forEach((path, index) => {
+    const field = schema[path];
+    const locations = field.in ? ([] as Location[]).concat(field.in) : defaultLocations;
+    documentedFields.set(chains[index], { path, location: locations[0], schema: field });
+  });
+
+  return chains;
+}
+
+/** The field behind a route middleware, if it is a documented validation chain */
+export function getDocumentedField(handler: unknown): DocumentedField | undefined {
+  return typeof handler === 'function' ? documentedFields.get(handler) : undefined;
+}
@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+import { apiRoutes } from '../routes';
+import { buildOpenApiDocument } from '../docs/openapi';
+import { JsonSchema } from '../docs/components';
+
+const USAGE = `Usage: npm run openapi:generate -- [--check]
+
+Writes backend/openapi.json and the app's typed API client
+(services/api/generated.ts) from the Express routes and validation schemas.
+With --check nothing is written; exits non-zero if either file is stale.`;
+
+const BACKEND_DIR = path.resolve(__dirname, '../..');
+const SPEC_FILE = path.join(BACKEND_DIR, 'openapi.json');
+const CLIENT_FILE = path.resolve(BACKEND_DIR, '../services/api/generated.ts');
+
+const HEADER = `// Generated from the backend's OpenAPI document by \`npm run openapi:generate\`
+// in backend/. Do not edit by hand; change the routes or schemas instead.`;
+
+type Document = ReturnType<typeof buildOpenApiDocument>;
+
+interface Operation {
+  operationId: string;
+  security?: unknown[];
+  parameters?: { name: string; in: 'path' | 'query'; required: boolean; schema: JsonSchema }[];
+  requestBody?: { content: { 'application/json': { schema: JsonSchema } } };
+  responses: Record<string, { content?: { 'application/json': { schema: JsonSchema } } }>;
+}
+
+const pascalCase = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+const literal = (value: unknown) => (typeof value === 'string' ? `'${value}'` : String(value));
+
+/** TypeScript type for a JSON schema, indented for nesting */
+function tsType(schema: JsonSchema, indent: string): string {
+  let type: string;
+
+  if (schema.$ref) {
+    type = schema.$ref.split('/').pop();
+  } else if (schema.allOf) {
+    type = schema.allOf.map((part: JsonSchema) => tsType(part, indent)).join(' & ');
+  } else if (schema.enum) {
+    type = schema.enum.map(literal).join(' | ');
+  } else if (schema.type === 'integer' || schema.type === 'number') {
+    type = 'number';
+  } else if (schema.type === 'boolean') {
+    type = 'boolean';
+  } else if (schema.type === 'array') {
+    const item = tsType(schema.items || {}, indent);
+    type = item.includes(' | ') ? `Array<${item}>` : `${item}[]`;
+  } else if (schema.type === 'object') {
+    type = schema.properties ? objectType(schema, indent) : 'Record<string, unknown>';
+  } else {
+    type = 'string';
+  }
+
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const inner = `${indent}  `;
+  const required: string[] = schema.required || [];
+  const lines = Object.entries(schema.properties as Record<string, JsonSchema>).map(
+    ([key, property]) => `${inner}${key}${required.includes(key) ? '' : '?'}: ${tsType(property, inner)};`
+  );
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function declaration(name: string, schema: JsonSchema): string {
+  return schema.type === 'object' && schema.properties
+    ? `export interface ${name} ${objectType(schema, '')}`
+    : `export type ${name} = ${tsType(schema, '')};`;
+}
+
+function generateOperation(method: string, route: string, operation: Operation): string[] {
+  const name = operation.operationId;
+  const typeName = pascalCase(name);
+  const declarations: string[] = [];
+  const args: string[] = [];
+
+  const pathParams = (operation.parameters || []).filter((parameter) => parameter.in === 'path');
+  const queryParams = (operation.parameters || []).filter((parameter) => parameter.in === 'query');
+
+  for (const parameter of pathParams) {
+    args.push(`${parameter.name}: ${tsType(parameter.schema, '')}`);
+  }
+
+  const bodySchema = operation.requestBody?.content['application/json'].schema;
+  if (bodySchema) {
+    declarations.push(declaration(`${typeName}Body`, bodySchema));
+    args.push(`body: ${typeName}Body`);
+  }
+
+  if (queryParams.length > 0) {
+    declarations.push(
+      declaration(`${typeName}Query`, {
+        type: 'object',
+        properties: Object.fromEntries(queryParams.map((parameter) => [parameter.name, parameter.schema])),
+        required: queryParams.filter((parameter) => parameter.required).map((parameter) => parameter.name),
+      })
+    );
+    const optional = queryParams.every((parameter) => !parameter.required);
+    args.push(optional ? `query: ${typeName}Query = {}` : `query: ${typeName}Query`);
+  }
+
+  const success = operation.responses['200'] || operation.responses['201'];
+  const data = success?.content?.['application/json'].schema.properties?.data;
+  const responseType = data ? tsType(data, '') : 'unknown';
+
+  let url = route.includes('{')
+    ? `\`${route.replace(/\{(\w+)\}/g, '${encodeURIComponent($1)}')}\``
+    : `'${route}'`;
+  if (queryParams.length > 0) {
+    url = `withQuery(${url}, query)`;
+  }
+
+  const options: string[] = [];
+  if (!operation.security) {
+    options.push('skipAuth: true');
+  }
+
+  let call: string;
+  if (method === 'get' || method === 'delete') {
+    if (bodySchema) {
+      options.push('body: JSON.stringify(body)');
+    }
+    const optionArg = options.length > 0 ? `, { ${options.join(', ')} }` : '';
+    call = `apiClient.${method}<${responseType}>(${url}${optionArg})`;
+  } else {
+    const optionArg = options.length > 0 ? `, { ${options.join(', ')} }` : '';
+    const bodyArg = bodySchema ? ', body' : optionArg ? ', undefined' : '';
+    call = `apiClient.${method}<${responseType}>(${url}${bodyArg}${optionArg})`;
+  }
+
+  return [
+    ...declarations,
+    `/** ${method.toUpperCase()} ${route} */\nexport const ${name} = (${args.join(', ')}) =>\n  ${call};`,
+  ];
+}
+
+function generateClient(document: Document): string {
+  const sections: string[] = [
+    HEADER,
+    `import { apiClient } from './client';`,
+    `const withQuery = (path: string, query: object): string => {
+  const search = Object.entries(query)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => \`\${encodeURIComponent(key)}=\${encodeURIComponent(String(value))}\`)
+    .join('&');
+  return search ? \`\${path}?\${search}\` : path;
+};`,
+    '// Schemas',
+  ];
+
+  for (const [name, schema] of Object.entries(document.components.schemas)) {
+    sections.push(declaration(name, schema));
+  }
+
+  for (const tag of document.tags) {
+    sections.push(`// ${tag.name}`);
+    for (const [route, methods] of Object.entries(document.paths)) {
+      for (const [method, operation] of Object.entries(methods as Record<string, Operation & { tags: string[] }>)) {
+        if (operation.tags[0] === tag.name) {
+          sections.push(...generateOperation(method, route, operation));
+        }
+      }
+    }
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const document = buildOpenApiDocument(apiRoutes);
+  const outputs = [
+    { file: SPEC_FILE, content: `${JSON.stringify(document, null, 2)}\n` },
+    { file: CLIENT_FILE, content: generateClient(document) },
+  ];
+
+  if (args.includes('--check')) {
+    const stale = outputs.filter(
+      ({ file, content }) => !fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== content
+    );
+    for (const { file } of stale) {
+      console.error(`❌ ${path.relative(process.cwd(), file)} is out of date`);
+    }
+    if (stale.length > 0) {
+      console.log('Run npm run openapi:generate and commit the result.');
+      process.exitCode = 1;
+    } else {
+      console.log('✅ OpenAPI document and client are up to date');
+    }
+    return;
+  }
+
+  for (const { file, content } of outputs) {
+    fs.writeFileSync(file, content);
+    console.log(`✅ Wrote ${path.relative(process.cwd(), file)}`);
+  }
+}
+
+try {
+  main();
+} catch (error: any) {
+  console.error('❌ Failed to generate the API client:', error.message || error);
+  console.log(USAGE);
+  process.exitCode = 1;
+}
@@ -0,0 +1,115 @@
+import dotenv from 'dotenv';
+import { prisma } from '../config/database';
+import { FoodInput, FoodService } from '../services/food.service';
+import { FoodRow, readOpenFoodFacts, readUsda } from '../services/food-import';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage: npm run foods:import -- --format <off|usda> --input <path> [--limit <n>]
+
+Imports foods with their nutrition per 100 g and serving sizes into the food
+database searched by the app. Foods are matched by their dataset id, so
+rerunning with a newer export updates them in place.
+
+  --format off    an Open Food Facts CSV export (en.openfoodfacts.org.products.csv)
+  --format usda   the directory of a FoodData Central CSV download
+  --limit         stop after this many imported foods, e.g. to try a file`;
+
+const BATCH_SIZE = 500;
+
+/** Parse --flag value pairs from argv */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === '--help' || flag === '-h') {
+      args.help = 'true';
+      continue;
+    }
+    if (!flag.startsWith('--') || argv[i + 1] === undefined) {
+      throw new Error(`Unexpected argument: ${flag}`);
+    }
+    args[flag.slice(2)] = argv[++i];
+  }
+
+  return args;
+}
+
+function readRows(format: string, input: string): AsyncGenerator<FoodRow> {
+  switch (format) {
+    case 'off':
+      return readOpenFoodFacts(input);
+    case 'usda':
+      return readUsda(input);
+    default:
+      throw new Error(`Unknown format: ${format}`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!args.format || !args.input) {
+    throw new Error('--format and --input are required');
+  }
+
+  const limit = args.limit ? parseInt(args.limit) : Infinity;
+  if (Number.isNaN(limit) || limit < 1) {
+    throw new Error('--limit must be a positive number');
+  }
+
+  const foodService = new FoodService(prisma);
+  const totals = { created: 0, updated: 0, skipped: 0 };
+  const reasons = new Map<string, number>();
+  let batch: FoodInput[] = [];
+
+  const flush = async () => {
+    const result = await foodService.importFoods(batch);
+    totals.created += result.created;
+    totals.updated += result.updated;
+    batch = [];
+    console.log(`… ${totals.created + totals.updated} foods imported`);
+  };
+
+  for await (const row of readRows(args.format, args.input)) {
+    if ('skipped' in row) {
+      totals.skipped++;
+      reasons.set(row.reason, (reasons.get(row.reason) ?? 0) + 1);
+      continue;
+    }
+
+    batch.push(row.food);
+    if (batch.length === BATCH_SIZE) {
+      await flush();
+    }
+    if (totals.created + totals.updated + batch.length >= limit) break;
+  }
+  if (batch.length > 0) {
+    await flush();
+  }
+
+  console.table(totals);
+  if (totals.skipped > 0) {
+    console.log('⚠️  Skipped foods, by reason:');
+    [...reasons.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10)
+      .forEach(([reason, count]) => console.log(`   ${count} × ${reason}`));
+  }
+
+  console.log('✅ Food import finished');
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Failed to import foods:', error.message || error);
+    console.log(USAGE);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { prisma } from '../config/database';
+import { parseFirestoreDump } from '../services/firestore-dump';
+import { FirestoreMigrationService, MIGRATION_KINDS, MigrationReport } from '../services/firestore-migration.service';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage: npm run firestore:migrate -- --input <dump.json> [--dry-run] [--force] [--report <report.json>]
+
+Imports users, health days (meals, water, workouts, fasting sessions), meal
+suggestions, goals, body measurements, friends, clans and ring stats from a
+Firestore export written by \`npm run firestore:dump\` in functions/.
+Firestore ids are mapped to new ids and remembered, so the command can be
+rerun after an interruption or a newer export: unchanged documents are
+skipped. Migrated users have no usable password and must reset it.
+
+  --dry-run   report what would be imported without writing anything
+  --force     rewrite documents even if they are unchanged since the last run
+  --report    also write the full report, with every skipped document, as JSON`;
+
+const FLAGS = ['dry-run', 'force'];
+
+/** Parse --flag value pairs and the value-less FLAGS from argv */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === '--help' || flag === '-h') {
+      args.help = 'true';
+      continue;
+    }
+    if (FLAGS.includes(flag.slice(2))) {
+      args[flag.slice(2)] = 'true';
+      continue;
+    }
+    if (!flag.startsWith('--') || argv[i + 1] === undefined) {
+      throw new Error(`Unexpected argument: ${flag}`);
+    }
+    args[flag.slice(2)] = argv[++i];
+  }
+
+  return args;
+}
+
+function printReport(report: MigrationReport) {
+  console.table(Object.fromEntries(MIGRATION_KINDS.map((kind) => [kind, report.kinds[kind]])));
+
+  if (report.reconciliation.length > 0) {
+    const mismatched = report.reconciliation.filter((row) => row.found !== row.expected);
+    if (mismatched.length === 0) {
+      console.log('✅ Every imported document has its row in Postgres');
+    } else {
+      mismatched.forEach((row) => {
+        console.log(`⚠️  ${row.kind}: expected ${row.expected} row(s), found ${row.found}`);
+      });
+    }
+  }
+
+  if (report.issues.length > 0) {
+    console.log(`⚠️  ${report.issues.length} document(s) skipped or failed, e.g.:`);
+    report.issues.slice(0, 20).forEach((issue) => console.log(`   ${issue.source}: ${issue.reason}`));
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!args.input) {
+    throw new Error('--input is required');
+  }
+
+  const dump = parseFirestoreDump(JSON.parse(fs.readFileSync(args.input, 'utf8')));
+  const migration = new FirestoreMigrationService(prisma, {
+    dryRun: !!args['dry-run'],
+    force: !!args.force,
+    log: (message) => console.log(`… ${message}`),
+  });
+
+  const report = await migration.run(dump);
+  printReport(report);
+
+  if (args.report) {
+    fs.writeFileSync(args.report, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`📝 Wrote report to ${args.report}`);
+  }
+
+  const failed = MIGRATION_KINDS.reduce((sum, kind) => sum + report.kinds[kind].failed, 0);
+  if (failed > 0) {
+    throw new Error(`${failed} document(s) failed to import; rerun to retry them`);
+  }
+
+  console.log(report.dryRun ? '✅ Dry run finished, nothing was written' : '✅ Migration finished');
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Failed to migrate Firestore data:', error.message || error);
+    console.log(USAGE);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,81 @@
+import dotenv from 'dotenv';
+import { prisma } from '../config/database';
+import { HealthService } from '../services/health.service';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage: npm run totals:recompute -- [--user <id|email>] [--from yyyy-MM-dd] [--to yyyy-MM-dd]
+
+Recomputes caloriesConsumed, caloriesBurned and waterIntake on daily health
+data from their meals, workouts and water entries. Without filters every day
+of every user is repaired.`;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Parse --flag value pairs from argv */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === '--help' || flag === '-h') {
+      args.help = 'true';
+      continue;
+    }
+    if (!flag.startsWith('--') || argv[i + 1] === undefined) {
+      throw new Error(`Unexpected argument: ${flag}`);
+    }
+    args[flag.slice(2)] = argv[++i];
+  }
+
+  return args;
+}
+
+/** Resolve a user id from an id or email */
+async function resolveUserId(user: string): Promise<string> {
+  const found = await prisma.user.findFirst({
+    where: user.includes('@') ? { email: user } : { id: user },
+    select: { id: true },
+  });
+
+  if (!found) {
+    throw new Error(`User not found: ${user}`);
+  }
+
+  return found.id;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  for (const key of ['from', 'to']) {
+    if (args[key] && !DATE_PATTERN.test(args[key])) {
+      throw new Error(`--${key} must be a yyyy-MM-dd date`);
+    }
+  }
+
+  const userId = args.user ? await resolveUserId(args.user) : undefined;
+  const healthService = new HealthService(prisma);
+
+  const count = await healthService.recomputeTotals({
+    userId,
+    from: args.from,
+    to: args.to,
+  });
+
+  console.log(`✅ Recomputed totals for ${count} day(s)`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Failed to recompute totals:', error.message || error);
+    console.log(USAGE);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/error.middleware';
+import { hashPassword } from '../auth/password';
+import { MailService } from './mail.service';
+import { SessionService, hashToken } from './session.service';
+
+export type AuthTokenPurpose = 'password_reset' | 'email_verification';
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+
+/**
+ * Password resets and email verification via single-use mailed tokens
+ */
+export class AccountService {
+  private sessions: SessionService;
+
+  constructor(private prisma: PrismaClient, private mail: MailService = new MailService()) {
+    this.sessions = new SessionService(prisma);
+  }
+
+  /**
+   * Mail a reset token if the address belongs to an account.
+   * Unknown addresses are ignored so the endpoint cannot be used to probe for accounts.
+   */
+  async requestPasswordReset(email: string) {
+    const user = await this.prisma.user.findUnique({ where: { email } });
+    if (!user) {
+      return;
+    }
+
+    const token = await this.issue(user.id, 'password_reset', PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+    await this.mail.sendPasswordReset(user.email, token, PASSWORD_RESET_TTL_MINUTES);
+  }
+
+  /** Set a new password, lift any login lockout and sign the user out of every device */
+  async resetPassword(token: string, password: string) {
+    const passwordHash = await hashPassword(password);
+
+    const userId = await this.prisma.$transaction(async (tx) => {
+      const authToken = await this.consume(tx, token, 'password_reset');
+
+      await tx.user.update({
+        where: { id: authToken.userId },
+        // Receiving the reset mail proves ownership of the address
+        data: {
+          passwordHash,
+          emailVerifiedAt: authToken.user.emailVerifiedAt ?? new Date(),
+          failedLoginAttempts: 0,
+          lockedUntil: null,
+        },
+      });
+
+      return authToken.userId;
+    });
+
+    await this.sessions.revokeAll(userId);
+  }
+
+  /** Mail a verification token to the user's current address */
+  async sendEmailVerification(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new AppError('Email is already verified', 409, 'EMAIL_ALREADY_VERIFIED');
+    }
+
+    const token = await this.issue(user.id, 'email_verification', EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+    await this.mail.sendEmailVerification(user.email, token, EMAIL_VERIFICATION_TTL_HOURS);
+  }
+
+  /** Mark the token owner's email as verified */
+  async verifyEmail(token: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const authToken = await this.consume(tx, token, 'email_verification');
+
+      return tx.user.update({
+        where: { id: authToken.userId },
+        data: { emailVerifiedAt: authToken.user.emailVerifiedAt ?? new Date() },
+        select: { id: true, email: true, emailVerifiedAt: true },
+      });
+    });
+  }
+
+  /**
+   * Create a token, invalidating any earlier unused ones for the same purpose
+   * so only the most recent email works.
+   */
+  private async issue(userId: string, purpose: AuthTokenPurpose, ttlMs: number) {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    await this.prisma.$transaction([
+      this.prisma.authToken.updateMany({
+        where: { userId, purpose, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      this.prisma.authToken.create({
+        data: {
+          userId,
+          purpose,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + ttlMs),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Atomically mark a token as used. Unknown, expired and already used
+   * tokens are all rejected with the same error.
+   */
+  private async consume(
+    tx: Prisma.TransactionClient,
+    token: string,
+    purpose: AuthTokenPurpose
+  ) {
+    const tokenHash = hashToken(token);
+
+    const claimed = await tx.authToken.updateMany({
+      where: { tokenHash, purpose, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      throw new AppError('Invalid or expired token', 400, 'INVALID_TOKEN');
+    }
+
+    return tx.authToken.findUniqueOrThrow({
+      where: { tokenHash },
+      include: { user: { select: { emailVerifiedAt: true } } },
+    });
+  }
+}
@@ -1,4 +1,16 @@
 import { PrismaClient } from '@prisma/client';
+import { ClanPrivacy, ClanRole, ClanInviteAction } from '../shared/domain';
+
+// Request body as accepted by schemas/community.schema.ts
+export interface RingStatsInput {
+  date: string; // yyyyMMdd
+  caloriesBurned: number;
+  steps: number;
+  workoutMinutes: number;
+  goalCalories: number;
+  goalSteps: number;
+  goalMinutes: number;
+}
 
 export class CommunityService {
   constructor(private prisma: PrismaClient) {}
@@ -344,7 +356,7 @@ export class CommunityService {
     });
   }
 
-  async createClan(ownerUid: string, name: string, description: string, privacy: string) {
+  async createClan(ownerUid: string, name: string, description: string, privacy: ClanPrivacy) {
     return this.prisma.clan.create({
       data: {
         name,
@@ -414,7 +426,7 @@ export class CommunityService {
     });
   }
 
-  async respondClanInvite(clanId: string, toUid: string, action: string) {
+  async respondClanInvite(clanId: string, toUid: string, action: ClanInviteAction) {
     const invite = await this.prisma.clanInvite.findUnique({
       where: {
         clanId_toUid: {
@@ -535,7 +547,7 @@ export class CommunityService {
     return true;
   }
 
-  async updateClanRole(clanId: string, ownerUid: string, memberUid: string, newRole: string) {
+  async updateClanRole(clanId: string, ownerUid: string, memberUid: string, newRole: ClanRole) {
     const owner = await this.prisma.clanMember.findUnique({
       where: {
         clanId_uid: {
@@ -598,7 +610,7 @@ export class CommunityService {
     name?: string;
     description?: string;
     photoURL?: string;
-    privacy?: string;
+    privacy?: ClanPrivacy;
   }) {
     const member = await this.prisma.clanMember.findUnique({
       where: {
@@ -686,7 +698,7 @@ export class CommunityService {
     });
   }
 
-  async updateRingStats(userId: string, stats: any) {
+  async updateRingStats(userId: string, stats: RingStatsInput) {
     return this.prisma.ringStats.upsert({
       where: {
         userId_date: {
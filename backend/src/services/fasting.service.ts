@@ -0,0 +1,190 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/error.middleware';
+import { assertVersion, guardVersion, versionedWhere } from './versioning';
+
+export interface FastingSessionInput {
+  type?: string;
+  startTime?: string;
+  endTime?: string | null;
+  targetDuration?: number | null;
+  eatingWindowStart?: number | null;
+  eatingWindowEnd?: number | null;
+  version?: number; // the version the client last saw, for edits and stops
+}
+
+/**
+ * Where clause for sessions overlapping [from, to). Active sessions are
+ * treated as running until now.
+ */
+export function overlapping(from?: Date, to?: Date): Prisma.FastingSessionWhereInput {
+  return {
+    ...(to && { startTime: { lt: to } }),
+    ...(from && {
+      OR: [
+        { endTime: null },
+        { endTime: { gt: from } },
+      ],
+    }),
+  };
+}
+
+/**
+ * Fasting sessions are a per-user timeline: a session starts and stops at
+ * arbitrary timestamps and is attributed to every day it overlaps.
+ */
+export class FastingService {
+  constructor(private prisma: PrismaClient) {}
+
+  /** Sessions overlapping [from, to), newest first */
+  async listSessions(userId: string, from?: Date, to?: Date) {
+    return this.prisma.fastingSession.findMany({
+      where: {
+        userId,
+        ...overlapping(from, to),
+      },
+      orderBy: { startTime: 'desc' },
+    });
+  }
+
+  async getActiveSession(userId: string) {
+    return this.prisma.fastingSession.findFirst({
+      where: { userId, endTime: null },
+      orderBy: { startTime: 'desc' },
+    });
+  }
+
+  async startSession(userId: string, data: FastingSessionInput) {
+    const startTime = data.startTime ? new Date(data.startTime) : new Date();
+
+    return this.prisma.$transaction(async (tx) => {
+      const active = await tx.fastingSession.findFirst({
+        where: { userId, endTime: null },
+      });
+
+      if (active) {
+        throw new AppError('A fasting session is already in progress', 409, 'FASTING_ACTIVE');
+      }
+
+      await this.assertNoOverlap(tx, userId, startTime, null);
+
+      return tx.fastingSession.create({
+        data: {
+          userId,
+          type: data.type as string,
+          startTime,
+          targetDuration: data.targetDuration,
+          eatingWindowStart: data.eatingWindowStart,
+          eatingWindowEnd: data.eatingWindowEnd,
+        },
+      });
+    });
+  }
+
+  async stopSession(userId: string, sessionId: string, endTime?: string, version?: number) {
+    const session = await this.findOwnedSession(userId, sessionId);
+
+    // A stale client learns what changed (possibly a stop from another device)
+    assertVersion('Fasting session', session, version);
+
+    if (session.endTime) {
+      throw new AppError('Fasting session has already been stopped', 409, 'FASTING_STOPPED');
+    }
+
+    const end = endTime ? new Date(endTime) : new Date();
+    if (end <= session.startTime) {
+      throw new AppError('endTime must be after startTime', 400, 'VALIDATION_ERROR');
+    }
+
+    return guardVersion('Fasting session', version, () => this.findOwnedSession(userId, sessionId), () =>
+      this.prisma.fastingSession.update({
+        where: versionedWhere(sessionId, version),
+        data: { endTime: end, version: { increment: 1 } },
+      })
+    );
+  }
+
+  async updateSession(userId: string, sessionId: string, data: FastingSessionInput) {
+    const session = await this.findOwnedSession(userId, sessionId);
+    assertVersion('Fasting session', session, data.version);
+
+    const startTime = data.startTime ? new Date(data.startTime) : session.startTime;
+    const endTime = data.endTime === undefined
+      ? session.endTime
+      : data.endTime === null ? null : new Date(data.endTime);
+
+    if (endTime && endTime <= startTime) {
+      throw new AppError('endTime must be after startTime', 400, 'VALIDATION_ERROR');
+    }
+
+    return guardVersion('Fasting session', data.version, () => this.findOwnedSession(userId, sessionId), () =>
+      this.prisma.$transaction(async (tx) => {
+        if (!endTime) {
+          const active = await tx.fastingSession.findFirst({
+            where: { userId, endTime: null, id: { not: sessionId } },
+          });
+
+          if (active) {
+            throw new AppError('A fasting session is already in progress', 409, 'FASTING_ACTIVE');
+          }
+        }
+
+        await this.assertNoOverlap(tx, userId, startTime, endTime, sessionId);
+
+        return tx.fastingSession.update({
+          where: versionedWhere(sessionId, data.version),
+          data: {
+            type: data.type,
+            startTime,
+            endTime,
+            targetDuration: data.targetDuration,
+            eatingWindowStart: data.eatingWindowStart,
+            eatingWindowEnd: data.eatingWindowEnd,
+            version: { increment: 1 },
+          },
+        });
+      })
+    );
+  }
+
+  async deleteSession(userId: string, sessionId: string) {
+    await this.findOwnedSession(userId, sessionId);
+
+    await this.prisma.fastingSession.delete({
+      where: { id: sessionId },
+    });
+
+    return true;
+  }
+
+  private async assertNoOverlap(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    startTime: Date,
+    endTime: Date | null,
+    excludeId?: string
+  ) {
+    const conflict = await tx.fastingSession.findFirst({
+      where: {
+        userId,
+        id: excludeId ? { not: excludeId } : undefined,
+        ...overlapping(startTime, endTime ?? undefined),
+      },
+    });
+
+    if (conflict) {
+      throw new AppError('Fasting session overlaps another session', 409, 'FASTING_OVERLAP');
+    }
+  }
+
+  private async findOwnedSession(userId: string, sessionId: string) {
+    const session = await this.prisma.fastingSession.findFirst({
+      where: { id: sessionId, userId },
+    });
+
+    if (!session) {
+      throw new AppError('Fasting session not found', 404, 'NOT_FOUND');
+    }
+
+    return session;
+  }
+}
@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+
+// Format of the Firestore export read by the migration script, as written by
+// functions/src/scripts/dumpFirestore.ts: every collection is a list of
+// documents, and every document carries its own subcollections. Documents
+// that only exist as parents of subcollections (friends/{uid}, ringStats/{uid})
+// have no fields.
+
+export interface DumpDocument {
+  id: string;
+  data: Record<string, unknown> | null;
+  collections?: Record<string, DumpDocument[]>;
+}
+
+export interface FirestoreDump {
+  exportedAt?: string;
+  projectId?: string;
+  collections: Record<string, DumpDocument[]>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function parseDocuments(value: unknown, path: string): DumpDocument[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${path} must be a list of documents`);
+  }
+
+  return value.map((doc, index) => {
+    if (!isObject(doc) || typeof doc.id !== 'string' || !doc.id) {
+      throw new Error(`${path}[${index}] must be a document with an id`);
+    }
+    if (doc.data !== null && doc.data !== undefined && !isObject(doc.data)) {
+      throw new Error(`${path}/${doc.id} data must be an object`);
+    }
+
+    return {
+      id: doc.id,
+      data: (doc.data as Record<string, unknown> | undefined) ?? null,
+      collections: parseCollections(doc.collections, `${path}/${doc.id}`),
+    };
+  });
+}
+
+function parseCollections(value: unknown, path: string): Record<string, DumpDocument[]> {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (!isObject(value)) {
+    throw new Error(`${path || 'dump'} collections must be an object`);
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([name, docs]) => [name, parseDocuments(docs, path ? `${path}/${name}` : name)])
+  );
+}
+
+/**
+ * Check the shape of a parsed export file. Field values are left as they are;
+ * the migration validates them document by document.
+ */
+export function parseFirestoreDump(json: unknown): FirestoreDump {
+  if (!isObject(json) || !isObject(json.collections)) {
+    throw new Error('Not a Firestore export: expected an object with "collections"');
+  }
+
+  return {
+    exportedAt: typeof json.exportedAt === 'string' ? json.exportedAt : undefined,
+    projectId: typeof json.projectId === 'string' ? json.projectId : undefined,
+    collections: parseCollections(json.collections, ''),
+  };
+}
+
+/** Documents of a subcollection, e.g. subcollection(userDoc, 'health') */
+export function subcollection(doc: DumpDocument, name: string): DumpDocument[] {
+  return doc.collections?.[name] || [];
+}
+
+/**
+ * Read a timestamp field. The dump script writes ISO strings; Timestamps
+ * serialized by other tools ({ _seconds }, { seconds } or
+ * { __datatype__: 'timestamp', value }) and epoch milliseconds are accepted too.
+ */
+export function toTimestamp(value: unknown): Date | null {
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  if (!isObject(value)) {
+    return null;
+  }
+  if (value.__datatype__ === 'timestamp') {
+    return toTimestamp(value.value);
+  }
+
+  const seconds = value._seconds ?? value.seconds;
+  const nanoseconds = value._nanoseconds ?? value.nanoseconds ?? 0;
+  if (typeof seconds === 'number' && typeof nanoseconds === 'number') {
+    return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+  }
+  return null;
+}
+
+// Object keys sorted, so the checksum does not depend on field order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (isObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** Fingerprint of a source value; the migration reimports it only when this changes */
+export function checksum(value: unknown): string {
+  return crypto.createHash('sha256').update(stableStringify(value)).digest('hex');
+}
@@ -0,0 +1,918 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { hashPassword } from '../auth/password';
+import { HealthService } from './health.service';
+import { toNutrients } from './food-items';
+import { checksum, DumpDocument, FirestoreDump, subcollection, toTimestamp } from './firestore-dump';
+import {
+  ACTIVITY_LEVELS,
+  CLAN_PRIVACY,
+  CLAN_ROLES,
+  DATE_KEY_PATTERN,
+  DEFAULT_GOALS,
+  EXERCISE_CATEGORIES,
+  GENDERS,
+  GOAL_KEYS,
+  Goals,
+  MEAL_TYPES,
+  MEASUREMENT_KEYS,
+  Nutrients,
+  RING_DATE_KEY_PATTERN,
+  RINGS_VISIBILITY,
+  WORKOUT_TYPES,
+} from '../shared/domain';
+
+// Imports a Firestore export (see firestore-dump.ts) into Postgres. Every
+// imported document is recorded in LegacyIdMap with the id of the row it
+// became and a checksum of its fields, so a rerun resumes where an
+// interrupted run stopped and only rewrites documents that changed since.
+// Rows are added and updated, never deleted.
+
+export const MIGRATION_KINDS = [
+  'user',
+  'day',
+  'meal',
+  'waterEntry',
+  'workout',
+  'fastingSession',
+  'mealSuggestion',
+  'goal',
+  'measurement',
+  'clan',
+  'clanMember',
+  'friend',
+  'ringStats',
+] as const;
+export type MigrationKind = (typeof MIGRATION_KINDS)[number];
+
+type Status = 'created' | 'updated' | 'unchanged';
+
+export interface KindReport {
+  source: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface MigrationIssue {
+  source: string;
+  reason: string;
+}
+
+/** Rows expected in Postgres for the imported documents, and how many are there */
+export interface Reconciliation {
+  kind: MigrationKind;
+  expected: number;
+  found: number;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  exportedAt?: string;
+  startedAt: string;
+  finishedAt?: string;
+  kinds: Record<MigrationKind, KindReport>;
+  issues: MigrationIssue[];
+  // Left empty on dry runs, which write nothing to compare against
+  reconciliation: Reconciliation[];
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+  // Rewrite documents even if their checksum matches the last run
+  force?: boolean;
+  log?: (message: string) => void;
+}
+
+interface Planned {
+  kind: MigrationKind;
+  source: string;
+  checksum: string;
+  targetId: string;
+  status: Status;
+}
+
+type Tx = Prisma.TransactionClient;
+type Fields = Record<string, unknown>;
+
+// Days with long GPS tracks write thousands of rows in one transaction
+const TRANSACTION_TIMEOUT_MS = 60000;
+const RECONCILE_CHUNK_SIZE = 1000;
+
+const isFields = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const num = (value: unknown, fallback = 0): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const int = (value: unknown, fallback = 0): number => Math.round(num(value, fallback));
+
+const optionalNum = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const optionalInt = (value: unknown): number | null => {
+  const parsed = optionalNum(value);
+  return parsed === null ? null : Math.round(parsed);
+};
+
+// The app stores 0 for readings the device did not report
+const reading = (value: unknown): number | null => {
+  const parsed = optionalNum(value);
+  return parsed ? parsed : null;
+};
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const oneOf = <T extends string>(values: readonly T[], value: unknown): T | undefined =>
+  values.includes(value as T) ? (value as T) : undefined;
+
+const list = (value: unknown): Fields[] => (Array.isArray(value) ? value.filter(isFields) : []);
+
+const emptyReport = (): KindReport => ({ source: 0, created: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0 });
+
+export class FirestoreMigrationService {
+  private healthService: HealthService;
+  private mappings = new Map<string, { targetId: string; checksum: string }>();
+  private userIds = new Map<string, string>();
+  private imported = new Map<MigrationKind, Set<string>>();
+  private seen = new Set<string>();
+  private report!: MigrationReport;
+
+  constructor(private prisma: PrismaClient, private options: MigrationOptions = {}) {
+    this.healthService = new HealthService(prisma);
+  }
+
+  /**
+   * Import users first, then their health data, clans, friends and ring
+   * stats, which all refer to users by their Firestore uid.
+   */
+  async run(dump: FirestoreDump): Promise<MigrationReport> {
+    this.report = {
+      dryRun: !!this.options.dryRun,
+      exportedAt: dump.exportedAt,
+      startedAt: new Date().toISOString(),
+      kinds: Object.fromEntries(MIGRATION_KINDS.map((kind) => [kind, emptyReport()])) as Record<
+        MigrationKind,
+        KindReport
+      >,
+      issues: [],
+      reconciliation: [],
+    };
+    this.userIds.clear();
+    this.imported.clear();
+    this.seen.clear();
+
+    const mappings = await this.prisma.legacyIdMap.findMany();
+    this.mappings = new Map(mappings.map((mapping) => [mapping.source, mapping]));
+
+    const users = dump.collections.users || [];
+    for (const doc of users) {
+      await this.migrateUser(doc);
+    }
+    this.log(`users: ${users.length} document(s)`);
+
+    for (const doc of users) {
+      await this.migrateHealth(doc);
+    }
+    this.log('health days, meal suggestions, goals and measurements done');
+
+    for (const doc of dump.collections.clans || []) {
+      await this.migrateClan(doc);
+    }
+    for (const doc of dump.collections.friends || []) {
+      for (const entry of subcollection(doc, 'list')) {
+        await this.migrateFriend(doc.id, entry);
+      }
+    }
+    for (const doc of dump.collections.ringStats || []) {
+      for (const entry of subcollection(doc, 'daily')) {
+        await this.migrateRingStats(doc.id, entry);
+      }
+    }
+    this.log('clans, friends and ring stats done');
+
+    if (!this.options.dryRun) {
+      this.report.reconciliation = await this.reconcile();
+    }
+
+    this.report.finishedAt = new Date().toISOString();
+    return this.report;
+  }
+
+  // ==================== Users ====================
+
+  private async migrateUser(doc: DumpDocument) {
+    const source = `users/${doc.id}`;
+    const data = doc.data;
+    const email = text(data?.email).toLowerCase();
+
+    if (!data) {
+      return this.skip('user', source, 'document has no fields');
+    }
+    if (!email) {
+      return this.skip('user', source, 'user has no email');
+    }
+
+    const existing = await this.prisma.user.findUnique({ where: { email }, select: { id: true } });
+    const user = this.plan('user', source, data, existing?.id);
+
+    const displayName = text(data.displayName) || email.split('@')[0];
+    const profile = isFields(data.profile) ? data.profile : null;
+    const privacy = isFields(data.privacy) ? data.privacy : {};
+
+    const account = {
+      displayName,
+      photoURL: text(data.photoURL),
+      usernameLower: text(data.usernameLower).toLowerCase() || displayName.toLowerCase(),
+      lastActiveAt: toTimestamp(data.lastActiveAt) ?? undefined,
+    };
+    const profileFields = profile && {
+      age: optionalInt(profile.age),
+      weight: optionalNum(profile.weight),
+      height: optionalNum(profile.height),
+      activityLevel: oneOf(ACTIVITY_LEVELS, profile.activityLevel) ?? null,
+      gender: oneOf(GENDERS, profile.gender) ?? null,
+    };
+    const privacyFields = {
+      ringsVisibility: oneOf(RINGS_VISIBILITY, privacy.ringsVisibility) ?? 'friends',
+      allowFriendRequests: privacy.allowFriendRequests !== false,
+      allowClanInvites: privacy.allowClanInvites !== false,
+    };
+
+    // Firebase Auth passwords cannot be exported; migrated users sign in
+    // after resetting theirs
+    const passwordHash =
+      user.status === 'created' && !this.options.dryRun
+        ? await hashPassword(crypto.randomBytes(32).toString('base64url'))
+        : '';
+
+    const saved = await this.apply([user], async (tx) => {
+      await tx.user.upsert({
+        where: { id: user.targetId },
+        create: {
+          id: user.targetId,
+          email,
+          passwordHash,
+          createdAt: toTimestamp(data.createdAt) ?? undefined,
+          ...account,
+        },
+        update: account,
+      });
+
+      if (profileFields) {
+        await tx.userProfile.upsert({
+          where: { userId: user.targetId },
+          create: { userId: user.targetId, ...profileFields },
+          update: profileFields,
+        });
+      }
+      await tx.userPrivacy.upsert({
+        where: { userId: user.targetId },
+        create: { userId: user.targetId, ...privacyFields },
+        update: privacyFields,
+      });
+    });
+    if (saved) {
+      this.userIds.set(doc.id, user.targetId);
+    }
+  }
+
+  // ==================== Health ====================
+
+  private async migrateHealth(doc: DumpDocument) {
+    const days = subcollection(doc, 'health');
+    const suggestions = subcollection(doc, 'mealSuggestions');
+    const goals = subcollection(doc, 'goals');
+    const measurements = subcollection(doc, 'measurements');
+    const userId = this.userIds.get(doc.id);
+
+    if (!userId) {
+      this.skipAll('day', days.length);
+      this.skipAll('mealSuggestion', suggestions.length);
+      this.skipAll('goal', goals.length);
+      this.skipAll('measurement', measurements.length);
+      if (days.length + suggestions.length + goals.length + measurements.length > 0) {
+        this.issue(`users/${doc.id}`, `user was not migrated; skipped its ${days.length} day(s), suggestions, goals and measurements`);
+      }
+      return;
+    }
+
+    let written = 0;
+    for (const day of days) {
+      if (await this.migrateDay(doc.id, userId, day)) {
+        written++;
+      }
+    }
+    for (const suggestion of suggestions) {
+      await this.migrateMealSuggestion(doc.id, userId, suggestion);
+    }
+    for (const goal of goals) {
+      await this.migrateGoal(doc.id, userId, goal);
+    }
+    for (const measurement of measurements) {
+      await this.migrateMeasurement(doc.id, userId, measurement);
+    }
+
+    // Derived totals are rebuilt from the imported meals, water and workouts
+    if (written > 0 && !this.options.dryRun) {
+      await this.healthService.recomputeTotals({ userId });
+    }
+  }
+
+  /** Import one day with its entries in a single transaction; true if anything was written */
+  private async migrateDay(uid: string, userId: string, doc: DumpDocument): Promise<boolean> {
+    const source = `users/${uid}/health/${doc.id}`;
+    const data = doc.data;
+
+    if (!data) {
+      this.skip('day', source, 'document has no fields');
+      return false;
+    }
+    if (!DATE_KEY_PATTERN.test(doc.id)) {
+      this.skip('day', source, 'document id is not a yyyy-MM-dd date');
+      return false;
+    }
+
+    const existing = await this.prisma.dailyHealthData.findUnique({
+      where: { userId_date: { userId, date: doc.id } },
+      select: { id: true },
+    });
+    const day = this.plan('day', source, data, existing?.id);
+    const planned: Planned[] = [day];
+    const writes: ((tx: Tx) => Promise<unknown>)[] = [];
+
+    const metrics = {
+      steps: int(data.steps),
+      activeEnergyBurned: reading(data.activeEnergyBurned),
+      dietaryEnergyConsumed: reading(data.dietaryEnergyConsumed),
+      heartRate: reading(data.heartRate) && Math.round(num(data.heartRate)),
+      restingHeartRate: reading(data.restingHeartRate) && Math.round(num(data.restingHeartRate)),
+    };
+    writes.push((tx) =>
+      tx.dailyHealthData.upsert({
+        where: { id: day.targetId },
+        create: { id: day.targetId, userId, date: doc.id, ...metrics },
+        update: metrics,
+      })
+    );
+
+    list(data.meals).forEach((meal, index) => {
+      const mealSource = `${source}/meals/${text(meal.id) || index}`;
+      const type = oneOf(MEAL_TYPES, meal.type);
+      const timestamp = toTimestamp(meal.timestamp);
+      if (!type || !timestamp) {
+        return this.skip('meal', mealSource, type ? 'meal has no timestamp' : `unknown meal type: ${meal.type}`);
+      }
+
+      const macros = isFields(meal.macros) ? meal.macros : {};
+      const target = this.plan('meal', mealSource, meal);
+      const fields = {
+        type,
+        name: text(meal.name) || 'Meal',
+        calories: num(meal.calories),
+        carbs: num(macros.carbs),
+        protein: num(macros.protein),
+        fat: num(macros.fat),
+        nutrients: toNutrients(meal.nutrients as Nutrients),
+        timestamp,
+        version: int(meal.version, 1),
+      };
+      planned.push(target);
+      writes.push((tx) =>
+        target.status === 'unchanged'
+          ? Promise.resolve()
+          : this.writeMeal(tx, target.targetId, day.targetId, fields, meal)
+      );
+    });
+
+    list(data.waterEntries).forEach((entry, index) => {
+      const entrySource = `${source}/waterEntries/${text(entry.id) || index}`;
+      const timestamp = toTimestamp(entry.timestamp);
+      if (!(num(entry.glasses) > 0) || !timestamp) {
+        return this.skip('waterEntry', entrySource, 'water entry needs glasses and a timestamp');
+      }
+
+      const target = this.plan('waterEntry', entrySource, entry);
+      const fields = { glasses: num(entry.glasses), timestamp, version: int(entry.version, 1) };
+      planned.push(target);
+      writes.push((tx) =>
+        target.status === 'unchanged'
+          ? Promise.resolve()
+          : tx.waterEntry.upsert({
+              where: { id: target.targetId },
+              create: { id: target.targetId, dailyHealthDataId: day.targetId, ...fields },
+              update: fields,
+            })
+      );
+    });
+
+    list(data.workouts).forEach((workout, index) => {
+      const workoutSource = `${source}/workouts/${text(workout.id) || index}`;
+      const type = oneOf(WORKOUT_TYPES, workout.type);
+      const startTime = toTimestamp(workout.startTime);
+      if (!type || !startTime) {
+        return this.skip(
+          'workout',
+          workoutSource,
+          type ? 'workout has no start time' : `unknown workout type: ${workout.type}`
+        );
+      }
+
+      const target = this.plan('workout', workoutSource, workout);
+      planned.push(target);
+      writes.push((tx) =>
+        target.status === 'unchanged' ? Promise.resolve() : this.writeWorkout(tx, target.targetId, day.targetId, workout)
+      );
+    });
+
+    // The app keeps the session in the day it started on, but sessions are
+    // per user here
+    const session = isFields(data.fastingSession) ? data.fastingSession : null;
+    const sessionSource = session && `users/${uid}/fastingSessions/${text(session.id) || doc.id}`;
+    if (session && sessionSource && !this.seen.has(sessionSource)) {
+      this.seen.add(sessionSource);
+      const startTime = toTimestamp(session.startTime);
+      if (!text(session.type) || !startTime) {
+        this.skip('fastingSession', sessionSource, 'fasting session needs a type and a start time');
+      } else {
+        const target = this.plan('fastingSession', sessionSource, session);
+        const eatingWindow = isFields(session.eatingWindow) ? session.eatingWindow : {};
+        const fields = {
+          type: text(session.type),
+          startTime,
+          endTime: toTimestamp(session.endTime),
+          targetDuration: optionalNum(session.targetDuration),
+          eatingWindowStart: optionalInt(eatingWindow.startHour),
+          eatingWindowEnd: optionalInt(eatingWindow.endHour),
+          version: int(session.version, 1),
+        };
+        planned.push(target);
+        writes.push((tx) =>
+          target.status === 'unchanged'
+            ? Promise.resolve()
+            : tx.fastingSession.upsert({
+                where: { id: target.targetId },
+                create: { id: target.targetId, userId, ...fields },
+                update: fields,
+              })
+        );
+      }
+    }
+
+    const saved = await this.apply(planned, async (tx) => {
+      for (const write of writes) {
+        await write(tx);
+      }
+    });
+    return saved && planned.some((entry) => entry.status !== 'unchanged');
+  }
+
+  /** Upsert a workout; its exercises and location track are replaced wholesale */
+  private async writeMeal(
+    tx: Tx,
+    id: string,
+    dailyHealthDataId: string,
+    fields: Omit<Prisma.MealUncheckedCreateInput, 'id' | 'dailyHealthDataId'>,
+    meal: Fields
+  ) {
+    await tx.meal.upsert({
+      where: { id },
+      create: { id, dailyHealthDataId, ...fields },
+      update: fields,
+    });
+
+    // Items may point at foods of a food database this one was not imported from
+    const items = list(meal.items);
+    const foodIds = items.map((item) => text(item.foodId)).filter(Boolean);
+    const known = new Set(
+      (await tx.food.findMany({ where: { id: { in: foodIds } }, select: { id: true } })).map((food) => food.id)
+    );
+
+    await tx.mealItem.deleteMany({ where: { mealId: id } });
+    await tx.mealItem.createMany({
+      data: items.map((item, position) => {
+        const macros = isFields(item.macros) ? item.macros : {};
+        return {
+          mealId: id,
+          position,
+          name: text(item.name) || 'Food',
+          quantity: num(item.quantity),
+          unit: text(item.unit) || 'serving',
+          calories: num(item.calories),
+          carbs: num(macros.carbs),
+          protein: num(macros.protein),
+          fat: num(macros.fat),
+          nutrients: toNutrients(item.nutrients as Nutrients),
+          foodId: known.has(text(item.foodId)) ? text(item.foodId) : null,
+        };
+      }),
+    });
+  }
+
+  private async writeWorkout(tx: Tx, id: string, dailyHealthDataId: string, workout: Fields) {
+    const fields = {
+      name: text(workout.name) || 'Untitled Workout',
+      type: workout.type as string,
+      startTime: toTimestamp(workout.startTime) as Date,
+      endTime: toTimestamp(workout.endTime),
+      duration: int(workout.duration),
+      totalCaloriesBurned: num(workout.totalCaloriesBurned),
+      distance: optionalNum(workout.distance),
+      averageSpeed: optionalNum(workout.averageSpeed),
+      maxSpeed: optionalNum(workout.maxSpeed),
+      version: int(workout.version, 1),
+    };
+
+    await tx.workout.upsert({
+      where: { id },
+      create: { id, dailyHealthDataId, ...fields },
+      update: fields,
+    });
+
+    await tx.exercise.deleteMany({ where: { workoutId: id } });
+    await tx.exercise.createMany({
+      data: list(workout.exercises).map((exercise) => ({
+        workoutId: id,
+        name: text(exercise.name) || 'Exercise',
+        category: oneOf(EXERCISE_CATEGORIES, exercise.category) ?? 'other',
+        duration: optionalInt(exercise.duration),
+        sets: optionalInt(exercise.sets),
+        reps: optionalInt(exercise.reps),
+        weight: optionalNum(exercise.weight),
+        caloriesBurned: optionalNum(exercise.caloriesBurned),
+        notes: typeof exercise.notes === 'string' ? exercise.notes : null,
+      })),
+    });
+
+    await tx.locationPoint.deleteMany({ where: { workoutId: id } });
+    await tx.locationPoint.createMany({
+      data: list(workout.locationTrack).flatMap((point) => {
+        const timestamp = toTimestamp(point.timestamp);
+        const latitude = optionalNum(point.latitude);
+        const longitude = optionalNum(point.longitude);
+        if (!timestamp || latitude === null || longitude === null) {
+          return [];
+        }
+        return [
+          {
+            workoutId: id,
+            latitude,
+            longitude,
+            timestamp,
+            altitude: optionalNum(point.altitude),
+            speed: optionalNum(point.speed),
+            accuracy: optionalNum(point.accuracy),
+          },
+        ];
+      }),
+    });
+  }
+
+  private async migrateMealSuggestion(uid: string, userId: string, doc: DumpDocument) {
+    const source = `users/${uid}/mealSuggestions/${doc.id}`;
+    const data = doc.data || {};
+    const type = oneOf(MEAL_TYPES, data.type);
+    const name = text(data.name);
+
+    if (!type || !name) {
+      return this.skip('mealSuggestion', source, 'meal suggestion needs a meal type and a name');
+    }
+
+    const existing = await this.prisma.mealSuggestion.findUnique({
+      where: { userId_type_name: { userId, type, name } },
+      select: { id: true },
+    });
+    const target = this.plan('mealSuggestion', source, data, existing?.id);
+    const macros = isFields(data.macros) ? data.macros : {};
+    const fields = {
+      calories: num(data.calories),
+      carbs: num(macros.carbs),
+      protein: num(macros.protein),
+      fat: num(macros.fat),
+      updatedAt: toTimestamp(data.updatedAt) ?? undefined,
+    };
+
+    await this.apply([target], (tx) =>
+      tx.mealSuggestion.upsert({
+        where: { id: target.targetId },
+        create: { id: target.targetId, userId, type, name, ...fields },
+        update: fields,
+      })
+    );
+  }
+
+  // Goal changes are keyed by the day they apply from
+  private async migrateGoal(uid: string, userId: string, doc: DumpDocument) {
+    const source = `users/${uid}/goals/${doc.id}`;
+    const data = doc.data || {};
+
+    if (!DATE_KEY_PATTERN.test(doc.id)) {
+      return this.skip('goal', source, 'goal change id is not a yyyy-MM-dd day');
+    }
+
+    const existing = await this.prisma.userGoal.findUnique({
+      where: { userId_effectiveFrom: { userId, effectiveFrom: doc.id } },
+      select: { id: true },
+    });
+    const target = this.plan('goal', source, data, existing?.id);
+    const fields = {
+      ...Object.fromEntries(GOAL_KEYS.map((key) => [key, num(data[key], DEFAULT_GOALS[key])])),
+      steps: int(data.steps, DEFAULT_GOALS.steps),
+      activeMinutes: int(data.activeMinutes, DEFAULT_GOALS.activeMinutes),
+      weeklyWorkouts: int(data.weeklyWorkouts, DEFAULT_GOALS.weeklyWorkouts),
+    } as Goals;
+
+    await this.apply([target], (tx) =>
+      tx.userGoal.upsert({
+        where: { id: target.targetId },
+        create: { id: target.targetId, userId, effectiveFrom: doc.id, ...fields },
+        update: fields,
+      })
+    );
+  }
+
+  // Body measurements are keyed by day. The profile's weight is imported
+  // with the user, so it is left as it is.
+  private async migrateMeasurement(uid: string, userId: string, doc: DumpDocument) {
+    const source = `users/${uid}/measurements/${doc.id}`;
+    const data = doc.data || {};
+
+    if (!DATE_KEY_PATTERN.test(doc.id)) {
+      return this.skip('measurement', source, 'measurement id is not a yyyy-MM-dd day');
+    }
+    const values = Object.fromEntries(MEASUREMENT_KEYS.map((key) => [key, reading(data[key])]));
+    if (MEASUREMENT_KEYS.every((key) => values[key] === null)) {
+      return this.skip('measurement', source, 'no measurements logged');
+    }
+
+    const existing = await this.prisma.bodyMeasurement.findUnique({
+      where: { userId_date: { userId, date: doc.id } },
+      select: { id: true },
+    });
+    const target = this.plan('measurement', source, data, existing?.id);
+
+    await this.apply([target], (tx) =>
+      tx.bodyMeasurement.upsert({
+        where: { id: target.targetId },
+        create: { id: target.targetId, userId, date: doc.id, ...values },
+        update: values,
+      })
+    );
+  }
+
+  // ==================== Community ====================
+
+  private async migrateClan(doc: DumpDocument) {
+    const source = `clans/${doc.id}`;
+    const members = subcollection(doc, 'members');
+    const data = doc.data || {};
+    const ownerUid = this.userIds.get(text(data.ownerUid));
+    const name = text(data.name);
+
+    if (!name || !ownerUid) {
+      this.skip('clan', source, name ? `owner ${data.ownerUid} was not migrated` : 'clan has no name');
+      this.skipAll('clanMember', members.length);
+      return;
+    }
+
+    const clan = this.plan('clan', source, data);
+    const fields = {
+      name,
+      description: text(data.description),
+      photoURL: text(data.photoURL),
+      ownerUid,
+      privacy: oneOf(CLAN_PRIVACY, data.privacy) ?? 'inviteOnly',
+    };
+
+    const saved = await this.apply([clan], (tx) =>
+      tx.clan.upsert({
+        where: { id: clan.targetId },
+        create: { id: clan.targetId, createdAt: toTimestamp(data.createdAt) ?? undefined, ...fields },
+        update: fields,
+      })
+    );
+    if (!saved) {
+      this.skipAll('clanMember', members.length);
+      return;
+    }
+
+    for (const member of members) {
+      await this.migrateClanMember(doc.id, clan.targetId, member);
+    }
+  }
+
+  private async migrateClanMember(firestoreClanId: string, clanId: string, doc: DumpDocument) {
+    const source = `clans/${firestoreClanId}/members/${doc.id}`;
+    const data = doc.data || {};
+    const uid = this.userIds.get(doc.id);
+
+    if (!uid) {
+      return this.skip('clanMember', source, `user ${doc.id} was not migrated`);
+    }
+
+    const existing = await this.prisma.clanMember.findUnique({
+      where: { clanId_uid: { clanId, uid } },
+      select: { id: true },
+    });
+    const target = this.plan('clanMember', source, data, existing?.id);
+    const fields = {
+      role: oneOf(CLAN_ROLES, data.role) ?? 'member',
+      status: data.status === 'invited' ? 'invited' : 'active',
+      joinedAt: toTimestamp(data.joinedAt) ?? undefined,
+    };
+
+    await this.apply([target], (tx) =>
+      tx.clanMember.upsert({
+        where: { id: target.targetId },
+        create: { id: target.targetId, clanId, uid, ...fields },
+        update: fields,
+      })
+    );
+  }
+
+  private async migrateFriend(firestoreUid: string, doc: DumpDocument) {
+    const source = `friends/${firestoreUid}/list/${doc.id}`;
+    const data = doc.data || {};
+    const userId = this.userIds.get(firestoreUid);
+    const friendUid = this.userIds.get(doc.id);
+
+    if (!userId || !friendUid) {
+      return this.skip('friend', source, `user ${userId ? doc.id : firestoreUid} was not migrated`);
+    }
+
+    const existing = await this.prisma.friend.findUnique({
+      where: { userId_friendUid: { userId, friendUid } },
+      select: { id: true },
+    });
+    const target = this.plan('friend', source, data, existing?.id);
+    const ringsShare = data.ringsShare === true;
+
+    await this.apply([target], (tx) =>
+      tx.friend.upsert({
+        where: { id: target.targetId },
+        create: {
+          id: target.targetId,
+          userId,
+          friendUid,
+          ringsShare,
+          createdAt: toTimestamp(data.createdAt) ?? undefined,
+        },
+        update: { ringsShare },
+      })
+    );
+  }
+
+  private async migrateRingStats(firestoreUid: string, doc: DumpDocument) {
+    const source = `ringStats/${firestoreUid}/daily/${doc.id}`;
+    const data = doc.data || {};
+    const userId = this.userIds.get(firestoreUid);
+
+    if (!userId) {
+      return this.skip('ringStats', source, `user ${firestoreUid} was not migrated`);
+    }
+    if (!RING_DATE_KEY_PATTERN.test(doc.id)) {
+      return this.skip('ringStats', source, 'document id is not a yyyyMMdd date');
+    }
+
+    const existing = await this.prisma.ringStats.findUnique({
+      where: { userId_date: { userId, date: doc.id } },
+      select: { id: true },
+    });
+    const target = this.plan('ringStats', source, data, existing?.id);
+    const fields = {
+      caloriesBurned: num(data.caloriesBurned),
+      steps: int(data.steps),
+      workoutMinutes: int(data.workoutMinutes),
+      goalCalories: num(data.goalCalories),
+      goalSteps: int(data.goalSteps),
+      goalMinutes: int(data.goalMinutes),
+      updatedAt: toTimestamp(data.updatedAt) ?? undefined,
+    };
+
+    await this.apply([target], (tx) =>
+      tx.ringStats.upsert({
+        where: { id: target.targetId },
+        create: { id: target.targetId, userId, date: doc.id, ...fields },
+        update: fields,
+      })
+    );
+  }
+
+  // ==================== Bookkeeping ====================
+
+  /**
+   * Decide what to do with one source value. A mapped source keeps its
+   * target; otherwise the row found by its natural key (e.g. a user with the
+   * same email) is reused, or a new id is assigned.
+   */
+  private plan(kind: MigrationKind, source: string, value: unknown, existingId?: string): Planned {
+    this.report.kinds[kind].source++;
+
+    const sum = checksum(value);
+    const mapping = this.mappings.get(source);
+    if (mapping && mapping.checksum === sum && !this.options.force) {
+      return { kind, source, checksum: sum, targetId: mapping.targetId, status: 'unchanged' };
+    }
+
+    return {
+      kind,
+      source,
+      checksum: sum,
+      targetId: mapping?.targetId ?? existingId ?? crypto.randomUUID(),
+      status: mapping || existingId ? 'updated' : 'created',
+    };
+  }
+
+  /**
+   * Write the planned rows and their id mappings in one transaction, unless
+   * nothing changed or this is a dry run. A failed write is reported rather
+   * than thrown, and returns false.
+   */
+  private async apply(planned: Planned[], write: (tx: Tx) => Promise<unknown>): Promise<boolean> {
+    const changed = planned.filter((entry) => entry.status !== 'unchanged');
+
+    if (changed.length > 0 && !this.options.dryRun) {
+      try {
+        await this.prisma.$transaction(
+          async (tx) => {
+            await write(tx);
+            for (const entry of changed) {
+              const mapping = { kind: entry.kind, targetId: entry.targetId, checksum: entry.checksum };
+              await tx.legacyIdMap.upsert({
+                where: { source: entry.source },
+                create: { source: entry.source, ...mapping },
+                update: { ...mapping, migratedAt: new Date() },
+              });
+            }
+          },
+          { timeout: TRANSACTION_TIMEOUT_MS }
+        );
+      } catch (error: any) {
+        planned.forEach((entry) => this.report.kinds[entry.kind].failed++);
+        this.issue(planned[0].source, `write failed: ${error.message || error}`);
+        return false;
+      }
+    }
+
+    for (const entry of planned) {
+      this.report.kinds[entry.kind][entry.status]++;
+      this.mappings.set(entry.source, { targetId: entry.targetId, checksum: entry.checksum });
+      if (!this.imported.has(entry.kind)) {
+        this.imported.set(entry.kind, new Set());
+      }
+      this.imported.get(entry.kind)!.add(entry.targetId);
+    }
+    return true;
+  }
+
+  private skip(kind: MigrationKind, source: string, reason: string) {
+    this.report.kinds[kind].source++;
+    this.report.kinds[kind].skipped++;
+    this.issue(source, reason);
+  }
+
+  private skipAll(kind: MigrationKind, count: number) {
+    this.report.kinds[kind].source += count;
+    this.report.kinds[kind].skipped += count;
+  }
+
+  private issue(source: string, reason: string) {
+    this.report.issues.push({ source, reason });
+  }
+
+  private log(message: string) {
+    this.options.log?.(message);
+  }
+
+  /** Count the rows the imported documents map to that are actually in Postgres */
+  private async reconcile(): Promise<Reconciliation[]> {
+    const counters: Record<MigrationKind, (ids: string[]) => Promise<number>> = {
+      user: (ids) => this.prisma.user.count({ where: { id: { in: ids } } }),
+      day: (ids) => this.prisma.dailyHealthData.count({ where: { id: { in: ids } } }),
+      meal: (ids) => this.prisma.meal.count({ where: { id: { in: ids } } }),
+      waterEntry: (ids) => this.prisma.waterEntry.count({ where: { id: { in: ids } } }),
+      workout: (ids) => this.prisma.workout.count({ where: { id: { in: ids } } }),
+      fastingSession: (ids) => this.prisma.fastingSession.count({ where: { id: { in: ids } } }),
+      mealSuggestion: (ids) => this.prisma.mealSuggestion.count({ where: { id: { in: ids } } }),
+      goal: (ids) => this.prisma.userGoal.count({ where: { id: { in: ids } } }),
+      measurement: (ids) => this.prisma.bodyMeasurement.count({ where: { id: { in: ids } } }),
+      clan: (ids) => this.prisma.clan.count({ where: { id: { in: ids } } }),
+      clanMember: (ids) => this.prisma.clanMember.count({ where: { id: { in: ids } } }),
+      friend: (ids) => this.prisma.friend.count({ where: { id: { in: ids } } }),
+      ringStats: (ids) => this.prisma.ringStats.count({ where: { id: { in: ids } } }),
+    };
+
+    const rows: Reconciliation[] = [];
+    for (const kind of MIGRATION_KINDS) {
+      const ids = [...(this.imported.get(kind) || [])];
+      let found = 0;
+      for (let i = 0; i < ids.length; i += RECONCILE_CHUNK_SIZE) {
+        found += await counters[kind](ids.slice(i, i + RECONCILE_CHUNK_SIZE));
+      }
+      rows.push({ kind, expected: ids.length, found });
+    }
+    return rows;
+  }
+}
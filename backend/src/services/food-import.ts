@@ -0,0 +1,283 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { FOOD_LIMITS, FoodSource, NUTRIENT_KEYS, NUTRIENT_UNITS, NutrientKey, Nutrients } from '../shared/domain';
+import { FoodInput } from './food.service';
+
+// Readers for the open datasets the food database is imported from. Both
+// stream their files, so full exports (millions of rows) fit in memory:
+// - Open Food Facts: the CSV export (en.openfoodfacts.org.products.csv), which
+//   is tab-separated despite its name
+// - USDA FoodData Central: a directory of the CSV download, read from
+//   food.csv, food_nutrient.csv, food_portion.csv and, for branded foods,
+//   branded_food.csv
+// Rows that cannot be used are yielded as skipped with a reason.
+
+export type FoodRow = { food: FoodInput } | { skipped: string; reason: string };
+
+/** Split one CSV line, honouring double quotes; fields spanning lines are not supported */
+export function parseCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields;
+}
+
+/** Rows of a CSV file keyed by its header; the delimiter is taken from the header */
+async function* readCsv(file: string): AsyncGenerator<Record<string, string>> {
+  const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  let header: string[] | null = null;
+  let delimiter = ',';
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    if (!header) {
+      delimiter = line.includes('\t') ? '\t' : ',';
+      header = parseCsvLine(line.replace(/^\uFEFF/, ''), delimiter);
+      continue;
+    }
+
+    const fields = parseCsvLine(line, delimiter);
+    yield Object.fromEntries(header.map((name, index) => [name, fields[index]?.trim() ?? '']));
+  }
+}
+
+const toNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+type Nutrition = Pick<FoodInput, 'calories' | 'carbs' | 'protein' | 'fat'>;
+
+/** Nutrition per 100 g if every value is present and plausible, else the reason it is not */
+function checkNutrition(values: Partial<Nutrition>): Nutrition | string {
+  const { calories, carbs, protein, fat } = values;
+  if (calories === undefined) return 'no energy value';
+  if (calories < 0 || calories > FOOD_LIMITS.calories) return 'implausible energy per 100 g';
+
+  const grams = { carbs: carbs ?? 0, protein: protein ?? 0, fat: fat ?? 0 };
+  for (const [name, value] of Object.entries(grams)) {
+    if (value < 0 || value > FOOD_LIMITS.grams) return `implausible ${name} per 100 g`;
+  }
+
+  return {
+    calories: Math.round(calories),
+    carbs: round(grams.carbs),
+    protein: round(grams.protein),
+    fat: round(grams.fat),
+  };
+}
+
+const GRAMS_PER_UNIT = { g: 1, mg: 1e-3, 'µg': 1e-6 };
+
+/**
+ * The nutrients that are plausible per 100 g, rounded. Unlike calories and
+ * macros a missing or implausible one does not skip the food; it is left out.
+ */
+function checkNutrients(values: Nutrients): Nutrients | undefined {
+  const known = NUTRIENT_KEYS.flatMap((key) => {
+    const value = values[key];
+    if (value === undefined) return [];
+    const grams = value * GRAMS_PER_UNIT[NUTRIENT_UNITS[key]];
+    return grams >= 0 && grams <= FOOD_LIMITS.grams ? [[key, round(value)] as const] : [];
+  });
+  return known.length > 0 ? Object.fromEntries(known) : undefined;
+}
+
+function toRow(
+  source: FoodSource,
+  food: Omit<FoodInput, keyof Nutrition | 'source' | 'nutrients'>,
+  values: Partial<Nutrition>,
+  nutrients: Nutrients = {}
+): FoodRow {
+  const label = `${source}:${food.sourceId}`;
+  if (!food.name) {
+    return { skipped: label, reason: 'no name' };
+  }
+
+  const nutrition = checkNutrition(values);
+  if (typeof nutrition === 'string') {
+    return { skipped: label, reason: nutrition };
+  }
+
+  return { food: { source, ...food, ...nutrition, nutrients: checkNutrients(nutrients) } };
+}
+
+const KJ_PER_KCAL = 4.184;
+
+// Open Food Facts columns of the nutrients, all in grams per 100 g
+const OFF_NUTRIENTS: Record<NutrientKey, string> = {
+  fiber: 'fiber_100g',
+  sugar: 'sugars_100g',
+  saturatedFat: 'saturated-fat_100g',
+  sodium: 'sodium_100g',
+  potassium: 'potassium_100g',
+  cholesterol: 'cholesterol_100g',
+  calcium: 'calcium_100g',
+  iron: 'iron_100g',
+  vitaminA: 'vitamin-a_100g',
+  vitaminC: 'vitamin-c_100g',
+  vitaminD: 'vitamin-d_100g',
+};
+
+/** Products of an Open Food Facts CSV export */
+export async function* readOpenFoodFacts(file: string): AsyncGenerator<FoodRow> {
+  for await (const row of readCsv(file)) {
+    const code = row.code;
+    if (!code) continue;
+
+    const kilojoules = toNumber(row['energy-kj_100g']) ?? toNumber(row['energy_100g']);
+    const servingGrams = toNumber(row.serving_quantity);
+
+    yield toRow(
+      'off',
+      {
+        sourceId: code,
+        name: row.product_name || row.generic_name,
+        brand: row.brands?.split(',')[0].trim() || undefined,
+        barcode: code,
+        servings:
+          servingGrams && servingGrams > 0 ? [{ name: row.serving_size || 'serving', grams: servingGrams }] : [],
+      },
+      {
+        calories:
+          toNumber(row['energy-kcal_100g']) ?? (kilojoules !== undefined ? kilojoules / KJ_PER_KCAL : undefined),
+        carbs: toNumber(row.carbohydrates_100g),
+        protein: toNumber(row.proteins_100g),
+        fat: toNumber(row.fat_100g),
+      },
+      Object.fromEntries(
+        NUTRIENT_KEYS.flatMap((key) => {
+          const grams = toNumber(row[OFF_NUTRIENTS[key]]);
+          return grams === undefined ? [] : [[key, grams / GRAMS_PER_UNIT[NUTRIENT_UNITS[key]]]];
+        })
+      )
+    );
+  }
+}
+
+// FoodData Central nutrient ids, per 100 g. Foundation foods may only carry
+// the Atwater energy values, and carbohydrate by summation.
+const USDA_NUTRIENTS: Record<string, keyof Nutrition> = {
+  '1008': 'calories',
+  '2047': 'calories',
+  '2048': 'calories',
+  '1005': 'carbs',
+  '1050': 'carbs',
+  '1003': 'protein',
+  '1004': 'fat',
+};
+// Preferred when a food carries several ids for the same value
+const USDA_PRIMARY = new Set(['1008', '1005', '1003', '1004']);
+// FoodData Central nutrient ids of the nutrients, already in NUTRIENT_UNITS;
+// vitamin A as retinol activity equivalents
+const USDA_MICRONUTRIENTS: Record<string, NutrientKey> = {
+  '1079': 'fiber',
+  '2000': 'sugar',
+  '1258': 'saturatedFat',
+  '1093': 'sodium',
+  '1092': 'potassium',
+  '1253': 'cholesterol',
+  '1087': 'calcium',
+  '1089': 'iron',
+  '1106': 'vitaminA',
+  '1162': 'vitaminC',
+  '1114': 'vitaminD',
+};
+
+/** Foods of a FoodData Central CSV download */
+export async function* readUsda(directory: string): AsyncGenerator<FoodRow> {
+  const file = (name: string) => path.join(directory, name);
+
+  const nutrition = new Map<string, Partial<Nutrition>>();
+  const nutrients = new Map<string, Nutrients>();
+  for await (const row of readCsv(file('food_nutrient.csv'))) {
+    const amount = toNumber(row.amount);
+    if (amount === undefined) continue;
+
+    const nutrient = USDA_MICRONUTRIENTS[row.nutrient_id];
+    if (nutrient) {
+      nutrients.set(row.fdc_id, { ...nutrients.get(row.fdc_id), [nutrient]: amount });
+      continue;
+    }
+
+    const key = USDA_NUTRIENTS[row.nutrient_id];
+    if (!key) continue;
+
+    const values = nutrition.get(row.fdc_id) ?? {};
+    if (values[key] === undefined || USDA_PRIMARY.has(row.nutrient_id)) {
+      values[key] = amount;
+    }
+    nutrition.set(row.fdc_id, values);
+  }
+
+  const servings = new Map<string, FoodInput['servings']>();
+  const addServing = (fdcId: string, name: string, grams: number | undefined) => {
+    if (!name || !grams || grams <= 0) return;
+    servings.set(fdcId, [...(servings.get(fdcId) ?? []), { name, grams: round(grams) }]);
+  };
+
+  if (fs.existsSync(file('food_portion.csv'))) {
+    for await (const row of readCsv(file('food_portion.csv'))) {
+      const name = row.portion_description || [row.amount, row.modifier].filter(Boolean).join(' ');
+      addServing(row.fdc_id, name, toNumber(row.gram_weight));
+    }
+  }
+
+  const branded = new Map<string, { brand?: string; barcode?: string }>();
+  if (fs.existsSync(file('branded_food.csv'))) {
+    for await (const row of readCsv(file('branded_food.csv'))) {
+      branded.set(row.fdc_id, {
+        brand: row.brand_name || row.brand_owner || undefined,
+        barcode: row.gtin_upc || undefined,
+      });
+      if (row.serving_size_unit?.toLowerCase() === 'g') {
+        addServing(row.fdc_id, row.household_serving_fulltext || 'serving', toNumber(row.serving_size));
+      }
+    }
+  }
+
+  for await (const row of readCsv(file('food.csv'))) {
+    const fdcId = row.fdc_id;
+    if (!fdcId) continue;
+
+    yield toRow(
+      'usda',
+      {
+        sourceId: fdcId,
+        name: row.description,
+        ...branded.get(fdcId),
+        servings: servings.get(fdcId) ?? [],
+      },
+      nutrition.get(fdcId) ?? {},
+      nutrients.get(fdcId)
+    );
+  }
+}
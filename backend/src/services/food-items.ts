@@ -0,0 +1,83 @@
+import { Prisma } from '@prisma/client';
+import { NUTRIENT_KEYS, Nutrients } from '../shared/domain';
+
+// One food with its amount: an item of a meal or an ingredient of a recipe.
+// Whatever lists them takes its totals from them.
+export interface FoodItemInput {
+  name: string;
+  quantity: number;
+  unit: string;
+  calories: number;
+  carbs?: number;
+  protein?: number;
+  fat?: number;
+  nutrients?: Nutrients;
+  foodId?: string | null;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * The known nutrients of a map, rounded; unknown keys are dropped. Prisma's
+ * DbNull when none are left, so a Json column is cleared rather than set to {}.
+ */
+export function toNutrients(nutrients: Nutrients | null | undefined): Nutrients | typeof Prisma.DbNull {
+  const known = NUTRIENT_KEYS.flatMap((key) => {
+    const value = nutrients?.[key];
+    return typeof value === 'number' ? [[key, round(value)] as const] : [];
+  });
+  return known.length > 0 ? Object.fromEntries(known) : Prisma.DbNull;
+}
+
+/** Nutrients of a list of maps added up; a nutrient none of them carries stays missing */
+export function sumNutrients(list: Array<Nutrients | null | undefined>): Nutrients | typeof Prisma.DbNull {
+  const total: Nutrients = {};
+  for (const nutrients of list) {
+    for (const key of NUTRIENT_KEYS) {
+      const value = nutrients?.[key];
+      if (typeof value === 'number') total[key] = (total[key] ?? 0) + value;
+    }
+  }
+  return toNutrients(total);
+}
+
+/**
+ * Rows for a list of items, in order, and, when there are any, the totals
+ * they add up to. References to foods no longer in the food database are
+ * dropped.
+ */
+export async function toFoodItemRows(tx: Prisma.TransactionClient, items: FoodItemInput[]) {
+  const foodIds = items.flatMap((item) => (item.foodId ? [item.foodId] : []));
+  const foods = foodIds.length
+    ? await tx.food.findMany({ where: { id: { in: foodIds } }, select: { id: true } })
+    : [];
+  const known = new Set(foods.map((food) => food.id));
+
+  const rows = items.map((item, position) => ({
+    position,
+    name: item.name,
+    quantity: item.quantity,
+    unit: item.unit,
+    calories: item.calories,
+    carbs: item.carbs ?? 0,
+    protein: item.protein ?? 0,
+    fat: item.fat ?? 0,
+    nutrients: toNutrients(item.nutrients),
+    foodId: item.foodId && known.has(item.foodId) ? item.foodId : null,
+  }));
+
+  const sum = (key: 'calories' | 'carbs' | 'protein' | 'fat') =>
+    round(rows.reduce((total, row) => total + row[key], 0));
+  const totals =
+    rows.length > 0
+      ? {
+          calories: sum('calories'),
+          carbs: sum('carbs'),
+          protein: sum('protein'),
+          fat: sum('fat'),
+          nutrients: sumNutrients(items.map((item) => item.nutrients)),
+        }
+      : undefined;
+
+  return { rows, totals };
+}
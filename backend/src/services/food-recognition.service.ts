@@ -0,0 +1,409 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/error.middleware';
+import {
+  HEALTH_LIMITS,
+  NUTRIENT_KEYS,
+  NUTRIENT_LIMITS,
+  NUTRIENT_UNITS,
+  Nutrients,
+  RECOGNITION_LIMITS,
+  RecognitionImageType,
+} from '../shared/domain';
+
+const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
+const OPENAI_TIMEOUT_MS = 30 * 1000;
+
+// A food photo, base64 encoded
+export interface RecognitionImage {
+  data: string;
+  mimeType: RecognitionImageType;
+}
+
+// One of the user's earlier corrections, sent along with a photo
+export interface RecognitionHint {
+  detectedName: string;
+  name: string;
+  foodId?: string | null;
+  portionFactor?: number;
+}
+
+// A food found on the photo, with the portion it shows
+export interface RecognizedFood {
+  detectedName: string; // as the recognizer named it
+  name: string; // after the user's corrections
+  quantity: number;
+  unit: string;
+  grams: number | null;
+  calories: number;
+  detectedCalories: number; // before the user's correction
+  carbs: number;
+  protein: number;
+  fat: number;
+  nutrients: Nutrients | null;
+  confidence: number; // 0-1
+  foodId: string | null;
+  corrected: boolean;
+}
+
+// The user changed a recognized food before logging it
+export interface FoodCorrectionInput {
+  detectedName: string;
+  name: string;
+  detectedCalories: number;
+  calories: number;
+  foodId?: string | null;
+}
+
+/**
+ * Looks at a food photo. Swap implementations via FOOD_RECOGNITION_PROVIDER.
+ * The answer is untrusted JSON; FoodRecognitionService checks it with
+ * parseRecognition before anything else sees it.
+ */
+export interface FoodRecognitionProvider {
+  readonly name: string;
+  recognize(image: RecognitionImage, hints: RecognitionHint[]): Promise<unknown>;
+}
+
+const nutrientProperties = Object.fromEntries(NUTRIENT_KEYS.map((key) => [key, { type: ['number', 'null'] }]));
+
+// JSON schema of the answer, enforced by OpenAI's structured outputs. Strict
+// mode wants every property required, so unknown nutrients are null.
+const RECOGNITION_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['items'],
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['name', 'quantity', 'unit', 'grams', 'calories', 'carbs', 'protein', 'fat', 'nutrients', 'confidence'],
+        properties: {
+          name: { type: 'string' },
+          quantity: { type: 'number' },
+          unit: { type: 'string' },
+          grams: { type: ['number', 'null'] },
+          calories: { type: 'number' },
+          carbs: { type: 'number' },
+          protein: { type: 'number' },
+          fat: { type: 'number' },
+          nutrients: {
+            type: 'object',
+            additionalProperties: false,
+            required: [...NUTRIENT_KEYS],
+            properties: nutrientProperties,
+          },
+          confidence: { type: 'number' },
+        },
+      },
+    },
+  },
+};
+
+function recognitionPrompt(hints: RecognitionHint[]): string {
+  const units = NUTRIENT_KEYS.map((key) => `${key} in ${NUTRIENT_UNITS[key]}`).join(', ');
+  const lines = [
+    'List every food and drink on this photo as a separate item, with the portion shown.',
+    'For each item give a short name, the quantity and unit of the portion (e.g. 2 × "1 slice", or 150 × "g"),',
+    'its weight in grams if you can tell, and the calories, carbs, protein and fat of that portion in grams.',
+    `Estimate these nutrients of the portion where you can, otherwise use null: ${units}.`,
+    'Confidence is between 0 and 1. Return no items if there is no food on the photo.',
+  ];
+
+  if (hints.length > 0) {
+    lines.push(
+      'This user corrected earlier answers; name foods the way they did:',
+      ...hints.map((hint) => `- "${hint.detectedName}" was "${hint.name}"`)
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/** OpenAI vision model; the key stays on the server (OPENAI_API_KEY) */
+export class OpenAIFoodRecognitionProvider implements FoodRecognitionProvider {
+  readonly name = 'openai';
+
+  constructor(private apiKey: string, private model: string) {}
+
+  async recognize(image: RecognitionImage, hints: RecognitionHint[]): Promise<unknown> {
+    const response = await fetch(OPENAI_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: recognitionPrompt(hints) },
+              { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}`, detail: 'high' } },
+            ],
+          },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'food_recognition', strict: true, schema: RECOGNITION_SCHEMA },
+        },
+        temperature: 0.2,
+      }),
+      signal: AbortSignal.timeout(OPENAI_TIMEOUT_MS),
+    });
+
+    const body: any = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.error?.message || `OpenAI API error: ${response.status}`);
+    }
+
+    const message = body?.choices?.[0]?.message;
+    if (message?.refusal) {
+      throw new Error(`OpenAI refused the photo: ${message.refusal}`);
+    }
+
+    return JSON.parse(message?.content ?? '');
+  }
+}
+
+/**
+ * Answers every photo with the same breakfast, for tests and local
+ * development without an OpenAI key
+ */
+export class MockFoodRecognitionProvider implements FoodRecognitionProvider {
+  readonly name = 'mock';
+
+  async recognize(): Promise<unknown> {
+    return {
+      items: [
+        {
+          name: 'Scrambled eggs',
+          quantity: 2,
+          unit: '1 large egg',
+          grams: 120,
+          calories: 182,
+          carbs: 2,
+          protein: 12.2,
+          fat: 13.4,
+          nutrients: { sodium: 180, cholesterol: 370, vitaminD: 2.4 },
+          confidence: 0.9,
+        },
+        {
+          name: 'Toast',
+          quantity: 1,
+          unit: '1 slice',
+          grams: 30,
+          calories: 80,
+          carbs: 15,
+          protein: 3,
+          fat: 1,
+          nutrients: { fiber: 0.8, sodium: 150 },
+          confidence: 0.8,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Pick a provider from the environment:
+ * FOOD_RECOGNITION_PROVIDER=openai (default; OPENAI_API_KEY, OPENAI_VISION_MODEL
+ * default gpt-4o) or FOOD_RECOGNITION_PROVIDER=mock. Null when the OpenAI
+ * provider has no key, which turns recognition off.
+ */
+export function createFoodRecognitionProvider(): FoodRecognitionProvider | null {
+  const provider = process.env.FOOD_RECOGNITION_PROVIDER || 'openai';
+
+  switch (provider) {
+    case 'openai':
+      return process.env.OPENAI_API_KEY
+        ? new OpenAIFoodRecognitionProvider(process.env.OPENAI_API_KEY, process.env.OPENAI_VISION_MODEL || 'gpt-4o')
+        : null;
+    case 'mock':
+      return new MockFoodRecognitionProvider();
+    default:
+      throw new Error(`Unknown FOOD_RECOGNITION_PROVIDER: ${provider}`);
+  }
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const isNumber = (value: unknown, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max;
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim().slice(0, 200) : '');
+
+type ParsedFood = Omit<RecognizedFood, 'detectedName' | 'detectedCalories' | 'foodId' | 'corrected'>;
+
+/**
+ * The items of a provider's answer that make sense: named, with a positive
+ * quantity and nutrition within the limits of a logged meal. Implausible
+ * nutrients are dropped; an answer that is not an item list is an error.
+ */
+export function parseRecognition(answer: unknown): ParsedFood[] {
+  const items = (answer as { items?: unknown } | null)?.items;
+  if (!Array.isArray(items)) {
+    throw new Error('Food recognition answer has no item list');
+  }
+
+  return items.slice(0, HEALTH_LIMITS.itemsPerMeal).flatMap((item: Record<string, unknown>) => {
+    const name = text(item?.name);
+    const { quantity, calories, carbs = 0, protein = 0, fat = 0 } = item ?? {};
+    if (
+      !name ||
+      !isNumber(quantity, HEALTH_LIMITS.itemQuantity) ||
+      quantity === 0 ||
+      !isNumber(calories, HEALTH_LIMITS.mealCalories) ||
+      ![carbs, protein, fat].every((grams) => isNumber(grams, HEALTH_LIMITS.macroGrams))
+    ) {
+      return [];
+    }
+
+    const reported = (item.nutrients ?? {}) as Record<string, unknown>;
+    const nutrients = Object.fromEntries(
+      NUTRIENT_KEYS.flatMap((key) => {
+        const value = reported[key];
+        return isNumber(value, NUTRIENT_LIMITS[key]) ? [[key, round(value)]] : [];
+      })
+    );
+
+    return [
+      {
+        name,
+        quantity: round(quantity),
+        unit: text(item.unit) || 'serving',
+        grams: isNumber(item.grams, HEALTH_LIMITS.itemQuantity) ? Math.round(item.grams) : null,
+        calories: Math.round(calories),
+        carbs: round(carbs as number),
+        protein: round(protein as number),
+        fat: round(fat as number),
+        nutrients: Object.keys(nutrients).length > 0 ? nutrients : null,
+        confidence: isNumber(item.confidence, 1) ? item.confidence : 0.5,
+      },
+    ];
+  });
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const roundFactor = (factor: number) => Math.round(factor * 100) / 100;
+
+/**
+ * Food recognition from photos. A photo goes to the configured provider with
+ * the user's earlier corrections as hints; foods it names the way the user
+ * corrected before are renamed, and their portion scaled, before the items
+ * are returned. The app sends the hints, since it keeps corrections wherever
+ * its data lives; for API accounts they are stored here.
+ */
+export class FoodRecognitionService {
+  constructor(
+    private prisma: PrismaClient,
+    private provider: FoodRecognitionProvider | null = createFoodRecognitionProvider()
+  ) {}
+
+  async recognize(image: RecognitionImage, hints: RecognitionHint[] = []) {
+    if (!this.provider) {
+      throw new AppError('Food recognition is not configured on this server', 503, 'RECOGNITION_UNAVAILABLE');
+    }
+
+    let answer: unknown;
+    try {
+      answer = await this.provider.recognize(image, hints);
+    } catch (error) {
+      console.error(`Food recognition (${this.provider.name}) error:`, error);
+      throw new AppError('Could not recognize the food, please try again', 502, 'RECOGNITION_FAILED');
+    }
+
+    let recognized;
+    try {
+      recognized = parseRecognition(answer);
+    } catch (error) {
+      console.error(`Food recognition (${this.provider.name}) answer error:`, error);
+      throw new AppError('Could not recognize the food, please try again', 502, 'RECOGNITION_FAILED');
+    }
+
+    const byName = new Map(hints.map((hint) => [normalizeName(hint.detectedName), hint]));
+    const items: RecognizedFood[] = recognized.map((item) => {
+      const hint = byName.get(normalizeName(item.name));
+      if (!hint) {
+        return { ...item, detectedName: item.name, detectedCalories: item.calories, foodId: null, corrected: false };
+      }
+
+      const factor = hint.portionFactor ?? 1;
+      return {
+        ...item,
+        detectedName: item.name,
+        name: hint.name,
+        quantity: round(item.quantity * factor),
+        grams: item.grams === null ? null : Math.round(item.grams * factor),
+        calories: Math.round(item.calories * factor),
+        detectedCalories: item.calories,
+        carbs: round(item.carbs * factor),
+        protein: round(item.protein * factor),
+        fat: round(item.fat * factor),
+        nutrients:
+          item.nutrients &&
+          Object.fromEntries(Object.entries(item.nutrients).map(([key, value]) => [key, round(value! * factor)])),
+        foodId: hint.foodId ?? null,
+        corrected: true,
+      };
+    });
+
+    return { provider: this.provider.name, items };
+  }
+
+  /** The user's corrections, most recent first, as hints for the next photo */
+  async getCorrections(userId: string) {
+    return this.prisma.foodCorrection.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' },
+      take: RECOGNITION_LIMITS.corrections,
+    });
+  }
+
+  /**
+   * Remember what the user changed recognized foods into. The same food
+   * corrected again keeps the latest name and food, and averages the portion.
+   */
+  async saveCorrections(userId: string, corrections: FoodCorrectionInput[]) {
+    const foodIds = corrections.flatMap((correction) => (correction.foodId ? [correction.foodId] : []));
+    const foods = foodIds.length
+      ? await this.prisma.food.findMany({ where: { id: { in: foodIds } }, select: { id: true } })
+      : [];
+    const known = new Set(foods.map((food) => food.id));
+
+    return this.prisma.$transaction(async (tx) => {
+      const saved = [];
+
+      for (const correction of corrections) {
+        const detectedName = normalizeName(correction.detectedName);
+        const foodId = correction.foodId && known.has(correction.foodId) ? correction.foodId : null;
+        const factor =
+          correction.detectedCalories > 0
+            ? Math.min(
+                Math.max(correction.calories / correction.detectedCalories, 1 / RECOGNITION_LIMITS.portionFactor),
+                RECOGNITION_LIMITS.portionFactor
+              )
+            : 1;
+
+        const where = { userId_detectedName: { userId, detectedName } };
+        const existing = await tx.foodCorrection.findUnique({ where });
+        const portionFactor = existing
+          ? (existing.portionFactor * existing.count + factor) / (existing.count + 1)
+          : factor;
+
+        saved.push(
+          await tx.foodCorrection.upsert({
+            where,
+            create: { userId, detectedName, name: correction.name, foodId, portionFactor: roundFactor(portionFactor) },
+            update: { name: correction.name, foodId, portionFactor: roundFactor(portionFactor), count: { increment: 1 } },
+          })
+        );
+      }
+
+      return saved;
+    });
+  }
+}
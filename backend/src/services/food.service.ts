@@ -0,0 +1,150 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/error.middleware';
+import { FoodSource, Nutrients } from '../shared/domain';
+
+// A food as read from a dataset; nutrition is per 100 g
+export interface FoodInput {
+  source: FoodSource;
+  sourceId: string;
+  name: string;
+  brand?: string;
+  barcode?: string;
+  calories: number;
+  carbs: number;
+  protein: number;
+  fat: number;
+  nutrients?: Nutrients;
+  servings: Array<{ name: string; grams: number }>;
+}
+
+export interface FoodImportResult {
+  created: number;
+  updated: number;
+}
+
+// A batch of a few hundred foods takes longer than the default 5 s
+const IMPORT_BATCH_TIMEOUT_MS = 60 * 1000;
+
+// Servings smallest first, as offered when logging a food
+const withServings = {
+  servings: { select: { name: true, grams: true }, orderBy: { grams: 'asc' as const } },
+};
+
+/**
+ * Prefix query for every word, so "gree yog" finds "Greek yoghurt". Words are
+ * reduced to letters and digits, which leaves no tsquery syntax to escape.
+ */
+const toSearchQuery = (query: string): string | null => {
+  const words = query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  return words.length > 0 ? words.map((word) => `${word}:*`).join(' & ') : null;
+};
+
+/**
+ * The ways one barcode is written: scanners read UPC-A codes as 12 digits or
+ * as 13 with a leading zero, and datasets store either.
+ */
+const barcodeVariants = (barcode: string): string[] => {
+  const digits = barcode.replace(/\D/g, '');
+  const trimmed = digits.replace(/^0+/, '');
+  return [...new Set([digits, trimmed, trimmed.padStart(12, '0'), trimmed.padStart(13, '0')])];
+};
+
+/**
+ * The food database: foods imported from open datasets with their nutrition
+ * per 100 g and named serving sizes. Shared by every user and read-only
+ * through the API.
+ */
+export class FoodService {
+  constructor(private prisma: PrismaClient) {}
+
+  /** Foods whose name or brand match every word of the query, best first */
+  async searchFoods(query: string, limit: number = 20) {
+    const tsQuery = toSearchQuery(query);
+    if (!tsQuery) return [];
+
+    const matches = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT id FROM foods
+      WHERE "searchVector" @@ to_tsquery('simple', ${tsQuery})
+      ORDER BY ts_rank("searchVector", to_tsquery('simple', ${tsQuery})) DESC, length(name), name
+      LIMIT ${limit}
+    `;
+    if (matches.length === 0) return [];
+
+    const foods = await this.prisma.food.findMany({
+      where: { id: { in: matches.map((match) => match.id) } },
+      include: withServings,
+    });
+    const byId = new Map(foods.map((food) => [food.id, food]));
+    return matches.map((match) => byId.get(match.id)).filter((food) => food !== undefined);
+  }
+
+  async getFoodByBarcode(barcode: string) {
+    const food = await this.prisma.food.findFirst({
+      where: { barcode: { in: barcodeVariants(barcode) } },
+      include: withServings,
+    });
+
+    if (!food) {
+      throw new AppError('No food found for this barcode', 404, 'NOT_FOUND');
+    }
+
+    return food;
+  }
+
+  async getFood(id: string) {
+    const food = await this.prisma.food.findUnique({ where: { id }, include: withServings });
+
+    if (!food) {
+      throw new AppError('Food not found', 404, 'NOT_FOUND');
+    }
+
+    return food;
+  }
+
+  /**
+   * Add or refresh a batch of foods, matched by source and sourceId. A food's
+   * servings are replaced by those of the batch.
+   */
+  async importFoods(foods: FoodInput[]): Promise<FoodImportResult> {
+    if (foods.length === 0) return { created: 0, updated: 0 };
+
+    const existing = await this.prisma.food.findMany({
+      where: { OR: foods.map(({ source, sourceId }) => ({ source, sourceId })) },
+      select: { source: true, sourceId: true },
+    });
+    const known = new Set(existing.map((food) => `${food.source}:${food.sourceId}`));
+
+    await this.prisma.$transaction(async (tx) => {
+      const ids: string[] = [];
+
+      for (const { servings, ...food } of foods) {
+        const values = {
+          ...food,
+          brand: food.brand ?? null,
+          barcode: food.barcode ?? null,
+          nutrients: food.nutrients ?? Prisma.DbNull,
+        };
+        const { id } = await tx.food.upsert({
+          where: { source_sourceId: { source: food.source, sourceId: food.sourceId } },
+          create: values,
+          update: values,
+          select: { id: true },
+        });
+
+        await tx.foodServing.deleteMany({ where: { foodId: id } });
+        await tx.foodServing.createMany({
+          data: servings.map((serving) => ({ ...serving, foodId: id })),
+          skipDuplicates: true,
+        });
+        ids.push(id);
+      }
+
+      await tx.$executeRaw`
+        UPDATE foods SET "searchVector" = to_tsvector('simple', name || ' ' || coalesce(brand, ''))
+        WHERE id IN (${Prisma.join(ids)})
+      `;
+    }, { timeout: IMPORT_BATCH_TIMEOUT_MS });
+
+    return { created: foods.length - known.size, updated: known.size };
+  }
+}
@@ -0,0 +1,60 @@
+import { PrismaClient, UserGoal } from '@prisma/client';
+import { DEFAULT_GOALS, GOAL_KEYS, Goals } from '../shared/domain';
+
+export type GoalsInput = Partial<Goals> & { effectiveFrom: string };
+
+// effectiveFrom is null while the user has not set goals of their own
+export type ResolvedGoals = Goals & { effectiveFrom: string | null };
+
+const pickGoals = (row: UserGoal): Goals =>
+  Object.fromEntries(GOAL_KEYS.map((key) => [key, row[key]])) as Goals;
+
+/**
+ * Goals are kept as a history of changes: a change applies from its
+ * effectiveFrom day until the next one, and days before the first change
+ * use DEFAULT_GOALS.
+ */
+export class GoalService {
+  constructor(private prisma: PrismaClient) {}
+
+  /** The goals that applied on a day (yyyy-MM-dd) */
+  async getGoals(userId: string, date: string): Promise<ResolvedGoals> {
+    const row = await this.prisma.userGoal.findFirst({
+      where: { userId, effectiveFrom: { lte: date } },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+
+    return row ? { ...pickGoals(row), effectiveFrom: row.effectiveFrom } : { ...DEFAULT_GOALS, effectiveFrom: null };
+  }
+
+  /** Every goal change, oldest first */
+  async getGoalHistory(userId: string) {
+    return this.prisma.userGoal.findMany({
+      where: { userId },
+      orderBy: { effectiveFrom: 'asc' },
+    });
+  }
+
+  /**
+   * Change goals from a day on. Goals left out keep the value that applied
+   * that day; a second change on the same day replaces the first. Later
+   * changes are not affected.
+   */
+  async setGoals(userId: string, input: GoalsInput) {
+    const { effectiveFrom, ...changes } = input;
+    const { effectiveFrom: _current, ...current } = await this.getGoals(userId, effectiveFrom);
+    const goals: Goals = { ...current };
+
+    for (const key of GOAL_KEYS) {
+      if (changes[key] !== undefined) {
+        goals[key] = changes[key] as number;
+      }
+    }
+
+    return this.prisma.userGoal.upsert({
+      where: { userId_effectiveFrom: { userId, effectiveFrom } },
+      create: { userId, effectiveFrom, ...goals },
+      update: goals,
+    });
+  }
+}
@@ -1,10 +1,117 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/error.middleware';
+import { overlapping } from './fasting.service';
+import { FoodItemInput, toFoodItemRows, toNutrients } from './food-items';
+import { assertVersion, guardVersion, versionedWhere } from './versioning';
+import { HealthRangeBucket, MealType, WorkoutType, ExerciseCategory, Nutrients } from '../shared/domain';
+
+// Request bodies as accepted by schemas/health.schema.ts; timestamps are ISO strings.
+// Adds may carry a client-generated id so the app's offline outbox can replay them.
+// Updates may carry the version the client last saw (see services/versioning.ts).
+export interface DailyHealthDataInput {
+  date: string;
+  steps?: number;
+  activeEnergyBurned?: number | null;
+  dietaryEnergyConsumed?: number | null;
+  heartRate?: number | null;
+  restingHeartRate?: number | null;
+}
+
+export interface MealInput {
+  id?: string;
+  type: MealType;
+  name: string;
+  calories: number;
+  carbs?: number;
+  protein?: number;
+  fat?: number;
+  nutrients?: Nutrients;
+  timestamp: string;
+  // A meal sent with items takes its totals from them
+  items?: FoodItemInput[];
+}
+
+export interface MealSuggestionInput {
+  type: MealType;
+  name: string;
+  calories: number;
+  carbs?: number;
+  protein?: number;
+  fat?: number;
+}
+
+export interface WaterEntryInput {
+  id?: string;
+  glasses: number;
+  timestamp: string;
+}
+
+export interface ExerciseInput {
+  name: string;
+  category: ExerciseCategory;
+  duration?: number | null;
+  sets?: number | null;
+  reps?: number | null;
+  weight?: number | null;
+  caloriesBurned?: number | null;
+  notes?: string | null;
+}
+
+export interface LocationPointInput {
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  altitude?: number | null;
+  speed?: number | null;
+  accuracy?: number | null;
+}
+
+export interface WorkoutInput {
+  id?: string;
+  name: string;
+  type: WorkoutType;
+  startTime: string;
+  endTime?: string | null;
+  duration: number;
+  totalCaloriesBurned?: number;
+  distance?: number | null;
+  averageSpeed?: number | null;
+  maxSpeed?: number | null;
+  exercises?: ExerciseInput[];
+  locationPoints?: LocationPointInput[];
+}
+
+export interface HealthRangeRow {
+  start: string; // yyyy-MM-dd, first day of the bucket
+  days: number; // days with logged data or fasting inside the bucket
+  totalSteps: number;
+  avgSteps: number;
+  totalCaloriesConsumed: number;
+  avgCaloriesConsumed: number;
+  totalCaloriesBurned: number;
+  avgCaloriesBurned: number;
+  totalWaterIntake: number;
+  avgWaterIntake: number;
+  totalWorkoutMinutes: number;
+  avgWorkoutMinutes: number;
+  totalFastingHours: number;
+  avgFastingHours: number;
+}
+
+// A meal's items in the order they were logged
+const withItems = {
+  items: { orderBy: { position: 'asc' as const } },
+};
 
 export class HealthService {
   constructor(private prisma: PrismaClient) {}
 
-  async getDailyHealthData(userId: string, date: string) {
-    return this.prisma.dailyHealthData.findUnique({
+  /**
+   * Get a day with its child rows plus every fasting session overlapping it.
+   * tzOffset is the client's Date#getTimezoneOffset() for that day, in minutes.
+   */
+  async getDailyHealthData(userId: string, date: string, tzOffset: number = 0) {
+    const day = await this.prisma.dailyHealthData.findUnique({
       where: {
         userId_date: {
           userId,
@@ -13,6 +120,7 @@ export class HealthService {
       },
       include: {
         meals: {
+          include: withItems,
           orderBy: { timestamp: 'asc' },
         },
         waterEntries: {
@@ -27,9 +135,25 @@ export class HealthService {
           },
           orderBy: { startTime: 'asc' },
         },
-        fastingSession: true,
       },
     });
+
+    if (!day) {
+      return null;
+    }
+
+    const dayStart = new Date(Date.parse(`${date}T00:00:00Z`) + tzOffset * 60 * 1000);
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+    const fastingSessions = await this.prisma.fastingSession.findMany({
+      where: {
+        userId,
+        ...overlapping(dayStart, dayEnd),
+      },
+      orderBy: { startTime: 'asc' },
+    });
+
+    return { ...day, fastingSessions };
   }
 
   async getWeeklyHealthData(userId: string, startDate: string) {
@@ -48,7 +172,7 @@ export class HealthService {
         date: { in: dates },
       },
       include: {
-        meals: true,
+        meals: { include: withItems },
         waterEntries: true,
         workouts: {
           include: {
@@ -56,56 +180,128 @@ export class HealthService {
             locationPoints: true,
           },
         },
-        fastingSession: true,
       },
       orderBy: { date: 'asc' },
     });
   }
 
-  async saveDailyHealthData(userId: string, data: any) {
+  /**
+   * Aggregate daily totals between two dates (inclusive) into day, week or
+   * month buckets. Weeks start on Monday. Averages are per logged day.
+   * Fasting hours are the part of each session overlapping a calendar day,
+   * using the client's tzOffset (Date#getTimezoneOffset(), in minutes).
+   */
+  async getHealthRange(
+    userId: string,
+    from: string,
+    to: string,
+    bucket: HealthRangeBucket,
+    tzOffset: number = 0
+  ) {
+    return this.prisma.$queryRaw<HealthRangeRow[]>`
+      WITH days AS (
+        SELECT
+          gs::date AS "day",
+          gs + make_interval(mins => ${tzOffset}::int) AS "dayStart",
+          gs + interval '1 day' + make_interval(mins => ${tzOffset}::int) AS "dayEnd"
+        FROM generate_series(${from}::date::timestamp, ${to}::date::timestamp, interval '1 day') gs
+      ),
+      fasting AS (
+        SELECT
+          dy."day",
+          SUM(EXTRACT(EPOCH FROM (
+            LEAST(COALESCE(f."endTime", now() AT TIME ZONE 'UTC'), dy."dayEnd") - GREATEST(f."startTime", dy."dayStart")
+          ))) / 3600 AS "hours"
+        FROM days dy
+        JOIN fasting_sessions f
+          ON f."userId" = ${userId}
+          AND f."startTime" < dy."dayEnd"
+          AND COALESCE(f."endTime", now() AT TIME ZONE 'UTC') > dy."dayStart"
+        GROUP BY dy."day"
+      ),
+      workout_minutes AS (
+        SELECT wd."id" AS "dailyHealthDataId", SUM(wo."duration") AS "minutes"
+        FROM daily_health_data wd
+        JOIN workouts wo ON wo."dailyHealthDataId" = wd."id"
+        WHERE wd."userId" = ${userId}
+          AND wd."date" BETWEEN ${from} AND ${to}
+        GROUP BY wd."id"
+      )
+      SELECT
+        to_char(date_trunc(${bucket}, dy."day"::timestamp), 'YYYY-MM-DD') AS "start",
+        COUNT(*)::int AS "days",
+        COALESCE(SUM(d."steps"), 0)::float8 AS "totalSteps",
+        COALESCE(AVG(COALESCE(d."steps", 0)), 0)::float8 AS "avgSteps",
+        COALESCE(SUM(d."caloriesConsumed"), 0)::float8 AS "totalCaloriesConsumed",
+        COALESCE(AVG(COALESCE(d."caloriesConsumed", 0)), 0)::float8 AS "avgCaloriesConsumed",
+        COALESCE(SUM(d."caloriesBurned"), 0)::float8 AS "totalCaloriesBurned",
+        COALESCE(AVG(COALESCE(d."caloriesBurned", 0)), 0)::float8 AS "avgCaloriesBurned",
+        COALESCE(SUM(d."waterIntake"), 0)::float8 AS "totalWaterIntake",
+        COALESCE(AVG(COALESCE(d."waterIntake", 0)), 0)::float8 AS "avgWaterIntake",
+        COALESCE(SUM(w."minutes"), 0)::float8 AS "totalWorkoutMinutes",
+        COALESCE(AVG(COALESCE(w."minutes", 0)), 0)::float8 AS "avgWorkoutMinutes",
+        COALESCE(SUM(fh."hours"), 0)::float8 AS "totalFastingHours",
+        COALESCE(AVG(COALESCE(fh."hours", 0)), 0)::float8 AS "avgFastingHours"
+      FROM days dy
+      LEFT JOIN daily_health_data d
+        ON d."userId" = ${userId}
+        AND d."date" = to_char(dy."day", 'YYYY-MM-DD')
+      LEFT JOIN workout_minutes w ON w."dailyHealthDataId" = d."id"
+      LEFT JOIN fasting fh ON fh."day" = dy."day"
+      WHERE d."id" IS NOT NULL OR fh."day" IS NOT NULL
+      GROUP BY 1
+      ORDER BY 1
+    `;
+  }
+
+  async saveDailyHealthData(userId: string, data: DailyHealthDataInput) {
     const {
       date,
-      caloriesConsumed = 0,
-      caloriesBurned = 0,
       activeEnergyBurned,
       dietaryEnergyConsumed,
       heartRate,
       restingHeartRate,
-      steps = 0,
-      waterIntake = 0,
+      steps,
     } = data;
 
-    return this.prisma.dailyHealthData.upsert({
-      where: {
-        userId_date: {
+    // caloriesConsumed, caloriesBurned and waterIntake are derived from the
+    // day's meals, workouts and water entries, so client totals are ignored.
+    // Omitted fields are left alone so devices reporting different metrics
+    // for the same day do not overwrite each other.
+    const dailyData = await this.prisma.$transaction(async (tx) => {
+      const day = await tx.dailyHealthData.upsert({
+        where: {
+          userId_date: {
+            userId,
+            date,
+          },
+        },
+        update: {
+          activeEnergyBurned,
+          dietaryEnergyConsumed,
+          heartRate,
+          restingHeartRate,
+          steps,
+        },
+        create: {
           userId,
           date,
+          activeEnergyBurned,
+          dietaryEnergyConsumed,
+          heartRate,
+          restingHeartRate,
+          steps,
         },
-      },
-      update: {
-        caloriesConsumed,
-        caloriesBurned,
-        activeEnergyBurned,
-        dietaryEnergyConsumed,
-        heartRate,
-        restingHeartRate,
-        steps,
-        waterIntake,
-      },
-      create: {
-        userId,
-        date,
-        caloriesConsumed,
-        caloriesBurned,
-        activeEnergyBurned,
-        dietaryEnergyConsumed,
-        heartRate,
-        restingHeartRate,
-        steps,
-        waterIntake,
-      },
+      });
+
+      await this.recomputeDailyTotals(tx, day.id);
+      return day;
+    });
+
+    return this.prisma.dailyHealthData.findUnique({
+      where: { id: dailyData.id },
       include: {
-        meals: true,
+        meals: { include: withItems },
         waterEntries: true,
         workouts: {
           include: {
@@ -113,384 +309,437 @@ export class HealthService {
             locationPoints: true,
           },
         },
-        fastingSession: true,
       },
     });
   }
 
-  async addMeal(userId: string, date: string, mealData: any) {
-    // Get or create daily health data
-    let dailyData = await this.getDailyHealthData(userId, date);
-    
-    if (!dailyData) {
-      dailyData = await this.prisma.dailyHealthData.create({
+  async addMeal(userId: string, date: string, mealData: MealInput) {
+    return this.prisma.$transaction(async (tx) => {
+      if (mealData.id) {
+        const existing = await tx.meal.findUnique({
+          where: { id: mealData.id },
+          include: { ...withItems, dailyHealthData: { select: { userId: true } } },
+        });
+        if (existing) {
+          const { dailyHealthData, ...meal } = this.checkReplay(existing, userId);
+          return meal;
+        }
+      }
+
+      const dailyData = await this.ensureDailyHealthData(tx, userId, date);
+      const items = mealData.items && (await toFoodItemRows(tx, mealData.items));
+
+      const meal = await tx.meal.create({
         data: {
-          userId,
-          date,
-          caloriesConsumed: 0,
-          caloriesBurned: 0,
-          steps: 0,
-          waterIntake: 0,
+          id: mealData.id,
+          dailyHealthDataId: dailyData.id,
+          type: mealData.type,
+          name: mealData.name,
+          calories: mealData.calories,
+          carbs: mealData.carbs,
+          protein: mealData.protein,
+          fat: mealData.fat,
+          nutrients: toNutrients(mealData.nutrients),
+          ...items?.totals,
+          timestamp: new Date(mealData.timestamp),
+          items: items && { create: items.rows },
         },
+        include: withItems,
       });
-    }
 
-    const meal = await this.prisma.meal.create({
-      data: {
-        dailyHealthDataId: dailyData.id,
-        type: mealData.type,
-        name: mealData.name,
-        calories: mealData.calories,
-        carbs: mealData.carbs,
-        protein: mealData.protein,
-        fat: mealData.fat,
-        timestamp: new Date(mealData.timestamp),
-      },
+      await this.recomputeDailyTotals(tx, dailyData.id);
+      return meal;
     });
-
-    // Update total calories consumed
-    await this.prisma.dailyHealthData.update({
-      where: { id: dailyData.id },
-      data: {
-        caloriesConsumed: {
-          increment: mealData.calories,
-        },
-      },
-    });
-
-    return meal;
   }
 
-  async updateMeal(mealId: string, mealData: any) {
-    const meal = await this.prisma.meal.findUnique({
-      where: { id: mealId },
-    });
-
-    if (!meal) {
-      throw new Error('Meal not found');
+  async updateMeal(userId: string, mealId: string, mealData: Partial<MealInput> & { version?: number }) {
+    const meal = await this.findOwnedMeal(userId, mealId);
+    assertVersion('Meal', meal, mealData.version);
+
+    const setsTotals = ['calories', 'carbs', 'protein', 'fat', 'nutrients'].some(
+      (key) => mealData[key as keyof MealInput] !== undefined
+    );
+    if (meal.items.length > 0 && !mealData.items && setsTotals) {
+      throw new AppError(
+        'Totals of a meal with items come from its items; send the items instead',
+        400,
+        'VALIDATION_ERROR'
+      );
     }
 
-    const oldCalories = meal.calories;
-    const newCalories = mealData.calories || oldCalories;
-
-    const updated = await this.prisma.meal.update({
-      where: { id: mealId },
-      data: {
-        type: mealData.type,
-        name: mealData.name,
-        calories: mealData.calories,
-        carbs: mealData.carbs,
-        protein: mealData.protein,
-        fat: mealData.fat,
-        timestamp: mealData.timestamp ? new Date(mealData.timestamp) : undefined,
-      },
-    });
-
-    // Update daily calories if changed
-    if (oldCalories !== newCalories) {
-      const dailyData = await this.prisma.dailyHealthData.findUnique({
-        where: { id: meal.dailyHealthDataId },
-      });
-
-      if (dailyData) {
-        await this.prisma.dailyHealthData.update({
-          where: { id: meal.dailyHealthDataId },
+    return guardVersion('Meal', mealData.version, () => this.findOwnedMeal(userId, mealId), () =>
+      this.prisma.$transaction(async (tx) => {
+        // Items are replaced only when the update sends them
+        const items = mealData.items && (await toFoodItemRows(tx, mealData.items));
+        if (items) {
+          await tx.mealItem.deleteMany({
+            where: { mealId },
+          });
+        }
+
+        const updated = await tx.meal.update({
+          where: versionedWhere(mealId, mealData.version),
           data: {
-            caloriesConsumed: dailyData.caloriesConsumed - oldCalories + newCalories,
+            type: mealData.type,
+            name: mealData.name,
+            calories: mealData.calories,
+            carbs: mealData.carbs,
+            protein: mealData.protein,
+            fat: mealData.fat,
+            nutrients: mealData.nutrients && toNutrients(mealData.nutrients),
+            ...items?.totals,
+            timestamp: mealData.timestamp ? new Date(mealData.timestamp) : undefined,
+            version: { increment: 1 },
+            items: items && { create: items.rows },
           },
+          include: withItems,
         });
-      }
-    }
 
-    return updated;
+        await this.recomputeDailyTotals(tx, meal.dailyHealthDataId);
+        return updated;
+      })
+    );
   }
 
-  async deleteMeal(mealId: string) {
-    const meal = await this.prisma.meal.findUnique({
-      where: { id: mealId },
+  async deleteMeal(userId: string, mealId: string) {
+    const meal = await this.findOwnedMeal(userId, mealId);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.meal.delete({
+        where: { id: mealId },
+      });
+
+      await this.recomputeDailyTotals(tx, meal.dailyHealthDataId);
     });
 
-    if (!meal) {
-      throw new Error('Meal not found');
-    }
+    return true;
+  }
 
-    await this.prisma.meal.delete({
-      where: { id: mealId },
+  /** Meals the user logged before, most recently used first */
+  async getMealSuggestions(userId: string) {
+    return this.prisma.mealSuggestion.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' },
     });
+  }
 
-    // Update daily calories
-    const dailyData = await this.prisma.dailyHealthData.findUnique({
-      where: { id: meal.dailyHealthDataId },
+  /** Remember a meal; saving the same type and name again replaces its values */
+  async saveMealSuggestion(userId: string, suggestion: MealSuggestionInput) {
+    const values = {
+      calories: suggestion.calories,
+      carbs: suggestion.carbs || 0,
+      protein: suggestion.protein || 0,
+      fat: suggestion.fat || 0,
+    };
+
+    return this.prisma.mealSuggestion.upsert({
+      where: { userId_type_name: { userId, type: suggestion.type, name: suggestion.name } },
+      create: { userId, type: suggestion.type, name: suggestion.name, ...values },
+      update: values,
     });
+  }
+
+  async addWaterEntry(userId: string, date: string, entryData: WaterEntryInput) {
+    return this.prisma.$transaction(async (tx) => {
+      if (entryData.id) {
+        const existing = await tx.waterEntry.findUnique({
+          where: { id: entryData.id },
+          include: { dailyHealthData: { select: { userId: true } } },
+        });
+        if (existing) {
+          const { dailyHealthData, ...entry } = this.checkReplay(existing, userId);
+          return entry;
+        }
+      }
+
+      const dailyData = await this.ensureDailyHealthData(tx, userId, date);
 
-    if (dailyData) {
-      await this.prisma.dailyHealthData.update({
-        where: { id: meal.dailyHealthDataId },
+      const entry = await tx.waterEntry.create({
         data: {
-          caloriesConsumed: Math.max(0, dailyData.caloriesConsumed - meal.calories),
+          id: entryData.id,
+          dailyHealthDataId: dailyData.id,
+          glasses: entryData.glasses,
+          timestamp: new Date(entryData.timestamp),
         },
       });
-    }
 
-    return true;
+      await this.recomputeDailyTotals(tx, dailyData.id);
+      return entry;
+    });
   }
 
-  async addWaterEntry(userId: string, date: string, entryData: any) {
-    let dailyData = await this.getDailyHealthData(userId, date);
-    
-    if (!dailyData) {
-      dailyData = await this.prisma.dailyHealthData.create({
+  async addWorkout(userId: string, date: string, workoutData: WorkoutInput) {
+    return this.prisma.$transaction(async (tx) => {
+      if (workoutData.id) {
+        const existing = await tx.workout.findUnique({
+          where: { id: workoutData.id },
+          include: {
+            exercises: true,
+            locationPoints: true,
+            dailyHealthData: { select: { userId: true } },
+          },
+        });
+        if (existing) {
+          const { dailyHealthData, ...workout } = this.checkReplay(existing, userId);
+          return workout;
+        }
+      }
+
+      const dailyData = await this.ensureDailyHealthData(tx, userId, date);
+
+      const workout = await tx.workout.create({
         data: {
-          userId,
-          date,
-          caloriesConsumed: 0,
-          caloriesBurned: 0,
-          steps: 0,
-          waterIntake: 0,
+          id: workoutData.id,
+          dailyHealthDataId: dailyData.id,
+          name: workoutData.name,
+          type: workoutData.type,
+          startTime: new Date(workoutData.startTime),
+          endTime: workoutData.endTime ? new Date(workoutData.endTime) : null,
+          duration: workoutData.duration,
+          totalCaloriesBurned: workoutData.totalCaloriesBurned,
+          distance: workoutData.distance,
+          averageSpeed: workoutData.averageSpeed,
+          maxSpeed: workoutData.maxSpeed,
+          exercises: {
+            create: workoutData.exercises?.map((exercise) => ({
+              name: exercise.name,
+              category: exercise.category,
+              duration: exercise.duration,
+              sets: exercise.sets,
+              reps: exercise.reps,
+              weight: exercise.weight,
+              caloriesBurned: exercise.caloriesBurned,
+              notes: exercise.notes,
+            })) || [],
+          },
+          locationPoints: {
+            create: workoutData.locationPoints?.map((point) => ({
+              latitude: point.latitude,
+              longitude: point.longitude,
+              timestamp: new Date(point.timestamp),
+              altitude: point.altitude,
+              speed: point.speed,
+              accuracy: point.accuracy,
+            })) || [],
+          },
+        },
+        include: {
+          exercises: true,
+          locationPoints: true,
         },
       });
-    }
 
-    const entry = await this.prisma.waterEntry.create({
-      data: {
-        dailyHealthDataId: dailyData.id,
-        glasses: entryData.glasses,
-        timestamp: new Date(entryData.timestamp),
-      },
+      await this.recomputeDailyTotals(tx, dailyData.id);
+      return workout;
     });
+  }
 
-    // Update total water intake
-    await this.prisma.dailyHealthData.update({
-      where: { id: dailyData.id },
-      data: {
-        waterIntake: {
-          increment: entryData.glasses,
-        },
-      },
-    });
+  async updateWorkout(userId: string, workoutId: string, workoutData: Partial<WorkoutInput> & { version?: number }) {
+    const reload = () => this.findOwnedWorkout(userId, workoutId, true);
+    const workout = await reload();
+    assertVersion('Workout', workout, workoutData.version);
+
+    return guardVersion('Workout', workoutData.version, reload, () =>
+      this.prisma.$transaction(async (tx) => {
+        // Exercises and location points are replaced only when the update sends them
+        if (workoutData.exercises) {
+          await tx.exercise.deleteMany({
+            where: { workoutId },
+          });
+        }
+        if (workoutData.locationPoints) {
+          await tx.locationPoint.deleteMany({
+            where: { workoutId },
+          });
+        }
+
+        const updated = await tx.workout.update({
+          where: versionedWhere(workoutId, workoutData.version),
+          data: {
+            name: workoutData.name,
+            type: workoutData.type,
+            startTime: workoutData.startTime ? new Date(workoutData.startTime) : undefined,
+            endTime: workoutData.endTime ? new Date(workoutData.endTime) : undefined,
+            duration: workoutData.duration,
+            totalCaloriesBurned: workoutData.totalCaloriesBurned,
+            distance: workoutData.distance,
+            averageSpeed: workoutData.averageSpeed,
+            maxSpeed: workoutData.maxSpeed,
+            version: { increment: 1 },
+            exercises: workoutData.exercises && {
+              create: workoutData.exercises.map((exercise) => ({
+                name: exercise.name,
+                category: exercise.category,
+                duration: exercise.duration,
+                sets: exercise.sets,
+                reps: exercise.reps,
+                weight: exercise.weight,
+                caloriesBurned: exercise.caloriesBurned,
+                notes: exercise.notes,
+              })),
+            },
+            locationPoints: workoutData.locationPoints && {
+              create: workoutData.locationPoints.map((point) => ({
+                latitude: point.latitude,
+                longitude: point.longitude,
+                timestamp: new Date(point.timestamp),
+                altitude: point.altitude,
+                speed: point.speed,
+                accuracy: point.accuracy,
+              })),
+            },
+          },
+          include: {
+            exercises: true,
+            locationPoints: true,
+          },
+        });
 
-    return entry;
+        await this.recomputeDailyTotals(tx, workout.dailyHealthDataId);
+        return updated;
+      })
+    );
   }
 
-  async addWorkout(userId: string, date: string, workoutData: any) {
-    let dailyData = await this.getDailyHealthData(userId, date);
-    
-    if (!dailyData) {
-      dailyData = await this.prisma.dailyHealthData.create({
-        data: {
-          userId,
-          date,
-          caloriesConsumed: 0,
-          caloriesBurned: 0,
-          steps: 0,
-          waterIntake: 0,
-        },
+  async deleteWorkout(userId: string, workoutId: string) {
+    const workout = await this.findOwnedWorkout(userId, workoutId);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.workout.delete({
+        where: { id: workoutId },
       });
-    }
 
-    const workout = await this.prisma.workout.create({
-      data: {
-        dailyHealthDataId: dailyData.id,
-        name: workoutData.name,
-        type: workoutData.type,
-        startTime: new Date(workoutData.startTime),
-        endTime: workoutData.endTime ? new Date(workoutData.endTime) : null,
-        duration: workoutData.duration,
-        totalCaloriesBurned: workoutData.totalCaloriesBurned,
-        distance: workoutData.distance,
-        averageSpeed: workoutData.averageSpeed,
-        maxSpeed: workoutData.maxSpeed,
-        exercises: {
-          create: workoutData.exercises?.map((exercise: any) => ({
-            name: exercise.name,
-            category: exercise.category,
-            duration: exercise.duration,
-            sets: exercise.sets,
-            reps: exercise.reps,
-            weight: exercise.weight,
-            caloriesBurned: exercise.caloriesBurned,
-            notes: exercise.notes,
-          })) || [],
-        },
-        locationPoints: {
-          create: workoutData.locationPoints?.map((point: any) => ({
-            latitude: point.latitude,
-            longitude: point.longitude,
-            timestamp: new Date(point.timestamp),
-            altitude: point.altitude,
-            speed: point.speed,
-            accuracy: point.accuracy,
-          })) || [],
-        },
-      },
-      include: {
-        exercises: true,
-        locationPoints: true,
-      },
+      await this.recomputeDailyTotals(tx, workout.dailyHealthDataId);
     });
 
-    // Update daily calories burned
-    await this.prisma.dailyHealthData.update({
-      where: { id: dailyData.id },
-      data: {
-        caloriesBurned: {
-          increment: workoutData.totalCaloriesBurned,
-        },
-      },
-    });
-
-    return workout;
+    return true;
   }
 
-  async updateWorkout(workoutId: string, workoutData: any) {
-    const workout = await this.prisma.workout.findUnique({
-      where: { id: workoutId },
-      include: { exercises: true, locationPoints: true },
+  /**
+   * Rebuild stored totals for every day matching the filter. Used by the
+   * repair CLI; returns the number of days recomputed.
+   */
+  async recomputeTotals(filter: { userId?: string; from?: string; to?: string } = {}) {
+    const days = await this.prisma.dailyHealthData.findMany({
+      where: {
+        userId: filter.userId,
+        date: {
+          gte: filter.from,
+          lte: filter.to,
+        },
+      },
+      select: { id: true },
+      orderBy: [{ userId: 'asc' }, { date: 'asc' }],
     });
 
-    if (!workout) {
-      throw new Error('Workout not found');
+    for (const day of days) {
+      await this.prisma.$transaction((tx) => this.recomputeDailyTotals(tx, day.id));
     }
 
-    const oldCalories = workout.totalCaloriesBurned;
-    const newCalories = workoutData.totalCaloriesBurned || oldCalories;
+    return days.length;
+  }
 
-    // Delete existing exercises and location points
-    await this.prisma.exercise.deleteMany({
-      where: { workoutId },
+  /**
+   * Derive caloriesConsumed, caloriesBurned and waterIntake from the day's
+   * child rows. caloriesBurned never drops below the device-reported
+   * activeEnergyBurned, which already includes tracked workouts.
+   */
+  private async recomputeDailyTotals(tx: Prisma.TransactionClient, dailyHealthDataId: string) {
+    // Lock the day row so concurrent child writes recompute one at a time
+    await tx.$queryRaw`SELECT 1 FROM daily_health_data WHERE "id" = ${dailyHealthDataId} FOR UPDATE`;
+
+    const meals = await tx.meal.aggregate({
+      where: { dailyHealthDataId },
+      _sum: { calories: true },
     });
-    await this.prisma.locationPoint.deleteMany({
-      where: { workoutId },
+    const water = await tx.waterEntry.aggregate({
+      where: { dailyHealthDataId },
+      _sum: { glasses: true },
+    });
+    const workouts = await tx.workout.aggregate({
+      where: { dailyHealthDataId },
+      _sum: { totalCaloriesBurned: true },
+    });
+    const day = await tx.dailyHealthData.findUnique({
+      where: { id: dailyHealthDataId },
+      select: { activeEnergyBurned: true },
     });
 
-    const updated = await this.prisma.workout.update({
-      where: { id: workoutId },
+    return tx.dailyHealthData.update({
+      where: { id: dailyHealthDataId },
       data: {
-        name: workoutData.name,
-        type: workoutData.type,
-        startTime: workoutData.startTime ? new Date(workoutData.startTime) : undefined,
-        endTime: workoutData.endTime ? new Date(workoutData.endTime) : undefined,
-        duration: workoutData.duration,
-        totalCaloriesBurned: workoutData.totalCaloriesBurned,
-        distance: workoutData.distance,
-        averageSpeed: workoutData.averageSpeed,
-        maxSpeed: workoutData.maxSpeed,
-        exercises: {
-          create: workoutData.exercises?.map((exercise: any) => ({
-            name: exercise.name,
-            category: exercise.category,
-            duration: exercise.duration,
-            sets: exercise.sets,
-            reps: exercise.reps,
-            weight: exercise.weight,
-            caloriesBurned: exercise.caloriesBurned,
-            notes: exercise.notes,
-          })) || [],
-        },
-        locationPoints: {
-          create: workoutData.locationPoints?.map((point: any) => ({
-            latitude: point.latitude,
-            longitude: point.longitude,
-            timestamp: new Date(point.timestamp),
-            altitude: point.altitude,
-            speed: point.speed,
-            accuracy: point.accuracy,
-          })) || [],
+        caloriesConsumed: meals._sum.calories || 0,
+        waterIntake: water._sum.glasses || 0,
+        caloriesBurned: Math.max(workouts._sum.totalCaloriesBurned || 0, day?.activeEnergyBurned || 0),
+      },
+    });
+  }
+
+  private async ensureDailyHealthData(
+    client: Prisma.TransactionClient,
+    userId: string,
+    date: string
+  ) {
+    return client.dailyHealthData.upsert({
+      where: {
+        userId_date: {
+          userId,
+          date,
         },
       },
-      include: {
-        exercises: true,
-        locationPoints: true,
+      update: {},
+      create: {
+        userId,
+        date,
       },
     });
+  }
 
-    // Update daily calories if changed
-    if (oldCalories !== newCalories) {
-      const dailyData = await this.prisma.dailyHealthData.findUnique({
-        where: { id: workout.dailyHealthDataId },
-      });
-
-      if (dailyData) {
-        await this.prisma.dailyHealthData.update({
-          where: { id: workout.dailyHealthDataId },
-          data: {
-            caloriesBurned: dailyData.caloriesBurned - oldCalories + newCalories,
-          },
-        });
-      }
+  /**
+   * An add replayed with an id that already exists returns the stored record
+   * instead of creating a duplicate. Ids are UUIDs, so one owned by another
+   * user means the client reused it.
+   */
+  private checkReplay<T extends { dailyHealthData: { userId: string } }>(record: T, userId: string): T {
+    if (record.dailyHealthData.userId !== userId) {
+      throw new AppError('Record id is already in use', 409, 'ID_CONFLICT');
     }
-
-    return updated;
+    return record;
   }
 
-  async deleteWorkout(workoutId: string) {
-    const workout = await this.prisma.workout.findUnique({
-      where: { id: workoutId },
+  /**
+   * Look up a meal scoped to the user's own days, so a foreign id behaves
+   * exactly like a missing one.
+   */
+  private async findOwnedMeal(userId: string, mealId: string) {
+    const meal = await this.prisma.meal.findFirst({
+      where: {
+        id: mealId,
+        dailyHealthData: { userId },
+      },
+      include: withItems,
     });
 
-    if (!workout) {
-      throw new Error('Workout not found');
+    if (!meal) {
+      throw new AppError('Meal not found', 404, 'NOT_FOUND');
     }
 
-    await this.prisma.workout.delete({
-      where: { id: workoutId },
-    });
+    return meal;
+  }
 
-    // Update daily calories
-    const dailyData = await this.prisma.dailyHealthData.findUnique({
-      where: { id: workout.dailyHealthDataId },
+  private async findOwnedWorkout(userId: string, workoutId: string, withDetails = false) {
+    const workout = await this.prisma.workout.findFirst({
+      where: {
+        id: workoutId,
+        dailyHealthData: { userId },
+      },
+      include: withDetails ? { exercises: true, locationPoints: true } : undefined,
     });
 
-    if (dailyData) {
-      await this.prisma.dailyHealthData.update({
-        where: { id: workout.dailyHealthDataId },
-        data: {
-          caloriesBurned: Math.max(0, dailyData.caloriesBurned - workout.totalCaloriesBurned),
-        },
-      });
-    }
-
-    return true;
-  }
-
-  async saveFastingSession(userId: string, date: string, sessionData: any) {
-    let dailyData = await this.getDailyHealthData(userId, date);
-    
-    if (!dailyData) {
-      dailyData = await this.prisma.dailyHealthData.create({
-        data: {
-          userId,
-          date,
-          caloriesConsumed: 0,
-          caloriesBurned: 0,
-          steps: 0,
-          waterIntake: 0,
-        },
-      });
+    if (!workout) {
+      throw new AppError('Workout not found', 404, 'NOT_FOUND');
     }
 
-    return this.prisma.fastingSession.upsert({
-      where: { dailyHealthDataId: dailyData.id },
-      update: {
-        type: sessionData.type,
-        startTime: new Date(sessionData.startTime),
-        endTime: sessionData.endTime ? new Date(sessionData.endTime) : null,
-        duration: sessionData.duration,
-        targetDuration: sessionData.targetDuration,
-        eatingWindowStart: sessionData.eatingWindowStart,
-        eatingWindowEnd: sessionData.eatingWindowEnd,
-      },
-      create: {
-        dailyHealthDataId: dailyData.id,
-        type: sessionData.type,
-        startTime: new Date(sessionData.startTime),
-        endTime: sessionData.endTime ? new Date(sessionData.endTime) : null,
-        duration: sessionData.duration,
-        targetDuration: sessionData.targetDuration,
-        eatingWindowStart: sessionData.eatingWindowStart,
-        eatingWindowEnd: sessionData.eatingWindowEnd,
-      },
-    });
+    return workout;
   }
 }
-
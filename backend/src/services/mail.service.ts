@@ -0,0 +1,141 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+const APP_URL = process.env.APP_URL || 'healthfitness://';
+const MAIL_FROM = process.env.MAIL_FROM || 'Health Fitness <no-reply@healthfitness.app>';
+const MAIL_HTTP_TIMEOUT_MS = 10_000;
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers outgoing mail. Swap implementations via MAIL_TRANSPORT.
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/** Prints mail to the server log */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(
+      `📧 Mail to ${message.to}\nFrom: ${message.from}\nSubject: ${message.subject}\n\n${message.text}\n`
+    );
+  }
+}
+
+/** Writes each message to its own file, for local testing and scripts */
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9.@_-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * Posts each message as JSON ({ from, to, subject, text }) to an email API,
+ * e.g. https://api.resend.com/emails, with MAIL_HTTP_TOKEN as bearer token
+ */
+export class HttpMailTransport implements MailTransport {
+  constructor(private url: string, private token?: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(MAIL_HTTP_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Mail API error: ${response.status} ${body}`.trim());
+    }
+  }
+}
+
+/**
+ * Pick a transport from the environment:
+ * MAIL_TRANSPORT=http (MAIL_HTTP_URL, MAIL_HTTP_TOKEN) delivers through an
+ * email API and is what production needs; MAIL_TRANSPORT=console or
+ * MAIL_TRANSPORT=file (MAIL_DIR, default ./mail-outbox) keep mail local.
+ * The console transport logs reset and verification tokens, so it is only the
+ * default when NODE_ENV is development or test; elsewhere a transport must be set.
+ */
+export function createMailTransport(): MailTransport {
+  const localDefault = ['development', 'test'].includes(process.env.NODE_ENV || '') ? 'console' : undefined;
+  const transport = process.env.MAIL_TRANSPORT || localDefault;
+
+  switch (transport) {
+    case undefined:
+      throw new Error('MAIL_TRANSPORT is not set; configure a mail transport outside development and test');
+    case 'console':
+      return new ConsoleMailTransport();
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_DIR || path.resolve('mail-outbox'));
+    case 'http':
+      if (!process.env.MAIL_HTTP_URL) {
+        throw new Error('MAIL_HTTP_URL is not set for MAIL_TRANSPORT=http');
+      }
+      return new HttpMailTransport(process.env.MAIL_HTTP_URL, process.env.MAIL_HTTP_TOKEN);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+/**
+ * Account emails sent to users. The transport is picked on the first send,
+ * so a missing mail configuration fails that email, not the server's start.
+ */
+export class MailService {
+  constructor(private transport?: MailTransport) {}
+
+  async send(message: MailMessage) {
+    this.transport ??= createMailTransport();
+    await this.transport.send({ ...message, from: MAIL_FROM });
+  }
+
+  async sendPasswordReset(to: string, token: string, expiresInMinutes: number) {
+    await this.send({
+      to,
+      subject: 'Reset your password',
+      text: [
+        'We received a request to reset your Health Fitness password.',
+        '',
+        `Open this link in the app: ${APP_URL}reset-password?token=${token}`,
+        `Or enter this code on the reset screen: ${token}`,
+        '',
+        `The code expires in ${expiresInMinutes} minutes and can only be used once.`,
+        'If you did not ask for this, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  async sendEmailVerification(to: string, token: string, expiresInHours: number) {
+    await this.send({
+      to,
+      subject: 'Verify your email',
+      text: [
+        'Please confirm the email address for your Health Fitness account.',
+        '',
+        `Open this link in the app: ${APP_URL}verify-email?token=${token}`,
+        `Or enter this code on the verification screen: ${token}`,
+        '',
+        `The code expires in ${expiresInHours} hours.`,
+      ].join('\n'),
+    });
+  }
+}
@@ -0,0 +1,160 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/error.middleware';
+import { FoodItemInput, toFoodItemRows, toNutrients } from './food-items';
+import { assertVersion, guardVersion, versionedWhere } from './versioning';
+import { MealType, Nutrients } from '../shared/domain';
+
+// Request bodies as accepted by schemas/meal-plan.schema.ts
+export interface PlannedMealInput {
+  date: string;
+  type: MealType;
+  name: string;
+  calories: number;
+  carbs?: number;
+  protein?: number;
+  fat?: number;
+  nutrients?: Nutrients;
+  // A planned meal sent with items takes its totals from them
+  items?: FoodItemInput[];
+  loggedMealId?: string | null;
+}
+
+const withItems = {
+  items: { orderBy: { position: 'asc' as const } },
+};
+
+/**
+ * Meals the user plans to eat on a day. Planned meals do not count towards
+ * the day's totals; once eaten, the app logs them as a meal of the day and
+ * records the meal's id on the plan; deleting that meal clears it again.
+ */
+export class MealPlanService {
+  constructor(private prisma: PrismaClient) {}
+
+  /** Planned meals between two dates (inclusive), by date */
+  async getPlannedMeals(userId: string, from: string, to: string) {
+    return this.prisma.plannedMeal.findMany({
+      where: { userId, date: { gte: from, lte: to } },
+      include: withItems,
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async createPlannedMeal(userId: string, input: PlannedMealInput) {
+    await this.assertOwnMeal(userId, input.loggedMealId);
+
+    return this.prisma.$transaction(async (tx) => {
+      const items = input.items && (await toFoodItemRows(tx, input.items));
+
+      return tx.plannedMeal.create({
+        data: {
+          userId,
+          date: input.date,
+          type: input.type,
+          name: input.name,
+          calories: input.calories,
+          carbs: input.carbs,
+          protein: input.protein,
+          fat: input.fat,
+          nutrients: toNutrients(input.nutrients),
+          ...items?.totals,
+          loggedMealId: input.loggedMealId,
+          items: items && { create: items.rows },
+        },
+        include: withItems,
+      });
+    });
+  }
+
+  async updatePlannedMeal(
+    userId: string,
+    plannedMealId: string,
+    input: Partial<PlannedMealInput> & { version?: number }
+  ) {
+    const plannedMeal = await this.findOwnedPlannedMeal(userId, plannedMealId);
+    assertVersion('Planned meal', plannedMeal, input.version);
+    await this.assertOwnMeal(userId, input.loggedMealId);
+
+    const setsTotals = ['calories', 'carbs', 'protein', 'fat', 'nutrients'].some(
+      (key) => input[key as keyof PlannedMealInput] !== undefined
+    );
+    if (plannedMeal.items.length > 0 && !input.items && setsTotals) {
+      throw new AppError(
+        'Totals of a planned meal with items come from its items; send the items instead',
+        400,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    return guardVersion('Planned meal', input.version, () => this.findOwnedPlannedMeal(userId, plannedMealId), () =>
+      this.prisma.$transaction(async (tx) => {
+        // Items are replaced only when the update sends them
+        const items = input.items && (await toFoodItemRows(tx, input.items));
+        if (items) {
+          await tx.plannedMealItem.deleteMany({
+            where: { plannedMealId },
+          });
+        }
+
+        return tx.plannedMeal.update({
+          where: versionedWhere(plannedMealId, input.version),
+          data: {
+            date: input.date,
+            type: input.type,
+            name: input.name,
+            calories: input.calories,
+            carbs: input.carbs,
+            protein: input.protein,
+            fat: input.fat,
+            nutrients: input.nutrients && toNutrients(input.nutrients),
+            ...items?.totals,
+            loggedMealId: input.loggedMealId,
+            version: { increment: 1 },
+            items: items && { create: items.rows },
+          },
+          include: withItems,
+        });
+      })
+    );
+  }
+
+  async deletePlannedMeal(userId: string, plannedMealId: string) {
+    await this.findOwnedPlannedMeal(userId, plannedMealId);
+
+    await this.prisma.plannedMeal.delete({
+      where: { id: plannedMealId },
+    });
+
+    return true;
+  }
+
+  /**
+   * A plan may only be marked logged as one of the user's own meals; a
+   * foreign id is rejected like a missing one. Null clears the mark.
+   */
+  private async assertOwnMeal(userId: string, mealId?: string | null) {
+    if (!mealId) return;
+
+    const meal = await this.prisma.meal.findFirst({
+      where: { id: mealId, dailyHealthData: { userId } },
+      select: { id: true },
+    });
+
+    if (!meal) {
+      throw new AppError('loggedMealId must be one of your meals', 400, 'VALIDATION_ERROR');
+    }
+  }
+
+  private async findOwnedPlannedMeal(userId: string, plannedMealId: string) {
+    const plannedMeal = await this.prisma.plannedMeal.findFirst({
+      where: { id: plannedMealId, userId },
+      include: withItems,
+    });
+
+    if (!plannedMeal) {
+      throw new AppError('Planned meal not found', 404, 'NOT_FOUND');
+    }
+
+    return plannedMeal;
+  }
+}
@@ -0,0 +1,86 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/error.middleware';
+import { MEASUREMENT_KEYS, MeasurementKey } from '../shared/domain';
+
+// Values left out keep what was logged that day; null clears one
+export type MeasurementInput = Partial<Record<MeasurementKey, number | null>> & { date: string };
+
+/**
+ * Body measurements, one row per day. The profile's weight follows the
+ * latest logged weight, so calculations that only know the profile stay
+ * current.
+ */
+export class MeasurementService {
+  constructor(private prisma: PrismaClient) {}
+
+  /** Measurements between two days (yyyy-MM-dd, inclusive, either open), oldest first */
+  async getMeasurements(userId: string, from?: string, to?: string) {
+    return this.prisma.bodyMeasurement.findMany({
+      where: { userId, date: { gte: from, lte: to } },
+      orderBy: { date: 'asc' },
+    });
+  }
+
+  async saveMeasurement(userId: string, input: MeasurementInput) {
+    const { date, ...changes } = input;
+    const values: Partial<Record<MeasurementKey, number | null>> = {};
+    for (const key of MEASUREMENT_KEYS) {
+      if (changes[key] !== undefined) {
+        values[key] = changes[key];
+      }
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const existing = await tx.bodyMeasurement.findUnique({
+        where: { userId_date: { userId, date } },
+      });
+      if (MEASUREMENT_KEYS.every((key) => (key in values ? values[key] : existing?.[key]) == null)) {
+        throw new AppError('Log at least one measurement, or delete the day', 400, 'VALIDATION_ERROR');
+      }
+
+      const measurement = await tx.bodyMeasurement.upsert({
+        where: { userId_date: { userId, date } },
+        create: { userId, date, ...values },
+        update: values,
+      });
+
+      if (values.weight !== undefined) {
+        await this.syncProfileWeight(tx, userId);
+      }
+      return measurement;
+    });
+  }
+
+  async deleteMeasurement(userId: string, date: string) {
+    await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.bodyMeasurement.findUnique({
+        where: { userId_date: { userId, date } },
+      });
+      if (!existing) {
+        throw new AppError('No measurements logged on that day', 404, 'NOT_FOUND');
+      }
+
+      await tx.bodyMeasurement.delete({ where: { id: existing.id } });
+      if (existing.weight !== null) {
+        await this.syncProfileWeight(tx, userId);
+      }
+    });
+
+    return true;
+  }
+
+  // Keeps the profile's weight when no weight is logged any more
+  private async syncProfileWeight(tx: Prisma.TransactionClient, userId: string) {
+    const latest = await tx.bodyMeasurement.findFirst({
+      where: { userId, weight: { not: null } },
+      orderBy: { date: 'desc' },
+    });
+
+    if (latest) {
+      await tx.userProfile.updateMany({
+        where: { userId },
+        data: { weight: latest.weight },
+      });
+    }
+  }
+}
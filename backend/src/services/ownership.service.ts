@@ -0,0 +1,45 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Resolves which user owns a health record.
+ * Meals and workouts only reference their DailyHealthData parent, so the
+ * owner is the userId of that day. Fasting sessions belong to a user directly.
+ */
+export class OwnershipService {
+  constructor(private prisma: PrismaClient) {}
+
+  async getMealOwnerId(mealId: string): Promise<string | null> {
+    const meal = await this.prisma.meal.findUnique({
+      where: { id: mealId },
+      select: {
+        dailyHealthData: {
+          select: { userId: true },
+        },
+      },
+    });
+
+    return meal?.dailyHealthData.userId ?? null;
+  }
+
+  async getWorkoutOwnerId(workoutId: string): Promise<string | null> {
+    const workout = await this.prisma.workout.findUnique({
+      where: { id: workoutId },
+      select: {
+        dailyHealthData: {
+          select: { userId: true },
+        },
+      },
+    });
+
+    return workout?.dailyHealthData.userId ?? null;
+  }
+
+  async getFastingSessionOwnerId(sessionId: string): Promise<string | null> {
+    const session = await this.prisma.fastingSession.findUnique({
+      where: { id: sessionId },
+      select: { userId: true },
+    });
+
+    return session?.userId ?? null;
+  }
+}
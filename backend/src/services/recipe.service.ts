@@ -0,0 +1,228 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/error.middleware';
+import { FoodItemInput, toFoodItemRows } from './food-items';
+import { assertVersion, guardVersion, versionedWhere } from './versioning';
+
+// Request bodies as accepted by schemas/recipe.schema.ts
+export interface RecipeInput {
+  name: string;
+  servings: number;
+  ingredients: FoodItemInput[];
+}
+
+// Exactly one of them: a friend, or a clan the author is an active member of
+export interface RecipeShareInput {
+  friendUid?: string;
+  clanId?: string;
+}
+
+const recipeInclude = {
+  ingredients: { orderBy: { position: 'asc' as const } },
+  shares: { select: { userId: true, clanId: true } },
+  user: { select: { id: true, displayName: true } },
+};
+
+/** Recipes the user may read: their own, and those shared with them or with a clan they are active in */
+function readableBy(userId: string): Prisma.RecipeWhereInput {
+  return {
+    OR: [
+      { userId },
+      { shares: { some: { userId } } },
+      { shares: { some: { clan: { members: { some: { uid: userId, status: 'active' } } } } } },
+    ],
+  };
+}
+
+/**
+ * Recipes: ingredients with their nutrition, cooked into a number of
+ * servings. Calories and macros are stored for the whole recipe; the app
+ * divides them by servings. Only the author changes a recipe; sharing lets
+ * friends and clan members read it and log servings of it as their own meals.
+ */
+export class RecipeService {
+  constructor(private prisma: PrismaClient) {}
+
+  async getRecipes(userId: string) {
+    return this.prisma.recipe.findMany({
+      where: readableBy(userId),
+      include: recipeInclude,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async getRecipe(userId: string, recipeId: string) {
+    const recipe = await this.prisma.recipe.findFirst({
+      where: { id: recipeId, ...readableBy(userId) },
+      include: recipeInclude,
+    });
+
+    if (!recipe) {
+      throw new AppError('Recipe not found', 404, 'NOT_FOUND');
+    }
+
+    return recipe;
+  }
+
+  async createRecipe(userId: string, input: RecipeInput) {
+    return this.prisma.$transaction(async (tx) => {
+      const ingredients = await this.toIngredients(tx, input.ingredients);
+
+      return tx.recipe.create({
+        data: {
+          userId,
+          name: input.name,
+          servings: input.servings,
+          ...ingredients.totals,
+          ingredients: { create: ingredients.rows },
+        },
+        include: recipeInclude,
+      });
+    });
+  }
+
+  async updateRecipe(userId: string, recipeId: string, input: Partial<RecipeInput> & { version?: number }) {
+    const recipe = await this.findOwnedRecipe(userId, recipeId);
+    assertVersion('Recipe', recipe, input.version);
+
+    return guardVersion('Recipe', input.version, () => this.findOwnedRecipe(userId, recipeId), () =>
+      this.prisma.$transaction(async (tx) => {
+        // Ingredients are replaced only when the update sends them
+        const ingredients = input.ingredients && (await this.toIngredients(tx, input.ingredients));
+        if (ingredients) {
+          await tx.recipeIngredient.deleteMany({
+            where: { recipeId },
+          });
+        }
+
+        return tx.recipe.update({
+          where: versionedWhere(recipeId, input.version),
+          data: {
+            name: input.name,
+            servings: input.servings,
+            ...ingredients?.totals,
+            version: { increment: 1 },
+            ingredients: ingredients && { create: ingredients.rows },
+          },
+          include: recipeInclude,
+        });
+      })
+    );
+  }
+
+  async deleteRecipe(userId: string, recipeId: string) {
+    await this.findOwnedRecipe(userId, recipeId);
+
+    await this.prisma.recipe.delete({
+      where: { id: recipeId },
+    });
+
+    return true;
+  }
+
+  /**
+   * Share a recipe with a friend or with a clan the author is an active
+   * member of. Returns the recipe and the notification sent to whoever gains
+   * access: the friend, or the clan's other active members. Sharing again
+   * with the same friend or clan changes nothing and notifies no one.
+   */
+  async shareRecipe(userId: string, recipeId: string, target: RecipeShareInput) {
+    const { friendUid, clanId } = target;
+    if (!friendUid === !clanId) {
+      throw new AppError('Share with either a friend or a clan', 400, 'VALIDATION_ERROR');
+    }
+
+    const recipe = await this.findOwnedRecipe(userId, recipeId);
+    const recipientUids = friendUid
+      ? await this.friendRecipient(userId, friendUid)
+      : await this.clanRecipients(userId, clanId!);
+
+    const existing = await this.prisma.recipeShare.findFirst({
+      where: friendUid ? { recipeId, userId: friendUid } : { recipeId, clanId },
+    });
+    if (existing) {
+      return { recipe: await this.getRecipe(userId, recipeId), notification: null, recipientUids: [] };
+    }
+
+    const author = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { displayName: true },
+    });
+    const notification = {
+      type: 'RECIPE_SHARED',
+      title: 'Recipe shared with you',
+      body: `${author?.displayName || 'A friend'} shared the recipe ${recipe.name}`,
+      data: { fromUid: userId, recipeId, ...(clanId && { clanId }) },
+    };
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.recipeShare.create({
+        data: { recipeId, userId: friendUid, clanId, sharedByUid: userId },
+      });
+
+      if (recipientUids.length > 0) {
+        await tx.notification.createMany({
+          data: recipientUids.map((uid) => ({
+            userId: uid,
+            type: notification.type,
+            title: notification.title,
+            body: notification.body,
+            data: JSON.stringify(notification.data),
+          })),
+        });
+      }
+    });
+
+    return { recipe: await this.getRecipe(userId, recipeId), notification, recipientUids };
+  }
+
+  private async toIngredients(tx: Prisma.TransactionClient, ingredients: FoodItemInput[]) {
+    const { rows, totals } = await toFoodItemRows(tx, ingredients);
+    if (!totals) {
+      throw new AppError('A recipe needs at least one ingredient', 400, 'VALIDATION_ERROR');
+    }
+
+    return { rows, totals };
+  }
+
+  private async friendRecipient(userId: string, friendUid: string) {
+    const friend = await this.prisma.friend.findUnique({
+      where: { userId_friendUid: { userId, friendUid } },
+    });
+
+    if (!friend) {
+      throw new AppError('Recipes can only be shared with friends', 403, 'FORBIDDEN');
+    }
+
+    return [friendUid];
+  }
+
+  private async clanRecipients(userId: string, clanId: string) {
+    const members = await this.prisma.clanMember.findMany({
+      where: { clanId, status: 'active' },
+      select: { uid: true },
+    });
+
+    if (!members.some((member) => member.uid === userId)) {
+      throw new AppError('Recipes can only be shared with your own clans', 403, 'FORBIDDEN');
+    }
+
+    return members.map((member) => member.uid).filter((uid) => uid !== userId);
+  }
+
+  /**
+   * Look up a recipe the user wrote. Recipes shared with the user are
+   * read-only, so for changes they behave exactly like missing ones.
+   */
+  private async findOwnedRecipe(userId: string, recipeId: string) {
+    const recipe = await this.prisma.recipe.findFirst({
+      where: { id: recipeId, userId },
+      include: recipeInclude,
+    });
+
+    if (!recipe) {
+      throw new AppError('Recipe not found', 404, 'NOT_FOUND');
+    }
+
+    return recipe;
+  }
+}
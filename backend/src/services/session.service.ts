@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/error.middleware';
+
+const REFRESH_TOKEN_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+export interface SessionMeta {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedRefreshToken {
+  userId: string;
+  sessionId: string;
+  refreshToken: string;
+}
+
+/**
+ * Parse a lifetime such as "7d", "12h" or "30m" into milliseconds
+ */
+function parseDuration(value: string): number {
+  const match = /^(\d+)\s*([smhd])$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+  return parseInt(match[1]) * DURATION_UNITS[match[2]];
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Device sessions backed by rotating refresh tokens.
+ * A session is a token family: the id returned to clients is the familyId.
+ */
+export class SessionService {
+  private ttl = parseDuration(REFRESH_TOKEN_EXPIRES_IN);
+
+  constructor(private prisma: PrismaClient) {}
+
+  /** Start a new session for a sign-in */
+  async createSession(userId: string, meta: SessionMeta = {}): Promise<IssuedRefreshToken> {
+    const familyId = crypto.randomUUID();
+    const { refreshToken } = await this.issue(this.prisma, userId, familyId, meta);
+    return { userId, sessionId: familyId, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one in the same family.
+   * Reusing a token that was already rotated revokes the whole family.
+   */
+  async rotate(token: string, meta: SessionMeta = {}): Promise<IssuedRefreshToken> {
+    const existing = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!existing) {
+      throw new AppError('Invalid refresh token', 401, 'INVALID_TOKEN');
+    }
+
+    if (existing.revokedAt) {
+      if (existing.replacedById) {
+        await this.revokeFamily(existing.familyId);
+        throw new AppError('Refresh token reuse detected', 401, 'TOKEN_REUSED');
+      }
+      throw new AppError('Session has been revoked', 401, 'INVALID_TOKEN');
+    }
+
+    if (existing.expiresAt <= new Date()) {
+      throw new AppError('Refresh token has expired', 401, 'TOKEN_EXPIRED');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      // Claim the token atomically so two concurrent refreshes cannot both win
+      const claimed = await tx.refreshToken.updateMany({
+        where: { id: existing.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        throw new AppError('Refresh token reuse detected', 401, 'TOKEN_REUSED');
+      }
+
+      const next = await this.issue(tx, existing.userId, existing.familyId, {
+        userAgent: meta.userAgent ?? existing.userAgent ?? undefined,
+        ipAddress: meta.ipAddress ?? existing.ipAddress ?? undefined,
+      });
+
+      await tx.refreshToken.update({
+        where: { id: existing.id },
+        data: { replacedById: next.id },
+      });
+
+      return { userId: existing.userId, sessionId: existing.familyId, refreshToken: next.refreshToken };
+    });
+  }
+
+  /** Active sessions for a user, most recently used first */
+  async listSessions(userId: string) {
+    const active = await this.prisma.refreshToken.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const started = await this.prisma.refreshToken.groupBy({
+      by: ['familyId'],
+      where: { familyId: { in: active.map((token) => token.familyId) } },
+      _min: { createdAt: true },
+    });
+    const startedAt = new Map(started.map((family) => [family.familyId, family._min.createdAt]));
+
+    return active.map((token) => ({
+      id: token.familyId,
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      createdAt: startedAt.get(token.familyId) ?? token.createdAt,
+      lastUsedAt: token.createdAt,
+      expiresAt: token.expiresAt,
+    }));
+  }
+
+  /** Revoke one of the user's sessions */
+  async revokeSession(userId: string, sessionId: string) {
+    const result = await this.prisma.refreshToken.updateMany({
+      where: { userId, familyId: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      throw new AppError('Session not found', 404, 'NOT_FOUND');
+    }
+
+    return true;
+  }
+
+  /** Revoke the session a refresh token belongs to (sign out) */
+  async revokeByToken(token: string) {
+    const existing = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: { familyId: true },
+    });
+
+    if (existing) {
+      await this.revokeFamily(existing.familyId);
+    }
+
+    return true;
+  }
+
+  /** Revoke every session of a user (sign out everywhere) */
+  async revokeAll(userId: string) {
+    const result = await this.prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count;
+  }
+
+  private async revokeFamily(familyId: string) {
+    await this.prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  private async issue(
+    client: Prisma.TransactionClient,
+    userId: string,
+    familyId: string,
+    meta: SessionMeta
+  ) {
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+
+    const created = await client.refreshToken.create({
+      data: {
+        userId,
+        familyId,
+        tokenHash: hashToken(refreshToken),
+        userAgent: meta.userAgent,
+        ipAddress: meta.ipAddress,
+        expiresAt: new Date(Date.now() + this.ttl),
+      },
+    });
+
+    return { id: created.id, refreshToken };
+  }
+}
@@ -1,5 +1,18 @@
 import { PrismaClient } from '@prisma/client';
 
+export interface ClanHandover {
+  clanId: string;
+  name: string;
+  newOwnerUid: string | null; // null when the clan was dissolved
+  memberUids: string[];
+}
+
+export interface DeletedAccount {
+  userId: string;
+  friendUids: string[];
+  clans: ClanHandover[];
+}
+
 export class UserService {
   constructor(private prisma: PrismaClient) {}
 
@@ -52,6 +65,29 @@ export class UserService {
     });
   }
 
+  /**
+   * Count a wrong password. Once maxAttempts is reached the account is locked
+   * for lockoutMs and the counter starts over; returns the lock expiry if locked.
+   */
+  async recordFailedLogin(userId: string, maxAttempts: number, lockoutMs: number): Promise<Date | null> {
+    const { failedLoginAttempts } = await this.prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+
+    if (failedLoginAttempts < maxAttempts) {
+      return null;
+    }
+
+    const lockedUntil = new Date(Date.now() + lockoutMs);
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: 0, lockedUntil },
+    });
+    return lockedUntil;
+  }
+
   async updateProfile(userId: string, profileData: {
     age?: number;
     weight?: number;
@@ -108,5 +144,188 @@ export class UserService {
       orderBy: { displayName: 'asc' },
     });
   }
-}
 
+  /**
+   * Everything stored about a user, for download.
+   * Password and token hashes are left out.
+   */
+  async exportUserData(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        profile: true,
+        privacy: true,
+        dailyHealthData: {
+          include: {
+            meals: { include: { items: { orderBy: { position: 'asc' } } } },
+            waterEntries: true,
+            workouts: {
+              include: {
+                exercises: true,
+                locationPoints: { orderBy: { timestamp: 'asc' } },
+              },
+            },
+          },
+          orderBy: { date: 'asc' },
+        },
+        fastingSessions: { orderBy: { startTime: 'asc' } },
+        mealSuggestions: { orderBy: { updatedAt: 'desc' } },
+        plannedMeals: {
+          include: { items: { orderBy: { position: 'asc' } } },
+          orderBy: { date: 'asc' },
+        },
+        recipes: {
+          include: {
+            ingredients: { orderBy: { position: 'asc' } },
+            shares: { select: { userId: true, clanId: true, createdAt: true } },
+          },
+          orderBy: { name: 'asc' },
+        },
+        foodCorrections: { orderBy: { updatedAt: 'desc' } },
+        goals: { orderBy: { effectiveFrom: 'asc' } },
+        bodyMeasurements: { orderBy: { date: 'asc' } },
+        friends: {
+          include: { friend: { select: { id: true, displayName: true } } },
+        },
+        sentRequests: true,
+        receivedRequests: true,
+        ownedClans: true,
+        clanMembers: {
+          include: { clan: { select: { id: true, name: true } } },
+        },
+        sentClanInvites: true,
+        receivedClanInvites: true,
+        notifications: { orderBy: { createdAt: 'asc' } },
+        blockedUsers: true,
+        ringStats: { orderBy: { date: 'asc' } },
+        refreshTokens: {
+          select: { familyId: true, userAgent: true, ipAddress: true, createdAt: true, revokedAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    const {
+      passwordHash: _passwordHash,
+      dailyHealthData,
+      fastingSessions,
+      mealSuggestions,
+      plannedMeals,
+      recipes,
+      foodCorrections,
+      goals,
+      bodyMeasurements,
+      friends,
+      sentRequests,
+      receivedRequests,
+      ownedClans,
+      clanMembers,
+      sentClanInvites,
+      receivedClanInvites,
+      notifications,
+      blockedUsers,
+      ringStats,
+      refreshTokens,
+      ...account
+    } = user;
+
+    return {
+      exportedAt: new Date().toISOString(),
+      account,
+      health: {
+        days: dailyHealthData,
+        fastingSessions,
+        mealSuggestions,
+        plannedMeals,
+        recipes,
+        foodCorrections,
+        ringStats,
+        goals,
+        bodyMeasurements,
+      },
+      community: {
+        friends,
+        friendRequests: { sent: sentRequests, received: receivedRequests },
+        ownedClans,
+        clanMemberships: clanMembers,
+        clanInvites: { sent: sentClanInvites, received: receivedClanInvites },
+        blockedUsers,
+      },
+      notifications: notifications.map((notification) => ({
+        ...notification,
+        data: JSON.parse(notification.data || '{}'),
+      })),
+      signIns: refreshTokens,
+    };
+  }
+
+  /**
+   * Delete a user and everything that belongs to them.
+   * Owned clans pass to the longest-serving admin, then the longest-serving
+   * member; clans with nobody left are dissolved. Remaining rows cascade.
+   */
+  async deleteAccount(userId: string): Promise<DeletedAccount> {
+    return this.prisma.$transaction(async (tx) => {
+      const friendships = await tx.friend.findMany({
+        where: { OR: [{ userId }, { friendUid: userId }] },
+        select: { userId: true, friendUid: true },
+      });
+      const friendUids = [
+        ...new Set(friendships.map((f) => (f.userId === userId ? f.friendUid : f.userId))),
+      ];
+
+      const ownedClans = await tx.clan.findMany({
+        where: { ownerUid: userId },
+        include: {
+          members: {
+            where: { uid: { not: userId }, status: 'active' },
+            orderBy: { joinedAt: 'asc' },
+          },
+        },
+      });
+
+      const clans: ClanHandover[] = [];
+      for (const clan of ownedClans) {
+        const successor = clan.members.find((m) => m.role === 'admin') ?? clan.members[0];
+        const memberUids = clan.members.map((m) => m.uid);
+
+        if (successor) {
+          await tx.clan.update({
+            where: { id: clan.id },
+            data: { ownerUid: successor.uid },
+          });
+          await tx.clanMember.update({
+            where: { id: successor.id },
+            data: { role: 'owner' },
+          });
+          await tx.notification.create({
+            data: {
+              userId: successor.uid,
+              type: 'CLAN_OWNERSHIP_TRANSFERRED',
+              title: 'You are now clan owner',
+              body: `You are now the owner of ${clan.name}`,
+              data: JSON.stringify({ clanId: clan.id }),
+            },
+          });
+        } else {
+          await tx.clan.delete({ where: { id: clan.id } });
+        }
+
+        clans.push({
+          clanId: clan.id,
+          name: clan.name,
+          newOwnerUid: successor?.uid ?? null,
+          memberUids,
+        });
+      }
+
+      await tx.user.delete({ where: { id: userId } });
+
+      return { userId, friendUids, clans };
+    });
+  }
+}
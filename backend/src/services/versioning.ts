@@ -0,0 +1,53 @@
+import { Prisma } from '@prisma/client';
+import { AppError } from '../middleware/error.middleware';
+
+/**
+ * Optimistic concurrency for records edited from several devices. Every
+ * update bumps `version`; a client that sends the version it last saw gets a
+ * 409 VERSION_CONFLICT carrying the current record when another device got
+ * there first. Requests without a version keep last-write-wins.
+ */
+
+interface Versioned {
+  version: number;
+}
+
+export function versionConflict(resource: string, current: Versioned): AppError {
+  return new AppError(`${resource} was changed on another device`, 409, 'VERSION_CONFLICT', current);
+}
+
+export function assertVersion(resource: string, current: Versioned, expected?: number) {
+  if (expected !== undefined && expected !== current.version) {
+    throw versionConflict(resource, current);
+  }
+}
+
+/** Unique where clause that only matches while the record is still at `expected` */
+export function versionedWhere(id: string, expected?: number) {
+  return expected === undefined ? { id } : { id, version: expected };
+}
+
+/**
+ * Run a versioned update. If another write landed between the version check
+ * and the update, the guarded where clause matches nothing (P2025); the
+ * record is reloaded so the client can merge against it.
+ */
+export async function guardVersion<T>(
+  resource: string,
+  expected: number | undefined,
+  reload: () => Promise<Versioned>,
+  update: () => Promise<T>
+): Promise<T> {
+  try {
+    return await update();
+  } catch (error) {
+    if (
+      expected !== undefined &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      throw versionConflict(resource, await reload());
+    }
+    throw error;
+  }
+}
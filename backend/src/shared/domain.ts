@@ -0,0 +1,197 @@
+// Values shared by the API request schemas and the app's types/index.ts.
+// Keep this file free of imports so both projects can compile it.
+
+export const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+export type MealType = (typeof MEAL_TYPES)[number];
+
+export const WORKOUT_TYPES = [
+  'cardio',
+  'strength',
+  'hiit',
+  'yoga',
+  'pilates',
+  'running',
+  'cycling',
+  'walking',
+  'swimming',
+  'other',
+] as const;
+export type WorkoutType = (typeof WORKOUT_TYPES)[number];
+
+export const EXERCISE_CATEGORIES = ['cardio', 'strength', 'flexibility', 'sports', 'other'] as const;
+export type ExerciseCategory = (typeof EXERCISE_CATEGORIES)[number];
+
+export const ACTIVITY_LEVELS = ['sedentary', 'light', 'moderate', 'active', 'very_active'] as const;
+export type ActivityLevel = (typeof ACTIVITY_LEVELS)[number];
+
+export const GENDERS = ['male', 'female', 'other'] as const;
+export type Gender = (typeof GENDERS)[number];
+
+export const HEALTH_RANGE_BUCKETS = ['day', 'week', 'month'] as const;
+export type HealthRangeBucket = (typeof HEALTH_RANGE_BUCKETS)[number];
+
+export const RINGS_VISIBILITY = ['public', 'friends', 'clan', 'private'] as const;
+export type RingsVisibility = (typeof RINGS_VISIBILITY)[number];
+
+export const CLAN_PRIVACY = ['inviteOnly', 'friendsOnly'] as const;
+export type ClanPrivacy = (typeof CLAN_PRIVACY)[number];
+
+export const CLAN_ROLES = ['owner', 'admin', 'member'] as const;
+export type ClanRole = (typeof CLAN_ROLES)[number];
+
+export const CLAN_INVITE_ACTIONS = ['accept', 'reject'] as const;
+export type ClanInviteAction = (typeof CLAN_INVITE_ACTIONS)[number];
+
+// Day keys: yyyy-MM-dd for health data, yyyyMMdd for ring stats
+export const DATE_KEY_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+export const RING_DATE_KEY_PATTERN = /^\d{4}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])$/;
+
+// Upper bounds for logged values. They reject typos and unit mix-ups
+// (kJ for kcal, ml for glasses), not unusual but real days.
+export const HEALTH_LIMITS = {
+  mealCalories: 10000,
+  macroGrams: 1000,
+  itemsPerMeal: 50,
+  itemQuantity: 10000,
+  ingredientsPerRecipe: 100,
+  recipeServings: 100,
+  waterGlasses: 50,
+  workoutMinutes: 24 * 60,
+  workoutCalories: 10000,
+  workoutDistanceMeters: 1000000,
+  speedMetersPerSecond: 100,
+  exercisesPerWorkout: 100,
+  exerciseSets: 100,
+  exerciseReps: 1000,
+  exerciseWeightKg: 1000,
+  locationPointsPerWorkout: 50000,
+  dailySteps: 200000,
+  dailyCalories: 20000,
+  heartRate: 250,
+} as const;
+
+// Nutrients tracked besides calories and macros. Meals, items and recipes
+// carry any of them; a missing one was not measured, not zero. Values are in
+// NUTRIENT_UNITS: grams, milligrams or micrograms.
+export const NUTRIENT_KEYS = [
+  'fiber',
+  'sugar',
+  'saturatedFat',
+  'sodium',
+  'potassium',
+  'cholesterol',
+  'calcium',
+  'iron',
+  'vitaminA',
+  'vitaminC',
+  'vitaminD',
+] as const;
+export type NutrientKey = (typeof NUTRIENT_KEYS)[number];
+export type Nutrients = Partial<Record<NutrientKey, number>>;
+
+export const NUTRIENT_UNITS: Record<NutrientKey, 'g' | 'mg' | 'µg'> = {
+  fiber: 'g',
+  sugar: 'g',
+  saturatedFat: 'g',
+  sodium: 'mg',
+  potassium: 'mg',
+  cholesterol: 'mg',
+  calcium: 'mg',
+  iron: 'mg',
+  vitaminA: 'µg',
+  vitaminC: 'mg',
+  vitaminD: 'µg',
+};
+
+// Upper bounds of a nutrient in one meal or item, in its unit
+export const NUTRIENT_LIMITS: Record<NutrientKey, number> = {
+  fiber: HEALTH_LIMITS.macroGrams,
+  sugar: HEALTH_LIMITS.macroGrams,
+  saturatedFat: HEALTH_LIMITS.macroGrams,
+  sodium: 50000,
+  potassium: 50000,
+  cholesterol: 10000,
+  calcium: 50000,
+  iron: 1000,
+  vitaminA: 100000,
+  vitaminC: 50000,
+  vitaminD: 10000,
+};
+
+// Personal targets. All are per day except weeklyWorkouts (per Monday-based
+// week); caloriesOut is active energy, the move ring.
+export const GOAL_KEYS = [
+  'caloriesIn',
+  'caloriesOut',
+  'steps',
+  'activeMinutes',
+  'waterGlasses',
+  'proteinGrams',
+  'carbsGrams',
+  'fatGrams',
+  'fastingHours',
+  'weeklyWorkouts',
+] as const;
+export type GoalKey = (typeof GOAL_KEYS)[number];
+export type Goals = Record<GoalKey, number>;
+
+// Used until the user sets goals of their own. The macros are the daily
+// values of nutrition labels for 2000 kcal.
+export const DEFAULT_GOALS: Goals = {
+  caloriesIn: 2000,
+  caloriesOut: 600,
+  steps: 8000,
+  activeMinutes: 45,
+  waterGlasses: 8,
+  proteinGrams: 50,
+  carbsGrams: 275,
+  fatGrams: 78,
+  fastingHours: 16,
+  weeklyWorkouts: 3,
+};
+
+export const GOAL_LIMITS: Goals = {
+  caloriesIn: HEALTH_LIMITS.dailyCalories,
+  caloriesOut: HEALTH_LIMITS.dailyCalories,
+  steps: HEALTH_LIMITS.dailySteps,
+  activeMinutes: HEALTH_LIMITS.workoutMinutes,
+  waterGlasses: HEALTH_LIMITS.waterGlasses,
+  proteinGrams: HEALTH_LIMITS.macroGrams,
+  carbsGrams: HEALTH_LIMITS.macroGrams,
+  fatGrams: HEALTH_LIMITS.macroGrams,
+  fastingHours: 7 * 24,
+  weeklyWorkouts: 7 * 5,
+};
+
+// Body measurements: weight in kg, bodyFat in percent, circumferences in cm
+export const MEASUREMENT_KEYS = ['weight', 'bodyFat', 'waist', 'hips', 'chest'] as const;
+export type MeasurementKey = (typeof MEASUREMENT_KEYS)[number];
+
+export const MEASUREMENT_LIMITS: Record<MeasurementKey, number> = {
+  weight: 500,
+  bodyFat: 75,
+  waist: 300,
+  hips: 300,
+  chest: 300,
+};
+
+// Open datasets the food database is imported from: Open Food Facts and USDA
+// FoodData Central
+export const FOOD_SOURCES = ['off', 'usda'] as const;
+export type FoodSource = (typeof FOOD_SOURCES)[number];
+
+// Upper bounds of the per-100 g nutrition of a food; pure fat is 900 kcal
+export const FOOD_LIMITS = {
+  calories: 900,
+  grams: 100,
+};
+
+// Food photos accepted by the food recognition endpoint
+export const RECOGNITION_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+export type RecognitionImageType = (typeof RECOGNITION_IMAGE_TYPES)[number];
+
+export const RECOGNITION_LIMITS = {
+  imageBytes: 5 * 1024 * 1024,
+  corrections: 50, // sent along with one photo
+  portionFactor: 10, // a corrected portion is at most 10× or 1/10 of the recognized one
+};
@@ -34,6 +34,13 @@ export function emitFriendAccepted(io: SocketIOServer, userId: string, friend: a
   io.to(`user:${userId}`).emit('friend:accepted', friend);
 }
 
+/**
+ * Emit friend removed (the friend deleted their account or unfriended)
+ */
+export function emitFriendRemoved(io: SocketIOServer, userId: string, friendUid: string): void {
+  io.to(`user:${userId}`).emit('friend:removed', { friendUid });
+}
+
 /**
  * Emit clan invite notification
  */
@@ -41,6 +48,13 @@ export function emitClanInvite(io: SocketIOServer, toUserId: string, invite: any
   io.to(`user:${toUserId}`).emit('clan:invite', invite);
 }
 
+/**
+ * Emit clan changed (ownership transferred or clan dissolved)
+ */
+export function emitClanUpdated(io: SocketIOServer, userId: string, clan: any): void {
+  io.to(`user:${userId}`).emit('clan:updated', clan);
+}
+
 /**
  * Emit new notification
  */
@@ -28,7 +28,8 @@ export function sendError(
   res: Response,
   error: string,
   statusCode: number = 500,
-  code?: string
+  code?: string,
+  data?: unknown
 ): Response {
   const response: ApiResponse = {
     success: false,
@@ -37,6 +38,9 @@ export function sendError(
   if (code) {
     response.code = code;
   }
+  if (data !== undefined) {
+    response.data = data;
+  }
   return res.status(statusCode).json(response);
 }
 
@@ -31,14 +31,37 @@ if [ "$TOKEN" != "null" ] && [ -n "$TOKEN" ]; then
   curl -s -X GET $API_URL/api/auth/me \
     -H "Authorization: Bearer $TOKEN" | jq .
   
+  echo -e "\n\nTesting REST API - List Signed-in Devices..."
+  curl -s -X GET $API_URL/api/auth/sessions \
+    -H "Authorization: Bearer $TOKEN" | jq .
+  
   echo -e "\n\nTesting REST API - Get Daily Health Data..."
   TODAY=$(date +%Y-%m-%d)
   curl -s -X GET $API_URL/api/health/daily/$TODAY \
     -H "Authorization: Bearer $TOKEN" | jq .
   
+  echo -e "\n\nTesting REST API - Get Health Range (weekly buckets)..."
+  FROM=$(date -d "-30 days" +%Y-%m-%d)
+  curl -s -X GET "$API_URL/api/health/range?from=$FROM&to=$TODAY&bucket=week" \
+    -H "Authorization: Bearer $TOKEN" | jq .
+  
+  echo -e "\n\nTesting REST API - Export My Data (summary)..."
+  curl -s -X GET $API_URL/api/users/me/export \
+    -H "Authorization: Bearer $TOKEN" | jq '{exportedAt, email: .account.email, days: (.health.days | length)}'
+  
   echo -e "\n\nTesting REST API - Get Friends..."
   curl -s -X GET $API_URL/api/community/friends \
     -H "Authorization: Bearer $TOKEN" | jq .
+  
+  echo -e "\n\nTesting REST API - Forgot Password (check the server log or mail-outbox/)..."
+  curl -s -X POST $API_URL/api/auth/forgot-password \
+    -H "Content-Type: application/json" \
+    -d '{"email": "test@example.com"}' | jq .
+  
+  echo -e "\n\nTesting REST API - Reset Password with an invalid token (expect 400)..."
+  curl -s -X POST $API_URL/api/auth/reset-password \
+    -H "Content-Type: application/json" \
+    -d '{"token": "not-a-real-token", "password": "test123"}' | jq .
 else
   echo "Failed to get token. Make sure the user exists or register first."
 fi
@@ -0,0 +1,174 @@
+#!/bin/bash
+
+# Firestore migration checks against the database in .env.
+# A dry run must write nothing, a real run must import every valid document
+# and find its row again, and a rerun must skip everything as unchanged.
+# To try a real export instead, dump the emulator from functions/ with
+# FIRESTORE_EMULATOR_HOST=localhost:8080 npm run firestore:dump -- dump.json
+
+SUFFIX=$(date +%s)
+WORK_DIR=$(mktemp -d)
+DUMP="$WORK_DIR/dump.json"
+REPORT="$WORK_DIR/report.json"
+FAILURES=0
+
+# check <description> <expected> <actual>
+check() {
+  if [ "$3" == "$2" ]; then
+    echo "PASS: $1 ($3)"
+  else
+    echo "FAIL: $1 (expected $2, got $3)"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+# migrate [flags...] runs the CLI and leaves its report in $REPORT
+migrate() {
+  npm run --silent firestore:migrate -- --input "$DUMP" --report "$REPORT" "$@" > /dev/null
+}
+
+# count <kind> <status> reads a counter from the last report
+count() {
+  jq -r ".kinds.$1.$2" "$REPORT"
+}
+
+cat > "$DUMP" <<EOF
+{
+  "exportedAt": "2024-03-02T00:00:00.000Z",
+  "collections": {
+    "users": [
+      {
+        "id": "ann-$SUFFIX",
+        "data": {
+          "email": "ann-$SUFFIX@example.com",
+          "displayName": "Ann",
+          "createdAt": "2024-01-01T08:00:00.000Z",
+          "profile": { "age": 34, "weight": 62, "height": 168, "activityLevel": "moderate", "gender": "female" },
+          "privacy": { "ringsVisibility": "public", "allowFriendRequests": true, "allowClanInvites": true }
+        },
+        "collections": {
+          "health": [
+            {
+              "id": "2024-03-01",
+              "data": {
+                "date": "2024-03-01",
+                "steps": 8400,
+                "heartRate": 0,
+                "meals": [
+                  { "id": "1709280000000", "type": "breakfast", "name": "Oats", "calories": 350,
+                    "macros": { "carbs": 60, "protein": 12, "fat": 6 }, "timestamp": "2024-03-01T07:30:00.000Z" },
+                  { "id": "1709290000000", "type": "brunch", "name": "Unknown", "calories": 500,
+                    "timestamp": "2024-03-01T10:00:00.000Z" }
+                ],
+                "waterEntries": [
+                  { "id": "1709281000000", "glasses": 2, "timestamp": { "_seconds": 1709281000, "_nanoseconds": 0 } }
+                ],
+                "workouts": [
+                  { "id": "1709300000000", "name": "Run", "type": "running", "startTime": "2024-03-01T17:00:00.000Z",
+                    "duration": 30, "totalCaloriesBurned": 280, "exercises": [],
+                    "locationTrack": [
+                      { "latitude": 52.1, "longitude": 4.3, "timestamp": "2024-03-01T17:00:00.000Z" },
+                      { "latitude": 52.2, "longitude": 4.4, "timestamp": "2024-03-01T17:10:00.000Z" }
+                    ] }
+                ],
+                "fastingSession": { "id": "fast-1", "type": "16:8", "startTime": "2024-03-01T20:00:00.000Z",
+                  "endTime": null, "targetDuration": 16, "eatingWindow": { "startHour": 12, "endHour": 20 } }
+              }
+            }
+          ],
+          "mealSuggestions": [
+            { "id": "breakfast-oats", "data": { "type": "breakfast", "name": "Oats", "calories": 350,
+              "macros": { "carbs": 60, "protein": 12, "fat": 6 } } }
+          ],
+          "goals": [
+            { "id": "2024-02-15", "data": { "caloriesIn": 1800, "caloriesOut": 500, "steps": 9000,
+              "activeMinutes": 40, "waterGlasses": 9, "proteinGrams": 90, "fastingHours": 16, "weeklyWorkouts": 4 } },
+            { "id": "soon", "data": { "steps": 10000 } }
+          ],
+          "measurements": [
+            { "id": "2024-02-28", "data": { "weight": 62.4, "waist": 71 } },
+            { "id": "2024-03-01", "data": { "weight": 62.1, "bodyFat": 0 } }
+          ]
+        }
+      },
+      {
+        "id": "ben-$SUFFIX",
+        "data": { "email": "ben-$SUFFIX@example.com", "displayName": "Ben" }
+      }
+    ],
+    "friends": [
+      { "id": "ann-$SUFFIX", "data": null, "collections": { "list": [
+        { "id": "ben-$SUFFIX", "data": { "friendUid": "ben-$SUFFIX", "ringsShare": true } }
+      ] } },
+      { "id": "ben-$SUFFIX", "data": null, "collections": { "list": [
+        { "id": "ann-$SUFFIX", "data": { "friendUid": "ann-$SUFFIX", "ringsShare": true } },
+        { "id": "ghost-$SUFFIX", "data": { "friendUid": "ghost-$SUFFIX" } }
+      ] } }
+    ],
+    "clans": [
+      { "id": "clan-$SUFFIX", "data": { "name": "Runners", "ownerUid": "ann-$SUFFIX", "privacy": "inviteOnly" },
+        "collections": { "members": [
+          { "id": "ann-$SUFFIX", "data": { "uid": "ann-$SUFFIX", "role": "owner", "status": "active" } },
+          { "id": "ben-$SUFFIX", "data": { "uid": "ben-$SUFFIX", "role": "member", "status": "active" } }
+        ] } }
+    ],
+    "ringStats": [
+      { "id": "ann-$SUFFIX", "data": null, "collections": { "daily": [
+        { "id": "20240301", "data": { "caloriesBurned": 280, "steps": 8400, "workoutMinutes": 30,
+          "goalCalories": 600, "goalSteps": 8000, "goalMinutes": 45 } }
+      ] } }
+    ]
+  }
+}
+EOF
+
+echo "Dry run..."
+migrate --dry-run
+check "dry run plans new users" "2" "$(count user created)"
+check "dry run skips the unknown meal type" "1" "$(count meal skipped)"
+check "dry run skips the friend of an unknown user" "1" "$(count friend skipped)"
+check "dry run skips the goal change without a day" "1" "$(count goal skipped)"
+
+echo "Dry run again (nothing was written)..."
+migrate --dry-run
+check "users are still new" "2" "$(count user created)"
+
+echo "Migrating..."
+migrate
+check "users created" "2" "$(count user created)"
+check "days created" "1" "$(count day created)"
+check "meals created" "1" "$(count meal created)"
+check "workouts created" "1" "$(count workout created)"
+check "fasting sessions created" "1" "$(count fastingSession created)"
+check "meal suggestions created" "1" "$(count mealSuggestion created)"
+check "goals created" "1" "$(count goal created)"
+check "measurements created" "2" "$(count measurement created)"
+check "clan members created" "2" "$(count clanMember created)"
+check "friends created" "2" "$(count friend created)"
+check "ring stats created" "1" "$(count ringStats created)"
+check "every imported row is found" "0" \
+  "$(jq '[.reconciliation[] | select(.found != .expected)] | length' "$REPORT")"
+
+echo "Rerunning..."
+migrate
+check "users unchanged" "2" "$(count user unchanged)"
+check "days unchanged" "1" "$(count day unchanged)"
+check "nothing created" "0" "$(jq '[.kinds[].created] | add' "$REPORT")"
+
+echo "Rerunning after a meal was edited..."
+# The first calories of 350 is the logged meal; the suggestion keeps its own
+sed -i '0,/"calories": 350/s//"calories": 420/' "$DUMP"
+migrate
+check "the day is updated" "1" "$(count day updated)"
+check "the edited meal is updated" "1" "$(count meal updated)"
+check "the water entry is unchanged" "1" "$(count waterEntry unchanged)"
+
+rm -rf "$WORK_DIR"
+
+echo ""
+if [ $FAILURES -eq 0 ]; then
+  echo "All migration checks passed."
+else
+  echo "$FAILURES migration check(s) failed."
+  exit 1
+fi
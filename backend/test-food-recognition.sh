@@ -0,0 +1,91 @@
+#!/bin/bash
+
+# Food recognition checks. Start the server with FOOD_RECOGNITION_PROVIDER=mock,
+# which answers every photo with scrambled eggs and toast.
+# Verifies the items, how hints rename and rescale them, request validation,
+# and how saved corrections average the portion.
+
+API_URL="http://localhost:4000"
+SUFFIX=$(date +%s)
+FAILURES=0
+
+# A 1x1 PNG
+IMAGE="iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII="
+
+# send <token> <method> <path> [body], prints the response body
+send() {
+  curl -s -X $2 $API_URL$3 \
+    -H "Content-Type: application/json" \
+    ${1:+-H "Authorization: Bearer $1"} \
+    ${4:+-d "$4"}
+}
+
+# check <description> <expected> <actual>
+check() {
+  if [ "$3" == "$2" ]; then
+    echo "PASS: $1 ($3)"
+  else
+    echo "FAIL: $1 (expected $2, got $3)"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+echo "Registering a user..."
+TOKEN=$(curl -s -X POST $API_URL/api/auth/register \
+  -H "Content-Type: application/json" \
+  -d "{\"email\": \"recognition-$SUFFIX@example.com\", \"password\": \"test123\"}" | jq -r '.data.token')
+
+if [ "$TOKEN" == "null" ]; then
+  echo "Failed to register test user."
+  exit 1
+fi
+
+echo -e "\nRecognizing a photo..."
+RESULT=$(send "" POST /api/food-recognition "{\"image\": \"$IMAGE\", \"mimeType\": \"image/png\"}")
+if [ "$(echo "$RESULT" | jq -r '.code')" == "RECOGNITION_UNAVAILABLE" ]; then
+  echo "No recognition provider; start the server with FOOD_RECOGNITION_PROVIDER=mock."
+  exit 1
+fi
+check "Provider" "mock" "$(echo "$RESULT" | jq -r '.data.provider')"
+check "One item per food" "Scrambled eggs,Toast" "$(echo "$RESULT" | jq -r '[.data.items[].name] | join(",")')"
+check "Portion of each food" "2 × 1 large egg" \
+  "$(echo "$RESULT" | jq -r '.data.items[0] | "\(.quantity) × \(.unit)"')"
+check "Nutrients of the portion" 180 "$(echo "$RESULT" | jq -r '.data.items[0].nutrients.sodium')"
+check "Nothing corrected yet" "false" "$(echo "$RESULT" | jq -r '.data.items[1].corrected')"
+
+echo -e "\nRecognizing with a correction as hint..."
+RESULT=$(send "" POST /api/food-recognition "{\"image\": \"$IMAGE\", \"mimeType\": \"image/png\",
+  \"hints\": [{\"detectedName\": \"toast\", \"name\": \"Sourdough toast\", \"portionFactor\": 2}]}")
+check "Renamed" "Sourdough toast" "$(echo "$RESULT" | jq -r '.data.items[1].name')"
+check "Detected name kept" "Toast" "$(echo "$RESULT" | jq -r '.data.items[1].detectedName')"
+check "Portion scaled" "160 80" "$(echo "$RESULT" | jq -r '.data.items[1] | "\(.calories) \(.detectedCalories)"')"
+check "Marked corrected" "true" "$(echo "$RESULT" | jq -r '.data.items[1].corrected')"
+check "Other foods untouched" "Scrambled eggs 182" "$(echo "$RESULT" | jq -r '.data.items[0] | "\(.name) \(.calories)"')"
+
+echo -e "\nRejecting bad requests..."
+check "Unsupported image type" "VALIDATION_ERROR" \
+  "$(send "" POST /api/food-recognition "{\"image\": \"$IMAGE\", \"mimeType\": \"image/gif\"}" | jq -r '.code')"
+check "Image that is not base64" "VALIDATION_ERROR" \
+  "$(send "" POST /api/food-recognition '{"image": "not an image!", "mimeType": "image/png"}' | jq -r '.code')"
+check "Portion factor out of range" "VALIDATION_ERROR" \
+  "$(send "" POST /api/food-recognition "{\"image\": \"$IMAGE\", \"mimeType\": \"image/png\",
+    \"hints\": [{\"detectedName\": \"toast\", \"name\": \"Toast\", \"portionFactor\": 50}]}" | jq -r '.code')"
+
+echo -e "\nSaving corrections..."
+check "Corrections need a sign-in" "AUTH_REQUIRED" "$(send "" GET /api/food-recognition/corrections | jq -r '.code')"
+SAVED=$(send $TOKEN POST /api/food-recognition/corrections '{"corrections": [
+  {"detectedName": "Toast", "name": "Sourdough toast", "detectedCalories": 80, "calories": 160}
+]}')
+check "Stored under the detected name" "toast" "$(echo "$SAVED" | jq -r '.data[0].detectedName')"
+check "Portion factor" "2 1" "$(echo "$SAVED" | jq -r '.data[0] | "\(.portionFactor) \(.count)"')"
+SAVED=$(send $TOKEN POST /api/food-recognition/corrections '{"corrections": [
+  {"detectedName": "toast", "name": "Rye toast", "detectedCalories": 80, "calories": 80}
+]}')
+check "Latest name wins" "Rye toast" "$(echo "$SAVED" | jq -r '.data[0].name')"
+check "Portion averaged" "1.5 2" "$(echo "$SAVED" | jq -r '.data[0] | "\(.portionFactor) \(.count)"')"
+check "One correction per food" 1 "$(send $TOKEN GET /api/food-recognition/corrections | jq -r '.data | length')"
+check "Empty correction list" "VALIDATION_ERROR" \
+  "$(send $TOKEN POST /api/food-recognition/corrections '{"corrections": []}' | jq -r '.code')"
+
+echo -e "\nFood recognition checks complete: $FAILURES failure(s)"
+exit $FAILURES
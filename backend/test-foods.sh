@@ -0,0 +1,64 @@
+#!/bin/bash
+
+# Food database checks against the database in .env and a running server.
+# Imports a small Open Food Facts sample, then searches it by words of the
+# name and brand and looks foods up by barcode, with or without the leading
+# zero of a UPC code.
+
+API_URL="http://localhost:4000"
+SUFFIX=$(date +%s)
+WORK_DIR=$(mktemp -d)
+SAMPLE="$WORK_DIR/foods.csv"
+FAILURES=0
+
+# check <description> <expected> <actual>
+check() {
+  if [ "$3" == "$2" ]; then
+    echo "PASS: $1 ($3)"
+  else
+    echo "FAIL: $1 (expected $2, got $3)"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+# get <path>, prints "<status> <code or 'ok'>"
+get() {
+  RESPONSE=$(curl -s -w "\n%{http_code}" $API_URL$1)
+  echo "$(echo "$RESPONSE" | tail -1) $(echo "$RESPONSE" | head -1 | jq -r '.code // "ok"')"
+}
+
+# Barcodes made unique per run; the UPC one is stored with its leading zero
+EAN="40$SUFFIX"
+UPC="00$SUFFIX"
+
+printf 'code\tproduct_name\tbrands\tserving_size\tserving_quantity\tenergy-kcal_100g\tcarbohydrates_100g\tproteins_100g\tfat_100g\tfiber_100g\tsodium_100g\n' > "$SAMPLE"
+printf '%s\tHazelnut spread %s\tNutty\t15 g\t15\t539\t57.5\t6.3\t30.9\t3.4\t0.041\n' "$EAN" "$SUFFIX" >> "$SAMPLE"
+printf '%s\tGreek yoghurt %s\tDairy Farm\t1 cup\t170\t97\t3.6\t10\t0.4\t\t\n' "$UPC" "$SUFFIX" >> "$SAMPLE"
+printf '1%s\tNo energy %s\t\t\t\t\t1\t1\t1\t\t\n' "$SUFFIX" "$SUFFIX" >> "$SAMPLE"
+
+echo "Importing sample..."
+npm run --silent foods:import -- --format off --input "$SAMPLE" > /dev/null
+
+echo -e "\nSearching..."
+search() {
+  curl -s "$API_URL/api/foods/search?q=$1" | jq -r "$2"
+}
+check "Word prefix finds the food" "Greek yoghurt $SUFFIX" "$(search "yog%20$SUFFIX" '.data[0].name')"
+check "Brand words are searched" "Hazelnut spread $SUFFIX" "$(search "nutty%20$SUFFIX" '.data[0].name')"
+check "Every word must match" 0 "$(search "yoghurt%20nutty%20$SUFFIX" '.data | length')"
+check "Food without energy was skipped" 0 "$(search "energy%20$SUFFIX" '.data | length')"
+check "Servings come with the food" 170 "$(search "greek%20$SUFFIX" '.data[0].servings[0].grams')"
+
+echo -e "\nLooking up barcodes..."
+check "Barcode found" 539 "$(curl -s $API_URL/api/foods/barcode/$EAN | jq -r '.data.calories')"
+check "Nutrients come with the food" 41 "$(curl -s $API_URL/api/foods/barcode/$EAN | jq -r '.data.nutrients.sodium')"
+check "Missing nutrients are left out" null "$(curl -s $API_URL/api/foods/barcode/$UPC | jq -r '.data.nutrients')"
+check "UPC without its leading zero" 97 "$(curl -s $API_URL/api/foods/barcode/0$SUFFIX | jq -r '.data.calories')"
+check "Unknown barcode" "404 NOT_FOUND" "$(get /api/foods/barcode/99$SUFFIX)"
+check "Malformed barcode" "400 VALIDATION_ERROR" "$(get /api/foods/barcode/abc)"
+check "Search without a query" "400 VALIDATION_ERROR" "$(get /api/foods/search)"
+
+rm -rf "$WORK_DIR"
+
+echo -e "\nFood checks complete: $FAILURES failure(s)"
+exit $FAILURES
@@ -0,0 +1,72 @@
+#!/bin/bash
+
+# Goal history checks.
+# Days before the first change use the defaults, a change applies from its
+# day on, goals left out of a change keep their value, and a later change
+# does not alter the goals of earlier days.
+
+API_URL="http://localhost:4000"
+SUFFIX=$(date +%s)
+FAILURES=0
+
+# goal <date> <key> prints one goal that applied on the date
+goal() {
+  curl -s "$API_URL/api/goals?date=$1" -H "Authorization: Bearer $TOKEN" | jq -r ".data.$2"
+}
+
+# send <method> <path> <body>, prints "<status> <code or 'ok'>"
+send() {
+  RESPONSE=$(curl -s -w "\n%{http_code}" -X $1 $API_URL$2 \
+    -H "Content-Type: application/json" \
+    -H "Authorization: Bearer $TOKEN" \
+    -d "$3")
+  echo "$(echo "$RESPONSE" | tail -1) $(echo "$RESPONSE" | head -1 | jq -r '.code // "ok"')"
+}
+
+# check <description> <expected> <actual>
+check() {
+  if [ "$3" == "$2" ]; then
+    echo "PASS: $1 ($3)"
+  else
+    echo "FAIL: $1 (expected $2, got $3)"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+echo "Registering user..."
+TOKEN=$(curl -s -X POST $API_URL/api/auth/register \
+  -H "Content-Type: application/json" \
+  -d "{\"email\": \"goals-$SUFFIX@example.com\", \"password\": \"test123\"}" | jq -r '.data.token')
+
+if [ "$TOKEN" == "null" ]; then
+  echo "Failed to register test user."
+  exit 1
+fi
+
+echo -e "\nBefore any change..."
+check "Default step goal" 8000 "$(goal 2024-03-01 steps)"
+check "No change applies yet" null "$(goal 2024-03-01 effectiveFrom)"
+
+echo -e "\nChanging goals from March 10..."
+check "Change saved" "200 ok" "$(send PUT /api/goals '{"effectiveFrom": "2024-03-10", "steps": 10000, "waterGlasses": 10}')"
+check "Earlier day keeps the default" 8000 "$(goal 2024-03-09 steps)"
+check "Change applies from its day" 10000 "$(goal 2024-03-10 steps)"
+check "Change applies later on" 10 "$(goal 2024-04-01 waterGlasses)"
+check "Goal left out keeps its value" 600 "$(goal 2024-03-10 caloriesOut)"
+check "Default carb goal" 275 "$(goal 2024-03-10 carbsGrams)"
+
+echo -e "\nChanging goals again from March 20..."
+send PUT /api/goals '{"effectiveFrom": "2024-03-20", "steps": 12000}' > /dev/null
+check "Days in between keep the first change" 10000 "$(goal 2024-03-15 steps)"
+check "New change applies" 12000 "$(goal 2024-03-20 steps)"
+check "Unchanged goal is carried over" 10 "$(goal 2024-03-20 waterGlasses)"
+check "History lists both changes" 2 \
+  "$(curl -s $API_URL/api/goals/history -H "Authorization: Bearer $TOKEN" | jq '.data | length')"
+
+echo -e "\nRejecting bad input..."
+check "Negative goal" "400 VALIDATION_ERROR" "$(send PUT /api/goals '{"effectiveFrom": "2024-03-20", "steps": -1}')"
+check "Fractional step goal" "400 VALIDATION_ERROR" "$(send PUT /api/goals '{"effectiveFrom": "2024-03-20", "steps": 1.5}')"
+check "Missing day" "400 VALIDATION_ERROR" "$(send PUT /api/goals '{"steps": 9000}')"
+
+echo -e "\nGoal checks complete: $FAILURES failure(s)"
+exit $FAILURES
@@ -0,0 +1,89 @@
+#!/bin/bash
+
+# Multi-item meal checks.
+# A meal sent with items takes its calories and macros from them, an update
+# that sends items replaces them, and the day total follows.
+
+API_URL="http://localhost:4000"
+SUFFIX=$(date +%s)
+DATE="2024-04-02"
+FAILURES=0
+
+# send <method> <path> <body>, prints the response body
+send() {
+  curl -s -X $1 $API_URL$2 \
+    -H "Content-Type: application/json" \
+    -H "Authorization: Bearer $TOKEN" \
+    -d "$3"
+}
+
+# day_calories prints the calories consumed on DATE
+day_calories() {
+  curl -s "$API_URL/api/health/daily/$DATE" -H "Authorization: Bearer $TOKEN" | jq -r '.data.caloriesConsumed'
+}
+
+# check <description> <expected> <actual>
+check() {
+  if [ "$3" == "$2" ]; then
+    echo "PASS: $1 ($3)"
+  else
+    echo "FAIL: $1 (expected $2, got $3)"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+echo "Registering user..."
+TOKEN=$(curl -s -X POST $API_URL/api/auth/register \
+  -H "Content-Type: application/json" \
+  -d "{\"email\": \"meal-items-$SUFFIX@example.com\", \"password\": \"test123\"}" | jq -r '.data.token')
+
+if [ "$TOKEN" == "null" ]; then
+  echo "Failed to register test user."
+  exit 1
+fi
+
+echo -e "\nAdding a meal with items..."
+MEAL=$(send POST /api/health/meals "{\"date\": \"$DATE\", \"meal\": {
+  \"type\": \"breakfast\", \"name\": \"Toast and eggs\", \"calories\": 1,
+  \"timestamp\": \"${DATE}T08:00:00Z\",
+  \"items\": [
+    {\"name\": \"Bread\", \"quantity\": 2, \"unit\": \"1 slice\", \"calories\": 160, \"carbs\": 30, \"protein\": 6, \"fat\": 2,
+      \"nutrients\": {\"fiber\": 4, \"sodium\": 300}},
+    {\"name\": \"Egg\", \"quantity\": 2, \"unit\": \"1 large\", \"calories\": 144, \"carbs\": 0.8, \"protein\": 12.6, \"fat\": 9.6,
+      \"nutrients\": {\"sodium\": 140, \"cholesterol\": 372}}
+  ]}}")
+MEAL_ID=$(echo "$MEAL" | jq -r '.data.id')
+check "Calories are the items' sum" 304 "$(echo "$MEAL" | jq -r '.data.calories')"
+check "Macros are the items' sum" 18.6 "$(echo "$MEAL" | jq -r '.data.protein')"
+check "Nutrients are the items' sum" 440 "$(echo "$MEAL" | jq -r '.data.nutrients.sodium')"
+check "Nutrients only some items carry" 4 "$(echo "$MEAL" | jq -r '.data.nutrients.fiber')"
+check "Items keep their order" "Bread,Egg" "$(echo "$MEAL" | jq -r '[.data.items[].name] | join(",")')"
+check "Day total follows the items" 304 "$(day_calories)"
+
+echo -e "\nEditing items..."
+UPDATED=$(send PUT /api/health/meals/$MEAL_ID '{"items": [
+  {"name": "Bread", "quantity": 1, "unit": "1 slice", "calories": 80, "carbs": 15, "protein": 3, "fat": 1}
+]}')
+check "Items replaced" 1 "$(echo "$UPDATED" | jq -r '.data.items | length')"
+check "Nutrients follow the new items" null "$(echo "$UPDATED" | jq -r '.data.nutrients')"
+check "Calories follow the new items" 80 "$(echo "$UPDATED" | jq -r '.data.calories')"
+check "Day total follows the edit" 80 "$(day_calories)"
+check "Renaming keeps the items" 1 \
+  "$(send PUT /api/health/meals/$MEAL_ID '{"name": "Toast"}' | jq -r '.data.items | length')"
+check "Totals alone are rejected" "VALIDATION_ERROR" \
+  "$(send PUT /api/health/meals/$MEAL_ID '{"calories": 500}' | jq -r '.code')"
+check "Nutrients alone are rejected" "VALIDATION_ERROR" \
+  "$(send PUT /api/health/meals/$MEAL_ID '{"nutrients": {"sodium": 10}}' | jq -r '.code')"
+
+echo -e "\nRemoving the items..."
+CLEARED=$(send PUT /api/health/meals/$MEAL_ID '{"items": [], "calories": 250}')
+check "Items cleared" 0 "$(echo "$CLEARED" | jq -r '.data.items | length')"
+check "Totals are set directly again" 250 "$(echo "$CLEARED" | jq -r '.data.calories')"
+
+echo -e "\nRejecting bad input..."
+check "Item without a unit" "VALIDATION_ERROR" "$(send POST /api/health/meals "{\"date\": \"$DATE\", \"meal\": {
+  \"type\": \"lunch\", \"name\": \"Soup\", \"calories\": 100, \"timestamp\": \"${DATE}T12:00:00Z\",
+  \"items\": [{\"name\": \"Soup\", \"quantity\": 1, \"calories\": 100}]}}" | jq -r '.code')"
+
+echo -e "\nMeal item checks complete: $FAILURES failure(s)"
+exit $FAILURES
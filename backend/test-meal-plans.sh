@@ -0,0 +1,112 @@
+#!/bin/bash
+
+# Meal plan checks.
+# Plans meals on future days, edits them, marks one as logged and verifies
+# plans are private and do not count towards the day's totals. A plan can
+# only be marked logged as the user's own meal, and the mark goes with it.
+
+API_URL="http://localhost:4000"
+SUFFIX=$(date +%s)
+FAILURES=0
+TOMORROW=$(date -d "+1 day" +%Y-%m-%d 2>/dev/null || date -v+1d +%Y-%m-%d)
+LATER=$(date -d "+3 days" +%Y-%m-%d 2>/dev/null || date -v+3d +%Y-%m-%d)
+
+# register <email>, prints "<token> <user id>"
+register() {
+  curl -s -X POST $API_URL/api/auth/register \
+    -H "Content-Type: application/json" \
+    -d "{\"email\": \"$1\", \"password\": \"test123\"}" | jq -r '"\(.data.token) \(.data.user.id)"'
+}
+
+# send <token> <method> <path> [body], prints the response body
+send() {
+  curl -s -X $2 $API_URL$3 \
+    -H "Content-Type: application/json" \
+    -H "Authorization: Bearer $1" \
+    ${4:+-d "$4"}
+}
+
+# check <description> <expected> <actual>
+check() {
+  if [ "$3" == "$2" ]; then
+    echo "PASS: $1 ($3)"
+  else
+    echo "FAIL: $1 (expected $2, got $3)"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+echo "Registering planner and stranger..."
+read TOKEN USER_ID <<< "$(register "plan-$SUFFIX@example.com")"
+read STRANGER_TOKEN STRANGER_ID <<< "$(register "plan-stranger-$SUFFIX@example.com")"
+
+if [ "$TOKEN" == "null" ] || [ "$STRANGER_TOKEN" == "null" ]; then
+  echo "Failed to register test users."
+  exit 1
+fi
+
+echo -e "\nPlanning meals..."
+PLANNED=$(send $TOKEN POST /api/meal-plans "{\"date\": \"$TOMORROW\", \"type\": \"dinner\", \"name\": \"Chili\",
+  \"calories\": 0, \"items\": [
+  {\"name\": \"Beans\", \"quantity\": 1, \"unit\": \"1 can\", \"calories\": 300, \"carbs\": 50, \"protein\": 20, \"fat\": 2},
+  {\"name\": \"Beef\", \"quantity\": 250, \"unit\": \"g\", \"calories\": 500, \"carbs\": 0, \"protein\": 50, \"fat\": 30}
+]}")
+PLANNED_ID=$(echo "$PLANNED" | jq -r '.data.id')
+check "Calories are the items' sum" 800 "$(echo "$PLANNED" | jq -r '.data.calories')"
+check "Not logged yet" null "$(echo "$PLANNED" | jq -r '.data.loggedMealId')"
+send $TOKEN POST /api/meal-plans "{\"date\": \"$LATER\", \"type\": \"breakfast\", \"name\": \"Oats\",
+  \"calories\": 350, \"carbs\": 60, \"protein\": 12, \"fat\": 7}" > /dev/null
+check "Invalid date" "VALIDATION_ERROR" \
+  "$(send $TOKEN POST /api/meal-plans '{"date": "tomorrow", "type": "lunch", "name": "Soup", "calories": 200}' | jq -r '.code')"
+
+echo -e "\nListing the plan..."
+check "Both days listed" "Chili,Oats" \
+  "$(send $TOKEN GET "/api/meal-plans?from=$TOMORROW&to=$LATER" | jq -r '[.data[].name] | join(",")')"
+check "Range is inclusive" 1 \
+  "$(send $TOKEN GET "/api/meal-plans?from=$TOMORROW&to=$TOMORROW" | jq -r '.data | length')"
+check "Reversed range" "VALIDATION_ERROR" \
+  "$(send $TOKEN GET "/api/meal-plans?from=$LATER&to=$TOMORROW" | jq -r '.code')"
+check "Plans do not count towards the day" "NOT_FOUND" \
+  "$(send $TOKEN GET /api/health/daily/$TOMORROW | jq -r '.code')"
+
+echo -e "\nEditing the plan..."
+UPDATED=$(send $TOKEN PUT /api/meal-plans/$PLANNED_ID "{\"date\": \"$LATER\", \"version\": 1}")
+check "Moved to another day" "$LATER" "$(echo "$UPDATED" | jq -r '.data.date')"
+check "Items kept" 2 "$(echo "$UPDATED" | jq -r '.data.items | length')"
+check "Totals of a meal with items" "VALIDATION_ERROR" \
+  "$(send $TOKEN PUT /api/meal-plans/$PLANNED_ID '{"calories": 100}' | jq -r '.code')"
+check "Stale version rejected" "VERSION_CONFLICT" \
+  "$(send $TOKEN PUT /api/meal-plans/$PLANNED_ID '{"name": "Stew", "version": 1}' | jq -r '.code')"
+
+echo -e "\nLogging the plan..."
+# add_meal <token>, prints the new meal's id
+add_meal() {
+  send $1 POST /api/health/meals "{\"date\": \"$TOMORROW\", \"meal\": {\"type\": \"dinner\", \"name\": \"Chili\",
+    \"calories\": 800, \"timestamp\": \"${TOMORROW}T19:00:00Z\"}}" | jq -r '.data.id'
+}
+MEAL_ID=$(add_meal $TOKEN)
+STRANGER_MEAL_ID=$(add_meal $STRANGER_TOKEN)
+UNKNOWN_ID=$(uuidgen 2>/dev/null || cat /proc/sys/kernel/random/uuid)
+check "Unknown meal rejected" "VALIDATION_ERROR" \
+  "$(send $TOKEN PUT /api/meal-plans/$PLANNED_ID "{\"loggedMealId\": \"$UNKNOWN_ID\"}" | jq -r '.code')"
+check "Another user's meal rejected" "VALIDATION_ERROR" \
+  "$(send $TOKEN PUT /api/meal-plans/$PLANNED_ID "{\"loggedMealId\": \"$STRANGER_MEAL_ID\"}" | jq -r '.code')"
+check "Marked as logged" "$MEAL_ID" \
+  "$(send $TOKEN PUT /api/meal-plans/$PLANNED_ID "{\"loggedMealId\": \"$MEAL_ID\"}" | jq -r '.data.loggedMealId')"
+send $TOKEN DELETE /api/health/meals/$MEAL_ID > /dev/null
+check "Deleting the meal clears the mark" null \
+  "$(send $TOKEN GET "/api/meal-plans?from=$LATER&to=$LATER" | jq -r ".data[] | select(.id == \"$PLANNED_ID\") | .loggedMealId")"
+
+echo -e "\nPrivacy..."
+check "Stranger sees no plans" 0 \
+  "$(send $STRANGER_TOKEN GET "/api/meal-plans?from=$TOMORROW&to=$LATER" | jq -r '.data | length')"
+check "Stranger cannot edit it" "NOT_FOUND" \
+  "$(send $STRANGER_TOKEN PUT /api/meal-plans/$PLANNED_ID '{"name": "Mine now"}' | jq -r '.code')"
+
+echo -e "\nDeleting the planned meal..."
+send $TOKEN DELETE /api/meal-plans/$PLANNED_ID > /dev/null
+check "Only the other one is left" "Oats" \
+  "$(send $TOKEN GET "/api/meal-plans?from=$TOMORROW&to=$LATER" | jq -r '[.data[].name] | join(",")')"
+
+echo -e "\nMeal plan checks complete: $FAILURES failure(s)"
+exit $FAILURES
@@ -0,0 +1,79 @@
+#!/bin/bash
+
+# Body measurement checks.
+# One row per day: a save only changes the values it sends, null clears a
+# value, and the profile weight follows the latest weigh-in.
+
+API_URL="http://localhost:4000"
+SUFFIX=$(date +%s)
+FAILURES=0
+
+# measurement <date> <key> prints one value logged on the date
+measurement() {
+  curl -s "$API_URL/api/measurements?from=$1&to=$1" -H "Authorization: Bearer $TOKEN" | jq -r ".data[0].$2"
+}
+
+# profile_weight prints the weight on the user's profile
+profile_weight() {
+  curl -s $API_URL/api/auth/me -H "Authorization: Bearer $TOKEN" | jq -r '.data.profile.weight'
+}
+
+# send <method> <path> <body>, prints "<status> <code or 'ok'>"
+send() {
+  RESPONSE=$(curl -s -w "\n%{http_code}" -X $1 $API_URL$2 \
+    -H "Content-Type: application/json" \
+    -H "Authorization: Bearer $TOKEN" \
+    -d "$3")
+  echo "$(echo "$RESPONSE" | tail -1) $(echo "$RESPONSE" | head -1 | jq -r '.code // "ok"')"
+}
+
+# check <description> <expected> <actual>
+check() {
+  if [ "$3" == "$2" ]; then
+    echo "PASS: $1 ($3)"
+  else
+    echo "FAIL: $1 (expected $2, got $3)"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+echo "Registering user..."
+TOKEN=$(curl -s -X POST $API_URL/api/auth/register \
+  -H "Content-Type: application/json" \
+  -d "{\"email\": \"measurements-$SUFFIX@example.com\", \"password\": \"test123\"}" | jq -r '.data.token')
+
+if [ "$TOKEN" == "null" ]; then
+  echo "Failed to register test user."
+  exit 1
+fi
+
+send PUT /api/auth/profile '{"weight": 80}' > /dev/null
+
+echo -e "\nLogging measurements..."
+check "Day saved" "200 ok" "$(send PUT /api/measurements '{"date": "2024-03-01", "weight": 79.5, "waist": 88}')"
+check "Profile follows the weigh-in" 79.5 "$(profile_weight)"
+check "Later day saved" "200 ok" "$(send PUT /api/measurements '{"date": "2024-03-05", "weight": 78.8}')"
+check "Profile follows the latest weigh-in" 78.8 "$(profile_weight)"
+send PUT /api/measurements '{"date": "2024-03-01", "weight": 79.2}' > /dev/null
+check "Editing an earlier day keeps the latest weight" 78.8 "$(profile_weight)"
+
+echo -e "\nUpdating a day..."
+check "Value left out is kept" 88 "$(measurement 2024-03-01 waist)"
+send PUT /api/measurements '{"date": "2024-03-01", "waist": null, "bodyFat": 21}' > /dev/null
+check "Null clears a value" null "$(measurement 2024-03-01 waist)"
+check "Other values are kept" 79.2 "$(measurement 2024-03-01 weight)"
+check "Clearing everything is rejected" "400 VALIDATION_ERROR" \
+  "$(send PUT /api/measurements '{"date": "2024-03-05", "weight": null}')"
+
+echo -e "\nDeleting a day..."
+check "Day deleted" "200 ok" "$(send DELETE /api/measurements/2024-03-05)"
+check "Profile falls back to the earlier weigh-in" 79.2 "$(profile_weight)"
+check "Deleting again" "404 NOT_FOUND" "$(send DELETE /api/measurements/2024-03-05)"
+
+echo -e "\nRejecting bad input..."
+check "Negative weight" "400 VALIDATION_ERROR" "$(send PUT /api/measurements '{"date": "2024-03-02", "weight": -1}')"
+check "Body fat over the limit" "400 VALIDATION_ERROR" "$(send PUT /api/measurements '{"date": "2024-03-02", "bodyFat": 90}')"
+check "Missing day" "400 VALIDATION_ERROR" "$(send PUT /api/measurements '{"weight": 80}')"
+
+echo -e "\nMeasurement checks complete: $FAILURES failure(s)"
+exit $FAILURES
@@ -0,0 +1,79 @@
+#!/bin/bash
+
+# Replay checks for the app's offline outbox.
+# Queued adds carry a client-generated id. Sending the same add again after
+# reconnecting must return the stored record, not create a second one.
+
+API_URL="http://localhost:4000"
+SUFFIX=$(date +%s)
+TODAY=$(date +%Y-%m-%d)
+NOW=$(date -u +%Y-%m-%dT%H:%M:%SZ)
+FAILURES=0
+
+register() {
+  curl -s -X POST $API_URL/api/auth/register \
+    -H "Content-Type: application/json" \
+    -d "{\"email\": \"$1\", \"password\": \"test123\"}" | jq -r '.data.token'
+}
+
+# post <token> <path> <body>, prints "<status> <data.id>"
+post() {
+  RESPONSE=$(curl -s -w "\n%{http_code}" -X POST $API_URL$2 \
+    -H "Content-Type: application/json" \
+    -H "Authorization: Bearer $1" \
+    -d "$3")
+  echo "$(echo "$RESPONSE" | tail -1) $(echo "$RESPONSE" | head -1 | jq -r '.data.id')"
+}
+
+# check <description> <expected> <actual>
+check() {
+  if [ "$3" == "$2" ]; then
+    echo "PASS: $1 ($3)"
+  else
+    echo "FAIL: $1 (expected $2, got $3)"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+echo "Registering users..."
+TOKEN=$(register "replay-$SUFFIX@example.com")
+OTHER_TOKEN=$(register "replay-other-$SUFFIX@example.com")
+
+if [ "$TOKEN" == "null" ] || [ "$OTHER_TOKEN" == "null" ]; then
+  echo "Failed to register test users."
+  exit 1
+fi
+
+MEAL_ID=$(node -e "console.log(require('crypto').randomUUID())")
+WATER_ID=$(node -e "console.log(require('crypto').randomUUID())")
+WORKOUT_ID=$(node -e "console.log(require('crypto').randomUUID())")
+
+MEAL="{\"date\": \"$TODAY\", \"meal\": {\"id\": \"$MEAL_ID\", \"type\": \"lunch\", \"name\": \"Salad\", \"calories\": 300, \"timestamp\": \"$NOW\"}}"
+WATER="{\"date\": \"$TODAY\", \"entry\": {\"id\": \"$WATER_ID\", \"glasses\": 1, \"timestamp\": \"$NOW\"}}"
+WORKOUT="{\"date\": \"$TODAY\", \"workout\": {\"id\": \"$WORKOUT_ID\", \"name\": \"Run\", \"type\": \"running\", \"startTime\": \"$NOW\", \"duration\": 30, \"totalCaloriesBurned\": 250, \"exercises\": [{\"name\": \"Intervals\", \"category\": \"cardio\"}]}}"
+
+echo -e "\nFirst delivery..."
+check "Add meal" "201 $MEAL_ID" "$(post "$TOKEN" /api/health/meals "$MEAL")"
+check "Add water entry" "201 $WATER_ID" "$(post "$TOKEN" /api/health/water "$WATER")"
+check "Add workout" "201 $WORKOUT_ID" "$(post "$TOKEN" /api/health/workouts "$WORKOUT")"
+
+echo -e "\nReplay after reconnecting..."
+check "Replay meal" "201 $MEAL_ID" "$(post "$TOKEN" /api/health/meals "$MEAL")"
+check "Replay water entry" "201 $WATER_ID" "$(post "$TOKEN" /api/health/water "$WATER")"
+check "Replay workout" "201 $WORKOUT_ID" "$(post "$TOKEN" /api/health/workouts "$WORKOUT")"
+
+echo -e "\nDay contains each record once..."
+DAY=$(curl -s $API_URL/api/health/daily/$TODAY -H "Authorization: Bearer $TOKEN")
+check "Meals" 1 "$(echo "$DAY" | jq '.data.meals | length')"
+check "Water entries" 1 "$(echo "$DAY" | jq '.data.waterEntries | length')"
+check "Workouts" 1 "$(echo "$DAY" | jq '.data.workouts | length')"
+check "Workout exercises" 1 "$(echo "$DAY" | jq '.data.workouts[0].exercises | length')"
+check "Calories consumed" 300 "$(echo "$DAY" | jq '.data.caloriesConsumed')"
+check "Water intake" 1 "$(echo "$DAY" | jq '.data.waterIntake')"
+
+echo -e "\nIds that cannot be replayed..."
+check "Another user's id" "409 null" "$(post "$OTHER_TOKEN" /api/health/meals "$MEAL")"
+check "Non-UUID id" "400 null" "$(post "$TOKEN" /api/health/meals "${MEAL/$MEAL_ID/not-a-uuid}")"
+
+echo -e "\nReplay checks complete: $FAILURES failure(s)"
+exit $FAILURES
@@ -0,0 +1,86 @@
+#!/bin/bash
+
+# Cross-user access checks for the health mutation routes.
+# Registers two users, creates a meal and a workout as the first one and
+# verifies the second one cannot modify or delete them.
+
+API_URL="http://localhost:4000"
+SUFFIX=$(date +%s)
+TODAY=$(date +%Y-%m-%d)
+FAILURES=0
+
+register() {
+  curl -s -X POST $API_URL/api/auth/register \
+    -H "Content-Type: application/json" \
+    -d "{\"email\": \"$1\", \"password\": \"test123\"}" | jq -r '.data.token'
+}
+
+# expect_status <description> <expected> <method> <path> <token> [body]
+expect_status() {
+  STATUS=$(curl -s -o /dev/null -w "%{http_code}" -X $3 $API_URL$4 \
+    -H "Content-Type: application/json" \
+    -H "Authorization: Bearer $5" \
+    ${6:+-d "$6"})
+
+  if [ "$STATUS" == "$2" ]; then
+    echo "PASS: $1 ($STATUS)"
+  else
+    echo "FAIL: $1 (expected $2, got $STATUS)"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+echo "Registering owner and intruder..."
+OWNER_TOKEN=$(register "owner-$SUFFIX@example.com")
+INTRUDER_TOKEN=$(register "intruder-$SUFFIX@example.com")
+
+if [ "$OWNER_TOKEN" == "null" ] || [ "$INTRUDER_TOKEN" == "null" ]; then
+  echo "Failed to register test users."
+  exit 1
+fi
+
+echo -e "\nCreating owner's meal and workout..."
+MEAL_ID=$(curl -s -X POST $API_URL/api/health/meals \
+  -H "Content-Type: application/json" \
+  -H "Authorization: Bearer $OWNER_TOKEN" \
+  -d "{\"date\": \"$TODAY\", \"meal\": {\"type\": \"lunch\", \"name\": \"Salad\", \"calories\": 300, \"carbs\": 20, \"protein\": 10, \"fat\": 15, \"timestamp\": \"$(date -u +%Y-%m-%dT%H:%M:%SZ)\"}}" \
+  | jq -r '.data.id')
+
+WORKOUT_ID=$(curl -s -X POST $API_URL/api/health/workouts \
+  -H "Content-Type: application/json" \
+  -H "Authorization: Bearer $OWNER_TOKEN" \
+  -d "{\"date\": \"$TODAY\", \"workout\": {\"name\": \"Run\", \"type\": \"running\", \"startTime\": \"$(date -u +%Y-%m-%dT%H:%M:%SZ)\", \"duration\": 30, \"totalCaloriesBurned\": 250}}" \
+  | jq -r '.data.id')
+
+FASTING_ID=$(curl -s -X POST $API_URL/api/health/fasting \
+  -H "Content-Type: application/json" \
+  -H "Authorization: Bearer $OWNER_TOKEN" \
+  -d '{"type": "16:8", "targetDuration": 16}' \
+  | jq -r '.data.id')
+
+echo "Meal: $MEAL_ID"
+echo "Workout: $WORKOUT_ID"
+echo "Fasting session: $FASTING_ID"
+
+echo -e "\nCross-user attempts..."
+expect_status "Intruder updates meal" 403 PUT "/api/health/meals/$MEAL_ID" "$INTRUDER_TOKEN" '{"calories": 1}'
+expect_status "Intruder deletes meal" 403 DELETE "/api/health/meals/$MEAL_ID" "$INTRUDER_TOKEN"
+expect_status "Intruder updates workout" 403 PUT "/api/health/workouts/$WORKOUT_ID" "$INTRUDER_TOKEN" '{"duration": 1}'
+expect_status "Intruder deletes workout" 403 DELETE "/api/health/workouts/$WORKOUT_ID" "$INTRUDER_TOKEN"
+expect_status "Intruder stops fast" 403 POST "/api/health/fasting/$FASTING_ID/stop" "$INTRUDER_TOKEN" '{}'
+expect_status "Intruder deletes fast" 403 DELETE "/api/health/fasting/$FASTING_ID" "$INTRUDER_TOKEN"
+
+echo -e "\nUnknown ids..."
+expect_status "Update missing meal" 404 PUT "/api/health/meals/does-not-exist" "$OWNER_TOKEN" '{"calories": 1}'
+expect_status "Delete missing workout" 404 DELETE "/api/health/workouts/does-not-exist" "$OWNER_TOKEN"
+
+echo -e "\nOwner access still works..."
+expect_status "Owner updates meal" 200 PUT "/api/health/meals/$MEAL_ID" "$OWNER_TOKEN" '{"calories": 350}'
+expect_status "Owner deletes meal" 200 DELETE "/api/health/meals/$MEAL_ID" "$OWNER_TOKEN"
+expect_status "Owner updates workout" 200 PUT "/api/health/workouts/$WORKOUT_ID" "$OWNER_TOKEN" '{"duration": 45}'
+expect_status "Owner deletes workout" 200 DELETE "/api/health/workouts/$WORKOUT_ID" "$OWNER_TOKEN"
+expect_status "Owner stops fast" 200 POST "/api/health/fasting/$FASTING_ID/stop" "$OWNER_TOKEN" '{}'
+expect_status "Owner deletes fast" 200 DELETE "/api/health/fasting/$FASTING_ID" "$OWNER_TOKEN"
+
+echo -e "\nOwnership checks complete: $FAILURES failure(s)"
+exit $FAILURES
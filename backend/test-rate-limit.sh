@@ -0,0 +1,46 @@
+#!/bin/bash
+
+# Brute-force protection checks.
+# Registers a user, fails the password until the account locks and verifies
+# the right password is refused while locked. Run against a fresh server with
+# the default limits (LOGIN_MAX_FAILED_ATTEMPTS=5, RATE_LIMIT_LOGIN_MAX=20).
+
+API_URL="http://localhost:4000"
+EMAIL="lockout-$(date +%s)@example.com"
+FAILURES=0
+
+# expect_login <description> <expected> <password>
+expect_login() {
+  STATUS=$(curl -s -o /dev/null -w "%{http_code}" -X POST $API_URL/api/auth/login \
+    -H "Content-Type: application/json" \
+    -d "{\"email\": \"$EMAIL\", \"password\": \"$3\"}")
+
+  if [ "$STATUS" == "$2" ]; then
+    echo "PASS: $1 ($STATUS)"
+  else
+    echo "FAIL: $1 (expected $2, got $STATUS)"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+echo "Registering $EMAIL..."
+curl -s -o /dev/null -X POST $API_URL/api/auth/register \
+  -H "Content-Type: application/json" \
+  -d "{\"email\": \"$EMAIL\", \"password\": \"test123\"}"
+
+echo -e "\nFailing the password..."
+for i in 1 2 3 4; do
+  expect_login "Wrong password attempt $i" 401 "wrong-password"
+done
+expect_login "Fifth wrong password locks the account" 429 "wrong-password"
+
+echo -e "\nWhile locked..."
+expect_login "Correct password is refused" 429 "test123"
+
+echo -e "\nRetry-After header:"
+curl -s -D - -o /dev/null -X POST $API_URL/api/auth/login \
+  -H "Content-Type: application/json" \
+  -d "{\"email\": \"$EMAIL\", \"password\": \"test123\"}" | grep -i "retry-after"
+
+echo -e "\nRate limit checks complete: $FAILURES failure(s)"
+exit $FAILURES
@@ -0,0 +1,97 @@
+#!/bin/bash
+
+# Recipe checks.
+# Creates a recipe from ingredients, shares it with a friend and with a clan,
+# and verifies readers can see it but only the author can change it.
+
+API_URL="http://localhost:4000"
+SUFFIX=$(date +%s)
+FAILURES=0
+
+# register <email>, prints "<token> <user id>"
+register() {
+  curl -s -X POST $API_URL/api/auth/register \
+    -H "Content-Type: application/json" \
+    -d "{\"email\": \"$1\", \"password\": \"test123\"}" | jq -r '"\(.data.token) \(.data.user.id)"'
+}
+
+# send <token> <method> <path> [body], prints the response body
+send() {
+  curl -s -X $2 $API_URL$3 \
+    -H "Content-Type: application/json" \
+    -H "Authorization: Bearer $1" \
+    ${4:+-d "$4"}
+}
+
+# check <description> <expected> <actual>
+check() {
+  if [ "$3" == "$2" ]; then
+    echo "PASS: $1 ($3)"
+  else
+    echo "FAIL: $1 (expected $2, got $3)"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+echo "Registering author, friend and stranger..."
+read AUTHOR_TOKEN AUTHOR_ID <<< "$(register "recipe-author-$SUFFIX@example.com")"
+read FRIEND_TOKEN FRIEND_ID <<< "$(register "recipe-friend-$SUFFIX@example.com")"
+read STRANGER_TOKEN STRANGER_ID <<< "$(register "recipe-stranger-$SUFFIX@example.com")"
+
+if [ "$AUTHOR_TOKEN" == "null" ] || [ "$FRIEND_TOKEN" == "null" ] || [ "$STRANGER_TOKEN" == "null" ]; then
+  echo "Failed to register test users."
+  exit 1
+fi
+
+send $AUTHOR_TOKEN POST /api/community/friend-requests "{\"toUid\": \"$FRIEND_ID\"}" > /dev/null
+send $FRIEND_TOKEN POST /api/community/friend-requests/$AUTHOR_ID/accept > /dev/null
+
+echo -e "\nCreating a recipe..."
+RECIPE=$(send $AUTHOR_TOKEN POST /api/recipes '{"name": "Chili", "servings": 4, "ingredients": [
+  {"name": "Beans", "quantity": 2, "unit": "1 can", "calories": 600, "carbs": 100, "protein": 40, "fat": 4},
+  {"name": "Beef", "quantity": 500, "unit": "g", "calories": 1000, "carbs": 0, "protein": 100, "fat": 60}
+]}')
+RECIPE_ID=$(echo "$RECIPE" | jq -r '.data.id')
+check "Calories are the ingredients' sum" 1600 "$(echo "$RECIPE" | jq -r '.data.calories')"
+check "Servings are kept" 4 "$(echo "$RECIPE" | jq -r '.data.servings')"
+check "Ingredients keep their order" "Beans,Beef" "$(echo "$RECIPE" | jq -r '[.data.ingredients[].name] | join(",")')"
+check "Recipe without ingredients" "VALIDATION_ERROR" \
+  "$(send $AUTHOR_TOKEN POST /api/recipes '{"name": "Air", "servings": 1, "ingredients": []}' | jq -r '.code')"
+
+echo -e "\nEditing the recipe..."
+UPDATED=$(send $AUTHOR_TOKEN PUT /api/recipes/$RECIPE_ID '{"servings": 5, "version": 1}')
+check "Servings changed" 5 "$(echo "$UPDATED" | jq -r '.data.servings')"
+check "Ingredients kept" 2 "$(echo "$UPDATED" | jq -r '.data.ingredients | length')"
+check "Stale version rejected" "VERSION_CONFLICT" \
+  "$(send $AUTHOR_TOKEN PUT /api/recipes/$RECIPE_ID '{"servings": 6, "version": 1}' | jq -r '.code')"
+
+echo -e "\nSharing with a friend..."
+check "Friend cannot see it yet" 0 "$(send $FRIEND_TOKEN GET /api/recipes | jq -r '.data | length')"
+check "Sharing with a stranger" "FORBIDDEN" \
+  "$(send $AUTHOR_TOKEN POST /api/recipes/$RECIPE_ID/share "{\"friendUid\": \"$STRANGER_ID\"}" | jq -r '.code')"
+send $AUTHOR_TOKEN POST /api/recipes/$RECIPE_ID/share "{\"friendUid\": \"$FRIEND_ID\"}" > /dev/null
+check "Friend sees the recipe" "Chili" "$(send $FRIEND_TOKEN GET /api/recipes | jq -r '.data[0].name')"
+check "Friend is notified" "RECIPE_SHARED" \
+  "$(send $FRIEND_TOKEN GET /api/community/notifications | jq -r '[.data[] | select(.type == "RECIPE_SHARED")][0].type')"
+send $AUTHOR_TOKEN POST /api/recipes/$RECIPE_ID/share "{\"friendUid\": \"$FRIEND_ID\"}" > /dev/null
+check "Sharing again notifies no one" 1 \
+  "$(send $FRIEND_TOKEN GET /api/community/notifications | jq -r '[.data[] | select(.type == "RECIPE_SHARED")] | length')"
+check "Friend cannot edit it" "NOT_FOUND" \
+  "$(send $FRIEND_TOKEN PUT /api/recipes/$RECIPE_ID '{"name": "Mine now"}' | jq -r '.code')"
+check "Friend cannot share it" "NOT_FOUND" \
+  "$(send $FRIEND_TOKEN POST /api/recipes/$RECIPE_ID/share "{\"friendUid\": \"$AUTHOR_ID\"}" | jq -r '.code')"
+
+echo -e "\nSharing with a clan..."
+CLAN_ID=$(send $AUTHOR_TOKEN POST /api/community/clans "{\"name\": \"Cooks $SUFFIX\"}" | jq -r '.data.id')
+check "Stranger cannot see it" "NOT_FOUND" "$(send $STRANGER_TOKEN GET /api/recipes/$RECIPE_ID | jq -r '.code')"
+check "Friend or clan, not both" "VALIDATION_ERROR" \
+  "$(send $AUTHOR_TOKEN POST /api/recipes/$RECIPE_ID/share "{\"friendUid\": \"$FRIEND_ID\", \"clanId\": \"$CLAN_ID\"}" | jq -r '.code')"
+check "Shared with the clan" "$CLAN_ID" \
+  "$(send $AUTHOR_TOKEN POST /api/recipes/$RECIPE_ID/share "{\"clanId\": \"$CLAN_ID\"}" | jq -r '.data.shares[] | select(.clanId) | .clanId')"
+
+echo -e "\nDeleting the recipe..."
+send $AUTHOR_TOKEN DELETE /api/recipes/$RECIPE_ID > /dev/null
+check "Friend no longer sees it" 0 "$(send $FRIEND_TOKEN GET /api/recipes | jq -r '.data | length')"
+
+echo -e "\nRecipe checks complete: $FAILURES failure(s)"
+exit $FAILURES
@@ -0,0 +1,82 @@
+#!/bin/bash
+
+# Conflict checks for records edited on two devices.
+# An update that sends the version it last saw must fail with 409
+# VERSION_CONFLICT once another device has saved a newer version, and the
+# response must carry the current record. Updates without a version still win.
+
+API_URL="http://localhost:4000"
+SUFFIX=$(date +%s)
+TODAY=$(date +%Y-%m-%d)
+NOW=$(date -u +%Y-%m-%dT%H:%M:%SZ)
+FAILURES=0
+
+# send <method> <path> <body>, prints "<status> <code or data.version>"
+send() {
+  RESPONSE=$(curl -s -w "\n%{http_code}" -X $1 $API_URL$2 \
+    -H "Content-Type: application/json" \
+    -H "Authorization: Bearer $TOKEN" \
+    -d "$3")
+  echo "$(echo "$RESPONSE" | tail -1) $(echo "$RESPONSE" | head -1 | jq -r '.code // .data.version')"
+}
+
+# check <description> <expected> <actual>
+check() {
+  if [ "$3" == "$2" ]; then
+    echo "PASS: $1 ($3)"
+  else
+    echo "FAIL: $1 (expected $2, got $3)"
+    FAILURES=$((FAILURES + 1))
+  fi
+}
+
+echo "Registering user..."
+TOKEN=$(curl -s -X POST $API_URL/api/auth/register \
+  -H "Content-Type: application/json" \
+  -d "{\"email\": \"conflict-$SUFFIX@example.com\", \"password\": \"test123\"}" | jq -r '.data.token')
+
+if [ "$TOKEN" == "null" ]; then
+  echo "Failed to register test user."
+  exit 1
+fi
+
+MEAL_ID=$(curl -s -X POST $API_URL/api/health/meals \
+  -H "Content-Type: application/json" \
+  -H "Authorization: Bearer $TOKEN" \
+  -d "{\"date\": \"$TODAY\", \"meal\": {\"type\": \"lunch\", \"name\": \"Salad\", \"calories\": 300, \"timestamp\": \"$NOW\"}}" \
+  | jq -r '.data.id')
+
+echo -e "\nTwo devices edit the same meal from version 1..."
+check "First device saves" "200 2" "$(send PUT /api/health/meals/$MEAL_ID '{"version": 1, "calories": 350}')"
+check "Second device is rejected" "409 VERSION_CONFLICT" "$(send PUT /api/health/meals/$MEAL_ID '{"version": 1, "calories": 400}')"
+
+CONFLICT=$(curl -s -X PUT $API_URL/api/health/meals/$MEAL_ID \
+  -H "Content-Type: application/json" \
+  -H "Authorization: Bearer $TOKEN" \
+  -d '{"version": 1, "calories": 400}')
+check "Conflict carries current calories" 350 "$(echo "$CONFLICT" | jq '.data.calories')"
+check "Conflict carries current version" 2 "$(echo "$CONFLICT" | jq '.data.version')"
+check "Retry on current version" "200 3" "$(send PUT /api/health/meals/$MEAL_ID '{"version": 2, "calories": 400}')"
+check "Update without version" "200 4" "$(send PUT /api/health/meals/$MEAL_ID '{"name": "Big salad"}')"
+
+echo -e "\nA fast stopped on one device..."
+FAST_ID=$(curl -s -X POST $API_URL/api/health/fasting \
+  -H "Content-Type: application/json" \
+  -H "Authorization: Bearer $TOKEN" \
+  -d '{"type": "16:8"}' | jq -r '.data.id')
+sleep 1
+check "Stop on first device" "200 2" "$(send POST /api/health/fasting/$FAST_ID/stop '{"version": 1}')"
+check "Stop on second device" "409 VERSION_CONFLICT" "$(send POST /api/health/fasting/$FAST_ID/stop '{"version": 1}')"
+check "Version below 1 is rejected" "400 VALIDATION_ERROR" "$(send POST /api/health/fasting/$FAST_ID/stop '{"version": 0}')"
+
+echo -e "\nSaving a day keeps metrics that were not sent..."
+curl -s -X POST $API_URL/api/health/daily -H "Content-Type: application/json" -H "Authorization: Bearer $TOKEN" \
+  -d "{\"date\": \"$TODAY\", \"steps\": 4200}" > /dev/null
+curl -s -X POST $API_URL/api/health/daily -H "Content-Type: application/json" -H "Authorization: Bearer $TOKEN" \
+  -d "{\"date\": \"$TODAY\", \"heartRate\": 70}" > /dev/null
+DAY=$(curl -s $API_URL/api/health/daily/$TODAY -H "Authorization: Bearer $TOKEN")
+check "Steps kept" 4200 "$(echo "$DAY" | jq '.data.steps')"
+check "Heart rate saved" 70 "$(echo "$DAY" | jq '.data.heartRate')"
+
+echo -e "\nConflict checks complete: $FAILURES failure(s)"
+exit $FAILURES
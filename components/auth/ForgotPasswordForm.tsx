@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, Alert } from 'react-native';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { requestPasswordReset } from '../../services/api/auth';
+
+interface ForgotPasswordFormProps {
+  onNavigateToReset: () => void;
+  onNavigateToLogin: () => void;
+}
+
+export const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({
+  onNavigateToReset,
+  onNavigateToLogin,
+}) => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+
+  const handleSubmit = async () => {
+    if (!email) {
+      setError('Email is required');
+      return;
+    }
+    if (!/\S+@\S+\.\S+/.test(email)) {
+      setError('Email is invalid');
+      return;
+    }
+    setError(undefined);
+
+    setLoading(true);
+    try {
+      await requestPasswordReset(email);
+      setSent(true);
+    } catch (error: any) {
+      Alert.alert('Request Failed', error.message || 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Forgot Password</Text>
+      <Text style={styles.subtitle}>
+        {sent
+          ? `If an account exists for ${email}, we've sent a reset code. It expires in 1 hour.`
+          : "Enter your email and we'll send you a code to reset your password."}
+      </Text>
+
+      {sent ? (
+        <>
+          <Button
+            title="Enter Reset Code"
+            onPress={onNavigateToReset}
+            style={styles.button}
+          />
+          <Button
+            title="Send Again"
+            variant="outline"
+            onPress={handleSubmit}
+            loading={loading}
+            style={styles.button}
+          />
+        </>
+      ) : (
+        <>
+          <Input
+            label="Email"
+            value={email}
+            onChangeText={setEmail}
+            placeholder="Enter your email"
+            keyboardType="email-address"
+            error={error}
+          />
+
+          <Button
+            title="Send Reset Code"
+            onPress={handleSubmit}
+            loading={loading}
+            style={styles.button}
+          />
+        </>
+      )}
+
+      <View style={styles.footer}>
+        <Text style={styles.footerText}>Remembered it? </Text>
+        <Text style={styles.link} onPress={onNavigateToLogin}>
+          Sign In
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 24,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 32,
+  },
+  button: {
+    marginTop: 8,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 24,
+  },
+  footerText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  link: {
+    fontSize: 14,
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+});
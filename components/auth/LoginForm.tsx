@@ -7,9 +7,10 @@ import { Ionicons } from '@expo/vector-icons';
 
 interface LoginFormProps {
   onNavigateToSignUp: () => void;
+  onNavigateToForgotPassword: () => void;
 }
 
-export const LoginForm: React.FC<LoginFormProps> = ({ onNavigateToSignUp }) => {
+export const LoginForm: React.FC<LoginFormProps> = ({ onNavigateToSignUp, onNavigateToForgotPassword }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -103,6 +104,10 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onNavigateToSignUp }) => {
           error={errors.password}
         />
 
+        <Text style={styles.forgotPassword} onPress={onNavigateToForgotPassword}>
+          Forgot password?
+        </Text>
+
         <Button
           title="Sign In"
           onPress={handleLogin}
@@ -222,6 +227,13 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 2,
   },
+  forgotPassword: {
+    alignSelf: 'flex-end',
+    fontSize: 14,
+    color: '#4CAF50',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
   divider: {
     flexDirection: 'row',
     alignItems: 'center',
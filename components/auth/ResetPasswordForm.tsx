@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, Alert } from 'react-native';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { resetPassword } from '../../services/api/auth';
+
+interface ResetPasswordFormProps {
+  initialToken?: string;
+  onResetComplete: () => void;
+  onNavigateToForgotPassword: () => void;
+}
+
+export const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({
+  initialToken,
+  onResetComplete,
+  onNavigateToForgotPassword,
+}) => {
+  const [token, setToken] = useState(initialToken || '');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<{
+    token?: string;
+    password?: string;
+    confirmPassword?: string;
+  }>({});
+
+  const validate = () => {
+    const newErrors: typeof errors = {};
+
+    if (!token.trim()) {
+      newErrors.token = 'Reset code is required';
+    }
+
+    if (!password) {
+      newErrors.password = 'Password is required';
+    } else if (password.length < 6) {
+      newErrors.password = 'Password must be at least 6 characters';
+    }
+
+    if (password !== confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleReset = async () => {
+    if (!validate()) return;
+
+    setLoading(true);
+    try {
+      await resetPassword(token.trim(), password);
+      Alert.alert(
+        'Password Reset',
+        'Your password has been changed and all devices have been signed out. Please sign in with your new password.',
+        [{ text: 'OK', onPress: onResetComplete }]
+      );
+    } catch (error: any) {
+      Alert.alert('Reset Failed', error.message || 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Reset Password</Text>
+      <Text style={styles.subtitle}>Enter the code from your email and choose a new password.</Text>
+
+      {!initialToken && (
+        <Input
+          label="Reset Code"
+          value={token}
+          onChangeText={setToken}
+          placeholder="Paste the code from your email"
+          error={errors.token}
+        />
+      )}
+
+      <Input
+        label="New Password"
+        value={password}
+        onChangeText={setPassword}
+        placeholder="Enter a new password"
+        secureTextEntry
+        error={errors.password}
+      />
+
+      <Input
+        label="Confirm Password"
+        value={confirmPassword}
+        onChangeText={setConfirmPassword}
+        placeholder="Confirm your new password"
+        secureTextEntry
+        error={errors.confirmPassword}
+      />
+
+      <Button
+        title="Reset Password"
+        onPress={handleReset}
+        loading={loading}
+        style={styles.button}
+      />
+
+      <View style={styles.footer}>
+        <Text style={styles.footerText}>Code expired? </Text>
+        <Text style={styles.link} onPress={onNavigateToForgotPassword}>
+          Send a new one
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 24,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 32,
+  },
+  button: {
+    marginTop: 8,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 24,
+  },
+  footerText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  link: {
+    fontSize: 14,
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, Text, Alert } from 'react-native';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { useAuth } from '../../context/AuthContext';
+import { sendVerificationEmail } from '../../services/api/auth';
+
+interface VerifyEmailFormProps {
+  initialToken?: string;
+  onDone: () => void;
+}
+
+export const VerifyEmailForm: React.FC<VerifyEmailFormProps> = ({ initialToken, onDone }) => {
+  const [token, setToken] = useState(initialToken || '');
+  const [loading, setLoading] = useState(false);
+  const [resending, setResending] = useState(false);
+  const [verified, setVerified] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+  const { user, verifyEmail } = useAuth();
+
+  const handleVerify = async (value: string = token) => {
+    if (!value.trim()) {
+      setError('Verification code is required');
+      return;
+    }
+    setError(undefined);
+
+    setLoading(true);
+    try {
+      await verifyEmail(value.trim());
+      setVerified(true);
+    } catch (error: any) {
+      setError(error.message || 'Invalid or expired code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Links from the verification email carry the token, so verify straight away
+  useEffect(() => {
+    if (initialToken) {
+      handleVerify(initialToken);
+    }
+  }, [initialToken]);
+
+  const handleResend = async () => {
+    setResending(true);
+    try {
+      await sendVerificationEmail();
+      Alert.alert('Email Sent', `We've sent a new verification code to ${user?.email}.`);
+    } catch (error: any) {
+      Alert.alert('Request Failed', error.message || 'An error occurred');
+    } finally {
+      setResending(false);
+    }
+  };
+
+  if (verified) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>Email Verified</Text>
+        <Text style={styles.subtitle}>Thanks for confirming your email address.</Text>
+        <Button title="Continue" onPress={onDone} style={styles.button} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Verify Email</Text>
+      <Text style={styles.subtitle}>Enter the code we sent to your email address.</Text>
+
+      <Input
+        label="Verification Code"
+        value={token}
+        onChangeText={setToken}
+        placeholder="Paste the code from your email"
+        error={error}
+      />
+
+      <Button
+        title="Verify"
+        onPress={() => handleVerify()}
+        loading={loading}
+        style={styles.button}
+      />
+
+      {user && (
+        <Button
+          title="Resend Email"
+          variant="outline"
+          onPress={handleResend}
+          loading={resending}
+          style={styles.button}
+        />
+      )}
+
+      <View style={styles.footer}>
+        <Text style={styles.link} onPress={onDone}>
+          Skip for now
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 24,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 32,
+  },
+  button: {
+    marginTop: 8,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 24,
+  },
+  link: {
+    fontSize: 14,
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,54 @@
+import React from 'react';
+import { View, StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useHealth } from '../../context/HealthContext';
+import { outboxService } from '../../services/sync/outbox';
+
+// Shows how many edits are saved on the device but not yet on the server.
+// Tapping retries right away instead of waiting for the next backoff.
+export const PendingSyncBadge: React.FC = () => {
+  const { pendingSync } = useHealth();
+
+  if (pendingSync.pending === 0) {
+    return null;
+  }
+
+  const label = pendingSync.syncing
+    ? 'Syncing…'
+    : `${pendingSync.pending} pending sync`;
+
+  return (
+    <TouchableOpacity
+      style={styles.badge}
+      onPress={() => outboxService.flush()}
+      disabled={pendingSync.syncing}
+      accessibilityLabel={`${pendingSync.pending} changes waiting to sync`}
+    >
+      <View style={styles.content}>
+        <Ionicons name="cloud-upload-outline" size={14} color="#E67E22" />
+        <Text style={styles.text}>{label}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#FDF2E9',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginTop: 6,
+  },
+  content: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  text: {
+    marginLeft: 4,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#E67E22',
+  },
+});
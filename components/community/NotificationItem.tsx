@@ -28,6 +28,8 @@ export const NotificationItem: React.FC<NotificationItemProps> = ({
         return 'close-circle';
       case 'CLAN_MEMBER_REMOVED':
         return 'person-remove';
+      case 'RECIPE_SHARED':
+        return 'restaurant';
       default:
         return 'notifications';
     }
@@ -37,6 +39,7 @@ export const NotificationItem: React.FC<NotificationItemProps> = ({
     switch (notification.type) {
       case 'FRIEND_REQUEST':
       case 'CLAN_INVITE':
+      case 'RECIPE_SHARED':
         return '#4CAF50';
       case 'FRIEND_ACCEPTED':
       case 'CLAN_INVITE_ACCEPTED':
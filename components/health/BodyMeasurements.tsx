@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, ScrollView, TouchableOpacity, Alert, Modal, Dimensions } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { LineChart } from 'react-native-chart-kit';
+import { format, parseISO, subDays } from 'date-fns';
+import { useHealth } from '../../context/HealthContext';
+import { MeasurementChanges, MeasurementKey } from '../../types';
+import { MEASUREMENT_KEYS, MEASUREMENT_LIMITS, DATE_KEY_PATTERN } from '../../backend/src/shared/domain';
+import { weightTrend } from '../../utils/bodyTrend';
+import { getChartKitConfig, graphColors } from '../../utils/graphConfig';
+import { GraphContainer } from '../common/GraphContainer';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+
+const screenWidth = Dimensions.get('window').width;
+
+const MEASUREMENT_FIELDS: Record<MeasurementKey, { label: string; unit: string }> = {
+  weight: { label: 'Weight', unit: 'kg' },
+  bodyFat: { label: 'Body Fat', unit: '%' },
+  waist: { label: 'Waist', unit: 'cm' },
+  hips: { label: 'Hips', unit: 'cm' },
+  chest: { label: 'Chest', unit: 'cm' },
+};
+
+// Days of weigh-ins shown in the chart
+const CHART_DAYS = 90;
+
+export const BodyMeasurements: React.FC = () => {
+  const { measurements, saveMeasurement, deleteMeasurement } = useHealth();
+  const [showLog, setShowLog] = useState(false);
+  const [logDate, setLogDate] = useState('');
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const trend = weightTrend(measurements);
+  const latest = trend[trend.length - 1];
+  const chartStart = format(subDays(new Date(), CHART_DAYS), 'yyyy-MM-dd');
+  const chartPoints = trend.filter(point => point.date >= chartStart);
+  // Trend change over the chart period, from its first weigh-in
+  const trendChange = chartPoints.length > 1 ? latest.trend - chartPoints[0].trend : 0;
+
+  const openLog = (date = format(new Date(), 'yyyy-MM-dd')) => {
+    const existing = measurements.find(measurement => measurement.date === date);
+    setLogDate(date);
+    setInputs(Object.fromEntries(MEASUREMENT_KEYS.map(key => [key, existing?.[key]?.toString() ?? ''])));
+    setShowLog(true);
+  };
+
+  const handleSave = async () => {
+    if (!DATE_KEY_PATTERN.test(logDate)) {
+      Alert.alert('Invalid Date', 'Enter the date as yyyy-MM-dd.');
+      return;
+    }
+
+    const existing = measurements.find(measurement => measurement.date === logDate);
+    const changes: MeasurementChanges = {};
+    for (const key of MEASUREMENT_KEYS) {
+      const text = (inputs[key] || '').trim();
+      if (!text) {
+        // Clearing a field removes the value logged earlier
+        if (existing?.[key] !== undefined) changes[key] = null;
+        continue;
+      }
+
+      const value = parseFloat(text);
+      if (isNaN(value) || value <= 0 || value > MEASUREMENT_LIMITS[key]) {
+        Alert.alert('Invalid Value', `${MEASUREMENT_FIELDS[key].label} must be between 0 and ${MEASUREMENT_LIMITS[key]}.`);
+        return;
+      }
+      changes[key] = value;
+    }
+
+    setSaving(true);
+    try {
+      await saveMeasurement(logDate, changes);
+      setShowLog(false);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (date: string) => {
+    Alert.alert('Delete Measurements', `Delete everything logged on ${format(parseISO(date), 'MMM d, yyyy')}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteMeasurement(date);
+          } catch (error: any) {
+            Alert.alert('Error', error.message);
+          }
+        },
+      },
+    ]);
+  };
+
+  // Fewer labels than points, so dates stay readable
+  const labelEvery = Math.max(Math.ceil(chartPoints.length / 5), 1);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>Body</Text>
+
+      {latest ? (
+        <View style={styles.summary}>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryValue}>{latest.trend.toFixed(1)} kg</Text>
+            <Text style={styles.summaryLabel}>Trend Weight</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryValue}>{latest.weight.toFixed(1)} kg</Text>
+            <Text style={styles.summaryLabel}>Last Weigh-in</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryValue}>
+              {trendChange > 0 ? '+' : ''}
+              {trendChange.toFixed(1)} kg
+            </Text>
+            <Text style={styles.summaryLabel}>{CHART_DAYS} Days</Text>
+          </View>
+        </View>
+      ) : (
+        <Text style={styles.emptyText}>Log your weight to see its trend.</Text>
+      )}
+
+      {chartPoints.length > 1 && (
+        <GraphContainer title="Weight" subtitle="Weigh-ins and smoothed trend" style={styles.graph}>
+          <LineChart
+            data={{
+              labels: chartPoints.map((point, index) =>
+                index % labelEvery === 0 ? format(parseISO(point.date), 'MMM d') : ''
+              ),
+              datasets: [
+                { data: chartPoints.map(point => point.weight), color: () => graphColors.light, strokeWidth: 1 },
+                { data: chartPoints.map(point => point.trend), color: () => graphColors.success, strokeWidth: 3 },
+              ],
+              legend: ['Weigh-in', 'Trend'],
+            }}
+            width={screenWidth - 72}
+            height={200}
+            chartConfig={{ ...getChartKitConfig(graphColors.success), decimalPlaces: 1 }}
+            withDots={chartPoints.length <= 31}
+            withShadow={false}
+            bezier
+          />
+        </GraphContainer>
+      )}
+
+      {[...measurements].reverse().slice(0, 5).map(measurement => (
+        <TouchableOpacity key={measurement.date} style={styles.entryRow} onPress={() => openLog(measurement.date)}>
+          <Text style={styles.entryDate}>{format(parseISO(measurement.date), 'MMM d')}</Text>
+          <Text style={styles.entryValues} numberOfLines={1}>
+            {MEASUREMENT_KEYS.filter(key => measurement[key] !== undefined)
+              .map(key => `${MEASUREMENT_FIELDS[key].label} ${measurement[key]} ${MEASUREMENT_FIELDS[key].unit}`)
+              .join(' · ')}
+          </Text>
+          <TouchableOpacity onPress={() => handleDelete(measurement.date)}>
+            <Ionicons name="trash-outline" size={20} color="#FF6B35" />
+          </TouchableOpacity>
+        </TouchableOpacity>
+      ))}
+
+      <TouchableOpacity style={styles.logAction} onPress={() => openLog()}>
+        <Ionicons name="add-circle" size={20} color="#4CAF50" />
+        <Text style={styles.logActionText}>Log Measurements</Text>
+      </TouchableOpacity>
+
+      <Modal visible={showLog} animationType="fade" transparent={true} onRequestClose={() => setShowLog(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Log Measurements</Text>
+            <ScrollView>
+              <Input label="Date" value={logDate} onChangeText={setLogDate} placeholder="yyyy-MM-dd" />
+              {MEASUREMENT_KEYS.map(key => (
+                <Input
+                  key={key}
+                  label={`${MEASUREMENT_FIELDS[key].label} (${MEASUREMENT_FIELDS[key].unit})`}
+                  value={inputs[key] ?? ''}
+                  onChangeText={text => setInputs(prev => ({ ...prev, [key]: text }))}
+                  placeholder="Not measured"
+                  keyboardType="numeric"
+                />
+              ))}
+            </ScrollView>
+            <Button title="Save" onPress={handleSave} loading={saving} style={styles.saveButton} />
+            <Button title="Cancel" variant="outline" onPress={() => setShowLog(false)} disabled={saving} />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    marginTop: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 16,
+  },
+  summary: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 12,
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 12,
+  },
+  graph: {
+    marginHorizontal: 0,
+    marginBottom: 12,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  entryDate: {
+    width: 56,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  entryValues: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+    marginRight: 8,
+  },
+  logAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    backgroundColor: '#F5F5F5',
+    borderRadius: 12,
+    marginTop: 12,
+  },
+  logActionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+    color: '#4CAF50',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    width: '90%',
+    maxHeight: '85%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  saveButton: {
+    marginTop: 8,
+    marginBottom: 12,
+  },
+});
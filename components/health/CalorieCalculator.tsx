@@ -1,21 +1,64 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { View, StyleSheet, Text, ScrollView, TextInput, TouchableOpacity } from 'react-native';
 import { useAuth } from '../../context/AuthContext';
-import { calculateBMR, calculateTDEE, calculateCalorieGoal } from '../../utils/calculations';
-import { UserProfile } from '../../types';
+import { useHealth } from '../../context/HealthContext';
+import { calculateBMR, calculateCalorieGoal } from '../../utils/calculations';
+import { latestWeighIn } from '../../utils/bodyTrend';
+import { DailyIntake, EXPENDITURE_WINDOW_DAYS, ExpenditureEstimate, estimateExpenditure } from '../../utils/expenditure';
+import {
+  MACRO_PRESETS,
+  MacroGoals,
+  MacroPreset,
+  MacroSplit,
+  gramsFromSplit,
+  gramsWithProteinPerKg,
+  macroCalories,
+  matchingSettings,
+  splitFromGrams,
+} from '../../utils/macros';
+import { healthRepository } from '../../services/repositories';
+import { Goals, UserProfile } from '../../types';
 import { Button } from '../common/Button';
+import { format, subDays } from 'date-fns';
+
+type MacroMode = MacroPreset | 'custom';
+type MacroInputs = Record<keyof MacroSplit, string>;
+
+const MACRO_FIELDS: { key: keyof MacroSplit; goal: keyof MacroGoals; label: string }[] = [
+  { key: 'carbs', goal: 'carbsGrams', label: 'Carbs' },
+  { key: 'protein', goal: 'proteinGrams', label: 'Protein' },
+  { key: 'fat', goal: 'fatGrams', label: 'Fat' },
+];
+
+const gramInputs = (goals: MacroGoals): MacroInputs => ({
+  carbs: String(goals.carbsGrams),
+  protein: String(goals.proteinGrams),
+  fat: String(goals.fatGrams),
+});
 
 export const CalorieCalculator: React.FC = () => {
-  const { userProfile, updateProfile } = useAuth();
+  const { user, userProfile, updateProfile } = useAuth();
+  const { goals, measurements, updateGoals, saveMeasurement } = useHealth();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  // The last weigh-in as logged, not the smoothed trend, so saving an
+  // unchanged form does not write the trend back as a weigh-in
+  const loggedWeight = latestWeighIn(measurements, today) ?? (userProfile?.weight || undefined);
   const [age, setAge] = useState(userProfile?.age?.toString() || '');
-  const [weight, setWeight] = useState(userProfile?.weight?.toString() || '');
+  const [weight, setWeight] = useState(loggedWeight?.toString() || '');
   const [height, setHeight] = useState(userProfile?.height?.toString() || '');
   const [gender, setGender] = useState<'male' | 'female' | 'other'>(userProfile?.gender || 'male');
   const [activityLevel, setActivityLevel] = useState(userProfile?.activityLevel || 'moderate');
   const [goal, setGoal] = useState<'lose' | 'maintain' | 'gain'>('maintain');
   const [bmr, setBmr] = useState(0);
-  const [tdee, setTdee] = useState(0);
+  const [expenditure, setExpenditure] = useState<ExpenditureEstimate | null>(null);
   const [calorieGoal, setCalorieGoal] = useState(0);
+  const [intake, setIntake] = useState<DailyIntake[]>([]);
+  // Macro targets start from the saved goals until the user changes them
+  const [macrosEdited, setMacrosEdited] = useState(false);
+  const [macroMode, setMacroMode] = useState<MacroMode>('custom');
+  const [customUnit, setCustomUnit] = useState<'percent' | 'grams'>('grams');
+  const [customInputs, setCustomInputs] = useState<MacroInputs>(gramInputs(goals));
+  const [proteinPerKg, setProteinPerKg] = useState('');
 
   const activityLevels = [
     { label: 'Sedentary', value: 'sedentary' as const },
@@ -25,9 +68,87 @@ export const CalorieCalculator: React.FC = () => {
     { label: 'Very Active', value: 'very_active' as const },
   ];
 
+  useEffect(() => {
+    loadIntake();
+  }, [user]);
+
   useEffect(() => {
     calculate();
-  }, [age, weight, height, gender, activityLevel, goal]);
+  }, [age, weight, height, gender, activityLevel, goal, intake, measurements]);
+
+  useEffect(() => {
+    if (macrosEdited) return;
+    // Only the grams are saved; the preset and protein per kg are read back from them
+    const settings = matchingSettings(goals, goals.caloriesIn, loggedWeight);
+    setMacroMode(settings?.preset ?? 'custom');
+    setProteinPerKg(settings?.proteinPerKg ? String(settings.proteinPerKg) : '');
+    setCustomUnit('grams');
+    setCustomInputs(gramInputs(goals));
+  }, [goals.caloriesIn, goals.carbsGrams, goals.proteinGrams, goals.fatGrams, loggedWeight]);
+
+  const editMacros = (edit: () => void) => {
+    setMacrosEdited(true);
+    edit();
+  };
+
+  // The calories the macro targets share: the recommendation, or the current
+  // goal until there is one
+  const macroBudget = calorieGoal > 0 ? calorieGoal : goals.caloriesIn;
+
+  // Null while custom percentages do not add up to 100
+  const macroGoals = useMemo((): MacroGoals | null => {
+    const bodyWeight = parseFloat(weight);
+    const perKg = parseFloat(proteinPerKg);
+    const byWeight = bodyWeight > 0 && perKg > 0;
+    const custom = Object.fromEntries(
+      MACRO_FIELDS.map(({ key }) => [key, parseFloat(customInputs[key]) || 0])
+    ) as MacroSplit;
+
+    if (macroMode === 'custom' && customUnit === 'grams') {
+      return {
+        carbsGrams: Math.round(custom.carbs),
+        proteinGrams: Math.round(byWeight ? bodyWeight * perKg : custom.protein),
+        fatGrams: Math.round(custom.fat),
+      };
+    }
+
+    const split = macroMode === 'custom' ? custom : MACRO_PRESETS[macroMode].split;
+    if (macroMode === 'custom' && Math.round(split.carbs + split.protein + split.fat) !== 100) {
+      return null;
+    }
+    return byWeight
+      ? gramsWithProteinPerKg(macroBudget, split, bodyWeight, perKg)
+      : gramsFromSplit(macroBudget, split);
+  }, [macroMode, customUnit, customInputs, proteinPerKg, weight, macroBudget]);
+
+  const handleCustomUnit = (unit: 'percent' | 'grams') =>
+    editMacros(() => {
+      setCustomUnit(unit);
+      // The inputs carry over as the same targets in the other unit
+      if (macroGoals) {
+        const split = splitFromGrams(macroGoals);
+        setCustomInputs(
+          unit === 'grams'
+            ? gramInputs(macroGoals)
+            : { carbs: String(split.carbs), protein: String(split.protein), fat: String(split.fat) }
+        );
+      }
+    });
+
+  // Intake of the days the expenditure estimate learns from
+  const loadIntake = async () => {
+    if (!user) return;
+    try {
+      const rows = await healthRepository.getHealthRange(
+        format(subDays(new Date(), EXPENDITURE_WINDOW_DAYS), 'yyyy-MM-dd'),
+        today,
+        'day'
+      );
+      setIntake(rows.map(row => ({ date: row.start, caloriesConsumed: row.totalCaloriesConsumed })));
+    } catch (error) {
+      console.error('Error loading intake:', error);
+    }
+  };
 
   const calculate = () => {
     if (!age || !weight || !height) return;
@@ -41,11 +162,11 @@ export const CalorieCalculator: React.FC = () => {
     };
 
     const calculatedBMR = calculateBMR(profile);
-    const calculatedTDEE = calculateTDEE(profile);
-    const calculatedGoal = calculateCalorieGoal(calculatedTDEE, goal);
+    const estimate = estimateExpenditure(profile, intake, measurements, today);
+    const calculatedGoal = calculateCalorieGoal(estimate.tdee, goal);
 
     setBmr(Math.round(calculatedBMR));
-    setTdee(Math.round(calculatedTDEE));
+    setExpenditure(estimate);
     setCalorieGoal(calculatedGoal);
   };
 
@@ -63,6 +184,26 @@ export const CalorieCalculator: React.FC = () => {
     };
 
     await updateProfile(profile);
+
+    // A new weight is logged for today, so the trend and past days stay right
+    if (profile.weight !== loggedWeight) {
+      await saveMeasurement(today, { weight: profile.weight });
+    }
+
+    // The recommendation and the macro targets become the goals rings and
+    // trackers use
+    const changes: Partial<Goals> = {};
+    if (calorieGoal > 0 && calorieGoal !== goals.caloriesIn) {
+      changes.caloriesIn = calorieGoal;
+    }
+    for (const { goal: key } of MACRO_FIELDS) {
+      if (macroGoals && macroGoals[key] !== goals[key]) {
+        changes[key] = macroGoals[key];
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      await updateGoals(changes);
+    }
   };
 
   return (
@@ -160,7 +301,64 @@ export const CalorieCalculator: React.FC = () => {
           ))}
         </View>
 
-        {bmr > 0 && (
+        <Text style={styles.label}>Macros</Text>
+        <View style={styles.goalSelector}>
+          {([...(Object.keys(MACRO_PRESETS) as MacroPreset[]), 'custom'] as MacroMode[]).map(mode => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.goalButton, styles.macroButton, macroMode === mode && styles.goalButtonActive]}
+              onPress={() => editMacros(() => setMacroMode(mode))}
+            >
+              <Text style={[styles.macroButtonText, macroMode === mode && styles.goalButtonTextActive]}>
+                {mode === 'custom' ? 'Custom' : MACRO_PRESETS[mode].label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {macroMode === 'custom' && (
+          <>
+            <View style={[styles.goalSelector, styles.macroUnits]}>
+              {(['percent', 'grams'] as const).map(unit => (
+                <TouchableOpacity
+                  key={unit}
+                  style={[styles.goalButton, styles.macroButton, customUnit === unit && styles.goalButtonActive]}
+                  onPress={() => handleCustomUnit(unit)}
+                >
+                  <Text style={[styles.macroButtonText, customUnit === unit && styles.goalButtonTextActive]}>
+                    {unit === 'percent' ? '% of calories' : 'Grams'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.macroInputs}>
+              {MACRO_FIELDS.map(({ key, label }) => (
+                <View key={key} style={styles.macroInput}>
+                  <Text style={styles.macroInputLabel}>
+                    {label} ({customUnit === 'percent' ? '%' : 'g'})
+                  </Text>
+                  <TextInput
+                    style={styles.input}
+                    value={customInputs[key]}
+                    onChangeText={value => editMacros(() => setCustomInputs(prev => ({ ...prev, [key]: value })))}
+                    keyboardType="numeric"
+                  />
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        <Text style={styles.label}>Protein per kg of body weight (optional)</Text>
+        <TextInput
+          style={styles.input}
+          value={proteinPerKg}
+          onChangeText={value => editMacros(() => setProteinPerKg(value))}
+          keyboardType="numeric"
+          placeholder="e.g. 1.6 g/kg"
+        />
+
+        {bmr > 0 && expenditure && (
           <View style={styles.results}>
             <View style={styles.resultCard}>
               <Text style={styles.resultLabel}>BMR</Text>
@@ -172,10 +370,18 @@ export const CalorieCalculator: React.FC = () => {
 
             <View style={styles.resultCard}>
               <Text style={styles.resultLabel}>TDEE</Text>
-              <Text style={styles.resultValue}>{tdee} kcal</Text>
+              <Text style={styles.resultValue}>{expenditure.tdee} kcal</Text>
               <Text style={styles.resultDescription}>
                 Total Daily Energy Expenditure
               </Text>
+              <Text style={[styles.resultDescription, styles.resultNote]}>
+                {expenditure.adaptiveTdee !== undefined
+                  ? `Learned from ${expenditure.loggedDays} days of logged meals and your weight trend ` +
+                    `(${Math.round(expenditure.confidence * 100)}% confidence; ${expenditure.adaptiveTdee} kcal ` +
+                    `from the logs, ${expenditure.formulaTdee} kcal from your activity level).`
+                  : 'Estimated from your activity level. Log meals and weigh-ins for a few weeks ' +
+                    'to learn your actual expenditure.'}
+              </Text>
             </View>
 
             <View style={[styles.resultCard, styles.resultCardHighlight]}>
@@ -184,12 +390,40 @@ export const CalorieCalculator: React.FC = () => {
                 {calorieGoal} kcal
               </Text>
               <Text style={styles.resultDescription}>
-                Recommended daily calorie intake to {goal} weight
+                Recommended daily calorie intake to {goal} weight. Saving makes it your
+                goal from today (currently {goals.caloriesIn} kcal).
               </Text>
             </View>
           </View>
         )}
 
+        <View style={[styles.resultCard, !(bmr > 0 && expenditure) && styles.macroCard]}>
+          <Text style={styles.resultLabel}>Macro Targets</Text>
+          {macroGoals ? (
+            <>
+              <Text style={styles.macroValue}>
+                C: {macroGoals.carbsGrams}g · P: {macroGoals.proteinGrams}g · F: {macroGoals.fatGrams}g
+              </Text>
+              <Text style={styles.resultDescription}>
+                {(() => {
+                  const split = splitFromGrams(macroGoals);
+                  const calories = macroCalories(macroGoals);
+                  return (
+                    `${split.carbs}% carbs, ${split.protein}% protein, ${split.fat}% fat of ${calories} kcal` +
+                    (Math.abs(calories - macroBudget) > macroBudget * 0.05
+                      ? `, while the calorie goal is ${macroBudget} kcal. `
+                      : '. ')
+                  );
+                })()}
+                Saving makes these your macro goals from today (currently C: {goals.carbsGrams}g · P:{' '}
+                {goals.proteinGrams}g · F: {goals.fatGrams}g).
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.resultDescription}>The percentages need to add up to 100.</Text>
+          )}
+        </View>
+
         <Button
           title="Save Profile"
           onPress={handleSaveProfile}
@@ -302,6 +536,38 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
+  macroButton: {
+    paddingHorizontal: 4,
+  },
+  macroButtonText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  macroUnits: {
+    marginTop: 12,
+  },
+  macroInputs: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  macroInput: {
+    flex: 1,
+  },
+  macroInputLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  macroCard: {
+    marginTop: 24,
+  },
+  macroValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
   results: {
     marginTop: 24,
   },
@@ -335,6 +601,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  resultNote: {
+    marginTop: 8,
+  },
   saveButton: {
     marginTop: 24,
   },
@@ -5,21 +5,37 @@ import * as ImagePicker from 'expo-image-picker';
 import { Ionicons } from '@expo/vector-icons';
 import { useHealth } from '../../context/HealthContext';
 import { useAuth } from '../../context/AuthContext';
-import { Meal, MealSuggestion } from '../../types';
+import { useRouter } from 'expo-router';
+import { Meal, MealItem, MealSuggestion, NutrientKey, Nutrients, RecognizedFood } from '../../types';
 import { Button } from '../common/Button';
-import { getMealSuggestions, saveMealSuggestion, getWeeklyHealthData } from '../../services/storage/firestore';
+import { healthRepository } from '../../services/repositories';
 import { GraphContainer } from '../common/GraphContainer';
 import { PieChart, BarChart } from 'react-native-chart-kit';
 import { graphColors, pieChartColors, getChartKitConfig, formatLargeNumber } from '../../utils/graphConfig';
 import { prepareLastNDaysPoints, preparePieChartData } from '../../utils/graphHelpers';
 import { format, subDays, eachDayOfInterval } from 'date-fns';
-import { analyzeFoodImage } from '../../services/food/foodRecognition';
+import { RecognitionUnavailableError, analyzeFoodImage, learnFromCorrections } from '../../services/food/foodRecognition';
+import { FoodPortion, describeItemAmount, mealTotals, portionToItem, scaleItem } from '../../utils/foods';
+import { FoodSearch } from './FoodSearch';
+import { RecipePicker } from './RecipePicker';
+import { RecognizedFoods } from './RecognizedFoods';
+import { MealTextEntry } from './MealTextEntry';
+import { NutrientBreakdown } from './NutrientBreakdown';
+import { NUTRIENT_KEYS, NUTRIENT_UNITS } from '../../backend/src/shared/domain';
+import { NUTRIENT_LABELS, toNutrients } from '../../utils/nutrients';
+import { mealTypeTargets, remainingMacros } from '../../utils/macros';
 
 const screenWidth = Dimensions.get('window').width;
 
+type NutrientInputs = Partial<Record<NutrientKey, string>>;
+
+const toNutrientInputs = (nutrients?: Nutrients): NutrientInputs =>
+  Object.fromEntries(Object.entries(nutrients || {}).map(([key, value]) => [key, String(value)]));
+
 export const DietTracker: React.FC = () => {
-  const { todayData, addMeal } = useHealth();
+  const { todayData, addMeal, updateMeal, goals } = useHealth();
   const { user } = useAuth();
+  const router = useRouter();
   const [showAddMeal, setShowAddMeal] = useState(false);
   const [mealType, setMealType] = useState<'breakfast' | 'lunch' | 'dinner' | 'snack'>('breakfast');
   const [mealName, setMealName] = useState('');
@@ -27,6 +43,14 @@ export const DietTracker: React.FC = () => {
   const [carbs, setCarbs] = useState('');
   const [protein, setProtein] = useState('');
   const [fat, setFat] = useState('');
+  const [nutrientInputs, setNutrientInputs] = useState<NutrientInputs>({});
+  const [showNutrientInputs, setShowNutrientInputs] = useState(false);
+  // A meal made of items takes its totals from them; the nutrition inputs
+  // then add another item
+  const [items, setItems] = useState<MealItem[]>([]);
+  const [itemName, setItemName] = useState('');
+  // Set while an existing meal is being edited instead of a new one added
+  const [editingMeal, setEditingMeal] = useState<Meal | null>(null);
   const [mealSuggestions, setMealSuggestions] = useState<MealSuggestion[]>([]);
   const [weeklyData, setWeeklyData] = useState<{ date: string; caloriesConsumed: number }[]>([]);
   const [LineGraphComponent, setLineGraphComponent] = useState<any>(null);
@@ -35,6 +59,7 @@ export const DietTracker: React.FC = () => {
   // Image upload states
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [analyzingImage, setAnalyzingImage] = useState(false);
+  const [recognizedFoods, setRecognizedFoods] = useState<RecognizedFood[] | null>(null);
 
   const mealTypes = [
     { label: 'Breakfast', value: 'breakfast' as const },
@@ -79,7 +104,7 @@ export const DietTracker: React.FC = () => {
   const loadMealSuggestions = async () => {
     if (!user) return;
     try {
-      const suggestions = await getMealSuggestions(user.uid);
+      const suggestions = await healthRepository.getMealSuggestions();
       setMealSuggestions(suggestions);
     } catch (error) {
       console.error('Error loading meal suggestions:', error);
@@ -90,8 +115,9 @@ export const DietTracker: React.FC = () => {
     if (!user) return;
     setLoading(true);
     try {
-      const data = await getWeeklyHealthData(user.uid);
-      setWeeklyData(data.map(d => ({ date: d.date, caloriesConsumed: d.caloriesConsumed })));
+      const today = new Date();
+      const rows = await healthRepository.getHealthRange(format(subDays(today, 7), 'yyyy-MM-dd'), format(today, 'yyyy-MM-dd'));
+      setWeeklyData(rows.map(row => ({ date: row.start, caloriesConsumed: row.totalCaloriesConsumed })));
     } catch (error) {
       console.error('Error loading weekly data:', error);
     } finally {
@@ -109,11 +135,13 @@ export const DietTracker: React.FC = () => {
   }, [mealSuggestions, mealType, mealName]);
 
   const handleSelectSuggestion = (suggestion: MealSuggestion) => {
+    setItems([]);
     setMealName(suggestion.name);
     setCalories(String(suggestion.calories || 0));
     setCarbs(String(suggestion.macros?.carbs || 0));
     setProtein(String(suggestion.macros?.protein || 0));
     setFat(String(suggestion.macros?.fat || 0));
+    setNutrientInputs({});
   };
 
   // Request image picker permissions
@@ -162,9 +190,9 @@ export const DietTracker: React.FC = () => {
       });
 
       if (!result.canceled && result.assets[0]) {
-        const imageUri = result.assets[0].uri;
-        setSelectedImage(imageUri);
-        await analyzeImage(imageUri);
+        const { uri, mimeType } = result.assets[0];
+        setSelectedImage(uri);
+        await analyzeImage(uri, mimeType);
       }
     } catch (error) {
       console.error('Error picking image:', error);
@@ -185,9 +213,9 @@ export const DietTracker: React.FC = () => {
       });
 
       if (!result.canceled && result.assets[0]) {
-        const imageUri = result.assets[0].uri;
-        setSelectedImage(imageUri);
-        await analyzeImage(imageUri);
+        const { uri, mimeType } = result.assets[0];
+        setSelectedImage(uri);
+        await analyzeImage(uri, mimeType);
       }
     } catch (error) {
       console.error('Error taking photo:', error);
@@ -195,26 +223,26 @@ export const DietTracker: React.FC = () => {
     }
   };
 
-  // Analyze the selected image
-  const analyzeImage = async (imageUri: string) => {
+  // Recognize the foods on the selected image, to be checked before they are added
+  const analyzeImage = async (imageUri: string, mimeType?: string | null) => {
     setAnalyzingImage(true);
+    setRecognizedFoods(null);
     try {
-      const result = await analyzeFoodImage(imageUri);
-      
-      // Auto-fill the form with detected values
-      setMealName(result.name);
-      setCalories(String(result.calories));
-      setProtein(String(result.protein));
-      setCarbs(String(result.carbs));
-      setFat(String(result.fat));
-
-      Alert.alert(
-        'Food Detected! 🎉',
-        `Detected: ${result.name}\n\nCalories: ${result.calories} kcal\nProtein: ${result.protein}g\nCarbs: ${result.carbs}g\nFat: ${result.fat}g\n\nValues have been filled in automatically. You can edit them if needed.`,
-        [{ text: 'OK' }]
-      );
+      const foods = await analyzeFoodImage(imageUri, mimeType);
+      if (foods.length === 0) {
+        Alert.alert('No Food Found', 'Could not find any food on the photo. Please search for it or enter it manually.');
+        return;
+      }
+      setRecognizedFoods(foods);
     } catch (error: any) {
       console.error('Error analyzing image:', error);
+      if (error instanceof RecognitionUnavailableError) {
+        Alert.alert(
+          'Photo Recognition Unavailable',
+          `${error.message}. You can still search the food database or enter the meal manually.`
+        );
+        return;
+      }
       Alert.alert(
         'Analysis Failed',
         error.message || 'Could not analyze the food image. Please enter the details manually.'
@@ -224,22 +252,116 @@ export const DietTracker: React.FC = () => {
     }
   };
 
+  const handleAddRecognizedFoods = (foods: RecognizedFood[], recognizedItems: MealItem[]) => {
+    setItems(prev => [...prev, ...recognizedItems]);
+    if (!mealName) setMealName(recognizedItems.map(item => item.name).join(', '));
+    setRecognizedFoods(null);
+    learnFromCorrections(foods, recognizedItems);
+  };
+
+  const handleAddTextItems = (textItems: MealItem[]) => {
+    setItems(prev => [...prev, ...textItems]);
+    if (!mealName) setMealName(textItems.map(item => item.name).join(', '));
+  };
+
+  const manualNutrition = (): Pick<Meal, 'calories' | 'macros' | 'nutrients'> => ({
+    calories: parseInt(calories) || 0,
+    macros: {
+      carbs: parseInt(carbs) || 0,
+      protein: parseInt(protein) || 0,
+      fat: parseInt(fat) || 0,
+    },
+    nutrients: toNutrients(
+      Object.fromEntries(Object.entries(nutrientInputs).map(([key, value]) => [key, parseFloat(value || '')]))
+    ),
+  });
+
+  const clearNutritionInputs = () => {
+    setItemName('');
+    setCalories('');
+    setCarbs('');
+    setProtein('');
+    setFat('');
+    setNutrientInputs({});
+  };
+
+  const handleSelectFood = (portion: FoodPortion) => {
+    setItems(prev => [...prev, portionToItem(portion)]);
+    if (!mealName) setMealName(portion.food.name);
+  };
+
+  const handleSelectRecipe = (item: MealItem) => {
+    setItems(prev => [...prev, item]);
+    if (!mealName) setMealName(item.name);
+  };
+
+  // Turn the nutrition inputs into an item, e.g. for a food not in the database
+  const handleAddManualItem = () => {
+    const name = itemName.trim() || (items.length === 0 ? mealName.trim() : '');
+    if (!name || !calories) {
+      Alert.alert('Error', 'Please fill in item name and calories');
+      return;
+    }
+
+    setItems(prev => [...prev, { name, quantity: 1, unit: 'serving', ...manualNutrition() }]);
+    clearNutritionInputs();
+  };
+
+  const handleChangeItemQuantity = (index: number, text: string) => {
+    const quantity = parseFloat(text);
+    if (!(quantity > 0)) return;
+    setItems(prev => prev.map((item, i) => (i === index ? scaleItem(item, quantity) : item)));
+  };
+
+  const handleRemoveItem = (index: number) => {
+    setItems(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleEditMeal = (meal: Meal) => {
+    setEditingMeal(meal);
+    setMealType(meal.type);
+    setMealName(meal.name);
+    setItems(meal.items || []);
+    clearNutritionInputs();
+    if (!meal.items?.length) {
+      setCalories(String(meal.calories));
+      setCarbs(String(meal.macros.carbs));
+      setProtein(String(meal.macros.protein));
+      setFat(String(meal.macros.fat));
+      setNutrientInputs(toNutrientInputs(meal.nutrients));
+    }
+    setShowAddMeal(true);
+  };
+
+  const resetMealForm = () => {
+    setShowAddMeal(false);
+    setEditingMeal(null);
+    setMealName('');
+    setItems([]);
+    clearNutritionInputs();
+    setSelectedImage(null);
+    setRecognizedFoods(null);
+  };
+
   const handleAddMeal = async () => {
-    if (!mealName || !calories) {
+    if (!mealName || (!calories && items.length === 0)) {
       Alert.alert('Error', 'Please fill in meal name and calories');
       return;
     }
 
+    const nutrition = items.length > 0 ? { ...mealTotals(items), items } : { ...manualNutrition(), items: undefined };
+
+    if (editingMeal) {
+      await updateMeal({ ...editingMeal, type: mealType, name: mealName, ...nutrition });
+      resetMealForm();
+      return;
+    }
+
     const meal: Meal = {
       id: Date.now().toString(),
       type: mealType,
       name: mealName,
-      calories: parseInt(calories) || 0,
-      macros: {
-        carbs: parseInt(carbs) || 0,
-        protein: parseInt(protein) || 0,
-        fat: parseInt(fat) || 0,
-      },
+      ...nutrition,
       timestamp: new Date(),
     };
 
@@ -247,7 +369,7 @@ export const DietTracker: React.FC = () => {
 
     if (user) {
       try {
-        const suggestionId = await saveMealSuggestion(user.uid, {
+        const suggestionId = await healthRepository.saveMealSuggestion({
           type: meal.type,
           name: meal.name,
           calories: meal.calories,
@@ -272,13 +394,7 @@ export const DietTracker: React.FC = () => {
       }
     }
 
-    setShowAddMeal(false);
-    setMealName('');
-    setCalories('');
-    setCarbs('');
-    setProtein('');
-    setFat('');
-    setSelectedImage(null);
+    resetMealForm();
   };
 
   const getMealsByType = (type: string) => {
@@ -289,25 +405,50 @@ export const DietTracker: React.FC = () => {
     return todayData?.caloriesConsumed || 0;
   };
 
+  const remaining = remainingMacros(goals, todayData?.meals || []);
+  const targets = mealTypeTargets(goals, todayData?.meals || []);
+  const describeRemaining = (grams: number) => (grams >= 0 ? `${grams}g` : `${-grams}g over`);
+
   return (
     <ScrollView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Diet Tracker</Text>
-        <Text style={styles.calories}>Total: {getTotalCalories()} kcal</Text>
+        <Text style={styles.calories}>Total: {getTotalCalories()} / {goals.caloriesIn} kcal</Text>
+        <View style={styles.remaining}>
+          <Text style={styles.macros}>Left today:</Text>
+          {([
+            ['C', remaining.carbs],
+            ['P', remaining.protein],
+            ['F', remaining.fat],
+          ] as const).map(([label, grams]) => (
+            <Text key={label} style={[styles.macros, grams < 0 && styles.over]}>
+              {label}: {describeRemaining(grams)}
+            </Text>
+          ))}
+        </View>
       </View>
 
       {!showAddMeal ? (
         <>
           {mealTypes.map(({ label, value }) => {
             const meals = getMealsByType(value);
+            const target = targets[value];
             return (
               <View key={value} style={styles.section}>
                 <Text style={styles.sectionTitle}>{label}</Text>
                 {meals.length === 0 ? (
-                  <Text style={styles.emptyText}>No meals logged</Text>
+                  <>
+                    <Text style={styles.emptyText}>No meals logged</Text>
+                    {target && target.calories > 0 && (
+                      <Text style={styles.target}>
+                        Suggested: about {target.calories} kcal · C: {target.macros.carbs}g P:{' '}
+                        {target.macros.protein}g F: {target.macros.fat}g
+                      </Text>
+                    )}
+                  </>
                 ) : (
                   meals.map(meal => (
-                    <View key={meal.id} style={styles.mealItem}>
+                    <TouchableOpacity key={meal.id} style={styles.mealItem} onPress={() => handleEditMeal(meal)}>
                       <View style={styles.mealInfo}>
                         <Text style={styles.mealName}>{meal.name}</Text>
                         <Text style={styles.mealCalories}>{meal.calories} kcal</Text>
@@ -317,7 +458,12 @@ export const DietTracker: React.FC = () => {
                           C: {meal.macros.carbs}g P: {meal.macros.protein}g F: {meal.macros.fat}g
                         </Text>
                       )}
-                    </View>
+                      {meal.items?.map((item, index) => (
+                        <Text key={index} style={styles.mealItemLine}>
+                          {describeItemAmount(item)} {item.name} · {item.calories} kcal
+                        </Text>
+                      ))}
+                    </TouchableOpacity>
                   ))
                 )}
               </View>
@@ -353,10 +499,20 @@ export const DietTracker: React.FC = () => {
                   paddingLeft="15"
                   absolute
                 />
+                <Text style={styles.macros}>
+                  C: {totalCarbs}g of {goals.carbsGrams}g · P: {totalProtein}g of {goals.proteinGrams}g · F:{' '}
+                  {totalFat}g of {goals.fatGrams}g goal
+                </Text>
               </GraphContainer>
             );
           })()}
 
+          {todayData && todayData.meals.length > 0 && (
+            <GraphContainer title="Today's Nutrients" style={styles.graphSection}>
+              <NutrientBreakdown meals={todayData.meals} profile={user?.profile} />
+            </GraphContainer>
+          )}
+
           {/* Daily Calories Trend */}
           {weeklyData.length > 0 && (
             <GraphContainer
@@ -398,10 +554,22 @@ export const DietTracker: React.FC = () => {
             onPress={() => setShowAddMeal(true)}
             style={styles.addButton}
           />
+          <Button
+            title="Recipes"
+            onPress={() => router.push('/recipes')}
+            variant="outline"
+            style={styles.recipesButton}
+          />
+          <Button
+            title="Meal Plan"
+            onPress={() => router.push('/meal-plan')}
+            variant="outline"
+            style={styles.recipesButton}
+          />
         </>
       ) : (
         <View style={styles.addMealForm}>
-          <Text style={styles.formTitle}>Add Meal</Text>
+          <Text style={styles.formTitle}>{editingMeal ? 'Edit Meal' : 'Add Meal'}</Text>
           
           {/* Image Upload Section */}
           <View style={styles.imageUploadSection}>
@@ -443,7 +611,7 @@ export const DietTracker: React.FC = () => {
                   style={styles.removeImageButton}
                   onPress={() => {
                     setSelectedImage(null);
-                    // Optionally clear form fields when removing image
+                    setRecognizedFoods(null);
                   }}
                 >
                   <Ionicons name="close-circle" size={28} color="#E74C3C" />
@@ -452,6 +620,16 @@ export const DietTracker: React.FC = () => {
             )}
           </View>
 
+          {recognizedFoods && (
+            <RecognizedFoods
+              foods={recognizedFoods}
+              onAdd={handleAddRecognizedFoods}
+              onDismiss={() => setRecognizedFoods(null)}
+            />
+          )}
+
+          <MealTextEntry suggestions={mealSuggestions} onAdd={handleAddTextItems} />
+
           <View style={styles.mealTypeSelector}>
             {mealTypes.map(({ label, value }) => (
               <TouchableOpacity
@@ -498,6 +676,63 @@ export const DietTracker: React.FC = () => {
               </View>
             </View>
           )}
+          {items.length > 0 && (() => {
+            const totals = mealTotals(items);
+            return (
+              <View style={styles.itemList}>
+                <Text style={styles.suggestionsTitle}>Items</Text>
+                {items.map((item, index) => (
+                  <View key={`${index}-${item.name}`} style={styles.itemRow}>
+                    <View style={styles.itemInfo}>
+                      <Text style={styles.itemName}>{item.name}</Text>
+                      <Text style={styles.macros}>
+                        {item.calories} kcal · C: {item.macros.carbs}g P: {item.macros.protein}g F: {item.macros.fat}g
+                      </Text>
+                    </View>
+                    <TextInput
+                      style={styles.itemQuantity}
+                      defaultValue={String(item.quantity)}
+                      onEndEditing={(event) => handleChangeItemQuantity(index, event.nativeEvent.text)}
+                      keyboardType="numeric"
+                    />
+                    <Text style={styles.itemUnit} numberOfLines={1}>
+                      {item.unit}
+                    </Text>
+                    <TouchableOpacity onPress={() => handleRemoveItem(index)}>
+                      <Ionicons name="close-circle" size={22} color="#999" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                <View style={styles.foodPortion}>
+                  <View style={styles.mealInfo}>
+                    <Text style={styles.mealName}>Total</Text>
+                    <Text style={styles.mealCalories}>{totals.calories} kcal</Text>
+                  </View>
+                  <Text style={styles.macros}>
+                    C: {totals.macros.carbs}g P: {totals.macros.protein}g F: {totals.macros.fat}g
+                  </Text>
+                </View>
+              </View>
+            );
+          })()}
+
+          <Text style={styles.suggestionsTitle}>Food Database</Text>
+          <FoodSearch onSelect={handleSelectFood} />
+
+          <Text style={styles.suggestionsTitle}>Recipes</Text>
+          <RecipePicker onSelect={handleSelectRecipe} />
+
+          {items.length > 0 && (
+            <>
+              <Text style={styles.suggestionsTitle}>Add Item Manually</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Item name"
+                value={itemName}
+                onChangeText={setItemName}
+              />
+            </>
+          )}
           <TextInput
             style={styles.input}
             placeholder="Calories"
@@ -526,16 +761,35 @@ export const DietTracker: React.FC = () => {
             onChangeText={setFat}
             keyboardType="numeric"
           />
+          <TouchableOpacity onPress={() => setShowNutrientInputs(!showNutrientInputs)} style={styles.addItemButton}>
+            <Ionicons name={showNutrientInputs ? 'chevron-up' : 'chevron-down'} size={20} color="#4CAF50" />
+            <Text style={styles.foodPortionChange}>Fiber, Sodium & More</Text>
+          </TouchableOpacity>
+          {showNutrientInputs &&
+            NUTRIENT_KEYS.map(key => (
+              <TextInput
+                key={key}
+                style={styles.input}
+                placeholder={`${NUTRIENT_LABELS[key]} (${NUTRIENT_UNITS[key]})`}
+                value={nutrientInputs[key] ?? ''}
+                onChangeText={text => setNutrientInputs(prev => ({ ...prev, [key]: text }))}
+                keyboardType="numeric"
+              />
+            ))}
+          <TouchableOpacity onPress={handleAddManualItem} style={styles.addItemButton}>
+            <Ionicons name="add-circle-outline" size={20} color="#4CAF50" />
+            <Text style={styles.foodPortionChange}>Add as Item</Text>
+          </TouchableOpacity>
 
           <View style={styles.formButtons}>
             <Button
               title="Cancel"
-              onPress={() => setShowAddMeal(false)}
+              onPress={editingMeal ? resetMealForm : () => setShowAddMeal(false)}
               variant="outline"
               style={styles.cancelButton}
             />
             <Button
-              title="Add"
+              title={editingMeal ? 'Save' : 'Add'}
               onPress={handleAddMeal}
               style={styles.submitButton}
             />
@@ -568,6 +822,14 @@ const styles = StyleSheet.create({
     color: '#4CAF50',
     fontWeight: '600',
   },
+  remaining: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  over: {
+    color: '#E74C3C',
+  },
   section: {
     backgroundColor: '#fff',
     marginTop: 12,
@@ -583,6 +845,11 @@ const styles = StyleSheet.create({
     color: '#999',
     fontStyle: 'italic',
   },
+  target: {
+    fontSize: 12,
+    color: '#4CAF50',
+    marginTop: 4,
+  },
   mealItem: {
     paddingVertical: 12,
     borderBottomWidth: 1,
@@ -610,6 +877,10 @@ const styles = StyleSheet.create({
   addButton: {
     margin: 20,
   },
+  recipesButton: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+  },
   addMealForm: {
     padding: 20,
     backgroundColor: '#fff',
@@ -654,6 +925,61 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     fontSize: 16,
   },
+  foodPortion: {
+    padding: 12,
+    marginBottom: 12,
+    borderRadius: 8,
+    backgroundColor: '#f3f7f6',
+  },
+  foodPortionChange: {
+    fontSize: 14,
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  mealItemLine: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  itemList: {
+    marginBottom: 12,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+    color: '#333',
+  },
+  itemQuantity: {
+    width: 56,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 6,
+    fontSize: 14,
+    textAlign: 'right',
+  },
+  itemUnit: {
+    width: 64,
+    fontSize: 12,
+    color: '#666',
+  },
+  addItemButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 16,
+  },
   suggestionsContainer: {
     marginBottom: 12,
   },
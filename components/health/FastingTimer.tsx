@@ -5,8 +5,8 @@ import { useHealth } from '../../context/HealthContext';
 import { useAuth } from '../../context/AuthContext';
 import { Button } from '../common/Button';
 import { CircularProgress } from '../common/CircularProgress';
-import { format, differenceInHours, differenceInMinutes, differenceInSeconds, startOfWeek, endOfWeek, eachDayOfInterval, getDate, subDays } from 'date-fns';
-import { getWeeklyFastingData, getMonthlyFastingData } from '../../services/storage/firestore';
+import { format, differenceInHours, differenceInMinutes, differenceInSeconds, startOfWeek, endOfWeek, startOfMonth, endOfMonth, eachDayOfInterval, getDate, subDays } from 'date-fns';
+import { healthRepository } from '../../services/repositories';
 import { Ionicons } from '@expo/vector-icons';
 import { formatDuration } from '../../utils/formatDuration';
 import { GraphContainer } from '../common/GraphContainer';
@@ -17,13 +17,13 @@ import { fastingNotificationService } from '../../services/health/fastingNotific
 const screenWidth = Dimensions.get('window').width;
 
 export const FastingTimer: React.FC = () => {
-  const { todayData, startFasting, stopFasting, refreshHealthData } = useHealth();
+  const { todayData, activeFasting, startFasting, stopFasting, refreshHealthData, goals } = useHealth();
   const { user } = useAuth();
   const [LineGraphComponent, setLineGraphComponent] = useState<any>(null);
   const [selectedType, setSelectedType] = useState('16:8');
   const [elapsedTime, setElapsedTime] = useState(0);
   const [weeklyData, setWeeklyData] = useState<{ date: string; duration: number; type: string }[]>([]);
-  const [monthlyData, setMonthlyData] = useState<{ date: string; duration: number; type: string }[]>([]);
+  const [monthlyData, setMonthlyData] = useState<{ date: string; duration: number }[]>([]);
   const [selectedMonth, setSelectedMonth] = useState(new Date());
   const [showChart, setShowChart] = useState<'weekly' | 'monthly'>('weekly');
   const [showEatingWindow, setShowEatingWindow] = useState(false);
@@ -50,6 +50,12 @@ export const FastingTimer: React.FC = () => {
     { label: 'Custom', value: 'custom', hours: 0 },
   ];
 
+  // Preselect the type matching the fasting goal
+  useEffect(() => {
+    const preset = fastingTypes.find(type => type.hours === goals.fastingHours);
+    setSelectedType(preset ? preset.value : 'custom');
+  }, [goals.fastingHours]);
+
   const eatingWindows = [
     { label: '12:00 PM - 8:00 PM', value: '12-20', description: 'Lunch to Dinner' },
     { label: '1:00 PM - 9:00 PM', value: '13-21', description: 'Afternoon to Evening' },
@@ -59,7 +65,9 @@ export const FastingTimer: React.FC = () => {
     { label: 'Custom', value: 'custom', description: 'Set your own window' },
   ];
 
-  const activeSession = todayData?.fastingSession;
+  // The running fast, or else the last one completed today
+  const lastCompletedSession = [...(todayData?.fastingSessions || [])].reverse().find(s => s.endTime);
+  const activeSession = activeFasting ?? lastCompletedSession;
   const isFasting = activeSession && !activeSession.endTime;
   const appState = useRef(AppState.currentState);
   const backgroundTimeRef = useRef<Date | null>(null);
@@ -183,8 +191,19 @@ export const FastingTimer: React.FC = () => {
     setLoadingWeekly(true);
     setWeeklyError(null);
     try {
-      const data = await getWeeklyFastingData(user.uid);
-      setWeeklyData(data);
+      const weekStart = startOfWeek(new Date(), { weekStartsOn: 1 });
+      const weekEnd = endOfWeek(new Date(), { weekStartsOn: 1 });
+      const sessions = await healthRepository.getFastingSessions(weekStart, weekEnd);
+      setWeeklyData(
+        sessions
+          .filter(session => session.endTime)
+          .map(session => ({
+            date: format(session.startTime, 'yyyy-MM-dd'),
+            duration: session.duration,
+            type: session.type,
+          }))
+          .sort((a, b) => a.date.localeCompare(b.date))
+      );
     } catch (error: any) {
       console.error('Error loading weekly fasting data:', error);
       setWeeklyError(error.message || 'Failed to load weekly data');
@@ -198,10 +217,14 @@ export const FastingTimer: React.FC = () => {
     setLoadingMonthly(true);
     setMonthlyError(null);
     try {
-      const year = selectedMonth.getFullYear();
-      const month = selectedMonth.getMonth() + 1;
-      const data = await getMonthlyFastingData(user.uid, year, month);
-      setMonthlyData(data);
+      const from = format(startOfMonth(selectedMonth), 'yyyy-MM-dd');
+      const to = format(endOfMonth(selectedMonth), 'yyyy-MM-dd');
+      const buckets = await healthRepository.getHealthRange(from, to, 'day');
+      setMonthlyData(
+        buckets
+          .filter(bucket => bucket.totalFastingHours > 0)
+          .map(bucket => ({ date: bucket.start, duration: bucket.totalFastingHours }))
+      );
     } catch (error: any) {
       console.error('Error loading monthly fasting data:', error);
       setMonthlyError(error.message || 'Failed to load monthly data');
@@ -219,6 +242,10 @@ export const FastingTimer: React.FC = () => {
   const handleStartFasting = () => {
     // For custom, show input fields
     if (selectedType === 'custom') {
+      if (!customFastingHours && goals.fastingHours < 24) {
+        setCustomFastingHours(String(goals.fastingHours));
+        setCustomEatingHours(String(24 - goals.fastingHours));
+      }
       setShowCustomInputs(true);
       return;
     }
@@ -363,7 +390,9 @@ export const FastingTimer: React.FC = () => {
     const weekEnd = endOfWeek(new Date(), { weekStartsOn: 1 });
     const days = eachDayOfInterval({ start: weekStart, end: weekEnd });
     
-    const dataMap = new Map(weeklyData.map(d => [d.date, d.duration]));
+    // Several sessions may start on the same day
+    const dataMap = new Map<string, number>();
+    weeklyData.forEach(d => dataMap.set(d.date, (dataMap.get(d.date) || 0) + d.duration));
     
     return days.map((day) => {
       const dateStr = format(day, 'yyyy-MM-dd');
@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Food, FoodServing } from '../../types';
+import { foodRepository } from '../../services/repositories';
+import { FoodPortion, portionNutrition } from '../../utils/foods';
+
+interface FoodSearchProps {
+  onSelect: (portion: FoodPortion) => void;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Find a food in the food database by name or barcode and pick how much of
+ * it was eaten. Nutrition is computed from the food's values per 100 g. The
+ * search starts over once a portion is picked, ready for the next food.
+ */
+export const FoodSearch: React.FC<FoodSearchProps> = ({ onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [barcode, setBarcode] = useState('');
+  const [results, setResults] = useState<Food[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [food, setFood] = useState<Food | null>(null);
+  const [serving, setServing] = useState<FoodServing | undefined>(undefined);
+  const [quantity, setQuantity] = useState('');
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const foods = await foodRepository.searchFoods(query);
+        if (!cancelled) setResults(foods);
+      } catch (error) {
+        console.error('Error searching foods:', error);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // A food starts at its first serving, or at 100 g without servings
+  const pickFood = (picked: Food) => {
+    setFood(picked);
+    setServing(picked.servings[0]);
+    setQuantity(picked.servings[0] ? '1' : '100');
+  };
+
+  const handleLookUpBarcode = async () => {
+    const code = barcode.trim();
+    if (!code) return;
+
+    setSearching(true);
+    try {
+      const found = await foodRepository.getFoodByBarcode(code);
+      if (found) {
+        pickFood(found);
+        setBarcode('');
+      } else {
+        Alert.alert('Not Found', 'This barcode is not in the food database. Search by name instead.');
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to look up barcode');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleUse = (portion: FoodPortion) => {
+    onSelect(portion);
+    setFood(null);
+    setQuery('');
+  };
+
+  const amount = parseFloat(quantity);
+  const portion: FoodPortion | null = food && amount > 0 ? { food, quantity: amount, serving } : null;
+  const nutrition = portion ? portionNutrition(portion) : null;
+
+  if (food) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.selectedHeader}>
+          <View style={styles.resultInfo}>
+            <Text style={styles.resultName}>{food.name}</Text>
+            {food.brand && <Text style={styles.resultMeta}>{food.brand}</Text>}
+          </View>
+          <TouchableOpacity onPress={() => setFood(null)}>
+            <Ionicons name="close-circle" size={24} color="#999" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.servingList}>
+          {[...food.servings, undefined].map(option => {
+            const active = option?.name === serving?.name;
+            return (
+              <TouchableOpacity
+                key={option?.name ?? 'grams'}
+                style={[styles.servingChip, active && styles.servingChipActive]}
+                onPress={() => {
+                  setServing(option);
+                  setQuantity(option ? '1' : '100');
+                }}
+              >
+                <Text style={[styles.servingText, active && styles.servingTextActive]}>
+                  {option ? `${option.name} (${option.grams} g)` : 'grams'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <TextInput
+          style={styles.input}
+          placeholder={serving ? 'Servings' : 'Grams'}
+          value={quantity}
+          onChangeText={setQuantity}
+          keyboardType="numeric"
+        />
+
+        {nutrition && (
+          <Text style={styles.nutrition}>
+            {nutrition.calories} kcal · C: {nutrition.macros.carbs}g P: {nutrition.macros.protein}g F:{' '}
+            {nutrition.macros.fat}g
+          </Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.useButton, !portion && styles.useButtonDisabled]}
+          onPress={() => portion && handleUse(portion)}
+          disabled={!portion}
+        >
+          <Text style={styles.useButtonText}>Add to Meal</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <TextInput style={styles.input} placeholder="Search foods" value={query} onChangeText={setQuery} />
+      <View style={styles.barcodeRow}>
+        <TextInput
+          style={[styles.input, styles.barcodeInput]}
+          placeholder="Barcode"
+          value={barcode}
+          onChangeText={setBarcode}
+          keyboardType="number-pad"
+        />
+        <TouchableOpacity style={styles.barcodeButton} onPress={handleLookUpBarcode} disabled={searching}>
+          <Ionicons name="barcode-outline" size={24} color="#4CAF50" />
+        </TouchableOpacity>
+      </View>
+
+      {searching && <ActivityIndicator color="#4CAF50" />}
+
+      {results.map(result => (
+        <TouchableOpacity key={result.id} style={styles.resultItem} onPress={() => pickFood(result)}>
+          <View style={styles.resultInfo}>
+            <Text style={styles.resultName}>{result.name}</Text>
+            {result.brand && <Text style={styles.resultMeta}>{result.brand}</Text>}
+          </View>
+          <Text style={styles.resultMeta}>{result.calories} kcal / 100 g</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    fontSize: 16,
+  },
+  barcodeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  barcodeInput: {
+    flex: 1,
+  },
+  barcodeButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  resultItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  resultInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  resultName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  resultMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  selectedHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  servingList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  servingChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#f3f7f6',
+    borderWidth: 1,
+    borderColor: '#e0e7e5',
+  },
+  servingChipActive: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  servingText: {
+    fontSize: 13,
+    color: '#14332b',
+  },
+  servingTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  nutrition: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  useButton: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#4CAF50',
+    alignItems: 'center',
+  },
+  useButtonDisabled: {
+    opacity: 0.5,
+  },
+  useButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
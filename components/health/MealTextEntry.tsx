@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MealItem, MealSuggestion } from '../../types';
+import { scaleItem } from '../../utils/foods';
+import { MealTextEntry as Entry, mealTextToItems } from '../../utils/mealText';
+
+interface MealTextEntryProps {
+  // Meals logged before, matched by name ahead of the common foods
+  suggestions: MealSuggestion[];
+  onAdd: (items: MealItem[]) => void;
+}
+
+/**
+ * Log a meal by describing it, e.g. "2 eggs, toast with butter and a coffee".
+ * The foods read from the text are shown to check before they become items of
+ * the meal; foods that were not recognized need their calories filled in.
+ */
+export const MealTextEntry: React.FC<MealTextEntryProps> = ({ suggestions, onAdd }) => {
+  const [text, setText] = useState('');
+  const [entries, setEntries] = useState<Entry[] | null>(null);
+
+  const handleRead = () => setEntries(mealTextToItems(text, suggestions));
+
+  const updateItem = (index: number, update: (item: MealItem) => MealItem) =>
+    setEntries(prev => prev && prev.map((entry, i) => (i === index ? { ...entry, item: update(entry.item) } : entry)));
+
+  const canAdd =
+    !!entries &&
+    entries.length > 0 &&
+    entries.every(({ item, source }) => item.name.trim() && (source !== null || item.calories > 0));
+
+  const handleAdd = () => {
+    if (!entries) return;
+    onAdd(entries.map(entry => entry.item));
+    setEntries(null);
+    setText('');
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.textInput}
+          placeholder="Describe the meal, e.g. 2 eggs, toast with butter and a coffee"
+          value={text}
+          onChangeText={setText}
+          multiline
+        />
+        <TouchableOpacity
+          style={[styles.readButton, !text.trim() && styles.buttonDisabled]}
+          onPress={handleRead}
+          disabled={!text.trim()}
+        >
+          <Text style={styles.readButtonText}>Read</Text>
+        </TouchableOpacity>
+      </View>
+
+      {entries && entries.length === 0 && (
+        <Text style={styles.note}>No foods found in the text. Try e.g. "1 cup of rice and a chicken breast".</Text>
+      )}
+
+      {entries && entries.length > 0 && (
+        <View style={styles.preview}>
+          {entries.map(({ part, item, source }, index) => (
+            <View key={`${index}-${part.text}`} style={styles.row}>
+              <View style={styles.rowInfo}>
+                <TextInput
+                  style={styles.nameInput}
+                  value={item.name}
+                  onChangeText={name => updateItem(index, current => ({ ...current, name }))}
+                />
+                {source === null ? (
+                  <View style={styles.caloriesRow}>
+                    <TextInput
+                      style={styles.caloriesInput}
+                      placeholder="kcal"
+                      defaultValue={item.calories ? String(item.calories) : ''}
+                      onEndEditing={event => {
+                        const calories = parseInt(event.nativeEvent.text) || 0;
+                        updateItem(index, current => ({ ...current, calories }));
+                      }}
+                      keyboardType="numeric"
+                    />
+                    <Text style={[styles.note, styles.unsure]}>Not found, please enter the calories</Text>
+                  </View>
+                ) : (
+                  <Text style={styles.nutrition}>
+                    {item.calories} kcal · C: {item.macros.carbs}g P: {item.macros.protein}g F: {item.macros.fat}g
+                  </Text>
+                )}
+                {source === 'history' && <Text style={styles.note}>From your earlier meals</Text>}
+              </View>
+              <TextInput
+                style={styles.quantityInput}
+                defaultValue={String(item.quantity)}
+                onEndEditing={event => {
+                  const quantity = parseFloat(event.nativeEvent.text);
+                  if (quantity > 0) updateItem(index, current => scaleItem(current, quantity));
+                }}
+                keyboardType="numeric"
+              />
+              <Text style={styles.unit} numberOfLines={1}>
+                {item.unit}
+              </Text>
+              <TouchableOpacity onPress={() => setEntries(prev => prev && prev.filter((_, i) => i !== index))}>
+                <Ionicons name="close-circle" size={22} color="#999" />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.addButton, !canAdd && styles.buttonDisabled]}
+            onPress={handleAdd}
+            disabled={!canAdd}
+          >
+            <Text style={styles.addButtonText}>Add to Meal</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  textInput: {
+    flex: 1,
+    minHeight: 44,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  readButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#4CAF50',
+  },
+  readButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  preview: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#f3f7f6',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e7e5',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  nameInput: {
+    fontSize: 15,
+    color: '#333',
+    paddingVertical: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  nutrition: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  caloriesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  caloriesInput: {
+    width: 64,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 4,
+    fontSize: 13,
+    textAlign: 'center',
+    backgroundColor: '#fff',
+  },
+  note: {
+    fontSize: 11,
+    color: '#4CAF50',
+    marginTop: 2,
+  },
+  unsure: {
+    flex: 1,
+    color: '#FFA726',
+  },
+  quantityInput: {
+    width: 56,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 6,
+    fontSize: 14,
+    textAlign: 'center',
+    backgroundColor: '#fff',
+  },
+  unit: {
+    maxWidth: 80,
+    fontSize: 12,
+    color: '#666',
+  },
+  addButton: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#4CAF50',
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,106 @@
+import React from 'react';
+import { View, StyleSheet, Text } from 'react-native';
+import { NUTRIENT_KEYS, NUTRIENT_UNITS } from '../../backend/src/shared/domain';
+import { Meal, UserProfile } from '../../types';
+import { NUTRIENT_LABELS, dayNutrients, nutrientTargets } from '../../utils/nutrients';
+
+interface NutrientBreakdownProps {
+  meals: Meal[];
+  profile?: UserProfile;
+}
+
+/**
+ * A day's nutrients against the targets for the user's profile. Goals fill
+ * up green; limits turn red once passed. Meals logged without nutrient data
+ * count as unknown, so the totals are a lower bound.
+ */
+export const NutrientBreakdown: React.FC<NutrientBreakdownProps> = ({ meals, profile }) => {
+  const totals = dayNutrients(meals);
+  const targets = nutrientTargets(profile);
+  const withoutNutrients = meals.filter(meal => !meal.nutrients).length;
+
+  return (
+    <View>
+      {NUTRIENT_KEYS.map(key => {
+        const amount = totals[key];
+        const target = targets[key];
+        const unit = NUTRIENT_UNITS[key];
+        const progress = amount === undefined ? 0 : Math.min(amount / target.amount, 1);
+        const over = target.kind === 'limit' && amount !== undefined && amount > target.amount;
+
+        return (
+          <View key={key} style={styles.row}>
+            <View style={styles.rowHeader}>
+              <Text style={styles.label}>{NUTRIENT_LABELS[key]}</Text>
+              <Text style={[styles.amount, over && styles.over]}>
+                {amount === undefined ? '—' : Math.round(amount * 10) / 10} / {target.amount} {unit}
+                {target.kind === 'limit' ? ' max' : ''}
+              </Text>
+            </View>
+            <View style={styles.track}>
+              <View
+                style={[
+                  styles.fill,
+                  { width: `${progress * 100}%` },
+                  target.kind === 'limit' && styles.limitFill,
+                  over && styles.overFill,
+                ]}
+              />
+            </View>
+          </View>
+        );
+      })}
+
+      {withoutNutrients > 0 && (
+        <Text style={styles.note}>
+          {withoutNutrients} of {meals.length} meals today have no nutrient data and are not counted
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    marginBottom: 12,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  label: {
+    fontSize: 14,
+    color: '#333',
+  },
+  amount: {
+    fontSize: 13,
+    color: '#666',
+  },
+  over: {
+    color: '#E74C3C',
+    fontWeight: '600',
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#eee',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#4CAF50',
+  },
+  limitFill: {
+    backgroundColor: '#FFA726',
+  },
+  overFill: {
+    backgroundColor: '#E74C3C',
+  },
+  note: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MealItem, Recipe } from '../../types';
+import { recipeRepository } from '../../services/repositories';
+import { recipeToItem } from '../../utils/recipes';
+
+interface RecipePickerProps {
+  onSelect: (item: MealItem) => void;
+}
+
+/**
+ * Log servings of a saved recipe, the user's own or one shared with them.
+ * The recipe becomes one item of the meal, scaled to the servings eaten.
+ */
+export const RecipePicker: React.FC<RecipePickerProps> = ({ onSelect }) => {
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [recipe, setRecipe] = useState<Recipe | null>(null);
+  const [servings, setServings] = useState('1');
+
+  useEffect(() => {
+    recipeRepository
+      .getRecipes()
+      .then(setRecipes)
+      .catch(error => console.error('Error loading recipes:', error));
+  }, []);
+
+  if (recipes.length === 0) {
+    return <Text style={[styles.container, styles.hint]}>Recipes you save or friends share show up here</Text>;
+  }
+
+  const amount = parseFloat(servings);
+  const item = recipe && amount > 0 ? recipeToItem(recipe, amount) : null;
+
+  if (recipe) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.selectedHeader}>
+          <Text style={styles.recipeName}>{recipe.name}</Text>
+          <TouchableOpacity onPress={() => setRecipe(null)}>
+            <Ionicons name="close-circle" size={24} color="#999" />
+          </TouchableOpacity>
+        </View>
+
+        <TextInput
+          style={styles.input}
+          placeholder={`Servings (of ${recipe.servings})`}
+          value={servings}
+          onChangeText={setServings}
+          keyboardType="numeric"
+        />
+
+        {item && (
+          <Text style={styles.nutrition}>
+            {item.calories} kcal · C: {item.macros.carbs}g P: {item.macros.protein}g F: {item.macros.fat}g
+          </Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.useButton, !item && styles.useButtonDisabled]}
+          onPress={() => {
+            if (!item) return;
+            onSelect(item);
+            setRecipe(null);
+          }}
+          disabled={!item}
+        >
+          <Text style={styles.useButtonText}>Add to Meal</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, styles.recipeList]}>
+      {recipes.map(candidate => (
+        <TouchableOpacity
+          key={candidate.id}
+          style={styles.recipeChip}
+          onPress={() => {
+            setRecipe(candidate);
+            setServings('1');
+          }}
+        >
+          <Text style={styles.recipeChipText}>{candidate.name}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  recipeList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  recipeChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#f3f7f6',
+    borderWidth: 1,
+    borderColor: '#e0e7e5',
+  },
+  recipeChipText: {
+    fontSize: 13,
+    color: '#14332b',
+  },
+  selectedHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  recipeName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    fontSize: 16,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999',
+  },
+  nutrition: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  useButton: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#4CAF50',
+    alignItems: 'center',
+  },
+  useButtonDisabled: {
+    opacity: 0.5,
+  },
+  useButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
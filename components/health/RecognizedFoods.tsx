@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MealItem, RecognizedFood } from '../../types';
+import { scaleItem } from '../../utils/foods';
+
+interface RecognizedFoodsProps {
+  foods: RecognizedFood[];
+  // The foods kept and the items they became, in the same order
+  onAdd: (foods: RecognizedFood[], items: MealItem[]) => void;
+  onDismiss: () => void;
+}
+
+interface Entry {
+  food: RecognizedFood;
+  item: MealItem;
+}
+
+const toItem = ({ name, quantity, unit, calories, macros, nutrients, foodId }: RecognizedFood): MealItem => ({
+  name,
+  quantity,
+  unit,
+  calories,
+  macros,
+  nutrients,
+  foodId,
+});
+
+/**
+ * The foods found on a photo, to check before they become items of the meal.
+ * Names and portions can be changed and wrong guesses removed; what the user
+ * changes is remembered for the next photo.
+ */
+export const RecognizedFoods: React.FC<RecognizedFoodsProps> = ({ foods, onAdd, onDismiss }) => {
+  const [entries, setEntries] = useState<Entry[]>(foods.map(food => ({ food, item: toItem(food) })));
+
+  const updateItem = (index: number, update: (item: MealItem) => MealItem) =>
+    setEntries(prev => prev.map((entry, i) => (i === index ? { ...entry, item: update(entry.item) } : entry)));
+
+  const canAdd = entries.length > 0 && entries.every(entry => entry.item.name.trim());
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Found on the photo</Text>
+        <TouchableOpacity onPress={onDismiss}>
+          <Ionicons name="close-circle" size={24} color="#999" />
+        </TouchableOpacity>
+      </View>
+
+      {entries.map(({ food, item }, index) => (
+        <View key={`${index}-${food.detectedName}`} style={styles.row}>
+          <View style={styles.rowInfo}>
+            <TextInput
+              style={styles.nameInput}
+              value={item.name}
+              onChangeText={name => updateItem(index, current => ({ ...current, name, foodId: undefined }))}
+            />
+            <Text style={styles.nutrition}>
+              {item.calories} kcal · C: {item.macros.carbs}g P: {item.macros.protein}g F: {item.macros.fat}g
+            </Text>
+            {food.corrected ? (
+              <Text style={styles.note}>Adjusted from your earlier corrections</Text>
+            ) : (
+              food.confidence < 0.5 && <Text style={[styles.note, styles.unsure]}>Not sure, please check</Text>
+            )}
+          </View>
+          <TextInput
+            style={styles.quantityInput}
+            defaultValue={String(item.quantity)}
+            onEndEditing={event => {
+              const quantity = parseFloat(event.nativeEvent.text);
+              if (quantity > 0) updateItem(index, current => scaleItem(current, quantity));
+            }}
+            keyboardType="numeric"
+          />
+          <Text style={styles.unit} numberOfLines={1}>
+            {item.unit}
+          </Text>
+          <TouchableOpacity onPress={() => setEntries(prev => prev.filter((_, i) => i !== index))}>
+            <Ionicons name="close-circle" size={22} color="#999" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={[styles.addButton, !canAdd && styles.addButtonDisabled]}
+        onPress={() => onAdd(entries.map(entry => entry.food), entries.map(entry => entry.item))}
+        disabled={!canAdd}
+      >
+        <Text style={styles.addButtonText}>Add to Meal</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#f3f7f6',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e7e5',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  nameInput: {
+    fontSize: 15,
+    color: '#333',
+    paddingVertical: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  nutrition: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  note: {
+    fontSize: 11,
+    color: '#4CAF50',
+    marginTop: 2,
+  },
+  unsure: {
+    color: '#FFA726',
+  },
+  quantityInput: {
+    width: 56,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 6,
+    fontSize: 14,
+    textAlign: 'center',
+    backgroundColor: '#fff',
+  },
+  unit: {
+    maxWidth: 80,
+    fontSize: 12,
+    color: '#666',
+  },
+  addButton: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#4CAF50',
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -3,7 +3,7 @@ import { View, StyleSheet, Text, Platform } from 'react-native';
 import { useHealth } from '../../context/HealthContext';
 
 export const StepCounter: React.FC = () => {
-  const { healthMetrics, refreshHealthData } = useHealth();
+  const { healthMetrics, refreshHealthData, goals } = useHealth();
   const [lastUpdate, setLastUpdate] = useState(new Date());
 
   useEffect(() => {
@@ -20,7 +20,7 @@ export const StepCounter: React.FC = () => {
       <Text style={styles.title}>Steps Today</Text>
       <View style={styles.counterContainer}>
         <Text style={styles.counter}>{healthMetrics.steps.toLocaleString()}</Text>
-        <Text style={styles.label}>steps</Text>
+        <Text style={styles.label}>of {goals.steps.toLocaleString()} steps</Text>
       </View>
       
       <View style={styles.metricsContainer}>
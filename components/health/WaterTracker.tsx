@@ -5,12 +5,12 @@ import { Ionicons } from '@expo/vector-icons';
 import { useHealth } from '../../context/HealthContext';
 import { useAuth } from '../../context/AuthContext';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, getDate } from 'date-fns';
-import { getMonthlyWaterData } from '../../services/storage/firestore';
+import { healthRepository } from '../../services/repositories';
 
 const screenWidth = Dimensions.get('window').width;
 
 export const WaterTracker: React.FC = () => {
-  const { todayData, addWaterEntry } = useHealth();
+  const { todayData, addWaterEntry, goals, getGoalsOn } = useHealth();
   const { user } = useAuth();
   const [LineGraphComponent, setLineGraphComponent] = useState<any>(null);
   const [monthlyData, setMonthlyData] = useState<{ date: string; waterIntake: number }[]>([]);
@@ -20,7 +20,7 @@ export const WaterTracker: React.FC = () => {
   const canUseGraph = Platform.OS !== 'web' && !isExpoGo;
 
   const currentWater = todayData?.waterIntake || 0;
-  const goal = 8; // 8 glasses per day (64oz)
+  const goal = goals.waterGlasses;
   const progress = Math.min((currentWater / goal) * 100, 100);
 
   useEffect(() => {
@@ -56,10 +56,11 @@ export const WaterTracker: React.FC = () => {
     if (!user) return;
     
     try {
-      const year = selectedMonth.getFullYear();
-      const month = selectedMonth.getMonth() + 1;
-      const data = await getMonthlyWaterData(user.uid, year, month);
-      setMonthlyData(data);
+      const rows = await healthRepository.getHealthRange(
+        format(startOfMonth(selectedMonth), 'yyyy-MM-dd'),
+        format(endOfMonth(selectedMonth), 'yyyy-MM-dd')
+      );
+      setMonthlyData(rows.map(row => ({ date: row.start, waterIntake: row.totalWaterIntake })));
     } catch (error) {
       console.error('Error loading monthly water data:', error);
     }
@@ -335,7 +336,7 @@ export const WaterTracker: React.FC = () => {
             </View>
             <View style={styles.summaryStat}>
               <Text style={styles.summaryValue}>
-                {monthlyData.filter(d => d.waterIntake >= goal).length}
+                {monthlyData.filter(d => d.waterIntake >= getGoalsOn(d.date).waterGlasses).length}
               </Text>
               <Text style={styles.summaryLabel}>Goal Days</Text>
             </View>
@@ -5,11 +5,12 @@ import * as Location from 'expo-location';
 import { useHealth } from '../../context/HealthContext';
 import { useAuth } from '../../context/AuthContext';
 import { Workout, Exercise, LocationPoint } from '../../types';
-import { format } from 'date-fns';
+import { eachDayOfInterval, format, startOfWeek, subDays } from 'date-fns';
 import { Button } from '../common/Button';
 import { formatDurationFromMinutes } from '../../utils/formatDuration';
 import { predefinedWorkouts, PredefinedWorkout } from '../../utils/predefinedWorkouts';
 import { calculateWorkoutCalories, calculateTotalWorkoutCalories } from '../../utils/calculations';
+import { healthRepository } from '../../services/repositories';
 
 // Mapbox imports
 let Mapbox: any = null;
@@ -53,8 +54,8 @@ try {
 }
 
 export const WorkoutTracker: React.FC = () => {
-  const { todayData, addWorkout } = useHealth();
-  const { user, userProfile } = useAuth();
+  const { todayData, addWorkout, goals, getWeightOn } = useHealth();
+  const { user } = useAuth();
   const [isActive, setIsActive] = useState(false);
   const [workoutStartTime, setWorkoutStartTime] = useState<Date | null>(null);
   const [workoutName, setWorkoutName] = useState('');
@@ -76,6 +77,11 @@ export const WorkoutTracker: React.FC = () => {
   const [distance, setDistance] = useState(0);
   const [zoomLevel, setZoomLevel] = useState(15);
   const [isZooming, setIsZooming] = useState(false);
+  // Calories are estimated with the weight the user had on the workout's day
+  const workoutWeight = () => getWeightOn(todayData?.date || format(new Date(), 'yyyy-MM-dd')) || 70; // Default to 70kg if no weight is known
+
+  // Workouts logged earlier this week (Monday-based, as the weekly goal)
+  const [earlierWorkouts, setEarlierWorkouts] = useState(0);
 
   const workoutTypes = [
     { label: 'Strength', value: 'strength' as const, icon: 'barbell' },
@@ -106,6 +112,32 @@ export const WorkoutTracker: React.FC = () => {
     };
   }, [isActive, workoutStartTime]);
 
+  useEffect(() => {
+    if (!user || !todayData) return;
+
+    const today = new Date(`${todayData.date}T00:00:00`);
+    const weekStart = startOfWeek(today, { weekStartsOn: 1 });
+    if (weekStart >= today) {
+      setEarlierWorkouts(0);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all(
+      eachDayOfInterval({ start: weekStart, end: subDays(today, 1) }).map(day =>
+        healthRepository.getDailyHealthData(format(day, 'yyyy-MM-dd'))
+      )
+    )
+      .then(days => {
+        if (!cancelled) setEarlierWorkouts(days.reduce((sum, day) => sum + (day?.workouts.length || 0), 0));
+      })
+      .catch(error => console.error('Error loading this week\'s workouts:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, todayData?.date]);
+
   // Cleanup location tracking on unmount
   useEffect(() => {
     return () => {
@@ -221,7 +253,7 @@ export const WorkoutTracker: React.FC = () => {
     if (predefinedWorkout) {
       workoutNameValue = predefinedWorkout.name;
       workoutTypeValue = predefinedWorkout.type;
-      const userWeight = userProfile?.weight || 70; // Default to 70kg if profile not available
+      const userWeight = workoutWeight();
       exercisesValue = predefinedWorkout.exercises.map((ex, index) => {
         // Calculate calories using standard MET formula for each exercise
         const exerciseCalories = ex.duration
@@ -559,7 +591,7 @@ export const WorkoutTracker: React.FC = () => {
       }
 
       // Calculate calories using standard MET formula
-      const userWeight = userProfile?.weight || 70; // Default to 70kg if profile not available
+      const userWeight = workoutWeight();
       const totalCalories = calculateTotalWorkoutCalories(
         userWeight,
         duration,
@@ -614,7 +646,7 @@ export const WorkoutTracker: React.FC = () => {
     // Calculate calories if not provided, using standard MET formula
     let calculatedCalories = currentExercise.caloriesBurned;
     if (!calculatedCalories && currentExercise.duration) {
-      const userWeight = userProfile?.weight || 70; // Default to 70kg if profile not available
+      const userWeight = workoutWeight();
       calculatedCalories = calculateWorkoutCalories(
         userWeight,
         currentExercise.duration,
@@ -672,6 +704,12 @@ export const WorkoutTracker: React.FC = () => {
             </Text>
             <Text style={styles.summaryLabel}>Total Time</Text>
           </View>
+          <View style={styles.summaryStat}>
+            <Text style={styles.summaryValue}>
+              {earlierWorkouts + todayWorkouts.length}/{goals.weeklyWorkouts}
+            </Text>
+            <Text style={styles.summaryLabel}>This Week</Text>
+          </View>
         </View>
       </View>
 
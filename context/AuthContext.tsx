@@ -1,7 +1,8 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import { signIn, signUp, logout, getUserProfile, saveUserProfile, signInWithGoogle, signInWithApple, getCurrentUser, refreshAccessToken } from '../services/api/auth';
+import React, { createContext, useContext, useEffect, useLayoutEffect, useState } from 'react';
+import { signIn, signUp, logout, signOutEverywhere, verifyEmail, deleteAccount, getUserProfile, saveUserProfile, signInWithGoogle, signInWithApple, getCurrentUser, refreshAccessToken } from '../services/api/auth';
 import { User, UserProfile } from '../types';
 import { watchConnectivityService } from '../services/watch/WatchConnectivityService';
+import { setRepositoryUser } from '../services/repositories';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 interface AuthContextType {
@@ -12,6 +13,9 @@ interface AuthContextType {
   signInWithGoogle: () => Promise<void>;
   signInWithApple: () => Promise<void>;
   signOut: () => Promise<void>;
+  signOutEverywhere: () => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
+  deleteAccount: (password: string) => Promise<void>;
   updateProfile: (profile: UserProfile) => Promise<void>;
   userProfile: UserProfile | null;
 }
@@ -23,6 +27,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
 
+  // Layout effects run before any passive effect, so the repositories know
+  // the user before screens and providers below start loading data
+  useLayoutEffect(() => {
+    setRepositoryUser(user?.uid ?? null);
+  }, [user]);
+
   useEffect(() => {
     let mounted = true;
 
@@ -124,6 +134,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const userData: User = {
         uid: response.user.id,
         email: response.user.email,
+        emailVerified: !!response.user.emailVerifiedAt,
       };
       setUser(userData);
       
@@ -149,6 +160,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const userData: User = {
         uid: response.user.id,
         email: response.user.email,
+        emailVerified: !!response.user.emailVerifiedAt,
       };
       setUser(userData);
       
@@ -179,6 +191,32 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
   };
 
+  const handleSignOutEverywhere = async () => {
+    await signOutEverywhere();
+    setUser(null);
+    setUserProfile(null);
+
+    watchConnectivityService.sendUserSignedOut().catch(error => {
+      console.debug('Watch not available for sign out sync:', error);
+    });
+  };
+
+  const handleDeleteAccount = async (password: string) => {
+    await deleteAccount(password);
+    setUser(null);
+    setUserProfile(null);
+
+    watchConnectivityService.sendUserSignedOut().catch(error => {
+      console.debug('Watch not available for sign out sync:', error);
+    });
+  };
+
+  const handleVerifyEmail = async (token: string) => {
+    const verified = await verifyEmail(token);
+    // The link may have been opened while signed in to a different account
+    setUser(current => current?.uid === verified.userId ? { ...current, emailVerified: true } : current);
+  };
+
   const handleUpdateProfile = async (profile: UserProfile) => {
     if (!user) throw new Error('User not authenticated');
     await saveUserProfile(profile);
@@ -203,6 +241,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         signInWithGoogle: handleSignInWithGoogle,
         signInWithApple: handleSignInWithApple,
         signOut: handleSignOut,
+        signOutEverywhere: handleSignOutEverywhere,
+        verifyEmail: handleVerifyEmail,
+        deleteAccount: handleDeleteAccount,
         updateProfile: handleUpdateProfile,
         userProfile,
       }}
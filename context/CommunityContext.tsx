@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import { useAuth } from './AuthContext';
-import * as communityService from '../services/api/community';
+import { communityRepository } from '../services/repositories';
 import { Friend, FriendRequest, Clan, ClanInvite, Notification } from '../types';
 
 interface CommunityContextType {
@@ -56,8 +56,8 @@ export const CommunityProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     try {
       setLoadingFriends(true);
       const [friendsList, requests] = await Promise.all([
-        communityService.getFriends(),
-        communityService.getFriendRequests(),
+        communityRepository.getFriends(),
+        communityRepository.getFriendRequests(),
       ]);
       
       setFriends(friendsList);
@@ -76,8 +76,8 @@ export const CommunityProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     try {
       setLoadingClans(true);
       const [userClans, invites] = await Promise.all([
-        communityService.getClans(),
-        communityService.getClanInvites(),
+        communityRepository.getClans(),
+        communityRepository.getClanInvites(),
       ]);
       
       setClans(userClans);
@@ -95,8 +95,8 @@ export const CommunityProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     try {
       setLoadingNotifications(true);
       const [notifs, count] = await Promise.all([
-        communityService.getNotifications(),
-        communityService.getUnreadNotificationCount(),
+        communityRepository.getNotifications(),
+        communityRepository.getUnreadNotificationCount(),
       ]);
       
       setNotifications(notifs);
@@ -112,7 +112,7 @@ export const CommunityProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     if (!user) return;
     
     try {
-      await communityService.markNotificationRead(notificationId);
+      await communityRepository.markNotificationRead(notificationId);
       setNotifications(prev => 
         prev.map(n => n.id === notificationId ? { ...n, read: true } : n)
       );
@@ -126,7 +126,7 @@ export const CommunityProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     if (!user) return;
     
     try {
-      await communityService.markAllNotificationsRead();
+      await communityRepository.markAllNotificationsRead();
       setNotifications(prev => prev.map(n => ({ ...n, read: true })));
       setUnreadCount(0);
     } catch (error) {
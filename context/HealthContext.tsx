@@ -1,8 +1,25 @@
 import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
 import { Platform } from 'react-native';
 import { useAuth } from './AuthContext';
-import { DailyHealthData, Meal, FastingSession, HealthMetrics, WaterEntry, Workout } from '../types';
-import { getDailyHealthData, saveDailyHealthData, addMeal as saveMeal, saveFastingSession, addWaterEntry as saveWaterEntry, addWorkout as saveWorkout, updateHealthMetrics, updateRingStats } from '../services/api/health';
+import {
+  BodyMeasurement,
+  DailyHealthData,
+  Meal,
+  FastingSession,
+  GoalChange,
+  Goals,
+  HealthMetrics,
+  MeasurementChanges,
+  WaterEntry,
+  Workout,
+} from '../types';
+import { toDailyHealthDataBody, toMealBody, toWaterEntryBody, toWorkoutBody, VersionConflictError } from '../services/api/health';
+import { healthRepository } from '../services/repositories';
+import { outboxService, OutboxStatus } from '../services/sync/outbox';
+import { mergeDailyHealthData } from '../utils/mergeHealthData';
+import { goalsOn, withGoalChange } from '../utils/goals';
+import { weightOn } from '../utils/bodyTrend';
+import { withItemTotals } from '../utils/foods';
 import { waterTrackingService } from '../services/health/waterTracking';
 import { fastingNotificationService } from '../services/health/fastingNotifications';
 import { stepCounterService } from '../services/health/stepCounter';
@@ -15,21 +32,42 @@ interface HealthContextType {
   todayData: DailyHealthData | null;
   loading: boolean;
   healthMetrics: HealthMetrics;
-  addMeal: (meal: Meal) => Promise<void>;
+  activeFasting: FastingSession | null;
+  // Resolves to the meal as queued, under an id of its own
+  addMeal: (meal: Meal) => Promise<Meal | undefined>;
+  // Replaces one of today's meals; totals follow its items
+  updateMeal: (meal: Meal) => Promise<void>;
   startFasting: (type: string, targetDuration?: number, eatingWindow?: { startHour: number; endHour: number; value: string }) => Promise<void>;
   stopFasting: () => Promise<void>;
   addWaterEntry: (glasses: number) => Promise<void>;
   addWorkout: (workout: Workout) => Promise<void>;
   refreshHealthData: () => Promise<void>;
   flushTodayData: () => Promise<void>;
+  // Edits saved on the device that have not reached the server yet
+  pendingSync: OutboxStatus;
+  // Today's goals; past days are judged against getGoalsOn(date)
+  goals: Goals;
+  goalHistory: GoalChange[];
+  getGoalsOn: (date: string) => Goals;
+  // Applies from today on; goals left out keep their value
+  updateGoals: (changes: Partial<Goals>) => Promise<void>;
+  // Body measurement log, oldest first
+  measurements: BodyMeasurement[];
+  // Trend weight on a day, falling back to the profile's weight
+  getWeightOn: (date: string) => number | undefined;
+  saveMeasurement: (date: string, changes: MeasurementChanges) => Promise<void>;
+  deleteMeasurement: (date: string) => Promise<void>;
 }
 
 const HealthContext = createContext<HealthContextType | undefined>(undefined);
 
 export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user } = useAuth();
+  const { user, userProfile } = useAuth();
   const [todayData, setTodayData] = useState<DailyHealthData | null>(null);
   const [loading, setLoading] = useState(true);
+  // The running fast is tracked separately from the day: it may have started
+  // on a previous day and keeps going across midnight.
+  const [activeFasting, setActiveFasting] = useState<FastingSession | null>(null);
   const [healthMetrics, setHealthMetrics] = useState<HealthMetrics>({
     steps: 0,
     caloriesBurned: 0,
@@ -39,6 +77,10 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     restingHeartRate: 0,
   });
 
+  const [pendingSync, setPendingSync] = useState<OutboxStatus>(outboxService.getStatus());
+  const [goalHistory, setGoalHistory] = useState<GoalChange[]>([]);
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+
   const [currentDate, setCurrentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const today = currentDate;
   
@@ -48,6 +90,16 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     todayDataRef.current = todayData;
   }, [todayData]);
 
+  const activeFastingRef = React.useRef<FastingSession | null>(null);
+  useEffect(() => {
+    activeFastingRef.current = activeFasting;
+  }, [activeFasting]);
+
+  const goalHistoryRef = React.useRef<GoalChange[]>([]);
+  useEffect(() => {
+    goalHistoryRef.current = goalHistory;
+  }, [goalHistory]);
+
   // Check if date has changed (e.g., at midnight)
   useEffect(() => {
     const checkDateChange = async () => {
@@ -56,13 +108,10 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         setCurrentDate(newDate);
         if (user && todayData) {
           // Save previous day's data before loading new day
-          try {
-            await saveDailyHealthData(todayData);
-          } catch (error) {
-            console.error('Error saving previous day data:', error);
-          }
+          await queueDailySnapshot(todayData);
         }
-        // Load new day's data
+        // Load new day's data. A running fast is user-level and spans
+        // midnight on its own, so there is nothing to carry over.
         if (user) {
           loadTodayData();
         }
@@ -75,10 +124,23 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     return () => clearInterval(dateCheckInterval);
   }, [currentDate, user]);
 
+  // Replay edits queued while offline; loadTodayData overlays whatever is still pending
+  useEffect(() => {
+    if (!user) return;
+
+    outboxService.addListener(setPendingSync);
+    return () => {
+      outboxService.removeListener(setPendingSync);
+      outboxService.stop();
+    };
+  }, [user]);
+
   useEffect(() => {
     if (user) {
       console.log('[HealthContext] User authenticated, initializing...', user.uid);
-      loadTodayData();
+      outboxService.start(user.uid).then(loadTodayData);
+      loadGoals();
+      loadMeasurements();
       initializeHealthTracking();
       initializeWaterTracking();
       
@@ -88,6 +150,8 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       };
     } else {
       console.log('[HealthContext] No user authenticated');
+      setGoalHistory([]);
+      setMeasurements([]);
     }
   }, [user]);
 
@@ -105,80 +169,30 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
   useEffect(() => {
     if (!user) return;
-    syncFastingNotifications(todayData?.fastingSession);
-  }, [user, todayData?.fastingSession?.id, todayData?.fastingSession?.endTime]);
+    syncFastingNotifications(activeFasting ?? undefined);
+  }, [user, activeFasting?.id]);
 
   // Auto-save data to Firebase periodically (every 30 seconds)
-  // Also saves active fasting sessions to update duration in real-time
   // Checks for fasting completion and auto-completes if target duration is reached
   useEffect(() => {
     if (!user) return;
 
     const autoSaveInterval = setInterval(async () => {
-      // Use ref to get latest todayData to avoid stale closure
-      const currentData = todayDataRef.current;
-      if (!currentData) {
-        return;
-      }
-
-      // If there's an active fasting session, update its duration before saving
-      if (currentData.fastingSession && !currentData.fastingSession.endTime) {
-        const now = Date.now();
-        const startTime = currentData.fastingSession.startTime.getTime();
-        const durationHours = (now - startTime) / (1000 * 60 * 60);
-        
-        // Check if target duration is reached and auto-complete
-        if (currentData.fastingSession.targetDuration && durationHours >= currentData.fastingSession.targetDuration) {
-          // Auto-complete the fasting session
-          const completedSession: FastingSession = {
-            ...currentData.fastingSession,
-            endTime: new Date(),
-            duration: currentData.fastingSession.targetDuration, // Use target duration as actual duration
-          };
-          
-          const updatedData: DailyHealthData = {
-            ...currentData,
-            fastingSession: completedSession,
-          };
-          
-          setTodayData(updatedData);
-          
+      // Use refs to get latest state to avoid stale closures
+      const session = activeFastingRef.current;
+      if (session?.targetDuration) {
+        const targetEnd = new Date(session.startTime.getTime() + session.targetDuration * 60 * 60 * 1000);
+        if (Date.now() >= targetEnd.getTime()) {
           try {
-            await saveFastingSession(today, completedSession);
-            await saveDailyHealthData(updatedData);
-            await fastingNotificationService.cancelAllNotifications();
+            await completeFasting(session, targetEnd);
             console.log('[HealthContext] Fasting completed automatically - target duration reached');
-            
-            // TODO: Trigger completion notification via GraphQL
           } catch (error) {
             console.error('[HealthContext] Error auto-completing fasting session:', error);
           }
-        } else {
-          // Double-check that session hasn't been stopped (using latest ref)
-          const latestData = todayDataRef.current;
-          if (latestData?.fastingSession && !latestData.fastingSession.endTime) {
-            // Update duration without completing
-            const updatedSession: FastingSession = {
-              ...latestData.fastingSession,
-              duration: durationHours,
-            };
-            const updatedData: DailyHealthData = {
-              ...latestData,
-              fastingSession: updatedSession,
-            };
-            setTodayData(updatedData);
-            saveFastingSession(latestData.date, updatedSession).catch(error => {
-              console.error('[HealthContext] Error auto-saving fasting session:', error);
-            });
-            saveDailyHealthData(updatedData).catch(error => {
-              console.error('[HealthContext] Error auto-saving daily health data:', error);
-            });
-          }
         }
-      } else {
-        // Save other data (not fasting-related)
-        saveTodayDataToFirebase();
       }
+
+      saveTodayDataToFirebase();
     }, 30000); // Save every 30 seconds
 
     return () => clearInterval(autoSaveInterval);
@@ -251,14 +265,13 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           steps: data.steps,
         }));
         if (user && todayData) {
-          await updateHealthMetrics(today, { steps: data.steps });
           // Update local data and save complete data
           const updatedData: DailyHealthData = {
             ...todayData,
             steps: data.steps,
           };
           setTodayData(updatedData);
-          await saveDailyHealthData(updatedData);
+          await queueDailySnapshot(updatedData);
         }
       });
     }
@@ -276,14 +289,6 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         restingHeartRate: data.restingHeartRate,
       });
       if (user && todayData) {
-        await updateHealthMetrics(today, {
-          steps: data.steps,
-          caloriesBurned: data.activeEnergyBurned,
-          activeEnergyBurned: data.activeEnergyBurned,
-          dietaryEnergyConsumed: data.dietaryEnergyConsumed,
-          heartRate: data.heartRate,
-          restingHeartRate: data.restingHeartRate,
-        });
         // Update local data and save complete data
         const updatedData: DailyHealthData = {
           ...todayData,
@@ -295,7 +300,7 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           restingHeartRate: data.restingHeartRate,
         };
         setTodayData(updatedData);
-        await saveDailyHealthData(updatedData);
+        await queueDailySnapshot(updatedData);
       }
     } catch (error) {
       console.error('Error loading HealthKit data:', error);
@@ -326,46 +331,32 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     
     try {
       setLoading(true);
-      const data = await getDailyHealthData(today);
+      const [data, active] = await Promise.all([
+        healthRepository.getDailyHealthData(today),
+        healthRepository.getActiveFastingSession(),
+      ]);
+      setActiveFasting(active);
+      activeFastingRef.current = active;
+
       if (data) {
-        // Check if we have a local stopped session that hasn't been saved yet
-        const currentLocalData = todayDataRef.current;
-        if (currentLocalData?.fastingSession?.endTime && 
-            (!data.fastingSession?.endTime || 
-             data.fastingSession.endTime.getTime() !== currentLocalData.fastingSession.endTime.getTime())) {
-          // Local data has a stopped session that Firebase doesn't have yet
-          // Keep the local stopped session and save it again
-          console.log('[HealthContext] Local stopped session not yet in Firebase, preserving it...');
-          const preservedData: DailyHealthData = {
-            ...data,
-            fastingSession: currentLocalData.fastingSession,
-          };
-          setTodayData(preservedData);
-          todayDataRef.current = preservedData;
-          // Try to save again
-          if (currentLocalData.fastingSession) {
-            await saveFastingSession(today, currentLocalData.fastingSession);
-            await saveDailyHealthData(preservedData);
-          }
-        } else {
-          // Normal load - Firebase data is up to date
-          setTodayData(data);
-          todayDataRef.current = data;
-        }
-        
+        // Another device may have edited the day; keep local edits that are newer
+        const merged = outboxService.applyPending(mergeDailyHealthData(todayDataRef.current, data));
+        setTodayData(merged);
+        todayDataRef.current = merged;
+
         setHealthMetrics({
-          steps: data.steps,
-          caloriesBurned: data.caloriesBurned,
-          activeEnergyBurned: data.activeEnergyBurned || 0,
-          dietaryEnergyConsumed: data.dietaryEnergyConsumed || 0,
-          heartRate: data.heartRate || 0,
-          restingHeartRate: data.restingHeartRate || 0,
+          steps: merged.steps,
+          caloriesBurned: merged.caloriesBurned,
+          activeEnergyBurned: merged.activeEnergyBurned || 0,
+          dietaryEnergyConsumed: merged.dietaryEnergyConsumed || 0,
+          heartRate: merged.heartRate || 0,
+          restingHeartRate: merged.restingHeartRate || 0,
         });
         // Sync to watch after loading
         syncStatsToWatch();
       } else {
         // Initialize empty data for today and save to Firebase
-        const emptyData: DailyHealthData = {
+        const emptyData: DailyHealthData = outboxService.applyPending({
           date: today,
           caloriesConsumed: 0,
           caloriesBurned: 0,
@@ -375,14 +366,15 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           restingHeartRate: 0,
           steps: 0,
           meals: [],
+          fastingSessions: [],
           waterIntake: 0,
           waterEntries: [],
           workouts: [],
-        };
+        });
         setTodayData(emptyData);
         todayDataRef.current = emptyData;
         // Save empty data to ensure document exists
-        await saveDailyHealthData(emptyData);
+        await queueDailySnapshot(emptyData);
       }
     } catch (error) {
       console.error('Error loading today data:', error);
@@ -391,6 +383,31 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     }
   };
 
+  // Queue the day's metrics; an unsent snapshot for the same day is replaced
+  const queueDailySnapshot = async (data: DailyHealthData) => {
+    await outboxService.enqueue({ type: 'saveDailyHealthData', body: toDailyHealthDataBody(data) });
+  };
+
+  const loadGoals = async () => {
+    try {
+      const history = await healthRepository.getGoalHistory();
+      goalHistoryRef.current = history;
+      setGoalHistory(history);
+    } catch (error) {
+      // Keep the goals we have; the defaults apply until the history loads
+      console.error('[HealthContext] Error loading goals:', error);
+    }
+  };
+
+  const loadMeasurements = async () => {
+    try {
+      setMeasurements(await healthRepository.getMeasurements());
+    } catch (error) {
+      // Calculations fall back to the profile's weight meanwhile
+      console.error('[HealthContext] Error loading measurements:', error);
+    }
+  };
+
   // Update ring stats
   const updateRingStatsToBackend = async (data: DailyHealthData) => {
     if (!user) return;
@@ -401,19 +418,17 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         return total + (workout.duration || 0);
       }, 0);
 
-      // Default goals (can be customized later)
-      const goalCalories = 600;
-      const goalSteps = 8000;
-      const goalMinutes = 45;
+      // The rings of a day close against the goals of that day
+      const dayGoals = goalsOn(goalHistoryRef.current, data.date);
 
-      await updateRingStats({
+      await healthRepository.updateRingStats({
         date: data.date,
         caloriesBurned: data.caloriesBurned || 0,
         steps: data.steps || 0,
         workoutMinutes,
-        goalCalories,
-        goalSteps,
-        goalMinutes,
+        goalCalories: dayGoals.caloriesOut,
+        goalSteps: dayGoals.steps,
+        goalMinutes: dayGoals.activeMinutes,
       });
 
       console.log('[HealthContext] Ring stats updated');
@@ -439,35 +454,10 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     
     try {
       console.log('[HealthContext] Saving today data...');
-      let dataToSave = currentData;
-
-      if (currentData.fastingSession) {
-        let sessionToSave = currentData.fastingSession;
-        if (!currentData.fastingSession.endTime) {
-          const durationHours = (Date.now() - currentData.fastingSession.startTime.getTime()) / (1000 * 60 * 60);
-          sessionToSave = {
-            ...currentData.fastingSession,
-            duration: durationHours,
-          };
-          dataToSave = {
-            ...currentData,
-            fastingSession: sessionToSave,
-          };
-        }
+      const dataToSave = currentData;
 
-        try {
-          await saveFastingSession(currentData.date, sessionToSave);
-        } catch (error) {
-          console.error('[HealthContext] Error saving fasting session:', error);
-        }
-      }
-
-      if (dataToSave !== currentData) {
-        todayDataRef.current = dataToSave;
-      }
-
-      await saveDailyHealthData(dataToSave);
-      console.log('[HealthContext] Successfully saved today data');
+      await queueDailySnapshot(dataToSave);
+      console.log('[HealthContext] Queued today data');
       
       // Update ring stats
       await updateRingStatsToBackend(dataToSave);
@@ -485,8 +475,9 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     if (!user || !todayData) return;
     
     try {
-      await saveMeal(today, meal);
-      const updatedMeals = [...todayData.meals, meal];
+      // Client-generated id, so replaying the queued add cannot duplicate it
+      const queuedMeal: Meal = withItemTotals({ ...meal, id: outboxService.newId() });
+      const updatedMeals = [...todayData.meals, queuedMeal];
       const updatedCalories = updatedMeals.reduce((sum, m) => sum + m.calories, 0);
       
       const updatedData: DailyHealthData = {
@@ -496,37 +487,96 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       };
       
       setTodayData(updatedData);
-      // Save complete data
-      await saveDailyHealthData(updatedData);
+      await outboxService.enqueue({ type: 'addMeal', body: toMealBody(today, queuedMeal) }, queuedMeal.id);
+      return queuedMeal;
     } catch (error) {
       console.error('Error adding meal:', error);
       throw error;
     }
   };
 
-  const startFasting = async (type: string, targetDuration?: number, eatingWindow?: { startHour: number; endHour: number; value: string }) => {
+  const updateMeal = async (meal: Meal) => {
     if (!user || !todayData) return;
+
+    try {
+      const updatedMeal = withItemTotals(meal);
+      const updatedMeals = todayData.meals.map(m => (m.id === meal.id ? updatedMeal : m));
+
+      setTodayData({
+        ...todayData,
+        meals: updatedMeals,
+        caloriesConsumed: updatedMeals.reduce((sum, m) => sum + m.calories, 0),
+      });
+      const previous = todayData.meals.find(m => m.id === meal.id);
+      await outboxService.enqueue(
+        {
+          type: 'updateMeal',
+          body: toMealBody(today, updatedMeal),
+          version: meal.version,
+          base: previous && toMealBody(today, previous).meal,
+        },
+        meal.id
+      );
+    } catch (error) {
+      console.error('Error updating meal:', error);
+      throw error;
+    }
+  };
+
+  // Replace a session inside today's overlapping sessions, or append it
+  const upsertTodaySession = (session: FastingSession) => {
+    setTodayData(prev => {
+      if (!prev) return prev;
+      const others = prev.fastingSessions.filter(s => s.id !== session.id);
+      const updated = { ...prev, fastingSessions: [...others, session] };
+      todayDataRef.current = updated;
+      return updated;
+    });
+  };
+
+  // If another device changed the session first, its copy wins: a fast stopped
+  // there is simply adopted. A manual stop of a fast that was only edited is
+  // retried; an automatic stop waits for the next check against the new target.
+  const completeFasting = async (session: FastingSession, endTime?: Date) => {
+    let stopped: FastingSession;
+    try {
+      stopped = await healthRepository.stopFastingSession(session.id, endTime, session.version);
+    } catch (error) {
+      if (!(error instanceof VersionConflictError)) throw error;
+
+      const current = error.current as FastingSession;
+      if (current.endTime) {
+        stopped = current;
+      } else if (!endTime) {
+        stopped = await healthRepository.stopFastingSession(current.id, undefined, current.version);
+      } else {
+        setActiveFasting(current);
+        activeFastingRef.current = current;
+        upsertTodaySession(current);
+        return current;
+      }
+    }
+
+    setActiveFasting(null);
+    activeFastingRef.current = null;
+    upsertTodaySession(stopped);
+    await fastingNotificationService.cancelAllNotifications();
+    return stopped;
+  };
+
+  const startFasting = async (type: string, targetDuration?: number, eatingWindow?: { startHour: number; endHour: number; value: string }) => {
+    if (!user) return;
     
     try {
-      const session: FastingSession = {
-        id: Date.now().toString(),
-        startTime: new Date(),
-        duration: 0,
+      const session = await healthRepository.startFastingSession({
         type,
         targetDuration,
         eatingWindow,
-      };
-      
-      await saveFastingSession(today, session);
-      
-      const updatedData: DailyHealthData = {
-        ...todayData,
-        fastingSession: session,
-      };
-      
-      setTodayData(updatedData);
-      // Save complete data
-      await saveDailyHealthData(updatedData);
+      });
+
+      setActiveFasting(session);
+      activeFastingRef.current = session;
+      upsertTodaySession(session);
       
       // Schedule completion notification if target duration is set
       if (targetDuration && targetDuration > 0) {
@@ -540,87 +590,27 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   };
 
   const stopFasting = async () => {
-    if (!user || !todayData || !todayData.fastingSession) {
+    const session = activeFastingRef.current;
+    if (!user || !session) {
       console.error('[HealthContext] Cannot stop fasting: No active session', {
         hasUser: !!user,
-        hasTodayData: !!todayData,
-        hasFastingSession: !!todayData?.fastingSession,
+        hasActiveSession: !!session,
       });
       throw new Error('No active fasting session to stop');
     }
     
-    if (todayData.fastingSession.endTime) {
-      console.warn('[HealthContext] Fasting session already completed');
-      throw new Error('Fasting session is already completed');
-    }
-    
     try {
       console.log('[HealthContext] Stopping fasting session...');
-      const now = new Date();
-      const durationHours = (now.getTime() - todayData.fastingSession.startTime.getTime()) / (1000 * 60 * 60);
-      
-      const session: FastingSession = {
-        ...todayData.fastingSession,
-        endTime: now,
-        duration: durationHours,
-      };
-      
-      console.log('[HealthContext] Session data:', {
-        id: session.id,
-        type: session.type,
-        duration: durationHours,
-        hasEndTime: !!session.endTime,
-        targetDuration: session.targetDuration,
-      });
-      
-      // Update local state first for immediate UI feedback
-      const updatedData: DailyHealthData = {
-        ...todayData,
-        fastingSession: session,
-      };
-      setTodayData(updatedData);
-      // Update ref immediately to prevent auto-save from overwriting
-      todayDataRef.current = updatedData;
-      
-      // Save - CRITICAL: Must complete before any reloads
-      console.log('[HealthContext] Saving fasting session...');
-      await saveFastingSession(today, session);
-      
-      console.log('[HealthContext] Saving complete daily health data...');
-      await saveDailyHealthData(updatedData);
-      
-      // Verify the save by checking one more time
-      console.log('[HealthContext] Verifying save completed...');
-      const verifyData = await getDailyHealthData(today);
-      if (verifyData?.fastingSession) {
-        const savedEndTime = verifyData.fastingSession.endTime;
-        if (savedEndTime) {
-          console.log('[HealthContext] ✓ Verified: endTime is saved in Firebase:', savedEndTime.toISOString());
-        } else {
-          console.warn('[HealthContext] ⚠ Warning: endTime not found after save. Retrying...');
-          // Retry save if verification failed
-          await saveFastingSession(today, session);
-          await saveDailyHealthData(updatedData);
-        }
-      }
-      
-      // Cancel all notifications
-      console.log('[HealthContext] Cancelling notifications...');
-      await fastingNotificationService.cancelAllNotifications();
+      const stopped = await completeFasting(session);
       
-      // TODO: Trigger completion notification via GraphQL if target was reached
-      if (todayData.fastingSession.targetDuration && durationHours >= todayData.fastingSession.targetDuration * 0.9) {
+      // TODO: Trigger completion notification via backend if target was reached
+      if (session.targetDuration && stopped.duration >= session.targetDuration * 0.9) {
         console.log('[HealthContext] Fasting target reached - notification can be sent via backend');
       }
       
       console.log('[HealthContext] Fasting session stopped successfully');
     } catch (error: any) {
       console.error('[HealthContext] Error stopping fasting:', error);
-      console.error('[HealthContext] Error details:', {
-        message: error.message,
-        code: error.code,
-        stack: error.stack,
-      });
       throw error;
     }
   };
@@ -628,29 +618,28 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   const addWaterEntry = async (glasses: number) => {
     if (!user || !todayData) return;
     
-    const WATER_GOAL = 8; // 8 glasses per day
+    const waterGoal = goalsOn(goalHistoryRef.current, today).waterGlasses;
     const currentWater = todayData.waterIntake || 0;
     const newTotal = currentWater + glasses;
     
     // Validate that water intake doesn't exceed the goal
-    if (newTotal > WATER_GOAL) {
-      const remaining = WATER_GOAL - currentWater;
+    if (newTotal > waterGoal) {
+      const remaining = waterGoal - currentWater;
       if (remaining > 0) {
         // Allow adding only the remaining amount
         glasses = remaining;
       } else {
-        throw new Error(`You've already reached your daily goal of ${WATER_GOAL} glasses!`);
+        throw new Error(`You've already reached your daily goal of ${waterGoal} glasses!`);
       }
     }
     
     try {
       const entry: WaterEntry = {
-        id: Date.now().toString(),
+        id: outboxService.newId(),
         glasses,
         timestamp: new Date(),
       };
       
-      await saveWaterEntry(today, entry);
       const updatedEntries = [...(todayData.waterEntries || []), entry];
       const updatedWaterIntake = (todayData.waterIntake || 0) + glasses;
 
@@ -661,8 +650,7 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       };
 
       setTodayData(updatedData);
-      // Save complete data
-      await saveDailyHealthData(updatedData);
+      await outboxService.enqueue({ type: 'addWaterEntry', body: toWaterEntryBody(today, entry) }, entry.id);
     } catch (error) {
       console.error('Error adding water entry:', error);
       throw error;
@@ -673,8 +661,8 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     if (!user || !todayData) return;
     
     try {
-      await saveWorkout(today, workout);
-      const updatedWorkouts = [...(todayData.workouts || []), workout];
+      const queuedWorkout: Workout = { ...workout, id: outboxService.newId() };
+      const updatedWorkouts = [...(todayData.workouts || []), queuedWorkout];
       
       const updatedData: DailyHealthData = {
         ...todayData,
@@ -683,8 +671,7 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       };
       
       setTodayData(updatedData);
-      // Save complete data
-      await saveDailyHealthData(updatedData);
+      await outboxService.enqueue({ type: 'addWorkout', body: toWorkoutBody(today, queuedWorkout) }, queuedWorkout.id);
     } catch (error) {
       console.error('Error adding workout:', error);
       throw error;
@@ -709,39 +696,74 @@ export const HealthProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     if (!user || !todayData) return;
 
     try {
-      let updatedData = todayData;
-
-      if (todayData.fastingSession && !todayData.fastingSession.endTime) {
-        const activeSession: FastingSession = {
-          ...todayData.fastingSession,
-          duration: (Date.now() - todayData.fastingSession.startTime.getTime()) / (1000 * 60 * 60),
-        };
-        updatedData = {
-          ...todayData,
-          fastingSession: activeSession,
-        };
-        await saveFastingSession(today, activeSession);
-      }
-
-      await saveDailyHealthData(updatedData);
+      await queueDailySnapshot(todayData);
+      await outboxService.flush();
     } catch (error) {
       console.error('Error flushing health data:', error);
     }
   };
 
+  const getGoalsOn = useCallback((date: string) => goalsOn(goalHistory, date), [goalHistory]);
+
+  const updateGoals = async (changes: Partial<Goals>) => {
+    if (!user) return;
+
+    const change = await healthRepository.setGoals(today, changes);
+    const history = withGoalChange(goalHistoryRef.current, change);
+    goalHistoryRef.current = history;
+    setGoalHistory(history);
+
+    // Today's rings close against the new goals right away
+    if (todayDataRef.current) {
+      await updateRingStatsToBackend(todayDataRef.current);
+    }
+  };
+
+  const getWeightOn = useCallback(
+    (date: string) => weightOn(measurements, date) ?? (userProfile?.weight || undefined),
+    [measurements, userProfile?.weight]
+  );
+
+  const saveMeasurement = async (date: string, changes: MeasurementChanges) => {
+    if (!user) return;
+
+    const saved = await healthRepository.saveMeasurement(date, changes);
+    setMeasurements(prev =>
+      [...prev.filter(measurement => measurement.date !== date), saved].sort((a, b) => a.date.localeCompare(b.date))
+    );
+  };
+
+  const deleteMeasurement = async (date: string) => {
+    if (!user) return;
+
+    await healthRepository.deleteMeasurement(date);
+    setMeasurements(prev => prev.filter(measurement => measurement.date !== date));
+  };
+
   return (
     <HealthContext.Provider
       value={{
         todayData,
         loading,
         healthMetrics,
+        activeFasting,
         addMeal,
+        updateMeal,
         startFasting,
         stopFasting,
         addWaterEntry,
         addWorkout,
         refreshHealthData,
         flushTodayData,
+        pendingSync,
+        goals: getGoalsOn(today),
+        goalHistory,
+        getGoalsOn,
+        updateGoals,
+        measurements,
+        getWeightOn,
+        saveMeasurement,
+        deleteMeasurement,
       }}
     >
       {children}
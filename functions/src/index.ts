@@ -5,6 +5,7 @@ import {
 } from "firebase-functions/v2/firestore";
 import {setGlobalOptions, logger} from "firebase-functions/v2";
 import * as admin from "firebase-admin";
+import {toPlain} from "./plain";
 
 admin.initializeApp();
 
@@ -1365,6 +1366,108 @@ export const updateClanDetails = onCall(
   }
 );
 
+// ==================== RECIPE FUNCTIONS ====================
+
+export const shareRecipe = onCall(
+  {region: "us-central1", cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be authenticated");
+    }
+
+    const {recipeId, friendUid, clanId} = request.data as {
+      recipeId: string;
+      friendUid?: string;
+      clanId?: string;
+    };
+    const uid = request.auth.uid;
+
+    if (!recipeId || !friendUid === !clanId) {
+      throw new HttpsError("invalid-argument", "Invalid parameters");
+    }
+
+    try {
+      const db = admin.firestore();
+      const recipeRef = db.collection("recipes").doc(recipeId);
+      const recipeDoc = await recipeRef.get();
+
+      if (!recipeDoc.exists || recipeDoc.data()?.ownerUid !== uid) {
+        throw new HttpsError("not-found", "Recipe not found");
+      }
+
+      // Readers are listed on the recipe so security rules can check them;
+      // members who join a clan later are not added
+      let readerUids: string[];
+      if (friendUid) {
+        if (!(await areFriends(uid, friendUid))) {
+          throw new HttpsError(
+            "permission-denied",
+            "Recipes can only be shared with friends"
+          );
+        }
+        readerUids = [friendUid];
+      } else {
+        if (!(await isClanMember(clanId as string, uid))) {
+          throw new HttpsError("permission-denied", "Not a clan member");
+        }
+        const membersSnap = await db
+          .collection("clans")
+          .doc(clanId as string)
+          .collection("members")
+          .where("status", "==", "active")
+          .get();
+        readerUids = membersSnap.docs
+          .map((doc) => doc.id)
+          .filter((memberUid) => memberUid !== uid);
+      }
+
+      const recipe = recipeDoc.data();
+      const alreadyShared = friendUid ?
+        (recipe?.sharedWith?.friendUids || []).includes(friendUid) :
+        (recipe?.sharedWith?.clanIds || []).includes(clanId);
+      if (alreadyShared) {
+        return {success: true};
+      }
+
+      const ownerDoc = await db.collection("users").doc(uid).get();
+      const ownerName = ownerDoc.data()?.displayName || "A friend";
+      const {arrayUnion} = admin.firestore.FieldValue;
+
+      await recipeRef.update({
+        ownerName,
+        readerUids: arrayUnion(...readerUids),
+        [friendUid ? "sharedWith.friendUids" : "sharedWith.clanIds"]:
+          arrayUnion(friendUid || clanId),
+      });
+
+      const title = "Recipe shared with you";
+      const body = `${ownerName} shared the recipe ${recipe?.name}`;
+      const data: Record<string, string> = {fromUid: uid, recipeId};
+      if (clanId) data.clanId = clanId;
+
+      for (const readerUid of readerUids) {
+        await sendFCMNotification(readerUid, title, body, {
+          type: "RECIPE_SHARED",
+          ...data,
+        });
+        await createNotification(
+          readerUid,
+          "RECIPE_SHARED",
+          title,
+          body,
+          data
+        );
+      }
+
+      return {success: true};
+    } catch (error: unknown) {
+      logger.error("Error in shareRecipe:", error);
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError("internal", "Failed to share recipe");
+    }
+  }
+);
+
 // ==================== RING STATS FUNCTION ====================
 
 export const updateRingStats = onCall(
@@ -1763,3 +1866,223 @@ export const searchAllUsers = onCall(
     }
   }
 );
+
+// ==================== ACCOUNT FUNCTIONS ====================
+
+// Deleting requires a sign-in within this window (like re-entering a password)
+const RECENT_SIGN_IN_SECONDS = 5 * 60;
+
+/**
+ * Read every document of a query as plain objects
+ * @param {FirebaseFirestore.Query} query - Query or collection to read
+ * @return {Promise<Record<string, unknown>[]>} Documents with their ids
+ */
+async function readAll(
+  query: FirebaseFirestore.Query
+): Promise<Record<string, unknown>[]> {
+  const snap = await query.get();
+  return snap.docs.map((doc) => ({
+    id: doc.id,
+    ...(toPlain(doc.data()) as Record<string, unknown>),
+  }));
+}
+
+/**
+ * Delete every document matched by a query
+ * @param {FirebaseFirestore.Query} query - Documents to delete
+ * @return {Promise<void>}
+ */
+async function deleteAll(query: FirebaseFirestore.Query): Promise<void> {
+  const snap = await query.get();
+  const writer = admin.firestore().bulkWriter();
+  snap.docs.forEach((doc) => writer.delete(doc.ref));
+  await writer.close();
+}
+
+export const exportUserData = onCall(
+  {region: "us-central1", cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be authenticated");
+    }
+
+    const uid = request.auth.uid;
+    const db = admin.firestore();
+
+    try {
+      const userDoc = await db.collection("users").doc(uid).get();
+      if (!userDoc.exists) {
+        throw new HttpsError("not-found", "User not found");
+      }
+
+      const userRef = userDoc.ref;
+      const memberships = await db
+        .collectionGroup("members")
+        .where("uid", "==", uid)
+        .get();
+
+      return {
+        exportedAt: new Date().toISOString(),
+        account: {id: uid, ...(toPlain(userDoc.data()) as object)},
+        health: {
+          days: await readAll(userRef.collection("health")),
+          mealSuggestions: await readAll(userRef.collection("mealSuggestions")),
+          plannedMeals: await readAll(userRef.collection("plannedMeals")),
+          recipes: await readAll(
+            db.collection("recipes").where("ownerUid", "==", uid)
+          ),
+          foodCorrections: await readAll(userRef.collection("foodCorrections")),
+          goals: await readAll(userRef.collection("goals")),
+          measurements: await readAll(userRef.collection("measurements")),
+          ringStats: await readAll(
+            db.collection("ringStats").doc(uid).collection("daily")
+          ),
+        },
+        community: {
+          friends: await readAll(
+            db.collection("friends").doc(uid).collection("list")
+          ),
+          friendRequests: {
+            sent: await readAll(
+              db.collection("friendRequests").where("fromUid", "==", uid)
+            ),
+            received: await readAll(
+              db.collection("friendRequests").where("toUid", "==", uid)
+            ),
+          },
+          ownedClans: await readAll(
+            db.collection("clans").where("ownerUid", "==", uid)
+          ),
+          clanMemberships: memberships.docs.map((doc) => ({
+            clanId: doc.ref.parent.parent?.id,
+            ...(toPlain(doc.data()) as object),
+          })),
+          clanInvites: {
+            sent: await readAll(
+              db.collection("clanInvites").where("fromUid", "==", uid)
+            ),
+            received: await readAll(
+              db.collection("clanInvites").where("toUid", "==", uid)
+            ),
+          },
+          blockedUsers: await readAll(
+            db.collection("blockedUsers").doc(uid).collection("list")
+          ),
+        },
+        notifications: await readAll(
+          db.collection("notifications").doc(uid).collection("items")
+        ),
+      };
+    } catch (error: unknown) {
+      logger.error("Error in exportUserData:", error);
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError("internal", "Failed to export user data");
+    }
+  }
+);
+
+export const deleteAccount = onCall(
+  {region: "us-central1", cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be authenticated");
+    }
+
+    const uid = request.auth.uid;
+    const signedInAt = request.auth.token.auth_time;
+    if (Date.now() / 1000 - signedInAt > RECENT_SIGN_IN_SECONDS) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Please sign in again before deleting your account"
+      );
+    }
+
+    const db = admin.firestore();
+
+    try {
+      // Remove the user from each friend's list; their listeners update
+      const friendsSnap = await db
+        .collection("friends")
+        .doc(uid)
+        .collection("list")
+        .get();
+      const friendWriter = db.bulkWriter();
+      friendsSnap.docs.forEach((doc) => {
+        friendWriter.delete(
+          db.collection("friends").doc(doc.id).collection("list").doc(uid)
+        );
+      });
+      await friendWriter.close();
+
+      // Hand owned clans to the longest-serving admin, then member
+      const ownedClans = await db
+        .collection("clans")
+        .where("ownerUid", "==", uid)
+        .get();
+
+      for (const clanDoc of ownedClans.docs) {
+        const clanName = clanDoc.data().name || "Clan";
+        const membersSnap = await clanDoc.ref
+          .collection("members")
+          .where("status", "==", "active")
+          .orderBy("joinedAt", "asc")
+          .get();
+        const candidates = membersSnap.docs.filter((doc) => doc.id !== uid);
+        const successor =
+          candidates.find((doc) => doc.data().role === "admin") ||
+          candidates[0];
+
+        if (!successor) {
+          await deleteAll(
+            db.collection("clanInvites").where("clanId", "==", clanDoc.id)
+          );
+          await db.recursiveDelete(clanDoc.ref);
+          continue;
+        }
+
+        await db.runTransaction(async (transaction) => {
+          transaction.update(clanDoc.ref, {ownerUid: successor.id});
+          transaction.update(successor.ref, {role: "owner"});
+        });
+
+        await sendFCMNotification(
+          successor.id,
+          "You are now clan owner",
+          `You are now the owner of ${clanName}`,
+          {type: "CLAN_OWNERSHIP_TRANSFERRED", clanId: clanDoc.id}
+        );
+        await createNotification(
+          successor.id,
+          "CLAN_OWNERSHIP_TRANSFERRED",
+          "You are now clan owner",
+          `You are now the owner of ${clanName}`,
+          {clanId: clanDoc.id}
+        );
+      }
+
+      // Leave any other clans and drop pending requests and invites
+      const friendRequests = db.collection("friendRequests");
+      const clanInvites = db.collection("clanInvites");
+      await deleteAll(db.collectionGroup("members").where("uid", "==", uid));
+      await deleteAll(friendRequests.where("fromUid", "==", uid));
+      await deleteAll(friendRequests.where("toUid", "==", uid));
+      await deleteAll(clanInvites.where("fromUid", "==", uid));
+      await deleteAll(clanInvites.where("toUid", "==", uid));
+      await deleteAll(db.collection("recipes").where("ownerUid", "==", uid));
+
+      await db.recursiveDelete(db.collection("friends").doc(uid));
+      await db.recursiveDelete(db.collection("blockedUsers").doc(uid));
+      await db.recursiveDelete(db.collection("notifications").doc(uid));
+      await db.recursiveDelete(db.collection("ringStats").doc(uid));
+      await db.recursiveDelete(db.collection("users").doc(uid));
+
+      await admin.auth().deleteUser(uid);
+
+      return {success: true};
+    } catch (error: unknown) {
+      logger.error("Error in deleteAccount:", error);
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError("internal", "Failed to delete account");
+    }
+  }
+);
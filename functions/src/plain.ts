@@ -0,0 +1,21 @@
+import * as admin from "firebase-admin";
+
+/**
+ * Convert Firestore values into plain JSON (Timestamps become ISO strings)
+ * @param {unknown} value - Value read from Firestore
+ * @return {unknown} JSON-safe copy of the value
+ */
+export function toPlain(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlain);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, toPlain(entry)])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,85 @@
+import * as fs from "fs";
+import * as admin from "firebase-admin";
+import {toPlain} from "../plain";
+
+// Exports Firestore to the JSON file read by the backend migration
+// (backend/src/scripts/migrate-firestore.ts). Reads the emulator when
+// FIRESTORE_EMULATOR_HOST is set, otherwise the project of the default
+// credentials.
+//
+//   npm run firestore:dump -- <out.json> [collection...]
+
+const DEFAULT_COLLECTIONS = ["users", "friends", "clans", "ringStats"];
+
+interface DumpDocument {
+  id: string;
+  data: Record<string, unknown> | null;
+  collections: Record<string, DumpDocument[]>;
+}
+
+/**
+ * Read every document of a collection with its subcollections. Parent
+ * documents that only hold subcollections (friends/{uid}) are listed too,
+ * with null data.
+ * @param {FirebaseFirestore.CollectionReference} collection - Collection
+ * @return {Promise<DumpDocument[]>} Documents in the dump format
+ */
+async function dumpCollection(
+  collection: FirebaseFirestore.CollectionReference
+): Promise<DumpDocument[]> {
+  const refs = await collection.listDocuments();
+  const docs: DumpDocument[] = [];
+
+  for (const ref of refs) {
+    const snap = await ref.get();
+    const collections: Record<string, DumpDocument[]> = {};
+    for (const child of await ref.listCollections()) {
+      collections[child.id] = await dumpCollection(child);
+    }
+
+    docs.push({
+      id: ref.id,
+      data: snap.exists ?
+        (toPlain(snap.data()) as Record<string, unknown>) :
+        null,
+      collections,
+    });
+  }
+
+  return docs;
+}
+
+/**
+ * Write the requested top-level collections to the output file
+ * @return {Promise<void>}
+ */
+async function main(): Promise<void> {
+  const [output, ...names] = process.argv.slice(2);
+  if (!output) {
+    throw new Error(
+      "Usage: npm run firestore:dump -- <out.json> [collection...]"
+    );
+  }
+
+  admin.initializeApp();
+  const db = admin.firestore();
+  const collections: Record<string, DumpDocument[]> = {};
+
+  for (const name of names.length > 0 ? names : DEFAULT_COLLECTIONS) {
+    collections[name] = await dumpCollection(db.collection(name));
+    console.log(`${name}: ${collections[name].length} document(s)`);
+  }
+
+  const dump = {
+    exportedAt: new Date().toISOString(),
+    projectId: admin.app().options.projectId ?? process.env.GCLOUD_PROJECT,
+    collections,
+  };
+  fs.writeFileSync(output, `${JSON.stringify(dump, null, 2)}\n`);
+  console.log(`Wrote ${output}`);
+}
+
+main().catch((error) => {
+  console.error("Failed to dump Firestore:", error);
+  process.exitCode = 1;
+});
@@ -1,6 +1,6 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { apiClient, updateAuthToken, getAuthToken } from './client';
-import { User, UserProfile } from '../../types';
+import * as api from './generated';
+import { User, UserProfile, DeviceSession } from '../../types';
 
 export interface AuthResponse {
   token: string;
@@ -10,6 +10,7 @@ export interface AuthResponse {
     email: string;
     displayName: string;
     photoURL?: string;
+    emailVerifiedAt?: string | null;
   };
 }
 
@@ -23,21 +24,12 @@ export const signUp = async (
   username?: string
 ): Promise<AuthResponse> => {
   try {
-    const response = await apiClient.post<{
-      token: string;
-      refreshToken: string;
-      user: {
-        id: string;
-        email: string;
-        displayName: string;
-        photoURL?: string;
-      };
-    }>('/auth/register', {
+    const response = await api.register({
       email,
       password,
       displayName,
       username,
-    }, { skipAuth: true });
+    });
 
     // Store tokens
     await updateAuthToken(response.token);
@@ -59,19 +51,10 @@ export const signUp = async (
  */
 export const signIn = async (email: string, password: string): Promise<AuthResponse> => {
   try {
-    const response = await apiClient.post<{
-      token: string;
-      refreshToken: string;
-      user: {
-        id: string;
-        email: string;
-        displayName: string;
-        photoURL?: string;
-      };
-    }>('/auth/login', {
+    const response = await api.login({
       email,
       password,
-    }, { skipAuth: true });
+    });
 
     // Store tokens
     await updateAuthToken(response.token);
@@ -93,12 +76,138 @@ export const signIn = async (email: string, password: string): Promise<AuthRespo
  */
 export const logout = async (): Promise<void> => {
   try {
+    // Revoke this device's session; sign out locally even if that fails
+    const refreshToken = await apiClient.getRefreshToken();
+    if (refreshToken) {
+      await api.logout({ refreshToken }).catch(error => {
+        console.error('Error revoking session:', error);
+      });
+    }
     await apiClient.clearTokens();
   } catch (error) {
     console.error('Error signing out:', error);
   }
 };
 
+/**
+ * Sign out of every device, including this one
+ */
+export const signOutEverywhere = async (): Promise<void> => {
+  try {
+    await api.logoutAll();
+    await apiClient.clearTokens();
+  } catch (error: any) {
+    const message = error.message || 'Failed to sign out everywhere';
+    throw new Error(message);
+  }
+};
+
+/**
+ * List signed-in devices
+ */
+export const getSessions = async (): Promise<DeviceSession[]> => {
+  try {
+    const sessions = await api.getSessions();
+    return sessions.map(session => ({
+      id: session.id,
+      userAgent: session.userAgent || undefined,
+      ipAddress: session.ipAddress || undefined,
+      createdAt: new Date(session.createdAt),
+      lastUsedAt: new Date(session.lastUsedAt),
+      current: !!session.current,
+    }));
+  } catch (error: any) {
+    const message = error.message || 'Failed to get sessions';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Sign out a single device
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  try {
+    await api.revokeSession(sessionId);
+  } catch (error: any) {
+    const message = error.message || 'Failed to revoke session';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Email a password reset token. Succeeds whether or not the account exists.
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  try {
+    await api.forgotPassword({ email });
+  } catch (error: any) {
+    const message = error.message || 'Failed to request password reset';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Set a new password with a reset token. Signs out every device.
+ */
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+  try {
+    await api.resetPassword({ token, password });
+  } catch (error: any) {
+    const message = error.message || 'Failed to reset password';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Resend the email verification message
+ */
+export const sendVerificationEmail = async (): Promise<void> => {
+  try {
+    await api.sendVerificationEmail();
+  } catch (error: any) {
+    const message = error.message || 'Failed to send verification email';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Confirm an email address with a verification token
+ */
+export const verifyEmail = async (token: string): Promise<{ userId: string; email: string }> => {
+  try {
+    const user = await api.verifyEmail({ token });
+    return { userId: user.id, email: user.email };
+  } catch (error: any) {
+    const message = error.message || 'Failed to verify email';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Download everything stored about the current user
+ */
+export const exportMyData = async (): Promise<Record<string, any>> => {
+  try {
+    return await api.exportMyData();
+  } catch (error: any) {
+    const message = error.message || 'Failed to export your data';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Permanently delete the current user's account. Requires the password.
+ */
+export const deleteAccount = async (password: string): Promise<void> => {
+  try {
+    await api.deleteMe({ password });
+    await apiClient.clearTokens();
+  } catch (error: any) {
+    const message = error.message || 'Failed to delete account';
+    throw new Error(message);
+  }
+};
+
 /**
  * Get current user from token
  */
@@ -109,29 +218,18 @@ export const getCurrentUser = async (): Promise<User | null> => {
       return null;
     }
 
-    const user = await apiClient.get<{
-      id: string;
-      email: string;
-      displayName: string;
-      photoURL?: string;
-      profile?: {
-        age?: number;
-        weight?: number;
-        height?: number;
-        activityLevel?: string;
-        gender?: string;
-      };
-    }>('/auth/me');
+    const user = await api.getMe();
 
     return {
       uid: user.id,
       email: user.email,
+      emailVerified: !!user.emailVerifiedAt,
       profile: user.profile ? {
         age: user.profile.age || 0,
         weight: user.profile.weight || 0,
         height: user.profile.height || 0,
-        activityLevel: (user.profile.activityLevel as any) || 'sedentary',
-        gender: (user.profile.gender as any) || 'other',
+        activityLevel: user.profile.activityLevel || 'sedentary',
+        gender: user.profile.gender || 'other',
       } : undefined,
     };
   } catch (error) {
@@ -145,15 +243,7 @@ export const getCurrentUser = async (): Promise<User | null> => {
  */
 export const getUserProfile = async (): Promise<UserProfile | null> => {
   try {
-    const user = await apiClient.get<{
-      profile?: {
-        age?: number;
-        weight?: number;
-        height?: number;
-        activityLevel?: string;
-        gender?: string;
-      };
-    }>('/auth/me');
+    const user = await api.getMe();
 
     if (!user.profile) {
       return null;
@@ -163,8 +253,8 @@ export const getUserProfile = async (): Promise<UserProfile | null> => {
       age: user.profile.age || 0,
       weight: user.profile.weight || 0,
       height: user.profile.height || 0,
-      activityLevel: (user.profile.activityLevel as any) || 'sedentary',
-      gender: (user.profile.gender as any) || 'other',
+      activityLevel: user.profile.activityLevel || 'sedentary',
+      gender: user.profile.gender || 'other',
     };
   } catch (error) {
     console.error('Error getting user profile:', error);
@@ -177,7 +267,7 @@ export const getUserProfile = async (): Promise<UserProfile | null> => {
  */
 export const saveUserProfile = async (profile: UserProfile): Promise<void> => {
   try {
-    await apiClient.put('/auth/profile', {
+    await api.updateProfile({
       age: profile.age,
       weight: profile.weight,
       height: profile.height,
@@ -191,30 +281,18 @@ export const saveUserProfile = async (profile: UserProfile): Promise<void> => {
 };
 
 /**
- * Refresh access token using refresh token
+ * Refresh access token using refresh token.
+ * Goes through the API client so it shares any refresh already in flight.
  */
 export const refreshAccessToken = async (): Promise<string | null> => {
   try {
-    const refreshToken = await apiClient.getRefreshToken();
-    if (!refreshToken) {
+    const refreshed = await apiClient.refreshAccessToken();
+    if (!refreshed) {
       return null;
     }
-
-    const response = await apiClient.post<{
-      token: string;
-      refreshToken: string;
-    }>('/auth/refresh', {
-      refreshToken,
-    }, { skipAuth: true });
-
-    // Update tokens
-    await updateAuthToken(response.token);
-    await apiClient.updateRefreshToken(response.refreshToken);
-
-    return response.token;
+    return await getAuthToken();
   } catch (error) {
     console.error('Error refreshing token:', error);
-    await logout();
     return null;
   }
 };
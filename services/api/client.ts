@@ -1,12 +1,14 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // Get API base URL from environment or use default
-// Remove /graphql suffix if present (legacy from GraphQL setup)
+// Remove /graphql suffix if present (legacy from GraphQL setup). The REST
+// API is mounted under /api, the server listed in the OpenAPI document.
 const rawUrl = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:4000';
-const API_BASE_URL = rawUrl.replace(/\/graphql$/, '');
+const API_BASE_URL = `${rawUrl.replace(/\/(graphql|api)\/?$/, '')}/api`;
 
 interface RequestOptions extends RequestInit {
   skipAuth?: boolean;
+  isRetry?: boolean;
 }
 
 /**
@@ -15,6 +17,10 @@ interface RequestOptions extends RequestInit {
  */
 class ApiClient {
   private baseURL: string;
+  // In-flight refresh shared by every request that hits a 401. Refresh
+  // tokens rotate on use, so two parallel refreshes would look like reuse
+  // and revoke the session.
+  private refreshPromise: Promise<boolean> | null = null;
 
   constructor(baseURL: string) {
     this.baseURL = baseURL;
@@ -89,7 +95,7 @@ class ApiClient {
     endpoint: string,
     options: RequestOptions = {}
   ): Promise<T> {
-    const { skipAuth = false, ...fetchOptions } = options;
+    const { skipAuth = false, isRetry = false, ...fetchOptions } = options;
     
     const url = `${this.baseURL}${endpoint}`;
     const headers: HeadersInit = {
@@ -115,12 +121,12 @@ class ApiClient {
 
       // Handle non-2xx responses
       if (!response.ok) {
-        // Try to refresh token if 401 and we have a refresh token
-        if (response.status === 401 && !skipAuth) {
+        // Try to refresh token once if 401 and we have a refresh token
+        if (response.status === 401 && !skipAuth && !isRetry) {
           const refreshed = await this.refreshAccessToken();
           if (refreshed) {
             // Retry the request with new token
-            return this.request<T>(endpoint, options);
+            return this.request<T>(endpoint, { ...options, isRetry: true });
           }
         }
 
@@ -147,9 +153,19 @@ class ApiClient {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Refresh access token using refresh token.
+   * Concurrent callers share a single refresh request.
    */
-  private async refreshAccessToken(): Promise<boolean> {
+  async refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<boolean> {
     try {
       const refreshToken = await this.getRefreshToken();
       if (!refreshToken) {
@@ -165,7 +181,10 @@ class ApiClient {
       });
 
       if (!response.ok) {
-        await this.clearTokens();
+        // The refresh token was rejected (expired, revoked or reused)
+        if (response.status === 401) {
+          await this.clearTokens();
+        }
         return false;
       }
 
@@ -173,6 +192,7 @@ class ApiClient {
       const result = data.data || data;
 
       if (result.token && result.refreshToken) {
+        // Store the rotated pair; the old refresh token is no longer valid
         await this.updateAuthToken(result.token);
         await this.updateRefreshToken(result.refreshToken);
         return true;
@@ -180,8 +200,8 @@ class ApiClient {
 
       return false;
     } catch (error) {
+      // Network failure: keep the tokens so a later attempt can succeed
       console.error('Error refreshing token:', error);
-      await this.clearTokens();
       return false;
     }
   }
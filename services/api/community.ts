@@ -1,12 +1,30 @@
-import { apiClient } from './client';
-import { Friend, FriendRequest, Clan, ClanInvite, Notification } from '../../types';
+import * as api from './generated';
+import { Friend, FriendRequest, Clan, ClanInvite, ClanMember, ClanPrivacy, Notification, RingStats, SearchableUser } from '../../types';
+
+const toSearchableUser = (user: api.User): SearchableUser => ({
+  uid: user.id,
+  displayName: user.displayName,
+  email: user.email,
+  photoURL: user.photoURL || '',
+  usernameLower: user.usernameLower ?? undefined,
+});
+
+const toClan = (clan: api.Clan): Clan => ({
+  id: clan.id,
+  name: clan.name,
+  description: clan.description || '',
+  photoURL: clan.photoURL || '',
+  ownerUid: clan.ownerUid,
+  privacy: clan.privacy,
+  createdAt: new Date(clan.createdAt),
+});
 
 /**
  * Get friends list
  */
 export const getFriends = async (): Promise<Friend[]> => {
   try {
-    const friends = await apiClient.get<any[]>('/community/friends');
+    const friends = await api.getFriends();
 
     return friends.map((f: any) => ({
       friendUid: f.friendUid || f.friend?.id,
@@ -33,10 +51,7 @@ export const getFriendRequests = async (): Promise<{
   received: FriendRequest[];
 }> => {
   try {
-    const requests = await apiClient.get<{
-      sent: any[];
-      received: any[];
-    }>('/community/friend-requests');
+    const requests = await api.getFriendRequests();
 
     return {
       sent: (requests.sent || []).map((req: any) => ({
@@ -77,9 +92,7 @@ export const getFriendRequests = async (): Promise<{
  */
 export const sendFriendRequest = async (toUid: string): Promise<FriendRequest> => {
   try {
-    const req = await apiClient.post<any>('/community/friend-requests', {
-      toUid,
-    });
+    const req = await api.sendFriendRequest({ toUid });
 
     return {
       fromUid: req.fromUid,
@@ -99,10 +112,10 @@ export const sendFriendRequest = async (toUid: string): Promise<FriendRequest> =
  */
 export const acceptFriendRequest = async (fromUid: string): Promise<Friend> => {
   try {
-    const friend = await apiClient.post<any>(`/community/friend-requests/${fromUid}/accept`);
+    const friend = await api.acceptFriendRequest(fromUid);
 
     return {
-      friendUid: friend.friendUid || friend.friend?.id,
+      friendUid: friend.friendUid,
       createdAt: new Date(friend.createdAt),
       ringsShare: friend.ringsShare || false,
       friend: friend.friend ? {
@@ -123,7 +136,7 @@ export const acceptFriendRequest = async (fromUid: string): Promise<Friend> => {
  */
 export const rejectFriendRequest = async (fromUid: string): Promise<void> => {
   try {
-    await apiClient.post(`/community/friend-requests/${fromUid}/reject`);
+    await api.rejectFriendRequest(fromUid);
   } catch (error: any) {
     const message = error.message || 'Failed to reject friend request';
     throw new Error(message);
@@ -135,7 +148,7 @@ export const rejectFriendRequest = async (fromUid: string): Promise<void> => {
  */
 export const cancelFriendRequest = async (toUid: string): Promise<void> => {
   try {
-    await apiClient.delete(`/community/friend-requests/${toUid}`);
+    await api.cancelFriendRequest(toUid);
   } catch (error: any) {
     const message = error.message || 'Failed to cancel friend request';
     throw new Error(message);
@@ -147,7 +160,7 @@ export const cancelFriendRequest = async (toUid: string): Promise<void> => {
  */
 export const removeFriend = async (friendUid: string): Promise<void> => {
   try {
-    await apiClient.delete(`/community/friends/${friendUid}`);
+    await api.removeFriend(friendUid);
   } catch (error: any) {
     const message = error.message || 'Failed to remove friend';
     throw new Error(message);
@@ -159,7 +172,7 @@ export const removeFriend = async (friendUid: string): Promise<void> => {
  */
 export const getClans = async (): Promise<Clan[]> => {
   try {
-    const clans = await apiClient.get<any[]>('/community/clans');
+    const clans = await api.getUserClans();
 
     return clans.map((clan: any) => ({
       id: clan.id,
@@ -167,7 +180,7 @@ export const getClans = async (): Promise<Clan[]> => {
       description: clan.description || '',
       photoURL: clan.photoURL || '',
       ownerUid: clan.ownerUid,
-      privacy: (clan.privacy as 'public' | 'private') || 'public',
+      privacy: clan.privacy,
       createdAt: new Date(clan.createdAt),
       members: (clan.members || []).map((member: any) => ({
         uid: member.uid || member.user?.id,
@@ -187,12 +200,48 @@ export const getClans = async (): Promise<Clan[]> => {
   }
 };
 
+/**
+ * Get a clan, or null if it does not exist
+ */
+export const getClan = async (clanId: string): Promise<Clan | null> => {
+  try {
+    return toClan(await api.getClan(clanId));
+  } catch (error: any) {
+    if (error.status === 404) {
+      return null;
+    }
+    const message = error.message || 'Failed to get clan';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Get a clan's active members
+ */
+export const getClanMembers = async (clanId: string): Promise<ClanMember[]> => {
+  try {
+    const clan = await api.getClan(clanId);
+
+    return (clan.members || [])
+      .filter((member) => member.status === 'active')
+      .map((member) => ({
+        uid: member.uid,
+        role: member.role,
+        status: member.status,
+        joinedAt: new Date(member.joinedAt),
+      }));
+  } catch (error: any) {
+    const message = error.message || 'Failed to get clan members';
+    throw new Error(message);
+  }
+};
+
 /**
  * Get clan invites
  */
 export const getClanInvites = async (): Promise<ClanInvite[]> => {
   try {
-    const invites = await apiClient.get<any[]>('/community/clans/invites');
+    const invites = await api.getClanInvites();
 
     return invites.map((invite: any) => ({
       id: invite.id,
@@ -222,24 +271,15 @@ export const getClanInvites = async (): Promise<ClanInvite[]> => {
 /**
  * Create clan
  */
-export const createClan = async (name: string, description?: string, privacy?: string): Promise<Clan> => {
+export const createClan = async (name: string, description?: string, privacy?: ClanPrivacy): Promise<Clan> => {
   try {
-    const clan = await apiClient.post<any>('/community/clans', {
+    const clan = await api.createClan({
       name,
       description,
       privacy,
     });
 
-    return {
-      id: clan.id,
-      name: clan.name,
-      description: clan.description || '',
-      photoURL: clan.photoURL || '',
-      ownerUid: clan.ownerUid,
-      privacy: (clan.privacy as 'public' | 'private') || 'public',
-      createdAt: new Date(),
-      members: [],
-    };
+    return toClan(clan);
   } catch (error: any) {
     const message = error.message || 'Failed to create clan';
     throw new Error(message);
@@ -251,9 +291,7 @@ export const createClan = async (name: string, description?: string, privacy?: s
  */
 export const inviteToClan = async (clanId: string, toUid: string): Promise<ClanInvite> => {
   try {
-    const invite = await apiClient.post<any>(`/community/clans/${clanId}/invite`, {
-      toUid,
-    });
+    const invite = await api.inviteToClan(clanId, { toUid });
 
     return {
       id: invite.id,
@@ -282,9 +320,7 @@ export const respondClanInvite = async (clanId: string, action: 'accept' | 'reje
       throw new Error('Clan invite not found');
     }
 
-    await apiClient.post(`/community/clans/${clanId}/invites/${invite.id}/respond`, {
-      action,
-    });
+    await api.respondClanInvite(clanId, invite.id, { action });
   } catch (error: any) {
     const message = error.message || 'Failed to respond to clan invite';
     throw new Error(message);
@@ -296,26 +332,31 @@ export const respondClanInvite = async (clanId: string, action: 'accept' | 'reje
  */
 export const leaveClan = async (clanId: string): Promise<void> => {
   try {
-    await apiClient.delete(`/community/clans/${clanId}/leave`);
+    await api.leaveClan(clanId);
   } catch (error: any) {
     const message = error.message || 'Failed to leave clan';
     throw new Error(message);
   }
 };
 
+/**
+ * Remove a member from a clan (owner or admin only)
+ */
+export const removeClanMember = async (clanId: string, memberUid: string): Promise<void> => {
+  try {
+    await api.removeClanMember(clanId, memberUid);
+  } catch (error: any) {
+    const message = error.message || 'Failed to remove clan member';
+    throw new Error(message);
+  }
+};
+
 /**
  * Get notifications
  */
 export const getNotifications = async (limit?: number, offset?: number): Promise<Notification[]> => {
   try {
-    const params = new URLSearchParams();
-    if (limit) params.append('limit', limit.toString());
-    if (offset) params.append('offset', offset.toString());
-    
-    const queryString = params.toString();
-    const endpoint = `/community/notifications${queryString ? `?${queryString}` : ''}`;
-    
-    const notifications = await apiClient.get<any[]>(endpoint);
+    const notifications = await api.getNotifications({ limit, offset });
 
     return notifications.map((notif: any) => ({
       id: notif.id,
@@ -337,7 +378,7 @@ export const getNotifications = async (limit?: number, offset?: number): Promise
  */
 export const getUnreadNotificationCount = async (): Promise<number> => {
   try {
-    const count = await apiClient.get<number>('/community/notifications/unread-count');
+    const { count } = await api.getUnreadNotificationCount();
     return count || 0;
   } catch (error: any) {
     console.error('Error getting unread notification count:', error);
@@ -350,7 +391,7 @@ export const getUnreadNotificationCount = async (): Promise<number> => {
  */
 export const markNotificationRead = async (notificationId: string): Promise<void> => {
   try {
-    await apiClient.put(`/community/notifications/${notificationId}/read`);
+    await api.markNotificationRead(notificationId);
   } catch (error: any) {
     const message = error.message || 'Failed to mark notification as read';
     throw new Error(message);
@@ -362,9 +403,62 @@ export const markNotificationRead = async (notificationId: string): Promise<void
  */
 export const markAllNotificationsRead = async (): Promise<void> => {
   try {
-    await apiClient.put('/community/notifications/read-all');
+    await api.markAllNotificationsRead();
   } catch (error: any) {
     const message = error.message || 'Failed to mark all notifications as read';
     throw new Error(message);
   }
 };
+
+/**
+ * Get a user's public profile, or null if it does not exist
+ */
+export const getUser = async (uid: string): Promise<SearchableUser | null> => {
+  try {
+    return toSearchableUser(await api.getUserById(uid));
+  } catch (error: any) {
+    if (error.status === 404) {
+      return null;
+    }
+    const message = error.message || 'Failed to get user';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Search users by name or email
+ */
+export const searchUsers = async (search: string, limit?: number, offset?: number): Promise<SearchableUser[]> => {
+  try {
+    const users = await api.searchUsers({ search, limit, offset });
+    return users.map(toSearchableUser);
+  } catch (error: any) {
+    const message = error.message || 'Failed to search users';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Get the signed-in user's ring stats for a day (yyyyMMdd), or null if none were saved
+ */
+export const getRingStats = async (date: string): Promise<RingStats | null> => {
+  try {
+    const stats = await api.getRingStats(date);
+
+    return {
+      caloriesBurned: stats.caloriesBurned,
+      steps: stats.steps,
+      workoutMinutes: stats.workoutMinutes,
+      goalCalories: stats.goalCalories,
+      goalSteps: stats.goalSteps,
+      goalMinutes: stats.goalMinutes,
+      updatedAt: new Date(stats.updatedAt),
+    };
+  } catch (error: any) {
+    if (error.status === 404) {
+      return null;
+    }
+    const message = error.message || 'Failed to get ring stats';
+    throw new Error(message);
+  }
+};
@@ -0,0 +1,96 @@
+import * as api from './generated';
+import { ApiError } from './client';
+import { FoodCorrection, FoodCorrectionInput, RecognitionImageType, RecognizedFood } from '../../types';
+
+/**
+ * The server cannot recognize food right now: the device is offline, or no
+ * recognition provider is configured. Logging goes on by search or by hand.
+ */
+export class RecognitionUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecognitionUnavailableError';
+  }
+}
+
+const toRecognizedFood = (item: api.FoodRecognition['items'][number]): RecognizedFood => ({
+  detectedName: item.detectedName,
+  name: item.name,
+  quantity: item.quantity,
+  unit: item.unit,
+  grams: item.grams ?? undefined,
+  calories: item.calories,
+  detectedCalories: item.detectedCalories,
+  macros: { carbs: item.carbs, protein: item.protein, fat: item.fat },
+  nutrients: item.nutrients ?? undefined,
+  foodId: item.foodId ?? undefined,
+  confidence: item.confidence,
+  corrected: item.corrected,
+});
+
+export const toFoodCorrection = (correction: api.FoodCorrection): FoodCorrection => ({
+  detectedName: correction.detectedName,
+  name: correction.name,
+  foodId: correction.foodId ?? undefined,
+  portionFactor: correction.portionFactor,
+  count: correction.count,
+});
+
+/**
+ * Recognize the foods on a base64 photo. The user's corrections rename and
+ * rescale foods they corrected before.
+ */
+export const recognizeFood = async (
+  image: string,
+  mimeType: RecognitionImageType,
+  corrections: FoodCorrection[]
+): Promise<RecognizedFood[]> => {
+  try {
+    const result = await api.recognizeFood({
+      image,
+      mimeType,
+      hints: corrections.map(({ detectedName, name, foodId, portionFactor }) => ({
+        detectedName,
+        name,
+        foodId: foodId ?? null,
+        portionFactor,
+      })),
+    });
+    return result.items.map(toRecognizedFood);
+  } catch (error: any) {
+    if (error instanceof ApiError && (error.status === 0 || error.status === 503)) {
+      throw new RecognitionUnavailableError(
+        error.status === 0 ? 'Food recognition needs an internet connection' : error.message
+      );
+    }
+    const message = error.message || 'Failed to recognize food';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Get the user's corrections of recognized foods, most recent first
+ */
+export const getFoodCorrections = async (): Promise<FoodCorrection[]> => {
+  try {
+    const corrections = await api.getFoodCorrections();
+    return (corrections || []).map(toFoodCorrection);
+  } catch (error: any) {
+    const message = error.message || 'Failed to get food corrections';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Remember what the user changed recognized foods into
+ */
+export const saveFoodCorrections = async (corrections: FoodCorrectionInput[]): Promise<void> => {
+  try {
+    await api.saveFoodCorrections({
+      corrections: corrections.map(correction => ({ ...correction, foodId: correction.foodId ?? null })),
+    });
+  } catch (error: any) {
+    const message = error.message || 'Failed to save food corrections';
+    throw new Error(message);
+  }
+};
@@ -0,0 +1,43 @@
+import * as api from './generated';
+import { ApiError } from './client';
+import { Food } from '../../types';
+
+export const toFood = (food: api.Food): Food => ({
+  id: food.id,
+  source: food.source,
+  name: food.name,
+  brand: food.brand ?? undefined,
+  barcode: food.barcode ?? undefined,
+  calories: food.calories,
+  macros: { carbs: food.carbs, protein: food.protein, fat: food.fat },
+  nutrients: food.nutrients ?? undefined,
+  servings: food.servings,
+});
+
+/**
+ * Search the food database by name and brand
+ */
+export const searchFoods = async (query: string): Promise<Food[]> => {
+  try {
+    const foods = await api.searchFoods({ q: query });
+    return (foods || []).map(toFood);
+  } catch (error: any) {
+    const message = error.message || 'Failed to search foods';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Look up a packaged food by its barcode; null when it is not in the database
+ */
+export const getFoodByBarcode = async (barcode: string): Promise<Food | null> => {
+  try {
+    return toFood(await api.getFoodByBarcode(barcode));
+  } catch (error: any) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    const message = error.message || 'Failed to look up barcode';
+    throw new Error(message);
+  }
+};
@@ -0,0 +1,1435 @@
+// Generated from the backend's OpenAPI document by `npm run openapi:generate`
+// in backend/. Do not edit by hand; change the routes or schemas instead.
+
+import { apiClient } from './client';
+
+const withQuery = (path: string, query: object): string => {
+  const search = Object.entries(query)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return search ? `${path}?${search}` : path;
+};
+
+// Schemas
+
+export interface Success {
+  success: boolean;
+}
+
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  code?: string;
+  details?: {
+    type?: string;
+    msg: string;
+    path: string;
+    location: string;
+  }[];
+  data?: Record<string, unknown>;
+}
+
+export interface UserProfile {
+  id: string;
+  userId: string;
+  age: number | null;
+  weight: number | null;
+  height: number | null;
+  activityLevel: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active' | null;
+  gender: 'male' | 'female' | 'other' | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserPrivacy {
+  id: string;
+  userId: string;
+  ringsVisibility: 'public' | 'friends' | 'clan' | 'private';
+  allowFriendRequests: boolean;
+  allowClanInvites: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  displayName: string;
+  photoURL: string;
+  usernameLower: string | null;
+  emailVerifiedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lastActiveAt: string;
+  profile?: UserProfile | null;
+  privacy?: UserPrivacy | null;
+}
+
+export interface AuthPayload {
+  token: string;
+  refreshToken: string;
+  user: User;
+}
+
+export interface DeviceSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface RevokedSessions {
+  revoked: number;
+}
+
+export interface VerifiedEmail {
+  id: string;
+  email: string;
+  emailVerifiedAt: string | null;
+}
+
+export type AccountExport = Record<string, unknown>;
+
+export interface Goals {
+  effectiveFrom: string | null;
+  caloriesIn: number;
+  caloriesOut: number;
+  steps: number;
+  activeMinutes: number;
+  waterGlasses: number;
+  proteinGrams: number;
+  carbsGrams: number;
+  fatGrams: number;
+  fastingHours: number;
+  weeklyWorkouts: number;
+}
+
+export interface GoalChange {
+  id: string;
+  userId: string;
+  effectiveFrom: string;
+  caloriesIn: number;
+  caloriesOut: number;
+  steps: number;
+  activeMinutes: number;
+  waterGlasses: number;
+  proteinGrams: number;
+  carbsGrams: number;
+  fatGrams: number;
+  fastingHours: number;
+  weeklyWorkouts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BodyMeasurement {
+  id: string;
+  userId: string;
+  date: string;
+  weight: number | null;
+  bodyFat: number | null;
+  waist: number | null;
+  hips: number | null;
+  chest: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Nutrients {
+  fiber?: number;
+  sugar?: number;
+  saturatedFat?: number;
+  sodium?: number;
+  potassium?: number;
+  cholesterol?: number;
+  calcium?: number;
+  iron?: number;
+  vitaminA?: number;
+  vitaminC?: number;
+  vitaminD?: number;
+}
+
+export interface Food {
+  id: string;
+  source: 'off' | 'usda';
+  sourceId: string;
+  name: string;
+  brand: string | null;
+  barcode: string | null;
+  calories: number;
+  carbs: number;
+  protein: number;
+  fat: number;
+  nutrients: Nutrients | null;
+  servings: {
+    name: string;
+    grams: number;
+  }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Recipe {
+  id: string;
+  userId: string;
+  name: string;
+  servings: number;
+  calories: number;
+  carbs: number;
+  protein: number;
+  fat: number;
+  nutrients: Nutrients | null;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  ingredients: RecipeIngredient[];
+  shares: Array<{
+    userId: string | null;
+    clanId: string | null;
+  }>;
+  user: {
+    id: string;
+    displayName: string;
+  };
+}
+
+export interface RecipeIngredient {
+  id: string;
+  recipeId: string;
+  position: number;
+  name: string;
+  quantity: number;
+  unit: string;
+  calories: number;
+  carbs: number;
+  protein: number;
+  fat: number;
+  nutrients: Nutrients | null;
+  foodId: string | null;
+}
+
+export interface PlannedMeal {
+  id: string;
+  userId: string;
+  date: string;
+  type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  name: string;
+  calories: number;
+  carbs: number;
+  protein: number;
+  fat: number;
+  nutrients: Nutrients | null;
+  loggedMealId: string | null;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  items: PlannedMealItem[];
+}
+
+export interface PlannedMealItem {
+  id: string;
+  plannedMealId: string;
+  position: number;
+  name: string;
+  quantity: number;
+  unit: string;
+  calories: number;
+  carbs: number;
+  protein: number;
+  fat: number;
+  nutrients: Nutrients | null;
+  foodId: string | null;
+}
+
+export interface FoodRecognition {
+  provider: string;
+  items: Array<{
+    detectedName: string;
+    name: string;
+    quantity: number;
+    unit: string;
+    grams: number | null;
+    calories: number;
+    detectedCalories: number;
+    carbs: number;
+    protein: number;
+    fat: number;
+    nutrients: Nutrients | null;
+    confidence: number;
+    foodId: string | null;
+    corrected: boolean;
+  }>;
+}
+
+export interface FoodCorrection {
+  id: string;
+  userId: string;
+  detectedName: string;
+  name: string;
+  foodId: string | null;
+  portionFactor: number;
+  count: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Meal {
+  id: string;
+  dailyHealthDataId: string;
+  type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  name: string;
+  calories: number;
+  carbs: number;
+  protein: number;
+  fat: number;
+  nutrients: Nutrients | null;
+  timestamp: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  items: MealItem[];
+}
+
+export interface MealItem {
+  id: string;
+  mealId: string;
+  position: number;
+  name: string;
+  quantity: number;
+  unit: string;
+  calories: number;
+  carbs: number;
+  protein: number;
+  fat: number;
+  nutrients: Nutrients | null;
+  foodId: string | null;
+}
+
+export interface MealSuggestion {
+  id: string;
+  userId: string;
+  type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  name: string;
+  calories: number;
+  carbs: number;
+  protein: number;
+  fat: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WaterEntry {
+  id: string;
+  dailyHealthDataId: string;
+  glasses: number;
+  timestamp: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Exercise {
+  id: string;
+  workoutId: string;
+  name: string;
+  category: 'cardio' | 'strength' | 'flexibility' | 'sports' | 'other';
+  duration: number | null;
+  sets: number | null;
+  reps: number | null;
+  weight: number | null;
+  caloriesBurned: number | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface LocationPoint {
+  id: string;
+  workoutId: string;
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  altitude: number | null;
+  speed: number | null;
+  accuracy: number | null;
+  createdAt: string;
+}
+
+export interface Workout {
+  id: string;
+  dailyHealthDataId: string;
+  name: string;
+  type: 'cardio' | 'strength' | 'hiit' | 'yoga' | 'pilates' | 'running' | 'cycling' | 'walking' | 'swimming' | 'other';
+  startTime: string;
+  endTime: string | null;
+  duration: number;
+  totalCaloriesBurned: number;
+  distance: number | null;
+  averageSpeed: number | null;
+  maxSpeed: number | null;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  exercises?: Exercise[];
+  locationPoints?: LocationPoint[];
+}
+
+export interface FastingSession {
+  id: string;
+  userId: string;
+  type: string;
+  startTime: string;
+  endTime: string | null;
+  targetDuration: number | null;
+  eatingWindowStart: number | null;
+  eatingWindowEnd: number | null;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DailyHealthData {
+  id: string;
+  userId: string;
+  date: string;
+  caloriesConsumed: number;
+  caloriesBurned: number;
+  activeEnergyBurned: number | null;
+  dietaryEnergyConsumed: number | null;
+  heartRate: number | null;
+  restingHeartRate: number | null;
+  steps: number;
+  waterIntake: number;
+  createdAt: string;
+  updatedAt: string;
+  meals: Meal[];
+  waterEntries: WaterEntry[];
+  workouts: Workout[];
+  fastingSessions?: FastingSession[];
+}
+
+export interface HealthRangeRow {
+  start: string;
+  days: number;
+  totalSteps: number;
+  avgSteps: number;
+  totalCaloriesConsumed: number;
+  avgCaloriesConsumed: number;
+  totalCaloriesBurned: number;
+  avgCaloriesBurned: number;
+  totalWaterIntake: number;
+  avgWaterIntake: number;
+  totalWorkoutMinutes: number;
+  avgWorkoutMinutes: number;
+  totalFastingHours: number;
+  avgFastingHours: number;
+}
+
+export interface HealthRange {
+  from: string;
+  to: string;
+  bucket: 'day' | 'week' | 'month';
+  buckets: HealthRangeRow[];
+}
+
+export interface Friend {
+  id: string;
+  userId: string;
+  friendUid: string;
+  ringsShare: boolean;
+  createdAt: string;
+  friend?: User;
+}
+
+export interface FriendRequest {
+  id: string;
+  fromUid: string;
+  toUid: string;
+  status: 'pending' | 'accepted' | 'rejected' | 'canceled';
+  createdAt: string;
+  updatedAt: string;
+  fromUser?: User;
+  toUser?: User;
+}
+
+export interface FriendRequests {
+  sent: FriendRequest[];
+  received: FriendRequest[];
+}
+
+export interface ClanMember {
+  id: string;
+  clanId: string;
+  uid: string;
+  role: 'owner' | 'admin' | 'member';
+  status: 'active' | 'invited';
+  joinedAt: string;
+  user?: User;
+  clan?: Clan;
+}
+
+export interface Clan {
+  id: string;
+  name: string;
+  description: string;
+  photoURL: string;
+  ownerUid: string;
+  privacy: 'inviteOnly' | 'friendsOnly';
+  createdAt: string;
+  updatedAt: string;
+  owner?: User;
+  members?: ClanMember[];
+}
+
+export interface ClanInvite {
+  id: string;
+  clanId: string;
+  fromUid: string;
+  toUid: string;
+  status: 'pending' | 'accepted' | 'rejected';
+  createdAt: string;
+  updatedAt: string;
+  clan?: Clan;
+  fromUser?: User;
+  toUser?: User;
+}
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: string;
+  title: string;
+  body: string;
+  data: string;
+  read: boolean;
+  createdAt: string;
+}
+
+export interface UnreadCount {
+  count: number;
+}
+
+export interface RingStats {
+  id: string;
+  userId: string;
+  date: string;
+  caloriesBurned: number;
+  steps: number;
+  workoutMinutes: number;
+  goalCalories: number;
+  goalSteps: number;
+  goalMinutes: number;
+  updatedAt: string;
+}
+
+// Auth
+
+export interface RegisterBody {
+  email: string;
+  password: string;
+  displayName?: string;
+  username?: string;
+}
+
+/** POST /auth/register */
+export const register = (body: RegisterBody) =>
+  apiClient.post<AuthPayload>('/auth/register', body, { skipAuth: true });
+
+export interface LoginBody {
+  email: string;
+  password: string;
+}
+
+/** POST /auth/login */
+export const login = (body: LoginBody) =>
+  apiClient.post<AuthPayload>('/auth/login', body, { skipAuth: true });
+
+export interface RefreshTokenBody {
+  refreshToken: string;
+}
+
+/** POST /auth/refresh */
+export const refreshToken = (body: RefreshTokenBody) =>
+  apiClient.post<AuthPayload>('/auth/refresh', body, { skipAuth: true });
+
+export interface LogoutBody {
+  refreshToken: string;
+}
+
+/** POST /auth/logout */
+export const logout = (body: LogoutBody) =>
+  apiClient.post<Success>('/auth/logout', body, { skipAuth: true });
+
+/** POST /auth/logout-all */
+export const logoutAll = () =>
+  apiClient.post<RevokedSessions>('/auth/logout-all');
+
+/** GET /auth/sessions */
+export const getSessions = () =>
+  apiClient.get<DeviceSession[]>('/auth/sessions');
+
+/** DELETE /auth/sessions/{id} */
+export const revokeSession = (id: string) =>
+  apiClient.delete<Success>(`/auth/sessions/${encodeURIComponent(id)}`);
+
+export interface ForgotPasswordBody {
+  email: string;
+}
+
+/** POST /auth/forgot-password */
+export const forgotPassword = (body: ForgotPasswordBody) =>
+  apiClient.post<Success>('/auth/forgot-password', body, { skipAuth: true });
+
+export interface ResetPasswordBody {
+  token: string;
+  password: string;
+}
+
+/** POST /auth/reset-password */
+export const resetPassword = (body: ResetPasswordBody) =>
+  apiClient.post<Success>('/auth/reset-password', body, { skipAuth: true });
+
+/** POST /auth/verify-email/send */
+export const sendVerificationEmail = () =>
+  apiClient.post<Success>('/auth/verify-email/send');
+
+export interface VerifyEmailBody {
+  token: string;
+}
+
+/** POST /auth/verify-email */
+export const verifyEmail = (body: VerifyEmailBody) =>
+  apiClient.post<VerifiedEmail>('/auth/verify-email', body, { skipAuth: true });
+
+/** GET /auth/me */
+export const getMe = () =>
+  apiClient.get<User>('/auth/me');
+
+export interface UpdateProfileBody {
+  age?: number;
+  weight?: number;
+  height?: number;
+  activityLevel?: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+  gender?: 'male' | 'female' | 'other';
+}
+
+/** PUT /auth/profile */
+export const updateProfile = (body: UpdateProfileBody) =>
+  apiClient.put<UserProfile>('/auth/profile', body);
+
+export interface UpdatePrivacyBody {
+  ringsVisibility?: 'public' | 'friends' | 'clan' | 'private';
+  allowFriendRequests?: boolean;
+  allowClanInvites?: boolean;
+}
+
+/** PUT /auth/privacy */
+export const updatePrivacy = (body: UpdatePrivacyBody) =>
+  apiClient.put<UserPrivacy>('/auth/privacy', body);
+
+// Users
+
+/** GET /users/me/export */
+export const exportMyData = () =>
+  apiClient.get<AccountExport>('/users/me/export');
+
+export interface DeleteMeBody {
+  password: string;
+}
+
+/** DELETE /users/me */
+export const deleteMe = (body: DeleteMeBody) =>
+  apiClient.delete<Success>('/users/me', { body: JSON.stringify(body) });
+
+/** GET /users/{id} */
+export const getUserById = (id: string) =>
+  apiClient.get<User>(`/users/${encodeURIComponent(id)}`);
+
+export interface SearchUsersQuery {
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/** GET /users/search */
+export const searchUsers = (query: SearchUsersQuery = {}) =>
+  apiClient.get<User[]>(withQuery('/users/search', query));
+
+// Health
+
+export interface GetDailyHealthDataQuery {
+  tzOffset?: number;
+}
+
+/** GET /health/daily/{date} */
+export const getDailyHealthData = (date: string, query: GetDailyHealthDataQuery = {}) =>
+  apiClient.get<DailyHealthData>(withQuery(`/health/daily/${encodeURIComponent(date)}`, query));
+
+export interface SaveDailyHealthDataBody {
+  date: string;
+  steps?: number;
+  activeEnergyBurned?: number | null;
+  dietaryEnergyConsumed?: number | null;
+  heartRate?: number | null;
+  restingHeartRate?: number | null;
+}
+
+/** POST /health/daily */
+export const saveDailyHealthData = (body: SaveDailyHealthDataBody) =>
+  apiClient.post<DailyHealthData>('/health/daily', body);
+
+export interface GetWeeklyHealthDataQuery {
+  startDate: string;
+}
+
+/** GET /health/weekly */
+export const getWeeklyHealthData = (query: GetWeeklyHealthDataQuery) =>
+  apiClient.get<DailyHealthData[]>(withQuery('/health/weekly', query));
+
+export interface GetHealthRangeQuery {
+  from: string;
+  to: string;
+  bucket?: 'day' | 'week' | 'month';
+  tzOffset?: number;
+}
+
+/** GET /health/range */
+export const getHealthRange = (query: GetHealthRangeQuery) =>
+  apiClient.get<HealthRange>(withQuery('/health/range', query));
+
+export interface AddMealBody {
+  date: string;
+  meal: {
+    id?: string;
+    type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+    name: string;
+    calories: number;
+    carbs?: number;
+    protein?: number;
+    fat?: number;
+    nutrients?: {
+      fiber?: number;
+      sugar?: number;
+      saturatedFat?: number;
+      sodium?: number;
+      potassium?: number;
+      cholesterol?: number;
+      calcium?: number;
+      iron?: number;
+      vitaminA?: number;
+      vitaminC?: number;
+      vitaminD?: number;
+    };
+    timestamp: string;
+    items?: Array<{
+      name: string;
+      quantity: number;
+      unit: string;
+      calories: number;
+      carbs?: number;
+      protein?: number;
+      fat?: number;
+      nutrients?: {
+        fiber?: number;
+        sugar?: number;
+        saturatedFat?: number;
+        sodium?: number;
+        potassium?: number;
+        cholesterol?: number;
+        calcium?: number;
+        iron?: number;
+        vitaminA?: number;
+        vitaminC?: number;
+        vitaminD?: number;
+      };
+      foodId?: string | null;
+    }>;
+  };
+}
+
+/** POST /health/meals */
+export const addMeal = (body: AddMealBody) =>
+  apiClient.post<Meal>('/health/meals', body);
+
+export interface UpdateMealBody {
+  version?: number;
+  type?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  name?: string;
+  calories?: number;
+  carbs?: number;
+  protein?: number;
+  fat?: number;
+  nutrients?: {
+    fiber?: number;
+    sugar?: number;
+    saturatedFat?: number;
+    sodium?: number;
+    potassium?: number;
+    cholesterol?: number;
+    calcium?: number;
+    iron?: number;
+    vitaminA?: number;
+    vitaminC?: number;
+    vitaminD?: number;
+  };
+  timestamp?: string;
+  items?: Array<{
+    name: string;
+    quantity: number;
+    unit: string;
+    calories: number;
+    carbs?: number;
+    protein?: number;
+    fat?: number;
+    nutrients?: {
+      fiber?: number;
+      sugar?: number;
+      saturatedFat?: number;
+      sodium?: number;
+      potassium?: number;
+      cholesterol?: number;
+      calcium?: number;
+      iron?: number;
+      vitaminA?: number;
+      vitaminC?: number;
+      vitaminD?: number;
+    };
+    foodId?: string | null;
+  }>;
+}
+
+/** PUT /health/meals/{id} */
+export const updateMeal = (id: string, body: UpdateMealBody) =>
+  apiClient.put<Meal>(`/health/meals/${encodeURIComponent(id)}`, body);
+
+/** DELETE /health/meals/{id} */
+export const deleteMeal = (id: string) =>
+  apiClient.delete<Success>(`/health/meals/${encodeURIComponent(id)}`);
+
+/** GET /health/meal-suggestions */
+export const getMealSuggestions = () =>
+  apiClient.get<MealSuggestion[]>('/health/meal-suggestions');
+
+export interface SaveMealSuggestionBody {
+  type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  name: string;
+  calories: number;
+  carbs?: number;
+  protein?: number;
+  fat?: number;
+}
+
+/** PUT /health/meal-suggestions */
+export const saveMealSuggestion = (body: SaveMealSuggestionBody) =>
+  apiClient.put<MealSuggestion>('/health/meal-suggestions', body);
+
+export interface AddWaterEntryBody {
+  date: string;
+  entry: {
+    id?: string;
+    glasses: number;
+    timestamp: string;
+  };
+}
+
+/** POST /health/water */
+export const addWaterEntry = (body: AddWaterEntryBody) =>
+  apiClient.post<WaterEntry>('/health/water', body);
+
+export interface AddWorkoutBody {
+  date: string;
+  workout: {
+    id?: string;
+    name: string;
+    type: 'cardio' | 'strength' | 'hiit' | 'yoga' | 'pilates' | 'running' | 'cycling' | 'walking' | 'swimming' | 'other';
+    startTime: string;
+    endTime?: string | null;
+    duration: number;
+    totalCaloriesBurned?: number;
+    distance?: number | null;
+    averageSpeed?: number | null;
+    maxSpeed?: number | null;
+    exercises?: Array<{
+      name: string;
+      category: 'cardio' | 'strength' | 'flexibility' | 'sports' | 'other';
+      duration?: number | null;
+      sets?: number | null;
+      reps?: number | null;
+      weight?: number | null;
+      caloriesBurned?: number | null;
+      notes?: string | null;
+    }>;
+    locationPoints?: Array<{
+      latitude: number;
+      longitude: number;
+      timestamp: string;
+      altitude?: number | null;
+      speed?: number | null;
+      accuracy?: number | null;
+    }>;
+  };
+}
+
+/** POST /health/workouts */
+export const addWorkout = (body: AddWorkoutBody) =>
+  apiClient.post<Workout>('/health/workouts', body);
+
+export interface UpdateWorkoutBody {
+  version?: number;
+  name?: string;
+  type?: 'cardio' | 'strength' | 'hiit' | 'yoga' | 'pilates' | 'running' | 'cycling' | 'walking' | 'swimming' | 'other';
+  startTime?: string;
+  endTime?: string | null;
+  duration?: number;
+  totalCaloriesBurned?: number;
+  distance?: number | null;
+  averageSpeed?: number | null;
+  maxSpeed?: number | null;
+  exercises?: Array<{
+    name: string;
+    category: 'cardio' | 'strength' | 'flexibility' | 'sports' | 'other';
+    duration?: number | null;
+    sets?: number | null;
+    reps?: number | null;
+    weight?: number | null;
+    caloriesBurned?: number | null;
+    notes?: string | null;
+  }>;
+  locationPoints?: Array<{
+    latitude: number;
+    longitude: number;
+    timestamp: string;
+    altitude?: number | null;
+    speed?: number | null;
+    accuracy?: number | null;
+  }>;
+}
+
+/** PUT /health/workouts/{id} */
+export const updateWorkout = (id: string, body: UpdateWorkoutBody) =>
+  apiClient.put<Workout>(`/health/workouts/${encodeURIComponent(id)}`, body);
+
+/** DELETE /health/workouts/{id} */
+export const deleteWorkout = (id: string) =>
+  apiClient.delete<Success>(`/health/workouts/${encodeURIComponent(id)}`);
+
+export interface ListFastingSessionsQuery {
+  from?: string;
+  to?: string;
+}
+
+/** GET /health/fasting */
+export const listFastingSessions = (query: ListFastingSessionsQuery = {}) =>
+  apiClient.get<FastingSession[]>(withQuery('/health/fasting', query));
+
+export interface StartFastingSessionBody {
+  type: string;
+  startTime?: string;
+  targetDuration?: number | null;
+  eatingWindowStart?: number | null;
+  eatingWindowEnd?: number | null;
+}
+
+/** POST /health/fasting */
+export const startFastingSession = (body: StartFastingSessionBody) =>
+  apiClient.post<FastingSession>('/health/fasting', body);
+
+/** GET /health/fasting/active */
+export const getActiveFastingSession = () =>
+  apiClient.get<FastingSession | null>('/health/fasting/active');
+
+export interface StopFastingSessionBody {
+  version?: number;
+  endTime?: string;
+}
+
+/** POST /health/fasting/{id}/stop */
+export const stopFastingSession = (id: string, body: StopFastingSessionBody) =>
+  apiClient.post<FastingSession>(`/health/fasting/${encodeURIComponent(id)}/stop`, body);
+
+export interface UpdateFastingSessionBody {
+  version?: number;
+  type?: string;
+  startTime?: string;
+  endTime?: string | null;
+  targetDuration?: number | null;
+  eatingWindowStart?: number | null;
+  eatingWindowEnd?: number | null;
+}
+
+/** PUT /health/fasting/{id} */
+export const updateFastingSession = (id: string, body: UpdateFastingSessionBody) =>
+  apiClient.put<FastingSession>(`/health/fasting/${encodeURIComponent(id)}`, body);
+
+/** DELETE /health/fasting/{id} */
+export const deleteFastingSession = (id: string) =>
+  apiClient.delete<Success>(`/health/fasting/${encodeURIComponent(id)}`);
+
+// Goals
+
+export interface GetGoalsQuery {
+  date: string;
+}
+
+/** GET /goals */
+export const getGoals = (query: GetGoalsQuery) =>
+  apiClient.get<Goals>(withQuery('/goals', query));
+
+export interface SetGoalsBody {
+  effectiveFrom: string;
+  caloriesIn?: number;
+  caloriesOut?: number;
+  steps?: number;
+  activeMinutes?: number;
+  waterGlasses?: number;
+  proteinGrams?: number;
+  carbsGrams?: number;
+  fatGrams?: number;
+  fastingHours?: number;
+  weeklyWorkouts?: number;
+}
+
+/** PUT /goals */
+export const setGoals = (body: SetGoalsBody) =>
+  apiClient.put<GoalChange>('/goals', body);
+
+/** GET /goals/history */
+export const getGoalHistory = () =>
+  apiClient.get<GoalChange[]>('/goals/history');
+
+// Measurements
+
+export interface GetMeasurementsQuery {
+  from?: string;
+  to?: string;
+}
+
+/** GET /measurements */
+export const getMeasurements = (query: GetMeasurementsQuery = {}) =>
+  apiClient.get<BodyMeasurement[]>(withQuery('/measurements', query));
+
+export interface SaveMeasurementBody {
+  date: string;
+  weight?: number | null;
+  bodyFat?: number | null;
+  waist?: number | null;
+  hips?: number | null;
+  chest?: number | null;
+}
+
+/** PUT /measurements */
+export const saveMeasurement = (body: SaveMeasurementBody) =>
+  apiClient.put<BodyMeasurement>('/measurements', body);
+
+/** DELETE /measurements/{date} */
+export const deleteMeasurement = (date: string) =>
+  apiClient.delete<Success>(`/measurements/${encodeURIComponent(date)}`);
+
+// Foods
+
+export interface SearchFoodsQuery {
+  q: string;
+  limit?: number;
+}
+
+/** GET /foods/search */
+export const searchFoods = (query: SearchFoodsQuery) =>
+  apiClient.get<Food[]>(withQuery('/foods/search', query), { skipAuth: true });
+
+/** GET /foods/barcode/{barcode} */
+export const getFoodByBarcode = (barcode: string) =>
+  apiClient.get<Food>(`/foods/barcode/${encodeURIComponent(barcode)}`, { skipAuth: true });
+
+/** GET /foods/{id} */
+export const getFood = (id: string) =>
+  apiClient.get<Food>(`/foods/${encodeURIComponent(id)}`, { skipAuth: true });
+
+// Recipes
+
+/** GET /recipes */
+export const getRecipes = () =>
+  apiClient.get<Recipe[]>('/recipes');
+
+export interface CreateRecipeBody {
+  name: string;
+  servings: number;
+  ingredients: Array<{
+    name: string;
+    quantity: number;
+    unit: string;
+    calories: number;
+    carbs?: number;
+    protein?: number;
+    fat?: number;
+    nutrients?: {
+      fiber?: number;
+      sugar?: number;
+      saturatedFat?: number;
+      sodium?: number;
+      potassium?: number;
+      cholesterol?: number;
+      calcium?: number;
+      iron?: number;
+      vitaminA?: number;
+      vitaminC?: number;
+      vitaminD?: number;
+    };
+    foodId?: string | null;
+  }>;
+}
+
+/** POST /recipes */
+export const createRecipe = (body: CreateRecipeBody) =>
+  apiClient.post<Recipe>('/recipes', body);
+
+/** GET /recipes/{id} */
+export const getRecipe = (id: string) =>
+  apiClient.get<Recipe>(`/recipes/${encodeURIComponent(id)}`);
+
+export interface UpdateRecipeBody {
+  name?: string;
+  servings?: number;
+  ingredients?: Array<{
+    name: string;
+    quantity: number;
+    unit: string;
+    calories: number;
+    carbs?: number;
+    protein?: number;
+    fat?: number;
+    nutrients?: {
+      fiber?: number;
+      sugar?: number;
+      saturatedFat?: number;
+      sodium?: number;
+      potassium?: number;
+      cholesterol?: number;
+      calcium?: number;
+      iron?: number;
+      vitaminA?: number;
+      vitaminC?: number;
+      vitaminD?: number;
+    };
+    foodId?: string | null;
+  }>;
+  version?: number;
+}
+
+/** PUT /recipes/{id} */
+export const updateRecipe = (id: string, body: UpdateRecipeBody) =>
+  apiClient.put<Recipe>(`/recipes/${encodeURIComponent(id)}`, body);
+
+/** DELETE /recipes/{id} */
+export const deleteRecipe = (id: string) =>
+  apiClient.delete<Success>(`/recipes/${encodeURIComponent(id)}`);
+
+export interface ShareRecipeBody {
+  friendUid?: string;
+  clanId?: string;
+}
+
+/** POST /recipes/{id}/share */
+export const shareRecipe = (id: string, body: ShareRecipeBody) =>
+  apiClient.post<Recipe>(`/recipes/${encodeURIComponent(id)}/share`, body);
+
+// Meal Plans
+
+export interface GetPlannedMealsQuery {
+  from: string;
+  to: string;
+}
+
+/** GET /meal-plans */
+export const getPlannedMeals = (query: GetPlannedMealsQuery) =>
+  apiClient.get<PlannedMeal[]>(withQuery('/meal-plans', query));
+
+export interface CreatePlannedMealBody {
+  date: string;
+  type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  name: string;
+  calories: number;
+  carbs?: number;
+  protein?: number;
+  fat?: number;
+  nutrients?: {
+    fiber?: number;
+    sugar?: number;
+    saturatedFat?: number;
+    sodium?: number;
+    potassium?: number;
+    cholesterol?: number;
+    calcium?: number;
+    iron?: number;
+    vitaminA?: number;
+    vitaminC?: number;
+    vitaminD?: number;
+  };
+  items?: Array<{
+    name: string;
+    quantity: number;
+    unit: string;
+    calories: number;
+    carbs?: number;
+    protein?: number;
+    fat?: number;
+    nutrients?: {
+      fiber?: number;
+      sugar?: number;
+      saturatedFat?: number;
+      sodium?: number;
+      potassium?: number;
+      cholesterol?: number;
+      calcium?: number;
+      iron?: number;
+      vitaminA?: number;
+      vitaminC?: number;
+      vitaminD?: number;
+    };
+    foodId?: string | null;
+  }>;
+  loggedMealId?: string | null;
+}
+
+/** POST /meal-plans */
+export const createPlannedMeal = (body: CreatePlannedMealBody) =>
+  apiClient.post<PlannedMeal>('/meal-plans', body);
+
+export interface UpdatePlannedMealBody {
+  date?: string;
+  type?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  name?: string;
+  calories?: number;
+  carbs?: number;
+  protein?: number;
+  fat?: number;
+  nutrients?: {
+    fiber?: number;
+    sugar?: number;
+    saturatedFat?: number;
+    sodium?: number;
+    potassium?: number;
+    cholesterol?: number;
+    calcium?: number;
+    iron?: number;
+    vitaminA?: number;
+    vitaminC?: number;
+    vitaminD?: number;
+  };
+  items?: Array<{
+    name: string;
+    quantity: number;
+    unit: string;
+    calories: number;
+    carbs?: number;
+    protein?: number;
+    fat?: number;
+    nutrients?: {
+      fiber?: number;
+      sugar?: number;
+      saturatedFat?: number;
+      sodium?: number;
+      potassium?: number;
+      cholesterol?: number;
+      calcium?: number;
+      iron?: number;
+      vitaminA?: number;
+      vitaminC?: number;
+      vitaminD?: number;
+    };
+    foodId?: string | null;
+  }>;
+  loggedMealId?: string | null;
+  version?: number;
+}
+
+/** PUT /meal-plans/{id} */
+export const updatePlannedMeal = (id: string, body: UpdatePlannedMealBody) =>
+  apiClient.put<PlannedMeal>(`/meal-plans/${encodeURIComponent(id)}`, body);
+
+/** DELETE /meal-plans/{id} */
+export const deletePlannedMeal = (id: string) =>
+  apiClient.delete<Success>(`/meal-plans/${encodeURIComponent(id)}`);
+
+// Food Recognition
+
+export interface RecognizeFoodBody {
+  image: string;
+  mimeType: 'image/jpeg' | 'image/png' | 'image/webp';
+  hints?: Array<{
+    detectedName: string;
+    name: string;
+    foodId?: string | null;
+    portionFactor?: number;
+  }>;
+}
+
+/** POST /food-recognition */
+export const recognizeFood = (body: RecognizeFoodBody) =>
+  apiClient.post<FoodRecognition>('/food-recognition', body, { skipAuth: true });
+
+/** GET /food-recognition/corrections */
+export const getFoodCorrections = () =>
+  apiClient.get<FoodCorrection[]>('/food-recognition/corrections');
+
+export interface SaveFoodCorrectionsBody {
+  corrections: Array<{
+    detectedName: string;
+    name: string;
+    detectedCalories: number;
+    calories: number;
+    foodId?: string | null;
+  }>;
+}
+
+/** POST /food-recognition/corrections */
+export const saveFoodCorrections = (body: SaveFoodCorrectionsBody) =>
+  apiClient.post<FoodCorrection[]>('/food-recognition/corrections', body);
+
+// Community
+
+/** GET /community/friends */
+export const getFriends = () =>
+  apiClient.get<Friend[]>('/community/friends');
+
+/** GET /community/friend-requests */
+export const getFriendRequests = () =>
+  apiClient.get<FriendRequests>('/community/friend-requests');
+
+export interface SendFriendRequestBody {
+  toUid: string;
+}
+
+/** POST /community/friend-requests */
+export const sendFriendRequest = (body: SendFriendRequestBody) =>
+  apiClient.post<FriendRequest>('/community/friend-requests', body);
+
+/** POST /community/friend-requests/{fromUid}/accept */
+export const acceptFriendRequest = (fromUid: string) =>
+  apiClient.post<Friend>(`/community/friend-requests/${encodeURIComponent(fromUid)}/accept`);
+
+/** POST /community/friend-requests/{fromUid}/reject */
+export const rejectFriendRequest = (fromUid: string) =>
+  apiClient.post<Success>(`/community/friend-requests/${encodeURIComponent(fromUid)}/reject`);
+
+/** DELETE /community/friend-requests/{toUid} */
+export const cancelFriendRequest = (toUid: string) =>
+  apiClient.delete<Success>(`/community/friend-requests/${encodeURIComponent(toUid)}`);
+
+/** DELETE /community/friends/{friendUid} */
+export const removeFriend = (friendUid: string) =>
+  apiClient.delete<Success>(`/community/friends/${encodeURIComponent(friendUid)}`);
+
+/** POST /community/block/{blockedUid} */
+export const blockUser = (blockedUid: string) =>
+  apiClient.post<Success>(`/community/block/${encodeURIComponent(blockedUid)}`);
+
+/** DELETE /community/block/{blockedUid} */
+export const unblockUser = (blockedUid: string) =>
+  apiClient.delete<Success>(`/community/block/${encodeURIComponent(blockedUid)}`);
+
+/** GET /community/clans */
+export const getUserClans = () =>
+  apiClient.get<Clan[]>('/community/clans');
+
+export interface CreateClanBody {
+  name: string;
+  description?: string;
+  privacy?: 'inviteOnly' | 'friendsOnly';
+}
+
+/** POST /community/clans */
+export const createClan = (body: CreateClanBody) =>
+  apiClient.post<Clan>('/community/clans', body);
+
+/** GET /community/clans/{id} */
+export const getClan = (id: string) =>
+  apiClient.get<Clan>(`/community/clans/${encodeURIComponent(id)}`);
+
+export interface UpdateClanDetailsBody {
+  name?: string;
+  description?: string;
+  photoURL?: string;
+  privacy?: 'inviteOnly' | 'friendsOnly';
+}
+
+/** PUT /community/clans/{id} */
+export const updateClanDetails = (id: string, body: UpdateClanDetailsBody) =>
+  apiClient.put<Clan>(`/community/clans/${encodeURIComponent(id)}`, body);
+
+export interface InviteToClanBody {
+  toUid: string;
+}
+
+/** POST /community/clans/{id}/invite */
+export const inviteToClan = (id: string, body: InviteToClanBody) =>
+  apiClient.post<ClanInvite>(`/community/clans/${encodeURIComponent(id)}/invite`, body);
+
+export interface RespondClanInviteBody {
+  action: 'accept' | 'reject';
+}
+
+/** POST /community/clans/{id}/invites/{inviteId}/respond */
+export const respondClanInvite = (id: string, inviteId: string, body: RespondClanInviteBody) =>
+  apiClient.post<Success>(`/community/clans/${encodeURIComponent(id)}/invites/${encodeURIComponent(inviteId)}/respond`, body);
+
+/** GET /community/clans/invites */
+export const getClanInvites = () =>
+  apiClient.get<ClanInvite[]>('/community/clans/invites');
+
+/** DELETE /community/clans/{id}/leave */
+export const leaveClan = (id: string) =>
+  apiClient.delete<Success>(`/community/clans/${encodeURIComponent(id)}/leave`);
+
+/** DELETE /community/clans/{id}/members/{memberUid} */
+export const removeClanMember = (id: string, memberUid: string) =>
+  apiClient.delete<Success>(`/community/clans/${encodeURIComponent(id)}/members/${encodeURIComponent(memberUid)}`);
+
+export interface UpdateClanRoleBody {
+  newRole: 'owner' | 'admin' | 'member';
+}
+
+/** PUT /community/clans/{id}/members/{memberUid}/role */
+export const updateClanRole = (id: string, memberUid: string, body: UpdateClanRoleBody) =>
+  apiClient.put<ClanMember>(`/community/clans/${encodeURIComponent(id)}/members/${encodeURIComponent(memberUid)}/role`, body);
+
+export interface GetNotificationsQuery {
+  limit?: number;
+  offset?: number;
+}
+
+/** GET /community/notifications */
+export const getNotifications = (query: GetNotificationsQuery = {}) =>
+  apiClient.get<Notification[]>(withQuery('/community/notifications', query));
+
+/** GET /community/notifications/unread-count */
+export const getUnreadNotificationCount = () =>
+  apiClient.get<UnreadCount>('/community/notifications/unread-count');
+
+/** PUT /community/notifications/{id}/read */
+export const markNotificationRead = (id: string) =>
+  apiClient.put<Notification>(`/community/notifications/${encodeURIComponent(id)}/read`);
+
+/** PUT /community/notifications/read-all */
+export const markAllNotificationsRead = () =>
+  apiClient.put<Success>('/community/notifications/read-all');
+
+/** GET /community/ring-stats/{date} */
+export const getRingStats = (date: string) =>
+  apiClient.get<RingStats>(`/community/ring-stats/${encodeURIComponent(date)}`);
+
+export interface UpdateRingStatsBody {
+  date: string;
+  caloriesBurned: number;
+  steps: number;
+  workoutMinutes: number;
+  goalCalories: number;
+  goalSteps: number;
+  goalMinutes: number;
+}
+
+/** PUT /community/ring-stats */
+export const updateRingStats = (body: UpdateRingStatsBody) =>
+  apiClient.put<RingStats>('/community/ring-stats', body);
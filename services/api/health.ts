@@ -1,13 +1,234 @@
-import { apiClient } from './client';
-import { DailyHealthData, Meal, WaterEntry, Workout, FastingSession } from '../../types';
+import * as api from './generated';
+import { ApiError } from './client';
+import { BodyMeasurement, DailyHealthData, DailyMetrics, GoalChange, Goals, Meal, MealItem, MealSuggestion, MeasurementChanges, WaterEntry, Workout, FastingSession, HealthRangeBucket, HealthRangeRow } from '../../types';
 import { format } from 'date-fns';
+import { GOAL_KEYS, MEASUREMENT_KEYS } from '../../backend/src/shared/domain';
+
+// Records as returned by the API or queued in the offline outbox (services/sync/outbox.ts);
+// queued records have no version yet, and the API returns null for missing nutrients
+type Versioned = { version?: number; updatedAt?: string };
+type WithNutrients<T> = Omit<T, 'nutrients'> & { nutrients?: api.Nutrients | null };
+type MealItemBody = NonNullable<api.AddMealBody['meal']['items']>[number];
+type MealItemRecord = WithNutrients<MealItemBody>;
+type MealRecord = WithNutrients<Omit<api.AddMealBody['meal'], 'id' | 'items'>> &
+  Versioned & { id: string; items?: MealItemRecord[] };
+type WaterEntryRecord = Omit<api.AddWaterEntryBody['entry'], 'id'> & Versioned & { id: string };
+type ExerciseRecord = NonNullable<api.AddWorkoutBody['workout']['exercises']>[number] & { id?: string };
+type WorkoutRecord = Omit<api.AddWorkoutBody['workout'], 'id' | 'exercises'> & Versioned & {
+  id: string;
+  exercises?: ExerciseRecord[];
+};
+
+/**
+ * Thrown when an edit was based on an outdated copy of a record; `current` is
+ * the server's copy, to merge against or adopt.
+ */
+export class VersionConflictError<T> extends Error {
+  constructor(message: string, public current: T) {
+    super(message);
+    this.name = 'VersionConflictError';
+  }
+}
+
+export const isVersionConflict = (error: unknown): error is ApiError =>
+  error instanceof ApiError && error.status === 409 && error.code === 'VERSION_CONFLICT';
+
+const toUpdatedAt = (record: Versioned) => (record.updatedAt ? new Date(record.updatedAt) : undefined);
+
+export const toMealItem = (item: MealItemRecord): MealItem => ({
+  name: item.name,
+  quantity: item.quantity,
+  unit: item.unit,
+  calories: item.calories,
+  macros: {
+    carbs: item.carbs || 0,
+    protein: item.protein || 0,
+    fat: item.fat || 0,
+  },
+  nutrients: item.nutrients ?? undefined,
+  foodId: item.foodId || undefined,
+});
+
+/**
+ * Transform a meal record; macros are flattened on the wire
+ */
+export const toMeal = (meal: MealRecord): Meal => ({
+  id: meal.id,
+  type: meal.type,
+  name: meal.name,
+  calories: meal.calories,
+  macros: {
+    carbs: meal.carbs || 0,
+    protein: meal.protein || 0,
+    fat: meal.fat || 0,
+  },
+  nutrients: meal.nutrients ?? undefined,
+  timestamp: new Date(meal.timestamp),
+  items: meal.items?.length ? meal.items.map(toMealItem) : undefined,
+  version: meal.version,
+  updatedAt: toUpdatedAt(meal),
+});
+
+export const toWaterEntry = (entry: WaterEntryRecord): WaterEntry => ({
+  id: entry.id,
+  glasses: entry.glasses,
+  timestamp: new Date(entry.timestamp),
+  version: entry.version,
+  updatedAt: toUpdatedAt(entry),
+});
+
+export const toWorkout = (workout: WorkoutRecord, date: string): Workout => ({
+  id: workout.id,
+  date,
+  name: workout.name,
+  type: workout.type,
+  startTime: new Date(workout.startTime),
+  endTime: workout.endTime ? new Date(workout.endTime) : undefined,
+  duration: workout.duration || 0,
+  totalCaloriesBurned: workout.totalCaloriesBurned || 0,
+  distance: workout.distance || 0,
+  averageSpeed: workout.averageSpeed || 0,
+  maxSpeed: workout.maxSpeed || 0,
+  version: workout.version,
+  updatedAt: toUpdatedAt(workout),
+  exercises: (workout.exercises || []).map((ex, index) => ({
+    // Queued exercises get their id from the server once replayed
+    id: ex.id || `${workout.id}-${index}`,
+    name: ex.name,
+    category: ex.category,
+    duration: ex.duration || 0,
+    sets: ex.sets || 0,
+    reps: ex.reps || 0,
+    weight: ex.weight || 0,
+    caloriesBurned: ex.caloriesBurned || 0,
+    notes: ex.notes || '',
+  })),
+  locationTrack: (workout.locationPoints || []).map((point) => ({
+    latitude: point.latitude,
+    longitude: point.longitude,
+    timestamp: new Date(point.timestamp),
+    altitude: point.altitude || 0,
+    speed: point.speed || 0,
+    accuracy: point.accuracy || 0,
+  })),
+});
+
+/**
+ * Request bodies for the health mutations. The record's id is sent along so
+ * the server treats a replayed add as the same record.
+ */
+export const toDailyHealthDataBody = (data: DailyMetrics): api.SaveDailyHealthDataBody => ({
+  // Consumed and burned totals are derived from meals and workouts server-side
+  date: data.date,
+  activeEnergyBurned: data.activeEnergyBurned,
+  dietaryEnergyConsumed: data.dietaryEnergyConsumed,
+  heartRate: data.heartRate,
+  restingHeartRate: data.restingHeartRate,
+  steps: data.steps,
+});
+
+export const toMealItemRecord = (item: MealItem): MealItemBody => ({
+  name: item.name,
+  quantity: item.quantity,
+  unit: item.unit,
+  calories: item.calories,
+  carbs: item.macros.carbs,
+  protein: item.macros.protein,
+  fat: item.macros.fat,
+  nutrients: item.nutrients,
+  foodId: item.foodId ?? null,
+});
+
+// Items and nutrients are always sent, so saving a meal without them clears stored ones
+const toMealFields = (meal: Meal) => ({
+  type: meal.type,
+  name: meal.name,
+  calories: meal.calories,
+  carbs: meal.macros?.carbs || 0,
+  protein: meal.macros?.protein || 0,
+  fat: meal.macros?.fat || 0,
+  nutrients: meal.nutrients ?? {},
+  timestamp: meal.timestamp.toISOString(),
+  items: (meal.items || []).map(toMealItemRecord),
+});
+
+export const toMealBody = (date: string, meal: Meal): api.AddMealBody => ({
+  date,
+  meal: {
+    id: meal.id,
+    ...toMealFields(meal),
+  },
+});
+
+export const toUpdateMealBody = (meal: Meal): api.UpdateMealBody => ({
+  version: meal.version,
+  ...toMealFields(meal),
+});
+
+export const toWaterEntryBody = (date: string, entry: WaterEntry): api.AddWaterEntryBody => ({
+  date,
+  entry: {
+    id: entry.id,
+    glasses: entry.glasses,
+    timestamp: entry.timestamp.toISOString(),
+  },
+});
+
+export const toWorkoutBody = (date: string, workout: Workout): api.AddWorkoutBody => ({
+  date,
+  workout: {
+    id: workout.id,
+    name: workout.name,
+    type: workout.type,
+    startTime: workout.startTime.toISOString(),
+    endTime: workout.endTime?.toISOString(),
+    duration: workout.duration,
+    totalCaloriesBurned: workout.totalCaloriesBurned,
+    distance: workout.distance,
+    averageSpeed: workout.averageSpeed,
+    maxSpeed: workout.maxSpeed,
+    exercises: workout.exercises?.map(ex => ({
+      name: ex.name,
+      category: ex.category,
+      duration: ex.duration,
+      sets: ex.sets,
+      reps: ex.reps,
+      weight: ex.weight,
+      caloriesBurned: ex.caloriesBurned,
+      notes: ex.notes,
+    })),
+    locationPoints: workout.locationTrack?.map(point => ({
+      latitude: point.latitude,
+      longitude: point.longitude,
+      timestamp: point.timestamp.toISOString(),
+      altitude: point.altitude,
+      speed: point.speed,
+      accuracy: point.accuracy,
+    })),
+  },
+});
+
+export const toMealSuggestion = (suggestion: api.MealSuggestion): MealSuggestion => ({
+  id: suggestion.id,
+  type: suggestion.type,
+  name: suggestion.name,
+  calories: suggestion.calories,
+  macros: {
+    carbs: suggestion.carbs,
+    protein: suggestion.protein,
+    fat: suggestion.fat,
+  },
+  updatedAt: new Date(suggestion.updatedAt),
+});
 
 /**
  * Get daily health data for a specific date
  */
 export const getDailyHealthData = async (date: string): Promise<DailyHealthData | null> => {
   try {
-    const data = await apiClient.get<any>(`/health/daily/${date}`);
+    // Offset at local midnight of that day, so DST changes are respected
+    const tzOffset = new Date(`${date}T00:00:00`).getTimezoneOffset();
+    const data = await api.getDailyHealthData(date, { tzOffset });
 
     if (!data) {
       return null;
@@ -24,67 +245,10 @@ export const getDailyHealthData = async (date: string): Promise<DailyHealthData
       restingHeartRate: data.restingHeartRate || 0,
       steps: data.steps || 0,
       waterIntake: data.waterIntake || 0,
-      meals: (data.meals || []).map((meal: any) => ({
-        id: meal.id,
-        type: meal.type,
-        name: meal.name,
-        calories: meal.calories,
-        macros: {
-          carbs: meal.carbs || 0,
-          protein: meal.protein || 0,
-          fat: meal.fat || 0,
-        },
-        timestamp: new Date(meal.timestamp),
-      })),
-      waterEntries: (data.waterEntries || []).map((entry: any) => ({
-        id: entry.id,
-        glasses: entry.glasses,
-        timestamp: new Date(entry.timestamp),
-      })),
-      workouts: (data.workouts || []).map((workout: any) => ({
-        id: workout.id,
-        name: workout.name,
-        type: workout.type,
-        startTime: new Date(workout.startTime),
-        endTime: workout.endTime ? new Date(workout.endTime) : undefined,
-        duration: workout.duration || 0,
-        totalCaloriesBurned: workout.totalCaloriesBurned || 0,
-        distance: workout.distance || 0,
-        averageSpeed: workout.averageSpeed || 0,
-        maxSpeed: workout.maxSpeed || 0,
-        exercises: (workout.exercises || []).map((ex: any) => ({
-          id: ex.id,
-          name: ex.name,
-          category: ex.category,
-          duration: ex.duration || 0,
-          sets: ex.sets || 0,
-          reps: ex.reps || 0,
-          weight: ex.weight || 0,
-          caloriesBurned: ex.caloriesBurned || 0,
-          notes: ex.notes || '',
-        })),
-        locationTrack: (workout.locationPoints || []).map((point: any) => ({
-          latitude: point.latitude,
-          longitude: point.longitude,
-          timestamp: new Date(point.timestamp),
-          altitude: point.altitude || 0,
-          speed: point.speed || 0,
-          accuracy: point.accuracy || 0,
-        })),
-      })),
-      fastingSession: data.fastingSession ? {
-        id: data.fastingSession.id,
-        type: data.fastingSession.type,
-        startTime: new Date(data.fastingSession.startTime),
-        endTime: data.fastingSession.endTime ? new Date(data.fastingSession.endTime) : undefined,
-        duration: data.fastingSession.duration || 0,
-        targetDuration: data.fastingSession.targetDuration || undefined,
-        eatingWindow: data.fastingSession.eatingWindowStart !== null && data.fastingSession.eatingWindowStart !== undefined && data.fastingSession.eatingWindowEnd !== null && data.fastingSession.eatingWindowEnd !== undefined ? {
-          startHour: data.fastingSession.eatingWindowStart,
-          endHour: data.fastingSession.eatingWindowEnd,
-          value: `${data.fastingSession.eatingWindowStart}-${data.fastingSession.eatingWindowEnd}`,
-        } : undefined,
-      } : undefined,
+      meals: (data.meals || []).map(toMeal),
+      waterEntries: (data.waterEntries || []).map(toWaterEntry),
+      workouts: (data.workouts || []).map((workout) => toWorkout(workout, data.date)),
+      fastingSessions: (data.fastingSessions || []).map(toFastingSession),
     };
   } catch (error: any) {
     if (error.status === 404) {
@@ -96,22 +260,30 @@ export const getDailyHealthData = async (date: string): Promise<DailyHealthData
   }
 };
 
+/**
+ * Get aggregated health history between two dates (inclusive, yyyy-MM-dd)
+ */
+export const getHealthRange = async (
+  from: string,
+  to: string,
+  bucket: HealthRangeBucket = 'day'
+): Promise<HealthRangeRow[]> => {
+  try {
+    const tzOffset = new Date(`${from}T00:00:00`).getTimezoneOffset();
+    const data = await api.getHealthRange({ from, to, bucket, tzOffset });
+    return data?.buckets || [];
+  } catch (error: any) {
+    const message = error.message || 'Failed to get health range';
+    throw new Error(message);
+  }
+};
+
 /**
  * Save daily health data
  */
 export const saveDailyHealthData = async (data: DailyHealthData): Promise<void> => {
   try {
-    await apiClient.post('/health/daily', {
-      date: data.date,
-      caloriesConsumed: data.caloriesConsumed,
-      caloriesBurned: data.caloriesBurned,
-      activeEnergyBurned: data.activeEnergyBurned,
-      dietaryEnergyConsumed: data.dietaryEnergyConsumed,
-      heartRate: data.heartRate,
-      restingHeartRate: data.restingHeartRate,
-      steps: data.steps,
-      waterIntake: data.waterIntake,
-    });
+    await api.saveDailyHealthData(toDailyHealthDataBody(data));
   } catch (error: any) {
     const message = error.message || 'Failed to save health data';
     throw new Error(message);
@@ -119,35 +291,120 @@ export const saveDailyHealthData = async (data: DailyHealthData): Promise<void>
 };
 
 /**
- * Add a meal
+ * Get meals the user logged before, most recently used first
  */
-export const addMeal = async (date: string, meal: Meal): Promise<Meal> => {
+export const getMealSuggestions = async (): Promise<MealSuggestion[]> => {
   try {
-    const response = await apiClient.post<any>('/health/meals', {
-      date,
-      meal: {
-        type: meal.type,
-        name: meal.name,
-        calories: meal.calories,
-        carbs: meal.macros?.carbs || 0,
-        protein: meal.macros?.protein || 0,
-        fat: meal.macros?.fat || 0,
-        timestamp: meal.timestamp.toISOString(),
-      },
+    const suggestions = await api.getMealSuggestions();
+    return (suggestions || []).map(toMealSuggestion);
+  } catch (error: any) {
+    const message = error.message || 'Failed to get meal suggestions';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Remember a meal for suggestions; returns its id
+ */
+export const saveMealSuggestion = async (suggestion: Omit<MealSuggestion, 'id' | 'updatedAt'>): Promise<string> => {
+  try {
+    const saved = await api.saveMealSuggestion({
+      type: suggestion.type,
+      name: suggestion.name.trim(),
+      calories: suggestion.calories,
+      carbs: suggestion.macros.carbs,
+      protein: suggestion.macros.protein,
+      fat: suggestion.macros.fat,
     });
+    return saved.id;
+  } catch (error: any) {
+    const message = error.message || 'Failed to save meal suggestion';
+    throw new Error(message);
+  }
+};
 
-    return {
-      id: response.id,
-      type: response.type,
-      name: response.name,
-      calories: response.calories,
-      macros: {
-        carbs: response.carbs || 0,
-        protein: response.protein || 0,
-        fat: response.fat || 0,
-      },
-      timestamp: new Date(response.timestamp),
-    };
+export const toGoalChange = (change: api.GoalChange): GoalChange => ({
+  ...(Object.fromEntries(GOAL_KEYS.map((key) => [key, change[key]])) as Goals),
+  effectiveFrom: change.effectiveFrom,
+});
+
+/**
+ * Get every goal change, oldest first
+ */
+export const getGoalHistory = async (): Promise<GoalChange[]> => {
+  try {
+    const history = await api.getGoalHistory();
+    return (history || []).map(toGoalChange);
+  } catch (error: any) {
+    const message = error.message || 'Failed to get goals';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Change goals from a day on; goals left out keep their value
+ */
+export const setGoals = async (effectiveFrom: string, changes: Partial<Goals>): Promise<GoalChange> => {
+  try {
+    return toGoalChange(await api.setGoals({ effectiveFrom, ...changes }));
+  } catch (error: any) {
+    const message = error.message || 'Failed to save goals';
+    throw new Error(message);
+  }
+};
+
+export const toBodyMeasurement = (measurement: api.BodyMeasurement): BodyMeasurement => {
+  const result: BodyMeasurement = { date: measurement.date, updatedAt: new Date(measurement.updatedAt) };
+  for (const key of MEASUREMENT_KEYS) {
+    const value = measurement[key];
+    if (value !== null) {
+      result[key] = value;
+    }
+  }
+  return result;
+};
+
+/**
+ * Get body measurements between two days (inclusive, yyyy-MM-dd), oldest first
+ */
+export const getMeasurements = async (from?: string, to?: string): Promise<BodyMeasurement[]> => {
+  try {
+    const measurements = await api.getMeasurements({ from, to });
+    return (measurements || []).map(toBodyMeasurement);
+  } catch (error: any) {
+    const message = error.message || 'Failed to get measurements';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Log measurements for a day; values left out keep what was logged
+ */
+export const saveMeasurement = async (date: string, changes: MeasurementChanges): Promise<BodyMeasurement> => {
+  try {
+    return toBodyMeasurement(await api.saveMeasurement({ date, ...changes }));
+  } catch (error: any) {
+    const message = error.message || 'Failed to save measurements';
+    throw new Error(message);
+  }
+};
+
+export const deleteMeasurement = async (date: string): Promise<void> => {
+  try {
+    await api.deleteMeasurement(date);
+  } catch (error: any) {
+    const message = error.message || 'Failed to delete measurements';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Add a meal
+ */
+export const addMeal = async (date: string, meal: Meal): Promise<Meal> => {
+  try {
+    const response = await api.addMeal(toMealBody(date, meal));
+    return toMeal(response);
   } catch (error: any) {
     const message = error.message || 'Failed to add meal';
     throw new Error(message);
@@ -159,13 +416,7 @@ export const addMeal = async (date: string, meal: Meal): Promise<Meal> => {
  */
 export const addWaterEntry = async (date: string, entry: WaterEntry): Promise<number> => {
   try {
-    await apiClient.post('/health/water', {
-      date,
-      entry: {
-        glasses: entry.glasses,
-        timestamp: entry.timestamp.toISOString(),
-      },
-    });
+    await api.addWaterEntry(toWaterEntryBody(date, entry));
 
     // Return the glasses added (would need to refetch daily data to get updated waterIntake)
     return entry.glasses;
@@ -180,89 +431,147 @@ export const addWaterEntry = async (date: string, entry: WaterEntry): Promise<nu
  */
 export const addWorkout = async (date: string, workout: Workout): Promise<Workout> => {
   try {
-    const response = await apiClient.post<any>('/health/workouts', {
-      date,
-      workout: {
-        name: workout.name,
-        type: workout.type,
-        startTime: workout.startTime.toISOString(),
-        endTime: workout.endTime?.toISOString(),
-        duration: workout.duration,
-        totalCaloriesBurned: workout.totalCaloriesBurned,
-        distance: workout.distance,
-        averageSpeed: workout.averageSpeed,
-        maxSpeed: workout.maxSpeed,
-        exercises: workout.exercises?.map(ex => ({
-          name: ex.name,
-          category: ex.category,
-          duration: ex.duration,
-          sets: ex.sets,
-          reps: ex.reps,
-          weight: ex.weight,
-          caloriesBurned: ex.caloriesBurned,
-          notes: ex.notes,
-        })),
-        locationPoints: workout.locationTrack?.map(point => ({
-          latitude: point.latitude,
-          longitude: point.longitude,
-          timestamp: point.timestamp.toISOString(),
-          altitude: point.altitude,
-          speed: point.speed,
-          accuracy: point.accuracy,
-        })),
-      },
+    const response = await api.addWorkout(toWorkoutBody(date, workout));
+    return toWorkout(response, date);
+  } catch (error: any) {
+    const message = error.message || 'Failed to add workout';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Transform a backend fasting session; duration runs until now while active
+ */
+const toFastingSession = (session: api.FastingSession): FastingSession => {
+  const startTime = new Date(session.startTime);
+  const endTime = session.endTime ? new Date(session.endTime) : undefined;
+
+  return {
+    id: session.id,
+    type: session.type,
+    startTime,
+    endTime,
+    duration: ((endTime?.getTime() ?? Date.now()) - startTime.getTime()) / (1000 * 60 * 60),
+    targetDuration: session.targetDuration ?? undefined,
+    eatingWindow: session.eatingWindowStart !== null && session.eatingWindowStart !== undefined && session.eatingWindowEnd !== null && session.eatingWindowEnd !== undefined ? {
+      startHour: session.eatingWindowStart,
+      endHour: session.eatingWindowEnd,
+      value: `${session.eatingWindowStart}-${session.eatingWindowEnd}`,
+    } : undefined,
+    version: session.version,
+    updatedAt: new Date(session.updatedAt),
+  };
+};
+
+/**
+ * List fasting sessions overlapping a time range, newest first
+ */
+export const getFastingSessions = async (from?: Date, to?: Date): Promise<FastingSession[]> => {
+  try {
+    const response = await api.listFastingSessions({
+      from: from?.toISOString(),
+      to: to?.toISOString(),
+    });
+    return (response || []).map(toFastingSession);
+  } catch (error: any) {
+    const message = error.message || 'Failed to get fasting sessions';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Get the fasting session currently in progress, if any
+ */
+export const getActiveFastingSession = async (): Promise<FastingSession | null> => {
+  try {
+    const response = await api.getActiveFastingSession();
+    return response ? toFastingSession(response) : null;
+  } catch (error: any) {
+    const message = error.message || 'Failed to get active fasting session';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Start a fasting session
+ */
+export const startFastingSession = async (session: {
+  type: string;
+  startTime?: Date;
+  targetDuration?: number;
+  eatingWindow?: { startHour: number; endHour: number };
+}): Promise<FastingSession> => {
+  try {
+    const response = await api.startFastingSession({
+      type: session.type,
+      startTime: session.startTime?.toISOString(),
+      targetDuration: session.targetDuration,
+      eatingWindowStart: session.eatingWindow?.startHour,
+      eatingWindowEnd: session.eatingWindow?.endHour,
     });
+    return toFastingSession(response);
+  } catch (error: any) {
+    const message = error.message || 'Failed to start fasting session';
+    throw new Error(message);
+  }
+};
 
-    return {
-      id: response.id,
-      name: response.name,
-      type: response.type,
-      startTime: new Date(response.startTime),
-      endTime: response.endTime ? new Date(response.endTime) : undefined,
-      duration: response.duration,
-      totalCaloriesBurned: response.totalCaloriesBurned,
-      distance: response.distance || 0,
-      averageSpeed: response.averageSpeed || 0,
-      maxSpeed: response.maxSpeed || 0,
-      exercises: workout.exercises || [],
-      locationTrack: workout.locationTrack || [],
-      date: date,
-    };
+/**
+ * Stop an active fasting session. Passing the version the app last saw makes
+ * the stop fail with a VersionConflictError if another device changed or
+ * stopped the session first.
+ */
+export const stopFastingSession = async (id: string, endTime?: Date, version?: number): Promise<FastingSession> => {
+  try {
+    const response = await api.stopFastingSession(id, {
+      version,
+      endTime: endTime?.toISOString(),
+    });
+    return toFastingSession(response);
   } catch (error: any) {
-    const message = error.message || 'Failed to add workout';
+    if (isVersionConflict(error)) {
+      throw new VersionConflictError(error.message, toFastingSession(error.data.data));
+    }
+    const message = error.message || 'Failed to stop fasting session';
     throw new Error(message);
   }
 };
 
 /**
- * Save a fasting session
+ * Edit a fasting session's times, type or target
  */
-export const saveFastingSession = async (date: string, session: FastingSession): Promise<FastingSession> => {
+export const updateFastingSession = async (
+  id: string,
+  changes: Partial<Pick<FastingSession, 'type' | 'startTime' | 'endTime' | 'targetDuration' | 'eatingWindow' | 'version'>>
+): Promise<FastingSession> => {
   try {
-    const response = await apiClient.post<any>('/health/fasting', {
-      date,
-      session: {
-        type: session.type,
-        startTime: session.startTime.toISOString(),
-        endTime: session.endTime?.toISOString(),
-        duration: session.duration,
-        targetDuration: session.targetDuration,
-        eatingWindowStart: session.eatingWindow?.startHour,
-        eatingWindowEnd: session.eatingWindow?.endHour,
-      },
+    const response = await api.updateFastingSession(id, {
+      version: changes.version,
+      type: changes.type,
+      startTime: changes.startTime?.toISOString(),
+      endTime: changes.endTime?.toISOString(),
+      targetDuration: changes.targetDuration,
+      eatingWindowStart: changes.eatingWindow?.startHour,
+      eatingWindowEnd: changes.eatingWindow?.endHour,
     });
+    return toFastingSession(response);
+  } catch (error: any) {
+    if (isVersionConflict(error)) {
+      throw new VersionConflictError(error.message, toFastingSession(error.data.data));
+    }
+    const message = error.message || 'Failed to update fasting session';
+    throw new Error(message);
+  }
+};
 
-    return {
-      id: response.id,
-      type: response.type,
-      startTime: new Date(response.startTime),
-      endTime: response.endTime ? new Date(response.endTime) : undefined,
-      duration: response.duration,
-      targetDuration: response.targetDuration,
-      eatingWindow: session.eatingWindow,
-    };
+/**
+ * Delete a fasting session
+ */
+export const deleteFastingSession = async (id: string): Promise<void> => {
+  try {
+    await api.deleteFastingSession(id);
   } catch (error: any) {
-    const message = error.message || 'Failed to save fasting session';
+    const message = error.message || 'Failed to delete fasting session';
     throw new Error(message);
   }
 };
@@ -280,7 +589,7 @@ export const updateRingStats = async (stats: {
   goalMinutes: number;
 }): Promise<void> => {
   try {
-    await apiClient.put('/community/ring-stats', {
+    await api.updateRingStats({
       date: stats.date.replace(/-/g, ''), // Format as yyyyMMdd
       caloriesBurned: stats.caloriesBurned,
       steps: stats.steps,
@@ -311,16 +620,13 @@ export const updateHealthMetrics = async (date: string, metrics: {
     // Get current data first
     const currentData = await getDailyHealthData(date);
     
-    await apiClient.post('/health/daily', {
+    await api.saveDailyHealthData({
       date,
-      caloriesConsumed: currentData?.caloriesConsumed || 0,
-      caloriesBurned: metrics.caloriesBurned ?? currentData?.caloriesBurned ?? 0,
       activeEnergyBurned: metrics.activeEnergyBurned ?? currentData?.activeEnergyBurned ?? 0,
       dietaryEnergyConsumed: metrics.dietaryEnergyConsumed ?? currentData?.dietaryEnergyConsumed ?? 0,
       heartRate: metrics.heartRate ?? currentData?.heartRate ?? 0,
       restingHeartRate: metrics.restingHeartRate ?? currentData?.restingHeartRate ?? 0,
       steps: metrics.steps ?? currentData?.steps ?? 0,
-      waterIntake: currentData?.waterIntake || 0,
     });
   } catch (error: any) {
     const message = error.message || 'Failed to update health metrics';
@@ -0,0 +1,95 @@
+import * as api from './generated';
+import { isVersionConflict, toMealItem, toMealItemRecord, VersionConflictError } from './health';
+import { PlannedMeal, PlannedMealInput } from '../../types';
+
+export const toPlannedMeal = (plannedMeal: api.PlannedMeal): PlannedMeal => ({
+  id: plannedMeal.id,
+  date: plannedMeal.date,
+  type: plannedMeal.type,
+  name: plannedMeal.name,
+  calories: plannedMeal.calories,
+  macros: { carbs: plannedMeal.carbs, protein: plannedMeal.protein, fat: plannedMeal.fat },
+  nutrients: plannedMeal.nutrients ?? undefined,
+  items: plannedMeal.items.length ? plannedMeal.items.map(toMealItem) : undefined,
+  loggedMealId: plannedMeal.loggedMealId ?? undefined,
+  version: plannedMeal.version,
+  updatedAt: new Date(plannedMeal.updatedAt),
+});
+
+const toPlannedMealBody = (plannedMeal: PlannedMealInput): api.CreatePlannedMealBody => ({
+  date: plannedMeal.date,
+  type: plannedMeal.type,
+  name: plannedMeal.name,
+  calories: plannedMeal.calories,
+  carbs: plannedMeal.macros.carbs,
+  protein: plannedMeal.macros.protein,
+  fat: plannedMeal.macros.fat,
+  nutrients: plannedMeal.nutrients,
+  items: plannedMeal.items?.map(toMealItemRecord),
+});
+
+/**
+ * Planned meals between two days (yyyy-MM-dd, inclusive), oldest day first
+ */
+export const getPlannedMeals = async (from: string, to: string): Promise<PlannedMeal[]> => {
+  try {
+    const plannedMeals = await api.getPlannedMeals({ from, to });
+    return (plannedMeals || []).map(toPlannedMeal);
+  } catch (error: any) {
+    const message = error.message || 'Failed to get planned meals';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Plan a meal for a day; a planned meal with items takes its totals from them
+ */
+export const createPlannedMeal = async (plannedMeal: PlannedMealInput): Promise<PlannedMeal> => {
+  try {
+    return toPlannedMeal(await api.createPlannedMeal(toPlannedMealBody(plannedMeal)));
+  } catch (error: any) {
+    const message = error.message || 'Failed to plan meal';
+    throw new Error(message);
+  }
+};
+
+const updatePlannedMealWith = async (id: string, body: api.UpdatePlannedMealBody): Promise<PlannedMeal> => {
+  try {
+    return toPlannedMeal(await api.updatePlannedMeal(id, body));
+  } catch (error: any) {
+    if (isVersionConflict(error)) {
+      throw new VersionConflictError(error.message, toPlannedMeal(error.data.data));
+    }
+    const message = error.message || 'Failed to update planned meal';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Replace a planned meal's day, name, nutrition and items. Passing the
+ * version the app last saw makes the update fail with a VersionConflictError
+ * if it was changed on another device first.
+ */
+export const updatePlannedMeal = (id: string, plannedMeal: PlannedMealInput, version?: number) => {
+  const body = toPlannedMealBody(plannedMeal);
+  // No items clears them, so the meal's own totals apply again
+  return updatePlannedMealWith(id, { ...body, items: body.items ?? [], version });
+};
+
+/**
+ * Record the meal a planned meal was logged as
+ */
+export const markPlannedMealLogged = (id: string, mealId: string) =>
+  updatePlannedMealWith(id, { loggedMealId: mealId });
+
+/**
+ * Delete a planned meal; a meal it was logged as stays logged
+ */
+export const deletePlannedMeal = async (id: string): Promise<void> => {
+  try {
+    await api.deletePlannedMeal(id);
+  } catch (error: any) {
+    const message = error.message || 'Failed to delete planned meal';
+    throw new Error(message);
+  }
+};
@@ -0,0 +1,93 @@
+import * as api from './generated';
+import { isVersionConflict, toMealItem, toMealItemRecord, VersionConflictError } from './health';
+import { Recipe, RecipeInput, RecipeShareTarget } from '../../types';
+
+export const toRecipe = (recipe: api.Recipe): Recipe => ({
+  id: recipe.id,
+  ownerUid: recipe.userId,
+  ownerName: recipe.user.displayName,
+  name: recipe.name,
+  servings: recipe.servings,
+  ingredients: recipe.ingredients.map(toMealItem),
+  calories: recipe.calories,
+  macros: { carbs: recipe.carbs, protein: recipe.protein, fat: recipe.fat },
+  nutrients: recipe.nutrients ?? undefined,
+  sharedWith: {
+    friendUids: recipe.shares.flatMap(share => (share.userId ? [share.userId] : [])),
+    clanIds: recipe.shares.flatMap(share => (share.clanId ? [share.clanId] : [])),
+  },
+  version: recipe.version,
+  updatedAt: new Date(recipe.updatedAt),
+});
+
+const toRecipeBody = (recipe: RecipeInput): api.CreateRecipeBody => ({
+  name: recipe.name,
+  servings: recipe.servings,
+  ingredients: recipe.ingredients.map(toMealItemRecord),
+});
+
+/**
+ * Recipes the user wrote and those shared with them, by name
+ */
+export const getRecipes = async (): Promise<Recipe[]> => {
+  try {
+    const recipes = await api.getRecipes();
+    return (recipes || []).map(toRecipe);
+  } catch (error: any) {
+    const message = error.message || 'Failed to get recipes';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Save a new recipe; its totals are added up from the ingredients
+ */
+export const createRecipe = async (recipe: RecipeInput): Promise<Recipe> => {
+  try {
+    return toRecipe(await api.createRecipe(toRecipeBody(recipe)));
+  } catch (error: any) {
+    const message = error.message || 'Failed to create recipe';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Replace a recipe's name, servings and ingredients. Passing the version the
+ * app last saw makes the update fail with a VersionConflictError if it was
+ * changed on another device first.
+ */
+export const updateRecipe = async (id: string, recipe: RecipeInput, version?: number): Promise<Recipe> => {
+  try {
+    return toRecipe(await api.updateRecipe(id, { ...toRecipeBody(recipe), version }));
+  } catch (error: any) {
+    if (isVersionConflict(error)) {
+      throw new VersionConflictError(error.message, toRecipe(error.data.data));
+    }
+    const message = error.message || 'Failed to update recipe';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Delete a recipe the user wrote; it is gone for everyone it was shared with
+ */
+export const deleteRecipe = async (id: string): Promise<void> => {
+  try {
+    await api.deleteRecipe(id);
+  } catch (error: any) {
+    const message = error.message || 'Failed to delete recipe';
+    throw new Error(message);
+  }
+};
+
+/**
+ * Share a recipe the user wrote; the friend or the clan's members are notified
+ */
+export const shareRecipe = async (id: string, target: RecipeShareTarget): Promise<Recipe> => {
+  try {
+    return toRecipe(await api.shareRecipe(id, target));
+  } catch (error: any) {
+    const message = error.message || 'Failed to share recipe';
+    throw new Error(message);
+  }
+};
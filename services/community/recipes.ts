@@ -0,0 +1,11 @@
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { app } from '../firebase/config';
+import { RecipeShareTarget } from '../../types';
+
+const functions = getFunctions(app);
+
+// Share one of the user's recipes with a friend or a clan they belong to
+export const shareRecipe = async (recipeId: string, target: RecipeShareTarget): Promise<void> => {
+  const share = httpsCallable(functions, 'shareRecipe');
+  await share({ recipeId, ...target });
+};
@@ -1,7 +1,15 @@
+import { getFunctions, httpsCallable } from 'firebase/functions';
 import { doc, getDoc, collection, getDocs } from 'firebase/firestore';
-import { db } from '../firebase/config';
+import { db, app } from '../firebase/config';
 import { RingStats, RingsVisibility } from '../../types';
 
+export const updateRingStats = async (
+  dailyStats: Omit<RingStats, 'updatedAt'> & { date: string } // yyyyMMdd format
+): Promise<void> => {
+  const update = httpsCallable(getFunctions(app), 'updateRingStats');
+  await update({ dailyStats });
+};
+
 export const getRingStats = async (
   viewerUid: string,
   targetUid: string,
@@ -1,14 +1,9 @@
 import { collection, query, where, getDocs, limit, doc, getDoc } from 'firebase/firestore';
 import { getFunctions, httpsCallable } from 'firebase/functions';
 import { db } from '../firebase/config';
+import { SearchableUser } from '../../types';
 
-export interface SearchableUser {
-  uid: string;
-  displayName: string;
-  email: string;
-  photoURL: string;
-  usernameLower?: string;
-}
+export type { SearchableUser };
 
 export interface UserData extends SearchableUser {
   createdAt?: any;
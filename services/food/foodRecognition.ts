@@ -1,114 +1,53 @@
 import * as FileSystem from 'expo-file-system';
-
-const OPENAI_API_KEY = process.env.EXPO_PUBLIC_OPENAI_API_KEY || '';
-
-export interface FoodAnalysisResult {
-  name: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  confidence?: number;
-}
-
-export const analyzeFoodImage = async (imageUri: string): Promise<FoodAnalysisResult> => {
-  if (!OPENAI_API_KEY || OPENAI_API_KEY === 'sk-abcdef1234567890abcdef1234567890abcdef12') {
-    throw new Error('OpenAI API key is not configured. Please set EXPO_PUBLIC_OPENAI_API_KEY in your .env file.');
+import { RECOGNITION_IMAGE_TYPES, RECOGNITION_LIMITS } from '../../backend/src/shared/domain';
+import { MealItem, RecognitionImageType, RecognizedFood } from '../../types';
+import { foodRepository } from '../repositories';
+import { correctionsFor } from '../../utils/foodRecognition';
+
+export { RecognitionUnavailableError } from '../api/foodRecognition';
+
+// Image pickers report the type of the asset; older ones only give a uri
+const mimeTypeOf = (imageUri: string, mimeType?: string | null): RecognitionImageType => {
+  const type = mimeType?.toLowerCase() ?? '';
+  if ((RECOGNITION_IMAGE_TYPES as readonly string[]).includes(type)) {
+    return type as RecognitionImageType;
   }
+  if (/\.png$/i.test(imageUri)) return 'image/png';
+  if (/\.webp$/i.test(imageUri)) return 'image/webp';
+  return 'image/jpeg';
+};
 
-  try {
-    // Read the image file and convert to base64
-    const base64Image = await FileSystem.readAsStringAsync(imageUri, {
-      encoding: FileSystem.EncodingType.Base64,
-    });
-
-    // Call OpenAI Vision API
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: `Analyze this food image and provide the nutritional information in the following JSON format:
-{
-  "name": "food name",
-  "calories": number,
-  "protein": number in grams,
-  "carbs": number in grams,
-  "fat": number in grams
-}
-
-Be as accurate as possible. Estimate portion sizes if visible. If you can't identify specific macros, provide reasonable estimates based on the food type. Always return valid JSON only, no additional text.`,
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: `data:image/jpeg;base64,${base64Image}`,
-                  detail: 'high',
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 500,
-        temperature: 0.3,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || `API Error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content || '';
+/**
+ * Recognize the foods on a photo, one item each with the portion shown. The
+ * photo is analyzed by the API server, so the provider's key never ships in
+ * the app. Rejects with RecognitionUnavailableError when the server cannot be
+ * reached or has no provider; the foods can then be searched or entered by hand.
+ */
+export const analyzeFoodImage = async (imageUri: string, mimeType?: string | null): Promise<RecognizedFood[]> => {
+  const image = await FileSystem.readAsStringAsync(imageUri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  // Base64 is a third larger than the file
+  if ((image.length * 3) / 4 > RECOGNITION_LIMITS.imageBytes) {
+    throw new Error('The photo is too large. Please pick a smaller one or lower the quality.');
+  }
 
-    // Parse the JSON response - extract JSON from markdown code blocks if present
-    let jsonString = content.trim();
-    
-    // Remove markdown code blocks if present
-    jsonString = jsonString.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-    
-    // Try to extract JSON object
-    const jsonMatch = jsonString.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Invalid response format from API');
-    }
+  return foodRepository.recognizeFood(image, mimeTypeOf(imageUri, mimeType));
+};
 
-    const result: FoodAnalysisResult = JSON.parse(jsonMatch[0]);
+/**
+ * Teach the recognizer what the user changed before logging: the logged items
+ * are matched to the recognized ones by position. Failing to save is not worth
+ * interrupting the meal for, so errors are only logged.
+ */
+export const learnFromCorrections = async (recognized: RecognizedFood[], logged: MealItem[]) => {
+  const corrections = correctionsFor(recognized, logged);
+  if (corrections.length === 0) return;
 
-    // Validate and ensure all required fields are present with default values
-    return {
-      name: result.name || 'Unknown Food',
-      calories: Math.round(result.calories || 0),
-      protein: Math.round(result.protein || 0),
-      carbs: Math.round(result.carbs || 0),
-      fat: Math.round(result.fat || 0),
-      confidence: result.confidence,
-    };
-  } catch (error: any) {
-    console.error('Error analyzing food image:', error);
-    
-    if (error.message.includes('API key')) {
-      throw new Error('OpenAI API key is missing or invalid. Please configure EXPO_PUBLIC_OPENAI_API_KEY.');
-    }
-    
-    if (error.message.includes('Invalid response')) {
-      throw new Error('Could not parse food information from the image. Please try again with a clearer photo.');
-    }
-    
-    if (error.message.includes('rate limit')) {
-      throw new Error('API rate limit exceeded. Please try again in a moment.');
-    }
-    
-    throw new Error(error.message || 'Failed to analyze food image. Please check your internet connection and try again.');
+  try {
+    await foodRepository.saveFoodCorrections(corrections);
+  } catch (error) {
+    console.error('Error saving food corrections:', error);
   }
 };
@@ -0,0 +1,289 @@
+import { format, parseISO } from 'date-fns';
+import * as Crypto from 'expo-crypto';
+import * as storage from '../storage/firestore';
+import * as friends from '../community/friends';
+import * as clans from '../community/clans';
+import * as notifications from '../community/notifications';
+import * as ringStats from '../community/ringStats';
+import * as userSearch from '../community/userSearch';
+import * as recipes from '../community/recipes';
+import * as foods from '../api/foods';
+import * as foodRecognition from '../api/foodRecognition';
+import { FastingSession, PlannedMeal, Recipe } from '../../types';
+import { VersionConflictError } from '../api/health';
+import { summarizeHealthRange } from '../../utils/healthRange';
+import { toGoalChange } from '../../utils/goals';
+import { withItemTotals } from '../../utils/foods';
+import { withIngredientTotals } from '../../utils/recipes';
+import {
+  CommunityRepository,
+  FoodRepository,
+  HealthRepository,
+  MealPlanRepository,
+  RecipeRepository,
+  Repositories,
+} from './types';
+
+// Firestore documents written from the device (services/storage/firestore.ts),
+// with community writes going through the Cloud Functions callables.
+
+const withDuration = (session: FastingSession): FastingSession => ({
+  ...session,
+  duration: ((session.endTime?.getTime() ?? Date.now()) - session.startTime.getTime()) / (1000 * 60 * 60),
+});
+
+const assertVersion = <T extends { version?: number }>(resource: string, record: T, version?: number) => {
+  if (version !== undefined && version !== (record.version ?? 1)) {
+    throw new VersionConflictError(`${resource} was changed on another device`, record);
+  }
+};
+
+export const createFirestoreRepositories = (getUserId: () => string): Repositories => {
+  const healthRepository: HealthRepository = {
+    getDailyHealthData: (date) => storage.getDailyHealthData(getUserId(), date),
+
+    getHealthRange: async (from, to, bucket = 'day') => {
+      const [days, sessions] = await Promise.all([
+        storage.getHealthDays(getUserId(), from, to),
+        storage.getFastingSessions(getUserId(), parseISO(from), parseISO(to)),
+      ]);
+      return summarizeHealthRange(from, to, bucket, days, sessions);
+    },
+
+    saveDailyHealthData: async ({ date, ...metrics }) => {
+      const defined = Object.fromEntries(Object.entries(metrics).filter(([, value]) => value !== undefined));
+      await storage.updateHealthMetrics(getUserId(), date, defined);
+    },
+
+    addMeal: async (date, meal) => {
+      const saved = withItemTotals(meal);
+      await storage.addMeal(getUserId(), date, saved);
+      return saved;
+    },
+
+    addWaterEntry: async (date, entry) => {
+      await storage.addWaterEntry(getUserId(), date, entry);
+    },
+
+    addWorkout: async (date, workout) => {
+      await storage.addWorkout(getUserId(), date, workout);
+      return { ...workout, date };
+    },
+
+    updateMeal: (date, meal) =>
+      storage.updateMealById(getUserId(), date, meal.id, current => {
+        assertVersion('Meal', current, meal.version);
+
+        return withItemTotals({
+          ...meal,
+          version: (current.version ?? 1) + 1,
+          updatedAt: new Date(),
+        });
+      }),
+
+    getMealSuggestions: () => storage.getMealSuggestions(getUserId()),
+    saveMealSuggestion: (suggestion) => storage.saveMealSuggestion(getUserId(), suggestion),
+
+    getGoalHistory: () => storage.getGoalHistory(getUserId()),
+    setGoals: async (effectiveFrom, changes) => {
+      const change = toGoalChange(await storage.getGoalHistory(getUserId()), effectiveFrom, changes);
+      await storage.saveGoalChange(getUserId(), change);
+      return change;
+    },
+
+    getMeasurements: (from, to) => storage.getMeasurements(getUserId(), from, to),
+    saveMeasurement: (date, changes) => storage.saveMeasurement(getUserId(), date, changes),
+    deleteMeasurement: (date) => storage.deleteMeasurement(getUserId(), date),
+
+    getFastingSessions: async (from, to) =>
+      (await storage.getFastingSessions(getUserId(), from, to)).map(withDuration),
+
+    getActiveFastingSession: async () => {
+      const active = await storage.getActiveFastingSession(getUserId());
+      return active ? withDuration(active) : null;
+    },
+
+    startFastingSession: async (input) => {
+      if (await storage.getActiveFastingSession(getUserId())) {
+        throw new Error('A fasting session is already in progress');
+      }
+
+      const startTime = input.startTime ?? new Date();
+      const session: FastingSession = {
+        id: Crypto.randomUUID(),
+        type: input.type,
+        startTime,
+        duration: 0,
+        targetDuration: input.targetDuration,
+        eatingWindow: input.eatingWindow && {
+          ...input.eatingWindow,
+          value: `${input.eatingWindow.startHour}-${input.eatingWindow.endHour}`,
+        },
+        version: 1,
+        updatedAt: new Date(),
+      };
+      await storage.saveFastingSession(getUserId(), format(startTime, 'yyyy-MM-dd'), session);
+      return session;
+    },
+
+    stopFastingSession: (id, endTime, version) =>
+      storage.updateFastingSessionById(getUserId(), id, current => {
+        assertVersion('Fasting session', current, version);
+        if (current.endTime) {
+          throw new Error('Fasting session has already been stopped');
+        }
+
+        return withDuration({
+          ...current,
+          endTime: endTime ?? new Date(),
+          version: (current.version ?? 1) + 1,
+          updatedAt: new Date(),
+        });
+      }),
+
+    updateFastingSession: (id, { version, ...changes }) =>
+      storage.updateFastingSessionById(getUserId(), id, current => {
+        assertVersion('Fasting session', current, version);
+
+        return withDuration({
+          ...current,
+          ...changes,
+          version: (current.version ?? 1) + 1,
+          updatedAt: new Date(),
+        });
+      }),
+
+    deleteFastingSession: (id) => storage.deleteFastingSession(getUserId(), id),
+
+    updateRingStats: ({ date, ...stats }) => ringStats.updateRingStats({ ...stats, date: date.replace(/-/g, '') }),
+  };
+
+  const communityRepository: CommunityRepository = {
+    getFriends: () => friends.getUserFriends(getUserId()),
+    getFriendRequests: async () => {
+      const [sent, received] = await Promise.all([
+        friends.getSentFriendRequests(getUserId()),
+        friends.getReceivedFriendRequests(getUserId()),
+      ]);
+      return { sent, received };
+    },
+    sendFriendRequest: (toUid) => friends.sendFriendRequest(getUserId(), toUid),
+    acceptFriendRequest: (fromUid) => friends.acceptFriendRequest(fromUid, getUserId()),
+    rejectFriendRequest: (fromUid) => friends.rejectFriendRequest(fromUid, getUserId()),
+    cancelFriendRequest: (toUid) => friends.cancelFriendRequest(getUserId(), toUid),
+    removeFriend: (friendUid) => friends.removeFriend(getUserId(), friendUid),
+
+    getClans: () => clans.getUserClans(getUserId()),
+    getClan: clans.getClan,
+    getClanMembers: clans.getClanMembers,
+    getClanInvites: () => clans.getClanInvites(getUserId()),
+    createClan: async (name, description, privacy) => {
+      const { clanId } = await clans.createClan(name, description, privacy);
+      return { id: clanId };
+    },
+    inviteToClan: clans.inviteToClan,
+    respondClanInvite: clans.respondClanInvite,
+    leaveClan: clans.leaveClan,
+    removeClanMember: clans.removeClanMember,
+
+    getNotifications: (limit) => notifications.getNotifications(getUserId(), limit),
+    getUnreadNotificationCount: () => notifications.getUnreadNotificationCount(getUserId()),
+    markNotificationRead: (notificationId) => notifications.markNotificationAsRead(getUserId(), notificationId),
+    markAllNotificationsRead: () => notifications.markAllNotificationsAsRead(getUserId()),
+
+    getUser: userSearch.getUserById,
+    searchUsers: async (query, limit) => (await userSearch.searchAllUsers(query, limit)).users,
+    getRingStats: (uid, date) => ringStats.getRingStats(getUserId(), uid, date),
+    getClanRingStats: ringStats.getClanRingStats,
+  };
+
+  // Firestore cannot search text; the food database is always the API's.
+  // So is recognition, which gets the corrections kept here as hints.
+  const foodRepository: FoodRepository = {
+    searchFoods: foods.searchFoods,
+    getFoodByBarcode: foods.getFoodByBarcode,
+    recognizeFood: async (image, mimeType) =>
+      foodRecognition.recognizeFood(image, mimeType, await storage.getFoodCorrections(getUserId())),
+    getFoodCorrections: () => storage.getFoodCorrections(getUserId()),
+    saveFoodCorrections: corrections => storage.saveFoodCorrections(getUserId(), corrections),
+  };
+
+  const recipeRepository: RecipeRepository = {
+    getRecipes: () => storage.getRecipes(getUserId()),
+
+    createRecipe: async (input) => {
+      const recipe: Recipe = {
+        ...withIngredientTotals(input),
+        id: Crypto.randomUUID(),
+        ownerUid: getUserId(),
+        sharedWith: { friendUids: [], clanIds: [] },
+        version: 1,
+        updatedAt: new Date(),
+      };
+      await storage.createRecipe(getUserId(), recipe);
+      return recipe;
+    },
+
+    updateRecipe: (id, input, version) =>
+      storage.updateRecipeById(getUserId(), id, current => {
+        assertVersion('Recipe', current, version);
+
+        return {
+          ...current,
+          ...withIngredientTotals(input),
+          version: (current.version ?? 1) + 1,
+          updatedAt: new Date(),
+        };
+      }),
+
+    deleteRecipe: storage.deleteRecipe,
+    shareRecipe: recipes.shareRecipe,
+  };
+
+  const mealPlanRepository: MealPlanRepository = {
+    getPlannedMeals: (from, to) => storage.getPlannedMeals(getUserId(), from, to),
+
+    createPlannedMeal: async (input) => {
+      const plannedMeal: PlannedMeal = {
+        ...withItemTotals(input),
+        id: Crypto.randomUUID(),
+        version: 1,
+        updatedAt: new Date(),
+      };
+      await storage.createPlannedMeal(getUserId(), plannedMeal);
+      return plannedMeal;
+    },
+
+    updatePlannedMeal: (id, input, version) =>
+      storage.updatePlannedMealById(getUserId(), id, current => {
+        assertVersion('Planned meal', current, version);
+
+        // Fields the input leaves out are cleared rather than kept
+        return {
+          ...withItemTotals(input),
+          id,
+          loggedMealId: current.loggedMealId,
+          version: (current.version ?? 1) + 1,
+          updatedAt: new Date(),
+        };
+      }),
+
+    markPlannedMealLogged: (id, mealId) =>
+      storage.updatePlannedMealById(getUserId(), id, current => ({
+        ...current,
+        loggedMealId: mealId,
+        version: (current.version ?? 1) + 1,
+        updatedAt: new Date(),
+      })),
+
+    deletePlannedMeal: id => storage.deletePlannedMeal(getUserId(), id),
+  };
+
+  return {
+    health: healthRepository,
+    community: communityRepository,
+    food: foodRepository,
+    recipe: recipeRepository,
+    mealPlan: mealPlanRepository,
+  };
+};
@@ -0,0 +1,56 @@
+import { createFirestoreRepositories } from './firestore';
+import { createMemoryRepositories } from './memory';
+import { createRestRepositories } from './rest';
+import { Repositories } from './types';
+
+export * from './types';
+
+export type StorageBackend = 'rest' | 'firestore' | 'memory';
+
+/**
+ * Where health and community data live. Set EXPO_PUBLIC_STORAGE_BACKEND to
+ * 'firestore' or 'memory' to switch; the Express API is the default.
+ */
+export const storageBackend: StorageBackend = (() => {
+  const configured = process.env.EXPO_PUBLIC_STORAGE_BACKEND;
+  if (configured === 'firestore' || configured === 'memory') {
+    return configured;
+  }
+  return 'rest';
+})();
+
+let currentUserId: string | null = null;
+
+/**
+ * Point the repositories at the signed-in user (AuthContext calls this before
+ * any screen loads data), or at no one after sign-out.
+ */
+export const setRepositoryUser = (userId: string | null) => {
+  currentUserId = userId;
+};
+
+const getUserId = (): string => {
+  if (!currentUserId) {
+    throw new Error('User ID is required');
+  }
+  return currentUserId;
+};
+
+const createRepositories = (): Repositories => {
+  switch (storageBackend) {
+    case 'firestore':
+      return createFirestoreRepositories(getUserId);
+    case 'memory':
+      return createMemoryRepositories(getUserId);
+    default:
+      return createRestRepositories(getUserId);
+  }
+};
+
+const repositories = createRepositories();
+
+export const healthRepository = repositories.health;
+export const communityRepository = repositories.community;
+export const foodRepository = repositories.food;
+export const recipeRepository = repositories.recipe;
+export const mealPlanRepository = repositories.mealPlan;
@@ -0,0 +1,757 @@
+import { addDays, parseISO } from 'date-fns';
+import * as Crypto from 'expo-crypto';
+import {
+  BodyMeasurement,
+  Clan,
+  ClanInvite,
+  ClanMember,
+  DailyHealthData,
+  FastingSession,
+  Food,
+  FoodCorrection,
+  FriendRequest,
+  GoalChange,
+  MealSuggestion,
+  Notification,
+  NotificationType,
+  PlannedMeal,
+  Recipe,
+  RingStats,
+  SearchableUser,
+} from '../../types';
+import { VersionConflictError } from '../api/health';
+import { RecognitionUnavailableError } from '../api/foodRecognition';
+import { summarizeHealthRange } from '../../utils/healthRange';
+import { toGoalChange, withGoalChange } from '../../utils/goals';
+import { withItemTotals } from '../../utils/foods';
+import { withIngredientTotals } from '../../utils/recipes';
+import { applyCorrection, correctionKey } from '../../utils/foodRecognition';
+import { MEASUREMENT_KEYS, RECOGNITION_LIMITS } from '../../backend/src/shared/domain';
+import {
+  CommunityRepository,
+  FoodRepository,
+  HealthRepository,
+  MealPlanRepository,
+  RecipeRepository,
+  Repositories,
+} from './types';
+
+// Everything kept in process memory: nothing persists across restarts. Meant
+// for tests, demos and running the app without a backend.
+
+export interface MemorySeed {
+  users?: SearchableUser[];
+  days?: Array<DailyHealthData & { userId: string }>;
+  foods?: Food[];
+}
+
+interface StoredSession extends FastingSession {
+  userId: string;
+}
+
+interface StoredFriend {
+  userId: string;
+  friendUid: string;
+  createdAt: Date;
+}
+
+interface StoredMember extends ClanMember {
+  clanId: string;
+}
+
+interface StoredNotification extends Notification {
+  userId: string;
+}
+
+const emptyDay = (date: string): DailyHealthData => ({
+  date,
+  caloriesConsumed: 0,
+  caloriesBurned: 0,
+  steps: 0,
+  meals: [],
+  fastingSessions: [],
+  waterIntake: 0,
+  waterEntries: [],
+  workouts: [],
+});
+
+const withDuration = (session: StoredSession): FastingSession => {
+  const { userId, ...rest } = session;
+  const end = session.endTime?.getTime() ?? Date.now();
+  return { ...rest, duration: (end - session.startTime.getTime()) / (1000 * 60 * 60) };
+};
+
+const overlaps = (session: FastingSession, from?: Date, to?: Date) =>
+  (!to || session.startTime < to) && (!from || !session.endTime || session.endTime > from);
+
+export const createMemoryRepositories = (getUserId: () => string, seed: MemorySeed = {}): Repositories => {
+  const days = new Map<string, DailyHealthData>(); // keyed by `${userId}:${date}`
+  const sessions: StoredSession[] = [];
+  const suggestions = new Map<string, MealSuggestion[]>();
+  const goalHistory = new Map<string, GoalChange[]>(); // oldest first
+  const measurements = new Map<string, BodyMeasurement>(); // keyed by `${userId}:${date}`
+  const ringStats = new Map<string, RingStats>(); // keyed by `${userId}:${yyyyMMdd}`
+  const users = new Map<string, SearchableUser>();
+  const friendRequests: FriendRequest[] = [];
+  const friends: StoredFriend[] = [];
+  const clans: Clan[] = [];
+  const members: StoredMember[] = [];
+  const invites: ClanInvite[] = [];
+  const notifications: StoredNotification[] = [];
+  const recipes: Recipe[] = [];
+  const foodCorrections = new Map<string, FoodCorrection[]>(); // most recent first
+  const plannedMeals = new Map<string, PlannedMeal[]>(); // keyed by userId
+
+  seed.users?.forEach(user => users.set(user.uid, user));
+  seed.days?.forEach(({ userId, ...day }) => days.set(`${userId}:${day.date}`, day));
+
+  const dayKey = (date: string) => `${getUserId()}:${date}`;
+
+  const getOrCreateDay = (date: string) => {
+    const key = dayKey(date);
+    const day = days.get(key) ?? emptyDay(date);
+    days.set(key, day);
+    return day;
+  };
+
+  const recomputeTotals = (day: DailyHealthData) => {
+    day.caloriesConsumed = day.meals.reduce((sum, meal) => sum + meal.calories, 0);
+    day.waterIntake = day.waterEntries.reduce((sum, entry) => sum + entry.glasses, 0);
+    const workoutCalories = day.workouts.reduce((sum, workout) => sum + workout.totalCaloriesBurned, 0);
+    day.caloriesBurned = Math.max(workoutCalories, day.activeEnergyBurned || 0);
+  };
+
+  const userSessions = () => sessions.filter(session => session.userId === getUserId());
+
+  const findSession = (id: string) => {
+    const session = userSessions().find(candidate => candidate.id === id);
+    if (!session) {
+      throw new Error('Fasting session not found');
+    }
+    return session;
+  };
+
+  const assertVersion = (session: StoredSession, version?: number) => {
+    if (version !== undefined && version !== session.version) {
+      throw new VersionConflictError('Fasting session was changed on another device', withDuration(session));
+    }
+  };
+
+  const notify = (userId: string, type: NotificationType, title: string, body: string, data: Notification['data']) => {
+    notifications.unshift({
+      id: Crypto.randomUUID(),
+      userId,
+      type,
+      title,
+      body,
+      data,
+      read: false,
+      createdAt: new Date(),
+    });
+  };
+
+  const displayName = (uid: string) => users.get(uid)?.displayName || 'Someone';
+
+  const activeMember = (clanId: string, uid: string) =>
+    members.find(member => member.clanId === clanId && member.uid === uid && member.status === 'active');
+
+  const areFriends = (uid: string, otherUid: string) =>
+    friends.some(friend => friend.userId === uid && friend.friendUid === otherUid);
+
+  const pendingRequest = (fromUid: string, toUid: string) =>
+    friendRequests.find(request => request.fromUid === fromUid && request.toUid === toUid && request.status === 'pending');
+
+  const healthRepository: HealthRepository = {
+    getDailyHealthData: async (date) => {
+      const day = days.get(dayKey(date));
+      if (!day) return null;
+
+      const dayStart = parseISO(date);
+      return {
+        ...day,
+        fastingSessions: userSessions()
+          .filter(session => overlaps(session, dayStart, addDays(dayStart, 1)))
+          .map(withDuration),
+      };
+    },
+
+    getHealthRange: async (from, to, bucket = 'day') => {
+      const userDays = [...days.entries()]
+        .filter(([key]) => key.startsWith(`${getUserId()}:`))
+        .map(([, day]) => day);
+      return summarizeHealthRange(from, to, bucket, userDays, userSessions().map(withDuration));
+    },
+
+    saveDailyHealthData: async (data) => {
+      const day = getOrCreateDay(data.date);
+      day.steps = data.steps ?? day.steps;
+      day.activeEnergyBurned = data.activeEnergyBurned ?? day.activeEnergyBurned;
+      day.dietaryEnergyConsumed = data.dietaryEnergyConsumed ?? day.dietaryEnergyConsumed;
+      day.heartRate = data.heartRate ?? day.heartRate;
+      day.restingHeartRate = data.restingHeartRate ?? day.restingHeartRate;
+      recomputeTotals(day);
+    },
+
+    addMeal: async (date, meal) => {
+      const day = getOrCreateDay(date);
+      const existing = day.meals.find(saved => saved.id === meal.id);
+      if (existing) return existing;
+
+      const saved = { ...withItemTotals(meal), version: 1, updatedAt: new Date() };
+      day.meals.push(saved);
+      recomputeTotals(day);
+      return saved;
+    },
+
+    updateMeal: async (date, meal) => {
+      const day = getOrCreateDay(date);
+      const index = day.meals.findIndex(saved => saved.id === meal.id);
+      if (index === -1) {
+        throw new Error('Meal not found');
+      }
+
+      const stored = day.meals[index];
+      if (meal.version !== undefined && meal.version !== stored.version) {
+        throw new VersionConflictError('Meal was changed on another device', stored);
+      }
+
+      const saved = { ...withItemTotals(meal), version: (stored.version ?? 1) + 1, updatedAt: new Date() };
+      day.meals[index] = saved;
+      recomputeTotals(day);
+      return saved;
+    },
+
+    addWaterEntry: async (date, entry) => {
+      const day = getOrCreateDay(date);
+      if (day.waterEntries.some(saved => saved.id === entry.id)) return;
+
+      day.waterEntries.push({ ...entry, version: 1, updatedAt: new Date() });
+      recomputeTotals(day);
+    },
+
+    addWorkout: async (date, workout) => {
+      const day = getOrCreateDay(date);
+      const existing = day.workouts.find(saved => saved.id === workout.id);
+      if (existing) return existing;
+
+      const saved = { ...workout, date, version: 1, updatedAt: new Date() };
+      day.workouts.push(saved);
+      recomputeTotals(day);
+      return saved;
+    },
+
+    getMealSuggestions: async () => suggestions.get(getUserId()) || [],
+
+    saveMealSuggestion: async (suggestion) => {
+      const name = suggestion.name.trim();
+      const id = `${suggestion.type}-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+      const others = (suggestions.get(getUserId()) || []).filter(saved => saved.id !== id);
+      suggestions.set(getUserId(), [{ ...suggestion, id, name, updatedAt: new Date() }, ...others]);
+      return id;
+    },
+
+    getGoalHistory: async () => goalHistory.get(getUserId()) || [],
+
+    setGoals: async (effectiveFrom, changes) => {
+      const history = goalHistory.get(getUserId()) || [];
+      const change = toGoalChange(history, effectiveFrom, changes);
+      goalHistory.set(getUserId(), withGoalChange(history, change));
+      return change;
+    },
+
+    getMeasurements: async (from, to) =>
+      [...measurements.entries()]
+        .filter(([key]) => key.startsWith(`${getUserId()}:`))
+        .map(([, measurement]) => measurement)
+        .filter(({ date }) => (!from || date >= from) && (!to || date <= to))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+
+    saveMeasurement: async (date, changes) => {
+      const key = `${getUserId()}:${date}`;
+      const measurement: BodyMeasurement = { ...measurements.get(key), date, updatedAt: new Date() };
+      for (const name of MEASUREMENT_KEYS) {
+        const value = changes[name];
+        if (value === null) delete measurement[name];
+        else if (value !== undefined) measurement[name] = value;
+      }
+      if (MEASUREMENT_KEYS.every(name => measurement[name] === undefined)) {
+        throw new Error('Log at least one measurement, or delete the day');
+      }
+      measurements.set(key, measurement);
+      return measurement;
+    },
+
+    deleteMeasurement: async (date) => {
+      if (!measurements.delete(`${getUserId()}:${date}`)) {
+        throw new Error('No measurements logged on that day');
+      }
+    },
+
+    getFastingSessions: async (from, to) =>
+      userSessions()
+        .filter(session => overlaps(session, from, to))
+        .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+        .map(withDuration),
+
+    getActiveFastingSession: async () => {
+      const active = userSessions().find(session => !session.endTime);
+      return active ? withDuration(active) : null;
+    },
+
+    startFastingSession: async (input) => {
+      if (userSessions().some(session => !session.endTime)) {
+        throw new Error('A fasting session is already in progress');
+      }
+
+      const session: StoredSession = {
+        id: Crypto.randomUUID(),
+        userId: getUserId(),
+        type: input.type,
+        startTime: input.startTime ?? new Date(),
+        duration: 0,
+        targetDuration: input.targetDuration,
+        eatingWindow: input.eatingWindow && {
+          ...input.eatingWindow,
+          value: `${input.eatingWindow.startHour}-${input.eatingWindow.endHour}`,
+        },
+        version: 1,
+        updatedAt: new Date(),
+      };
+      sessions.push(session);
+      return withDuration(session);
+    },
+
+    stopFastingSession: async (id, endTime, version) => {
+      const session = findSession(id);
+      assertVersion(session, version);
+      if (session.endTime) {
+        throw new Error('Fasting session has already been stopped');
+      }
+
+      session.endTime = endTime ?? new Date();
+      session.version = (session.version ?? 1) + 1;
+      session.updatedAt = new Date();
+      return withDuration(session);
+    },
+
+    updateFastingSession: async (id, changes) => {
+      const session = findSession(id);
+      assertVersion(session, changes.version);
+
+      const { version, ...fields } = changes;
+      Object.assign(session, fields, { version: (session.version ?? 1) + 1, updatedAt: new Date() });
+      return withDuration(session);
+    },
+
+    deleteFastingSession: async (id) => {
+      sessions.splice(sessions.indexOf(findSession(id)), 1);
+    },
+
+    updateRingStats: async ({ date, ...stats }) => {
+      ringStats.set(`${getUserId()}:${date.replace(/-/g, '')}`, { ...stats, updatedAt: new Date() });
+    },
+  };
+
+  const communityRepository: CommunityRepository = {
+    getFriends: async () =>
+      friends
+        .filter(friend => friend.userId === getUserId())
+        .map(friend => ({ friendUid: friend.friendUid, createdAt: friend.createdAt, ringsShare: true })),
+
+    getFriendRequests: async () => {
+      const uid = getUserId();
+      const pending = friendRequests.filter(request => request.status === 'pending');
+      return {
+        sent: pending.filter(request => request.fromUid === uid),
+        received: pending.filter(request => request.toUid === uid),
+      };
+    },
+
+    sendFriendRequest: async (toUid) => {
+      const uid = getUserId();
+      if (toUid === uid) throw new Error('Cannot send a friend request to yourself');
+      if (areFriends(uid, toUid)) throw new Error('Already friends');
+      if (pendingRequest(uid, toUid)) throw new Error('Friend request already sent');
+
+      // A request the other user already sent is accepted instead
+      if (pendingRequest(toUid, uid)) {
+        return communityRepository.acceptFriendRequest(toUid);
+      }
+
+      const now = new Date();
+      friendRequests.push({ fromUid: uid, toUid, status: 'pending', createdAt: now, updatedAt: now });
+      notify(toUid, 'FRIEND_REQUEST', 'New friend request', `${displayName(uid)} sent you a friend request`, {
+        fromUid: uid,
+      });
+    },
+
+    acceptFriendRequest: async (fromUid) => {
+      const uid = getUserId();
+      const request = pendingRequest(fromUid, uid);
+      if (!request) throw new Error('Friend request not found');
+
+      request.status = 'accepted';
+      request.updatedAt = new Date();
+      friends.push({ userId: uid, friendUid: fromUid, createdAt: new Date() });
+      friends.push({ userId: fromUid, friendUid: uid, createdAt: new Date() });
+      notify(fromUid, 'FRIEND_ACCEPTED', 'Friend request accepted', `${displayName(uid)} accepted your friend request`, {
+        fromUid: uid,
+      });
+    },
+
+    rejectFriendRequest: async (fromUid) => {
+      const request = pendingRequest(fromUid, getUserId());
+      if (!request) throw new Error('Friend request not found');
+
+      request.status = 'rejected';
+      request.updatedAt = new Date();
+    },
+
+    cancelFriendRequest: async (toUid) => {
+      const request = pendingRequest(getUserId(), toUid);
+      if (!request) throw new Error('Friend request not found');
+
+      request.status = 'canceled';
+      request.updatedAt = new Date();
+    },
+
+    removeFriend: async (friendUid) => {
+      const uid = getUserId();
+      for (let i = friends.length - 1; i >= 0; i--) {
+        const friend = friends[i];
+        if ((friend.userId === uid && friend.friendUid === friendUid) || (friend.userId === friendUid && friend.friendUid === uid)) {
+          friends.splice(i, 1);
+        }
+      }
+    },
+
+    getClans: async () => clans.filter(clan => activeMember(clan.id, getUserId())),
+
+    getClan: async (clanId) => clans.find(clan => clan.id === clanId) ?? null,
+
+    getClanMembers: async (clanId) =>
+      members
+        .filter(member => member.clanId === clanId && member.status === 'active')
+        .map(({ clanId: _clanId, ...member }) => member),
+
+    getClanInvites: async () =>
+      invites.filter(invite => invite.toUid === getUserId() && invite.status === 'pending'),
+
+    createClan: async (name, description = '', privacy = 'inviteOnly') => {
+      const uid = getUserId();
+      const clan: Clan = {
+        id: Crypto.randomUUID(),
+        name,
+        description,
+        photoURL: '',
+        ownerUid: uid,
+        privacy,
+        createdAt: new Date(),
+      };
+      clans.push(clan);
+      members.push({ clanId: clan.id, uid, role: 'owner', status: 'active', joinedAt: new Date() });
+      return { id: clan.id };
+    },
+
+    inviteToClan: async (clanId, toUid) => {
+      const uid = getUserId();
+      const clan = clans.find(candidate => candidate.id === clanId);
+      if (!clan || !activeMember(clanId, uid)) throw new Error('Not a member');
+      if (activeMember(clanId, toUid)) throw new Error('Already a member');
+
+      invites.push({ clanId, fromUid: uid, toUid, status: 'pending', createdAt: new Date() });
+      notify(toUid, 'CLAN_INVITE', 'Clan invite', `${displayName(uid)} invited you to ${clan.name}`, {
+        fromUid: uid,
+        clanId,
+      });
+    },
+
+    respondClanInvite: async (clanId, action) => {
+      const uid = getUserId();
+      const invite = invites.find(
+        candidate => candidate.clanId === clanId && candidate.toUid === uid && candidate.status === 'pending'
+      );
+      if (!invite) throw new Error('Clan invite not found');
+
+      invite.status = action === 'accept' ? 'accepted' : 'rejected';
+      if (action === 'accept') {
+        members.push({ clanId, uid, role: 'member', status: 'active', joinedAt: new Date() });
+      }
+      notify(
+        invite.fromUid,
+        action === 'accept' ? 'CLAN_INVITE_ACCEPTED' : 'CLAN_INVITE_REJECTED',
+        action === 'accept' ? 'Clan invite accepted' : 'Clan invite declined',
+        `${displayName(uid)} ${action === 'accept' ? 'joined' : 'declined'} your clan`,
+        { fromUid: uid, clanId }
+      );
+    },
+
+    leaveClan: async (clanId) => {
+      const member = activeMember(clanId, getUserId());
+      if (!member) throw new Error('Not a member');
+      if (member.role === 'owner') throw new Error('Owner cannot leave clan');
+
+      members.splice(members.indexOf(member), 1);
+    },
+
+    removeClanMember: async (clanId, memberUid) => {
+      const requester = activeMember(clanId, getUserId());
+      if (!requester || (requester.role !== 'owner' && requester.role !== 'admin')) {
+        throw new Error('Insufficient permissions');
+      }
+      const member = activeMember(clanId, memberUid);
+      if (!member) throw new Error('Member not found');
+      if (member.role === 'owner') throw new Error('Cannot remove owner');
+
+      members.splice(members.indexOf(member), 1);
+      notify(memberUid, 'CLAN_MEMBER_REMOVED', 'Removed from clan', 'You were removed from a clan', { clanId });
+    },
+
+    getNotifications: async (limit = 50) =>
+      notifications
+        .filter(notification => notification.userId === getUserId())
+        .slice(0, limit)
+        .map(({ userId, ...notification }) => notification),
+
+    getUnreadNotificationCount: async () =>
+      notifications.filter(notification => notification.userId === getUserId() && !notification.read).length,
+
+    markNotificationRead: async (notificationId) => {
+      const notification = notifications.find(
+        candidate => candidate.id === notificationId && candidate.userId === getUserId()
+      );
+      if (notification) notification.read = true;
+    },
+
+    markAllNotificationsRead: async () => {
+      notifications
+        .filter(notification => notification.userId === getUserId())
+        .forEach(notification => {
+          notification.read = true;
+        });
+    },
+
+    getUser: async (uid) => users.get(uid) ?? null,
+
+    searchUsers: async (query, limit = 20) => {
+      const term = query.trim().toLowerCase();
+      return [...users.values()]
+        .filter(user =>
+          !term ||
+          user.displayName.toLowerCase().includes(term) ||
+          user.email.toLowerCase().includes(term) ||
+          user.usernameLower?.includes(term)
+        )
+        .slice(0, limit);
+    },
+
+    // Own rings and friends' rings are visible; privacy settings are not modelled here
+    getRingStats: async (uid, date) => {
+      const viewer = getUserId();
+      if (uid !== viewer && !areFriends(viewer, uid)) return null;
+      return ringStats.get(`${uid}:${date}`) ?? null;
+    },
+
+    getClanRingStats: async (clanId, date) =>
+      members
+        .filter(member => member.clanId === clanId && member.status === 'active')
+        .flatMap(member => {
+          const stats = ringStats.get(`${member.uid}:${date}`);
+          return stats ? [{ uid: member.uid, stats }] : [];
+        }),
+  };
+
+  // Only the seeded foods; words match the start of a word of the name or brand
+  const foodRepository: FoodRepository = {
+    searchFoods: async query => {
+      const terms = query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+      if (terms.length === 0) return [];
+      return (seed.foods ?? [])
+        .filter(food => {
+          const words = `${food.name} ${food.brand ?? ''}`.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+          return terms.every(term => words.some(word => word.startsWith(term)));
+        })
+        .sort((a, b) => a.name.length - b.name.length)
+        .slice(0, 20);
+    },
+
+    getFoodByBarcode: async barcode =>
+      (seed.foods ?? []).find(food => food.barcode?.replace(/^0+/, '') === barcode.replace(/^0+/, '')) ?? null,
+
+    // There is no recognition provider without the API
+    recognizeFood: async () => {
+      throw new RecognitionUnavailableError('Food recognition needs the API server');
+    },
+
+    getFoodCorrections: async () => (foodCorrections.get(getUserId()) ?? []).slice(0, RECOGNITION_LIMITS.corrections),
+
+    saveFoodCorrections: async corrections => {
+      let list = foodCorrections.get(getUserId()) ?? [];
+      for (const input of corrections) {
+        const key = correctionKey(input.detectedName);
+        const existing = list.find(correction => correction.detectedName === key);
+        list = [applyCorrection(existing, input), ...list.filter(correction => correction !== existing)];
+      }
+      foodCorrections.set(getUserId(), list);
+    },
+  };
+
+  // Clan shares include members who join later, as with the API
+  const canReadRecipe = (recipe: Recipe, uid: string) =>
+    recipe.ownerUid === uid ||
+    recipe.sharedWith.friendUids.includes(uid) ||
+    recipe.sharedWith.clanIds.some(clanId => activeMember(clanId, uid));
+
+  const findOwnRecipe = (id: string) => {
+    const recipe = recipes.find(candidate => candidate.id === id && candidate.ownerUid === getUserId());
+    if (!recipe) {
+      throw new Error('Recipe not found');
+    }
+    return recipe;
+  };
+
+  const recipeRepository: RecipeRepository = {
+    getRecipes: async () =>
+      recipes
+        .filter(recipe => canReadRecipe(recipe, getUserId()))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+
+    createRecipe: async input => {
+      const recipe: Recipe = {
+        ...withIngredientTotals(input),
+        id: Crypto.randomUUID(),
+        ownerUid: getUserId(),
+        ownerName: displayName(getUserId()),
+        sharedWith: { friendUids: [], clanIds: [] },
+        version: 1,
+        updatedAt: new Date(),
+      };
+      recipes.push(recipe);
+      return recipe;
+    },
+
+    updateRecipe: async (id, input, version) => {
+      const stored = findOwnRecipe(id);
+      if (version !== undefined && version !== stored.version) {
+        throw new VersionConflictError('Recipe was changed on another device', stored);
+      }
+
+      const saved = { ...stored, ...withIngredientTotals(input), version: (stored.version ?? 1) + 1, updatedAt: new Date() };
+      recipes[recipes.indexOf(stored)] = saved;
+      return saved;
+    },
+
+    deleteRecipe: async id => {
+      recipes.splice(recipes.indexOf(findOwnRecipe(id)), 1);
+    },
+
+    shareRecipe: async (id, target) => {
+      const uid = getUserId();
+      const recipe = findOwnRecipe(id);
+      let readers: string[];
+
+      if ('friendUid' in target) {
+        if (!areFriends(uid, target.friendUid)) {
+          throw new Error('Recipes can only be shared with friends');
+        }
+        if (recipe.sharedWith.friendUids.includes(target.friendUid)) return;
+        recipe.sharedWith.friendUids.push(target.friendUid);
+        readers = [target.friendUid];
+      } else {
+        if (!activeMember(target.clanId, uid)) {
+          throw new Error('Not a clan member');
+        }
+        if (recipe.sharedWith.clanIds.includes(target.clanId)) return;
+        recipe.sharedWith.clanIds.push(target.clanId);
+        readers = members
+          .filter(member => member.clanId === target.clanId && member.status === 'active' && member.uid !== uid)
+          .map(member => member.uid);
+      }
+
+      const clanId = 'clanId' in target ? target.clanId : undefined;
+      readers.forEach(readerUid =>
+        notify(readerUid, 'RECIPE_SHARED', 'Recipe shared with you', `${displayName(uid)} shared the recipe ${recipe.name}`, {
+          fromUid: uid,
+          recipeId: id,
+          clanId,
+        })
+      );
+    },
+  };
+
+  const ownPlannedMeals = () => {
+    const list = plannedMeals.get(getUserId()) ?? [];
+    plannedMeals.set(getUserId(), list);
+    return list;
+  };
+
+  const findPlannedMeal = (id: string) => {
+    const plannedMeal = ownPlannedMeals().find(candidate => candidate.id === id);
+    if (!plannedMeal) {
+      throw new Error('Planned meal not found');
+    }
+    return plannedMeal;
+  };
+
+  const replacePlannedMeal = (stored: PlannedMeal, saved: PlannedMeal) => {
+    const list = ownPlannedMeals();
+    list[list.indexOf(stored)] = saved;
+    return saved;
+  };
+
+  const mealPlanRepository: MealPlanRepository = {
+    getPlannedMeals: async (from, to) =>
+      ownPlannedMeals()
+        .filter(plannedMeal => plannedMeal.date >= from && plannedMeal.date <= to)
+        .sort((a, b) => a.date.localeCompare(b.date)),
+
+    createPlannedMeal: async input => {
+      const plannedMeal: PlannedMeal = {
+        ...withItemTotals(input),
+        id: Crypto.randomUUID(),
+        version: 1,
+        updatedAt: new Date(),
+      };
+      ownPlannedMeals().push(plannedMeal);
+      return plannedMeal;
+    },
+
+    updatePlannedMeal: async (id, input, version) => {
+      const stored = findPlannedMeal(id);
+      if (version !== undefined && version !== stored.version) {
+        throw new VersionConflictError('Planned meal was changed on another device', stored);
+      }
+
+      return replacePlannedMeal(stored, {
+        ...withItemTotals(input),
+        id,
+        loggedMealId: stored.loggedMealId,
+        version: (stored.version ?? 1) + 1,
+        updatedAt: new Date(),
+      });
+    },
+
+    markPlannedMealLogged: async (id, mealId) => {
+      const stored = findPlannedMeal(id);
+      return replacePlannedMeal(stored, {
+        ...stored,
+        loggedMealId: mealId,
+        version: (stored.version ?? 1) + 1,
+        updatedAt: new Date(),
+      });
+    },
+
+    deletePlannedMeal: async id => {
+      const list = ownPlannedMeals();
+      list.splice(list.indexOf(findPlannedMeal(id)), 1);
+    },
+  };
+
+  return {
+    health: healthRepository,
+    community: communityRepository,
+    food: foodRepository,
+    recipe: recipeRepository,
+    mealPlan: mealPlanRepository,
+  };
+};
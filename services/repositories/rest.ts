@@ -0,0 +1,141 @@
+import * as api from '../api/generated';
+import * as health from '../api/health';
+import * as community from '../api/community';
+import * as foods from '../api/foods';
+import * as foodRecognition from '../api/foodRecognition';
+import * as recipes from '../api/recipes';
+import * as mealPlans from '../api/mealPlans';
+import {
+  CommunityRepository,
+  FoodRepository,
+  HealthRepository,
+  MealPlanRepository,
+  RecipeRepository,
+  Repositories,
+} from './types';
+
+// The Express API (services/api/*). Requests act for the user in the auth
+// token, so the user id is only needed for data the API does not serve yet.
+// Day writes call the generated client directly: the outbox replays them and
+// needs the ApiError status to tell a retryable failure from a rejection.
+
+export const createRestRepositories = (getUserId: () => string): Repositories => {
+  const healthRepository: HealthRepository = {
+    getDailyHealthData: health.getDailyHealthData,
+    getHealthRange: health.getHealthRange,
+    saveDailyHealthData: async (data) => {
+      await api.saveDailyHealthData(health.toDailyHealthDataBody(data));
+    },
+    addMeal: async (date, meal) => health.toMeal(await api.addMeal(health.toMealBody(date, meal))),
+    addWaterEntry: async (date, entry) => {
+      await api.addWaterEntry(health.toWaterEntryBody(date, entry));
+    },
+    addWorkout: async (date, workout) => health.toWorkout(await api.addWorkout(health.toWorkoutBody(date, workout)), date),
+    updateMeal: async (_date, meal) => {
+      try {
+        return health.toMeal(await api.updateMeal(meal.id, health.toUpdateMealBody(meal)));
+      } catch (error: any) {
+        if (health.isVersionConflict(error)) {
+          throw new health.VersionConflictError(error.message, health.toMeal(error.data.data));
+        }
+        throw error;
+      }
+    },
+
+    getMealSuggestions: health.getMealSuggestions,
+    saveMealSuggestion: health.saveMealSuggestion,
+
+    getGoalHistory: health.getGoalHistory,
+    setGoals: health.setGoals,
+
+    getMeasurements: health.getMeasurements,
+    saveMeasurement: health.saveMeasurement,
+    deleteMeasurement: health.deleteMeasurement,
+
+    getFastingSessions: health.getFastingSessions,
+    getActiveFastingSession: health.getActiveFastingSession,
+    startFastingSession: health.startFastingSession,
+    stopFastingSession: health.stopFastingSession,
+    updateFastingSession: health.updateFastingSession,
+    deleteFastingSession: health.deleteFastingSession,
+
+    updateRingStats: health.updateRingStats,
+  };
+
+  const communityRepository: CommunityRepository = {
+    getFriends: community.getFriends,
+    getFriendRequests: community.getFriendRequests,
+    sendFriendRequest: async (toUid) => {
+      await community.sendFriendRequest(toUid);
+    },
+    acceptFriendRequest: async (fromUid) => {
+      await community.acceptFriendRequest(fromUid);
+    },
+    rejectFriendRequest: community.rejectFriendRequest,
+    cancelFriendRequest: community.cancelFriendRequest,
+    removeFriend: community.removeFriend,
+
+    getClans: community.getClans,
+    getClan: community.getClan,
+    getClanMembers: community.getClanMembers,
+    getClanInvites: community.getClanInvites,
+    createClan: community.createClan,
+    inviteToClan: async (clanId, toUid) => {
+      await community.inviteToClan(clanId, toUid);
+    },
+    respondClanInvite: community.respondClanInvite,
+    leaveClan: community.leaveClan,
+    removeClanMember: community.removeClanMember,
+
+    getNotifications: (limit) => community.getNotifications(limit),
+    getUnreadNotificationCount: community.getUnreadNotificationCount,
+    markNotificationRead: community.markNotificationRead,
+    markAllNotificationsRead: community.markAllNotificationsRead,
+
+    getUser: community.getUser,
+    searchUsers: (query, limit) => community.searchUsers(query, limit),
+    // The API only serves the signed-in user's own rings
+    getRingStats: async (uid, date) => (uid === getUserId() ? community.getRingStats(date) : null),
+    getClanRingStats: async (clanId, date) => {
+      const uid = getUserId();
+      const members = await community.getClanMembers(clanId);
+      const stats = members.some(member => member.uid === uid) ? await community.getRingStats(date) : null;
+      return stats ? [{ uid, stats }] : [];
+    },
+  };
+
+  const foodRepository: FoodRepository = {
+    searchFoods: foods.searchFoods,
+    getFoodByBarcode: foods.getFoodByBarcode,
+    recognizeFood: async (image, mimeType) =>
+      foodRecognition.recognizeFood(image, mimeType, await foodRecognition.getFoodCorrections()),
+    getFoodCorrections: foodRecognition.getFoodCorrections,
+    saveFoodCorrections: foodRecognition.saveFoodCorrections,
+  };
+
+  const recipeRepository: RecipeRepository = {
+    getRecipes: recipes.getRecipes,
+    createRecipe: recipes.createRecipe,
+    updateRecipe: recipes.updateRecipe,
+    deleteRecipe: recipes.deleteRecipe,
+    shareRecipe: async (id, target) => {
+      await recipes.shareRecipe(id, target);
+    },
+  };
+
+  const mealPlanRepository: MealPlanRepository = {
+    getPlannedMeals: mealPlans.getPlannedMeals,
+    createPlannedMeal: mealPlans.createPlannedMeal,
+    updatePlannedMeal: mealPlans.updatePlannedMeal,
+    markPlannedMealLogged: mealPlans.markPlannedMealLogged,
+    deletePlannedMeal: mealPlans.deletePlannedMeal,
+  };
+
+  return {
+    health: healthRepository,
+    community: communityRepository,
+    food: foodRepository,
+    recipe: recipeRepository,
+    mealPlan: mealPlanRepository,
+  };
+};
@@ -0,0 +1,181 @@
+import {
+  BodyMeasurement,
+  Clan,
+  ClanInvite,
+  ClanMember,
+  ClanPrivacy,
+  DailyHealthData,
+  DailyMetrics,
+  FastingSession,
+  Food,
+  FoodCorrection,
+  FoodCorrectionInput,
+  Friend,
+  FriendRequest,
+  GoalChange,
+  Goals,
+  HealthRangeBucket,
+  HealthRangeRow,
+  Meal,
+  MealSuggestion,
+  MeasurementChanges,
+  Notification,
+  PlannedMeal,
+  PlannedMealInput,
+  Recipe,
+  RecipeInput,
+  RecipeShareTarget,
+  RecognitionImageType,
+  RecognizedFood,
+  RingStats,
+  SearchableUser,
+  WaterEntry,
+  Workout,
+} from '../../types';
+
+// The storage contract every screen and service goes through. Implementations
+// act for the signed-in user (see setRepositoryUser in ./index.ts).
+
+export interface StartFastingInput {
+  type: string;
+  startTime?: Date;
+  targetDuration?: number;
+  eatingWindow?: { startHour: number; endHour: number };
+}
+
+export type FastingSessionChanges = Partial<
+  Pick<FastingSession, 'type' | 'startTime' | 'endTime' | 'targetDuration' | 'eatingWindow' | 'version'>
+>;
+
+export interface RingStatsInput {
+  date: string; // yyyy-MM-dd
+  caloriesBurned: number;
+  steps: number;
+  workoutMinutes: number;
+  goalCalories: number;
+  goalSteps: number;
+  goalMinutes: number;
+}
+
+export type MealSuggestionInput = Omit<MealSuggestion, 'id' | 'updatedAt'>;
+
+export interface HealthRepository {
+  getDailyHealthData(date: string): Promise<DailyHealthData | null>;
+  getHealthRange(from: string, to: string, bucket?: HealthRangeBucket): Promise<HealthRangeRow[]>;
+  // Metrics left undefined keep their stored value
+  saveDailyHealthData(data: DailyMetrics): Promise<void>;
+  // Adds keep the entry's id, so saving the same entry twice stores it once
+  addMeal(date: string, meal: Meal): Promise<Meal>;
+  addWaterEntry(date: string, entry: WaterEntry): Promise<void>;
+  addWorkout(date: string, workout: Workout): Promise<Workout>;
+  // Replaces the meal's fields and items; a meal with items takes its totals
+  // from them. A stale version rejects the update.
+  updateMeal(date: string, meal: Meal): Promise<Meal>;
+
+  getMealSuggestions(): Promise<MealSuggestion[]>;
+  // Returns the suggestion's id; saving the same type and name again updates it
+  saveMealSuggestion(suggestion: MealSuggestionInput): Promise<string>;
+
+  // Oldest first; goalsOn (utils/goals.ts) picks the goals of a day
+  getGoalHistory(): Promise<GoalChange[]>;
+  // Goals left out keep the value that applied on effectiveFrom (yyyy-MM-dd)
+  setGoals(effectiveFrom: string, changes: Partial<Goals>): Promise<GoalChange>;
+
+  // Oldest first; either bound (yyyy-MM-dd, inclusive) may be left out
+  getMeasurements(from?: string, to?: string): Promise<BodyMeasurement[]>;
+  // Values left out keep what was logged that day; null clears one
+  saveMeasurement(date: string, changes: MeasurementChanges): Promise<BodyMeasurement>;
+  deleteMeasurement(date: string): Promise<void>;
+
+  getFastingSessions(from?: Date, to?: Date): Promise<FastingSession[]>;
+  getActiveFastingSession(): Promise<FastingSession | null>;
+  startFastingSession(session: StartFastingInput): Promise<FastingSession>;
+  // A stale version rejects with VersionConflictError (services/api/health.ts)
+  stopFastingSession(id: string, endTime?: Date, version?: number): Promise<FastingSession>;
+  updateFastingSession(id: string, changes: FastingSessionChanges): Promise<FastingSession>;
+  deleteFastingSession(id: string): Promise<void>;
+
+  updateRingStats(stats: RingStatsInput): Promise<void>;
+}
+
+export interface CommunityRepository {
+  getFriends(): Promise<Friend[]>;
+  getFriendRequests(): Promise<{ sent: FriendRequest[]; received: FriendRequest[] }>;
+  sendFriendRequest(toUid: string): Promise<void>;
+  acceptFriendRequest(fromUid: string): Promise<void>;
+  rejectFriendRequest(fromUid: string): Promise<void>;
+  cancelFriendRequest(toUid: string): Promise<void>;
+  removeFriend(friendUid: string): Promise<void>;
+
+  getClans(): Promise<Clan[]>;
+  getClan(clanId: string): Promise<Clan | null>;
+  getClanMembers(clanId: string): Promise<ClanMember[]>;
+  getClanInvites(): Promise<ClanInvite[]>;
+  createClan(name: string, description?: string, privacy?: ClanPrivacy): Promise<{ id: string }>;
+  inviteToClan(clanId: string, toUid: string): Promise<void>;
+  respondClanInvite(clanId: string, action: 'accept' | 'reject'): Promise<void>;
+  leaveClan(clanId: string): Promise<void>;
+  removeClanMember(clanId: string, memberUid: string): Promise<void>;
+
+  getNotifications(limit?: number): Promise<Notification[]>;
+  getUnreadNotificationCount(): Promise<number>;
+  markNotificationRead(notificationId: string): Promise<void>;
+  markAllNotificationsRead(): Promise<void>;
+
+  getUser(uid: string): Promise<SearchableUser | null>;
+  // Matches name, email or username; an empty query lists everyone
+  searchUsers(query: string, limit?: number): Promise<SearchableUser[]>;
+  // Null when there are no stats for the day or the user does not share them
+  getRingStats(uid: string, date: string): Promise<RingStats | null>; // date is yyyyMMdd
+  getClanRingStats(clanId: string, date: string): Promise<Array<{ uid: string; stats: RingStats }>>;
+}
+
+// The shared food database (services/api/foods.ts) and food recognition
+// (services/api/foodRecognition.ts), served by the API whichever backend
+// keeps the user's records. Only the recognition corrections are the user's.
+export interface FoodRepository {
+  // Foods whose name or brand match every word, best first
+  searchFoods(query: string): Promise<Food[]>;
+  // Null when the barcode is not in the database
+  getFoodByBarcode(barcode: string): Promise<Food | null>;
+  // Foods on a base64 photo, adjusted by the user's corrections. Rejects with
+  // RecognitionUnavailableError offline or without a recognition provider.
+  recognizeFood(image: string, mimeType: RecognitionImageType): Promise<RecognizedFood[]>;
+  // Most recent first
+  getFoodCorrections(): Promise<FoodCorrection[]>;
+  saveFoodCorrections(corrections: FoodCorrectionInput[]): Promise<void>;
+}
+
+// Recipes only their owner changes; everyone they are shared with can read
+// them and log servings of them.
+export interface RecipeRepository {
+  // The user's own recipes and those shared with them, by name
+  getRecipes(): Promise<Recipe[]>;
+  // Calories and macros are added up from the ingredients
+  createRecipe(recipe: RecipeInput): Promise<Recipe>;
+  // A stale version rejects with VersionConflictError (services/api/health.ts)
+  updateRecipe(id: string, recipe: RecipeInput, version?: number): Promise<Recipe>;
+  deleteRecipe(id: string): Promise<void>;
+  // The friend, or the clan's other members, are notified
+  shareRecipe(id: string, target: RecipeShareTarget): Promise<void>;
+}
+
+// Meals the user plans to eat; they count towards nothing until logged
+export interface MealPlanRepository {
+  // Oldest day first; both bounds (yyyy-MM-dd) are inclusive
+  getPlannedMeals(from: string, to: string): Promise<PlannedMeal[]>;
+  createPlannedMeal(plannedMeal: PlannedMealInput): Promise<PlannedMeal>;
+  // A stale version rejects with VersionConflictError (services/api/health.ts)
+  updatePlannedMeal(id: string, plannedMeal: PlannedMealInput, version?: number): Promise<PlannedMeal>;
+  // Records the meal it was logged as; logging it is up to the caller
+  markPlannedMealLogged(id: string, mealId: string): Promise<PlannedMeal>;
+  deletePlannedMeal(id: string): Promise<void>;
+}
+
+export interface Repositories {
+  health: HealthRepository;
+  community: CommunityRepository;
+  food: FoodRepository;
+  recipe: RecipeRepository;
+  mealPlan: MealPlanRepository;
+}
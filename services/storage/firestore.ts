@@ -8,18 +8,41 @@ import {
   where,
   Timestamp,
   updateDoc,
+  runTransaction,
+  deleteField,
+  deleteDoc,
+  DocumentData,
 } from 'firebase/firestore';
 import { getFunctions, httpsCallable } from 'firebase/functions';
-import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
+import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subDays } from 'date-fns';
 import { db, app } from '../firebase/config';
-import { DailyHealthData, Meal, FastingSession, MealSuggestion, WaterEntry, Workout } from '../../types';
+import {
+  BodyMeasurement,
+  DailyHealthData,
+  Meal,
+  FastingSession,
+  FoodCorrection,
+  FoodCorrectionInput,
+  GoalChange,
+  MealSuggestion,
+  MeasurementChanges,
+  PlannedMeal,
+  Recipe,
+  WaterEntry,
+  Workout,
+} from '../../types';
+import { DEFAULT_GOALS, GOAL_KEYS, MEASUREMENT_KEYS, RECOGNITION_LIMITS } from '../../backend/src/shared/domain';
+import { mergeEntities } from '../../utils/mergeHealthData';
+import { applyCorrection, correctionKey } from '../../utils/foodRecognition';
 
+// Drops undefined fields, which Firestore rejects. Only arrays and plain
+// objects are walked, so Timestamps and Dates are written as they are.
 const stripUndefined = <T>(value: T): T => {
   if (Array.isArray(value)) {
     return value.map((item) => stripUndefined(item)) as T;
   }
 
-  if (value && typeof value === 'object') {
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
     const result: Record<string, unknown> = {};
     Object.entries(value as Record<string, unknown>).forEach(([key, val]) => {
       if (val === undefined) return;
@@ -31,6 +54,101 @@ const stripUndefined = <T>(value: T): T => {
   return value;
 };
 
+// Helper function to safely convert Firestore Timestamp to Date
+const toDate = (timestamp: any): Date => {
+  if (!timestamp) return new Date();
+  if (timestamp instanceof Date) return timestamp;
+  if (timestamp.toDate && typeof timestamp.toDate === 'function') {
+    return timestamp.toDate();
+  }
+  // If it's already a date string or number
+  if (typeof timestamp === 'string' || typeof timestamp === 'number') {
+    return new Date(timestamp);
+  }
+  return new Date();
+};
+
+const toFastingSession = (session: DocumentData): FastingSession => ({
+  ...session,
+  id: session.id,
+  type: session.type,
+  startTime: toDate(session.startTime),
+  endTime: session.endTime ? toDate(session.endTime) : undefined,
+  duration: session.duration || 0,
+  targetDuration: session.targetDuration,
+  eatingWindow: session.eatingWindow || undefined,
+  updatedAt: session.updatedAt ? toDate(session.updatedAt) : undefined,
+} as FastingSession);
+
+const toMeal = (meal: DocumentData): Meal => ({
+  ...meal,
+  id: meal.id,
+  type: meal.type,
+  name: meal.name,
+  calories: meal.calories || 0,
+  macros: {
+    carbs: meal.macros?.carbs || 0,
+    protein: meal.macros?.protein || 0,
+    fat: meal.macros?.fat || 0,
+  },
+  timestamp: toDate(meal.timestamp),
+} as Meal);
+
+const toDailyHealthData = (data: DocumentData): DailyHealthData => {
+  return {
+    ...data,
+    meals: (data.meals || []).map(toMeal),
+    waterEntries: (data.waterEntries || []).map((entry: any) => ({
+      ...entry,
+      id: entry.id,
+      glasses: entry.glasses || 0,
+      timestamp: toDate(entry.timestamp),
+    })),
+    workouts: (data.workouts || []).map((workout: any) => ({
+      ...workout,
+      id: workout.id,
+      name: workout.name,
+      type: workout.type,
+      startTime: toDate(workout.startTime),
+      endTime: workout.endTime ? toDate(workout.endTime) : undefined,
+      duration: workout.duration || 0,
+      totalCaloriesBurned: workout.totalCaloriesBurned || 0,
+      date: workout.date,
+      exercises: (workout.exercises || []).map((ex: any) => ({
+        id: ex.id,
+        name: ex.name,
+        category: ex.category,
+        sets: ex.sets,
+        reps: ex.reps,
+        weight: ex.weight,
+        duration: ex.duration,
+        caloriesBurned: ex.caloriesBurned,
+        notes: ex.notes,
+      })),
+      locationTrack: workout.locationTrack ? workout.locationTrack.map((point: any) => ({
+        latitude: point.latitude,
+        longitude: point.longitude,
+        timestamp: point.timestamp?.toDate ? point.timestamp.toDate() : new Date(point.timestamp),
+        altitude: point.altitude,
+        speed: point.speed,
+        accuracy: point.accuracy,
+      })) : undefined,
+      distance: workout.distance,
+      averageSpeed: workout.averageSpeed,
+      maxSpeed: workout.maxSpeed,
+    })),
+    waterIntake: data.waterIntake || 0,
+    // Firestore keeps one session per day document, written by saveFastingSession
+    fastingSessions: data.fastingSession ? [toFastingSession(data.fastingSession)] : [],
+  } as DailyHealthData;
+};
+
+/**
+ * Save a day's data. Meals, water entries and workouts are merged by id with
+ * what is already stored instead of replacing the arrays, so two devices
+ * saving the same day keep each other's entries; for an entry both changed,
+ * the higher version wins.
+ */
 export const saveDailyHealthData = async (uid: string, data: DailyHealthData) => {
   try {
     if (!uid) {
@@ -50,7 +168,7 @@ export const saveDailyHealthData = async (uid: string, data: DailyHealthData) =>
       restingHeartRate: data.restingHeartRate || 0,
       steps: data.steps || 0,
       waterIntake: data.waterIntake || 0,
-      meals: data.meals.map(meal => ({
+      meals: (data.meals || []).map(meal => ({
         id: meal.id,
         type: meal.type,
         name: meal.name,
@@ -60,12 +178,16 @@ export const saveDailyHealthData = async (uid: string, data: DailyHealthData) =>
           protein: meal.macros?.protein || 0,
           fat: meal.macros?.fat || 0,
         },
+        nutrients: meal.nutrients,
         timestamp: Timestamp.fromDate(meal.timestamp),
+        items: meal.items,
+        version: meal.version,
       })),
-      waterEntries: data.waterEntries.map(entry => ({
+      waterEntries: (data.waterEntries || []).map(entry => ({
         id: entry.id,
         glasses: entry.glasses || 0,
         timestamp: Timestamp.fromDate(entry.timestamp),
+        version: entry.version,
       })),
       workouts: (data.workouts || []).map(workout => ({
         id: workout.id,
@@ -98,19 +220,26 @@ export const saveDailyHealthData = async (uid: string, data: DailyHealthData) =>
         distance: workout.distance,
         averageSpeed: workout.averageSpeed,
         maxSpeed: workout.maxSpeed,
+        version: workout.version,
       })),
-      fastingSession: data.fastingSession ? {
-        id: data.fastingSession.id,
-        type: data.fastingSession.type,
-        startTime: Timestamp.fromDate(data.fastingSession.startTime),
-        endTime: data.fastingSession.endTime ? Timestamp.fromDate(data.fastingSession.endTime) : null,
-        duration: data.fastingSession.duration || 0,
-        targetDuration: data.fastingSession.targetDuration,
-        eatingWindow: data.fastingSession.eatingWindow || undefined,
-      } : null,
     });
-    
-    await setDoc(healthRef, dataToSave, { merge: true });
+
+    await runTransaction(db, async (transaction) => {
+      const healthSnap = await transaction.get(healthRef);
+      const stored = healthSnap.exists() ? healthSnap.data() : {};
+
+      const meals = mergeEntities(stored.meals || [], dataToSave.meals, true);
+      const waterEntries = mergeEntities(stored.waterEntries || [], dataToSave.waterEntries, true);
+
+      transaction.set(healthRef, {
+        ...dataToSave,
+        meals,
+        waterEntries,
+        workouts: mergeEntities(stored.workouts || [], dataToSave.workouts, true),
+        caloriesConsumed: meals.reduce((sum: number, meal: { calories?: number }) => sum + (meal.calories || 0), 0),
+        waterIntake: waterEntries.reduce((sum: number, entry: { glasses?: number }) => sum + (entry.glasses || 0), 0),
+      }, { merge: true });
+    });
     console.log('[Firestore] Successfully saved daily health data');
   } catch (error: any) {
     console.error('[Firestore] Error saving daily health data:', error);
@@ -133,86 +262,7 @@ export const getDailyHealthData = async (uid: string, date: string): Promise<Dai
     if (healthSnap.exists()) {
       const data = healthSnap.data();
       console.log('[Firestore] Data found for date:', date);
-      // Helper function to safely convert Firestore Timestamp to Date
-      const toDate = (timestamp: any): Date => {
-        if (!timestamp) return new Date();
-        if (timestamp instanceof Date) return timestamp;
-        if (timestamp.toDate && typeof timestamp.toDate === 'function') {
-          return timestamp.toDate();
-        }
-        // If it's already a date string or number
-        if (typeof timestamp === 'string' || typeof timestamp === 'number') {
-          return new Date(timestamp);
-        }
-        return new Date();
-      };
-
-      return {
-        ...data,
-        meals: (data.meals || []).map((meal: any) => ({
-          ...meal,
-          id: meal.id,
-          type: meal.type,
-          name: meal.name,
-          calories: meal.calories || 0,
-          macros: {
-            carbs: meal.macros?.carbs || 0,
-            protein: meal.macros?.protein || 0,
-            fat: meal.macros?.fat || 0,
-          },
-          timestamp: toDate(meal.timestamp),
-        })),
-        waterEntries: (data.waterEntries || []).map((entry: any) => ({
-          ...entry,
-          id: entry.id,
-          glasses: entry.glasses || 0,
-          timestamp: toDate(entry.timestamp),
-        })),
-        workouts: (data.workouts || []).map((workout: any) => ({
-          ...workout,
-          id: workout.id,
-          name: workout.name,
-          type: workout.type,
-          startTime: toDate(workout.startTime),
-          endTime: workout.endTime ? toDate(workout.endTime) : undefined,
-          duration: workout.duration || 0,
-          totalCaloriesBurned: workout.totalCaloriesBurned || 0,
-          date: workout.date,
-          exercises: (workout.exercises || []).map((ex: any) => ({
-            id: ex.id,
-            name: ex.name,
-            category: ex.category,
-            sets: ex.sets,
-            reps: ex.reps,
-            weight: ex.weight,
-            duration: ex.duration,
-            caloriesBurned: ex.caloriesBurned,
-            notes: ex.notes,
-          })),
-          locationTrack: workout.locationTrack ? workout.locationTrack.map((point: any) => ({
-            latitude: point.latitude,
-            longitude: point.longitude,
-            timestamp: point.timestamp?.toDate ? point.timestamp.toDate() : new Date(point.timestamp),
-            altitude: point.altitude,
-            speed: point.speed,
-            accuracy: point.accuracy,
-          })) : undefined,
-          distance: workout.distance,
-          averageSpeed: workout.averageSpeed,
-          maxSpeed: workout.maxSpeed,
-        })),
-        waterIntake: data.waterIntake || 0,
-        fastingSession: data.fastingSession ? {
-          ...data.fastingSession,
-          id: data.fastingSession.id,
-          type: data.fastingSession.type,
-          startTime: toDate(data.fastingSession.startTime),
-          endTime: data.fastingSession.endTime ? toDate(data.fastingSession.endTime) : undefined,
-          duration: data.fastingSession.duration || 0,
-          targetDuration: data.fastingSession.targetDuration,
-          eatingWindow: data.fastingSession.eatingWindow || undefined,
-        } : undefined,
-      } as DailyHealthData;
+      return toDailyHealthData(data);
     }
     console.log('[Firestore] No data found for date:', date);
     return null;
@@ -224,6 +274,138 @@ export const getDailyHealthData = async (uid: string, date: string): Promise<Dai
   }
 };
 
+// Long fasts are stored on the day they started, so range queries look back this far
+const FASTING_LOOKBACK_DAYS = 3;
+
+/**
+ * Days between two dates (yyyy-MM-dd, inclusive) that have data
+ */
+export const getHealthDays = async (uid: string, from: string, to: string): Promise<DailyHealthData[]> => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    const healthRef = collection(db, 'users', uid, 'health');
+    const q = query(healthRef, where('date', '>=', from), where('date', '<=', to));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(docSnap => toDailyHealthData(docSnap.data()))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error: any) {
+    console.error('[Firestore] Error loading health days:', error);
+    throw new Error(error.message || 'Failed to get health data');
+  }
+};
+
+/**
+ * Fasting sessions overlapping the given period, newest first
+ */
+export const getFastingSessions = async (uid: string, from?: Date, to?: Date): Promise<FastingSession[]> => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    const constraints = [];
+    if (from) constraints.push(where('date', '>=', format(subDays(from, FASTING_LOOKBACK_DAYS), 'yyyy-MM-dd')));
+    if (to) constraints.push(where('date', '<=', format(to, 'yyyy-MM-dd')));
+
+    const querySnapshot = await getDocs(query(collection(db, 'users', uid, 'health'), ...constraints));
+
+    return querySnapshot.docs
+      .filter(docSnap => docSnap.data().fastingSession)
+      .map(docSnap => toFastingSession(docSnap.data().fastingSession))
+      .filter(session => (!to || session.startTime < to) && (!from || !session.endTime || session.endTime > from))
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+  } catch (error: any) {
+    console.error('[Firestore] Error loading fasting sessions:', error);
+    throw new Error(error.message || 'Failed to get fasting sessions');
+  }
+};
+
+export const getActiveFastingSession = async (uid: string): Promise<FastingSession | null> => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    // saveFastingSession writes an explicit null endTime while the fast runs
+    const q = query(collection(db, 'users', uid, 'health'), where('fastingSession.endTime', '==', null));
+    const querySnapshot = await getDocs(q);
+
+    const sessions = querySnapshot.docs.map(docSnap => toFastingSession(docSnap.data().fastingSession));
+    return sessions.sort((a, b) => b.startTime.getTime() - a.startTime.getTime())[0] ?? null;
+  } catch (error: any) {
+    console.error('[Firestore] Error loading active fasting session:', error);
+    throw new Error(error.message || 'Failed to get active fasting session');
+  }
+};
+
+const findFastingSessionRef = async (uid: string, id: string) => {
+  const q = query(collection(db, 'users', uid, 'health'), where('fastingSession.id', '==', id));
+  const querySnapshot = await getDocs(q);
+
+  if (querySnapshot.empty) {
+    throw new Error('Fasting session not found');
+  }
+  return querySnapshot.docs[0].ref;
+};
+
+/**
+ * Change a stored fasting session in a transaction. `apply` receives the
+ * stored copy and returns the session to write; it may throw to abort.
+ */
+export const updateFastingSessionById = async (
+  uid: string,
+  id: string,
+  apply: (current: FastingSession) => FastingSession
+): Promise<FastingSession> => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    const healthRef = await findFastingSessionRef(uid, id);
+
+    return await runTransaction(db, async (transaction) => {
+      const healthSnap = await transaction.get(healthRef);
+      const stored = healthSnap.data()?.fastingSession;
+      if (!stored || stored.id !== id) {
+        throw new Error('Fasting session not found');
+      }
+
+      const session = apply(toFastingSession(stored));
+      transaction.update(healthRef, {
+        fastingSession: stripUndefined({
+          ...session,
+          startTime: Timestamp.fromDate(session.startTime),
+          endTime: session.endTime ? Timestamp.fromDate(session.endTime) : null,
+          updatedAt: Timestamp.fromDate(session.updatedAt || new Date()),
+        }),
+      });
+      return session;
+    });
+  } catch (error: any) {
+    console.error('[Firestore] Error updating fasting session:', error);
+    throw error;
+  }
+};
+
+export const deleteFastingSession = async (uid: string, id: string): Promise<void> => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    await updateDoc(await findFastingSessionRef(uid, id), { fastingSession: deleteField() });
+  } catch (error: any) {
+    console.error('[Firestore] Error deleting fasting session:', error);
+    throw new Error(error.message || 'Failed to delete fasting session');
+  }
+};
+
 export const addMeal = async (uid: string, date: string, meal: Meal) => {
   try {
     if (!uid) {
@@ -245,10 +427,15 @@ export const addMeal = async (uid: string, date: string, meal: Meal) => {
       workouts: [],
     };
     
-    const updatedMeals = [...(existingData.meals || []), {
+    // A replayed add keeps the entry's id; store it once
+    if ((existingData.meals || []).some((saved: Meal) => saved.id === meal.id)) {
+      return;
+    }
+
+    const updatedMeals = [...(existingData.meals || []), stripUndefined({
       ...meal,
       timestamp: Timestamp.fromDate(meal.timestamp),
-    }];
+    })];
     
     const updatedCalories = updatedMeals.reduce((sum, m) => sum + m.calories, 0);
     
@@ -265,6 +452,49 @@ export const addMeal = async (uid: string, date: string, meal: Meal) => {
   }
 };
 
+/**
+ * Change a stored meal in a transaction. `apply` receives the stored copy and
+ * returns the meal to write; it may throw to abort.
+ */
+export const updateMealById = async (
+  uid: string,
+  date: string,
+  id: string,
+  apply: (current: Meal) => Meal
+): Promise<Meal> => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    const healthRef = doc(db, 'users', uid, 'health', date);
+
+    return await runTransaction(db, async (transaction) => {
+      const healthSnap = await transaction.get(healthRef);
+      const meals: DocumentData[] = [...((healthSnap.exists() && healthSnap.data().meals) || [])];
+      const index = meals.findIndex((saved) => saved.id === id);
+      if (index === -1) {
+        throw new Error('Meal not found');
+      }
+
+      const meal = apply(toMeal(meals[index]));
+      meals[index] = stripUndefined({
+        ...meal,
+        timestamp: Timestamp.fromDate(meal.timestamp),
+        updatedAt: Timestamp.fromDate(meal.updatedAt || new Date()),
+      });
+      transaction.update(healthRef, {
+        meals,
+        caloriesConsumed: meals.reduce((sum, saved) => sum + (saved.calories || 0), 0),
+      });
+      return meal;
+    });
+  } catch (error: any) {
+    console.error('[Firestore] Error updating meal:', error);
+    throw error;
+  }
+};
+
 const buildMealSuggestionId = (type: Meal['type'], name: string) => {
   const safeName = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
   return `${type}-${safeName}` || `${type}-meal`;
@@ -332,6 +562,421 @@ export const getMealSuggestions = async (uid: string): Promise<MealSuggestion[]>
   }
 };
 
+const toRecipe = (id: string, data: DocumentData): Recipe => ({
+  id,
+  ownerUid: data.ownerUid,
+  ownerName: data.ownerName || undefined,
+  name: data.name,
+  servings: data.servings || 1,
+  ingredients: data.ingredients || [],
+  calories: data.calories || 0,
+  macros: {
+    carbs: data.macros?.carbs || 0,
+    protein: data.macros?.protein || 0,
+    fat: data.macros?.fat || 0,
+  },
+  nutrients: data.nutrients || undefined,
+  sharedWith: {
+    friendUids: data.sharedWith?.friendUids || [],
+    clanIds: data.sharedWith?.clanIds || [],
+  },
+  version: data.version,
+  updatedAt: data.updatedAt ? toDate(data.updatedAt) : undefined,
+});
+
+// The fields an owner writes; sharing is left to the shareRecipe function
+const toRecipeFields = (recipe: Recipe) =>
+  stripUndefined({
+    name: recipe.name,
+    servings: recipe.servings,
+    ingredients: recipe.ingredients,
+    calories: recipe.calories,
+    macros: recipe.macros,
+    nutrients: recipe.nutrients,
+    version: recipe.version ?? 1,
+    updatedAt: Timestamp.fromDate(recipe.updatedAt || new Date()),
+  });
+
+/**
+ * Recipes the user wrote and those shared with them, by name. Recipes are
+ * top-level documents; readerUids lists everyone they were shared with.
+ */
+export const getRecipes = async (uid: string): Promise<Recipe[]> => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    const recipesRef = collection(db, 'recipes');
+    const [own, shared] = await Promise.all([
+      getDocs(query(recipesRef, where('ownerUid', '==', uid))),
+      getDocs(query(recipesRef, where('readerUids', 'array-contains', uid))),
+    ]);
+
+    return [...own.docs, ...shared.docs]
+      .map((docSnap) => toRecipe(docSnap.id, docSnap.data()))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error: any) {
+    console.error('[Firestore] Error getting recipes:', error);
+    throw new Error(error.message || 'Failed to get recipes');
+  }
+};
+
+export const createRecipe = async (uid: string, recipe: Recipe) => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    await setDoc(doc(db, 'recipes', recipe.id), {
+      ...toRecipeFields(recipe),
+      ownerUid: uid,
+      readerUids: [],
+      sharedWith: { friendUids: [], clanIds: [] },
+    });
+  } catch (error: any) {
+    console.error('[Firestore] Error creating recipe:', error);
+    throw new Error(error.message || 'Failed to create recipe');
+  }
+};
+
+/**
+ * Change one of the user's recipes in a transaction. `apply` receives the
+ * stored copy and returns the recipe to write; it may throw to abort.
+ */
+export const updateRecipeById = async (
+  uid: string,
+  id: string,
+  apply: (current: Recipe) => Recipe
+): Promise<Recipe> => {
+  try {
+    const recipeRef = doc(db, 'recipes', id);
+
+    return await runTransaction(db, async (transaction) => {
+      const recipeSnap = await transaction.get(recipeRef);
+      if (!recipeSnap.exists() || recipeSnap.data().ownerUid !== uid) {
+        throw new Error('Recipe not found');
+      }
+
+      const recipe = apply(toRecipe(id, recipeSnap.data()));
+      transaction.update(recipeRef, toRecipeFields(recipe));
+      return recipe;
+    });
+  } catch (error: any) {
+    console.error('[Firestore] Error updating recipe:', error);
+    throw error;
+  }
+};
+
+export const deleteRecipe = async (id: string) => {
+  try {
+    await deleteDoc(doc(db, 'recipes', id));
+  } catch (error: any) {
+    console.error('[Firestore] Error deleting recipe:', error);
+    throw new Error(error.message || 'Failed to delete recipe');
+  }
+};
+
+const toPlannedMeal = (id: string, data: DocumentData): PlannedMeal => ({
+  id,
+  date: data.date,
+  type: data.type,
+  name: data.name,
+  calories: data.calories || 0,
+  macros: {
+    carbs: data.macros?.carbs || 0,
+    protein: data.macros?.protein || 0,
+    fat: data.macros?.fat || 0,
+  },
+  nutrients: data.nutrients || undefined,
+  items: data.items?.length ? data.items : undefined,
+  loggedMealId: data.loggedMealId || undefined,
+  version: data.version,
+  updatedAt: data.updatedAt ? toDate(data.updatedAt) : undefined,
+});
+
+const toPlannedMealFields = (plannedMeal: PlannedMeal) =>
+  stripUndefined({
+    date: plannedMeal.date,
+    type: plannedMeal.type,
+    name: plannedMeal.name,
+    calories: plannedMeal.calories,
+    macros: plannedMeal.macros,
+    nutrients: plannedMeal.nutrients ?? null,
+    items: plannedMeal.items ?? [],
+    loggedMealId: plannedMeal.loggedMealId ?? null,
+    version: plannedMeal.version ?? 1,
+    updatedAt: Timestamp.fromDate(plannedMeal.updatedAt || new Date()),
+  });
+
+/**
+ * Planned meals between two days (inclusive), oldest day first
+ */
+export const getPlannedMeals = async (uid: string, from: string, to: string): Promise<PlannedMeal[]> => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    const plannedMealsSnap = await getDocs(
+      query(collection(db, 'users', uid, 'plannedMeals'), where('date', '>=', from), where('date', '<=', to))
+    );
+
+    return plannedMealsSnap.docs
+      .map((docSnap) => toPlannedMeal(docSnap.id, docSnap.data()))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error: any) {
+    console.error('[Firestore] Error getting planned meals:', error);
+    throw new Error(error.message || 'Failed to get planned meals');
+  }
+};
+
+export const createPlannedMeal = async (uid: string, plannedMeal: PlannedMeal) => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    await setDoc(doc(db, 'users', uid, 'plannedMeals', plannedMeal.id), toPlannedMealFields(plannedMeal));
+  } catch (error: any) {
+    console.error('[Firestore] Error creating planned meal:', error);
+    throw new Error(error.message || 'Failed to plan meal');
+  }
+};
+
+/**
+ * Change one of the user's planned meals in a transaction. `apply` receives
+ * the stored copy and returns the planned meal to write; it may throw to abort.
+ */
+export const updatePlannedMealById = async (
+  uid: string,
+  id: string,
+  apply: (current: PlannedMeal) => PlannedMeal
+): Promise<PlannedMeal> => {
+  try {
+    const plannedMealRef = doc(db, 'users', uid, 'plannedMeals', id);
+
+    return await runTransaction(db, async (transaction) => {
+      const plannedMealSnap = await transaction.get(plannedMealRef);
+      if (!plannedMealSnap.exists()) {
+        throw new Error('Planned meal not found');
+      }
+
+      const plannedMeal = apply(toPlannedMeal(id, plannedMealSnap.data()));
+      transaction.set(plannedMealRef, toPlannedMealFields(plannedMeal));
+      return plannedMeal;
+    });
+  } catch (error: any) {
+    console.error('[Firestore] Error updating planned meal:', error);
+    throw error;
+  }
+};
+
+export const deletePlannedMeal = async (uid: string, id: string) => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    await deleteDoc(doc(db, 'users', uid, 'plannedMeals', id));
+  } catch (error: any) {
+    console.error('[Firestore] Error deleting planned meal:', error);
+    throw new Error(error.message || 'Failed to delete planned meal');
+  }
+};
+
+/**
+ * Goal changes, oldest first; each is stored under its effectiveFrom day
+ */
+export const getGoalHistory = async (uid: string): Promise<GoalChange[]> => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    const goalsSnap = await getDocs(collection(db, 'users', uid, 'goals'));
+
+    return goalsSnap.docs
+      .map((docSnap) => {
+        const data = docSnap.data();
+        return {
+          // Goals added since the change was saved keep their defaults
+          ...Object.fromEntries(GOAL_KEYS.map((key) => [key, data[key] ?? DEFAULT_GOALS[key]])),
+          effectiveFrom: docSnap.id,
+        } as GoalChange;
+      })
+      .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  } catch (error: any) {
+    console.error('[Firestore] Error getting goals:', error);
+    throw new Error(error.message || 'Failed to get goals');
+  }
+};
+
+export const saveGoalChange = async (uid: string, change: GoalChange) => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    const { effectiveFrom, ...goals } = change;
+    await setDoc(doc(db, 'users', uid, 'goals', effectiveFrom), {
+      ...goals,
+      updatedAt: Timestamp.fromDate(new Date()),
+    });
+  } catch (error: any) {
+    console.error('[Firestore] Error saving goals:', error);
+    throw new Error(error.message || 'Failed to save goals');
+  }
+};
+
+const toBodyMeasurement = (date: string, data: DocumentData): BodyMeasurement => {
+  const measurement: BodyMeasurement = {
+    date,
+    updatedAt: data.updatedAt ? data.updatedAt.toDate() : undefined,
+  };
+  for (const key of MEASUREMENT_KEYS) {
+    if (typeof data[key] === 'number') {
+      measurement[key] = data[key];
+    }
+  }
+  return measurement;
+};
+
+/**
+ * Body measurements between two days (inclusive, either open), oldest first;
+ * each day is stored under its date
+ */
+export const getMeasurements = async (uid: string, from?: string, to?: string): Promise<BodyMeasurement[]> => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    const measurementsSnap = await getDocs(collection(db, 'users', uid, 'measurements'));
+
+    return measurementsSnap.docs
+      .filter((docSnap) => (!from || docSnap.id >= from) && (!to || docSnap.id <= to))
+      .map((docSnap) => toBodyMeasurement(docSnap.id, docSnap.data()))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error: any) {
+    console.error('[Firestore] Error getting measurements:', error);
+    throw new Error(error.message || 'Failed to get measurements');
+  }
+};
+
+export const saveMeasurement = async (
+  uid: string,
+  date: string,
+  changes: MeasurementChanges
+): Promise<BodyMeasurement> => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    const measurementRef = doc(db, 'users', uid, 'measurements', date);
+
+    return await runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(measurementRef);
+      const data: DocumentData = { ...(existing.exists() ? existing.data() : {}) };
+      const update: DocumentData = { updatedAt: Timestamp.fromDate(new Date()) };
+
+      for (const key of MEASUREMENT_KEYS) {
+        const value = changes[key];
+        if (value === undefined) continue;
+        data[key] = value ?? undefined;
+        update[key] = value ?? deleteField();
+      }
+
+      const measurement = toBodyMeasurement(date, { ...data, updatedAt: update.updatedAt });
+      if (MEASUREMENT_KEYS.every((key) => measurement[key] === undefined)) {
+        throw new Error('Log at least one measurement, or delete the day');
+      }
+
+      transaction.set(measurementRef, update, { merge: true });
+      return measurement;
+    });
+  } catch (error: any) {
+    console.error('[Firestore] Error saving measurements:', error);
+    throw new Error(error.message || 'Failed to save measurements');
+  }
+};
+
+export const deleteMeasurement = async (uid: string, date: string) => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    const measurementRef = doc(db, 'users', uid, 'measurements', date);
+    if (!(await getDoc(measurementRef)).exists()) {
+      throw new Error('No measurements logged on that day');
+    }
+    await deleteDoc(measurementRef);
+  } catch (error: any) {
+    console.error('[Firestore] Error deleting measurements:', error);
+    throw new Error(error.message || 'Failed to delete measurements');
+  }
+};
+
+const toFoodCorrection = (data: DocumentData): FoodCorrection => ({
+  detectedName: data.detectedName,
+  name: data.name,
+  foodId: data.foodId || undefined,
+  portionFactor: data.portionFactor ?? 1,
+  count: data.count ?? 1,
+});
+
+// Document ids cannot contain slashes, so the detected name is encoded
+const foodCorrectionRef = (uid: string, detectedName: string) =>
+  doc(db, 'users', uid, 'foodCorrections', encodeURIComponent(correctionKey(detectedName)));
+
+/**
+ * The user's corrections of recognized foods, most recent first
+ */
+export const getFoodCorrections = async (uid: string): Promise<FoodCorrection[]> => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    const correctionsSnap = await getDocs(collection(db, 'users', uid, 'foodCorrections'));
+
+    return correctionsSnap.docs
+      .map((docSnap) => docSnap.data())
+      .sort((a, b) => toDate(b.updatedAt).getTime() - toDate(a.updatedAt).getTime())
+      .slice(0, RECOGNITION_LIMITS.corrections)
+      .map(toFoodCorrection);
+  } catch (error: any) {
+    console.error('[Firestore] Error getting food corrections:', error);
+    throw new Error(error.message || 'Failed to get food corrections');
+  }
+};
+
+export const saveFoodCorrections = async (uid: string, corrections: FoodCorrectionInput[]) => {
+  try {
+    if (!uid) {
+      throw new Error('User ID is required');
+    }
+
+    await runTransaction(db, async (transaction) => {
+      const refs = corrections.map((correction) => foodCorrectionRef(uid, correction.detectedName));
+      const existing = await Promise.all(refs.map((ref) => transaction.get(ref)));
+
+      corrections.forEach((correction, index) => {
+        const current = existing[index].exists() ? toFoodCorrection(existing[index].data()) : undefined;
+        transaction.set(
+          refs[index],
+          stripUndefined({ ...applyCorrection(current, correction), updatedAt: Timestamp.fromDate(new Date()) })
+        );
+      });
+    });
+  } catch (error: any) {
+    console.error('[Firestore] Error saving food corrections:', error);
+    throw new Error(error.message || 'Failed to save food corrections');
+  }
+};
+
 export const saveFastingSession = async (uid: string, date: string, session: FastingSession) => {
   try {
     console.log('[Firestore] Saving fasting session for user:', uid, 'date:', date);
@@ -352,6 +997,8 @@ export const saveFastingSession = async (uid: string, date: string, session: Fas
       startTime: Timestamp.fromDate(session.startTime),
       // Explicitly set endTime - if it exists, save it; if not, explicitly set to null
       endTime: session.endTime ? Timestamp.fromDate(session.endTime) : null,
+      version: session.version ?? 1,
+      updatedAt: Timestamp.fromDate(session.updatedAt || new Date()),
     };
     
     if (session.targetDuration !== undefined) {
@@ -507,6 +1154,10 @@ export const addWaterEntry = async (uid: string, date: string, entry: WaterEntry
       workouts: [],
     };
     
+    if ((existingData.waterEntries || []).some((saved: WaterEntry) => saved.id === entry.id)) {
+      return existingData.waterIntake || 0;
+    }
+
     const updatedEntries = [...(existingData.waterEntries || []), {
       ...entry,
       timestamp: Timestamp.fromDate(entry.timestamp),
@@ -702,6 +1353,10 @@ export const addWorkout = async (uid: string, date: string, workout: Workout) =>
       workouts: [],
     };
     
+    if (workout.id && (existingData.workouts || []).some((saved: Workout) => saved.id === workout.id)) {
+      return existingData.workouts;
+    }
+
     // Validate and prepare workout data
     const workoutData = {
       id: workout.id || Date.now().toString(),
@@ -0,0 +1,304 @@
+import { outboxService } from '../outbox';
+import { ApiError } from '../../api/client';
+import { VersionConflictError, toMealBody } from '../../api/health';
+import { Meal, PlannedMeal } from '../../../types';
+
+// AsyncStorage kept in a plain object, so a "restart" (stop, then start
+// again) reads back whatever the outbox persisted
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    getItem: jest.fn(async (key: string) => mockStorage[key] ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      mockStorage[key] = value;
+    }),
+  },
+}));
+
+const mockNetInfo: { listener: ((state: { isConnected: boolean; isInternetReachable: boolean }) => void) | null } = {
+  listener: null,
+};
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: {
+    addEventListener: jest.fn((listener) => {
+      mockNetInfo.listener = listener;
+      return jest.fn();
+    }),
+  },
+}));
+
+let mockUuid = 0;
+jest.mock('expo-crypto', () => ({
+  randomUUID: () => `uuid-${++mockUuid}`,
+}));
+
+const mockHealthRepository = {
+  saveDailyHealthData: jest.fn(),
+  addMeal: jest.fn(),
+  updateMeal: jest.fn(),
+  addWaterEntry: jest.fn(),
+  addWorkout: jest.fn(),
+};
+const mockMealPlanRepository = {
+  markPlannedMealLogged: jest.fn(),
+};
+// The outbox module loads before this file's constants are set
+jest.mock('../../repositories', () => ({
+  get healthRepository() {
+    return mockHealthRepository;
+  },
+  get mealPlanRepository() {
+    return mockMealPlanRepository;
+  },
+}));
+
+const DATE = '2024-03-01';
+const OFFLINE = new Error('Network request failed');
+
+const meal = (changes: Partial<Meal> = {}): Meal => ({
+  id: 'meal-1',
+  type: 'lunch',
+  name: 'Salad',
+  calories: 300,
+  macros: { carbs: 20, protein: 10, fat: 15 },
+  timestamp: new Date('2024-03-01T12:00:00.000Z'),
+  version: 1,
+  ...changes,
+});
+
+const snapshot = (date: string, steps: number) => ({
+  type: 'saveDailyHealthData' as const,
+  body: { date, steps },
+});
+
+const stored = () => JSON.parse(mockStorage.health_outbox);
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+  Object.values(mockHealthRepository).forEach(send => send.mockResolvedValue(undefined));
+  mockMealPlanRepository.markPlannedMealLogged.mockResolvedValue(undefined);
+  await outboxService.start('user-1');
+});
+
+afterEach(() => {
+  outboxService.stop();
+});
+
+describe('outbox', () => {
+  it('keeps queued entries across a restart and replays them in order', async () => {
+    mockHealthRepository.addMeal.mockRejectedValue(OFFLINE);
+    await outboxService.enqueue({ type: 'addMeal', body: toMealBody(DATE, meal({ id: 'meal-1' })) }, 'meal-1');
+    await outboxService.enqueue({
+      type: 'addWaterEntry',
+      body: { date: DATE, entry: { glasses: 1, timestamp: '2024-03-01T08:00:00.000Z' } },
+    });
+    await outboxService.flush();
+
+    expect(stored().entries.map((entry: { type: string }) => entry.type)).toEqual(['addMeal', 'addWaterEntry']);
+    expect(mockHealthRepository.addWaterEntry).not.toHaveBeenCalled();
+
+    outboxService.stop();
+    mockHealthRepository.addMeal.mockResolvedValue(meal());
+    await outboxService.start('user-1');
+    await outboxService.flush();
+
+    const order = [
+      mockHealthRepository.addMeal.mock.invocationCallOrder.at(-1),
+      mockHealthRepository.addWaterEntry.mock.invocationCallOrder.at(-1),
+    ];
+    expect(order[0]).toBeLessThan(order[1]!);
+    expect(mockHealthRepository.addMeal).toHaveBeenLastCalledWith(DATE, expect.objectContaining({ id: 'meal-1' }));
+    expect(outboxService.getStatus().pending).toBe(0);
+    expect(stored().entries).toEqual([]);
+  });
+
+  it('drops the queue of another account', async () => {
+    mockHealthRepository.saveDailyHealthData.mockRejectedValue(OFFLINE);
+    await outboxService.enqueue(snapshot(DATE, 100));
+    await outboxService.flush();
+
+    outboxService.stop();
+    await outboxService.start('user-2');
+
+    expect(outboxService.getStatus().pending).toBe(0);
+  });
+
+  it('keeps only the latest unsent snapshot of a day', async () => {
+    mockHealthRepository.saveDailyHealthData.mockRejectedValue(OFFLINE);
+    await outboxService.enqueue(snapshot(DATE, 100));
+    await outboxService.enqueue(snapshot('2024-03-02', 50));
+    await outboxService.enqueue(snapshot(DATE, 200));
+    await outboxService.flush();
+
+    expect(stored().entries.map((entry: { body: { date: string; steps: number } }) => entry.body)).toEqual([
+      { date: '2024-03-02', steps: 50 },
+      { date: DATE, steps: 200 },
+    ]);
+  });
+
+  it('drops an entry the server rejects and goes on with the next', async () => {
+    mockHealthRepository.addMeal.mockRejectedValue(new ApiError('Validation failed', 400, 'VALIDATION_ERROR', null));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await outboxService.enqueue({ type: 'addMeal', body: toMealBody(DATE, meal()) }, 'meal-1');
+    await outboxService.enqueue(snapshot(DATE, 100));
+    await outboxService.flush();
+
+    expect(mockHealthRepository.saveDailyHealthData).toHaveBeenCalledWith(expect.objectContaining({ steps: 100 }));
+    expect(outboxService.getStatus().pending).toBe(0);
+  });
+
+  it('retries network failures instead of dropping them', async () => {
+    mockHealthRepository.addMeal.mockRejectedValue(new ApiError('Service unavailable', 503, 'UNAVAILABLE', null));
+
+    await outboxService.enqueue({ type: 'addMeal', body: toMealBody(DATE, meal()) }, 'meal-1');
+    await outboxService.flush();
+
+    expect(stored().entries[0]).toMatchObject({ type: 'addMeal', attempts: 1 });
+  });
+
+  it('replays as soon as connectivity comes back', async () => {
+    mockHealthRepository.saveDailyHealthData.mockRejectedValueOnce(OFFLINE);
+    mockNetInfo.listener?.({ isConnected: false, isInternetReachable: false });
+    await outboxService.enqueue(snapshot(DATE, 100));
+    await outboxService.flush();
+    expect(outboxService.getStatus().pending).toBe(1);
+
+    mockNetInfo.listener?.({ isConnected: true, isInternetReachable: true });
+    await outboxService.flush();
+
+    expect(mockHealthRepository.saveDailyHealthData).toHaveBeenCalledTimes(2);
+    expect(outboxService.getStatus().pending).toBe(0);
+  });
+
+  it('sends a meal edit with the version it was based on', async () => {
+    const edited = meal({ calories: 350 });
+    await outboxService.enqueue(
+      { type: 'updateMeal', body: toMealBody(DATE, edited), version: 1, base: toMealBody(DATE, meal()).meal },
+      'meal-1'
+    );
+    await outboxService.flush();
+
+    expect(mockHealthRepository.updateMeal).toHaveBeenCalledWith(
+      DATE,
+      expect.objectContaining({ id: 'meal-1', calories: 350, version: 1 })
+    );
+  });
+
+  it('merges a meal edit into a newer copy from another device', async () => {
+    const other = meal({ name: 'Greek salad', version: 2 });
+    mockHealthRepository.updateMeal
+      .mockRejectedValueOnce(new VersionConflictError('Meal was changed on another device', other))
+      .mockResolvedValueOnce({ ...other, calories: 350, version: 3 });
+
+    await outboxService.enqueue(
+      {
+        type: 'updateMeal',
+        body: toMealBody(DATE, meal({ calories: 350 })),
+        version: 1,
+        base: toMealBody(DATE, meal()).meal,
+      },
+      'meal-1'
+    );
+    await outboxService.flush();
+
+    expect(mockHealthRepository.updateMeal).toHaveBeenCalledTimes(2);
+    expect(mockHealthRepository.updateMeal).toHaveBeenLastCalledWith(
+      DATE,
+      expect.objectContaining({ name: 'Greek salad', calories: 350, version: 2 })
+    );
+    expect(outboxService.getStatus().pending).toBe(0);
+  });
+
+  it('bases a later edit on the version its earlier edit was saved as', async () => {
+    mockHealthRepository.updateMeal.mockResolvedValueOnce(meal({ calories: 350, version: 2 }));
+    await outboxService.enqueue(
+      { type: 'updateMeal', body: toMealBody(DATE, meal({ calories: 350 })), version: 1 },
+      'meal-1'
+    );
+    await outboxService.flush();
+
+    // Local state still holds version 1 until the day is reloaded
+    await outboxService.enqueue(
+      { type: 'updateMeal', body: toMealBody(DATE, meal({ calories: 400 })), version: 1 },
+      'meal-1'
+    );
+    await outboxService.flush();
+
+    expect(mockHealthRepository.updateMeal).toHaveBeenLastCalledWith(
+      DATE,
+      expect.objectContaining({ calories: 400, version: 2 })
+    );
+  });
+
+  it('marks a planned meal logged after its meal is added, and shows it logged until then', async () => {
+    mockHealthRepository.addMeal.mockRejectedValue(OFFLINE);
+    await outboxService.enqueue({ type: 'addMeal', body: toMealBody(DATE, meal()) }, 'meal-1');
+    await outboxService.enqueue({ type: 'markPlannedMealLogged', body: { date: DATE, mealId: 'meal-1' } }, 'plan-1');
+    await outboxService.flush();
+
+    expect(mockMealPlanRepository.markPlannedMealLogged).not.toHaveBeenCalled();
+    const planned: PlannedMeal = {
+      id: 'plan-1',
+      date: DATE,
+      type: 'lunch',
+      name: 'Salad',
+      calories: 300,
+      macros: meal().macros,
+    };
+    expect(outboxService.applyPendingPlans([planned, { ...planned, id: 'plan-2' }])).toEqual([
+      { ...planned, loggedMealId: 'meal-1' },
+      { ...planned, id: 'plan-2' },
+    ]);
+
+    mockHealthRepository.addMeal.mockResolvedValue(meal());
+    await outboxService.flush();
+
+    expect(mockMealPlanRepository.markPlannedMealLogged).toHaveBeenCalledWith('plan-1', 'meal-1');
+    expect(mockMealPlanRepository.markPlannedMealLogged.mock.invocationCallOrder[0]).toBeGreaterThan(
+      mockHealthRepository.addMeal.mock.invocationCallOrder.at(-1)!
+    );
+    expect(outboxService.getStatus().pending).toBe(0);
+  });
+
+  it('overlays a queued workout on the burn the way the server totals it', async () => {
+    mockHealthRepository.addWorkout.mockRejectedValue(OFFLINE);
+    await outboxService.enqueue(
+      {
+        type: 'addWorkout',
+        body: {
+          date: DATE,
+          workout: {
+            name: 'Run',
+            type: 'running',
+            startTime: '2024-03-01T07:00:00.000Z',
+            duration: 30,
+            totalCaloriesBurned: 300,
+          },
+        },
+      },
+      'workout-1'
+    );
+    await outboxService.flush();
+
+    const day = {
+      date: DATE,
+      caloriesConsumed: 0,
+      caloriesBurned: 500,
+      activeEnergyBurned: 500,
+      steps: 0,
+      meals: [],
+      fastingSessions: [],
+      waterIntake: 0,
+      waterEntries: [],
+      workouts: [],
+    };
+    // The device's active energy already counts the run
+    expect(outboxService.applyPending(day).caloriesBurned).toBe(500);
+    const quiet = { ...day, caloriesBurned: 100, activeEnergyBurned: 100 };
+    expect(outboxService.applyPending(quiet).caloriesBurned).toBe(300);
+  });
+});
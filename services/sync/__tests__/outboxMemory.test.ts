@@ -0,0 +1,129 @@
+import { outboxService } from '../outbox';
+import { toMealBody } from '../../api/health';
+import { healthRepository, mealPlanRepository } from '../../repositories';
+import { Meal } from '../../../types';
+
+// The outbox replaying into the in-memory repositories, as the app does with
+// EXPO_PUBLIC_STORAGE_BACKEND=memory, instead of into hand-made mocks
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    getItem: jest.fn(async (key: string) => mockStorage[key] ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      mockStorage[key] = value;
+    }),
+  },
+}));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { addEventListener: jest.fn(() => jest.fn()) },
+}));
+
+let mockUuid = 0;
+jest.mock('expo-crypto', () => ({
+  randomUUID: () => `uuid-${++mockUuid}`,
+}));
+
+jest.mock('../../repositories', () => {
+  const { createMemoryRepositories } = jest.requireActual('../../repositories/memory');
+  const repositories = createMemoryRepositories(() => 'user-1');
+  return { healthRepository: repositories.health, mealPlanRepository: repositories.mealPlan };
+});
+
+const DATE = '2024-03-01';
+
+const meal = (changes: Partial<Meal> = {}): Meal => ({
+  id: 'meal-1',
+  type: 'lunch',
+  name: 'Salad',
+  calories: 300,
+  macros: { carbs: 20, protein: 10, fat: 15 },
+  timestamp: new Date('2024-03-01T12:00:00.000Z'),
+  ...changes,
+});
+
+beforeEach(async () => {
+  await outboxService.start('user-1');
+});
+
+afterEach(() => {
+  outboxService.stop();
+});
+
+describe('outbox against the memory repositories', () => {
+  it('stores a day of queued entries once, with the totals the server would give', async () => {
+    await outboxService.enqueue({ type: 'addMeal', body: toMealBody(DATE, meal()) }, 'meal-1');
+    // A replay of an add already stored, e.g. after a restart mid-flush
+    await outboxService.enqueue({ type: 'addMeal', body: toMealBody(DATE, meal()) }, 'meal-1');
+    await outboxService.enqueue({
+      type: 'addWaterEntry',
+      body: { date: DATE, entry: { glasses: 2, timestamp: '2024-03-01T08:00:00.000Z' } },
+    });
+    await outboxService.enqueue({
+      type: 'addWorkout',
+      body: {
+        date: DATE,
+        workout: {
+          name: 'Run',
+          type: 'running',
+          startTime: '2024-03-01T07:00:00.000Z',
+          duration: 30,
+          totalCaloriesBurned: 300,
+        },
+      },
+    });
+    await outboxService.enqueue({
+      type: 'saveDailyHealthData',
+      body: { date: DATE, steps: 8000, activeEnergyBurned: 450 },
+    });
+    await outboxService.flush();
+
+    const day = await healthRepository.getDailyHealthData(DATE);
+    expect(outboxService.getStatus().pending).toBe(0);
+    expect(day).toMatchObject({ steps: 8000, caloriesConsumed: 300, caloriesBurned: 450, waterIntake: 2 });
+    expect(day!.meals).toHaveLength(1);
+    expect(day!.workouts).toHaveLength(1);
+  });
+
+  it('merges a queued meal edit into an edit another device saved first', async () => {
+    const saved = await healthRepository.addMeal(DATE, meal());
+    await healthRepository.updateMeal(DATE, { ...saved, name: 'Greek salad' });
+
+    await outboxService.enqueue(
+      {
+        type: 'updateMeal',
+        body: toMealBody(DATE, { ...saved, calories: 350 }),
+        version: saved.version,
+        base: toMealBody(DATE, saved).meal,
+      },
+      'meal-1'
+    );
+    await outboxService.flush();
+
+    const day = await healthRepository.getDailyHealthData(DATE);
+    expect(day!.meals[0]).toMatchObject({ name: 'Greek salad', calories: 350, version: 3 });
+  });
+
+  it('marks a planned meal logged once its meal is stored', async () => {
+    const plannedMeal = await mealPlanRepository.createPlannedMeal({
+      date: DATE,
+      type: 'lunch',
+      name: 'Salad',
+      calories: 300,
+      macros: meal().macros,
+    });
+
+    await outboxService.enqueue({ type: 'addMeal', body: toMealBody(DATE, meal({ id: 'meal-2' })) }, 'meal-2');
+    await outboxService.enqueue(
+      { type: 'markPlannedMealLogged', body: { date: DATE, mealId: 'meal-2' } },
+      plannedMeal.id
+    );
+    await outboxService.flush();
+
+    const [stored] = await mealPlanRepository.getPlannedMeals(DATE, DATE);
+    expect(stored.loggedMealId).toBe('meal-2');
+    expect((await healthRepository.getDailyHealthData(DATE))!.meals.map(saved => saved.id)).toContain('meal-2');
+  });
+});
@@ -0,0 +1,394 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import * as api from '../api/generated';
+import { ApiError } from '../api/client';
+import { VersionConflictError, toMeal, toMealBody, toWaterEntry, toWorkout } from '../api/health';
+import { healthRepository, mealPlanRepository } from '../repositories';
+import { DailyHealthData, Meal, PlannedMeal } from '../../types';
+import { withItemTotals } from '../../utils/foods';
+import { mergeMealEdit } from '../../utils/mergeHealthData';
+
+const OUTBOX_KEY = 'health_outbox';
+const INITIAL_RETRY_DELAY = 5000; // ms
+const MAX_RETRY_DELAY = 5 * 60 * 1000; // ms
+
+export type OutboxMutation =
+  | { type: 'saveDailyHealthData'; body: api.SaveDailyHealthDataBody }
+  | { type: 'addMeal'; body: api.AddMealBody }
+  | { type: 'updateMeal'; body: api.AddMealBody; version?: number; base?: api.AddMealBody['meal'] }
+  | { type: 'addWaterEntry'; body: api.AddWaterEntryBody }
+  | { type: 'addWorkout'; body: api.AddWorkoutBody }
+  | { type: 'markPlannedMealLogged'; body: { date: string; mealId: string } };
+
+// For adds the entry id is also the new record's id, which makes replays idempotent.
+// A meal update's entry id is the meal's id; it carries the whole edited meal,
+// the version the edit was based on and the meal as it was before the edit
+// (base), so an edit made meanwhile on another device is merged, not overwritten.
+// Marking a planned meal logged uses the planned meal's id and is queued after
+// the meal's add, so the meal exists before the plan points at it.
+export type OutboxEntry = OutboxMutation & {
+  id: string;
+  queuedAt: string;
+  attempts: number;
+};
+
+export interface OutboxStatus {
+  pending: number;
+  syncing: boolean;
+}
+
+interface StoredOutbox {
+  userId: string;
+  entries: OutboxEntry[];
+}
+
+/**
+ * Network failures, server errors and rate limits are worth retrying. Any
+ * other rejection (e.g. a 400) would fail the same way on every replay.
+ */
+const isRetryable = (error: unknown): boolean => {
+  if (!(error instanceof ApiError)) {
+    return true;
+  }
+  return error.status === 0 || error.status === 401 || error.status === 408 || error.status === 429 || error.status >= 500;
+};
+
+// Entries are stored as API request bodies and replayed through whichever
+// storage backend is configured
+const send = (entry: OutboxEntry): Promise<unknown> => {
+  switch (entry.type) {
+    case 'saveDailyHealthData':
+      return healthRepository.saveDailyHealthData({
+        date: entry.body.date,
+        steps: entry.body.steps,
+        activeEnergyBurned: entry.body.activeEnergyBurned ?? undefined,
+        dietaryEnergyConsumed: entry.body.dietaryEnergyConsumed ?? undefined,
+        heartRate: entry.body.heartRate ?? undefined,
+        restingHeartRate: entry.body.restingHeartRate ?? undefined,
+      });
+    case 'addMeal':
+      return healthRepository.addMeal(entry.body.date, toMeal({ ...entry.body.meal, id: entry.id }));
+    case 'updateMeal':
+      return healthRepository.updateMeal(entry.body.date, {
+        ...toMeal({ ...entry.body.meal, id: entry.id }),
+        version: entry.version,
+      });
+    case 'addWaterEntry':
+      return healthRepository.addWaterEntry(entry.body.date, toWaterEntry({ ...entry.body.entry, id: entry.id }));
+    case 'addWorkout':
+      return healthRepository.addWorkout(entry.body.date, toWorkout({ ...entry.body.workout, id: entry.id }, entry.body.date));
+    case 'markPlannedMealLogged':
+      return mealPlanRepository.markPlannedMealLogged(entry.id, entry.body.mealId);
+  }
+};
+
+/**
+ * Persisted queue of health mutations. Edits are applied to local state right
+ * away and queued here; the queue replays in order, backing off while the
+ * device is offline and retrying as soon as connectivity is back or the app
+ * returns to the foreground.
+ */
+class OutboxService {
+  private userId: string | null = null;
+  private entries: OutboxEntry[] = [];
+  private listeners: ((status: OutboxStatus) => void)[] = [];
+  private flushPromise: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = INITIAL_RETRY_DELAY;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private netInfoUnsubscribe: (() => void) | null = null;
+  private online = true;
+  // Versions the server returned for meals sent from this device, which local
+  // state only learns on its next reload
+  private sentVersions = new Map<string, number>();
+
+  newId(): string {
+    return Crypto.randomUUID();
+  }
+
+  /**
+   * Load the signed-in user's queue and start replaying it. Entries queued
+   * by a different account are discarded.
+   */
+  async start(userId: string): Promise<void> {
+    this.stop();
+    this.userId = userId;
+
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+      const outbox: StoredOutbox | null = stored ? JSON.parse(stored) : null;
+      this.entries = outbox?.userId === userId ? outbox.entries : [];
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+      this.entries = [];
+    }
+
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    this.netInfoUnsubscribe = NetInfo.addEventListener(this.handleConnectivityChange);
+    this.notifyListeners();
+    this.flush();
+  }
+
+  stop() {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.netInfoUnsubscribe?.();
+    this.netInfoUnsubscribe = null;
+    this.online = true;
+    this.clearRetry();
+    this.userId = null;
+    this.entries = [];
+    this.sentVersions.clear();
+    this.notifyListeners();
+  }
+
+  /**
+   * Queue a mutation and try to send it straight away. A daily snapshot
+   * replaces any older snapshot for the same day that has not been sent yet,
+   * and a meal update any older update of the same meal, keeping the version
+   * and base of the first one.
+   */
+  async enqueue(mutation: OutboxMutation, id: string = this.newId()): Promise<OutboxEntry> {
+    const entry = { ...mutation, id, queuedAt: new Date().toISOString(), attempts: 0 } as OutboxEntry;
+
+    if (entry.type === 'saveDailyHealthData') {
+      this.entries = this.entries.filter(
+        (queued) => !(queued.type === 'saveDailyHealthData' && queued.body.date === entry.body.date)
+      );
+    }
+    if (entry.type === 'updateMeal') {
+      const earlier = this.entries.find((queued) => queued.type === 'updateMeal' && queued.id === entry.id);
+      if (earlier?.type === 'updateMeal') {
+        entry.version = earlier.version;
+        entry.base = earlier.base;
+      }
+      this.entries = this.entries.filter(
+        (queued) => !(queued.type === 'updateMeal' && queued.id === entry.id)
+      );
+    }
+    this.entries.push(entry);
+
+    await this.persist();
+    this.notifyListeners();
+    this.flush();
+    return entry;
+  }
+
+  /**
+   * Replay queued mutations in order. Concurrent callers share one replay.
+   */
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.replay().finally(() => {
+        this.flushPromise = null;
+        this.notifyListeners();
+      });
+      this.notifyListeners();
+    }
+    return this.flushPromise;
+  }
+
+  getStatus(): OutboxStatus {
+    return { pending: this.entries.length, syncing: this.flushPromise !== null };
+  }
+
+  /**
+   * Overlay mutations that have not reached the server yet onto a day loaded
+   * from it, so a refresh does not drop or overwrite offline edits.
+   */
+  applyPending(data: DailyHealthData): DailyHealthData {
+    const pending = this.entries.filter((entry) => entry.body.date === data.date);
+    if (pending.length === 0) {
+      return data;
+    }
+
+    const merged: DailyHealthData = {
+      ...data,
+      meals: [...data.meals],
+      waterEntries: [...data.waterEntries],
+      workouts: [...data.workouts],
+    };
+
+    for (const entry of pending) {
+      switch (entry.type) {
+        case 'saveDailyHealthData':
+          merged.steps = entry.body.steps ?? merged.steps;
+          merged.activeEnergyBurned = entry.body.activeEnergyBurned ?? merged.activeEnergyBurned;
+          merged.dietaryEnergyConsumed = entry.body.dietaryEnergyConsumed ?? merged.dietaryEnergyConsumed;
+          merged.heartRate = entry.body.heartRate ?? merged.heartRate;
+          merged.restingHeartRate = entry.body.restingHeartRate ?? merged.restingHeartRate;
+          break;
+        case 'addMeal':
+          if (!merged.meals.some((meal) => meal.id === entry.id)) {
+            merged.meals.push(toMeal({ ...entry.body.meal, id: entry.id }));
+          }
+          break;
+        case 'updateMeal':
+          merged.meals = merged.meals.map((meal) =>
+            meal.id === entry.id ? withItemTotals(toMeal({ ...entry.body.meal, id: entry.id })) : meal
+          );
+          break;
+        case 'addWaterEntry':
+          if (!merged.waterEntries.some((waterEntry) => waterEntry.id === entry.id)) {
+            merged.waterEntries.push(toWaterEntry({ ...entry.body.entry, id: entry.id }));
+          }
+          break;
+        case 'addWorkout':
+          if (!merged.workouts.some((workout) => workout.id === entry.id)) {
+            merged.workouts.push(toWorkout({ ...entry.body.workout, id: entry.id }, data.date));
+          }
+          break;
+      }
+    }
+
+    merged.caloriesConsumed = merged.meals.reduce((sum, meal) => sum + meal.calories, 0);
+    // As the server recomputes it: the device's active energy already includes tracked workouts
+    merged.caloriesBurned = Math.max(
+      merged.workouts.reduce((sum, workout) => sum + workout.totalCaloriesBurned, 0),
+      merged.activeEnergyBurned || 0
+    );
+    merged.waterIntake = merged.waterEntries.reduce((sum, waterEntry) => sum + waterEntry.glasses, 0);
+    return merged;
+  }
+
+  /**
+   * Overlay planned meals marked logged on this device that the server has
+   * not heard of yet, so a reload does not offer to log them again.
+   */
+  applyPendingPlans(plannedMeals: PlannedMeal[]): PlannedMeal[] {
+    return plannedMeals.map((plannedMeal) => {
+      const marked = this.entries.find(
+        (entry) => entry.type === 'markPlannedMealLogged' && entry.id === plannedMeal.id
+      );
+      return marked?.type === 'markPlannedMealLogged'
+        ? { ...plannedMeal, loggedMealId: marked.body.mealId }
+        : plannedMeal;
+    });
+  }
+
+  addListener(callback: (status: OutboxStatus) => void) {
+    this.listeners.push(callback);
+  }
+
+  removeListener(callback: (status: OutboxStatus) => void) {
+    this.listeners = this.listeners.filter(listener => listener !== callback);
+  }
+
+  private async replay(): Promise<void> {
+    this.clearRetry();
+
+    while (this.entries.length > 0 && this.userId) {
+      const entry = this.entries[0];
+
+      try {
+        if (entry.type === 'updateMeal') {
+          entry.version = this.knownVersion(entry.id, entry.version);
+        }
+        const saved = await send(entry);
+        if (entry.type === 'addMeal' || entry.type === 'updateMeal') {
+          this.rememberVersion(entry.id, (saved as Meal | undefined)?.version);
+        }
+      } catch (error) {
+        if (entry.type === 'updateMeal' && error instanceof VersionConflictError) {
+          this.rebase(entry, error.current as Meal);
+          await this.persist();
+          continue;
+        }
+        if (isRetryable(error)) {
+          entry.attempts += 1;
+          await this.persist();
+          this.scheduleRetry();
+          return;
+        }
+        console.error(`[Outbox] Dropping ${entry.type} rejected by the server:`, error);
+      }
+
+      // A newer snapshot may have replaced the entry while it was in flight
+      this.entries = this.entries.filter((queued) => queued !== entry);
+      this.retryDelay = INITIAL_RETRY_DELAY;
+      await this.persist();
+      this.notifyListeners();
+    }
+  }
+
+  /**
+   * After a version conflict: merge the queued edit into the meal as the
+   * server has it now, and base the next attempt on that version
+   */
+  private rebase(entry: Extract<OutboxEntry, { type: 'updateMeal' }>, current: Meal) {
+    const edited = toMeal({ ...entry.body.meal, id: entry.id });
+    const merged = entry.base ? mergeMealEdit(toMeal({ ...entry.base, id: entry.id }), edited, current) : edited;
+
+    entry.body = toMealBody(entry.body.date, merged);
+    entry.base = toMealBody(entry.body.date, current).meal;
+    entry.version = current.version;
+    entry.attempts += 1;
+  }
+
+  private knownVersion(mealId: string, version?: number): number | undefined {
+    const sent = this.sentVersions.get(mealId);
+    return sent !== undefined && (version === undefined || sent > version) ? sent : version;
+  }
+
+  private rememberVersion(mealId: string, version?: number) {
+    if (version !== undefined) {
+      this.sentVersions.set(mealId, version);
+    }
+  }
+
+  private scheduleRetry() {
+    this.clearRetry();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  // Coming back to the foreground is the usual sign connectivity may be back
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (state === 'active' && this.entries.length > 0) {
+      this.retryDelay = INITIAL_RETRY_DELAY;
+      this.flush();
+    }
+  };
+
+  // Connectivity coming back replays straight away instead of waiting out the backoff
+  private handleConnectivityChange = (state: NetInfoState) => {
+    const online = state.isConnected !== false && state.isInternetReachable !== false;
+    const reconnected = online && !this.online;
+    this.online = online;
+
+    if (reconnected && this.entries.length > 0) {
+      this.retryDelay = INITIAL_RETRY_DELAY;
+      this.flush();
+    }
+  };
+
+  private async persist(): Promise<void> {
+    if (!this.userId) return;
+
+    try {
+      const outbox: StoredOutbox = { userId: this.userId, entries: this.entries };
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+    } catch (error) {
+      console.error('Error saving outbox:', error);
+    }
+  }
+
+  private notifyListeners() {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export const outboxService = new OutboxService();
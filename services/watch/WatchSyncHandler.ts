@@ -5,7 +5,7 @@
  */
 
 import { watchConnectivityService } from './WatchConnectivityService';
-import { addWorkout, saveDailyHealthData } from '../storage/firestore';
+import { healthRepository } from '../repositories';
 import { format } from 'date-fns';
 import { Workout } from '../../types';
 
@@ -112,7 +112,7 @@ class WatchSyncHandler {
       });
 
       const date = workout.date;
-      await addWorkout(userId, date, workout);
+      await healthRepository.addWorkout(date, workout);
 
       console.log('[WatchSync] ✅ Workout synced successfully to Firebase:', workout.id);
       console.log('[WatchSync] ===== WORKOUT SYNC COMPLETED =====');
@@ -149,7 +149,7 @@ class WatchSyncHandler {
 
         // Use saveDailyHealthData to save/update
         // Note: This might need adjustment based on the exact structure
-        await saveDailyHealthData(userId, processedData as any);
+        await healthRepository.saveDailyHealthData(processedData);
 
         console.log('[WatchSync] Health data synced successfully:', date);
       }
@@ -1,6 +1,38 @@
+// Enumerations and limits shared with the backend request schemas
+import type {
+  MealType,
+  WorkoutType,
+  ExerciseCategory,
+  HealthRangeBucket,
+  RingsVisibility,
+  ClanPrivacy,
+  ClanRole,
+  ActivityLevel,
+  Gender,
+  GoalKey,
+  Goals,
+  MeasurementKey,
+  FoodSource,
+  NutrientKey,
+  Nutrients,
+  RecognitionImageType,
+} from '../backend/src/shared/domain';
+
+export type {
+  MealType,
+  WorkoutType,
+  ExerciseCategory,
+  ActivityLevel,
+  Gender,
+  NutrientKey,
+  Nutrients,
+  RecognitionImageType,
+};
+
 export interface User {
   uid: string;
   email: string;
+  emailVerified?: boolean;
   profile?: UserProfile;
 }
 
@@ -8,8 +40,18 @@ export interface UserProfile {
   age: number;
   weight: number;
   height: number;
-  activityLevel: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
-  gender: 'male' | 'female' | 'other';
+  activityLevel: ActivityLevel;
+  gender: Gender;
+}
+
+// A signed-in device, as listed by GET /auth/sessions
+export interface DeviceSession {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  current: boolean;
 }
 
 export interface DailyHealthData {
@@ -22,21 +64,50 @@ export interface DailyHealthData {
   restingHeartRate?: number;
   steps: number;
   meals: Meal[];
-  fastingSession?: FastingSession;
+  fastingSessions: FastingSession[]; // sessions overlapping this day
   waterIntake: number; // in glasses (8oz each)
   waterEntries: WaterEntry[];
   workouts: Workout[];
 }
 
+// The device-reported part of a day; consumed and burned totals derive from its entries
+export type DailyMetrics = Pick<DailyHealthData, 'date'> &
+  Partial<Pick<DailyHealthData, 'steps' | 'activeEnergyBurned' | 'dietaryEnergyConsumed' | 'heartRate' | 'restingHeartRate'>>;
+
+export type { HealthRangeBucket };
+
+// One aggregated bucket returned by GET /health/range
+export interface HealthRangeRow {
+  start: string; // yyyy-MM-dd, first day of the bucket
+  days: number; // days with logged data or fasting inside the bucket
+  totalSteps: number;
+  avgSteps: number;
+  totalCaloriesConsumed: number;
+  avgCaloriesConsumed: number;
+  totalCaloriesBurned: number;
+  avgCaloriesBurned: number;
+  totalWaterIntake: number;
+  avgWaterIntake: number;
+  totalWorkoutMinutes: number;
+  avgWorkoutMinutes: number;
+  totalFastingHours: number;
+  avgFastingHours: number;
+}
+
+// version and updatedAt are set once a record is saved on the server; two
+// copies of a record are reconciled by version (see utils/mergeHealthData.ts).
+
 export interface WaterEntry {
   id: string;
   glasses: number;
   timestamp: Date;
+  version?: number;
+  updatedAt?: Date;
 }
 
 export interface Meal {
   id: string;
-  type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  type: MealType;
   name: string;
   calories: number;
   macros: {
@@ -44,7 +115,93 @@ export interface Meal {
     protein: number;
     fat: number;
   };
+  // Fiber, sodium, vitamins...; a nutrient left out was not measured
+  nutrients?: Nutrients;
   timestamp: Date;
+  // A meal with items takes its calories and nutrition from them
+  items?: MealItem[];
+  version?: number;
+  updatedAt?: Date;
+}
+
+// One food of a meal, e.g. 2 × "1 slice" of bread
+export interface MealItem {
+  name: string;
+  quantity: number;
+  unit: string; // g, ml, or a serving name such as "1 cup"
+  calories: number;
+  macros: {
+    carbs: number;
+    protein: number;
+    fat: number;
+  };
+  nutrients?: Nutrients;
+  foodId?: string; // the food database entry it was picked from
+}
+
+// A dish cooked from ingredients into a number of servings. Calories, macros
+// and nutrients are for the whole recipe; utils/recipes.ts gives a serving's share.
+export interface Recipe {
+  id: string;
+  ownerUid: string;
+  ownerName?: string;
+  name: string;
+  servings: number;
+  ingredients: MealItem[];
+  calories: number;
+  macros: {
+    carbs: number;
+    protein: number;
+    fat: number;
+  };
+  nutrients?: Nutrients;
+  // Who besides the owner may read it; a clan includes members who join later
+  sharedWith: {
+    friendUids: string[];
+    clanIds: string[];
+  };
+  version?: number;
+  updatedAt?: Date;
+}
+
+// What the owner edits; totals are added up from the ingredients
+export type RecipeInput = Pick<Recipe, 'name' | 'servings' | 'ingredients'>;
+
+// A friend, or a clan the user is an active member of
+export type RecipeShareTarget = { friendUid: string } | { clanId: string };
+
+// A meal scheduled for a day, counted nowhere until it is logged. Like a
+// meal, a planned meal with items takes its calories and nutrition from them.
+export interface PlannedMeal {
+  id: string;
+  date: string; // yyyy-MM-dd
+  type: MealType;
+  name: string;
+  calories: number;
+  macros: {
+    carbs: number;
+    protein: number;
+    fat: number;
+  };
+  nutrients?: Nutrients;
+  items?: MealItem[];
+  loggedMealId?: string; // the meal it was logged as
+  version?: number;
+  updatedAt?: Date;
+}
+
+// What the user plans; totals are added up from the items when it has any
+export type PlannedMealInput = Pick<
+  PlannedMeal,
+  'date' | 'type' | 'name' | 'calories' | 'macros' | 'nutrients' | 'items'
+>;
+
+// The same food over the planned meals of a few days, added up per unit
+export interface ShoppingListItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  meals: number; // how many planned meals need it
 }
 
 export interface MealSuggestion {
@@ -63,8 +220,8 @@ export interface MealSuggestion {
 export interface FastingSession {
   id: string;
   startTime: Date;
-  endTime?: Date;
-  duration: number;
+  endTime?: Date; // undefined while the fast is active
+  duration: number; // in hours, derived from startTime/endTime
   type: string;
   targetDuration?: number;
   eatingWindow?: {
@@ -72,6 +229,8 @@ export interface FastingSession {
     endHour: number;
     value: string;
   };
+  version?: number;
+  updatedAt?: Date;
 }
 
 export interface HealthMetrics {
@@ -86,7 +245,7 @@ export interface HealthMetrics {
 export interface Exercise {
   id: string;
   name: string;
-  category: 'cardio' | 'strength' | 'flexibility' | 'sports' | 'other';
+  category: ExerciseCategory;
   duration?: number; // in minutes
   sets?: number;
   reps?: number;
@@ -107,7 +266,7 @@ export interface LocationPoint {
 export interface Workout {
   id: string;
   name: string;
-  type: 'cardio' | 'strength' | 'hiit' | 'yoga' | 'pilates' | 'running' | 'cycling' | 'walking' | 'swimming' | 'other';
+  type: WorkoutType;
   exercises: Exercise[];
   startTime: Date;
   endTime?: Date;
@@ -119,10 +278,12 @@ export interface Workout {
   distance?: number; // in meters
   averageSpeed?: number; // m/s
   maxSpeed?: number; // m/s
+  version?: number;
+  updatedAt?: Date;
 }
 
 // Community Types
-export type RingsVisibility = 'public' | 'friends' | 'clan' | 'private';
+export type { RingsVisibility };
 
 export interface UserPrivacy {
   ringsVisibility: RingsVisibility;
@@ -137,6 +298,15 @@ export interface UserStatsSummary {
   ringsUpdatedAt: Date;
 }
 
+// Public profile shown in search results and member lists
+export interface SearchableUser {
+  uid: string;
+  displayName: string;
+  email: string;
+  photoURL: string;
+  usernameLower?: string;
+}
+
 export interface FriendRequest {
   fromUid: string;
   toUid: string;
@@ -151,9 +321,7 @@ export interface Friend {
   ringsShare: boolean;
 }
 
-export type ClanPrivacy = 'inviteOnly' | 'friendsOnly';
-
-export type ClanRole = 'owner' | 'admin' | 'member';
+export type { ClanPrivacy, ClanRole };
 
 export type ClanMemberStatus = 'active' | 'invited';
 
@@ -189,7 +357,8 @@ export type NotificationType =
   | 'CLAN_INVITE'
   | 'CLAN_INVITE_ACCEPTED'
   | 'CLAN_INVITE_REJECTED'
-  | 'CLAN_MEMBER_REMOVED';
+  | 'CLAN_MEMBER_REMOVED'
+  | 'RECIPE_SHARED';
 
 export interface Notification {
   id: string;
@@ -200,6 +369,7 @@ export interface Notification {
     fromUid?: string;
     clanId?: string;
     friendRequestId?: string;
+    recipeId?: string;
   };
   read: boolean;
   createdAt: Date;
@@ -215,6 +385,77 @@ export interface RingStats {
   updatedAt: Date;
 }
 
+export type { GoalKey, Goals };
+
+// Goals set on a day apply from then until the next change
+export interface GoalChange extends Goals {
+  effectiveFrom: string; // yyyy-MM-dd
+}
+
+export type { MeasurementKey };
+
+// Measurements logged on a day; weight in kg, bodyFat in %, the rest in cm.
+// Values not measured that day are left out.
+export type BodyMeasurement = Partial<Record<MeasurementKey, number>> & {
+  date: string; // yyyy-MM-dd
+  updatedAt?: Date;
+};
+
+// null clears a value logged earlier that day
+export type MeasurementChanges = Partial<Record<MeasurementKey, number | null>>;
+
+export type { FoodSource };
+
+// A common portion of a food, e.g. "1 slice" of 30 g
+export interface FoodServing {
+  name: string;
+  grams: number;
+}
+
+// A food of the food database; calories, macros and nutrients are per 100 g
+export interface Food {
+  id: string;
+  source: FoodSource;
+  name: string;
+  brand?: string;
+  barcode?: string;
+  calories: number;
+  macros: {
+    carbs: number;
+    protein: number;
+    fat: number;
+  };
+  nutrients?: Nutrients;
+  servings: FoodServing[];
+}
+
+// A food recognized on a photo; nutrition is for the portion it shows.
+// detectedName is what the recognizer called it, name what the user knows it as.
+export interface RecognizedFood extends MealItem {
+  detectedName: string;
+  detectedCalories: number; // before the correction, if one was applied
+  grams?: number;
+  confidence: number; // 0-1
+  corrected: boolean; // renamed and scaled by one of the user's corrections
+}
+
+// What the user changed a recognized food into, fed back to the recognizer
+export interface FoodCorrection {
+  detectedName: string; // lower case
+  name: string;
+  foodId?: string;
+  portionFactor: number; // the user's portion over the recognized one, averaged
+  count: number;
+}
+
+export interface FoodCorrectionInput {
+  detectedName: string;
+  name: string;
+  detectedCalories: number;
+  calories: number;
+  foodId?: string;
+}
+
 export interface BlockedUser {
   blockedUid: string;
   blockedAt: Date;
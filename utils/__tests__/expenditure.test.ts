@@ -0,0 +1,132 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { BodyMeasurement, UserProfile } from '../../types';
+import { calculateCalorieGoal, calculateTDEE } from '../calculations';
+import { DailyIntake, estimateExpenditure } from '../expenditure';
+
+// BMR 1780 kcal, so days under 890 kcal count as partly logged; the
+// activity-level formula gives 2759 kcal
+const profile: UserProfile = { age: 30, weight: 80, height: 180, gender: 'male', activityLevel: 'moderate' };
+const FORMULA_TDEE = 2759;
+
+// Estimates are as of this day; the 28-day window is 2024-03-01 to 2024-03-28
+const TODAY = '2024-03-29';
+
+/** Every `step` days from `from` up to and including `to` */
+const days = (from: string, to: string, step = 1): string[] => {
+  const dates: string[] = [];
+  for (let day = parseISO(from); format(day, 'yyyy-MM-dd') <= to; day = addDays(day, step)) {
+    dates.push(format(day, 'yyyy-MM-dd'));
+  }
+  return dates;
+};
+
+const intake = (dates: string[], caloriesConsumed: number): DailyIntake[] =>
+  dates.map(date => ({ date, caloriesConsumed }));
+
+const weighIns = (dates: string[], weight: (index: number) => number): BodyMeasurement[] =>
+  dates.map((date, index) => ({ date, weight: weight(index) }));
+
+const WINDOW = days('2024-03-01', '2024-03-28');
+
+describe('estimateExpenditure', () => {
+  it('uses the formula from the activity level', () => {
+    expect(calculateTDEE(profile)).toBe(FORMULA_TDEE);
+  });
+
+  it('learns maintenance from a steady weight at constant intake', () => {
+    const estimate = estimateExpenditure(
+      profile,
+      intake(WINDOW, 2500),
+      weighIns(days('2024-02-01', TODAY), () => 80),
+      TODAY
+    );
+
+    expect(estimate).toEqual({
+      tdee: 2500,
+      formulaTdee: FORMULA_TDEE,
+      adaptiveTdee: 2500,
+      confidence: 1,
+      loggedDays: 28,
+      weeklyWeightChange: 0,
+    });
+    expect(calculateCalorieGoal(estimate.tdee, 'maintain')).toBe(2500);
+    expect(calculateCalorieGoal(estimate.tdee, 'lose')).toBe(1950);
+    expect(calculateCalorieGoal(estimate.tdee, 'gain')).toBe(3050);
+  });
+
+  it('adds the energy of the weight lost to the intake', () => {
+    // Half a kg a week lost eating 2000 kcal: 550 kcal a day more is burned
+    const estimate = estimateExpenditure(
+      profile,
+      intake(WINDOW, 2000),
+      weighIns(days('2024-01-01', TODAY), index => 85 - (index * 0.5) / 7),
+      TODAY
+    );
+
+    expect(estimate.confidence).toBe(1);
+    expect(estimate.weeklyWeightChange).toBeCloseTo(-0.5, 1);
+    expect(Math.abs(estimate.adaptiveTdee! - 2550)).toBeLessThanOrEqual(30);
+    expect(estimate.tdee).toBe(estimate.adaptiveTdee);
+    expect(calculateCalorieGoal(estimate.tdee, 'lose')).toBe(estimate.tdee - 550);
+  });
+
+  it('works from weekly weigh-ins and blends a half-logged window with the formula', () => {
+    const estimate = estimateExpenditure(
+      profile,
+      intake(days('2024-03-01', '2024-03-28', 2), 2500),
+      weighIns(days('2024-03-01', TODAY, 7), () => 80),
+      TODAY
+    );
+
+    expect(estimate.loggedDays).toBe(14);
+    expect(estimate.adaptiveTdee).toBe(2500);
+    expect(estimate.confidence).toBe(0.5);
+    expect(estimate.tdee).toBe(Math.round(FORMULA_TDEE + 0.5 * (2500 - FORMULA_TDEE)));
+  });
+
+  it('falls back to the formula without enough weigh-ins', () => {
+    const single = estimateExpenditure(profile, intake(WINDOW, 2500), [{ date: '2024-03-10', weight: 80 }], TODAY);
+    expect(single).toEqual({ tdee: FORMULA_TDEE, formulaTdee: FORMULA_TDEE, confidence: 0, loggedDays: 28 });
+
+    // Ten days between the first and last weigh-in is under the 14 needed
+    const short = estimateExpenditure(
+      profile,
+      intake(WINDOW, 2500),
+      weighIns(days('2024-03-19', TODAY), () => 80),
+      TODAY
+    );
+    expect(short.adaptiveTdee).toBeUndefined();
+    expect(short.tdee).toBe(FORMULA_TDEE);
+
+    const none = estimateExpenditure(profile, intake(WINDOW, 2500), [], TODAY);
+    expect(none.confidence).toBe(0);
+    expect(calculateCalorieGoal(none.tdee, 'lose')).toBe(FORMULA_TDEE - 550);
+  });
+
+  it('falls back to the formula with fewer logged days than the minimum', () => {
+    const estimate = estimateExpenditure(
+      profile,
+      intake(days('2024-03-20', '2024-03-28'), 2500),
+      weighIns(days('2024-02-01', TODAY), () => 80),
+      TODAY
+    );
+
+    expect(estimate).toEqual({ tdee: FORMULA_TDEE, formulaTdee: FORMULA_TDEE, confidence: 0, loggedDays: 9 });
+  });
+
+  it('leaves out partly logged days, days outside the window and the day itself', () => {
+    const estimate = estimateExpenditure(
+      profile,
+      [
+        ...intake(WINDOW, 2500),
+        { date: '2024-02-20', caloriesConsumed: 2500 },
+        { date: TODAY, caloriesConsumed: 2500 },
+      ].map(day => (day.date === '2024-03-05' ? { ...day, caloriesConsumed: 500 } : day)),
+      weighIns(days('2024-02-01', TODAY), () => 80),
+      TODAY
+    );
+
+    expect(estimate.loggedDays).toBe(27);
+    expect(estimate.adaptiveTdee).toBe(2500);
+  });
+});
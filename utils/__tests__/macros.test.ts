@@ -0,0 +1,21 @@
+import { MACRO_PRESETS, gramsFromSplit, gramsWithProteinPerKg, matchingSettings } from '../macros';
+
+describe('matchingSettings', () => {
+  it('reads back the preset the goals were set from', () => {
+    const goals = gramsFromSplit(2200, MACRO_PRESETS.keto.split);
+    expect(matchingSettings(goals, 2200, 80)).toEqual({ preset: 'keto' });
+  });
+
+  it('reads back protein per kg and the preset that shared out the rest', () => {
+    const goals = gramsWithProteinPerKg(2500, MACRO_PRESETS.balanced.split, 81.3, 1.6);
+    expect(goals.proteinGrams).toBe(130);
+    expect(matchingSettings(goals, 2500, 81.3)).toEqual({ preset: 'balanced', proteinPerKg: 1.6 });
+  });
+
+  it('leaves custom goals, and protein per kg without a weight, as custom', () => {
+    expect(matchingSettings({ carbsGrams: 200, proteinGrams: 150, fatGrams: 60 }, 2000, 80)).toBeNull();
+
+    const goals = gramsWithProteinPerKg(2500, MACRO_PRESETS.highProtein.split, 80, 2);
+    expect(matchingSettings(goals, 2500)).toBeNull();
+  });
+});
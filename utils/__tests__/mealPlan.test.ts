@@ -0,0 +1,100 @@
+import { MealItem, PlannedMeal } from '../../types';
+import { plannedMealToMeal, plannedTotals, shoppingList } from '../mealPlan';
+
+const item = (name: string, quantity: number, unit: string): MealItem => ({
+  name,
+  quantity,
+  unit,
+  calories: 100,
+  macros: { carbs: 10, protein: 5, fat: 3 },
+});
+
+const planned = (id: string, changes: Partial<PlannedMeal> = {}): PlannedMeal => ({
+  id,
+  date: '2024-03-01',
+  type: 'lunch',
+  name: 'Oats',
+  calories: 350,
+  macros: { carbs: 50, protein: 12, fat: 8 },
+  ...changes,
+});
+
+describe('shoppingList', () => {
+  it('adds up the same food over planned meals, whatever its case and spacing', () => {
+    const list = shoppingList([
+      planned('a', { items: [item('Oats', 40, 'g'), item('Milk', 200, 'ml')] }),
+      planned('b', { date: '2024-03-02', items: [item(' oats ', 60, 'g'), item('Banana', 1, '1 medium')] }),
+      planned('c', { date: '2024-03-03', items: [item('OATS', 0.15, 'g')] }),
+    ]);
+
+    expect(list).toEqual([
+      { name: 'Banana', quantity: 1, unit: '1 medium', meals: 1 },
+      { name: 'Milk', quantity: 200, unit: 'ml', meals: 1 },
+      { name: 'Oats', quantity: 100.2, unit: 'g', meals: 3 },
+    ]);
+  });
+
+  it('keeps a food in different units on lines of its own', () => {
+    const list = shoppingList([
+      planned('a', { items: [item('Rice', 150, 'g')] }),
+      planned('b', { items: [item('Rice', 1, '1 cup')] }),
+    ]);
+
+    expect(list).toEqual([
+      { name: 'Rice', quantity: 1, unit: '1 cup', meals: 1 },
+      { name: 'Rice', quantity: 150, unit: 'g', meals: 1 },
+    ]);
+  });
+
+  it('leaves out planned meals already logged', () => {
+    const list = shoppingList([
+      planned('a', { items: [item('Eggs', 2, '1 large egg')], loggedMealId: 'meal-1' }),
+      planned('b', { items: [item('Eggs', 3, '1 large egg')] }),
+    ]);
+
+    expect(list).toEqual([{ name: 'Eggs', quantity: 3, unit: '1 large egg', meals: 1 }]);
+  });
+
+  it('lists a planned meal without items as a serving of itself', () => {
+    const list = shoppingList([
+      planned('a', { name: 'Lasagna' }),
+      planned('b', { name: 'lasagna ', items: [] }),
+      planned('c', { name: 'Soup', items: [item('Soup', 2, 'serving')] }),
+    ]);
+
+    expect(list).toEqual([
+      { name: 'Lasagna', quantity: 2, unit: 'serving', meals: 2 },
+      { name: 'Soup', quantity: 2, unit: 'serving', meals: 1 },
+    ]);
+  });
+});
+
+describe('plannedMealToMeal', () => {
+  it('copies the nutrition and items so the meal does not share them with the plan', () => {
+    const plannedMeal = planned('a', { items: [item('Oats', 40, 'g')], nutrients: { fiber: 4 } });
+    const timestamp = new Date('2024-03-01T12:30:00.000Z');
+    const meal = plannedMealToMeal(plannedMeal, timestamp);
+
+    expect(meal).toEqual({
+      id: 'a',
+      type: 'lunch',
+      name: 'Oats',
+      calories: 350,
+      macros: { carbs: 50, protein: 12, fat: 8 },
+      nutrients: { fiber: 4 },
+      items: [item('Oats', 40, 'g')],
+      timestamp,
+    });
+    expect(meal.macros).not.toBe(plannedMeal.macros);
+    expect(meal.items![0].macros).not.toBe(plannedMeal.items![0].macros);
+  });
+});
+
+describe('plannedTotals', () => {
+  it('adds up a day of planned meals', () => {
+    expect(plannedTotals([planned('a'), planned('b', { calories: 250.25 })])).toEqual({
+      calories: 600.3,
+      macros: { carbs: 100, protein: 24, fat: 16 },
+    });
+  });
+});
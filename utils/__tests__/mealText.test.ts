@@ -0,0 +1,142 @@
+import { mealTextToItems, parseMealText } from '../mealText';
+
+// The grammar alone: quantity, unit, name and side of each food
+const parts = (text: string) =>
+  parseMealText(text).map(({ quantity, unit, name, side }) => ({ quantity, unit, name, side }));
+
+describe('parseMealText', () => {
+  it('reads numbers, number words and amounts after the food', () => {
+    expect(parts('2 eggs, three pancakes; bacon x2\ncoffee (2)')).toEqual([
+      { quantity: 2, unit: undefined, name: 'eggs', side: false },
+      { quantity: 3, unit: undefined, name: 'pancakes', side: false },
+      { quantity: 2, unit: undefined, name: 'bacon', side: false },
+      { quantity: 2, unit: undefined, name: 'coffee', side: false },
+    ]);
+    expect(parts('a dozen eggs')).toEqual([{ quantity: 12, unit: undefined, name: 'eggs', side: false }]);
+    expect(parts('a couple of sausages')).toEqual([{ quantity: 2, unit: undefined, name: 'sausages', side: false }]);
+  });
+
+  it('reads units, glued or spelled out, and plurals', () => {
+    expect(parts('150g chicken, 2 tablespoons of peanut butter, 1.5 cups rice, coffee 2 mugs')).toEqual([
+      { quantity: 150, unit: 'g', name: 'chicken', side: false },
+      { quantity: 2, unit: 'tbsp', name: 'peanut butter', side: false },
+      { quantity: 1.5, unit: 'cup', name: 'rice', side: false },
+      { quantity: 2, unit: 'mug', name: 'coffee', side: false },
+    ]);
+  });
+
+  it('keeps a unit word that is the whole food as its name', () => {
+    expect(parts('a can')).toEqual([{ quantity: 1, unit: undefined, name: 'can', side: false }]);
+  });
+
+  it('reads fractions, mixed numbers and "and a half"', () => {
+    const text = '1/2 cup oats, 1 1/2 cups milk, ¾ cup granola, one and a half bagels';
+    expect(parts(text).map(part => part.quantity)).toEqual([0.5, 1.5, 0.75, 1.5]);
+  });
+
+  it('drops a part whose fraction is over zero', () => {
+    expect(parts('3/0 eggs, 1 3/0 cups milk, toast')).toEqual([
+      { quantity: 1, unit: undefined, name: 'toast', side: false },
+    ]);
+  });
+
+  it('reads "a" and "an" as one', () => {
+    expect(parts('a banana and an apple')).toEqual([
+      { quantity: 1, unit: undefined, name: 'banana', side: false },
+      { quantity: 1, unit: undefined, name: 'apple', side: false },
+    ]);
+  });
+
+  it('reads "half" and "quarter" before what they divide', () => {
+    const text = 'half a cup of rice, half an avocado, a half cup oats, half of the pizza, quarter cup of milk';
+    expect(parts(text)).toEqual([
+      { quantity: 0.5, unit: 'cup', name: 'rice', side: false },
+      { quantity: 0.5, unit: undefined, name: 'avocado', side: false },
+      { quantity: 0.5, unit: 'cup', name: 'oats', side: false },
+      { quantity: 0.5, unit: undefined, name: 'pizza', side: false },
+      { quantity: 0.25, unit: 'cup', name: 'milk', side: false },
+    ]);
+    expect(parts('half a dozen eggs')).toEqual([{ quantity: 6, unit: undefined, name: 'eggs', side: false }]);
+  });
+
+  it('keeps "half" and "quarter" in a name when nothing follows to divide', () => {
+    expect(parts('a quarter pounder, quarter pounder, half moon cookie')).toEqual([
+      { quantity: 1, unit: undefined, name: 'quarter pounder', side: false },
+      { quantity: 1, unit: undefined, name: 'quarter pounder', side: false },
+      { quantity: 1, unit: undefined, name: 'half moon cookie', side: false },
+    ]);
+  });
+
+  it('marks foods after "with" as sides up to the next comma', () => {
+    expect(parts('toast with butter and jam, tea')).toEqual([
+      { quantity: 1, unit: undefined, name: 'toast', side: false },
+      { quantity: 1, unit: undefined, name: 'butter', side: true },
+      { quantity: 1, unit: undefined, name: 'jam', side: true },
+      { quantity: 1, unit: undefined, name: 'tea', side: false },
+    ]);
+  });
+
+  it('ends the sides at a food counted anew', () => {
+    expect(parts('2 eggs, 1 slice toast with butter and a black coffee')).toEqual([
+      { quantity: 2, unit: undefined, name: 'eggs', side: false },
+      { quantity: 1, unit: 'slice', name: 'toast', side: false },
+      { quantity: 1, unit: undefined, name: 'butter', side: true },
+      { quantity: 1, unit: undefined, name: 'black coffee', side: false },
+    ]);
+    expect(parts('pasta with cheese and 2 meatballs').map(part => part.side)).toEqual([false, true, false]);
+  });
+
+  it('keeps names that contain a separator together', () => {
+    expect(parts('mac and cheese').length).toBe(2);
+    expect(parseMealText('mac and cheese with peas', ['mac and cheese']).map(part => part.name)).toEqual([
+      'mac and cheese',
+      'peas',
+    ]);
+  });
+});
+
+describe('mealTextToItems', () => {
+  it('weighs common foods, with the smaller side serving after "with"', () => {
+    const [eggs, toast, butter, coffee] = mealTextToItems('2 eggs, 1 slice toast with butter and a black coffee');
+
+    expect(eggs).toMatchObject({ source: 'table', item: { name: 'Egg', quantity: 2, unit: '1 large egg' } });
+    expect(toast).toMatchObject({ source: 'table', item: { name: 'Toast', quantity: 1, unit: '1 slice' } });
+    expect(butter).toMatchObject({ source: 'table', item: { name: 'Butter', quantity: 1, unit: '1 tsp' } });
+    expect(coffee.part.side).toBe(false);
+  });
+
+  it('converts weights to grams', () => {
+    const [butter] = mealTextToItems('1 oz butter');
+    expect(butter.item).toMatchObject({ name: 'Butter', quantity: 28.4, unit: 'g' });
+  });
+
+  it('takes a meal logged before by name, per serving', () => {
+    const [entry] = mealTextToItems('2 servings of grandma stew', [
+      {
+        id: 'stew',
+        type: 'dinner',
+        name: 'Grandma stew',
+        calories: 400,
+        macros: { carbs: 30, protein: 25, fat: 18 },
+      },
+    ]);
+    expect(entry).toMatchObject({
+      source: 'history',
+      item: {
+        name: 'Grandma stew',
+        quantity: 2,
+        unit: 'serving',
+        calories: 800,
+        macros: { carbs: 60, protein: 50, fat: 36 },
+      },
+    });
+  });
+
+  it('leaves foods it does not know at zero calories', () => {
+    const [entry] = mealTextToItems('300g mystery casserole');
+    expect(entry).toMatchObject({
+      source: null,
+      item: { name: 'Mystery casserole', quantity: 300, unit: 'g', calories: 0 },
+    });
+  });
+});
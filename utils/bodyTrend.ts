@@ -0,0 +1,55 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { BodyMeasurement } from '../types';
+
+// Trend weight smooths out the day-to-day swings of water and food: each
+// weigh-in moves the trend a tenth of the way towards it (an exponentially
+// weighted moving average). Days without a weigh-in count as steps too, so a
+// weigh-in after a gap moves the trend further.
+export const WEIGHT_TREND_SMOOTHING = 0.1;
+
+export interface WeightTrendPoint {
+  date: string; // yyyy-MM-dd
+  weight: number;
+  trend: number;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/** Weigh-ins with the trend weight on their day; measurements must be oldest first */
+export const weightTrend = (measurements: BodyMeasurement[]): WeightTrendPoint[] => {
+  const points: WeightTrendPoint[] = [];
+  let trend = 0;
+
+  for (const { date, weight } of measurements) {
+    if (weight === undefined) continue;
+
+    const previous = points[points.length - 1];
+    if (!previous) {
+      trend = weight;
+    } else {
+      const days = Math.max(differenceInCalendarDays(parseISO(date), parseISO(previous.date)), 1);
+      trend += (1 - (1 - WEIGHT_TREND_SMOOTHING) ** days) * (weight - trend);
+    }
+    points.push({ date, weight, trend: round(trend) });
+  }
+
+  return points;
+};
+
+/**
+ * Trend weight as of a day (yyyy-MM-dd): that of the last weigh-in on or
+ * before it, or the first weigh-in for days before the log starts. Undefined
+ * when no weight was ever logged.
+ */
+export const weightOn = (measurements: BodyMeasurement[], date: string): number | undefined => {
+  const points = weightTrend(measurements);
+  const before = points.filter(point => point.date <= date);
+  return (before[before.length - 1] ?? points[0])?.trend;
+};
+
+/** The last weight actually logged on or before a day (yyyy-MM-dd), unsmoothed */
+export const latestWeighIn = (measurements: BodyMeasurement[], date: string): number | undefined =>
+  [...measurements]
+    .filter(measurement => measurement.date <= date && measurement.weight !== undefined)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .pop()?.weight;
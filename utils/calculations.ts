@@ -28,14 +28,16 @@ export const calculateTDEE = (profile: UserProfile): number => {
   return Math.round(bmr * activityMultipliers[profile.activityLevel]);
 };
 
+// Energy stored in a kg of body weight
+export const CALORIES_PER_KG = 7700;
+
 // Calculate calories for weight loss/gain
 export const calculateCalorieGoal = (
   tdee: number,
   goal: 'lose' | 'maintain' | 'gain',
   weeklyChange: number = 0.5 // kg per week
 ): number => {
-  const calorieDeficitPerKg = 7700; // calories per kg
-  const dailyDeficit = (weeklyChange * calorieDeficitPerKg) / 7;
+  const dailyDeficit = (weeklyChange * CALORIES_PER_KG) / 7;
   
   if (goal === 'lose') {
     return Math.round(tdee - dailyDeficit);
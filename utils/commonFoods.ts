@@ -0,0 +1,177 @@
+import { Food, FoodServing } from '../types';
+import type { MealTextUnit } from './mealText';
+
+// Everyday foods for meals typed as text (utils/mealText.ts), so the common
+// cases work without a search. Values per 100 g, rounded from USDA
+// FoodData Central; anything more specific is in the food database.
+
+export interface CommonFood extends Pick<Food, 'name' | 'calories' | 'macros'> {
+  aliases: string[]; // other names, matched like the name
+  serving: FoodServing; // what one of it is, e.g. "1 large egg"
+  side?: FoodServing; // how much comes with another food, e.g. butter on toast
+  units?: Partial<Record<MealTextUnit, number>>; // grams per unit, where water's weight is wrong
+}
+
+const food = (
+  name: string,
+  aliases: string[],
+  [calories, carbs, protein, fat]: [number, number, number, number],
+  serving: [string, number],
+  extra: { side?: [string, number]; units?: CommonFood['units'] } = {}
+): CommonFood => ({
+  name,
+  aliases,
+  calories,
+  macros: { carbs, protein, fat },
+  serving: { name: serving[0], grams: serving[1] },
+  side: extra.side && { name: extra.side[0], grams: extra.side[1] },
+  units: extra.units,
+});
+
+export const COMMON_FOODS: CommonFood[] = [
+  // Breakfast
+  food('Egg', ['boiled egg', 'fried egg', 'scrambled egg', 'poached egg'], [143, 0.7, 12.6, 9.5], ['1 large egg', 50]),
+  food('Toast', ['white toast', 'bread', 'white bread'], [293, 54, 9, 4], ['1 slice', 30], { units: { slice: 30 } }),
+  food(
+    'Whole wheat toast',
+    ['whole wheat bread', 'wholemeal bread', 'brown bread', 'brown toast'],
+    [252, 43, 12.5, 3.5],
+    ['1 slice', 32],
+    { units: { slice: 32 } }
+  ),
+  food('Bagel', [], [250, 49, 10, 1.5], ['1 bagel', 105]),
+  food('Croissant', [], [406, 46, 8.2, 21], ['1 croissant', 57]),
+  food('Muffin', ['blueberry muffin'], [377, 54, 4.5, 16], ['1 muffin', 113]),
+  food('Pancake', [], [227, 28, 6.4, 9.7], ['1 pancake', 77]),
+  food('Oatmeal', ['porridge', 'cooked oats'], [71, 12, 2.5, 1.5], ['1 cup', 234], { units: { cup: 234, bowl: 234 } }),
+  food('Oats', ['rolled oats', 'dry oats'], [389, 66, 17, 7], ['1/2 cup', 40], { units: { cup: 80 } }),
+  food('Corn flakes', ['cereal', 'cornflakes'], [357, 84, 7.5, 0.4], ['1 cup', 28], { units: { cup: 28, bowl: 40 } }),
+  food('Granola', ['muesli'], [471, 64, 10, 20], ['1/2 cup', 60], { units: { cup: 120, bowl: 60 } }),
+  food('Bacon', [], [541, 1.4, 37, 42], ['1 slice', 8], { units: { slice: 8 } }),
+  food('Sausage', [], [325, 1.4, 18.5, 27], ['1 sausage', 45], { units: { link: 45 } }),
+
+  // Spreads, toppings and dressings
+  food('Butter', [], [717, 0.1, 0.9, 81], ['1 tbsp', 14], { side: ['1 tsp', 5], units: { tbsp: 14, tsp: 5, pat: 5 } }),
+  food('Cream cheese', [], [350, 5.5, 6.2, 34], ['2 tbsp', 29], { side: ['1 tbsp', 15], units: { tbsp: 15 } }),
+  food('Peanut butter', [], [588, 20, 25, 50], ['2 tbsp', 32], { side: ['1 tbsp', 16], units: { tbsp: 16, tsp: 5 } }),
+  food('Jam', ['jelly', 'marmalade'], [278, 69, 0.4, 0.1], ['1 tbsp', 20], { units: { tbsp: 20, tsp: 7 } }),
+  food('Honey', [], [304, 82, 0.3, 0], ['1 tbsp', 21], { side: ['1 tsp', 7], units: { tbsp: 21, tsp: 7 } }),
+  food('Maple syrup', ['syrup'], [260, 67, 0, 0.1], ['2 tbsp', 40], { units: { tbsp: 20, tsp: 7 } }),
+  food('Sugar', [], [387, 100, 0, 0], ['1 tsp', 4], { units: { tbsp: 12.5, tsp: 4, cup: 200 } }),
+  food('Olive oil', ['oil'], [884, 0, 0, 100], ['1 tbsp', 13.5], { units: { tbsp: 13.5, tsp: 4.5 } }),
+  food('Mayonnaise', ['mayo'], [680, 0.6, 1, 75], ['1 tbsp', 14], { units: { tbsp: 14, tsp: 5 } }),
+  food('Ketchup', [], [101, 27, 1, 0.1], ['1 tbsp', 17], { units: { tbsp: 17, tsp: 6 } }),
+  food('Hummus', [], [166, 14.3, 7.9, 9.6], ['2 tbsp', 30], { units: { tbsp: 15 } }),
+  food('Cheese', ['cheddar', 'cheddar cheese'], [403, 1.3, 24.9, 33.1], ['1 slice', 28], { units: { slice: 28 } }),
+
+  // Drinks
+  food('Black coffee', ['coffee', 'americano', 'filter coffee'], [2, 0, 0.3, 0], ['1 cup', 240]),
+  food('Espresso', [], [9, 1.7, 0.1, 0.2], ['1 shot', 30], { units: { shot: 30 } }),
+  food('Latte', ['cafe latte', 'cappuccino', 'flat white'], [51, 4.9, 3.3, 2], ['1 cup', 355]),
+  food('Tea', ['black tea', 'green tea'], [1, 0.3, 0, 0], ['1 cup', 240]),
+  food('Milk', ['whole milk'], [61, 4.8, 3.2, 3.3], ['1 cup', 244], { side: ['1 splash', 30] }),
+  food('Half and half', ['cream', 'coffee cream'], [131, 4.3, 3.1, 11.5], ['1 tbsp', 15], { units: { tbsp: 15 } }),
+  food('Orange juice', ['juice', 'oj'], [45, 10.4, 0.7, 0.2], ['1 cup', 248]),
+  food('Cola', ['coke', 'soda', 'soft drink'], [42, 10.6, 0, 0], ['1 can', 355]),
+  food('Beer', [], [43, 3.6, 0.5, 0], ['1 can', 355], { units: { bottle: 355, pint: 473, glass: 355 } }),
+  food('Wine', ['red wine', 'white wine'], [85, 2.6, 0.1, 0], ['1 glass', 150], { units: { glass: 150, bottle: 750 } }),
+  food('Water', [], [0, 0, 0, 0], ['1 glass', 250]),
+  food('Protein shake', ['protein powder', 'whey', 'whey protein'], [400, 8, 78, 6], ['1 scoop', 30], {
+    units: { scoop: 30 },
+  }),
+
+  // Fruit and vegetables
+  food('Banana', [], [89, 22.8, 1.1, 0.3], ['1 medium banana', 118]),
+  food('Apple', [], [52, 13.8, 0.3, 0.2], ['1 medium apple', 182]),
+  food('Orange', [], [47, 11.8, 0.9, 0.1], ['1 orange', 131]),
+  food('Strawberries', [], [32, 7.7, 0.7, 0.3], ['1 cup', 152], { units: { cup: 152, handful: 75 } }),
+  food('Blueberries', ['berries'], [57, 14.5, 0.7, 0.3], ['1 cup', 148], { units: { cup: 148, handful: 70 } }),
+  food('Grapes', [], [69, 18.1, 0.7, 0.2], ['1 cup', 151], { units: { cup: 151, handful: 75 } }),
+  food('Avocado', [], [160, 8.5, 2, 14.7], ['1 avocado', 150]),
+  food('Tomato', [], [18, 3.9, 0.9, 0.2], ['1 medium tomato', 123]),
+  food('Carrot', [], [41, 9.6, 0.9, 0.2], ['1 medium carrot', 61]),
+  food('Broccoli', [], [35, 7.2, 2.4, 0.4], ['1 cup', 156], { units: { cup: 156 } }),
+  food('Salad', ['green salad', 'side salad', 'mixed greens'], [17, 3.3, 1.5, 0.2], ['1 bowl', 85], {
+    units: { bowl: 85, cup: 35 },
+  }),
+  food('Potato', ['baked potato', 'boiled potato'], [93, 21, 2.5, 0.1], ['1 medium potato', 173]),
+  food('French fries', ['fries', 'chips'], [312, 41, 3.4, 15], ['1 medium serving', 117]),
+
+  // Mains and sides
+  food('Chicken breast', ['chicken', 'grilled chicken'], [165, 0, 31, 3.6], ['1 breast', 120]),
+  food('Salmon', [], [206, 0, 22, 12], ['1 fillet', 154]),
+  food('Tuna', ['canned tuna'], [116, 0, 25.5, 0.8], ['1 can', 165], { units: { can: 165 } }),
+  food('Steak', ['beef steak'], [271, 0, 25, 19], ['1 steak', 221]),
+  food('Ground beef', ['minced beef', 'beef mince', 'burger patty'], [250, 0, 26, 15], ['1 patty', 85]),
+  food('Hamburger', ['burger'], [254, 30, 13, 9.5], ['1 burger', 110]),
+  food('Pizza', ['cheese pizza'], [266, 33, 11, 10], ['1 slice', 107], { units: { slice: 107 } }),
+  food('Sandwich', ['ham sandwich', 'ham and cheese sandwich'], [241, 23, 14, 10], ['1 sandwich', 150]),
+  food('Rice', ['white rice', 'cooked rice'], [130, 28, 2.7, 0.3], ['1 cup', 158], { units: { cup: 158, bowl: 200 } }),
+  food('Brown rice', [], [123, 25.6, 2.7, 1], ['1 cup', 195], { units: { cup: 195, bowl: 200 } }),
+  food('Pasta', ['spaghetti', 'penne', 'noodles'], [158, 31, 5.8, 0.9], ['1 cup', 140], {
+    units: { cup: 140, bowl: 250, plate: 250 },
+  }),
+  food('Mac and cheese', ['macaroni and cheese'], [164, 20, 6.5, 6.5], ['1 cup', 200], {
+    units: { cup: 200, bowl: 250 },
+  }),
+  food('Tofu', [], [144, 2.8, 17.3, 8.7], ['1 serving', 100]),
+  food('Lentils', [], [116, 20, 9, 0.4], ['1 cup', 198], { units: { cup: 198 } }),
+  food('Black beans', ['beans'], [132, 23.7, 8.9, 0.5], ['1 cup', 172], { units: { cup: 172 } }),
+  food('Vegetable soup', ['soup'], [30, 5, 1, 0.7], ['1 bowl', 250]),
+
+  // Snacks
+  food('Greek yogurt', ['greek yoghurt'], [59, 3.6, 10.2, 0.4], ['1 container', 170], { units: { cup: 245 } }),
+  food('Yogurt', ['yoghurt', 'plain yogurt'], [61, 4.7, 3.5, 3.3], ['1 cup', 245], { units: { cup: 245 } }),
+  food('Almonds', ['nuts'], [579, 21.6, 21.2, 49.9], ['1 handful', 28], { units: { handful: 28, cup: 143 } }),
+  food('Chocolate', ['milk chocolate', 'chocolate bar'], [535, 59, 7.7, 30], ['1 bar', 44], {
+    units: { bar: 44, square: 7 },
+  }),
+  food('Cookie', ['chocolate chip cookie', 'biscuit'], [488, 64, 5.4, 24], ['1 cookie', 16]),
+];
+
+// Words of a name compared without plurals or the y/ie of their endings, so
+// "eggs" finds "Egg", "berries" "berry" and "cookies" "cookie"
+const stem = (word: string): string => {
+  let stemmed = word;
+  if (stemmed.length > 4 && stemmed.endsWith('ies')) stemmed = stemmed.slice(0, -2);
+  else if (/(?:ch|sh|ss|x|o)es$/.test(stemmed)) stemmed = stemmed.slice(0, -2);
+  else if (stemmed.length > 3 && stemmed.endsWith('s') && !stemmed.endsWith('ss')) stemmed = stemmed.slice(0, -1);
+  return stemmed.length > 3 ? stemmed.replace(/(?:ie|y)$/, 'i') : stemmed;
+};
+
+export const nameWords = (name: string): string[] =>
+  name
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map(stem);
+
+// Whether needle appears in words as consecutive words
+const containsWords = (words: string[], needle: string[]): boolean =>
+  needle.length > 0 &&
+  words.some((_, start) => needle.every((word, offset) => words[start + offset] === word));
+
+/**
+ * The common food a name refers to: the one whose name or alias appears in
+ * it with the most words, so "scrambled eggs" is an egg and "peanut butter"
+ * is not butter
+ */
+export const findCommonFood = (name: string): CommonFood | undefined => {
+  const words = nameWords(name);
+  let best: { food: CommonFood; length: number } | undefined;
+
+  for (const candidate of COMMON_FOODS) {
+    for (const alias of [candidate.name, ...candidate.aliases]) {
+      const aliasWords = nameWords(alias);
+      if (aliasWords.length > (best?.length ?? 0) && containsWords(words, aliasWords)) {
+        best = { food: candidate, length: aliasWords.length };
+      }
+    }
+  }
+  return best?.food;
+};
+
+/** Names with a word that separates foods in typed meals, e.g. "mac and cheese" */
+export const COMMON_FOOD_PHRASES = COMMON_FOODS.flatMap(({ name, aliases }) => [name, ...aliases]).filter(name =>
+  /\b(?:and|with|plus)\b/i.test(name)
+);
@@ -0,0 +1,75 @@
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import { BodyMeasurement, DailyHealthData, UserProfile } from '../types';
+import { CALORIES_PER_KG, calculateBMR, calculateTDEE } from './calculations';
+import { weightTrend } from './bodyTrend';
+
+// Maintenance calories learned from the user's own logs: over a rolling
+// window, whatever was eaten and not stored as a change in trend weight was
+// burned. The estimate is blended with the activity-level formula by how much
+// of the window is covered, so a sparse log leans on the formula.
+export const EXPENDITURE_WINDOW_DAYS = 28;
+// Below these the logs say too little to use at all
+export const MIN_LOGGED_DAYS = 10;
+export const MIN_WEIGH_IN_SPAN_DAYS = 14;
+
+export type DailyIntake = Pick<DailyHealthData, 'date' | 'caloriesConsumed'>;
+
+export interface ExpenditureEstimate {
+  tdee: number; // the estimate to plan with
+  formulaTdee: number; // from the profile's activity level (calculateTDEE)
+  adaptiveTdee?: number; // from intake and weight change, when the logs allow
+  confidence: number; // 0-1, the share of the estimate taken from the logs
+  loggedDays: number; // days in the window with their intake logged
+  weeklyWeightChange?: number; // kg per week, from the trend weight
+}
+
+/**
+ * Estimate maintenance calories as of a day (yyyy-MM-dd) from the intake of
+ * the window before it and the trend weight over the same days. The profile
+ * weight is used as given.
+ * Days with less than half the BMR logged count as partly logged and are
+ * left out; intake and measurements may be in any order.
+ */
+export const estimateExpenditure = (
+  profile: UserProfile,
+  intake: DailyIntake[],
+  measurements: BodyMeasurement[],
+  date: string
+): ExpenditureEstimate => {
+  const formulaTdee = calculateTDEE(profile);
+  // The day itself is still being logged
+  const start = format(subDays(parseISO(date), EXPENDITURE_WINDOW_DAYS), 'yyyy-MM-dd');
+  const minIntake = calculateBMR(profile) / 2;
+
+  const logged = intake.filter(day => day.date >= start && day.date < date && day.caloriesConsumed >= minIntake);
+  const formulaOnly = { tdee: formulaTdee, formulaTdee, confidence: 0, loggedDays: logged.length };
+
+  // Trend weight from the last weigh-in the window starts with to the latest
+  const points = weightTrend([...measurements].sort((a, b) => a.date.localeCompare(b.date)));
+  const upToDate = points.filter(point => point.date <= date);
+  const first = [...upToDate].reverse().find(point => point.date <= start) ?? upToDate[0];
+  const last = upToDate[upToDate.length - 1];
+  const span = first && last ? differenceInCalendarDays(parseISO(last.date), parseISO(first.date)) : 0;
+
+  if (logged.length < MIN_LOGGED_DAYS || span < MIN_WEIGH_IN_SPAN_DAYS) {
+    return formulaOnly;
+  }
+
+  const averageIntake = logged.reduce((sum, day) => sum + day.caloriesConsumed, 0) / logged.length;
+  const dailyWeightChange = (last.trend - first.trend) / span;
+  const adaptiveTdee = Math.round(averageIntake - dailyWeightChange * CALORIES_PER_KG);
+
+  const confidence =
+    Math.round(
+      Math.min(logged.length / EXPENDITURE_WINDOW_DAYS, span / EXPENDITURE_WINDOW_DAYS, 1) * 100
+    ) / 100;
+
+  return {
+    tdee: Math.round(formulaTdee + confidence * (adaptiveTdee - formulaTdee)),
+    formulaTdee,
+    adaptiveTdee,
+    confidence,
+    loggedDays: logged.length,
+    weeklyWeightChange: Math.round(dailyWeightChange * 7 * 100) / 100,
+  };
+};
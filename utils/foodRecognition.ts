@@ -0,0 +1,53 @@
+import { RECOGNITION_LIMITS } from '../backend/src/shared/domain';
+import { FoodCorrection, FoodCorrectionInput, MealItem, RecognizedFood } from '../types';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Corrections are matched on the recognizer's name, case and spacing aside */
+export const correctionKey = (detectedName: string) => detectedName.trim().toLowerCase();
+
+/**
+ * The correction after the user changed a recognized food once more: the
+ * latest name and food, and the portion averaged over every correction.
+ * Mirrors FoodRecognitionService.saveCorrections on the server.
+ */
+export const applyCorrection = (existing: FoodCorrection | undefined, input: FoodCorrectionInput): FoodCorrection => {
+  const factor =
+    input.detectedCalories > 0
+      ? Math.min(
+          Math.max(input.calories / input.detectedCalories, 1 / RECOGNITION_LIMITS.portionFactor),
+          RECOGNITION_LIMITS.portionFactor
+        )
+      : 1;
+  const count = existing?.count ?? 0;
+
+  return {
+    detectedName: correctionKey(input.detectedName),
+    name: input.name,
+    foodId: input.foodId,
+    portionFactor: round(((existing?.portionFactor ?? 0) * count + factor) / (count + 1)),
+    count: count + 1,
+  };
+};
+
+/**
+ * Corrections for the recognized foods the user changed before logging them:
+ * renamed, picked from the food database instead, or logged in another
+ * amount. Foods logged as recognized teach nothing.
+ */
+export const correctionsFor = (recognized: RecognizedFood[], logged: MealItem[]): FoodCorrectionInput[] =>
+  recognized.flatMap((food, index) => {
+    const item = logged[index];
+    if (!item || (item.name === food.name && item.calories === food.calories && item.foodId === food.foodId)) {
+      return [];
+    }
+    return [
+      {
+        detectedName: food.detectedName,
+        name: item.name,
+        detectedCalories: food.detectedCalories,
+        calories: item.calories,
+        foodId: item.foodId,
+      },
+    ];
+  });
@@ -0,0 +1,87 @@
+import { Food, FoodServing, Meal, MealItem } from '../types';
+import { scaleNutrients, sumNutrients } from './nutrients';
+
+// A quantity of a food: a number of one of its servings, or grams when no
+// serving is picked
+export interface FoodPortion {
+  food: Food;
+  quantity: number;
+  serving?: FoodServing;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const portionGrams = ({ quantity, serving }: FoodPortion): number => quantity * (serving?.grams ?? 1);
+
+/** Calories, macros and nutrients of an amount of a food, from its values per 100 g */
+export const gramsNutrition = (
+  food: Pick<Food, 'calories' | 'macros' | 'nutrients'>,
+  grams: number
+): Pick<Meal, 'calories' | 'macros' | 'nutrients'> => {
+  const factor = grams / 100;
+  const { calories, macros, nutrients } = food;
+
+  return {
+    calories: Math.round(calories * factor),
+    macros: {
+      carbs: round(macros.carbs * factor),
+      protein: round(macros.protein * factor),
+      fat: round(macros.fat * factor),
+    },
+    nutrients: scaleNutrients(nutrients, factor),
+  };
+};
+
+/** Calories, macros and nutrients of a portion */
+export const portionNutrition = (portion: FoodPortion): Pick<Meal, 'calories' | 'macros' | 'nutrients'> =>
+  gramsNutrition(portion.food, portionGrams(portion));
+
+/** A portion as an item of a meal */
+export const portionToItem = (portion: FoodPortion): MealItem => ({
+  name: portion.food.name,
+  quantity: portion.quantity,
+  unit: portion.serving?.name ?? 'g',
+  ...portionNutrition(portion),
+  foodId: portion.food.id,
+});
+
+/** The item with its amount changed and its nutrition scaled to match */
+export const scaleItem = (item: MealItem, quantity: number): MealItem => {
+  if (item.quantity <= 0) return { ...item, quantity };
+  const factor = quantity / item.quantity;
+
+  return {
+    ...item,
+    quantity,
+    calories: Math.round(item.calories * factor),
+    macros: {
+      carbs: round(item.macros.carbs * factor),
+      protein: round(item.macros.protein * factor),
+      fat: round(item.macros.fat * factor),
+    },
+    nutrients: scaleNutrients(item.nutrients, factor),
+  };
+};
+
+/** e.g. "2 × 1 cup" or "150 g" */
+export const describeItemAmount = ({ quantity, unit }: Pick<MealItem, 'quantity' | 'unit'>): string =>
+  unit === 'g' || unit === 'ml' ? `${quantity} ${unit}` : `${quantity} × ${unit}`;
+
+/** Calories, macros and nutrients of a meal's items added up */
+export const mealTotals = (items: MealItem[]): Pick<Meal, 'calories' | 'macros' | 'nutrients'> => {
+  const sum = (value: (item: MealItem) => number) => round(items.reduce((total, item) => total + value(item), 0));
+
+  return {
+    calories: sum(item => item.calories),
+    macros: {
+      carbs: sum(item => item.macros.carbs),
+      protein: sum(item => item.macros.protein),
+      fat: sum(item => item.macros.fat),
+    },
+    nutrients: sumNutrients(items.map(item => item.nutrients)),
+  };
+};
+
+/** The meal with its totals taken from its items, when it has any */
+export const withItemTotals = <T extends Pick<Meal, 'calories' | 'macros' | 'nutrients' | 'items'>>(meal: T): T =>
+  meal.items && meal.items.length > 0 ? { ...meal, ...mealTotals(meal.items) } : meal;
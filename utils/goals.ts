@@ -0,0 +1,38 @@
+import { DEFAULT_GOALS, GOAL_KEYS } from '../backend/src/shared/domain';
+import { GoalChange, Goals } from '../types';
+
+// Goals are a history of changes, as on the server (GoalService): a change
+// applies from its effectiveFrom day until the next one, so past days keep
+// being judged against the goals of their time.
+
+/** The goals that applied on a day (yyyy-MM-dd); history must be oldest first */
+export const goalsOn = (history: GoalChange[], date: string): Goals => {
+  let current: Goals = DEFAULT_GOALS;
+  for (const change of history) {
+    if (change.effectiveFrom > date) break;
+    current = change;
+  }
+
+  return Object.fromEntries(GOAL_KEYS.map(key => [key, current[key]])) as Goals;
+};
+
+/**
+ * The change stored for a day: goals left out keep the value that applied
+ * that day. Used by the storage backends that keep the history themselves.
+ */
+export const toGoalChange = (history: GoalChange[], effectiveFrom: string, changes: Partial<Goals>): GoalChange => {
+  const goals = goalsOn(history, effectiveFrom);
+  for (const key of GOAL_KEYS) {
+    if (changes[key] !== undefined) {
+      goals[key] = changes[key] as number;
+    }
+  }
+
+  return { ...goals, effectiveFrom };
+};
+
+/** Replace the change of the same day, keeping the history oldest first */
+export const withGoalChange = (history: GoalChange[], change: GoalChange): GoalChange[] =>
+  [...history.filter(item => item.effectiveFrom !== change.effectiveFrom), change].sort((a, b) =>
+    a.effectiveFrom.localeCompare(b.effectiveFrom)
+  );
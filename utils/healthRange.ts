@@ -0,0 +1,82 @@
+import { addDays, eachDayOfInterval, format, parseISO, startOfMonth, startOfWeek } from 'date-fns';
+import { DailyHealthData, FastingSession, HealthRangeBucket, HealthRangeRow } from '../types';
+
+// Client-side equivalent of GET /health/range, for storage backends that only
+// return raw days (Firestore, in-memory).
+
+const bucketStart = (day: Date, bucket: HealthRangeBucket): Date => {
+  if (bucket === 'week') return startOfWeek(day, { weekStartsOn: 1 });
+  if (bucket === 'month') return startOfMonth(day);
+  return day;
+};
+
+/** Hours of the given sessions falling on one local calendar day; active fasts run until now */
+const fastingHoursOn = (day: Date, sessions: FastingSession[]): number => {
+  const dayStart = day.getTime();
+  const dayEnd = addDays(day, 1).getTime();
+
+  return sessions.reduce((hours, session) => {
+    const start = Math.max(session.startTime.getTime(), dayStart);
+    const end = Math.min(session.endTime?.getTime() ?? Date.now(), dayEnd);
+    return end > start ? hours + (end - start) / (1000 * 60 * 60) : hours;
+  }, 0);
+};
+
+/**
+ * Aggregate days between two dates (yyyy-MM-dd, inclusive) into day, week or
+ * month buckets. Weeks start on Monday and averages are per logged day, as on
+ * the server.
+ */
+export const summarizeHealthRange = (
+  from: string,
+  to: string,
+  bucket: HealthRangeBucket,
+  days: DailyHealthData[],
+  sessions: FastingSession[]
+): HealthRangeRow[] => {
+  const byDate = new Map(days.map(day => [day.date, day]));
+  const rows = new Map<string, HealthRangeRow>();
+
+  for (const day of eachDayOfInterval({ start: parseISO(from), end: parseISO(to) })) {
+    const data = byDate.get(format(day, 'yyyy-MM-dd'));
+    const fastingHours = fastingHoursOn(day, sessions);
+    if (!data && fastingHours === 0) continue;
+
+    const start = format(bucketStart(day, bucket), 'yyyy-MM-dd');
+    const row = rows.get(start) ?? {
+      start,
+      days: 0,
+      totalSteps: 0,
+      avgSteps: 0,
+      totalCaloriesConsumed: 0,
+      avgCaloriesConsumed: 0,
+      totalCaloriesBurned: 0,
+      avgCaloriesBurned: 0,
+      totalWaterIntake: 0,
+      avgWaterIntake: 0,
+      totalWorkoutMinutes: 0,
+      avgWorkoutMinutes: 0,
+      totalFastingHours: 0,
+      avgFastingHours: 0,
+    };
+
+    row.days += 1;
+    row.totalSteps += data?.steps || 0;
+    row.totalCaloriesConsumed += data?.caloriesConsumed || 0;
+    row.totalCaloriesBurned += data?.caloriesBurned || 0;
+    row.totalWaterIntake += data?.waterIntake || 0;
+    row.totalWorkoutMinutes += (data?.workouts || []).reduce((sum, workout) => sum + (workout.duration || 0), 0);
+    row.totalFastingHours += fastingHours;
+    rows.set(start, row);
+  }
+
+  return [...rows.values()].map(row => ({
+    ...row,
+    avgSteps: row.totalSteps / row.days,
+    avgCaloriesConsumed: row.totalCaloriesConsumed / row.days,
+    avgCaloriesBurned: row.totalCaloriesBurned / row.days,
+    avgWaterIntake: row.totalWaterIntake / row.days,
+    avgWorkoutMinutes: row.totalWorkoutMinutes / row.days,
+    avgFastingHours: row.totalFastingHours / row.days,
+  }));
+};
@@ -0,0 +1,170 @@
+import { MEAL_TYPES, MealType } from '../backend/src/shared/domain';
+import { Goals, Meal } from '../types';
+
+// Macro targets: gram goals for carbs, protein and fat worked out from a
+// calorie goal, and what is left of them over the day's meals.
+
+export type Macros = Meal['macros'];
+
+export type MacroGoals = Pick<Goals, 'carbsGrams' | 'proteinGrams' | 'fatGrams'>;
+
+/** Percent of the calories from each macro; the three add up to 100 */
+export type MacroSplit = Macros;
+
+export type MacroPreset = 'balanced' | 'highProtein' | 'keto';
+
+export const MACRO_PRESETS: Record<MacroPreset, { label: string; split: MacroSplit }> = {
+  balanced: { label: 'Balanced', split: { carbs: 50, protein: 20, fat: 30 } },
+  highProtein: { label: 'High Protein', split: { carbs: 40, protein: 30, fat: 30 } },
+  keto: { label: 'Keto', split: { carbs: 5, protein: 25, fat: 70 } },
+};
+
+export const CALORIES_PER_GRAM: Macros = { carbs: 4, protein: 4, fat: 9 };
+
+// Share of the day's targets each meal type is suggested to cover
+export const MEAL_TYPE_SHARES: Record<MealType, number> = {
+  breakfast: 0.25,
+  lunch: 0.35,
+  dinner: 0.3,
+  snack: 0.1,
+};
+
+const toGoals = (grams: Macros): MacroGoals => ({
+  carbsGrams: Math.max(0, Math.round(grams.carbs)),
+  proteinGrams: Math.max(0, Math.round(grams.protein)),
+  fatGrams: Math.max(0, Math.round(grams.fat)),
+});
+
+/** Gram goals giving each macro its percent of the calories */
+export const gramsFromSplit = (calories: number, split: MacroSplit): MacroGoals =>
+  toGoals({
+    carbs: (calories * split.carbs) / 100 / CALORIES_PER_GRAM.carbs,
+    protein: (calories * split.protein) / 100 / CALORIES_PER_GRAM.protein,
+    fat: (calories * split.fat) / 100 / CALORIES_PER_GRAM.fat,
+  });
+
+/**
+ * Gram goals with protein set per kg of body weight. The calories left after
+ * protein are shared between carbs and fat in the split's proportion.
+ */
+export const gramsWithProteinPerKg = (
+  calories: number,
+  split: MacroSplit,
+  weight: number,
+  proteinPerKg: number
+): MacroGoals => {
+  const protein = weight * proteinPerKg;
+  const rest = Math.max(0, calories - protein * CALORIES_PER_GRAM.protein);
+  const carbShare = split.carbs + split.fat > 0 ? split.carbs / (split.carbs + split.fat) : 0;
+
+  return toGoals({
+    carbs: (rest * carbShare) / CALORIES_PER_GRAM.carbs,
+    protein,
+    fat: (rest * (1 - carbShare)) / CALORIES_PER_GRAM.fat,
+  });
+};
+
+/** Calories the gram goals add up to */
+export const macroCalories = (goals: MacroGoals): number =>
+  Math.round(
+    goals.carbsGrams * CALORIES_PER_GRAM.carbs +
+      goals.proteinGrams * CALORIES_PER_GRAM.protein +
+      goals.fatGrams * CALORIES_PER_GRAM.fat
+  );
+
+/** Percent of the gram goals' calories from each macro, rounded */
+export const splitFromGrams = (goals: MacroGoals): MacroSplit => {
+  const calories = macroCalories(goals);
+  const percent = (grams: number, perGram: number) => (calories > 0 ? Math.round((grams * perGram * 100) / calories) : 0);
+
+  return {
+    carbs: percent(goals.carbsGrams, CALORIES_PER_GRAM.carbs),
+    protein: percent(goals.proteinGrams, CALORIES_PER_GRAM.protein),
+    fat: percent(goals.fatGrams, CALORIES_PER_GRAM.fat),
+  };
+};
+
+/** The preset the gram goals were set from at this calorie goal, if any */
+export const matchingPreset = (goals: MacroGoals, calories: number): MacroPreset | null => {
+  const presets = Object.keys(MACRO_PRESETS) as MacroPreset[];
+  return (
+    presets.find(preset => {
+      const grams = gramsFromSplit(calories, MACRO_PRESETS[preset].split);
+      return (Object.keys(grams) as (keyof MacroGoals)[]).every(key => Math.abs(grams[key] - goals[key]) <= 1);
+    }) ?? null
+  );
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export interface MacroSettings {
+  preset: MacroPreset;
+  proteinPerKg?: number; // rounded to 0.1 g/kg
+}
+
+/**
+ * The preset, and protein per kg of the weight if it was set that way, the
+ * gram goals were set from at this calorie goal. Protein per kg leaves carbs
+ * and fat in the preset's proportion, which is what is matched then.
+ */
+export const matchingSettings = (goals: MacroGoals, calories: number, weight?: number): MacroSettings | null => {
+  const preset = matchingPreset(goals, calories);
+  if (preset) return { preset };
+  if (!weight || weight <= 0 || goals.proteinGrams <= 0) return null;
+
+  const presets = Object.keys(MACRO_PRESETS) as MacroPreset[];
+  const byWeight = presets.find(candidate => {
+    const grams = gramsWithProteinPerKg(calories, MACRO_PRESETS[candidate].split, goals.proteinGrams, 1);
+    return Math.abs(grams.carbsGrams - goals.carbsGrams) <= 1 && Math.abs(grams.fatGrams - goals.fatGrams) <= 1;
+  });
+  return byWeight ? { preset: byWeight, proteinPerKg: round(goals.proteinGrams / weight) } : null;
+};
+
+const eaten = (meals: Meal[]): Macros => ({
+  carbs: meals.reduce((sum, meal) => sum + (meal.macros?.carbs || 0), 0),
+  protein: meals.reduce((sum, meal) => sum + (meal.macros?.protein || 0), 0),
+  fat: meals.reduce((sum, meal) => sum + (meal.macros?.fat || 0), 0),
+});
+
+/** What is left of the macro goals after the meals; negative once over */
+export const remainingMacros = (goals: MacroGoals, meals: Meal[]): Macros => {
+  const total = eaten(meals);
+  return {
+    carbs: round(goals.carbsGrams - total.carbs),
+    protein: round(goals.proteinGrams - total.protein),
+    fat: round(goals.fatGrams - total.fat),
+  };
+};
+
+export interface MealTarget {
+  calories: number;
+  macros: Macros;
+}
+
+/**
+ * Suggested calories and macros for the meal types nothing was logged for
+ * yet: what is left of the day's goals, shared in MEAL_TYPE_SHARES
+ * proportion. Meal types already eaten get no suggestion.
+ */
+export const mealTypeTargets = (
+  goals: MacroGoals & Pick<Goals, 'caloriesIn'>,
+  meals: Meal[]
+): Partial<Record<MealType, MealTarget>> => {
+  const open = MEAL_TYPES.filter(type => !meals.some(meal => meal.type === type));
+  const shares = open.reduce((sum, type) => sum + MEAL_TYPE_SHARES[type], 0);
+  if (shares === 0) return {};
+
+  const left = remainingMacros(goals, meals);
+  const calories = goals.caloriesIn - meals.reduce((sum, meal) => sum + meal.calories, 0);
+  const part = (value: number, type: MealType) => Math.max(0, Math.round((value * MEAL_TYPE_SHARES[type]) / shares));
+
+  return Object.fromEntries(
+    open.map(type => [
+      type,
+      {
+        calories: part(calories, type),
+        macros: { carbs: part(left.carbs, type), protein: part(left.protein, type), fat: part(left.fat, type) },
+      },
+    ])
+  );
+};
@@ -0,0 +1,74 @@
+import { Meal, MealSuggestion, PlannedMeal, PlannedMealInput, ShoppingListItem } from '../types';
+
+// Meal planning: days of planned meals, what they add up to and what to buy
+// for them.
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/** A meal eaten before, planned again for a day */
+export const suggestionToPlannedMeal = (suggestion: MealSuggestion, date: string): PlannedMealInput => ({
+  date,
+  type: suggestion.type,
+  name: suggestion.name,
+  calories: suggestion.calories,
+  macros: { ...suggestion.macros },
+});
+
+/** Calories and macros of a day's planned meals */
+export const plannedTotals = (plannedMeals: PlannedMeal[]): Pick<PlannedMeal, 'calories' | 'macros'> => {
+  const sum = (value: (plannedMeal: PlannedMeal) => number) =>
+    round(plannedMeals.reduce((total, plannedMeal) => total + value(plannedMeal), 0));
+
+  return {
+    calories: sum(plannedMeal => plannedMeal.calories),
+    macros: {
+      carbs: sum(plannedMeal => plannedMeal.macros.carbs),
+      protein: sum(plannedMeal => plannedMeal.macros.protein),
+      fat: sum(plannedMeal => plannedMeal.macros.fat),
+    },
+  };
+};
+
+/**
+ * The meal to log for a planned meal, eaten at `timestamp`. HealthContext
+ * queues it under a new id, which the planned meal then keeps as loggedMealId.
+ */
+export const plannedMealToMeal = (plannedMeal: PlannedMeal, timestamp: Date): Meal => ({
+  id: plannedMeal.id,
+  type: plannedMeal.type,
+  name: plannedMeal.name,
+  calories: plannedMeal.calories,
+  macros: { ...plannedMeal.macros },
+  nutrients: plannedMeal.nutrients,
+  items: plannedMeal.items?.map(item => ({ ...item, macros: { ...item.macros } })),
+  timestamp,
+});
+
+/**
+ * Everything the planned meals that were not logged yet need, added up: the
+ * same food in the same unit is one line. Planned meals without items are
+ * listed by their own name, a serving each.
+ */
+export const shoppingList = (plannedMeals: PlannedMeal[]): ShoppingListItem[] => {
+  const lines = new Map<string, ShoppingListItem>();
+
+  for (const plannedMeal of plannedMeals) {
+    if (plannedMeal.loggedMealId) continue;
+
+    const items = plannedMeal.items?.length
+      ? plannedMeal.items
+      : [{ name: plannedMeal.name, quantity: 1, unit: 'serving' }];
+    for (const item of items) {
+      const key = `${item.name.trim().toLowerCase()}|${item.unit}`;
+      const line = lines.get(key);
+      if (line) {
+        line.quantity = round(line.quantity + item.quantity);
+        line.meals += 1;
+      } else {
+        lines.set(key, { name: item.name.trim(), quantity: item.quantity, unit: item.unit, meals: 1 });
+      }
+    }
+  }
+
+  return [...lines.values()].sort((a, b) => a.name.localeCompare(b.name) || a.unit.localeCompare(b.unit));
+};
@@ -0,0 +1,402 @@
+// Meals typed as text, e.g. "2 eggs, 1 slice toast with butter and a black
+// coffee". The grammar reads a list of foods, each with an optional quantity
+// and unit; the foods are then looked up in the user's meal history and the
+// bundled table of common foods (utils/commonFoods.ts).
+
+import { MealItem, MealSuggestion } from '../types';
+import { COMMON_FOOD_PHRASES, CommonFood, findCommonFood, nameWords } from './commonFoods';
+import { gramsNutrition } from './foods';
+
+export const MEAL_TEXT_UNITS = [
+  'g',
+  'kg',
+  'oz',
+  'lb',
+  'ml',
+  'l',
+  'cup',
+  'tbsp',
+  'tsp',
+  'glass',
+  'mug',
+  'pint',
+  'shot',
+  'splash',
+  'slice',
+  'piece',
+  'bowl',
+  'plate',
+  'can',
+  'bottle',
+  'serving',
+  'handful',
+  'scoop',
+  'square',
+  'pat',
+  'link',
+  'bar',
+] as const;
+
+export type MealTextUnit = (typeof MEAL_TEXT_UNITS)[number];
+
+// One food of the text
+export interface MealTextPart {
+  text: string; // the words it was read from
+  quantity: number; // 1 when none is given
+  unit?: MealTextUnit;
+  name: string; // lower case, without quantity and unit
+  side: boolean; // came after "with", e.g. the butter of "toast with butter"
+}
+
+// Spellings of each unit; plurals are read by dropping a trailing s or es
+const UNIT_WORDS: Record<string, MealTextUnit> = {
+  g: 'g',
+  gr: 'g',
+  gram: 'g',
+  gramme: 'g',
+  kg: 'kg',
+  kilo: 'kg',
+  kilogram: 'kg',
+  oz: 'oz',
+  ounce: 'oz',
+  lb: 'lb',
+  pound: 'lb',
+  ml: 'ml',
+  milliliter: 'ml',
+  millilitre: 'ml',
+  l: 'l',
+  liter: 'l',
+  litre: 'l',
+  cup: 'cup',
+  tbsp: 'tbsp',
+  tablespoon: 'tbsp',
+  tsp: 'tsp',
+  teaspoon: 'tsp',
+  glass: 'glass',
+  mug: 'mug',
+  pint: 'pint',
+  shot: 'shot',
+  splash: 'splash',
+  dash: 'splash',
+  slice: 'slice',
+  piece: 'piece',
+  pc: 'piece',
+  bowl: 'bowl',
+  plate: 'plate',
+  can: 'can',
+  tin: 'can',
+  bottle: 'bottle',
+  serving: 'serving',
+  portion: 'serving',
+  handful: 'handful',
+  scoop: 'scoop',
+  square: 'square',
+  pat: 'pat',
+  knob: 'pat',
+  link: 'link',
+  bar: 'bar',
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  dozen: 12,
+};
+
+// Fractions and vague amounts, longest first so "a couple of" wins over "a"
+const QUANTITY_PHRASES: Array<[RegExp, number]> = [
+  [/^half a dozen\b/, 6],
+  [/^a dozen\b/, 12],
+  [/^a couple(?: of)?\b/, 2],
+  [/^a few\b/, 3],
+  [/^(?:a|one) half(?: of)?\b/, 0.5],
+  [/^half\b(?: of\b)?(?: an?\b)?/, 0.5],
+  [/^(?:a|one) quarter(?: of)?\b/, 0.25],
+  [/^quarter\b(?: of\b)?(?: an?\b)?/, 0.25],
+  [/^(?:a|one) third(?: of)?\b/, 1 / 3],
+  [/^(?:a|an|some|the)\b/, 1],
+];
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2',
+  '⅓': '1/3',
+  '⅔': '2/3',
+  '¼': '1/4',
+  '¾': '3/4',
+  '⅛': '1/8',
+};
+
+// Words around a food that say nothing about it
+const FILLER = /^(?:of|a|an|the|some|my|x|×)\s+|\s+(?:please)$/;
+
+const NUMBER = String.raw`(?:\d+(?:\.\d+)?|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+// Start of a part that says how many of a food, e.g. "a" or "2"
+const COUNTED = new RegExp(String.raw`^(?:an?|${NUMBER})\b`);
+
+const toNumber = (word: string): number => NUMBER_WORDS[word] ?? parseFloat(word);
+
+/** The unit a word spells, e.g. "slices" or "tablespoon" */
+export const toUnit = (word: string): MealTextUnit | undefined =>
+  UNIT_WORDS[word] ?? UNIT_WORDS[word.replace(/e?s$/, '')] ?? UNIT_WORDS[word.replace(/s$/, '')];
+
+/**
+ * Lower case, one space between words (new lines are kept, they separate
+ * foods), fractions as "1/2", and every "and a half" folded into its number,
+ * so "one and a half cups" reads 1.5
+ */
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[½⅓⅔¼¾⅛]/g, fraction => ` ${UNICODE_FRACTIONS[fraction]}`)
+    .replace(/(\d)\s*-\s*(\d+\/\d+)/g, '$1 $2') // 1-1/2
+    .replace(/&/g, ' and ')
+    .replace(new RegExp(String.raw`\b(${NUMBER}) and (?:a )?half\b`, 'g'), (_, number) =>
+      String(toNumber(number) + 0.5)
+    )
+    .replace(/[^\S\n]+/g, ' ')
+    .trim();
+
+// What "half" or "quarter" needs after it to be an amount: "of", "a", a
+// number or a unit, so "half a cup" is one but "quarter pounder" a name
+const dividesNext = (matched: string, rest: string): boolean =>
+  /\b(?:of|an?)$/.test(matched) ||
+  new RegExp(String.raw`^(?:an?|${NUMBER}|\.\d)\b`).test(rest) ||
+  toUnit(rest.match(/^[a-z]+/)?.[0] ?? '') !== undefined;
+
+/**
+ * Leading amount of a part, e.g. "1 1/2", "2x", "half a" or "a couple of".
+ * A fraction over zero gives NaN, which drops the part.
+ */
+const readQuantity = (text: string): { quantity?: number; rest: string } => {
+  const mixed = text.match(/^(\d+) (\d+)\/(\d+)\b/);
+  if (mixed) {
+    const quantity = +mixed[3] > 0 ? +mixed[1] + +mixed[2] / +mixed[3] : NaN;
+    return { quantity, rest: text.slice(mixed[0].length) };
+  }
+
+  const fraction = text.match(/^(\d+)\/(\d+)\b/);
+  if (fraction) {
+    const quantity = +fraction[2] > 0 ? +fraction[1] / +fraction[2] : NaN;
+    return { quantity, rest: text.slice(fraction[0].length) };
+  }
+
+  // A number may be glued to its unit or to an x: "150g", "2x"
+  const number = text.match(/^(\d+(?:\.\d+)?|\.\d+)\s*(?:x|×)?(?=[a-z\s]|$)/);
+  if (number) {
+    return { quantity: parseFloat(number[1]), rest: text.slice(number[0].length) };
+  }
+
+  for (const [phrase, quantity] of QUANTITY_PHRASES) {
+    const match = text.match(phrase);
+    const rest = match ? text.slice(match[0].length).trim() : '';
+    if (match && (quantity >= 1 || dividesNext(match[0], rest))) {
+      // "half a cup" is half of what follows; "a half cup" the same
+      const more = quantity !== 1 ? rest.match(/^(?:an?|one)\b/) : null;
+      return { quantity, rest: more ? rest.slice(more[0].length) : rest };
+    }
+  }
+
+  const word = text.match(new RegExp(String.raw`^(${NUMBER})\b`));
+  if (word) {
+    return { quantity: toNumber(word[1]), rest: text.slice(word[0].length) };
+  }
+
+  return { rest: text };
+};
+
+/** A part of the text: amount, unit and food, in that order or as "eggs x2" */
+const readPart = (text: string, side: boolean): MealTextPart | null => {
+  let { quantity, rest } = readQuantity(text.trim());
+  rest = rest.trim();
+
+  let unit: MealTextUnit | undefined;
+  const unitMatch = rest.match(/^([a-z]+)\.?(?:\s+of)?(?:\s+|$)/);
+  if (unitMatch) {
+    unit = toUnit(unitMatch[1]);
+    // "a can" is a unit, but "can" alone before nothing is a food name
+    if (unit && rest.length > unitMatch[0].length) {
+      rest = rest.slice(unitMatch[0].length);
+    } else {
+      unit = undefined;
+    }
+  }
+
+  // Amount after the food: "eggs x2", "eggs (2)", "coffee 2 cups"
+  const trailing = rest.match(/\s+(?:x\s*|×\s*|\()?(\d+(?:\.\d+)?)\)?(?:\s*([a-z]+))?$/);
+  if (quantity === undefined && trailing && (!trailing[2] || toUnit(trailing[2]))) {
+    quantity = parseFloat(trailing[1]);
+    unit = unit ?? (trailing[2] ? toUnit(trailing[2]) : undefined);
+    rest = rest.slice(0, trailing.index);
+  }
+
+  let name = rest.replace(/[.!?()_]/g, ' ').trim();
+  for (let previous = ''; previous !== name; ) {
+    previous = name;
+    name = name.replace(FILLER, '').trim();
+  }
+
+  if (!name || !(quantity === undefined || quantity > 0)) {
+    return null;
+  }
+
+  return { text: text.replace(/_/g, ' ').trim(), quantity: quantity ?? 1, unit, name, side };
+};
+
+/**
+ * Split a typed meal into its foods. Commas, semicolons, new lines, "and",
+ * "plus" and "with" separate foods. Foods after "with" are sides, which
+ * default to a smaller amount, up to the next comma or counted food: "toast
+ * with butter and jam", but not the coffee of "toast with butter and a
+ * coffee". Names that contain a separator, such as "mac and cheese", are kept
+ * whole when listed in keepTogether.
+ */
+export const parseMealText = (text: string, keepTogether: string[] = []): MealTextPart[] => {
+  let normalized = normalize(text);
+
+  // Join the words of such names with underscores, which no separator matches
+  const joined = keepTogether
+    .map(name => name.toLowerCase())
+    .filter(name => /\b(?:and|with|plus)\b/.test(name))
+    .sort((a, b) => b.length - a.length);
+  for (const name of joined) {
+    normalized = normalized.replace(new RegExp(String.raw`\b${name}\b`, 'g'), name.replace(/ /g, '_'));
+  }
+
+  const parts: MealTextPart[] = [];
+  for (const clause of normalized.split(/\s*[,;\n+]\s*/)) {
+    // Pieces alternate with the separators between them
+    const pieces = clause.split(/\s+(and|plus|with)\s+/);
+    let side = false;
+    pieces.forEach((piece, index) => {
+      if (index % 2 === 1) {
+        // A food counted anew, "and a coffee" or "and 2 eggs", is no side
+        side = piece === 'with' || (side && !COUNTED.test(pieces[index + 1]));
+        return;
+      }
+      const part = readPart(piece, side);
+      if (part) parts.push(part);
+    });
+  }
+  return parts;
+};
+
+// A food of the text as an item of the meal
+export interface MealTextEntry {
+  part: MealTextPart;
+  item: MealItem;
+  // Where its nutrition comes from; null when no food matched and the
+  // calories are left to the user
+  source: 'history' | 'table' | null;
+}
+
+const MASS_GRAMS: Partial<Record<MealTextUnit, number>> = { g: 1, kg: 1000, oz: 28.35, lb: 453.6 };
+
+// Volumes are weighed as water unless the food knows better
+const VOLUME_ML: Partial<Record<MealTextUnit, number>> = {
+  ml: 1,
+  l: 1000,
+  cup: 240,
+  tbsp: 15,
+  tsp: 5,
+  glass: 250,
+  mug: 250,
+  pint: 473,
+  shot: 30,
+  splash: 30,
+};
+
+// Units a meal from the history can be counted in
+const SERVING_UNITS: Array<MealTextUnit | undefined> = [undefined, 'serving', 'bowl', 'plate', 'piece'];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const unitLabel = (unit: MealTextUnit) => (unit === 'g' || unit === 'ml' ? unit : `1 ${unit}`);
+
+const sameName = (a: string, b: string) => nameWords(a).join(' ') === nameWords(b).join(' ');
+
+/**
+ * The part as an item of a common food. Weights and volumes are converted to
+ * grams; a unit the food does not know, such as "a piece of" something
+ * measured in slices, counts as its usual serving.
+ */
+const commonFoodItem = (food: CommonFood, { quantity, unit, side }: MealTextPart): MealItem => {
+  const mass = unit && MASS_GRAMS[unit];
+  const volume = unit && (unit === 'ml' || unit === 'l' ? undefined : food.units?.[unit] ?? VOLUME_ML[unit]);
+
+  let grams: number;
+  let amount = { quantity, unit: '' };
+  if (mass) {
+    grams = quantity * mass;
+    amount = { quantity: round(grams), unit: 'g' };
+  } else if (unit === 'ml' || unit === 'l') {
+    grams = quantity * VOLUME_ML[unit]!;
+    amount = { quantity: round(grams), unit: 'ml' };
+  } else if (unit && volume) {
+    grams = quantity * volume;
+    amount = { quantity, unit: unitLabel(unit) };
+  } else {
+    const serving = side && !unit && food.side ? food.side : food.serving;
+    grams = quantity * serving.grams;
+    amount = { quantity, unit: serving.name };
+  }
+
+  return { name: food.name, ...amount, ...gramsNutrition(food, grams) };
+};
+
+const suggestionItem = (suggestion: MealSuggestion, quantity: number): MealItem => ({
+  name: suggestion.name,
+  quantity,
+  unit: 'serving',
+  calories: Math.round(suggestion.calories * quantity),
+  macros: {
+    carbs: round(suggestion.macros.carbs * quantity),
+    protein: round(suggestion.macros.protein * quantity),
+    fat: round(suggestion.macros.fat * quantity),
+  },
+});
+
+/**
+ * Items for a typed meal. A food logged before under the same name takes its
+ * nutrition from that meal, per serving; any other is looked up in the common
+ * foods. Foods found in neither come back with zero calories for the user to
+ * fill in.
+ */
+export const mealTextToItems = (text: string, history: MealSuggestion[] = []): MealTextEntry[] =>
+  parseMealText(text, COMMON_FOOD_PHRASES).map(part => {
+    const logged = SERVING_UNITS.includes(part.unit)
+      ? history.find(suggestion => sameName(suggestion.name, part.name))
+      : undefined;
+    if (logged) {
+      return { part, item: suggestionItem(logged, part.quantity), source: 'history' };
+    }
+
+    const common = findCommonFood(part.name);
+    if (common) {
+      return { part, item: commonFoodItem(common, part), source: 'table' };
+    }
+
+    return {
+      part,
+      item: {
+        name: capitalize(part.name),
+        quantity: part.unit && MASS_GRAMS[part.unit] ? round(part.quantity * MASS_GRAMS[part.unit]!) : part.quantity,
+        unit: part.unit ? unitLabel(MASS_GRAMS[part.unit] ? 'g' : part.unit) : 'serving',
+        calories: 0,
+        macros: { carbs: 0, protein: 0, fat: 0 },
+      },
+      source: null,
+    };
+  });
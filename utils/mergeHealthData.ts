@@ -0,0 +1,74 @@
+import { DailyHealthData, Meal } from '../types';
+
+// Merging two copies of the same day edited on different devices. Entries are
+// matched by id; `version` is bumped by the server on every update.
+
+interface Entity {
+  id: string;
+  version?: number;
+}
+
+/**
+ * Merge entries by id. For an entry on both sides the higher version wins,
+ * `incoming` on a tie. Entries only in `incoming` are always kept; entries
+ * only in `current` are kept when `keepCurrentOnly` is set (a union), and
+ * otherwise treated as deleted.
+ */
+export const mergeEntities = <T extends Entity>(current: T[], incoming: T[], keepCurrentOnly: boolean): T[] => {
+  const currentById = new Map(current.map(entity => [entity.id, entity]));
+  const incomingIds = new Set(incoming.map(entity => entity.id));
+
+  const merged = incoming.map(entity => {
+    const other = currentById.get(entity.id);
+    return other && (other.version ?? 0) > (entity.version ?? 0) ? other : entity;
+  });
+
+  if (keepCurrentOnly) {
+    merged.push(...current.filter(entity => !incomingIds.has(entity.id)));
+  }
+  return merged;
+};
+
+/**
+ * Merge a freshly loaded day into the copy on screen. The server copy is
+ * authoritative for which entries exist (unsent local adds are overlaid by the
+ * outbox), but an entry already edited locally to a newer version is kept
+ * until the server catches up.
+ */
+export const mergeDailyHealthData = (local: DailyHealthData | null, remote: DailyHealthData): DailyHealthData => {
+  if (!local || local.date !== remote.date) {
+    return remote;
+  }
+
+  const meals = mergeEntities(local.meals, remote.meals, false);
+  const waterEntries = mergeEntities(local.waterEntries, remote.waterEntries, false);
+
+  return {
+    ...remote,
+    meals,
+    waterEntries,
+    workouts: mergeEntities(local.workouts, remote.workouts, false),
+    fastingSessions: mergeEntities(local.fastingSessions, remote.fastingSessions, false),
+    caloriesConsumed: meals.reduce((sum, meal) => sum + meal.calories, 0),
+    waterIntake: waterEntries.reduce((sum, entry) => sum + entry.glasses, 0),
+  };
+};
+
+/**
+ * Three-way merge of a meal edited on this device from `base` with `current`,
+ * the server's copy after another device changed it. Fields edited here keep
+ * the edit and the rest take the server's value; calories, macros, nutrients
+ * and items go together, as a meal's totals come from its items.
+ */
+export const mergeMealEdit = (base: Meal, edited: Meal, current: Meal): Meal => {
+  const changed = (pick: (meal: Meal) => unknown) => JSON.stringify(pick(edited)) !== JSON.stringify(pick(base));
+  const nutrition = ({ calories, macros, nutrients, items }: Meal) => ({ calories, macros, nutrients, items });
+
+  return {
+    ...current,
+    type: changed(meal => meal.type) ? edited.type : current.type,
+    name: changed(meal => meal.name) ? edited.name : current.name,
+    timestamp: changed(meal => meal.timestamp.getTime()) ? edited.timestamp : current.timestamp,
+    ...(changed(nutrition) ? nutrition(edited) : {}),
+  };
+};
@@ -0,0 +1,93 @@
+import { NUTRIENT_KEYS } from '../backend/src/shared/domain';
+import { Meal, NutrientKey, Nutrients, UserProfile } from '../types';
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const NUTRIENT_LABELS: Record<NutrientKey, string> = {
+  fiber: 'Fiber',
+  sugar: 'Sugar',
+  saturatedFat: 'Saturated fat',
+  sodium: 'Sodium',
+  potassium: 'Potassium',
+  cholesterol: 'Cholesterol',
+  calcium: 'Calcium',
+  iron: 'Iron',
+  vitaminA: 'Vitamin A',
+  vitaminC: 'Vitamin C',
+  vitaminD: 'Vitamin D',
+};
+
+/** The known nutrients of untrusted input, e.g. a model's answer; anything but a non-negative number is dropped */
+export const toNutrients = (value: unknown): Nutrients | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const nutrients = value as Record<string, unknown>;
+  return sumNutrients([
+    Object.fromEntries(
+      NUTRIENT_KEYS.flatMap(key => {
+        const amount = nutrients[key];
+        return typeof amount === 'number' && Number.isFinite(amount) && amount >= 0 ? [[key, amount]] : [];
+      })
+    ),
+  ]);
+};
+
+/** The nutrients with every amount multiplied by factor, e.g. from per 100 g to a portion */
+export const scaleNutrients = (nutrients: Nutrients | undefined, factor: number): Nutrients | undefined =>
+  nutrients &&
+  Object.fromEntries(
+    NUTRIENT_KEYS.flatMap(key => {
+      const value = nutrients[key];
+      return value === undefined ? [] : [[key, round(value * factor)]];
+    })
+  );
+
+/**
+ * Nutrients added up. A nutrient none of them carries stays missing, and with
+ * none at all the result is undefined, so "not measured" is never shown as 0.
+ */
+export const sumNutrients = (list: Array<Nutrients | undefined>): Nutrients | undefined => {
+  const total: Nutrients = {};
+  for (const nutrients of list) {
+    for (const key of NUTRIENT_KEYS) {
+      const value = nutrients?.[key];
+      if (value !== undefined) total[key] = round((total[key] ?? 0) + value);
+    }
+  }
+  return Object.keys(total).length > 0 ? total : undefined;
+};
+
+/** Nutrients eaten over a day's meals */
+export const dayNutrients = (meals: Meal[]): Nutrients => sumNutrients(meals.map(meal => meal.nutrients)) ?? {};
+
+// A goal is an amount to reach (RDA or adequate intake), a limit one to stay under
+export interface NutrientTarget {
+  amount: number;
+  kind: 'goal' | 'limit';
+}
+
+/**
+ * Daily targets for an adult, from the US Dietary Reference Intakes and the
+ * Dietary Guidelines limits for a 2000 kcal diet. Sex and age pick the
+ * reference group; without a profile, or with gender 'other', the male values
+ * of a 30 year old are used.
+ */
+export const nutrientTargets = (profile?: UserProfile): Record<NutrientKey, NutrientTarget> => {
+  const female = profile?.gender === 'female';
+  const age = profile?.age || 30;
+  const goal = (amount: number): NutrientTarget => ({ amount, kind: 'goal' });
+  const limit = (amount: number): NutrientTarget => ({ amount, kind: 'limit' });
+
+  return {
+    fiber: goal(female ? (age > 50 ? 21 : 25) : age > 50 ? 30 : 38),
+    sugar: limit(50),
+    saturatedFat: limit(20),
+    sodium: limit(2300),
+    potassium: goal(female ? 2600 : 3400),
+    cholesterol: limit(300),
+    calcium: goal((female && age > 50) || age > 70 ? 1200 : 1000),
+    iron: goal(female && age <= 50 ? 18 : 8),
+    vitaminA: goal(female ? 700 : 900),
+    vitaminC: goal(female ? 75 : 90),
+    vitaminD: goal(age > 70 ? 20 : 15),
+  };
+};
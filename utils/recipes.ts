@@ -0,0 +1,29 @@
+import { Meal, MealItem, Recipe, RecipeInput } from '../types';
+import { mealTotals, scaleItem } from './foods';
+
+/** The recipe with its calories, macros and nutrients added up from its ingredients */
+export const withIngredientTotals = <T extends RecipeInput>(
+  recipe: T
+): T & Pick<Recipe, 'calories' | 'macros' | 'nutrients'> => ({
+  ...recipe,
+  ...mealTotals(recipe.ingredients),
+});
+
+/** Servings of a recipe as one item of a meal, e.g. 1.5 × "serving" of Chili */
+export const recipeToItem = (recipe: Recipe, servings: number): MealItem => {
+  const whole: MealItem = {
+    name: recipe.name,
+    quantity: recipe.servings,
+    unit: 'serving',
+    calories: recipe.calories,
+    macros: recipe.macros,
+    nutrients: recipe.nutrients,
+  };
+  return scaleItem(whole, servings);
+};
+
+/** Calories, macros and nutrients of one serving */
+export const perServing = (recipe: Recipe): Pick<Meal, 'calories' | 'macros' | 'nutrients'> => {
+  const { calories, macros, nutrients } = recipeToItem(recipe, 1);
+  return { calories, macros, nutrients };
+};